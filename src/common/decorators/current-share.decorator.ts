@@ -0,0 +1,19 @@
+// src/common/decorators/current-share.decorator.ts
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { SharePrincipal } from '@common/interfaces/index.interface';
+
+/**
+ * @CurrentShare()
+ * The share link principal set by ShareAccessGuard on /shared/:token/* routes
+ *
+ * @example
+ * @Public()
+ * @UseGuards(ShareAccessGuard)
+ * @Get('dashboard')
+ * getDashboard(@CurrentShare() share: SharePrincipal) { ... }
+ */
+export const CurrentShare = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): SharePrincipal | undefined => {
+    return ctx.switchToHttp().getRequest<Express.Request>().share;
+  },
+);
@@ -11,6 +11,7 @@ declare global {
       customerFilter?: { tenantId: string; customerId?: string };
       subscription?: import('@modules/subscriptions/entities/subscription.entity').Subscription;
       effectivePermissions?: Set<string>;
+      share?: import('@common/interfaces/share-access.interface').SharePrincipal;
     }
   }
 }
@@ -18,6 +18,9 @@ export * from './audit.decorator';
 // Also exports the Express Request augmentation (declare global namespace)
 export * from './current-user.decorator';
 
+// ── Share link principal (CurrentShare) ───────────────────────────────────────
+export * from './current-share.decorator';
+
 // ── Feature flag decorator (RequireFeature, FEATURE_KEY) ──────────────────────
 export * from './feature.decorator';
 
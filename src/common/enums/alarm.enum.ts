@@ -25,4 +25,15 @@ export enum AlarmCondition {
   CONTAINS              = 'CONTAINS',      // ← add
   NOT_CONTAINS          = 'NOT_CONTAINS',  // ← add
   EXISTS                = 'EXISTS',        // ← add
-}
\ No newline at end of file
+}
+export enum AlarmTimelineEventType {
+  CREATED          = 'created',
+  TRIGGERED        = 'triggered',
+  RETRIGGERED      = 'retriggered',       // raised again after a clear or acknowledge
+  SEVERITY_CHANGED = 'severity_changed',
+  ACKNOWLEDGED     = 'acknowledged',
+  ASSIGNED         = 'assigned',          // assigneeId null → unassigned
+  COMMENTED        = 'commented',
+  CLEARED          = 'cleared',
+  RESOLVED         = 'resolved',
+}
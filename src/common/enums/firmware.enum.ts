@@ -0,0 +1,28 @@
+// src/common/enums/firmware.enum.ts
+export enum FirmwareType {
+  FIRMWARE = 'FIRMWARE',
+  SOFTWARE = 'SOFTWARE',
+}
+
+export enum ChecksumAlgorithm {
+  MD5 = 'MD5',
+  SHA256 = 'SHA256',
+  SHA384 = 'SHA384',
+  SHA512 = 'SHA512',
+}
+
+export enum FirmwareRolloutStatus {
+  SCHEDULED = 'SCHEDULED',
+  IN_PROGRESS = 'IN_PROGRESS',
+  PAUSED = 'PAUSED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum FirmwareUpdateState {
+  QUEUED = 'QUEUED',
+  DOWNLOADING = 'DOWNLOADING',
+  VERIFYING = 'VERIFYING',
+  UPDATED = 'UPDATED',
+  FAILED = 'FAILED',
+}
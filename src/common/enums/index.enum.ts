@@ -28,4 +28,6 @@ export * from './email-template.enum'
 export * from './floor-plan.enum'
 export * from './integration.enum'
 export * from './node.enum'
-export * from './rule-chain.enum'
\ No newline at end of file
+export * from './rule-chain.enum'
+export * from './firmware.enum'
+export * from './network-server.enum'
\ No newline at end of file
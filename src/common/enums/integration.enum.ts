@@ -12,4 +12,9 @@ export enum IntegrationStatus {
   ACTIVE = 'active',
   INACTIVE = 'inactive',
   ERROR = 'error',
-}
\ No newline at end of file
+}
+export enum IntegrationEventType {
+  TELEMETRY = 'telemetry',
+  ALARM = 'alarm',
+  DEVICE = 'device',
+}
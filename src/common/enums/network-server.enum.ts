@@ -0,0 +1,10 @@
+// src/common/enums/network-server.enum.ts
+export enum NetworkServerType {
+  CHIRPSTACK = 'CHIRPSTACK',
+  TTS = 'TTS',
+}
+
+export enum DownlinkMode {
+  API = 'API',
+  MQTT = 'MQTT',
+}
@@ -2,6 +2,7 @@ export * from './customer-access.guard';
 export * from './feature-limit.guard';
 export * from './jwt-auth.guard';
 export * from './roles.guard';
+export * from './share-access.guard';
 export * from './ws-jwt.guard';
 export * from './throttle.guard';
 export * from './permission.guard';
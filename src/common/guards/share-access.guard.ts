@@ -0,0 +1,37 @@
+// src/common/guards/share-access.guard.ts
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { ShareAccessService } from '@modules/sharing/share-access.service';
+
+// Header carrying the token from POST /shared/:token/unlock
+export const SHARE_ACCESS_HEADER = 'x-share-access';
+
+/**
+ * ShareAccessGuard
+ * For @Public() routes under /shared/:token — resolves the link token into
+ * a read-only SharePrincipal on request.share (read it with @CurrentShare()).
+ * There is no request.user on these routes.
+ */
+@Injectable()
+export class ShareAccessGuard implements CanActivate {
+  constructor(private readonly shareAccess: ShareAccessService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    const token = request.params.token;
+
+    if (!token) throw new NotFoundException('Share not found');
+
+    request.share = await this.shareAccess.authorize(token, {
+      ip: request.ip ?? request.socket.remoteAddress,
+      accessToken: request.header(SHARE_ACCESS_HEADER),
+    });
+
+    return true;
+  }
+}
@@ -6,4 +6,56 @@ export interface AlarmRule {
   value: number;
   value2?: number; // For BETWEEN and OUTSIDE conditions
   duration?: number; // How long condition must be true (seconds)
-}
\ No newline at end of file
+  clearDuration?: number; // How long condition must be false before auto-clear (seconds, defaults to duration)
+  hysteresis?: number; // Deadband past the threshold a value must reach before it counts towards clearing
+  scriptId?: string; // Sandboxed script deciding the condition (replaces condition/value)
+}
+
+// ══════════════════════════════════════════════════════════════════════════
+// DEVICE PROFILE ALARM RULES (ThingsBoard-style)
+// ══════════════════════════════════════════════════════════════════════════
+
+export type ProfileAlarmSeverity =
+  | 'CRITICAL'
+  | 'MAJOR'
+  | 'MINOR'
+  | 'WARNING'
+  | 'INDETERMINATE';
+
+export interface ProfileAlarmPredicate {
+  type?: 'NUMERIC' | 'STRING' | 'BOOLEAN' | 'COMPLEX';
+  operation: string; // GREATER, LESS_OR_EQUAL, CONTAINS, AND/OR (COMPLEX) ...
+  value?: any; // Raw value or { defaultValue }
+  ignoreCase?: boolean; // STRING predicates
+  predicates?: ProfileAlarmPredicate[]; // COMPLEX predicates
+}
+
+export interface ProfileAlarmConditionFilter {
+  key: { key: string; type: string }; // type: TIME_SERIES | ATTRIBUTE
+  valueType?: string; // NUMERIC | STRING | BOOLEAN
+  predicate: ProfileAlarmPredicate;
+}
+
+export interface ProfileAlarmConditionSpec {
+  type: 'SIMPLE' | 'DURATION' | 'REPEATING' | string;
+  unit?: string; // DURATION: SECONDS | MINUTES | HOURS | DAYS
+  predicate?: { defaultValue: number }; // Duration length or repeat count
+  value?: number; // Shorthand for predicate.defaultValue
+}
+
+export interface ProfileAlarmCondition {
+  condition: ProfileAlarmConditionFilter[]; // AND-ed
+  spec?: ProfileAlarmConditionSpec;
+}
+
+export interface DeviceProfileAlarmRule {
+  id: string;
+  alarmType: string;
+  severity?: ProfileAlarmSeverity;
+  createCondition?: ProfileAlarmCondition;
+  // Per-severity create conditions; the highest severity that holds wins
+  createConditions?: Partial<Record<ProfileAlarmSeverity, ProfileAlarmCondition>>;
+  clearCondition?: ProfileAlarmCondition;
+  propagate?: boolean;
+  propagateRelationTypes?: string[];
+}
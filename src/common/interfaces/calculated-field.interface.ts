@@ -0,0 +1,28 @@
+// src/common/interfaces/calculated-field.interface.ts
+//
+// Telemetry keys a device profile derives from incoming messages. Results
+// are stored in Telemetry.data next to the decoded keys, so alarms,
+// automations and widgets read them like any other key.
+
+export type CalculatedFieldKind =
+  | 'EXPRESSION' // expression over the message (and earlier calculated keys)
+  | 'DELTA' // input - previous input
+  | 'RATE' // (input - previous input) per rateUnit
+  | 'COUNTER' // running total of a meter reading, surviving resets
+  | 'ASSET_AGGREGATE'; // input across all devices of the device's asset
+
+export interface DeviceCalculatedField {
+  id: string;
+  key: string; // Telemetry key the result is stored under
+  name?: string;
+  calculation: CalculatedFieldKind;
+  expression?: string; // EXPRESSION — e.g. 'voltage * current'
+  input?: string; // Source key of every other calculation
+  rateUnit?: 'SECOND' | 'MINUTE' | 'HOUR'; // RATE, default per second
+  rollover?: number; // COUNTER — meter wraps to 0 on reaching this (e.g. 65536)
+  aggregation?: 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT'; // ASSET_AGGREGATE, default SUM
+  maxAgeSeconds?: number; // ASSET_AGGREGATE — ignore older device values
+  unit?: string;
+  decimalPlaces?: number;
+  description?: string;
+}
@@ -150,6 +150,9 @@ export interface MqttConfig {
   // Features
   cleanSession: boolean | undefined;
   retainMessages: boolean | undefined;
+
+  // Broker HTTP auth/ACL hooks
+  authWebhookSecret: string | undefined;
 }
 
 // Migration Configuration
@@ -0,0 +1,96 @@
+// src/common/interfaces/escalation.interface.ts
+//
+// Alarm escalation — ordered steps that run while an alarm stays
+// unacknowledged. Each step waits delayMinutes after the previous one (the
+// first one after the alarm triggered) and then notifies its targets on every
+// listed channel:
+//
+//   steps: [
+//     { delayMinutes: 0,  targets: [{ type: 'USERS', userIds: [...] }], channels: ['email', 'in_app'] },
+//     { delayMinutes: 15, targets: [{ type: 'ROLE', role: 'tenant_admin' }], channels: ['sms'] },
+//     { delayMinutes: 30, targets: [{ type: 'ON_CALL', scheduleId: '...' }], channels: ['sms', 'push'] },
+//   ]
+//
+// The policy comes from the alarm, else its device's profile, else the
+// tenant default. Acknowledging, clearing, resolving or deleting the alarm
+// stops it.
+
+import { NotificationChannel, UserRole } from '@common/enums/index.enum';
+
+export type EscalationTargetType =
+  | 'USERS' // userIds
+  | 'ROLE' // every active user of the tenant with the role
+  | 'ON_CALL' // whoever is on call in scheduleId when the step runs
+  | 'ALARM_RECIPIENTS'; // the alarm's own recipients (userIds / emails / phones)
+
+export interface EscalationTarget {
+  type: EscalationTargetType;
+  userIds?: string[];
+  role?: UserRole;
+  scheduleId?: string;
+}
+
+export interface EscalationStep {
+  delayMinutes: number;
+  targets: EscalationTarget[];
+  channels: NotificationChannel[];
+}
+
+// ── On-call ─────────────────────────────────────────────────────────────────
+// A rotation hands over every shiftHours, starting with userIds[0] at
+// startsAt. Later rotations in the list win where they overlap (e.g. a
+// weekend rotation on top of the weekly one); an override beats them all.
+
+export interface OnCallRotation {
+  name?: string;
+  userIds: string[];
+  startsAt: string; // ISO
+  shiftHours: number;
+  endsAt?: string; // ISO, open-ended when unset
+}
+
+export interface OnCallOverride {
+  id: string;
+  userId: string;
+  startsAt: string; // ISO
+  endsAt: string; // ISO
+  reason?: string;
+  createdBy?: string;
+}
+
+export interface OnCallShift {
+  userId: string;
+  startsAt: Date;
+  endsAt: Date;
+  rotation?: string;
+  overrideId?: string;
+}
+
+// ── Escalation log ──────────────────────────────────────────────────────────
+
+export type EscalationLogAction =
+  | 'STARTED'
+  | 'NOTIFIED'
+  | 'STOPPED'
+  | 'EXHAUSTED';
+
+export interface EscalationRecipient {
+  userId?: string;
+  email?: string;
+  phone?: string;
+  // Resolved from an on-call schedule
+  scheduleId?: string;
+}
+
+export interface EscalationLogEntry {
+  at: string; // ISO
+  action: EscalationLogAction;
+  step?: number;
+  cycle?: number;
+  channels?: NotificationChannel[];
+  recipients?: EscalationRecipient[];
+  sent?: number;
+  warnings?: string[];
+  reason?: string;
+  userId?: string;
+}
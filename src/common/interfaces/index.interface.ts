@@ -2,4 +2,10 @@ export * from './alarm.interface';
 export * from './subscription.interface';
 export * from './oauth.interface';
 export * from './widget.interface'
-export * from './floor-plan.interface'
\ No newline at end of file
+export * from './floor-plan.interface';
+export * from './telemetry-retention.interface';
+export * from './calculated-field.interface';
+export * from './escalation.interface';
+export * from './notification-routing.interface';
+export * from './localization.interface';
+export * from './share-access.interface';
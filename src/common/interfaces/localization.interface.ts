@@ -0,0 +1,47 @@
+// src/common/interfaces/localization.interface.ts
+//
+// Locale-aware rendering of templates and notification messages. The
+// recipient's language picks the variant through a fallback chain
+// (requested → its base language → en → the template's own locale),
+// channel by channel, so a translation may carry only an SMS variant and
+// the email still falls back to another locale.
+
+// How a recipient wants text, dates and numbers — from UserSettings
+export interface RecipientLocale {
+  language: string; // en, ar, fr, es (regional tags like ar-SA fall back to ar)
+  timezone: string;
+  dateFormat: string; // DD/MM/YYYY, MM/DD/YYYY, YYYY-MM-DD
+  timeFormat: string; // 12h, 24h
+}
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Short variant for SMS / push / in-app
+export interface ChannelMessageTemplate {
+  title: string;
+  body: string;
+}
+
+export interface LocalizedTemplateContent {
+  subject?: string;
+  htmlTemplate?: string;
+  textTemplate?: string;
+  smsTemplate?: string;
+  pushTemplate?: ChannelMessageTemplate;
+  inAppTemplate?: ChannelMessageTemplate;
+}
+
+export interface RenderedMessage {
+  title: string;
+  body: string;
+  locale: string; // the variant actually used
+  direction: TextDirection;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  locale: string;
+  direction: TextDirection;
+}
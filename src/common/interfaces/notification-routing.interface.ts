@@ -0,0 +1,72 @@
+// src/common/interfaces/notification-routing.interface.ts
+//
+// Per-user notification routing — kept on UserSettings and applied by
+// NotificationsService.notify() whenever an event fans out to a user:
+//
+//   notificationRules: [
+//     { id, name: 'Critical on site A', match: { severities: ['critical'], customerIds: ['...'] },
+//       channels: ['sms', 'email', 'in_app'], quietHours: false },
+//     { id, name: 'Cold-room sensors', match: { types: ['alarm'], deviceProfileIds: ['...'] },
+//       channels: ['email'], rateLimit: { max: 5, windowMinutes: 60 } },
+//     { id, name: 'Mute device status', match: { types: ['device'] }, channels: [] },
+//   ]
+//
+// The first enabled rule that matches wins; with no match the caller's
+// default channels go through the coarse switches (emailNotifications, …).
+// There is no device-group entity, so a "device group" is either a device
+// profile or a device tag.
+
+import {
+  AlarmSeverity,
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+} from '@common/enums/index.enum';
+
+export interface NotificationRouteMatch {
+  types?: NotificationType[];
+  severities?: AlarmSeverity[]; // alarm notifications only
+  customerIds?: string[];
+  deviceProfileIds?: string[];
+  deviceTags?: string[]; // any of
+}
+
+export interface NotificationRateLimit {
+  max: number;
+  windowMinutes: number;
+}
+
+export interface NotificationRoutingRule {
+  id: string;
+  name?: string;
+  enabled: boolean;
+  match: NotificationRouteMatch;
+  channels: NotificationChannel[]; // empty mutes matching notifications
+  quietHours?: boolean; // honour the user's quiet hours (default true)
+  rateLimit?: NotificationRateLimit; // over the limit → digest / in-app only
+  digest?: boolean; // allow batching into the digest email (default true)
+}
+
+// Local times in the user's timezone; start > end spans midnight
+export interface NotificationQuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string; // HH:mm
+  days?: number[]; // 0 = Sunday, every day when unset
+  allowUrgent?: boolean; // urgent notifications still go out (default true)
+}
+
+export type NotificationDigestFrequency = 'off' | 'hourly' | 'daily';
+
+export interface NotificationDigestSettings {
+  frequency: NotificationDigestFrequency;
+  dailyHour?: number; // local hour for daily digests (default 8)
+  maxPriority?: NotificationPriority; // highest priority batched (default low)
+}
+
+// What notify() has to know about the event beyond the notification itself
+export interface NotificationRoutingContext {
+  severity?: AlarmSeverity;
+  customerId?: string;
+  deviceId?: string;
+}
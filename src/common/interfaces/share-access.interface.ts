@@ -0,0 +1,45 @@
+// src/common/interfaces/share-access.interface.ts
+//
+// A share link acting as a read-only principal. The token resolves to the
+// shared resource and the entities it may read:
+//
+//   dashboard  → every device / asset its widgets reference
+//   device     → that device
+//   asset      → that asset (attributes only)
+//   floor_plan → the devices placed on it
+//
+// Nothing else in the tenant is reachable through the link, and nothing can
+// be written. Expiry, the IP allow-list, the password session and
+// revocation are checked on every request and every socket subscription.
+
+import { ShareResourceType } from '@common/enums/index.enum';
+
+export interface SharePrincipal {
+  shareId: string;
+  tenantId: string;
+  resourceType: ShareResourceType;
+  resourceId: string;
+  resourceName?: string;
+  deviceIds: string[];
+  assetIds: string[];
+  expiresAt?: Date;
+}
+
+// What the caller presented besides the link token
+export interface ShareClient {
+  ip?: string;
+  accessToken?: string; // from POST /shared/:token/unlock, for password-protected links
+}
+
+// Payload of the short-lived token issued after the password was entered
+export interface ShareSessionPayload {
+  sub: string; // share id
+  typ: 'share';
+  ver: number; // Share.sessionVersion at unlock time
+}
+
+// Emitted as 'share.revoked' — open sockets of these shares are dropped
+export interface ShareRevokedEvent {
+  shareIds: string[];
+  reason: 'revoked' | 'updated';
+}
@@ -10,7 +10,8 @@ export interface SubscriptionLimits {
   users?: number; // -1 = unlimited
   customers?: number; // -1 = unlimited
   apiCallsPerMonth?: number; // -1 = unlimited
-  dataRetentionDays?: number;
+  dataRetentionDays?: number; // raw telemetry, -1 = unlimited
+  rollupRetentionDays?: number; // telemetry rollups, -1 = unlimited
   storageGB?: number;
 
   // Dashboard & Visualization
@@ -0,0 +1,19 @@
+// src/common/interfaces/telemetry-retention.interface.ts
+//
+// Telemetry retention in days — raw telemetry rows and their rollups expire
+// separately. -1 keeps forever; an unset field inherits from the next scope:
+//
+//   profile key → tenant key → profile → tenant → subscription plan
+//
+// Key settings beat scope defaults: a metering key the tenant must keep for
+// years stays even on profiles with a short default. The plan's
+// dataRetentionDays / rollupRetentionDays cap everything.
+
+export interface TelemetryRetentionPeriod {
+  rawDays?: number;
+  rollupDays?: number;
+}
+
+export interface TelemetryRetentionPolicy extends TelemetryRetentionPeriod {
+  keys?: Record<string, TelemetryRetentionPeriod>;
+}
@@ -1,4 +1,5 @@
 import * as crypto from 'crypto';
+import { BlockList, isIP } from 'net';
 
 /**
  * Generate a random string
@@ -187,6 +188,88 @@ export function chunkArray<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
+/**
+ * Render rows as RFC 4180 CSV. Columns default to the keys of the first row;
+ * objects are JSON-encoded and dates written as ISO strings.
+ */
+export function toCsv(
+  rows: Record<string, any>[],
+  columns: string[] = rows.length > 0 ? Object.keys(rows[0]) : [],
+): string {
+  const cell = (value: any): string => {
+    if (value === null || value === undefined) return '';
+    const text =
+      value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((line) => line.map(cell).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Parse RFC 4180 CSV into one object per row, keyed by the trimmed header
+ * cells. Blank lines are skipped; missing trailing cells become ''.
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      line.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line.push(cell);
+      lines.push(line);
+      line = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || line.length > 0) {
+    line.push(cell);
+    lines.push(line);
+  }
+
+  const rows = lines.filter((cells) =>
+    cells.some((value) => value.trim() !== ''),
+  );
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((name) => name.trim());
+  return rows
+    .slice(1)
+    .map((cells) =>
+      Object.fromEntries(
+        header.map((name, index) => [name, cells[index] ?? '']),
+      ),
+    );
+}
+
 /**
  * Remove duplicates from array
  */
@@ -294,3 +377,146 @@ export function generateVerificationCode(length: number = 6): string {
     .toString()
     .padStart(length, '0');
 }
+
+/**
+ * True when every topic matched by `filter` is also matched by the MQTT
+ * topic filter `pattern` (`+` one level, `#` the rest). A plain topic is a
+ * filter that matches only itself.
+ */
+export function mqttTopicCovers(pattern: string, filter: string): boolean {
+  const patternLevels = pattern.split('/');
+  const filterLevels = filter.split('/');
+
+  for (let i = 0; i < patternLevels.length; i++) {
+    const level = patternLevels[i];
+    if (level === '#') return true;
+    if (i >= filterLevels.length) return false;
+    if (filterLevels[i] === '#') return false;
+    if (level === '+') continue;
+    if (level !== filterLevels[i]) return false;
+  }
+
+  return patternLevels.length === filterLevels.length;
+}
+
+/**
+ * Wall-clock weekday (0 = Sunday), hour and minute of `date` in an IANA
+ * time zone. Unknown zones fall back to UTC.
+ */
+export function zonedClock(
+  date: Date,
+  timeZone: string,
+): { weekday: number; hour: number; minute: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    return {
+      weekday: date.getUTCDay(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+    };
+  }
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+  return {
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(
+      part('weekday') ?? 'Sun',
+    ),
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+  };
+}
+
+/**
+ * Validate an IP allow-list entry: a single IPv4/IPv6 address or a CIDR
+ * range (10.0.0.0/8, 2001:db8::/32)
+ */
+export function isValidIpRule(rule: string): boolean {
+  return parseIpRule(rule) !== null;
+}
+
+/**
+ * Check an address against allow-list entries. IPv4-mapped IPv6 addresses
+ * (::ffff:203.0.113.7, as Node reports them on dual-stack sockets) are
+ * matched as IPv4; invalid entries never match.
+ */
+export function ipInAllowList(ip: string, rules: string[]): boolean {
+  const mapped =
+    ip.toLowerCase().startsWith('::ffff:') && isIP(ip.slice(7)) === 4;
+  const address = mapped ? ip.slice(7) : ip;
+  const version = isIP(address);
+  if (!version) return false;
+
+  const list = new BlockList();
+  for (const rule of rules) {
+    const parsed = parseIpRule(rule);
+    if (!parsed) continue;
+    if (parsed.prefix === undefined) {
+      list.addAddress(parsed.address, parsed.type);
+    } else {
+      list.addSubnet(parsed.address, parsed.prefix, parsed.type);
+    }
+  }
+
+  return list.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Loopback, private, link-local, CGNAT, multicast and other special-purpose
+// ranges (RFC 6890) — never a legitimate target for tenant-configured traffic
+const RESERVED_NETWORKS = [
+  '0.0.0.0/8',
+  '10.0.0.0/8',
+  '100.64.0.0/10',
+  '127.0.0.0/8',
+  '169.254.0.0/16',
+  '172.16.0.0/12',
+  '192.0.0.0/24',
+  '192.0.2.0/24',
+  '192.168.0.0/16',
+  '198.18.0.0/15',
+  '198.51.100.0/24',
+  '203.0.113.0/24',
+  '224.0.0.0/3',
+  '::/127',
+  '64:ff9b::/96',
+  '100::/64',
+  '2001:db8::/32',
+  'fc00::/7',
+  'fe80::/10',
+  'ff00::/8',
+];
+
+/**
+ * Whether an address is loopback, private, link-local or otherwise reserved.
+ * IPv4-mapped IPv6 addresses are checked as IPv4; anything that is not an IP
+ * address counts as reserved.
+ */
+export function isReservedIp(ip: string): boolean {
+  const mapped =
+    ip.toLowerCase().startsWith('::ffff:') && isIP(ip.slice(7)) === 4;
+  return (
+    !isIP(mapped ? ip.slice(7) : ip) || ipInAllowList(ip, RESERVED_NETWORKS)
+  );
+}
+
+function parseIpRule(
+  rule: string,
+): { address: string; prefix?: number; type: 'ipv4' | 'ipv6' } | null {
+  const [address, prefix, ...rest] = rule.trim().split('/');
+  const version = isIP(address);
+  if (!version || rest.length) return null;
+
+  const type = version === 4 ? 'ipv4' : 'ipv6';
+  if (prefix === undefined) return { address, type };
+
+  const bits = Number(prefix);
+  if (!/^\d+$/.test(prefix) || bits > (version === 4 ? 32 : 128)) return null;
+  return { address, prefix: bits, type };
+}
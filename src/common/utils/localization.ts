@@ -0,0 +1,143 @@
+// src/common/utils/localization.ts
+import type {
+  RecipientLocale,
+  TextDirection,
+} from '@common/interfaces/index.interface';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const SUPPORTED_LANGUAGES = ['en', 'ar', 'fr', 'es'];
+
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur'];
+
+/** Mirrors the UserSettings column defaults */
+export const DEFAULT_RECIPIENT_LOCALE: RecipientLocale = {
+  language: DEFAULT_LANGUAGE,
+  timezone: 'Asia/Riyadh',
+  dateFormat: 'DD/MM/YYYY',
+  timeFormat: '12h',
+};
+
+/** ar-SA → ar */
+export function baseLanguage(locale: string): string {
+  return locale.split(/[-_]/)[0].toLowerCase();
+}
+
+/**
+ * Locales to try, most specific first: the requested one, its base
+ * language, the platform default, then whatever the template is written in
+ */
+export function localeChain(
+  requested?: string,
+  templateLocale?: string,
+): string[] {
+  const chain: string[] = [];
+  const add = (locale?: string) => {
+    if (locale && !chain.includes(locale)) chain.push(locale);
+  };
+
+  if (requested) {
+    add(requested);
+    add(baseLanguage(requested));
+  }
+  add(DEFAULT_LANGUAGE);
+  add(templateLocale);
+
+  return chain;
+}
+
+export function textDirection(locale: string): TextDirection {
+  return RTL_LANGUAGES.includes(baseLanguage(locale)) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Date and time in the recipient's zone, laid out by their dateFormat
+ * (DD/MM/YYYY, …) and timeFormat (12h / 24h), digits in their language
+ */
+export function formatDateTime(
+  value: Date | string | number,
+  recipient: RecipientLocale,
+): string {
+  const date = new Date(value);
+  const hour12 = recipient.timeFormat !== '24h';
+  const format = (timeZone: string) =>
+    new Intl.DateTimeFormat(baseLanguage(recipient.language), {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: hour12 ? 'h12' : 'h23',
+    }).formatToParts(date);
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = format(recipient.timezone);
+  } catch {
+    parts = format('UTC');
+  }
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+  const day = recipient.dateFormat
+    .replace('YYYY', part('year'))
+    .replace('MM', part('month'))
+    .replace('DD', part('day'));
+  const time = `${part('hour')}:${part('minute')}`;
+
+  return hour12 ? `${day} ${time} ${part('dayPeriod')}` : `${day} ${time}`;
+}
+
+export function formatNumber(
+  value: number,
+  recipient: RecipientLocale,
+  options: Intl.NumberFormatOptions = { maximumFractionDigits: 2 },
+): string {
+  return new Intl.NumberFormat(
+    baseLanguage(recipient.language),
+    options,
+  ).format(value);
+}
+
+/** Dates and numbers in template variables are formatted for the recipient */
+export function formatTemplateVariables(
+  variables: Record<string, any>,
+  recipient: RecipientLocale,
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => {
+      if (value instanceof Date) return [key, formatDateTime(value, recipient)];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return [key, formatNumber(value, recipient)];
+      }
+      return [key, value];
+    }),
+  );
+}
+
+/**
+ * Makes an HTML email read right-to-left for RTL locales, unless the
+ * template already sets dir="rtl" itself. The body content is wrapped as
+ * well because several mail clients drop <html>/<body> attributes.
+ */
+export function applyTextDirection(html: string, locale: string): string {
+  if (textDirection(locale) !== 'rtl' || /\sdir\s*=\s*["']?rtl/i.test(html)) {
+    return html;
+  }
+
+  const lang = baseLanguage(locale);
+  const open = `<div dir="rtl" lang="${lang}" style="direction: rtl; text-align: right;">`;
+
+  if (/<body[^>]*>/i.test(html) && /<\/body>/i.test(html)) {
+    return html
+      .replace(
+        /<html(?![^>]*\sdir=)([^>]*)>/i,
+        `<html dir="rtl" lang="${lang}"$1>`,
+      )
+      .replace(/<body([^>]*)>/i, `<body$1>${open}`)
+      .replace(/<\/body>/i, '</div></body>');
+  }
+
+  return `${open}${html}</div>`;
+}
@@ -36,5 +36,8 @@ export default registerAs(
     // Features
     cleanSession: process.env.MQTT_CLEAN_SESSION !== 'false',
     retainMessages: process.env.MQTT_RETAIN_MESSAGES === 'true',
+
+    // Broker HTTP auth/ACL hooks (EMQX, mosquitto-go-auth)
+    authWebhookSecret: process.env.MQTT_AUTH_WEBHOOK_SECRET,
   }),
 );
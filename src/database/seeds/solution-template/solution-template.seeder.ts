@@ -2,7 +2,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { SolutionTemplateCategory } from '@common/enums/index.enum';
+import {
+  AlarmCondition,
+  AlarmSeverity,
+  DeviceType,
+  SolutionTemplateCategory,
+} from '@common/enums/index.enum';
 import { SolutionTemplate, User, Tenant } from '@modules/index.entities';
 import { ISeeder } from '../seeder.interface';
 
@@ -55,9 +60,34 @@ export class SolutionTemplateSeeder implements ISeeder {
         isPremium: false,
         isSystem: true,
         configuration: {
-          devices: [{ type: 'Machine Sensor', count: 50 }],
-          dashboards: [{ name: 'Factory Overview' }],
-          rules: [{ type: 'Predictive Alert' }],
+          deviceProfiles: [{ ref: 'machine-profile', name: 'Machine Sensor', type: 'machine_sensor' }],
+          devices: [
+            { ref: 'machine-1', name: 'Machine Sensor 1', type: DeviceType.SENSOR, deviceProfileId: 'machine-profile' },
+          ],
+          dashboards: [
+            {
+              ref: 'factory-overview',
+              name: 'Factory Overview',
+              widgets: [
+                {
+                  type: 'timeseries',
+                  title: 'Machine Vibration',
+                  position: { x: 0, y: 0, w: 12, h: 4 },
+                  dataSource: { deviceIds: ['machine-1'], telemetryKeys: ['vibration'], timeRange: '24h' },
+                  visualization: { chartType: 'line', unit: 'mm/s' },
+                },
+              ],
+            },
+          ],
+          alarms: [
+            {
+              ref: 'vibration-alert',
+              name: 'Predictive Alert',
+              deviceId: 'machine-1',
+              severity: AlarmSeverity.WARNING,
+              rule: { telemetryKey: 'vibration', condition: AlarmCondition.GREATER_THAN, value: 7.1, duration: 300 },
+            },
+          ],
         },
       },
       {
@@ -82,8 +112,22 @@ export class SolutionTemplateSeeder implements ISeeder {
         isPremium: false,
         isSystem: true,
         configuration: {
-          devices: [{ type: 'Smart Thermostat', count: 5 }],
-          dashboards: [{ name: 'Home Hub' }],
+          devices: [{ ref: 'thermostat-1', name: 'Smart Thermostat', type: DeviceType.CONTROLLER }],
+          dashboards: [
+            {
+              ref: 'home-hub',
+              name: 'Home Hub',
+              widgets: [
+                {
+                  type: 'gauge',
+                  title: 'Living Room Temperature',
+                  position: { x: 0, y: 0, w: 4, h: 4 },
+                  dataSource: { deviceIds: ['thermostat-1'], telemetryKeys: ['temperature'] },
+                  visualization: { unit: '°C', min: 0, max: 40 },
+                },
+              ],
+            },
+          ],
         },
       },
       {
@@ -197,7 +241,7 @@ export class SolutionTemplateSeeder implements ISeeder {
         userId: users[0].id,
         tenantId: users[0].tenantId || tenants[0].id,
         configuration: {
-          devices: [{ type: 'Custom Sensor', count: 10 }],
+          devices: [{ ref: 'custom-sensor-1', name: 'Custom Sensor', type: DeviceType.SENSOR }],
         }
       },
     ];
@@ -8,9 +8,9 @@
 import * as mqtt from 'mqtt';
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository } from 'typeorm';
 import { Device, DeviceProtocol } from '@modules/devices/entities/device.entity';
-import { DeviceStatus } from '@common/enums/index.enum';
 import { DeviceListenerService } from '@modules/protocols/device-listener.service';
 import { StandardTelemetry } from '@common/interfaces/standard-telemetry.interface';
 
@@ -23,8 +23,16 @@ const UPLINK_TOPICS = [
   'application/1/device/+/event/+',
   'application/+/device/+/event/up',
   'application/+/device/+/event/+',
+  'devices/+/firmware/request/+/chunk/+',
+  'devices/+/rpc/response/+',
+  'provision/request',
+  'spBv1.0/#',
 ];
 
+// Sparkplug primary host id — edge nodes configured with it only publish
+// while spBv1.0/STATE/<id> reports online
+const SPARKPLUG_HOST_ID = process.env.SPARKPLUG_HOST_ID;
+
 @Injectable()
 export class MQTTService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(MQTTService.name);
@@ -35,6 +43,7 @@ export class MQTTService implements OnModuleInit, OnModuleDestroy {
     private readonly deviceListener: DeviceListenerService,
     @InjectRepository(Device)
     private readonly deviceRepository: Repository<Device>,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   async onModuleInit(): Promise<void> { await this.connect(); }
@@ -49,12 +58,23 @@ export class MQTTService implements OnModuleInit, OnModuleDestroy {
       password: process.env.MQTT_PASSWORD,
       clean: true,
       reconnectPeriod: 5000,
+      ...(SPARKPLUG_HOST_ID && {
+        will: {
+          topic: `spBv1.0/STATE/${SPARKPLUG_HOST_ID}`,
+          payload: Buffer.from(
+            JSON.stringify({ online: false, timestamp: Date.now() }),
+          ),
+          qos: 1,
+          retain: true,
+        },
+      }),
     });
 
     this.client.on('connect', () => {
       this.logger.log('MQTT broker connected');
       this.isConnected = true;
       this.subscribeToTopics();
+      this.publishSparkplugState();
     });
 
     this.client.on('error', (err) => {
@@ -85,21 +105,29 @@ export class MQTTService implements OnModuleInit, OnModuleDestroy {
 
   private async handleMessage(topic: string, rawMessage: Buffer): Promise<void> {
     try {
+      if (this.handleFirmwareRequest(topic, rawMessage)) return;
+      if (this.handleProvisionRequest(topic, rawMessage)) return;
+      if (this.handleRpcResponse(topic, rawMessage)) return;
+      if (this.handleNetworkServerMessage(topic, rawMessage)) return;
+      if (this.handleSparkplugMessage(topic, rawMessage)) return;
+
       const deviceKey = this.extractDeviceKey(topic);
       if (!deviceKey) {
         this.logger.warn(`Cannot extract device key from topic: ${topic}`);
         return;
       }
 
-      const device = await this.findDevice(topic, deviceKey);
+      const device = await this.findDevice(deviceKey);
       if (!device) {
-        this.logger.warn(`No device for key/devEUI: ${deviceKey}`);
+        this.logger.warn(`No device for key: ${deviceKey}`);
         return;
       }
 
+      // Status is left to DeviceConnectivityService ('device.activity'),
+      // which records the OFFLINE → ACTIVE transition
       void this.deviceRepository.update(
         { id: device.id },
-        { lastSeenAt: new Date(), status: DeviceStatus.ACTIVE },
+        { lastSeenAt: new Date() },
       );
 
       const telemetry = this.buildStandardTelemetry(topic, rawMessage, device);
@@ -109,6 +137,131 @@ export class MQTTService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  // ── Firmware chunk requests ────────────────────────────────────────────────
+  // devices/<deviceKey>/firmware/request/<requestId>/chunk/<index>, payload is
+  // the chunk size. Answered by FirmwareListener, not the telemetry pipeline.
+
+  private handleFirmwareRequest(topic: string, rawMessage: Buffer): boolean {
+    const parts = topic.split('/');
+    if (
+      parts[0] !== 'devices' ||
+      parts[2] !== 'firmware' ||
+      parts[3] !== 'request'
+    ) {
+      return false;
+    }
+
+    const chunkSize = parseInt(rawMessage.toString('utf-8'), 10);
+    this.eventEmitter.emit('firmware.chunk.requested', {
+      deviceKey: parts[1],
+      requestId: parts[4],
+      chunk: parseInt(parts[6], 10),
+      chunkSize: isNaN(chunkSize) ? undefined : chunkSize,
+    });
+    return true;
+  }
+
+  // ── Provision requests ─────────────────────────────────────────────────────
+  // provision/request carries the profile key/secret and device name or devEUI.
+  // The device has no deviceKey yet, so DeviceProvisioningListener answers on
+  // provision/response/<requestId | devEUI | deviceName>.
+
+  private handleProvisionRequest(topic: string, rawMessage: Buffer): boolean {
+    if (topic !== 'provision/request') return false;
+
+    let payload: Record<string, any>;
+    try {
+      payload = JSON.parse(rawMessage.toString('utf-8'));
+    } catch {
+      this.logger.warn('Ignoring provision request with invalid JSON payload');
+      return true;
+    }
+
+    this.eventEmitter.emit('device.provision.requested', payload);
+    return true;
+  }
+
+  // ── Command responses ──────────────────────────────────────────────────────
+  // devices/<deviceKey>/rpc/response/<requestId>, where requestId is the
+  // DeviceCommand id sent with the command. Resolved by DeviceCommandsListener.
+
+  private handleRpcResponse(topic: string, rawMessage: Buffer): boolean {
+    const parts = topic.split('/');
+    if (
+      parts[0] !== 'devices' ||
+      parts[2] !== 'rpc' ||
+      parts[3] !== 'response'
+    ) {
+      return false;
+    }
+
+    const text = rawMessage.toString('utf-8');
+    let response: unknown;
+    try {
+      response = JSON.parse(text);
+    } catch {
+      response = text;
+    }
+
+    this.eventEmitter.emit('device.rpc.response', {
+      deviceKey: parts[1],
+      requestId: parts[4],
+      response,
+    });
+    return true;
+  }
+
+  // ── ChirpStack on the platform broker ─────────────────────────────────────
+  // application/<app>/device/<devEUI>/event/<up|join|ack|txack|log> (and the
+  // legacy .../rx) — uplinks, joins and downlink events are all parsed by
+  // NetworkServerBridgeService, which also serves registered network servers.
+
+  private handleNetworkServerMessage(
+    topic: string,
+    rawMessage: Buffer,
+  ): boolean {
+    const parts = topic.split('/');
+    if (parts[0] !== 'application' || parts[2] !== 'device') return false;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawMessage.toString('utf-8'));
+    } catch {
+      this.logger.warn(`Ignoring non-JSON LoRaWAN message on ${topic}`);
+      return true;
+    }
+    if (!payload || typeof payload !== 'object') return true;
+
+    this.eventEmitter.emit('lorawan.platform.message', { topic, payload });
+    return true;
+  }
+
+  // ── Sparkplug B ────────────────────────────────────────────────────────────
+  // spBv1.0/<group>/<NBIRTH|NDATA|NDEATH|DBIRTH|DDATA|DDEATH|...>/<node>[/<device>]
+  // Protobuf payloads, decoded by SparkplugService.
+
+  private handleSparkplugMessage(topic: string, rawMessage: Buffer): boolean {
+    if (!topic.startsWith('spBv1.0/')) return false;
+
+    this.eventEmitter.emit('sparkplug.message', { topic, payload: rawMessage });
+    return true;
+  }
+
+  private publishSparkplugState(): void {
+    if (!SPARKPLUG_HOST_ID) return;
+
+    this.client?.publish(
+      `spBv1.0/STATE/${SPARKPLUG_HOST_ID}`,
+      JSON.stringify({ online: true, timestamp: Date.now() }),
+      { qos: 1, retain: true },
+      (err) => {
+        if (err) {
+          this.logger.error(`Sparkplug STATE not published: ${err.message}`);
+        }
+      },
+    );
+  }
+
   // ── Build StandardTelemetry ───────────────────────────────────────────────
 
   private buildStandardTelemetry(
@@ -220,6 +373,8 @@ export class MQTTService implements OnModuleInit, OnModuleDestroy {
         devEUI:       device.metadata?.devEUI       as string | undefined
                       ?? rawPayload?.devEUI,
         fPort,
+        // Deduplication key for gateway retransmissions
+        frameCounter: rawPayload?.fCnt ?? rawPayload?.fcnt,
       },
       rawPayload,
     };
@@ -230,22 +385,11 @@ export class MQTTService implements OnModuleInit, OnModuleDestroy {
   private extractDeviceKey(topic: string): string | null {
     const parts = topic.split('/');
     if (parts[0] === 'devices' && parts.length >= 3) return parts[1];
-    if (parts[0] === 'application' && parts[2] === 'device' && parts.length >= 4) return parts[3];
     return null;
   }
 
-  private async findDevice(topic: string, keyFromTopic: string): Promise<Device | null> {
-    const parts = topic.split('/');
-    if (parts[0] === 'application') {
-      // LoRaWAN topic — keyFromTopic is the devEUI
-      return this.deviceRepository
-        .createQueryBuilder('device')
-        .where(`device.metadata->>'devEUI' = :devEUI`, { devEUI: keyFromTopic })
-        .andWhere('device.deletedAt IS NULL')
-        .getOne();
-    }
-    // Generic MQTT topic — keyFromTopic is the deviceKey
-    return this.deviceRepository.findOne({ where: { deviceKey: keyFromTopic } });
+  private async findDevice(deviceKey: string): Promise<Device | null> {
+    return this.deviceRepository.findOne({ where: { deviceKey } });
   }
 
   // ── Publish ───────────────────────────────────────────────────────────────
@@ -295,6 +439,20 @@ async publish(topic: string, message: any): Promise<void> {
   });
 }
 
+  // Raw bytes (firmware chunks, Sparkplug payloads) — published as-is, not JSON-encoded
+  async publishBinary(topic: string, payload: Buffer): Promise<void> {
+    if (!this.client || !this.isConnected) {
+      throw new Error('MQTT client is not connected');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.client!.publish(topic, payload, { qos: 1 }, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
   async disconnect(): Promise<void> {
     if (this.client) {
       await this.client.end();
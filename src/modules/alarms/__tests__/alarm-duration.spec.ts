@@ -0,0 +1,286 @@
+// src/modules/alarms/__tests__/alarm-duration.spec.ts
+// Rule duration, clear delay and hysteresis — AlarmsService driving the real
+// AlarmStateService over an in-memory Redis
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { AlarmsService } from '../alarms.service';
+import { AlarmStateService } from '../alarm-state.service';
+import { DeviceProfileAlarmsService } from '../device-profile-alarms.service';
+import { Alarm } from '../entities/alarm.entity';
+import { Device } from '../../devices/entities/device.entity';
+import { User } from '../../users/entities/user.entity';
+import { ScriptsService } from '../../scripts/scripts.service';
+import { RedisService } from '@/lib/redis/redis.service';
+import { AlarmCondition, AlarmStatus } from '@common/enums/index.enum';
+import type { AlarmRule } from '@common/interfaces/index.interface';
+
+/** Just the hash commands AlarmStateService uses */
+class InMemoryRedis {
+  readonly hashes = new Map<string, Map<string, string>>();
+
+  multi() {
+    const ops: Array<() => unknown> = [];
+    const chain = {
+      hsetnx: (key: string, field: string, value: string) => {
+        ops.push(() => {
+          const hash = this.hash(key);
+          if (hash.has(field)) return 0;
+          hash.set(field, value);
+          return 1;
+        });
+        return chain;
+      },
+      hincrby: (key: string, field: string, by: number) => {
+        ops.push(() => {
+          const next = Number(this.hash(key).get(field) ?? 0) + by;
+          this.hash(key).set(field, String(next));
+          return next;
+        });
+        return chain;
+      },
+      hdel: (key: string, field: string) => {
+        ops.push(() => (this.hash(key).delete(field) ? 1 : 0));
+        return chain;
+      },
+      hget: (key: string, field: string) => {
+        ops.push(() => this.hash(key).get(field) ?? null);
+        return chain;
+      },
+      expire: () => {
+        ops.push(() => 1);
+        return chain;
+      },
+      exec: () => Promise.resolve(ops.map((op) => [null, op()])),
+    };
+    return chain;
+  }
+
+  del(key: string) {
+    return Promise.resolve(this.hashes.delete(key) ? 1 : 0);
+  }
+
+  private hash(key: string): Map<string, string> {
+    if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+    return this.hashes.get(key)!;
+  }
+}
+
+describe('AlarmsService — duration and hysteresis', () => {
+  let service: AlarmsService;
+  let redis: InMemoryRedis;
+  let now: number;
+
+  const device = { id: 'dev-1', tenantId: 'ten-1' };
+
+  const mockAlarmRepository = {
+    createQueryBuilder: jest.fn(),
+    save: jest.fn((alarm: Alarm) => Promise.resolve(alarm)),
+  };
+  const mockDeviceRepository = {
+    findOne: jest.fn().mockResolvedValue(device),
+  };
+  const mockEventEmitter = { emit: jest.fn() };
+
+  const buildAlarm = (rule: Partial<AlarmRule>): Alarm =>
+    Object.assign(new Alarm(), {
+      id: 'alarm-1',
+      tenantId: device.tenantId,
+      deviceId: device.id,
+      status: AlarmStatus.CLEARED,
+      triggerCount: 0,
+      autoClear: true,
+      isEnabled: true,
+      rule: {
+        telemetryKey: 'temperature',
+        condition: AlarmCondition.GREATER_THAN,
+        value: 30,
+        ...rule,
+      },
+    });
+
+  const givenAlarm = (alarm: Alarm) => {
+    mockAlarmRepository.createQueryBuilder.mockReturnValue({
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([alarm]),
+    });
+    return alarm;
+  };
+
+  /** Feed a sample `seconds` after the previous one */
+  const sample = async (value: number, seconds = 0) => {
+    now += seconds * 1000;
+    await service.checkAlarmConditions(device.id, 'temperature', value);
+  };
+
+  const emitted = (event: string) =>
+    mockEventEmitter.emit.mock.calls.filter(([name]) => name === event).length;
+
+  beforeEach(async () => {
+    redis = new InMemoryRedis();
+    now = Date.UTC(2026, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlarmsService,
+        AlarmStateService,
+        { provide: RedisService, useValue: redis },
+        { provide: getRepositoryToken(Alarm), useValue: mockAlarmRepository },
+        { provide: getRepositoryToken(Device), useValue: mockDeviceRepository },
+        { provide: getRepositoryToken(User), useValue: {} },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+        { provide: ScriptsService, useValue: {} },
+        { provide: DeviceProfileAlarmsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AlarmsService>(AlarmsService);
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('without a duration', () => {
+    it('should raise on the first matching sample', async () => {
+      const alarm = givenAlarm(buildAlarm({}));
+
+      await sample(31);
+
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+      expect(emitted('alarm.triggered')).toBe(1);
+      expect(redis.hashes.size).toBe(0);
+    });
+  });
+
+  describe('duration', () => {
+    it('should not raise before the condition held for the duration', async () => {
+      const alarm = givenAlarm(buildAlarm({ duration: 60 }));
+
+      await sample(31);
+      await sample(32, 30);
+
+      expect(alarm.status).toBe(AlarmStatus.CLEARED);
+      expect(emitted('alarm.triggered')).toBe(0);
+    });
+
+    it('should raise once the condition held for the duration', async () => {
+      const alarm = givenAlarm(buildAlarm({ duration: 60 }));
+
+      await sample(31);
+      await sample(32, 30);
+      await sample(33, 30);
+
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+      expect(alarm.currentValue).toBe(33);
+      expect(emitted('alarm.triggered')).toBe(1);
+    });
+
+    it('should restart the window when the condition breaks', async () => {
+      const alarm = givenAlarm(buildAlarm({ duration: 60 }));
+
+      await sample(31);
+      await sample(25, 40);
+      await sample(31, 10);
+      await sample(31, 40);
+
+      expect(alarm.status).toBe(AlarmStatus.CLEARED);
+
+      await sample(31, 20);
+
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+    });
+  });
+
+  describe('clear delay', () => {
+    it('should clear only after the clear condition held for clearDuration', async () => {
+      const alarm = givenAlarm(
+        buildAlarm({ duration: 10, clearDuration: 120 }),
+      );
+
+      await sample(31);
+      await sample(31, 10);
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+
+      await sample(20, 1);
+      await sample(20, 60);
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+
+      await sample(20, 60);
+      expect(alarm.status).toBe(AlarmStatus.CLEARED);
+      expect(emitted('alarm.cleared')).toBe(1);
+    });
+
+    it('should fall back to the raise duration when clearDuration is unset', async () => {
+      const alarm = givenAlarm(buildAlarm({ duration: 30 }));
+
+      await sample(31);
+      await sample(31, 30);
+      await sample(20, 1);
+      await sample(20, 29);
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+
+      await sample(20, 1);
+      expect(alarm.status).toBe(AlarmStatus.CLEARED);
+    });
+  });
+
+  describe('hysteresis', () => {
+    it('should not clear while the value stays inside the band', async () => {
+      const alarm = givenAlarm(buildAlarm({ hysteresis: 2 }));
+
+      await sample(31);
+      await sample(29);
+      await sample(28.5);
+
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+      expect(emitted('alarm.cleared')).toBe(0);
+    });
+
+    it('should clear once the value is past the band', async () => {
+      const alarm = givenAlarm(buildAlarm({ hysteresis: 2 }));
+
+      await sample(31);
+      await sample(27.5);
+
+      expect(alarm.status).toBe(AlarmStatus.CLEARED);
+    });
+
+    it('should restart the clear window for a sample inside the band', async () => {
+      const alarm = givenAlarm(
+        buildAlarm({ duration: 10, clearDuration: 60, hysteresis: 2 }),
+      );
+
+      await sample(31);
+      await sample(31, 10);
+      await sample(25, 1);
+      await sample(29, 50);
+      await sample(25, 20);
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+
+      await sample(25, 60);
+      expect(alarm.status).toBe(AlarmStatus.CLEARED);
+    });
+
+    it('should mirror the band for less-than rules', async () => {
+      const alarm = givenAlarm(
+        buildAlarm({
+          condition: AlarmCondition.LESS_THAN,
+          value: 10,
+          hysteresis: 1,
+        }),
+      );
+
+      await sample(9);
+      await sample(10.5);
+      expect(alarm.status).toBe(AlarmStatus.ACTIVE);
+
+      await sample(11.5);
+      expect(alarm.status).toBe(AlarmStatus.CLEARED);
+    });
+  });
+});
@@ -0,0 +1,491 @@
+// src/modules/alarms/__tests__/device-profile-alarms.spec.ts
+// Device-profile alarm rules — AND-ed create/clear conditions, specs,
+// per-severity escalation and propagation to the parent asset chain
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DeviceProfileAlarmsService } from '../device-profile-alarms.service';
+import { AlarmStateService } from '../alarm-state.service';
+import { Alarm } from '../entities/alarm.entity';
+import { Asset } from '../../assets/entities/asset.entity';
+import { Attribute } from '../../attributes/entities/attribute.entity';
+import { Device } from '../../devices/entities/device.entity';
+import { DeviceProfile } from '../../profiles/entities/device-profile.entity';
+import { RedisService } from '@/lib/redis/redis.service';
+import { AlarmSeverity, AlarmStatus } from '@common/enums/index.enum';
+import type {
+  DeviceProfileAlarmRule,
+  ProfileAlarmCondition,
+  ProfileAlarmConditionSpec,
+} from '@common/interfaces/index.interface';
+
+/** Hash commands for the pending state and the latest-values cache */
+class InMemoryRedis {
+  readonly hashes = new Map<string, Map<string, string>>();
+
+  multi() {
+    const ops: Array<() => unknown> = [];
+    const chain = {
+      hsetnx: (key: string, field: string, value: string) => {
+        ops.push(() => {
+          const hash = this.hash(key);
+          if (hash.has(field)) return 0;
+          hash.set(field, value);
+          return 1;
+        });
+        return chain;
+      },
+      hincrby: (key: string, field: string, by: number) => {
+        ops.push(() => {
+          const next = Number(this.hash(key).get(field) ?? 0) + by;
+          this.hash(key).set(field, String(next));
+          return next;
+        });
+        return chain;
+      },
+      hdel: (key: string, field: string) => {
+        ops.push(() => (this.hash(key).delete(field) ? 1 : 0));
+        return chain;
+      },
+      hget: (key: string, field: string) => {
+        ops.push(() => this.hash(key).get(field) ?? null);
+        return chain;
+      },
+      expire: () => {
+        ops.push(() => 1);
+        return chain;
+      },
+      exec: () => Promise.resolve(ops.map((op) => [null, op()])),
+    };
+    return chain;
+  }
+
+  hgetall(key: string) {
+    return Promise.resolve(Object.fromEntries(this.hash(key)));
+  }
+
+  hmset(key: string, values: Record<string, string>) {
+    for (const [field, value] of Object.entries(values)) {
+      this.hash(key).set(field, value);
+    }
+    return Promise.resolve('OK');
+  }
+
+  expire() {
+    return Promise.resolve(1);
+  }
+
+  del(key: string) {
+    return Promise.resolve(this.hashes.delete(key) ? 1 : 0);
+  }
+
+  private hash(key: string): Map<string, string> {
+    if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+    return this.hashes.get(key)!;
+  }
+}
+
+describe('DeviceProfileAlarmsService', () => {
+  let service: DeviceProfileAlarmsService;
+  let rules: DeviceProfileAlarmRule[];
+  let attributes: Attribute[];
+  let open: Alarm | null;
+  let now: number;
+
+  const device = Object.assign(new Device(), {
+    id: 'dev-1',
+    tenantId: 'ten-1',
+    deviceProfileId: 'profile-1',
+    assetId: 'room-1',
+  });
+
+  let assets: Record<string, { id: string; parentAssetId?: string }>;
+
+  const mockAlarmRepository = {
+    findOne: jest.fn(() => Promise.resolve(open)),
+    create: jest.fn((data: Partial<Alarm>) =>
+      Object.assign(new Alarm(), { id: 'alarm-1', triggerCount: 0 }, data),
+    ),
+    save: jest.fn((alarm: Alarm) => {
+      open = alarm.status === AlarmStatus.ACTIVE ? alarm : null;
+      return Promise.resolve(alarm);
+    }),
+  };
+  const mockProfileRepository = {
+    findOne: jest.fn(() =>
+      Promise.resolve(
+        Object.assign(new DeviceProfile(), {
+          id: 'profile-1',
+          alarmRules: rules,
+        }),
+      ),
+    ),
+  };
+  const mockAssetRepository = {
+    findOne: jest.fn(({ where }: { where: { id: string } }) =>
+      Promise.resolve(assets[where.id] ?? null),
+    ),
+  };
+  const mockAttributeRepository = {
+    find: jest.fn(() => Promise.resolve(attributes)),
+  };
+  const mockEventEmitter = { emit: jest.fn() };
+
+  const above = (
+    key: string,
+    value: number,
+    spec?: ProfileAlarmConditionSpec,
+  ): ProfileAlarmCondition => ({
+    condition: [
+      {
+        key: { key, type: 'TIME_SERIES' },
+        valueType: 'NUMERIC',
+        predicate: { operation: 'GREATER', value: { defaultValue: value } },
+      },
+    ],
+    spec,
+  });
+
+  const below = (key: string, value: number): ProfileAlarmCondition => ({
+    condition: [
+      {
+        key: { key, type: 'TIME_SERIES' },
+        valueType: 'NUMERIC',
+        predicate: { operation: 'LESS_OR_EQUAL', value },
+      },
+    ],
+  });
+
+  const givenRule = (rule: Partial<DeviceProfileAlarmRule>) => {
+    rules = [{ id: 'rule-1', alarmType: 'High Temperature', ...rule }];
+  };
+
+  /** Feed a sample `seconds` after the previous one */
+  const sample = async (values: Record<string, any>, seconds = 0) => {
+    now += seconds * 1000;
+    await service.processTelemetry(device, values);
+  };
+
+  const emitted = (event: string): unknown[] =>
+    mockEventEmitter.emit.mock.calls
+      .filter(([name]) => name === event)
+      .map(([, payload]) => payload as unknown);
+
+  beforeEach(async () => {
+    rules = [];
+    attributes = [];
+    // room-1 → floor-1 → building-1
+    assets = {
+      'room-1': { id: 'room-1', parentAssetId: 'floor-1' },
+      'floor-1': { id: 'floor-1', parentAssetId: 'building-1' },
+      'building-1': { id: 'building-1' },
+    };
+    open = null;
+    now = Date.UTC(2026, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeviceProfileAlarmsService,
+        AlarmStateService,
+        { provide: RedisService, useValue: new InMemoryRedis() },
+        { provide: getRepositoryToken(Alarm), useValue: mockAlarmRepository },
+        {
+          provide: getRepositoryToken(DeviceProfile),
+          useValue: mockProfileRepository,
+        },
+        { provide: getRepositoryToken(Asset), useValue: mockAssetRepository },
+        {
+          provide: getRepositoryToken(Attribute),
+          useValue: mockAttributeRepository,
+        },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<DeviceProfileAlarmsService>(
+      DeviceProfileAlarmsService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CONDITIONS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('create / clear conditions', () => {
+    it('should raise once every AND-ed filter holds, across samples', async () => {
+      givenRule({
+        createCondition: {
+          condition: [
+            ...above('temperature', 30).condition,
+            ...above('humidity', 80).condition,
+          ],
+        },
+      });
+
+      await sample({ temperature: 31 });
+      expect(open).toBeNull();
+
+      // temperature comes from the latest-values cache
+      await sample({ humidity: 85 });
+
+      expect(open).toMatchObject({
+        tenantId: 'ten-1',
+        deviceId: 'dev-1',
+        profileRuleId: 'rule-1',
+        name: 'High Temperature',
+        status: AlarmStatus.ACTIVE,
+        severity: AlarmSeverity.WARNING,
+      });
+      expect(emitted('alarm.triggered')).toHaveLength(1);
+    });
+
+    it('should skip rules that use none of the sample keys', async () => {
+      givenRule({ createCondition: above('temperature', 30) });
+
+      await sample({ battery: 3.1 });
+
+      expect(mockAlarmRepository.findOne).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('should clear the open alarm when the clear condition holds', async () => {
+      givenRule({
+        createCondition: above('temperature', 30),
+        clearCondition: below('temperature', 25),
+      });
+
+      await sample({ temperature: 31 });
+      const raised = open;
+      await sample({ temperature: 28 });
+      expect(open).toBe(raised);
+
+      await sample({ temperature: 24 });
+
+      expect(open).toBeNull();
+      expect(raised?.status).toBe(AlarmStatus.CLEARED);
+      expect(emitted('alarm.cleared')).toHaveLength(1);
+    });
+
+    it('should keep an alarm without a clear condition open', async () => {
+      givenRule({ createCondition: above('temperature', 30) });
+
+      await sample({ temperature: 31 });
+      await sample({ temperature: 10 });
+
+      expect(open?.status).toBe(AlarmStatus.ACTIVE);
+      expect(open?.autoClear).toBe(false);
+    });
+
+    it('should read ATTRIBUTE keys from the device attributes', async () => {
+      const monitored = Object.assign(new Attribute(), {
+        attributeKey: 'monitored',
+      });
+      monitored.setValue(true);
+      attributes = [monitored];
+
+      givenRule({
+        createCondition: {
+          condition: [
+            ...above('temperature', 30).condition,
+            {
+              key: { key: 'monitored', type: 'ATTRIBUTE' },
+              valueType: 'BOOLEAN',
+              predicate: { operation: 'EQUAL', value: true },
+            },
+          ],
+        },
+      });
+
+      await sample({ temperature: 31 });
+      expect(open).not.toBeNull();
+
+      open = null;
+      monitored.setValue(false);
+      await sample({ temperature: 32 });
+      expect(open).toBeNull();
+    });
+  });
+
+  describe('specs', () => {
+    it('should raise a DURATION rule once the condition held long enough', async () => {
+      givenRule({
+        createCondition: above('temperature', 30, {
+          type: 'DURATION',
+          unit: 'MINUTES',
+          predicate: { defaultValue: 2 },
+        }),
+      });
+
+      await sample({ temperature: 31 });
+      await sample({ temperature: 31 }, 60);
+      expect(open).toBeNull();
+
+      await sample({ temperature: 31 }, 60);
+      expect(open?.status).toBe(AlarmStatus.ACTIVE);
+    });
+
+    it('should restart a DURATION window when the condition breaks', async () => {
+      givenRule({
+        createCondition: above('temperature', 30, {
+          type: 'DURATION',
+          value: 60,
+        }),
+      });
+
+      await sample({ temperature: 31 });
+      await sample({ temperature: 20 }, 50);
+      await sample({ temperature: 31 }, 10);
+      await sample({ temperature: 31 }, 50);
+      expect(open).toBeNull();
+
+      await sample({ temperature: 31 }, 10);
+      expect(open).not.toBeNull();
+    });
+
+    it('should raise a REPEATING rule after N consecutive samples', async () => {
+      givenRule({
+        createCondition: above('temperature', 30, {
+          type: 'REPEATING',
+          value: 3,
+        }),
+      });
+
+      await sample({ temperature: 31 });
+      await sample({ temperature: 31 });
+      await sample({ temperature: 20 });
+      await sample({ temperature: 31 });
+      await sample({ temperature: 31 });
+      expect(open).toBeNull();
+
+      await sample({ temperature: 31 });
+      expect(open).not.toBeNull();
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ESCALATION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('per-severity escalation', () => {
+    beforeEach(() => {
+      givenRule({
+        createConditions: {
+          MAJOR: above('temperature', 30),
+          CRITICAL: above('temperature', 50),
+        },
+        clearCondition: below('temperature', 25),
+      });
+    });
+
+    it('should raise at the highest severity that holds', async () => {
+      await sample({ temperature: 55 });
+
+      expect(open?.severity).toBe(AlarmSeverity.CRITICAL);
+      expect(emitted('alarm.triggered')).toHaveLength(1);
+    });
+
+    it('should escalate and de-escalate the same alarm', async () => {
+      await sample({ temperature: 35 });
+      const raised = open;
+      expect(raised?.severity).toBe(AlarmSeverity.ERROR);
+
+      await sample({ temperature: 55 });
+      expect(open).toBe(raised);
+      expect(open?.severity).toBe(AlarmSeverity.CRITICAL);
+
+      await sample({ temperature: 40 });
+      expect(open).toBe(raised);
+      expect(open?.severity).toBe(AlarmSeverity.ERROR);
+
+      expect(mockAlarmRepository.create).toHaveBeenCalledTimes(1);
+      expect(emitted('alarm.triggered')).toHaveLength(1);
+      expect(emitted('alarm.updated')).toEqual([
+        { alarm: raised, previousSeverity: AlarmSeverity.ERROR },
+        { alarm: raised, previousSeverity: AlarmSeverity.CRITICAL },
+      ]);
+    });
+
+    it('should not write while the severity is unchanged', async () => {
+      await sample({ temperature: 35 });
+      await sample({ temperature: 36 });
+      await sample({ temperature: 37 });
+
+      expect(mockAlarmRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should clear from any severity', async () => {
+      await sample({ temperature: 55 });
+      await sample({ temperature: 20 });
+
+      expect(open).toBeNull();
+      expect(emitted('alarm.cleared')).toHaveLength(1);
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PROPAGATION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('propagation', () => {
+    it('should propagate to the parent asset chain, nearest first', async () => {
+      givenRule({ createCondition: above('temperature', 30), propagate: true });
+
+      await sample({ temperature: 31 });
+
+      expect(open?.propagatedAssetIds).toEqual([
+        'room-1',
+        'floor-1',
+        'building-1',
+      ]);
+      expect(mockAssetRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'room-1', tenantId: 'ten-1' },
+        select: ['id', 'parentAssetId'],
+      });
+    });
+
+    it('should not propagate unless the rule asks for it', async () => {
+      givenRule({ createCondition: above('temperature', 30) });
+
+      await sample({ temperature: 31 });
+
+      expect(open?.propagatedAssetIds).toBeUndefined();
+      expect(mockAssetRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should not propagate over relation types other than containment', async () => {
+      givenRule({
+        createCondition: above('temperature', 30),
+        propagate: true,
+        propagateRelationTypes: ['Manages'],
+      });
+
+      await sample({ temperature: 31 });
+
+      expect(open?.propagatedAssetIds).toBeUndefined();
+    });
+
+    it('should stop at a cycle in the asset hierarchy', async () => {
+      assets['building-1'].parentAssetId = 'room-1';
+      givenRule({
+        createCondition: above('temperature', 30),
+        propagate: true,
+        propagateRelationTypes: ['Contains'],
+      });
+
+      await sample({ temperature: 31 });
+
+      expect(open?.propagatedAssetIds).toEqual([
+        'room-1',
+        'floor-1',
+        'building-1',
+      ]);
+    });
+  });
+});
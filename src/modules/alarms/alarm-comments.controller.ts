@@ -0,0 +1,84 @@
+// src/modules/alarms/alarm-comments.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AlarmCommentsService } from './alarm-comments.service';
+import {
+  CreateAlarmCommentDto,
+  UpdateAlarmCommentDto,
+} from './dto/alarm-comment.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { ParseIdPipe } from '@common/pipes/parse-id.pipe';
+import { User } from '@modules/users/entities/user.entity';
+
+@ApiTags('alarms')
+@Controller('alarms/:alarmId/comments')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class AlarmCommentsController {
+  constructor(private readonly commentsService: AlarmCommentsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Comment threads of an alarm' })
+  @ApiResponse({ status: 404, description: 'Alarm not found' })
+  findAll(
+    @Param('alarmId', ParseIdPipe) alarmId: string,
+    @CurrentUser() user: User,
+  ) {
+    return this.commentsService.findAll(alarmId, user);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Comment on an alarm (mentioned users are notified)',
+  })
+  @ApiResponse({ status: 201, description: 'Comment added' })
+  @ApiResponse({ status: 400, description: 'Unknown mentioned users' })
+  create(
+    @Param('alarmId', ParseIdPipe) alarmId: string,
+    @CurrentUser() user: User,
+    @Body() dto: CreateAlarmCommentDto,
+  ) {
+    return this.commentsService.create(alarmId, user, dto);
+  }
+
+  @Patch(':commentId')
+  @ApiOperation({ summary: 'Edit a comment (author only)' })
+  @ApiResponse({ status: 403, description: 'Not the author' })
+  update(
+    @Param('alarmId', ParseIdPipe) alarmId: string,
+    @Param('commentId', ParseIdPipe) commentId: string,
+    @CurrentUser() user: User,
+    @Body() dto: UpdateAlarmCommentDto,
+  ) {
+    return this.commentsService.update(alarmId, commentId, user, dto);
+  }
+
+  @Delete(':commentId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a comment (author or tenant admin)' })
+  @ApiResponse({ status: 204, description: 'Comment deleted' })
+  remove(
+    @Param('alarmId', ParseIdPipe) alarmId: string,
+    @Param('commentId', ParseIdPipe) commentId: string,
+    @CurrentUser() user: User,
+  ) {
+    return this.commentsService.remove(alarmId, commentId, user);
+  }
+}
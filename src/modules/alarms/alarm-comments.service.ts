@@ -0,0 +1,199 @@
+// src/modules/alarms/alarm-comments.service.ts
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { In, Repository } from 'typeorm';
+import { Alarm, AlarmComment, User } from '@modules/index.entities';
+import { UserRole, UserStatus } from '@common/enums/index.enum';
+import { AlarmsService } from './alarms.service';
+import {
+  CreateAlarmCommentDto,
+  UpdateAlarmCommentDto,
+} from './dto/alarm-comment.dto';
+
+@Injectable()
+export class AlarmCommentsService {
+  constructor(
+    @InjectRepository(AlarmComment)
+    private readonly commentRepository: Repository<AlarmComment>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly alarmsService: AlarmsService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /** Threads, oldest first, each with its replies */
+  async findAll(alarmId: string, user: User): Promise<AlarmComment[]> {
+    await this.alarmsService.findOne(alarmId, user.tenantId);
+
+    const comments = await this.commentRepository.find({
+      where: { alarmId },
+      relations: ['user'],
+      select: { user: { id: true, name: true, email: true } },
+      order: { createdAt: 'ASC' },
+    });
+
+    const threads = new Map<string, AlarmComment>();
+    for (const comment of comments) {
+      if (comment.parentId) continue;
+      comment.replies = [];
+      threads.set(comment.id, comment);
+    }
+    for (const comment of comments) {
+      if (!comment.parentId) continue;
+      threads.get(comment.parentId)?.replies?.push(comment);
+    }
+    return [...threads.values()];
+  }
+
+  async create(
+    alarmId: string,
+    user: User,
+    dto: CreateAlarmCommentDto,
+  ): Promise<AlarmComment> {
+    const alarm = await this.alarmsService.findOne(alarmId, user.tenantId);
+
+    let parentId: string | undefined;
+    if (dto.parentId) {
+      const parent = await this.commentRepository.findOne({
+        where: { id: dto.parentId, alarmId },
+      });
+      if (!parent) throw new NotFoundException('Parent comment not found');
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const mentionedUserIds = await this.validateMentions(
+      alarm,
+      dto.mentionedUserIds,
+    );
+
+    const comment = await this.commentRepository.save(
+      this.commentRepository.create({
+        tenantId: alarm.tenantId,
+        alarmId,
+        userId: user.id,
+        parentId,
+        body: dto.body,
+        mentionedUserIds,
+        createdBy: user.id,
+      }),
+    );
+
+    this.eventEmitter.emit('alarm.commented', {
+      alarm,
+      comment,
+      userId: user.id,
+    });
+    this.emitMentions(alarm, comment, user, mentionedUserIds);
+
+    return comment;
+  }
+
+  async update(
+    alarmId: string,
+    commentId: string,
+    user: User,
+    dto: UpdateAlarmCommentDto,
+  ): Promise<AlarmComment> {
+    const alarm = await this.alarmsService.findOne(alarmId, user.tenantId);
+    const comment = await this.findComment(alarmId, commentId);
+
+    if (comment.userId !== user.id) {
+      throw new ForbiddenException('Only the author can edit a comment');
+    }
+
+    const mentionedUserIds = await this.validateMentions(
+      alarm,
+      dto.mentionedUserIds ?? comment.mentionedUserIds,
+    );
+    const added = mentionedUserIds.filter(
+      (id) => !comment.mentionedUserIds.includes(id),
+    );
+
+    comment.body = dto.body;
+    comment.mentionedUserIds = mentionedUserIds;
+    comment.editedAt = new Date();
+    comment.updatedBy = user.id;
+    const saved = await this.commentRepository.save(comment);
+
+    this.emitMentions(alarm, saved, user, added);
+    return saved;
+  }
+
+  async remove(alarmId: string, commentId: string, user: User): Promise<void> {
+    await this.alarmsService.findOne(alarmId, user.tenantId);
+    const comment = await this.findComment(alarmId, commentId);
+
+    const isAdmin =
+      user.role === UserRole.TENANT_ADMIN || user.role === UserRole.SUPER_ADMIN;
+    if (comment.userId !== user.id && !isAdmin) {
+      throw new ForbiddenException(
+        'Only the author or a tenant admin can delete a comment',
+      );
+    }
+
+    comment.deletedBy = user.id;
+    await this.commentRepository.save(comment);
+    await this.commentRepository.softRemove(comment);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async findComment(
+    alarmId: string,
+    commentId: string,
+  ): Promise<AlarmComment> {
+    const comment = await this.commentRepository.findOne({
+      where: { id: commentId, alarmId },
+    });
+    if (!comment) throw new NotFoundException('Comment not found');
+    return comment;
+  }
+
+  private async validateMentions(
+    alarm: Alarm,
+    userIds: string[] = [],
+  ): Promise<string[]> {
+    const unique = [...new Set(userIds)];
+    if (!unique.length) return [];
+
+    const found = await this.userRepository.count({
+      where: {
+        id: In(unique),
+        tenantId: alarm.tenantId,
+        status: UserStatus.ACTIVE,
+      },
+    });
+    if (found !== unique.length) {
+      throw new BadRequestException(
+        'Mentioned users must be active users of the tenant',
+      );
+    }
+    return unique;
+  }
+
+  // NotificationsService notifies them; the author is never notified
+  private emitMentions(
+    alarm: Alarm,
+    comment: AlarmComment,
+    author: User,
+    userIds: string[],
+  ): void {
+    const mentionedUserIds = userIds.filter((id) => id !== author.id);
+    if (!mentionedUserIds.length) return;
+
+    this.eventEmitter.emit('alarm.mentioned', {
+      alarm,
+      comment,
+      author,
+      mentionedUserIds,
+    });
+  }
+}
@@ -0,0 +1,531 @@
+// src/modules/alarms/alarm-escalation.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import {
+  Alarm,
+  AlarmEscalation,
+  EscalationPolicy,
+  User,
+} from '@modules/index.entities';
+import { NotificationsService } from '@modules/notifications/notifications.service';
+import { EscalationPoliciesService } from './escalation-policies.service';
+import { OnCallSchedulesService } from './on-call-schedules.service';
+import {
+  AlarmSeverity,
+  AlarmStatus,
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+  UserRole,
+  UserStatus,
+} from '@common/enums/index.enum';
+import type {
+  EscalationLogEntry,
+  EscalationRecipient,
+  EscalationStep,
+} from '@common/interfaces/index.interface';
+
+interface AlarmEventPayload {
+  alarm: Alarm;
+  userId?: string;
+}
+
+// A person or raw address to notify. Raw addresses (alarm.recipients.emails /
+// phones) have no user; their notifications are filed under the alarm owner.
+interface ResolvedRecipient {
+  user?: User;
+  email?: string;
+  phone?: string;
+  scheduleId?: string;
+}
+
+const MINUTE_MS = 60_000;
+const BATCH_SIZE = 100;
+
+/**
+ * Runs escalation policies for triggered alarms.
+ *
+ *   alarm.triggered                       → start a run (policy resolved from
+ *                                           alarm → device profile → tenant)
+ *   every minute                          → take the steps that are due
+ *   alarm.acknowledged / cleared /
+ *   resolved / deleted                    → stop the run
+ *
+ * Every start, notification round and stop is appended to the run's log.
+ * The cron claims a step with a conditional UPDATE before running it, so a
+ * step is sent once even with several app instances.
+ */
+@Injectable()
+export class AlarmEscalationService {
+  private readonly logger = new Logger(AlarmEscalationService.name);
+
+  constructor(
+    @InjectRepository(AlarmEscalation)
+    private readonly escalationRepository: Repository<AlarmEscalation>,
+    @InjectRepository(Alarm)
+    private readonly alarmRepository: Repository<Alarm>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly policiesService: EscalationPoliciesService,
+    private readonly schedulesService: OnCallSchedulesService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // START / STOP
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @OnEvent('alarm.triggered')
+  async handleAlarmTriggered({ alarm }: AlarmEventPayload): Promise<void> {
+    try {
+      await this.start(alarm);
+    } catch (error) {
+      this.logger.error(
+        `Failed to start escalation for alarm ${alarm.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @OnEvent('alarm.acknowledged')
+  async handleAlarmAcknowledged({ alarm, userId }: AlarmEventPayload) {
+    await this.stop(alarm.id, 'acknowledged', userId);
+  }
+
+  @OnEvent('alarm.cleared')
+  async handleAlarmCleared({ alarm }: AlarmEventPayload) {
+    await this.stop(alarm.id, 'cleared');
+  }
+
+  @OnEvent('alarm.resolved')
+  async handleAlarmResolved({ alarm, userId }: AlarmEventPayload) {
+    await this.stop(alarm.id, 'resolved', userId);
+  }
+
+  @OnEvent('alarm.deleted')
+  async handleAlarmDeleted({ alarm }: AlarmEventPayload) {
+    await this.stop(alarm.id, 'deleted');
+  }
+
+  async start(alarm: Alarm): Promise<AlarmEscalation | null> {
+    const running = await this.escalationRepository.count({
+      where: { alarmId: alarm.id, status: 'ACTIVE' },
+    });
+    if (running) return null;
+
+    const policy = await this.policiesService.resolveForAlarm(alarm);
+    if (!policy) return null;
+
+    const escalation = this.escalationRepository.create({
+      tenantId: alarm.tenantId,
+      alarmId: alarm.id,
+      policyId: policy.id,
+      status: 'ACTIVE',
+      nextStep: 0,
+      cycle: 0,
+      nextStepAt: new Date(
+        Date.now() + policy.steps[0].delayMinutes * MINUTE_MS,
+      ),
+      log: [],
+    });
+    escalation.record('STARTED', { reason: `Policy "${policy.name}"` });
+    const saved = await this.escalationRepository.save(escalation);
+
+    this.logger.log(
+      `Escalation started for alarm ${alarm.id} with policy ${policy.id}`,
+    );
+
+    if (policy.steps[0].delayMinutes === 0) {
+      await this.process(saved);
+    }
+    return saved;
+  }
+
+  /** Stops the alarm's active runs; the log entry names who stopped them */
+  async stop(alarmId: string, reason: string, userId?: string): Promise<void> {
+    const result = await this.escalationRepository
+      .createQueryBuilder()
+      .update(AlarmEscalation)
+      .set({
+        status: 'STOPPED',
+        stoppedAt: new Date(),
+        stopReason: reason,
+        nextStepAt: null,
+        log: () => `"log" || :entry::jsonb`,
+      })
+      .where('"alarmId" = :alarmId AND status = :status', {
+        alarmId,
+        status: 'ACTIVE',
+      })
+      .setParameter(
+        'entry',
+        JSON.stringify([this.entry('STOPPED', { reason, userId })]),
+      )
+      .execute();
+
+    if (result.affected) {
+      this.logger.log(`Escalation stopped for alarm ${alarmId} (${reason})`);
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // QUERIES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** Runs of an alarm, newest first — the caller checks alarm access */
+  async getForAlarm(alarmId: string): Promise<AlarmEscalation[]> {
+    return this.escalationRepository.find({
+      where: { alarmId },
+      relations: ['policy'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // STEPS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processDue(): Promise<void> {
+    const due = await this.escalationRepository.find({
+      where: { status: 'ACTIVE', nextStepAt: LessThanOrEqual(new Date()) },
+      order: { nextStepAt: 'ASC' },
+      take: BATCH_SIZE,
+    });
+
+    for (const escalation of due) {
+      await this.process(escalation).catch((error: Error) =>
+        this.logger.error(
+          `Escalation ${escalation.id} step failed: ${error.message}`,
+        ),
+      );
+    }
+  }
+
+  private async process(escalation: AlarmEscalation): Promise<void> {
+    // Claim the step: clearing nextStepAt keeps other instances (and the next
+    // tick) off it while it is being sent
+    const claim = await this.escalationRepository.update(
+      {
+        id: escalation.id,
+        status: 'ACTIVE',
+        nextStep: escalation.nextStep,
+        cycle: escalation.cycle,
+        nextStepAt: escalation.nextStepAt ?? IsNull(),
+      },
+      { nextStepAt: null },
+    );
+    if (!claim.affected) return;
+
+    const alarm = await this.alarmRepository.findOne({
+      where: { id: escalation.alarmId },
+    });
+    if (!alarm || alarm.status !== AlarmStatus.ACTIVE) {
+      return this.stop(
+        escalation.alarmId,
+        alarm ? `alarm ${alarm.status}` : 'alarm deleted',
+      );
+    }
+
+    const policy = escalation.policyId
+      ? await this.policiesService
+          .findOne(escalation.policyId, escalation.tenantId)
+          .catch(() => null)
+      : null;
+    const step = policy?.steps[escalation.nextStep];
+    if (!policy || !step) {
+      return this.finish(escalation, 'Policy was deleted or changed');
+    }
+
+    const { entry, sent } = await this.notify(alarm, step, escalation);
+    this.logger.log(
+      `Escalation ${escalation.id}: step ${escalation.nextStep + 1}/${policy.steps.length} sent ${sent} notification(s)`,
+    );
+    await this.appendLog(escalation.id, entry);
+
+    await this.advance(escalation, policy);
+  }
+
+  private async advance(
+    escalation: AlarmEscalation,
+    policy: EscalationPolicy,
+  ): Promise<void> {
+    const now = Date.now();
+    const next = escalation.nextStep + 1;
+
+    let progress: Partial<AlarmEscalation>;
+    if (next < policy.steps.length) {
+      progress = {
+        nextStep: next,
+        nextStepAt: new Date(now + policy.steps[next].delayMinutes * MINUTE_MS),
+      };
+    } else if (escalation.cycle < policy.repeatCount) {
+      // A repeat starts repeatAfterMinutes after the last step, in place of
+      // the first step's own delay
+      progress = {
+        nextStep: 0,
+        cycle: escalation.cycle + 1,
+        nextStepAt: new Date(now + policy.repeatAfterMinutes * MINUTE_MS),
+      };
+    } else {
+      return this.finish(escalation, 'All steps taken');
+    }
+
+    // Still ACTIVE: an acknowledge that landed mid-step wins
+    await this.escalationRepository.update(
+      { id: escalation.id, status: 'ACTIVE' },
+      progress,
+    );
+  }
+
+  private async finish(
+    escalation: AlarmEscalation,
+    reason: string,
+  ): Promise<void> {
+    await this.escalationRepository
+      .createQueryBuilder()
+      .update(AlarmEscalation)
+      .set({
+        status: 'EXHAUSTED',
+        stoppedAt: new Date(),
+        stopReason: reason,
+        nextStepAt: null,
+        log: () => `"log" || :entry::jsonb`,
+      })
+      .where('id = :id AND status = :status', {
+        id: escalation.id,
+        status: 'ACTIVE',
+      })
+      .setParameter(
+        'entry',
+        JSON.stringify([
+          this.entry('EXHAUSTED', { cycle: escalation.cycle, reason }),
+        ]),
+      )
+      .execute();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // NOTIFICATIONS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async notify(
+    alarm: Alarm,
+    step: EscalationStep,
+    escalation: AlarmEscalation,
+  ): Promise<{ entry: EscalationLogEntry; sent: number }> {
+    const warnings: string[] = [];
+    const recipients = await this.resolveRecipients(alarm, step, warnings);
+    const owner = await this.findOwner(alarm, recipients);
+
+    const priority =
+      alarm.severity === AlarmSeverity.CRITICAL
+        ? NotificationPriority.URGENT
+        : NotificationPriority.HIGH;
+    const base = {
+      type: NotificationType.ALARM,
+      priority,
+      title: `Alarm: ${alarm.name}`,
+      message:
+        (alarm.message || `Alarm ${alarm.name} has been triggered`) +
+        ` — escalation step ${escalation.nextStep + 1}`,
+      relatedEntityType: 'alarm',
+      relatedEntityId: alarm.id,
+      action: {
+        label: 'View Alarm',
+        url: `/alarms/${alarm.id}`,
+        type: 'button' as const,
+      },
+      metadata: {
+        escalation: {
+          id: escalation.id,
+          step: escalation.nextStep,
+          cycle: escalation.cycle,
+        },
+      },
+    };
+
+    let sent = 0;
+    const send = async (
+      to: User | undefined,
+      channel: NotificationChannel,
+      address: {
+        recipientEmail?: string;
+        recipientPhone?: string;
+        webhookUrl?: string;
+      },
+    ) => {
+      if (!to) {
+        warnings.push(`No user to file ${channel} notification under`);
+        return;
+      }
+      try {
+        await this.notificationsService.create(
+          { ...base, ...address, userId: to.id, channel },
+          to,
+        );
+        sent++;
+      } catch (error) {
+        warnings.push(`${channel} to ${to.id}: ${(error as Error).message}`);
+      }
+    };
+
+    for (const channel of step.channels) {
+      if (channel === NotificationChannel.WEBHOOK) {
+        const webhookUrl = alarm.notifications?.webhook;
+        if (webhookUrl) await send(owner, channel, { webhookUrl });
+        else warnings.push('Alarm has no webhook URL');
+        continue;
+      }
+
+      for (const r of recipients) {
+        switch (channel) {
+          case NotificationChannel.EMAIL: {
+            const email = r.email ?? r.user?.email;
+            if (email)
+              await send(r.user ?? owner, channel, { recipientEmail: email });
+            break;
+          }
+          case NotificationChannel.SMS: {
+            const phone = r.phone ?? r.user?.phone;
+            if (phone)
+              await send(r.user ?? owner, channel, { recipientPhone: phone });
+            else if (r.user) warnings.push(`User ${r.user.id} has no phone`);
+            break;
+          }
+          default:
+            // push / in-app reach users only
+            if (r.user) await send(r.user, channel, {});
+        }
+      }
+    }
+
+    if (!recipients.length) warnings.push('No recipients resolved');
+
+    return {
+      sent,
+      entry: this.entry('NOTIFIED', {
+        step: escalation.nextStep,
+        cycle: escalation.cycle,
+        channels: step.channels,
+        recipients: recipients.map(
+          (r): EscalationRecipient => ({
+            userId: r.user?.id,
+            email: r.user ? undefined : r.email,
+            phone: r.user ? undefined : r.phone,
+            scheduleId: r.scheduleId,
+          }),
+        ),
+        sent,
+        warnings: warnings.length ? warnings : undefined,
+      }),
+    };
+  }
+
+  private async resolveRecipients(
+    alarm: Alarm,
+    step: EscalationStep,
+    warnings: string[],
+  ): Promise<ResolvedRecipient[]> {
+    const userIds = new Map<string, string | undefined>(); // → scheduleId
+    const raw: ResolvedRecipient[] = [];
+    const roles: UserRole[] = [];
+
+    for (const target of step.targets) {
+      switch (target.type) {
+        case 'USERS':
+          target.userIds?.forEach((id) => userIds.set(id, undefined));
+          break;
+        case 'ROLE':
+          if (target.role) roles.push(target.role);
+          break;
+        case 'ON_CALL': {
+          const userId = target.scheduleId
+            ? await this.schedulesService.findOnCallUserId(
+                target.scheduleId,
+                alarm.tenantId,
+              )
+            : null;
+          if (userId) userIds.set(userId, target.scheduleId);
+          else warnings.push(`Nobody on call in schedule ${target.scheduleId}`);
+          break;
+        }
+        case 'ALARM_RECIPIENTS':
+          alarm.recipients?.userIds?.forEach((id) =>
+            userIds.set(id, undefined),
+          );
+          alarm.recipients?.emails?.forEach((email) => raw.push({ email }));
+          alarm.recipients?.phones?.forEach((phone) => raw.push({ phone }));
+          break;
+      }
+    }
+
+    const users = [
+      ...(userIds.size
+        ? await this.userRepository.find({
+            where: { id: In([...userIds.keys()]), tenantId: alarm.tenantId },
+          })
+        : []),
+      ...(roles.length
+        ? await this.userRepository.find({
+            where: {
+              role: In(roles),
+              tenantId: alarm.tenantId,
+              status: UserStatus.ACTIVE,
+            },
+          })
+        : []),
+    ];
+
+    const seen = new Set<string>();
+    const recipients: ResolvedRecipient[] = [];
+    for (const user of users) {
+      if (seen.has(user.id) || user.status !== UserStatus.ACTIVE) continue;
+      seen.add(user.id);
+      recipients.push({ user, scheduleId: userIds.get(user.id) });
+    }
+    for (const r of raw) {
+      const key = r.email ?? r.phone ?? '';
+      if (seen.has(key)) continue;
+      seen.add(key);
+      recipients.push(r);
+    }
+    return recipients;
+  }
+
+  /** User that raw-address and webhook notifications are filed under */
+  private async findOwner(
+    alarm: Alarm,
+    recipients: ResolvedRecipient[],
+  ): Promise<User | undefined> {
+    const owner = alarm.createdBy
+      ? await this.userRepository.findOne({
+          where: { id: alarm.createdBy, tenantId: alarm.tenantId },
+        })
+      : null;
+    return owner ?? recipients.find((r) => r.user)?.user;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private entry(
+    action: EscalationLogEntry['action'],
+    fields: Omit<EscalationLogEntry, 'at' | 'action'>,
+  ): EscalationLogEntry {
+    return { at: new Date().toISOString(), action, ...fields };
+  }
+
+  private async appendLog(id: string, entry: EscalationLogEntry) {
+    await this.escalationRepository
+      .createQueryBuilder()
+      .update(AlarmEscalation)
+      .set({ log: () => `"log" || :entry::jsonb` })
+      .where('id = :id', { id })
+      .setParameter('entry', JSON.stringify([entry]))
+      .execute();
+  }
+}
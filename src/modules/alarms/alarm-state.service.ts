@@ -0,0 +1,141 @@
+// src/modules/alarms/alarm-state.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisService } from '@/lib/redis/redis.service';
+
+interface AlarmPendingState {
+  raiseSince?: number; // Epoch ms the raise condition started holding
+  clearSince?: number; // Epoch ms the clear condition started holding
+  raiseCount?: number; // Consecutive samples the raise condition held
+}
+
+type PendingField = Exclude<keyof AlarmPendingState, 'raiseCount'>;
+
+/**
+ * Pending-state tracking for alarm rules with a duration / clear delay.
+ *
+ * Each alarm keeps one Redis hash with the timestamp its raise (or clear)
+ * condition started holding. The first sample wins (HSETNX), so every
+ * instance consuming telemetry sees the same start time and the state
+ * survives restarts. A sample of the opposite condition resets the window.
+ *
+ * The id is any stable key — an Alarm id for per-device rules, or
+ * device + profile rule + severity for device-profile rules.
+ */
+@Injectable()
+export class AlarmStateService {
+  private readonly logger = new Logger(AlarmStateService.name);
+
+  private readonly KEY_PREFIX = 'alarm:pending:';
+  // Orphaned states (deleted alarms, silent devices) expire on their own
+  private readonly STATE_TTL = 7 * 24 * 3600;
+
+  constructor(private readonly redis: RedisService) {}
+
+  /**
+   * Record a sample where the raise condition holds. Returns true once it
+   * has held continuously for `durationSeconds`.
+   */
+  holdsRaise(
+    alarmId: string,
+    durationSeconds = 0,
+    now = Date.now(),
+  ): Promise<boolean> {
+    return this.holds(
+      alarmId,
+      'raiseSince',
+      'clearSince',
+      durationSeconds,
+      now,
+    );
+  }
+
+  /**
+   * Record a sample where the clear condition holds. Returns true once it
+   * has held continuously for `durationSeconds`.
+   */
+  holdsClear(
+    alarmId: string,
+    durationSeconds = 0,
+    now = Date.now(),
+  ): Promise<boolean> {
+    return this.holds(
+      alarmId,
+      'clearSince',
+      'raiseSince',
+      durationSeconds,
+      now,
+    );
+  }
+
+  /**
+   * Count a consecutive sample where the raise condition holds. Returns true
+   * once `count` samples in a row have met it (reset() breaks the streak).
+   */
+  async repeats(alarmId: string, count: number): Promise<boolean> {
+    const key = this.key(alarmId);
+
+    try {
+      const results = await this.redis
+        .multi()
+        .hincrby(key, 'raiseCount', 1)
+        .hdel(key, 'clearSince')
+        .expire(key, this.STATE_TTL)
+        .exec();
+
+      return Number(results?.[0]?.[1] ?? count) >= count;
+    } catch (error) {
+      this.logger.warn(
+        `Pending state unavailable for alarm ${alarmId}: ${(error as Error).message}`,
+      );
+      return true;
+    }
+  }
+
+  async reset(alarmId: string): Promise<void> {
+    try {
+      await this.redis.del(this.key(alarmId));
+    } catch (error) {
+      this.logger.warn(
+        `Failed to reset pending state for alarm ${alarmId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async holds(
+    alarmId: string,
+    field: PendingField,
+    opposite: PendingField,
+    durationSeconds: number,
+    now: number,
+  ): Promise<boolean> {
+    const key = this.key(alarmId);
+
+    try {
+      const results = await this.redis
+        .multi()
+        .hsetnx(key, field, String(now))
+        .hdel(key, opposite)
+        .hget(key, field)
+        .expire(key, this.STATE_TTL)
+        .exec();
+
+      const since = Number(results?.[2]?.[1] ?? now);
+      return now - since >= durationSeconds * 1000;
+    } catch (error) {
+      // Without Redis we cannot know how long the condition has held.
+      // Fail open — a late alarm is worse than an early one.
+      this.logger.warn(
+        `Pending state unavailable for alarm ${alarmId}: ${(error as Error).message}`,
+      );
+      return true;
+    }
+  }
+
+  private key(alarmId: string): string {
+    return `${this.KEY_PREFIX}${alarmId}`;
+  }
+}
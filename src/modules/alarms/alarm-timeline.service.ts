@@ -0,0 +1,187 @@
+// src/modules/alarms/alarm-timeline.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { In, Repository } from 'typeorm';
+import {
+  Alarm,
+  AlarmComment,
+  AlarmTimelineEvent,
+} from '@modules/index.entities';
+import {
+  AlarmSeverity,
+  AlarmTimelineEventType,
+} from '@common/enums/index.enum';
+import { AlarmTimelineQueryDto } from './dto/alarm.dto';
+
+interface AlarmEventPayload {
+  alarm: Alarm;
+  userId?: string;
+  note?: string;
+}
+
+/**
+ * Writes the append-only lifecycle of every alarm from the alarm.* events
+ * (AlarmsService, DeviceProfileAlarmsService, AlarmCommentsService) and
+ * re-emits each entry as alarm.timeline for AlarmsGateway.
+ */
+@Injectable()
+export class AlarmTimelineService {
+  private readonly logger = new Logger(AlarmTimelineService.name);
+
+  constructor(
+    @InjectRepository(AlarmTimelineEvent)
+    private readonly timelineRepository: Repository<AlarmTimelineEvent>,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // QUERIES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** Oldest first — the caller checks alarm access */
+  async getTimeline(alarmId: string, query: AlarmTimelineQueryDto) {
+    const { page = 1, limit = 100, types } = query;
+
+    const [data, total] = await this.timelineRepository.findAndCount({
+      where: { alarmId, ...(types?.length ? { type: In(types) } : {}) },
+      relations: ['user'],
+      select: {
+        user: { id: true, name: true, email: true },
+      },
+      order: { createdAt: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // EVENT LISTENERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @OnEvent('alarm.created')
+  async handleCreated({ alarm }: AlarmEventPayload) {
+    await this.record(alarm, AlarmTimelineEventType.CREATED, alarm.createdBy, {
+      severity: alarm.severity,
+    });
+  }
+
+  /**
+   * alarm.triggered fires when an alarm becomes active — first raised, or
+   * raised again after a clear or acknowledge. Samples that keep an active
+   * alarm active (alarm.retriggered) only bump triggerCount on the alarm and
+   * are not written here.
+   */
+  @OnEvent('alarm.triggered')
+  async handleTriggered({ alarm }: AlarmEventPayload) {
+    const type =
+      alarm.triggerCount > 1
+        ? AlarmTimelineEventType.RETRIGGERED
+        : AlarmTimelineEventType.TRIGGERED;
+
+    await this.record(alarm, type, undefined, {
+      triggerCount: alarm.triggerCount,
+      value: alarm.currentValue as number | null,
+      severity: alarm.severity,
+      message: alarm.message,
+    });
+  }
+
+  @OnEvent('alarm.updated')
+  async handleUpdated({
+    alarm,
+    userId,
+    previousSeverity,
+  }: AlarmEventPayload & { previousSeverity?: AlarmSeverity }) {
+    if (!previousSeverity || previousSeverity === alarm.severity) return;
+
+    await this.record(alarm, AlarmTimelineEventType.SEVERITY_CHANGED, userId, {
+      from: previousSeverity,
+      to: alarm.severity,
+    });
+  }
+
+  @OnEvent('alarm.acknowledged')
+  async handleAcknowledged({ alarm, userId, note }: AlarmEventPayload) {
+    await this.record(alarm, AlarmTimelineEventType.ACKNOWLEDGED, userId, {
+      note,
+    });
+  }
+
+  @OnEvent('alarm.assigned')
+  async handleAssigned({
+    alarm,
+    userId,
+    note,
+    previousAssigneeId,
+  }: AlarmEventPayload & { previousAssigneeId: string | null }) {
+    await this.record(alarm, AlarmTimelineEventType.ASSIGNED, userId, {
+      assigneeId: alarm.assigneeId ?? null,
+      previousAssigneeId,
+      note,
+    });
+  }
+
+  @OnEvent('alarm.commented')
+  async handleCommented({
+    alarm,
+    comment,
+  }: AlarmEventPayload & { comment: AlarmComment }) {
+    await this.record(alarm, AlarmTimelineEventType.COMMENTED, comment.userId, {
+      commentId: comment.id,
+      parentId: comment.parentId ?? null,
+      mentionedUserIds: comment.mentionedUserIds,
+    });
+  }
+
+  @OnEvent('alarm.cleared')
+  async handleCleared({ alarm, userId }: AlarmEventPayload) {
+    await this.record(alarm, AlarmTimelineEventType.CLEARED, userId);
+  }
+
+  @OnEvent('alarm.resolved')
+  async handleResolved({ alarm, userId, note }: AlarmEventPayload) {
+    await this.record(alarm, AlarmTimelineEventType.RESOLVED, userId, {
+      note,
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async record(
+    alarm: Alarm,
+    type: AlarmTimelineEventType,
+    userId?: string,
+    data: Record<string, any> = {},
+  ): Promise<void> {
+    try {
+      const event = await this.timelineRepository.save(
+        this.timelineRepository.create({
+          tenantId: alarm.tenantId,
+          alarmId: alarm.id,
+          type,
+          userId,
+          data: Object.fromEntries(
+            Object.entries(data).filter(([, v]) => v !== undefined),
+          ),
+        }),
+      );
+
+      this.eventEmitter.emit('alarm.timeline', { alarm, event });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${type} for alarm ${alarm.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
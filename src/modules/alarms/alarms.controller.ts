@@ -19,6 +19,8 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { AlarmsService } from './alarms.service';
+import { AlarmEscalationService } from './alarm-escalation.service';
+import { AlarmTimelineService } from './alarm-timeline.service';
 import {
   CreateAlarmDto,
   UpdateAlarmDto,
@@ -28,6 +30,8 @@ import {
   TestAlarmDto,
   BulkAcknowledgeAlarmDto,
   BulkResolveAlarmDto,
+  AssignAlarmDto,
+  AlarmTimelineQueryDto,
 } from './dto/alarm.dto';
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { CurrentUser } from '@common/decorators/current-user.decorator';
@@ -39,7 +43,11 @@ import { ParseIdPipe } from '@common/pipes/parse-id.pipe';
 @UseGuards(JwtAuthGuard)
 @ApiBearerAuth()
 export class AlarmsController {
-  constructor(private readonly alarmsService: AlarmsService) {}
+  constructor(
+    private readonly alarmsService: AlarmsService,
+    private readonly escalationService: AlarmEscalationService,
+    private readonly timelineService: AlarmTimelineService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create new alarm rule' })
@@ -109,6 +117,31 @@ export class AlarmsController {
     return this.alarmsService.findOne(id, user.tenantId);
   }
 
+  @Get(':id/escalations')
+  @ApiOperation({
+    summary: 'Escalation runs of an alarm, with every step taken',
+  })
+  @ApiResponse({ status: 404, description: 'Alarm not found' })
+  async getEscalations(
+    @Param('id', ParseIdPipe) id: string,
+    @CurrentUser() user: User,
+  ) {
+    await this.alarmsService.findOne(id, user.tenantId);
+    return this.escalationService.getForAlarm(id);
+  }
+
+  @Get(':id/timeline')
+  @ApiOperation({ summary: 'Lifecycle timeline of an alarm, oldest first' })
+  @ApiResponse({ status: 404, description: 'Alarm not found' })
+  async getTimeline(
+    @Param('id', ParseIdPipe) id: string,
+    @CurrentUser() user: User,
+    @Query() query: AlarmTimelineQueryDto,
+  ) {
+    await this.alarmsService.findOne(id, user.tenantId);
+    return this.timelineService.getTimeline(id, query);
+  }
+
   @Patch(':id')
   @ApiOperation({ summary: 'Update alarm rule' })
   @ApiResponse({ status: 200, description: 'Alarm updated' })
@@ -117,7 +150,7 @@ export class AlarmsController {
     @CurrentUser() user: User,
     @Body() updateDto: UpdateAlarmDto,
   ) {
-    return this.alarmsService.update(id, user.tenantId, updateDto);
+    return this.alarmsService.update(id, user.tenantId, updateDto, user.id);
   }
 
   @Delete(':id')
@@ -140,12 +173,25 @@ export class AlarmsController {
     return this.alarmsService.acknowledge(id, user.tenantId, user.id, acknowledgeDto);
   }
 
+  @Post(':id/assign')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Assign alarm to a user, or unassign' })
+  @ApiResponse({ status: 200, description: 'Alarm assigned' })
+  @ApiResponse({ status: 400, description: 'Assignee not in the tenant' })
+  assign(
+    @Param('id', ParseIdPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() assignDto: AssignAlarmDto,
+  ) {
+    return this.alarmsService.assign(id, user.tenantId, user.id, assignDto);
+  }
+
   @Post(':id/clear')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Clear alarm' })
   @ApiResponse({ status: 200, description: 'Alarm cleared' })
   clear(@Param('id', ParseIdPipe) id: string, @CurrentUser() user: User) {
-    return this.alarmsService.clear(id, user.tenantId);
+    return this.alarmsService.clear(id, user.tenantId, user.id);
   }
 
   @Post(':id/resolve')
@@ -207,7 +253,7 @@ export class AlarmsController {
     @CurrentUser() user: User,
     @Body() body: { alarmIds: string[] },
   ) {
-    return this.alarmsService.bulkClear(user.tenantId, body.alarmIds);
+    return this.alarmsService.bulkClear(user.tenantId, body.alarmIds, user.id);
   }
 
   @Post('bulk/resolve')
@@ -13,7 +13,7 @@ import { OnEvent } from '@nestjs/event-emitter';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { WsJwtGuard } from '@common/guards/ws-jwt.guard';
-import { Alarm } from '@modules/index.entities';
+import { Alarm, AlarmTimelineEvent } from '@modules/index.entities';
 
 @WebSocketGateway({
   namespace: '/alarms',
@@ -248,6 +248,25 @@ export class AlarmsGateway implements OnGatewayConnection, OnGatewayDisconnect,
     if (alarm.deviceId)   this.server.to(`device:${alarm.deviceId}`).emit('alarm:resolved', eventData);
   }
 
+  // Every lifecycle entry (AlarmTimelineService), incl. comments and assignment
+  @OnEvent('alarm.timeline')
+  handleAlarmTimeline(payload: { alarm: Alarm; event: AlarmTimelineEvent }) {
+    const { alarm, event } = payload;
+
+    const eventData = {
+      id:        event.id,
+      alarmId:   alarm.id,
+      type:      event.type,
+      userId:    event.userId,
+      data:      event.data,
+      createdAt: event.createdAt,
+    };
+
+    this.server.to(`tenant:${alarm.tenantId}`).emit('alarm:timeline', eventData);
+    if (alarm.customerId) this.server.to(`customer:${alarm.customerId}`).emit('alarm:timeline', eventData);
+    if (alarm.deviceId)   this.server.to(`device:${alarm.deviceId}`).emit('alarm:timeline', eventData);
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // MANUAL EMIT HELPERS
   // ══════════════════════════════════════════════════════════════════════════
@@ -2,17 +2,56 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AlarmsController } from './alarms.controller';
 import { AlarmsService } from './alarms.service';
+import { AlarmStateService } from './alarm-state.service';
+import { DeviceProfileAlarmsService } from './device-profile-alarms.service';
 import { AlarmsGateway } from './alarms.gateway';
+import { AlarmEscalationService } from './alarm-escalation.service';
+import { AlarmTimelineService } from './alarm-timeline.service';
+import { AlarmCommentsService } from './alarm-comments.service';
+import { AlarmCommentsController } from './alarm-comments.controller';
+import { EscalationPoliciesService } from './escalation-policies.service';
+import { EscalationPoliciesController } from './escalation-policies.controller';
+import { OnCallSchedulesService } from './on-call-schedules.service';
+import { OnCallSchedulesController } from './on-call-schedules.controller';
 import { Alarm } from './entities/alarm.entity';
 import { AlarmsRepository } from './repositories/alarms.repository';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { Device, Tenant } from '../index.entities';
+import {
+  AlarmComment,
+  AlarmEscalation,
+  AlarmTimelineEvent,
+  Asset,
+  Attribute,
+  Device,
+  DeviceProfile,
+  EscalationPolicy,
+  OnCallSchedule,
+  Tenant,
+  User,
+} from '../index.entities';
+import { ScriptsModule } from '../scripts/scripts.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Alarm, Device, Tenant]),
+    TypeOrmModule.forFeature([
+      Alarm,
+      Device,
+      Tenant,
+      DeviceProfile,
+      Asset,
+      Attribute,
+      EscalationPolicy,
+      OnCallSchedule,
+      AlarmEscalation,
+      AlarmComment,
+      AlarmTimelineEvent,
+      User,
+    ]),
     ConfigModule,
+    ScriptsModule,
+    NotificationsModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
@@ -24,8 +63,24 @@ import { Device, Tenant } from '../index.entities';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AlarmsController],
-  providers: [AlarmsService, AlarmsGateway, AlarmsRepository],
+  controllers: [
+    AlarmsController,
+    AlarmCommentsController,
+    EscalationPoliciesController,
+    OnCallSchedulesController,
+  ],
+  providers: [
+    AlarmsService,
+    AlarmStateService,
+    DeviceProfileAlarmsService,
+    AlarmsGateway,
+    AlarmsRepository,
+    EscalationPoliciesService,
+    OnCallSchedulesService,
+    AlarmEscalationService,
+    AlarmTimelineService,
+    AlarmCommentsService,
+  ],
   exports: [AlarmsService, AlarmsGateway],
 })
 export class AlarmsModule { }
@@ -8,16 +8,26 @@ import {
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, Between } from 'typeorm';
 import { Alarm, Device } from '@modules/index.entities';
-import { AlarmCondition, AlarmStatus, AlarmSeverity } from '@common/enums/index.enum';
+import {
+  AlarmCondition,
+  AlarmStatus,
+  AlarmSeverity,
+  UserStatus,
+} from '@common/enums/index.enum';
 import {
   CreateAlarmDto,
   UpdateAlarmDto,
   AlarmQueryDto,
   AcknowledgeAlarmDto,
   ResolveAlarmDto,
+  AssignAlarmDto,
 } from './dto/alarm.dto';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import type { AlarmRule } from '@common/interfaces/index.interface';
 import { User } from '@modules/users/entities/user.entity';
+import { ScriptsService } from '@modules/scripts/scripts.service';
+import { AlarmStateService } from './alarm-state.service';
+import { DeviceProfileAlarmsService } from './device-profile-alarms.service';
 
 @Injectable()
 export class AlarmsService {
@@ -27,7 +37,12 @@ export class AlarmsService {
     private alarmRepository: Repository<Alarm>,
     @InjectRepository(Device)
     private deviceRepository: Repository<Device>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
     private eventEmitter: EventEmitter2,
+    private scriptsService: ScriptsService,
+    private alarmState: AlarmStateService,
+    private profileAlarms: DeviceProfileAlarmsService,
   ) {}
 
   /**
@@ -77,8 +92,10 @@ export class AlarmsService {
       page = 1,
       limit = 20,
       deviceId,
+      assetId,
       severity,
       status,
+      assigneeId,
       search,
       tags,
     } = query;
@@ -98,6 +115,13 @@ export class AlarmsService {
       queryBuilder.andWhere('alarm.deviceId = :deviceId', { deviceId });
     }
 
+    // Filter by asset (alarms propagated up the asset hierarchy)
+    if (assetId) {
+      queryBuilder.andWhere('alarm.propagatedAssetIds @> :assetIds', {
+        assetIds: JSON.stringify([assetId]),
+      });
+    }
+
     // Filter by severity
     if (severity) {
       queryBuilder.andWhere('alarm.severity = :severity', { severity });
@@ -108,6 +132,11 @@ export class AlarmsService {
       queryBuilder.andWhere('alarm.status = :status', { status });
     }
 
+    // Filter by assignee
+    if (assigneeId) {
+      queryBuilder.andWhere('alarm.assigneeId = :assigneeId', { assigneeId });
+    }
+
     // Search by name or description
     if (search) {
       queryBuilder.andWhere(
@@ -175,15 +204,26 @@ export class AlarmsService {
     id: string,
     tenantId: string | undefined,
     updateDto: UpdateAlarmDto,
+    userId?: string,
   ): Promise<Alarm> {
     const alarm = await this.findOne(id, tenantId);
+    const previousSeverity = alarm.severity;
 
     Object.assign(alarm, updateDto);
     
     const saved = await this.alarmRepository.save(alarm);
+
+    // A changed rule starts a fresh pending window
+    if (updateDto.rule) {
+      await this.alarmState.reset(id);
+    }
     
     // Emit event
-    this.eventEmitter.emit('alarm.updated', { alarm: saved });
+    this.eventEmitter.emit('alarm.updated', {
+      alarm: saved,
+      previousSeverity,
+      userId,
+    });
     
     return saved;
   }
@@ -194,6 +234,7 @@ export class AlarmsService {
   async remove(id: string, tenantId: string | undefined): Promise<void> {
     const alarm = await this.findOne(id, tenantId);
     await this.alarmRepository.softRemove(alarm);
+    await this.alarmState.reset(id);
     
     // Emit event
     this.eventEmitter.emit('alarm.deleted', { alarm });
@@ -226,7 +267,11 @@ export class AlarmsService {
     const saved = await this.alarmRepository.save(alarm);
 
     // Emit event
-    this.eventEmitter.emit('alarm.acknowledged', { alarm: saved, userId });
+    this.eventEmitter.emit('alarm.acknowledged', {
+      alarm: saved,
+      userId,
+      note: acknowledgeDto?.note,
+    });
 
     return saved;
   }
@@ -234,7 +279,11 @@ export class AlarmsService {
   /**
    * Clear alarm
    */
-  async clear(id: string, tenantId: string | undefined): Promise<Alarm> {
+  async clear(
+    id: string,
+    tenantId: string | undefined,
+    userId?: string,
+  ): Promise<Alarm> {
     const alarm = await this.findOne(id, tenantId);
 
     if (
@@ -250,7 +299,7 @@ export class AlarmsService {
     const saved = await this.alarmRepository.save(alarm);
 
     // Emit event
-    this.eventEmitter.emit('alarm.cleared', { alarm: saved });
+    this.eventEmitter.emit('alarm.cleared', { alarm: saved, userId });
 
     return saved;
   }
@@ -270,7 +319,52 @@ export class AlarmsService {
     const saved = await this.alarmRepository.save(alarm);
 
     // Emit event
-    this.eventEmitter.emit('alarm.resolved', { alarm: saved, userId });
+    this.eventEmitter.emit('alarm.resolved', {
+      alarm: saved,
+      userId,
+      note: resolveDto.note,
+    });
+
+    return saved;
+  }
+
+  /**
+   * Assign alarm to a user (or unassign)
+   */
+  async assign(
+    id: string,
+    tenantId: string | undefined,
+    userId: string,
+    assignDto: AssignAlarmDto,
+  ): Promise<Alarm> {
+    const alarm = await this.findOne(id, tenantId);
+    const assigneeId = assignDto.assigneeId ?? null;
+    const previousAssigneeId = alarm.assigneeId ?? null;
+
+    if (assigneeId) {
+      const assignee = await this.userRepository.findOne({
+        where: { id: assigneeId, tenantId: alarm.tenantId },
+      });
+      if (!assignee || assignee.status !== UserStatus.ACTIVE) {
+        throw new BadRequestException(
+          'Alarms can only be assigned to active users of the tenant',
+        );
+      }
+    }
+
+    if (assigneeId === previousAssigneeId) return alarm;
+
+    alarm.assigneeId = assigneeId;
+    alarm.assignedAt = assigneeId ? new Date() : null;
+    const saved = await this.alarmRepository.save(alarm);
+
+    // Emit event
+    this.eventEmitter.emit('alarm.assigned', {
+      alarm: saved,
+      userId,
+      previousAssigneeId,
+      note: assignDto.note,
+    });
 
     return saved;
   }
@@ -290,6 +384,7 @@ export class AlarmsService {
   async disable(id: string, tenantId: string | undefined): Promise<Alarm> {
     const alarm = await this.findOne(id, tenantId);
     alarm.isEnabled = false;
+    await this.alarmState.reset(id);
     return await this.alarmRepository.save(alarm);
   }
 
@@ -316,20 +411,82 @@ export class AlarmsService {
       .andWhere('alarm.tenantId = :tenantId', { tenantId: device.tenantId })
       .andWhere('alarm.isEnabled = :enabled', { enabled: true })
       .andWhere("alarm.rule->>'telemetryKey' = :telemetryKey", { telemetryKey })
+      .andWhere('alarm.profileRuleId IS NULL') // Profile alarms have their own evaluator
       .getMany();
 
     for (const alarm of alarms) {
-      const conditionMet = this.evaluateCondition(alarm.rule, value);
+      await this.evaluateAlarm(alarm, value, { [telemetryKey]: value });
+    }
+  }
 
-      if (conditionMet) {
-        // Condition is met - trigger or update alarm
+  /**
+   * Apply one sample to an alarm rule:
+   * - raise once the condition has held for rule.duration seconds
+   * - auto-clear once the condition is false and outside the hysteresis
+   *   band for rule.clearDuration seconds (defaults to rule.duration)
+   * - a sample inside the hysteresis band restarts both windows
+   */
+  private async evaluateAlarm(
+    alarm: Alarm,
+    value: any,
+    data: Record<string, any>,
+  ): Promise<void> {
+    const { rule } = alarm;
+    const timed = Boolean(rule.duration || rule.clearDuration);
+
+    if (await this.isConditionMet(alarm, value, data)) {
+      const raise =
+        !timed || (await this.alarmState.holdsRaise(alarm.id, rule.duration));
+      if (raise) {
         await this.triggerAlarm(alarm, value);
-      } else if (alarm.autoClear && alarm.status === AlarmStatus.ACTIVE) {
-        // Condition not met and auto-clear enabled - clear the alarm
-        alarm.clear();
-        await this.alarmRepository.save(alarm);
-        this.eventEmitter.emit('alarm.cleared', { alarm });
       }
+      return;
+    }
+
+    if (!this.isClearConditionMet(rule, value)) {
+      if (timed) await this.alarmState.reset(alarm.id);
+      return;
+    }
+
+    const clear =
+      !timed ||
+      (await this.alarmState.holdsClear(
+        alarm.id,
+        rule.clearDuration ?? rule.duration,
+      ));
+
+    if (clear && alarm.autoClear && alarm.status === AlarmStatus.ACTIVE) {
+      // Condition gone long enough and auto-clear enabled - clear the alarm
+      alarm.clear();
+      await this.alarmRepository.save(alarm);
+      this.eventEmitter.emit('alarm.cleared', { alarm });
+    }
+  }
+
+  /**
+   * A value that no longer meets the condition only counts towards clearing
+   * once it is past the threshold by rule.hysteresis (numeric rules only)
+   */
+  private isClearConditionMet(rule: AlarmRule, value: any): boolean {
+    const band = Number(rule.hysteresis ?? 0);
+
+    if (!band || rule.scriptId || typeof value !== 'number') {
+      return true;
+    }
+
+    switch (rule.condition) {
+      case AlarmCondition.GREATER_THAN:
+      case AlarmCondition.GREATER_THAN_OR_EQUAL:
+        return value < rule.value - band;
+      case AlarmCondition.LESS_THAN:
+      case AlarmCondition.LESS_THAN_OR_EQUAL:
+        return value > rule.value + band;
+      case AlarmCondition.BETWEEN:
+        return value < rule.value - band || value > (rule.value2 ?? rule.value) + band;
+      case AlarmCondition.OUTSIDE:
+        return value > rule.value + band && value < (rule.value2 ?? rule.value) - band;
+      default:
+        return true;
     }
   }
 
@@ -348,10 +505,42 @@ public async triggerAlarm(alarm: Alarm, value: number): Promise<void> {
     this.logger.log(`Emitting alarm.triggered for alarm: ${saved.id}`);
     this.eventEmitter.emit('alarm.triggered', { alarm: saved });
   } else {
-    this.logger.log(`Skipping emit — alarm was already active`);
+    this.eventEmitter.emit('alarm.retriggered', { alarm: saved, value });
   }
 }
 
+  /**
+   * Evaluate the rule for a value — through the rule's script when it
+   * references one, otherwise with the built-in comparison
+   */
+  private async isConditionMet(
+    alarm: Alarm,
+    value: any,
+    data: Record<string, any>,
+  ): Promise<boolean> {
+    if (!alarm.rule.scriptId) {
+      return this.evaluateCondition(alarm.rule, value);
+    }
+
+    try {
+      const result = await this.scriptsService.runById(
+        alarm.rule.scriptId,
+        alarm.tenantId,
+        {
+          msg: data,
+          metadata: { alarmId: alarm.id, deviceId: alarm.deviceId },
+          msgType: 'ALARM_CONDITION',
+        },
+      );
+      return result.success && Boolean(result.result);
+    } catch (error) {
+      this.logger.error(
+        `Alarm ${alarm.id} script ${alarm.rule.scriptId} failed: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+
   /**
    * Evaluate if condition is met
    */
@@ -589,13 +778,14 @@ private evaluateCondition(rule: any, value: any): boolean {
   async bulkClear(
     tenantId: string | undefined,
     alarmIds: string[],
+    userId?: string,
   ): Promise<{ success: number; failed: number }> {
     let success = 0;
     let failed = 0;
 
     for (const id of alarmIds) {
       try {
-        await this.clear(id, tenantId);
+        await this.clear(id, tenantId, userId);
         success++;
       } catch (error) {
         failed++;
@@ -637,6 +827,13 @@ private evaluateCondition(rule: any, value: any): boolean {
   const device = await this.deviceRepository.findOne({ where: { id: deviceId } });
   if (!device) return;
 
+  // Device-profile alarm rules (profile-wide, independent of per-device rules)
+  try {
+    await this.profileAlarms.processTelemetry(device, flatData);
+  } catch (error) {
+    this.logger.error(`Profile alarm check failed: ${(error as Error).message}`);
+  }
+
   // Single query — get all enabled alarms for this device matching any of the keys
   const alarms = await this.alarmRepository
     .createQueryBuilder('alarm')
@@ -644,6 +841,7 @@ private evaluateCondition(rule: any, value: any): boolean {
     .andWhere('alarm.tenantId = :tenantId', { tenantId: device.tenantId })
     .andWhere('alarm.isEnabled = :enabled', { enabled: true })
     .andWhere("alarm.rule->>'telemetryKey' = ANY(:keys)", { keys })
+    .andWhere('alarm.profileRuleId IS NULL')
     .getMany();
 
   if (alarms.length === 0) return;
@@ -654,15 +852,7 @@ private evaluateCondition(rule: any, value: any): boolean {
 
     if (value === undefined) continue;
 
-    const conditionMet = this.evaluateCondition(alarm.rule, value);
-
-    if (conditionMet) {
-      await this.triggerAlarm(alarm, value);
-    } else if (alarm.autoClear && alarm.status === AlarmStatus.ACTIVE) {
-      alarm.clear();
-      await this.alarmRepository.save(alarm);
-      this.eventEmitter.emit('alarm.cleared', { alarm });
-    }
+    await this.evaluateAlarm(alarm, value, flatData);
   }
 }
 
@@ -676,7 +866,9 @@ private evaluateCondition(rule: any, value: any): boolean {
   ): Promise<any> {
     const alarm = await this.findOne(id, tenantId);
 
-    const conditionMet = this.evaluateCondition(alarm.rule, testValue);
+    const conditionMet = await this.isConditionMet(alarm, testValue, {
+      [alarm.rule.telemetryKey]: testValue,
+    });
 
     return {
       alarmId: alarm.id,
@@ -684,9 +876,11 @@ private evaluateCondition(rule: any, value: any): boolean {
       rule: alarm.rule,
       testValue,
       conditionMet,
-      message: conditionMet
-        ? `Alarm would trigger: ${alarm.rule.telemetryKey} ${testValue} meets condition`
-        : `Alarm would not trigger: condition not met`,
+      message: !conditionMet
+        ? `Alarm would not trigger: condition not met`
+        : alarm.rule.duration
+          ? `Condition met: alarm triggers once it holds for ${alarm.rule.duration}s`
+          : `Alarm would trigger: ${alarm.rule.telemetryKey} ${testValue} meets condition`,
     };
   }
 }
\ No newline at end of file
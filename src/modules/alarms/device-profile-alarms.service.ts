@@ -0,0 +1,584 @@
+// src/modules/alarms/device-profile-alarms.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  Alarm,
+  Asset,
+  Attribute,
+  Device,
+  DeviceProfile,
+} from '@modules/index.entities';
+import {
+  AlarmCondition,
+  AlarmSeverity,
+  AlarmStatus,
+} from '@common/enums/index.enum';
+import type {
+  DeviceProfileAlarmRule,
+  ProfileAlarmCondition,
+  ProfileAlarmConditionSpec,
+  ProfileAlarmPredicate,
+  ProfileAlarmSeverity,
+} from '@common/interfaces/index.interface';
+import { RedisService } from '@/lib/redis/redis.service';
+import { AlarmStateService } from './alarm-state.service';
+
+/**
+ * Evaluates DeviceProfile.alarmRules for every device of the profile.
+ *
+ * - create/clear conditions are AND-ed key filters evaluated against the
+ *   device's latest known values (a sample rarely carries every key)
+ * - SIMPLE fires on the sample, DURATION once held for the spec's length,
+ *   REPEATING once met by N consecutive samples
+ * - per-severity createConditions escalate/de-escalate one alarm instance
+ * - propagate copies the device's parent asset chain onto the alarm
+ *
+ * Each (device, rule) pair has at most one open Alarm row, tagged with
+ * profileRuleId so per-device rule evaluation leaves it alone.
+ */
+@Injectable()
+export class DeviceProfileAlarmsService {
+  private readonly logger = new Logger(DeviceProfileAlarmsService.name);
+
+  // Highest first — the first severity whose condition fires wins
+  private readonly SEVERITY_ORDER: ProfileAlarmSeverity[] = [
+    'CRITICAL',
+    'MAJOR',
+    'MINOR',
+    'WARNING',
+    'INDETERMINATE',
+  ];
+
+  private readonly SEVERITY_MAP: Record<ProfileAlarmSeverity, AlarmSeverity> = {
+    CRITICAL: AlarmSeverity.CRITICAL,
+    MAJOR: AlarmSeverity.ERROR,
+    MINOR: AlarmSeverity.WARNING,
+    WARNING: AlarmSeverity.WARNING,
+    INDETERMINATE: AlarmSeverity.INFO,
+  };
+
+  private readonly DURATION_UNITS: Record<string, number> = {
+    MILLISECONDS: 0.001,
+    SECONDS: 1,
+    MINUTES: 60,
+    HOURS: 3600,
+    DAYS: 86400,
+  };
+
+  private readonly MAX_PROPAGATION_DEPTH = 10;
+  private readonly LATEST_TTL = 24 * 3600;
+
+  constructor(
+    @InjectRepository(Alarm)
+    private readonly alarmRepository: Repository<Alarm>,
+    @InjectRepository(DeviceProfile)
+    private readonly profileRepository: Repository<DeviceProfile>,
+    @InjectRepository(Asset)
+    private readonly assetRepository: Repository<Asset>,
+    @InjectRepository(Attribute)
+    private readonly attributeRepository: Repository<Attribute>,
+    private readonly alarmState: AlarmStateService,
+    private readonly redis: RedisService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ENTRY POINT (Called for every telemetry sample)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async processTelemetry(
+    device: Device,
+    sample: Record<string, any>,
+  ): Promise<void> {
+    if (!device.deviceProfileId) return;
+
+    const profile = await this.profileRepository.findOne({
+      where: { id: device.deviceProfileId, tenantId: device.tenantId },
+    });
+
+    // Only rules that reference a key of this sample need re-evaluation
+    const sampleKeys = Object.keys(sample);
+    const rules = (profile?.alarmRules ?? []).filter((rule) =>
+      this.ruleKeys(rule).some((key) => sampleKeys.includes(key)),
+    );
+
+    if (rules.length === 0) return;
+
+    const values = await this.resolveValues(device, sample, rules);
+
+    for (const rule of rules) {
+      try {
+        await this.evaluateRule(device, rule, values);
+      } catch (error) {
+        this.logger.error(
+          `Profile alarm rule ${rule.id} failed for device ${device.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // RULE EVALUATION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async evaluateRule(
+    device: Device,
+    rule: DeviceProfileAlarmRule,
+    values: Record<string, any>,
+  ): Promise<void> {
+    const open = await this.alarmRepository.findOne({
+      where: {
+        tenantId: device.tenantId,
+        deviceId: device.id,
+        profileRuleId: rule.id,
+        status: In([AlarmStatus.ACTIVE, AlarmStatus.ACKNOWLEDGED]),
+      },
+      order: { createdAt: 'DESC' },
+    });
+
+    // Every severity is evaluated so DURATION/REPEATING windows keep advancing
+    let fired: ProfileAlarmSeverity | undefined;
+    for (const [severity, condition] of this.createConditions(rule)) {
+      const holds = await this.conditionHolds(
+        this.stateId(device, rule, severity),
+        condition,
+        values,
+      );
+      if (holds && !fired) fired = severity;
+    }
+
+    if (fired) {
+      // A firing create condition breaks any clear streak in progress
+      if ((rule.clearCondition?.spec?.type ?? 'SIMPLE') !== 'SIMPLE') {
+        await this.alarmState.reset(this.stateId(device, rule, 'clear'));
+      }
+      await this.raise(device, rule, fired, values, open);
+      return;
+    }
+
+    if (!open || !rule.clearCondition) return;
+
+    const cleared = await this.conditionHolds(
+      this.stateId(device, rule, 'clear'),
+      rule.clearCondition,
+      values,
+    );
+
+    if (cleared) {
+      open.clear();
+      const saved = await this.alarmRepository.save(open);
+      await this.resetState(device, rule);
+      this.eventEmitter.emit('alarm.cleared', { alarm: saved });
+    }
+  }
+
+  /**
+   * Evaluate the AND-ed filters, then apply the spec on top. A miss resets
+   * the pending window / repeat streak for this state id.
+   */
+  private async conditionHolds(
+    stateId: string,
+    condition: ProfileAlarmCondition,
+    values: Record<string, any>,
+  ): Promise<boolean> {
+    const met =
+      (condition.condition ?? []).length > 0 &&
+      condition.condition.every((filter) =>
+        this.evaluatePredicate(
+          filter.predicate,
+          values[filter.key.key],
+          filter.valueType,
+        ),
+      );
+
+    const spec = condition.spec ?? { type: 'SIMPLE' };
+
+    if (!met) {
+      if (spec.type !== 'SIMPLE') await this.alarmState.reset(stateId);
+      return false;
+    }
+
+    switch (spec.type) {
+      case 'DURATION':
+        return this.alarmState.holdsRaise(stateId, this.durationSeconds(spec));
+      case 'REPEATING':
+        return this.alarmState.repeats(stateId, this.specValue(spec, 1));
+      default:
+        return true;
+    }
+  }
+
+  private async raise(
+    device: Device,
+    rule: DeviceProfileAlarmRule,
+    severity: ProfileAlarmSeverity,
+    values: Record<string, any>,
+    open: Alarm | null,
+  ): Promise<void> {
+    const alarmSeverity = this.SEVERITY_MAP[severity];
+    const message = this.describe(rule, severity, values);
+
+    if (open) {
+      // Already raised — only a severity change is worth a write
+      if (open.severity === alarmSeverity) return;
+
+      const previousSeverity = open.severity;
+      open.severity = alarmSeverity;
+      open.message = message;
+      open.lastTriggeredAt = new Date();
+      const saved = await this.alarmRepository.save(open);
+
+      this.logger.log(
+        `Profile alarm ${saved.id} severity ${previousSeverity} → ${alarmSeverity}`,
+      );
+      this.eventEmitter.emit('alarm.updated', {
+        alarm: saved,
+        previousSeverity,
+      });
+      return;
+    }
+
+    const firstFilter = this.createConditions(rule)[0]?.[1].condition?.[0];
+    const value = firstFilter ? values[firstFilter.key.key] : undefined;
+
+    const alarm = this.alarmRepository.create({
+      tenantId: device.tenantId,
+      customerId: device.customerId,
+      deviceId: device.id,
+      name: rule.alarmType,
+      severity: alarmSeverity,
+      profileRuleId: rule.id,
+      rule: {
+        telemetryKey: firstFilter?.key.key ?? rule.alarmType,
+        condition: this.toAlarmCondition(firstFilter?.predicate.operation),
+        value: Number(this.unwrap(firstFilter?.predicate.value)),
+      },
+      autoClear: Boolean(rule.clearCondition),
+      propagatedAssetIds: await this.propagationTargets(device, rule),
+      metadata: { deviceProfileId: device.deviceProfileId, values },
+    });
+
+    alarm.trigger(value, message);
+    const saved = await this.alarmRepository.save(alarm);
+
+    this.logger.log(
+      `Profile alarm raised: ${rule.alarmType} (${severity}) on device ${device.id}`,
+    );
+    this.eventEmitter.emit('alarm.triggered', { alarm: saved });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PREDICATES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private evaluatePredicate(
+    predicate: ProfileAlarmPredicate,
+    value: any,
+    valueType?: string,
+  ): boolean {
+    if (predicate.type === 'COMPLEX') {
+      const children = predicate.predicates ?? [];
+      return predicate.operation === 'OR'
+        ? children.some((child) =>
+            this.evaluatePredicate(child, value, valueType),
+          )
+        : children.every((child) =>
+            this.evaluatePredicate(child, value, valueType),
+          );
+    }
+
+    if (value === undefined || value === null) return false;
+
+    const target = this.unwrap(predicate.value);
+    const type = predicate.type ?? valueType ?? this.inferType(value);
+
+    switch (type) {
+      case 'NUMERIC':
+        return this.compareNumeric(
+          predicate.operation,
+          Number(value),
+          Number(target),
+        );
+      case 'BOOLEAN': {
+        const actual = value === true || value === 'true';
+        const expected = target === true || target === 'true';
+        return predicate.operation === 'NOT_EQUAL'
+          ? actual !== expected
+          : actual === expected;
+      }
+      default:
+        return this.compareString(
+          predicate.operation,
+          String(value),
+          String(target),
+          predicate.ignoreCase,
+        );
+    }
+  }
+
+  private compareNumeric(
+    operation: string,
+    value: number,
+    target: number,
+  ): boolean {
+    if (isNaN(value) || isNaN(target)) return false;
+
+    switch (operation) {
+      case 'EQUAL':
+        return value === target;
+      case 'NOT_EQUAL':
+        return value !== target;
+      case 'GREATER':
+        return value > target;
+      case 'LESS':
+        return value < target;
+      case 'GREATER_OR_EQUAL':
+        return value >= target;
+      case 'LESS_OR_EQUAL':
+        return value <= target;
+      default:
+        return false;
+    }
+  }
+
+  private compareString(
+    operation: string,
+    value: string,
+    target: string,
+    ignoreCase?: boolean,
+  ): boolean {
+    const actual = ignoreCase ? value.toLowerCase() : value;
+    const expected = ignoreCase ? target.toLowerCase() : target;
+
+    switch (operation) {
+      case 'EQUAL':
+        return actual === expected;
+      case 'NOT_EQUAL':
+        return actual !== expected;
+      case 'STARTS_WITH':
+        return actual.startsWith(expected);
+      case 'ENDS_WITH':
+        return actual.endsWith(expected);
+      case 'CONTAINS':
+        return actual.includes(expected);
+      case 'NOT_CONTAINS':
+        return !actual.includes(expected);
+      default:
+        return false;
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Normalize the legacy single severity/createCondition form and the
+   * per-severity createConditions map into a highest-first list
+   */
+  private createConditions(
+    rule: DeviceProfileAlarmRule,
+  ): Array<[ProfileAlarmSeverity, ProfileAlarmCondition]> {
+    const conditions: Partial<
+      Record<ProfileAlarmSeverity, ProfileAlarmCondition>
+    > = { ...rule.createConditions };
+
+    if (rule.createCondition && !conditions[rule.severity ?? 'WARNING']) {
+      conditions[rule.severity ?? 'WARNING'] = rule.createCondition;
+    }
+
+    return this.SEVERITY_ORDER.filter((severity) => conditions[severity]).map(
+      (severity) => [severity, conditions[severity]!],
+    );
+  }
+
+  private ruleKeys(rule: DeviceProfileAlarmRule): string[] {
+    const conditions = [
+      ...this.createConditions(rule).map(([, condition]) => condition),
+      ...(rule.clearCondition ? [rule.clearCondition] : []),
+    ];
+    return [
+      ...new Set(
+        conditions.flatMap((condition) =>
+          (condition.condition ?? []).map((filter) => filter.key.key),
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Merge the sample over the device's last known values for the keys the
+   * rules use (cached in Redis) and the device's ATTRIBUTE keys
+   */
+  private async resolveValues(
+    device: Device,
+    sample: Record<string, any>,
+    rules: DeviceProfileAlarmRule[],
+  ): Promise<Record<string, any>> {
+    const cacheKey = `alarm:profile:latest:${device.id}`;
+    const keys = [...new Set(rules.flatMap((rule) => this.ruleKeys(rule)))];
+    const values: Record<string, any> = {};
+
+    try {
+      const cached = await this.redis.hgetall(cacheKey);
+      for (const key of keys) {
+        if (cached[key] !== undefined) values[key] = JSON.parse(cached[key]);
+      }
+
+      const updates = Object.fromEntries(
+        keys
+          .filter((key) => sample[key] !== undefined)
+          .map((key) => [key, JSON.stringify(sample[key])]),
+      );
+      if (Object.keys(updates).length > 0) {
+        await this.redis.hmset(cacheKey, updates);
+        await this.redis.expire(cacheKey, this.LATEST_TTL);
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Latest values unavailable for device ${device.id}: ${(error as Error).message}`,
+      );
+    }
+
+    const attributeKeys = rules.flatMap((rule) =>
+      [
+        ...this.createConditions(rule).map(([, condition]) => condition),
+        ...(rule.clearCondition ? [rule.clearCondition] : []),
+      ].flatMap((condition) =>
+        (condition.condition ?? [])
+          .filter((filter) => filter.key.type === 'ATTRIBUTE')
+          .map((filter) => filter.key.key),
+      ),
+    );
+
+    if (attributeKeys.length > 0) {
+      const attributes = await this.attributeRepository.find({
+        where: {
+          tenantId: device.tenantId,
+          entityType: 'device',
+          entityId: device.id,
+          attributeKey: In(attributeKeys),
+        },
+      });
+      for (const attribute of attributes) {
+        values[attribute.attributeKey] = attribute.getValue();
+      }
+    }
+
+    for (const key of keys) {
+      if (sample[key] !== undefined) values[key] = sample[key];
+    }
+
+    return values;
+  }
+
+  /**
+   * Parent asset chain (nearest first) the alarm is propagated to.
+   * Our hierarchy only has containment, so a rule restricted to other
+   * relation types does not propagate.
+   */
+  private async propagationTargets(
+    device: Device,
+    rule: DeviceProfileAlarmRule,
+  ): Promise<string[] | undefined> {
+    if (!rule.propagate || !device.assetId) return undefined;
+
+    const relationTypes = rule.propagateRelationTypes ?? [];
+    if (
+      relationTypes.length > 0 &&
+      !relationTypes.some((type) => type.toLowerCase() === 'contains')
+    ) {
+      return undefined;
+    }
+
+    const assetIds: string[] = [];
+    let assetId: string | undefined = device.assetId;
+
+    while (
+      assetId &&
+      !assetIds.includes(assetId) &&
+      assetIds.length < this.MAX_PROPAGATION_DEPTH
+    ) {
+      assetIds.push(assetId);
+      const asset = await this.assetRepository.findOne({
+        where: { id: assetId, tenantId: device.tenantId },
+        select: ['id', 'parentAssetId'],
+      });
+      assetId = asset?.parentAssetId;
+    }
+
+    return assetIds;
+  }
+
+  private async resetState(
+    device: Device,
+    rule: DeviceProfileAlarmRule,
+  ): Promise<void> {
+    for (const severity of [...this.SEVERITY_ORDER, 'clear']) {
+      await this.alarmState.reset(this.stateId(device, rule, severity));
+    }
+  }
+
+  private stateId(
+    device: Device,
+    rule: DeviceProfileAlarmRule,
+    suffix: string,
+  ): string {
+    return `profile:${device.id}:${rule.id}:${suffix}`;
+  }
+
+  private durationSeconds(spec: ProfileAlarmConditionSpec): number {
+    const unit = this.DURATION_UNITS[spec.unit ?? 'SECONDS'] ?? 1;
+    return this.specValue(spec, 0) * unit;
+  }
+
+  private specValue(spec: ProfileAlarmConditionSpec, fallback: number): number {
+    const value = Number(spec.predicate?.defaultValue ?? spec.value);
+    return isNaN(value) ? fallback : value;
+  }
+
+  /**
+   * Predicate values come either raw or as { defaultValue }
+   */
+  private unwrap(value: any): any {
+    return value !== null &&
+      typeof value === 'object' &&
+      'defaultValue' in value
+      ? value.defaultValue
+      : value;
+  }
+
+  private inferType(value: any): string {
+    if (typeof value === 'boolean') return 'BOOLEAN';
+    if (typeof value === 'number') return 'NUMERIC';
+    return 'STRING';
+  }
+
+  private toAlarmCondition(operation?: string): AlarmCondition {
+    const map: Record<string, AlarmCondition> = {
+      GREATER: AlarmCondition.GREATER_THAN,
+      LESS: AlarmCondition.LESS_THAN,
+      EQUAL: AlarmCondition.EQUAL,
+      NOT_EQUAL: AlarmCondition.NOT_EQUAL,
+      GREATER_OR_EQUAL: AlarmCondition.GREATER_THAN_OR_EQUAL,
+      LESS_OR_EQUAL: AlarmCondition.LESS_THAN_OR_EQUAL,
+      CONTAINS: AlarmCondition.CONTAINS,
+      NOT_CONTAINS: AlarmCondition.NOT_CONTAINS,
+    };
+    return map[operation ?? ''] ?? AlarmCondition.EXISTS;
+  }
+
+  private describe(
+    rule: DeviceProfileAlarmRule,
+    severity: ProfileAlarmSeverity,
+    values: Record<string, any>,
+  ): string {
+    const current = this.ruleKeys(rule)
+      .filter((key) => values[key] !== undefined)
+      .map((key) => `${key}=${values[key]}`)
+      .join(', ');
+    return `${rule.alarmType} (${severity}). Current values: ${current}`;
+  }
+}
@@ -0,0 +1,54 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsUUID,
+  IsNotEmpty,
+  MaxLength,
+  ArrayMaxSize,
+} from 'class-validator';
+
+export class CreateAlarmCommentDto {
+  @ApiProperty({ example: 'Door sensor shows the cold room was left open' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+
+  @ApiPropertyOptional({
+    example: 'comment-uuid',
+    description: 'Comment to reply to',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string;
+
+  @ApiPropertyOptional({
+    example: ['user-uuid'],
+    description: 'Users to notify',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsUUID('4', { each: true })
+  mentionedUserIds?: string[];
+}
+
+export class UpdateAlarmCommentDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  body: string;
+
+  @ApiPropertyOptional({
+    example: ['user-uuid'],
+    description: 'Only newly mentioned users are notified',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsUUID('4', { each: true })
+  mentionedUserIds?: string[];
+}
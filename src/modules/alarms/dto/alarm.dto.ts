@@ -8,10 +8,18 @@ import {
   IsNumber,
   IsArray,
   ValidateNested,
+  ValidateIf,
+  IsUUID,
   Min,
+  Max,
 } from 'class-validator';
-import { Type } from 'class-transformer';
-import { AlarmCondition, AlarmSeverity, AlarmStatus} from '@common/enums/index.enum'
+import { Transform, Type } from 'class-transformer';
+import {
+  AlarmCondition,
+  AlarmSeverity,
+  AlarmStatus,
+  AlarmTimelineEventType,
+} from '@common/enums/index.enum';
 import type { AlarmRule } from '@common/interfaces/index.interface';
 
 export class AlarmRuleDto implements AlarmRule {
@@ -20,10 +28,12 @@ export class AlarmRuleDto implements AlarmRule {
   telemetryKey: string;
 
   @ApiProperty({ enum: AlarmCondition, example: AlarmCondition.GREATER_THAN })
+  @ValidateIf((rule: AlarmRuleDto) => !rule.scriptId)
   @IsEnum(AlarmCondition)
   condition: AlarmCondition;
 
   @ApiProperty({ example: 30 })
+  @ValidateIf((rule: AlarmRuleDto) => !rule.scriptId)
   @IsNumber()
   value: number;
 
@@ -32,11 +42,44 @@ export class AlarmRuleDto implements AlarmRule {
   @IsNumber()
   value2?: number;
 
-  @ApiPropertyOptional({ example: 300, description: 'Duration in seconds' })
+  @ApiPropertyOptional({
+    example: 300,
+    description:
+      'Seconds the condition must hold continuously before the alarm triggers',
+  })
   @IsOptional()
   @IsNumber()
   @Min(0)
   duration?: number;
+
+  @ApiPropertyOptional({
+    example: 300,
+    description:
+      'Seconds the condition must stay false before auto-clear (defaults to duration)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  clearDuration?: number;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description:
+      'Deadband for auto-clear: the value must pass the threshold by this much (e.g. > 30 clears below 28)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  hysteresis?: number;
+
+  @ApiPropertyOptional({
+    example: 'script-uuid',
+    description:
+      'Script that decides the condition instead of condition/value. Receives the telemetry as msg and must return a truthy value to raise the alarm.',
+  })
+  @IsOptional()
+  @IsUUID()
+  scriptId?: string;
 }
 
 export class CreateAlarmDto {
@@ -99,6 +142,14 @@ export class CreateAlarmDto {
     phones?: string[];
   };
 
+  @ApiPropertyOptional({
+    description:
+      "Escalation policy — defaults to the device profile's, then the tenant default",
+  })
+  @IsOptional()
+  @IsUUID()
+  escalationPolicyId?: string;
+
   @ApiPropertyOptional({ example: ['critical', 'production'] })
   @IsOptional()
   @IsArray()
@@ -154,6 +205,11 @@ export class UpdateAlarmDto {
   @IsObject()
   recipients?: any;
 
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  escalationPolicyId?: string;
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsArray()
@@ -166,6 +222,13 @@ export class AlarmQueryDto {
   @IsString()
   deviceId?: string;
 
+  @ApiPropertyOptional({
+    description: 'Alarms propagated to this asset (device-profile rules)',
+  })
+  @IsOptional()
+  @IsString()
+  assetId?: string;
+
   @ApiPropertyOptional({ enum: AlarmSeverity })
   @IsOptional()
   @IsEnum(AlarmSeverity)
@@ -176,6 +239,11 @@ export class AlarmQueryDto {
   @IsEnum(AlarmStatus)
   status?: AlarmStatus;
 
+  @ApiPropertyOptional({ description: 'Alarms assigned to this user' })
+  @IsOptional()
+  @IsUUID()
+  assigneeId?: string;
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsString()
@@ -224,3 +292,44 @@ export class ResolveAlarmDto {
   @IsString()
   note: string;
 }
+
+export class AssignAlarmDto {
+  @ApiPropertyOptional({
+    example: 'user-uuid',
+    description: 'Omit or null to unassign',
+  })
+  @IsOptional()
+  @IsUUID()
+  assigneeId?: string | null;
+
+  @ApiPropertyOptional({ example: 'Please check the compressor' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class AlarmTimelineQueryDto {
+  @ApiPropertyOptional({ enum: AlarmTimelineEventType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(AlarmTimelineEventType, { each: true })
+  @Transform(({ value }: { value: unknown }) =>
+    Array.isArray(value) ? (value as unknown[]) : [value],
+  )
+  types?: AlarmTimelineEventType[];
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit?: number = 100;
+}
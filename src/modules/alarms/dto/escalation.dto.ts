@@ -0,0 +1,237 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsUUID,
+  IsDateString,
+  IsNotEmpty,
+  ValidateNested,
+  ValidateIf,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { NotificationChannel, UserRole } from '@common/enums/index.enum';
+import type {
+  EscalationStep,
+  EscalationTarget,
+  EscalationTargetType,
+  OnCallRotation,
+} from '@common/interfaces/index.interface';
+
+const TARGET_TYPES: EscalationTargetType[] = [
+  'USERS',
+  'ROLE',
+  'ON_CALL',
+  'ALARM_RECIPIENTS',
+];
+
+// ══════════════════════════════════════════════════════════════════════════
+// ESCALATION POLICIES
+// ══════════════════════════════════════════════════════════════════════════
+
+export class EscalationTargetDto implements EscalationTarget {
+  @ApiProperty({ enum: TARGET_TYPES, example: 'ON_CALL' })
+  @IsIn(TARGET_TYPES)
+  type: EscalationTargetType;
+
+  @ApiPropertyOptional({ example: ['user-uuid'] })
+  @ValidateIf((t: EscalationTargetDto) => t.type === 'USERS')
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('4', { each: true })
+  userIds?: string[];
+
+  @ApiPropertyOptional({ enum: UserRole, example: UserRole.TENANT_ADMIN })
+  @ValidateIf((t: EscalationTargetDto) => t.type === 'ROLE')
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiPropertyOptional({ example: 'schedule-uuid' })
+  @ValidateIf((t: EscalationTargetDto) => t.type === 'ON_CALL')
+  @IsUUID()
+  scheduleId?: string;
+}
+
+export class EscalationStepDto implements EscalationStep {
+  @ApiProperty({
+    example: 15,
+    description:
+      'Minutes after the previous step (the first: after the alarm triggered)',
+  })
+  @IsInt()
+  @Min(0)
+  @Max(7 * 24 * 60)
+  delayMinutes: number;
+
+  @ApiProperty({ type: [EscalationTargetDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => EscalationTargetDto)
+  targets: EscalationTargetDto[];
+
+  @ApiProperty({
+    enum: NotificationChannel,
+    isArray: true,
+    example: [NotificationChannel.SMS, NotificationChannel.PUSH],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(NotificationChannel, { each: true })
+  channels: NotificationChannel[];
+}
+
+export class CreateEscalationPolicyDto {
+  @ApiProperty({ example: 'Cold room escalation' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: [EscalationStepDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => EscalationStepDto)
+  steps: EscalationStepDto[];
+
+  @ApiPropertyOptional({
+    default: 0,
+    description: 'Times to run all steps again once the last one is done',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  repeatCount?: number;
+
+  @ApiPropertyOptional({ default: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(7 * 24 * 60)
+  repeatAfterMinutes?: number;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Use for tenant alarms whose alarm / profile names no policy',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class UpdateEscalationPolicyDto extends PartialType(
+  CreateEscalationPolicyDto,
+) {}
+
+// ══════════════════════════════════════════════════════════════════════════
+// ON-CALL SCHEDULES
+// ══════════════════════════════════════════════════════════════════════════
+
+export class OnCallRotationDto implements OnCallRotation {
+  @ApiPropertyOptional({ example: 'Weekly' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({
+    example: ['user-uuid-1', 'user-uuid-2'],
+    description: 'Shift order — userIds[0] is on call from startsAt',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('4', { each: true })
+  userIds: string[];
+
+  @ApiProperty({ example: '2026-01-05T08:00:00Z' })
+  @IsDateString()
+  startsAt: string;
+
+  @ApiProperty({ example: 168, description: 'Length of each shift in hours' })
+  @IsInt()
+  @Min(1)
+  @Max(24 * 365)
+  shiftHours: number;
+
+  @ApiPropertyOptional({ example: '2026-12-31T08:00:00Z' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+}
+
+export class CreateOnCallScheduleDto {
+  @ApiProperty({ example: 'Facilities on-call' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    type: [OnCallRotationDto],
+    description: 'Later rotations win where they overlap',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => OnCallRotationDto)
+  rotations: OnCallRotationDto[];
+}
+
+export class UpdateOnCallScheduleDto extends PartialType(
+  CreateOnCallScheduleDto,
+) {}
+
+export class OnCallOverrideDto {
+  @ApiProperty({ example: 'user-uuid' })
+  @IsUUID()
+  userId: string;
+
+  @ApiProperty({ example: '2026-02-14T18:00:00Z' })
+  @IsDateString()
+  startsAt: string;
+
+  @ApiProperty({ example: '2026-02-15T08:00:00Z' })
+  @IsDateString()
+  endsAt: string;
+
+  @ApiPropertyOptional({ example: 'Swap with Sam' })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class OnCallShiftsQueryDto {
+  @ApiPropertyOptional({ description: 'Default now' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ description: 'Default from + 14 days, at most 90' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
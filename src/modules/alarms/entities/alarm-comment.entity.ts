@@ -0,0 +1,60 @@
+// src/modules/alarms/entities/alarm-comment.entity.ts
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Alarm, User } from '@modules/index.entities';
+
+/**
+ * Operator comment on an alarm. Threads are one level deep: a reply to a
+ * reply is attached to the thread's root comment.
+ */
+@Entity('alarm_comments')
+@Index(['alarmId', 'createdAt'])
+export class AlarmComment extends BaseEntity {
+  @Column()
+  tenantId: string;
+
+  @Column()
+  alarmId: string;
+
+  @ManyToOne(() => Alarm, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'alarmId' })
+  alarm: Alarm;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // Root comment of the thread — null for the root itself
+  @Column({ nullable: true })
+  parentId?: string;
+
+  @ManyToOne(() => AlarmComment, (comment) => comment.replies, {
+    nullable: true,
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'parentId' })
+  parent?: AlarmComment;
+
+  @OneToMany(() => AlarmComment, (comment) => comment.parent)
+  replies?: AlarmComment[];
+
+  @Column({ type: 'text' })
+  body: string;
+
+  // Users notified by the comment (validated to be in the tenant)
+  @Column({ type: 'jsonb', default: [] })
+  mentionedUserIds: string[];
+
+  @Column({ type: 'timestamp', nullable: true })
+  editedAt?: Date;
+}
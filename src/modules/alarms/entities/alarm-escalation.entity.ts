@@ -0,0 +1,81 @@
+// src/modules/alarms/entities/alarm-escalation.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Alarm } from '@modules/index.entities';
+import { EscalationPolicy } from './escalation-policy.entity';
+import type {
+  EscalationLogAction,
+  EscalationLogEntry,
+} from '@common/interfaces/index.interface';
+
+export type AlarmEscalationStatus = 'ACTIVE' | 'STOPPED' | 'EXHAUSTED';
+
+/**
+ * One escalation run of an alarm: started when it triggers, stopped when it
+ * is acknowledged / cleared / resolved. An alarm that triggers again gets a
+ * new run. Kept apart from the Alarm row so escalation progress never races
+ * with alarm updates.
+ */
+@Entity('alarm_escalations')
+@Index(['status', 'nextStepAt']) // Due steps (AlarmEscalationService cron)
+@Index(['alarmId', 'status'])
+export class AlarmEscalation extends BaseEntity {
+  @Column()
+  tenantId: string;
+
+  @Column()
+  alarmId: string;
+
+  @ManyToOne(() => Alarm, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'alarmId' })
+  alarm: Alarm;
+
+  @Column({ nullable: true })
+  policyId?: string;
+
+  @ManyToOne(() => EscalationPolicy, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'policyId' })
+  policy?: EscalationPolicy;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PROGRESS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ type: 'varchar', length: 20, default: 'ACTIVE' })
+  status: AlarmEscalationStatus;
+
+  // Index into policy.steps of the step that runs at nextStepAt
+  @Column({ type: 'int', default: 0 })
+  nextStep: number;
+
+  // 0 for the first pass through the steps, +1 per repeat
+  @Column({ type: 'int', default: 0 })
+  cycle: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  nextStepAt?: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  stoppedAt?: Date;
+
+  @Column({ nullable: true })
+  stopReason?: string;
+
+  // Every step taken, in order
+  @Column({ type: 'jsonb', default: [] })
+  log: EscalationLogEntry[];
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPER METHODS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  record(
+    action: EscalationLogAction,
+    entry: Omit<EscalationLogEntry, 'at' | 'action'> = {},
+  ): void {
+    this.log = [
+      ...(this.log ?? []),
+      { at: new Date().toISOString(), action, ...entry },
+    ];
+  }
+}
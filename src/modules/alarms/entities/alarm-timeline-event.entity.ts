@@ -0,0 +1,44 @@
+// src/modules/alarms/entities/alarm-timeline-event.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Alarm, User } from '@modules/index.entities';
+import { AlarmTimelineEventType } from '@common/enums/index.enum';
+
+/**
+ * One entry of an alarm's lifecycle. Append-only: AlarmTimelineService
+ * inserts them from alarm events and nothing updates or deletes them (they
+ * go with the alarm row).
+ */
+@Entity('alarm_timeline_events')
+@Index(['alarmId', 'createdAt'])
+export class AlarmTimelineEvent extends BaseEntity {
+  @Column()
+  tenantId: string;
+
+  @Column()
+  alarmId: string;
+
+  @ManyToOne(() => Alarm, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'alarmId' })
+  alarm: Alarm;
+
+  @Column({ type: 'varchar', length: 30 })
+  type: AlarmTimelineEventType;
+
+  // Who did it — null for the system (rule engine, auto-clear)
+  @Column({ nullable: true })
+  userId?: string;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'userId' })
+  user?: User;
+
+  // Type-specific details, e.g.
+  //   SEVERITY_CHANGED { from, to }
+  //   TRIGGERED / RETRIGGERED { triggerCount, value, severity, message }
+  //   ASSIGNED         { assigneeId, previousAssigneeId }
+  //   COMMENTED        { commentId, parentId, mentionedUserIds }
+  //   ACKNOWLEDGED / RESOLVED / ASSIGNED { note }
+  @Column({ type: 'jsonb', default: {} })
+  data: Record<string, any>;
+}
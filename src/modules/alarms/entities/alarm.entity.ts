@@ -11,6 +11,8 @@ import type { AlarmRule } from '@/common/interfaces/index.interface';
 @Index(['tenantId', 'customerId', 'status'])     // Customer alarms
 @Index(['tenantId', 'createdBy'])                // User's alarms
 @Index(['status', 'isEnabled', 'triggeredAt'])   // Active alarms processing
+@Index(['tenantId', 'deviceId', 'profileRuleId']) // Device-profile alarm instances
+@Index(['tenantId', 'assigneeId', 'status'])     // Alarms assigned to a user
 export class Alarm extends BaseEntity {
   // ══════════════════════════════════════════════════════════════════════════
   // TENANT SCOPING (REQUIRED)
@@ -75,6 +77,16 @@ export class Alarm extends BaseEntity {
   //   duration: 300  // seconds - only trigger if condition persists
   // }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // DEVICE PROFILE RULES (Alarms raised from DeviceProfile.alarmRules)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ nullable: true })
+  profileRuleId?: string;  // DeviceProfile.alarmRules[].id — null for per-device rules
+
+  @Column({ type: 'jsonb', nullable: true })
+  propagatedAssetIds?: string[];  // Parent asset hierarchy the alarm is propagated to
+
   // ══════════════════════════════════════════════════════════════════════════
   // TRIGGER DATA
   // ══════════════════════════════════════════════════════════════════════════
@@ -128,6 +140,17 @@ export class Alarm extends BaseEntity {
   @Column({ type: 'text', nullable: true })
   resolutionNote?: string;
 
+  // Assigned (user owns the follow-up)
+  @Column({ nullable: true })
+  assigneeId?: string | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'assigneeId' })
+  assignee?: User;
+
+  @Column({ type: 'timestamp', nullable: true })
+  assignedAt?: Date | null;
+
   // ══════════════════════════════════════════════════════════════════════════
   // CONFIGURATION
   // ══════════════════════════════════════════════════════════════════════════
@@ -158,6 +181,11 @@ export class Alarm extends BaseEntity {
     phones?: string[];
   };
 
+  // Follow-up rounds while unacknowledged — falls back to the device
+  // profile's policy, then the tenant default (AlarmEscalationService)
+  @Column({ nullable: true })
+  escalationPolicyId?: string;
+
   // ══════════════════════════════════════════════════════════════════════════
   // METADATA
   // ══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,53 @@
+// src/modules/alarms/entities/escalation-policy.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant } from '@modules/index.entities';
+import type { EscalationStep } from '@common/interfaces/index.interface';
+
+/**
+ * Who to notify, and when, while an alarm stays unacknowledged. Attached to
+ * an alarm or a device profile (escalationPolicyId), or used for every alarm
+ * of the tenant when isDefault. See escalation.interface.ts.
+ */
+@Entity('escalation_policies')
+@Index(['tenantId', 'isDefault'])
+export class EscalationPolicy extends BaseEntity {
+  // ══════════════════════════════════════════════════════════════════════════
+  // TENANT SCOPING
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // POLICY
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  steps: EscalationStep[];
+
+  // Times the whole policy runs again after its last step, repeatAfterMinutes
+  // apart, before the escalation is exhausted
+  @Column({ type: 'int', default: 0 })
+  repeatCount: number;
+
+  @Column({ type: 'int', default: 30 })
+  repeatAfterMinutes: number;
+
+  // Tenant-wide fallback — at most one per tenant
+  @Column({ default: false })
+  isDefault: boolean;
+
+  @Column({ default: true })
+  enabled: boolean;
+}
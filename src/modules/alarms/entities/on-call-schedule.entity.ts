@@ -0,0 +1,139 @@
+// src/modules/alarms/entities/on-call-schedule.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant } from '@modules/index.entities';
+import type {
+  OnCallOverride,
+  OnCallRotation,
+  OnCallShift,
+} from '@common/interfaces/index.interface';
+
+const HOUR_MS = 3600_000;
+
+/**
+ * Rotations plus one-off overrides, paged by ON_CALL escalation steps.
+ * Times are absolute (ISO), so shifts follow startsAt rather than a wall clock.
+ */
+@Entity('on_call_schedules')
+export class OnCallSchedule extends BaseEntity {
+  // ══════════════════════════════════════════════════════════════════════════
+  // TENANT SCOPING
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  @Index()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // SCHEDULE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  // Later rotations win where they overlap
+  @Column({ type: 'jsonb', default: [] })
+  rotations: OnCallRotation[];
+
+  @Column({ type: 'jsonb', default: [] })
+  overrides: OnCallOverride[];
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPER METHODS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * The shift covering `at` — override first, then the last rotation that
+   * is running
+   */
+  shiftAt(at: Date = new Date()): OnCallShift | null {
+    const t = at.getTime();
+
+    const override = (this.overrides ?? []).find(
+      (o) => Date.parse(o.startsAt) <= t && t < Date.parse(o.endsAt),
+    );
+    if (override) {
+      return {
+        userId: override.userId,
+        startsAt: new Date(override.startsAt),
+        endsAt: new Date(override.endsAt),
+        overrideId: override.id,
+      };
+    }
+
+    for (const rotation of [...(this.rotations ?? [])].reverse()) {
+      const start = Date.parse(rotation.startsAt);
+      const end = rotation.endsAt ? Date.parse(rotation.endsAt) : Infinity;
+      const shiftMs = rotation.shiftHours * HOUR_MS;
+      if (t < start || t >= end || !rotation.userIds.length || shiftMs <= 0) {
+        continue;
+      }
+
+      const turn = Math.floor((t - start) / shiftMs);
+      const shiftStart = start + turn * shiftMs;
+      return {
+        userId: rotation.userIds[turn % rotation.userIds.length],
+        startsAt: new Date(shiftStart),
+        endsAt: new Date(Math.min(shiftStart + shiftMs, end)),
+        rotation: rotation.name,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Consecutive shifts over [from, to) — each one is cut where an override or
+   * a higher rotation takes over
+   */
+  shiftsBetween(from: Date, to: Date): OnCallShift[] {
+    const shifts: OnCallShift[] = [];
+    let t = from.getTime();
+
+    while (t < to.getTime()) {
+      const shift = this.shiftAt(new Date(t));
+      const next = this.nextBoundary(t, to.getTime());
+
+      if (shift) {
+        const endsAt = new Date(Math.min(shift.endsAt.getTime(), next));
+        const last = shifts[shifts.length - 1];
+        if (
+          last &&
+          last.userId === shift.userId &&
+          last.overrideId === shift.overrideId &&
+          last.endsAt.getTime() === t
+        ) {
+          last.endsAt = endsAt;
+        } else {
+          shifts.push({ ...shift, startsAt: new Date(t), endsAt });
+        }
+        t = endsAt.getTime();
+      } else {
+        t = next;
+      }
+    }
+
+    return shifts;
+  }
+
+  // Earliest override / rotation start or end after t, capped at limit
+  private nextBoundary(t: number, limit: number): number {
+    const edges = [
+      ...(this.overrides ?? []).flatMap((o) => [o.startsAt, o.endsAt]),
+      ...(this.rotations ?? []).flatMap((r) =>
+        r.endsAt ? [r.startsAt, r.endsAt] : [r.startsAt],
+      ),
+    ]
+      .map((iso) => Date.parse(iso))
+      .filter((edge) => edge > t);
+
+    return Math.min(limit, ...edges);
+  }
+}
@@ -0,0 +1,81 @@
+// src/modules/alarms/escalation-policies.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { EscalationPoliciesService } from './escalation-policies.service';
+import {
+  CreateEscalationPolicyDto,
+  UpdateEscalationPolicyDto,
+} from './dto/escalation.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { TenantAdminOnly } from '@common/decorators/access-control.decorator';
+import { ParseIdPipe } from '@common/pipes/parse-id.pipe';
+import { User } from '@modules/users/entities/user.entity';
+
+@ApiTags('alarms')
+@Controller('alarm-escalation-policies')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class EscalationPoliciesController {
+  constructor(private readonly policiesService: EscalationPoliciesService) {}
+
+  @Post()
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Create an alarm escalation policy' })
+  @ApiResponse({ status: 201, description: 'Escalation policy created' })
+  @ApiResponse({ status: 400, description: 'Unknown users or schedules' })
+  create(@CurrentUser() user: User, @Body() dto: CreateEscalationPolicyDto) {
+    return this.policiesService.create(user, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List alarm escalation policies' })
+  findAll(@CurrentUser() user: User) {
+    return this.policiesService.findAll(user.tenantId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an alarm escalation policy' })
+  @ApiResponse({ status: 404, description: 'Escalation policy not found' })
+  findOne(@Param('id', ParseIdPipe) id: string, @CurrentUser() user: User) {
+    return this.policiesService.findOne(id, user.tenantId);
+  }
+
+  @Patch(':id')
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Update an alarm escalation policy' })
+  @ApiResponse({ status: 400, description: 'Unknown users or schedules' })
+  @ApiResponse({ status: 404, description: 'Escalation policy not found' })
+  update(
+    @Param('id', ParseIdPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() dto: UpdateEscalationPolicyDto,
+  ) {
+    return this.policiesService.update(id, user, dto);
+  }
+
+  @Delete(':id')
+  @TenantAdminOnly()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an alarm escalation policy' })
+  @ApiResponse({ status: 204, description: 'Escalation policy deleted' })
+  remove(@Param('id', ParseIdPipe) id: string, @CurrentUser() user: User) {
+    return this.policiesService.remove(id, user.tenantId);
+  }
+}
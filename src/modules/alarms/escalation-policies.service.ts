@@ -0,0 +1,197 @@
+// src/modules/alarms/escalation-policies.service.ts
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import {
+  Alarm,
+  Device,
+  DeviceProfile,
+  EscalationPolicy,
+  OnCallSchedule,
+  User,
+} from '@modules/index.entities';
+import type { EscalationStep } from '@common/interfaces/index.interface';
+import {
+  CreateEscalationPolicyDto,
+  UpdateEscalationPolicyDto,
+} from './dto/escalation.dto';
+
+@Injectable()
+export class EscalationPoliciesService {
+  private readonly logger = new Logger(EscalationPoliciesService.name);
+
+  constructor(
+    @InjectRepository(EscalationPolicy)
+    private readonly policyRepository: Repository<EscalationPolicy>,
+    @InjectRepository(OnCallSchedule)
+    private readonly scheduleRepository: Repository<OnCallSchedule>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    @InjectRepository(DeviceProfile)
+    private readonly profileRepository: Repository<DeviceProfile>,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CRUD
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async findAll(tenantId: string | undefined): Promise<EscalationPolicy[]> {
+    return this.policyRepository.find({
+      where: { tenantId: this.requireTenant(tenantId) },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(
+    id: string,
+    tenantId: string | undefined,
+  ): Promise<EscalationPolicy> {
+    const policy = await this.policyRepository.findOne({
+      where: { id, tenantId: this.requireTenant(tenantId) },
+    });
+    if (!policy) throw new NotFoundException('Escalation policy not found');
+    return policy;
+  }
+
+  async create(
+    user: User,
+    dto: CreateEscalationPolicyDto,
+  ): Promise<EscalationPolicy> {
+    const tenantId = this.requireTenant(user.tenantId);
+    await this.validateSteps(tenantId, dto.steps);
+
+    if (dto.isDefault) await this.unsetDefault(tenantId);
+
+    const saved = await this.policyRepository.save(
+      this.policyRepository.create({
+        ...dto,
+        tenantId,
+        createdBy: user.id,
+      }),
+    );
+
+    this.logger.log(`Escalation policy created: ${saved.id} (${saved.name})`);
+    return saved;
+  }
+
+  async update(
+    id: string,
+    user: User,
+    dto: UpdateEscalationPolicyDto,
+  ): Promise<EscalationPolicy> {
+    const policy = await this.findOne(id, user.tenantId);
+
+    if (dto.steps) await this.validateSteps(policy.tenantId, dto.steps);
+    if (dto.isDefault && !policy.isDefault) {
+      await this.unsetDefault(policy.tenantId);
+    }
+
+    Object.assign(policy, dto, { updatedBy: user.id });
+    return this.policyRepository.save(policy);
+  }
+
+  async remove(id: string, tenantId: string | undefined): Promise<void> {
+    const policy = await this.findOne(id, tenantId);
+    await this.policyRepository.softRemove(policy);
+    this.logger.log(`Escalation policy deleted: ${id}`);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // RESOLUTION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * alarm.escalationPolicyId → device profile's → tenant default. A policy
+   * that is disabled (or gone) ends the lookup: an explicit choice is not
+   * silently replaced by a broader one.
+   */
+  async resolveForAlarm(alarm: Alarm): Promise<EscalationPolicy | null> {
+    let policyId = alarm.escalationPolicyId;
+
+    if (!policyId && alarm.deviceId) {
+      const device = await this.deviceRepository.findOne({
+        where: { id: alarm.deviceId },
+        select: ['id', 'deviceProfileId'],
+      });
+      if (device?.deviceProfileId) {
+        const profile = await this.profileRepository.findOne({
+          where: { id: device.deviceProfileId },
+          select: ['id', 'escalationPolicyId'],
+        });
+        policyId = profile?.escalationPolicyId;
+      }
+    }
+
+    const policy = await this.policyRepository.findOne({
+      where: policyId
+        ? { id: policyId, tenantId: alarm.tenantId }
+        : { tenantId: alarm.tenantId, isDefault: true },
+    });
+
+    return policy?.enabled && policy.steps.length ? policy : null;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async validateSteps(
+    tenantId: string,
+    steps: EscalationStep[],
+  ): Promise<void> {
+    const targets = steps.flatMap((step) => step.targets);
+
+    const userIds = [
+      ...new Set(
+        targets.flatMap((t) => (t.type === 'USERS' ? (t.userIds ?? []) : [])),
+      ),
+    ];
+    if (userIds.length) {
+      const found = await this.userRepository.count({
+        where: { id: In(userIds), tenantId },
+      });
+      if (found !== userIds.length) {
+        throw new BadRequestException(
+          'Escalation targets include users outside this tenant',
+        );
+      }
+    }
+
+    const scheduleIds = [
+      ...new Set(
+        targets.flatMap((t) =>
+          t.type === 'ON_CALL' && t.scheduleId ? [t.scheduleId] : [],
+        ),
+      ),
+    ];
+    if (scheduleIds.length) {
+      const found = await this.scheduleRepository.count({
+        where: { id: In(scheduleIds), tenantId },
+      });
+      if (found !== scheduleIds.length) {
+        throw new BadRequestException('On-call schedule not found');
+      }
+    }
+  }
+
+  private async unsetDefault(tenantId: string): Promise<void> {
+    await this.policyRepository.update(
+      { tenantId, isDefault: true },
+      { isDefault: false },
+    );
+  }
+
+  private requireTenant(tenantId: string | undefined): string {
+    if (!tenantId) {
+      throw new BadRequestException('Escalation policies belong to a tenant');
+    }
+    return tenantId;
+  }
+}
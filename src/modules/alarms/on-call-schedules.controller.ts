@@ -0,0 +1,132 @@
+// src/modules/alarms/on-call-schedules.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { OnCallSchedulesService } from './on-call-schedules.service';
+import {
+  CreateOnCallScheduleDto,
+  OnCallOverrideDto,
+  OnCallShiftsQueryDto,
+  UpdateOnCallScheduleDto,
+} from './dto/escalation.dto';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { TenantAdminOnly } from '@common/decorators/access-control.decorator';
+import { ParseIdPipe } from '@common/pipes/parse-id.pipe';
+import { User } from '@modules/users/entities/user.entity';
+
+@ApiTags('alarms')
+@Controller('on-call-schedules')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class OnCallSchedulesController {
+  constructor(private readonly schedulesService: OnCallSchedulesService) {}
+
+  @Post()
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Create an on-call schedule' })
+  @ApiResponse({ status: 201, description: 'On-call schedule created' })
+  @ApiResponse({ status: 400, description: 'Users outside the tenant' })
+  create(@CurrentUser() user: User, @Body() dto: CreateOnCallScheduleDto) {
+    return this.schedulesService.create(user, dto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List on-call schedules' })
+  findAll(@CurrentUser() user: User) {
+    return this.schedulesService.findAll(user.tenantId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an on-call schedule' })
+  @ApiResponse({ status: 404, description: 'On-call schedule not found' })
+  findOne(@Param('id', ParseIdPipe) id: string, @CurrentUser() user: User) {
+    return this.schedulesService.findOne(id, user.tenantId);
+  }
+
+  @Get(':id/on-call')
+  @ApiOperation({ summary: 'Who is on call (now, or at a given time)' })
+  @ApiQuery({ name: 'at', required: false, example: '2026-02-14T20:00:00Z' })
+  getOnCall(
+    @Param('id', ParseIdPipe) id: string,
+    @CurrentUser() user: User,
+    @Query('at') at?: string,
+  ) {
+    return this.schedulesService.getOnCall(id, user.tenantId, at);
+  }
+
+  @Get(':id/shifts')
+  @ApiOperation({ summary: 'Shifts in a time range, overrides applied' })
+  @ApiResponse({ status: 400, description: 'Invalid or too long range' })
+  getShifts(
+    @Param('id', ParseIdPipe) id: string,
+    @CurrentUser() user: User,
+    @Query() query: OnCallShiftsQueryDto,
+  ) {
+    return this.schedulesService.getShifts(id, user.tenantId, query);
+  }
+
+  @Patch(':id')
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Update an on-call schedule' })
+  @ApiResponse({ status: 404, description: 'On-call schedule not found' })
+  update(
+    @Param('id', ParseIdPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() dto: UpdateOnCallScheduleDto,
+  ) {
+    return this.schedulesService.update(id, user, dto);
+  }
+
+  @Delete(':id')
+  @TenantAdminOnly()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an on-call schedule' })
+  @ApiResponse({ status: 204, description: 'On-call schedule deleted' })
+  remove(@Param('id', ParseIdPipe) id: string, @CurrentUser() user: User) {
+    return this.schedulesService.remove(id, user.tenantId);
+  }
+
+  // ── Overrides ─────────────────────────────────────────────────────────────
+
+  @Post(':id/overrides')
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Put someone else on call for a period' })
+  @ApiResponse({ status: 400, description: 'Invalid period or user' })
+  addOverride(
+    @Param('id', ParseIdPipe) id: string,
+    @CurrentUser() user: User,
+    @Body() dto: OnCallOverrideDto,
+  ) {
+    return this.schedulesService.addOverride(id, user, dto);
+  }
+
+  @Delete(':id/overrides/:overrideId')
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Remove an override' })
+  @ApiResponse({ status: 404, description: 'Override not found' })
+  removeOverride(
+    @Param('id', ParseIdPipe) id: string,
+    @Param('overrideId', ParseIdPipe) overrideId: string,
+    @CurrentUser() user: User,
+  ) {
+    return this.schedulesService.removeOverride(id, overrideId, user.tenantId);
+  }
+}
@@ -0,0 +1,236 @@
+// src/modules/alarms/on-call-schedules.service.ts
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { OnCallSchedule, User } from '@modules/index.entities';
+import type {
+  OnCallRotation,
+  OnCallShift,
+} from '@common/interfaces/index.interface';
+import {
+  CreateOnCallScheduleDto,
+  OnCallOverrideDto,
+  OnCallShiftsQueryDto,
+  UpdateOnCallScheduleDto,
+} from './dto/escalation.dto';
+
+const DAY_MS = 24 * 3600_000;
+const MAX_SHIFT_RANGE_DAYS = 90;
+
+@Injectable()
+export class OnCallSchedulesService {
+  private readonly logger = new Logger(OnCallSchedulesService.name);
+
+  constructor(
+    @InjectRepository(OnCallSchedule)
+    private readonly scheduleRepository: Repository<OnCallSchedule>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CRUD
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async findAll(tenantId: string | undefined): Promise<OnCallSchedule[]> {
+    return this.scheduleRepository.find({
+      where: { tenantId: this.requireTenant(tenantId) },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(
+    id: string,
+    tenantId: string | undefined,
+  ): Promise<OnCallSchedule> {
+    const schedule = await this.scheduleRepository.findOne({
+      where: { id, tenantId: this.requireTenant(tenantId) },
+    });
+    if (!schedule) throw new NotFoundException('On-call schedule not found');
+    return schedule;
+  }
+
+  async create(
+    user: User,
+    dto: CreateOnCallScheduleDto,
+  ): Promise<OnCallSchedule> {
+    const tenantId = this.requireTenant(user.tenantId);
+    await this.validateRotations(tenantId, dto.rotations);
+
+    const saved = await this.scheduleRepository.save(
+      this.scheduleRepository.create({
+        ...dto,
+        tenantId,
+        overrides: [],
+        createdBy: user.id,
+      }),
+    );
+
+    this.logger.log(`On-call schedule created: ${saved.id} (${saved.name})`);
+    return saved;
+  }
+
+  async update(
+    id: string,
+    user: User,
+    dto: UpdateOnCallScheduleDto,
+  ): Promise<OnCallSchedule> {
+    const schedule = await this.findOne(id, user.tenantId);
+    if (dto.rotations) {
+      await this.validateRotations(schedule.tenantId, dto.rotations);
+    }
+
+    Object.assign(schedule, dto, { updatedBy: user.id });
+    return this.scheduleRepository.save(schedule);
+  }
+
+  async remove(id: string, tenantId: string | undefined): Promise<void> {
+    const schedule = await this.findOne(id, tenantId);
+    await this.scheduleRepository.softRemove(schedule);
+    this.logger.log(`On-call schedule deleted: ${id}`);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // OVERRIDES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async addOverride(
+    id: string,
+    user: User,
+    dto: OnCallOverrideDto,
+  ): Promise<OnCallSchedule> {
+    const schedule = await this.findOne(id, user.tenantId);
+
+    if (Date.parse(dto.endsAt) <= Date.parse(dto.startsAt)) {
+      throw new BadRequestException('"endsAt" must be after "startsAt"');
+    }
+    await this.assertTenantUsers(schedule.tenantId, [dto.userId]);
+
+    // Expired overrides are dropped as new ones come in
+    const now = Date.now();
+    schedule.overrides = [
+      ...(schedule.overrides ?? []).filter((o) => Date.parse(o.endsAt) > now),
+      { id: randomUUID(), ...dto, createdBy: user.id },
+    ];
+
+    return this.scheduleRepository.save(schedule);
+  }
+
+  async removeOverride(
+    id: string,
+    overrideId: string,
+    tenantId: string | undefined,
+  ): Promise<OnCallSchedule> {
+    const schedule = await this.findOne(id, tenantId);
+
+    const overrides = (schedule.overrides ?? []).filter(
+      (o) => o.id !== overrideId,
+    );
+    if (overrides.length === (schedule.overrides ?? []).length) {
+      throw new NotFoundException('Override not found');
+    }
+
+    schedule.overrides = overrides;
+    return this.scheduleRepository.save(schedule);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // WHO IS ON CALL
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async getOnCall(
+    id: string,
+    tenantId: string | undefined,
+    at?: string,
+  ): Promise<OnCallShift | null> {
+    const schedule = await this.findOne(id, tenantId);
+    return schedule.shiftAt(at ? new Date(at) : new Date());
+  }
+
+  async getShifts(
+    id: string,
+    tenantId: string | undefined,
+    query: OnCallShiftsQueryDto,
+  ): Promise<OnCallShift[]> {
+    const schedule = await this.findOne(id, tenantId);
+
+    const from = query.from ? new Date(query.from) : new Date();
+    const to = query.to
+      ? new Date(query.to)
+      : new Date(from.getTime() + 14 * DAY_MS);
+
+    if (from >= to) {
+      throw new BadRequestException('"from" must be before "to"');
+    }
+    if (to.getTime() - from.getTime() > MAX_SHIFT_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(
+        `Range is limited to ${MAX_SHIFT_RANGE_DAYS} days`,
+      );
+    }
+
+    return schedule.shiftsBetween(from, to);
+  }
+
+  /** Escalation lookup — no tenant check beyond the schedule's own */
+  async findOnCallUserId(
+    scheduleId: string,
+    tenantId: string,
+    at: Date = new Date(),
+  ): Promise<string | null> {
+    const schedule = await this.scheduleRepository.findOne({
+      where: { id: scheduleId, tenantId },
+    });
+    return schedule?.shiftAt(at)?.userId ?? null;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async validateRotations(
+    tenantId: string,
+    rotations: OnCallRotation[],
+  ): Promise<void> {
+    for (const rotation of rotations) {
+      if (
+        rotation.endsAt &&
+        Date.parse(rotation.endsAt) <= Date.parse(rotation.startsAt)
+      ) {
+        throw new BadRequestException(
+          'Rotation "endsAt" must be after "startsAt"',
+        );
+      }
+    }
+
+    await this.assertTenantUsers(
+      tenantId,
+      rotations.flatMap((r) => r.userIds),
+    );
+  }
+
+  private async assertTenantUsers(
+    tenantId: string,
+    userIds: string[],
+  ): Promise<void> {
+    const unique = [...new Set(userIds)];
+    const found = await this.userRepository.count({
+      where: { id: In(unique), tenantId },
+    });
+    if (found !== unique.length) {
+      throw new BadRequestException('On-call users must belong to this tenant');
+    }
+  }
+
+  private requireTenant(tenantId: string | undefined): string {
+    if (!tenantId) {
+      throw new BadRequestException('On-call schedules belong to a tenant');
+    }
+    return tenantId;
+  }
+}
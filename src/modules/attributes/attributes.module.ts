@@ -2,13 +2,18 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AttributesService } from './attributes.service';
 import { AttributesController } from './attributes.controller';
+import { SharedAttributesController } from './shared-attributes.controller';
 import { Attribute } from './entities/attribute.entity';
 import { Device } from '@modules/devices/entities/device.entity';
 import { Asset } from '@modules/assets/entities/asset.entity';
+import { SharingModule } from '@modules/sharing/sharing.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Attribute, Device, Asset])],
-  controllers: [AttributesController],
+  imports: [
+    TypeOrmModule.forFeature([Attribute, Device, Asset]),
+    SharingModule, // ShareAccessGuard → public share-link reads
+  ],
+  controllers: [AttributesController, SharedAttributesController],
   providers: [AttributesService],
   exports: [AttributesService],
 })
@@ -0,0 +1,82 @@
+// src/modules/attributes/shared-attributes.controller.ts
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { AttributesService } from './attributes.service';
+import { Public } from '@common/decorators/public.decorator';
+import { CurrentShare } from '@common/decorators/current-share.decorator';
+import {
+  SHARE_ACCESS_HEADER,
+  ShareAccessGuard,
+} from '@common/guards/share-access.guard';
+import type { SharePrincipal } from '@common/interfaces/index.interface';
+import {
+  ShareAccessService,
+  SharedEntityType,
+} from '@modules/sharing/share-access.service';
+
+const SHARED_ENTITY_TYPES: SharedEntityType[] = ['device', 'asset'];
+
+/**
+ * Latest attribute values of the devices / assets a share link covers, for
+ * viewers without an account. Read-only.
+ */
+@ApiTags('shared')
+@Controller('shared/:token/attributes')
+@Public()
+@UseGuards(ShareAccessGuard)
+@ApiHeader({ name: SHARE_ACCESS_HEADER, required: false })
+export class SharedAttributesController {
+  constructor(
+    private readonly attributesService: AttributesService,
+    private readonly shareAccess: ShareAccessService,
+  ) {}
+
+  @Get(':entityType/:entityId/latest')
+  @ApiOperation({
+    summary: 'Latest values for specific keys of a shared entity',
+  })
+  @ApiResponse({ status: 200, description: 'Latest attribute values' })
+  @ApiResponse({ status: 403, description: 'Entity not part of the share' })
+  async getLatestValues(
+    @CurrentShare() share: SharePrincipal,
+    @Param('entityType') entityType: string,
+    @Param('entityId') entityId: string,
+    @Query('keys') keys: string,
+  ) {
+    if (!SHARED_ENTITY_TYPES.includes(entityType as SharedEntityType)) {
+      throw new BadRequestException(
+        `entityType must be one of: ${SHARED_ENTITY_TYPES.join(', ')}`,
+      );
+    }
+    this.shareAccess.assertEntity(
+      share,
+      entityType as SharedEntityType,
+      entityId,
+    );
+
+    const keyArray = (keys ?? '')
+      .split(',')
+      .map((k) => k.trim())
+      .filter(Boolean);
+    if (!keyArray.length) throw new BadRequestException('keys is required');
+
+    const latest = await this.attributesService.getLatestValues(
+      share.tenantId,
+      entityType,
+      entityId,
+      keyArray,
+    );
+
+    return {
+      message: 'Latest values retrieved successfully',
+      data: latest,
+    };
+  }
+}
@@ -8,12 +8,14 @@ import { AutomationConsumer } from './automation.consumer';
 import { Automation, Device, Telemetry } from '@modules/index.entities';
 import { KafkaModule } from '@/lib/kafka/kafka.module';
 import { GatewayModule } from '../gateway/gateway.module';
+import { ScriptsModule } from '../scripts/scripts.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Automation, Device, Telemetry]),
     KafkaModule,  // ← Import Kafka
     forwardRef(() => GatewayModule), // ✅ FIX
+    ScriptsModule,
   ],
   controllers: [AutomationController],
   providers: [
@@ -8,6 +8,8 @@ import { AutomationService } from './automation.service';
 import axios from 'axios';
 import { GatewayService } from '../index.service';
 import { MQTTService } from '@/lib/mqtt/mqtt.service';
+import { ScriptsService } from '@modules/scripts/scripts.service';
+import { CommandValidationService } from '@modules/devices/codecs/command-validation.service';
 
 @Injectable()
 export class AutomationProcessor {
@@ -20,6 +22,8 @@ export class AutomationProcessor {
     private deviceRepo: Repository<Device>,
     private readonly gatewayService: GatewayService,
     private readonly mqttService: MQTTService,
+    private readonly scriptsService: ScriptsService,
+    private readonly commandValidation: CommandValidationService,
     // TODO: Inject DeviceCommandService when you create it
     // @Inject('DEVICE_COMMAND_SERVICE')
     // private deviceCommandService: DeviceCommandService,
@@ -60,7 +64,9 @@ export class AutomationProcessor {
         }
 
         // Evaluate trigger
-        const isTriggered = this.evaluateTrigger(automation.trigger, telemetry);
+        const isTriggered = automation.trigger.scriptId
+          ? await this.evaluateScriptTrigger(automation, telemetry)
+          : this.evaluateTrigger(automation.trigger, telemetry);
 
         if (isTriggered) {
           this.logger.log(`Automation triggered: ${automation.name} (${automation.id})`);
@@ -113,6 +119,36 @@ private evaluateTrigger(trigger: any, telemetry: Telemetry): boolean {
   }
 }
 
+  /**
+   * Let the trigger's script decide — a failing script never fires the action
+   */
+  private async evaluateScriptTrigger(
+    automation: Automation,
+    telemetry: Telemetry,
+  ): Promise<boolean> {
+    const result = await this.scriptsService.runById(
+      automation.trigger.scriptId!,
+      automation.tenantId,
+      {
+        msg: telemetry.data,
+        metadata: {
+          automationId: automation.id,
+          deviceId: telemetry.deviceId,
+          timestamp: telemetry.timestamp,
+        },
+        msgType: 'POST_TELEMETRY_REQUEST',
+      },
+    );
+
+    if (!result.success) {
+      throw new Error(
+        `Trigger script failed: ${result.error?.name}: ${result.error?.message}`,
+      );
+    }
+
+    return Boolean(result.result);
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // EXECUTE ACTION (Do the thing!)
   // ══════════════════════════════════════════════════════════════════════════
@@ -178,11 +214,20 @@ private evaluateTrigger(trigger: any, telemetry: Telemetry): boolean {
       throw new Error(`Device not found: ${deviceId}`);
     }
 
-    this.logger.log(`Sending command to device ${deviceId}: ${command} = ${value}`);
+    // Rejected here too — the schema may have changed since the rule was saved
+    const params = this.commandValidation.validateAction(
+      device,
+      command as string,
+      value,
+    );
+
+    this.logger.log(
+      `Sending command to device ${deviceId}: ${command} = ${JSON.stringify(params)}`,
+    );
 
     await this.gatewayService.sendCommand(device.deviceKey, {
       method: command,
-      params: action.value
+      params,
     })
   }
 
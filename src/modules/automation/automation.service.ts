@@ -7,8 +7,13 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Automation } from '@modules/index.entities';
-import { AutomationStatus, UserRole } from '@common/enums/index.enum';
+import { Automation, Device } from '@modules/index.entities';
+import {
+  ActionType,
+  AutomationStatus,
+  UserRole,
+} from '@common/enums/index.enum';
+import { CommandValidationService } from '@modules/devices/codecs/command-validation.service';
 import { CreateAutomationDto } from './dto/create-automation.dto';
 import { UpdateAutomationDto } from './dto/update-automation.dto';
 import { PaginationDto } from '@common/dto/pagination.dto';
@@ -20,6 +25,9 @@ export class AutomationService {
   constructor(
     @InjectRepository(Automation)
     private readonly automationRepo: Repository<Automation>,
+    @InjectRepository(Device)
+    private readonly deviceRepo: Repository<Device>,
+    private readonly commandValidation: CommandValidationService,
   ) {}
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -41,6 +49,8 @@ export class AutomationService {
       throw new ConflictException('Automation with this name already exists');
     }
 
+    await this.validateAction(dto.action, tenantId);
+
     // Build the automation object, only include customerId if it's not null
     const automationData: any = {
       ...dto,
@@ -208,6 +218,10 @@ export class AutomationService {
   ): Promise<Automation> {
     const automation = await this.findOne(id, tenantId, customerId, role);
 
+    if (dto.action) {
+      await this.validateAction(dto.action, tenantId);
+    }
+
     Object.assign(automation, dto);
 
     if (dto.enabled !== undefined) {
@@ -297,4 +311,32 @@ export class AutomationService {
       .andWhere('a.status != :error', { error: AutomationStatus.ERROR })
       .getMany();
   }
-}
\ No newline at end of file
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** Refuse device commands the target's codec would not accept */
+  private async validateAction(
+    action: CreateAutomationDto['action'],
+    tenantId: string,
+  ): Promise<void> {
+    if (
+      action.type !== ActionType.CONTROL &&
+      action.type !== ActionType.SET_VALUE
+    ) {
+      return;
+    }
+    if (!action.deviceId || !action.command) return;
+
+    const device = await this.deviceRepo.findOne({
+      where: { id: action.deviceId, tenantId },
+    });
+
+    if (!device) {
+      throw new NotFoundException('Target device not found');
+    }
+
+    this.commandValidation.validateAction(device, action.command, action.value);
+  }
+}
@@ -89,6 +89,15 @@ class TriggerDto {
   @IsOptional()
   @IsNumber()
   debounce?: number;
+
+  @ApiPropertyOptional({
+    example: 'script-uuid-123',
+    description:
+      'Script deciding the trigger instead of operator/value. Receives the telemetry as msg and must return a truthy value to fire.',
+  })
+  @IsOptional()
+  @IsUUID()
+  scriptId?: string;
 }
 
 // ══════════════════════════════════════════════════════════════════════════
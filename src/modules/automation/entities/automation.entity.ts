@@ -79,6 +79,7 @@ export class Automation extends BaseEntity {
     value2?: any;                      // For 'between' operator
     schedule?: string;                 // Cron expression for scheduled triggers
     debounce?: number;                 // Wait N seconds before triggering
+    scriptId?: string;                 // Script deciding the trigger instead of operator/value
   };
   // Example 1 - THRESHOLD Trigger (temperature-based):
   // trigger: {
@@ -164,7 +164,16 @@ export class DashboardsService {
     }
 
     Object.assign(dashboard, updateDto);
-    return this.dashboardRepository.save(dashboard);
+    const saved = await this.dashboardRepository.save(dashboard);
+
+    if (updateDto.widgets) {
+      this.websocketGateway.broadcastDashboardUpdate(id, {
+        action: 'widgets_replaced',
+        usedDevices: saved.getUsedDevices(),
+      });
+    }
+
+    return saved;
   }
 
   // ── Delete ────────────────────────────────────────────────────────────────
@@ -181,6 +190,9 @@ export class DashboardsService {
     }
 
     await this.dashboardRepository.softRemove(dashboard);
+
+    // Share link viewers of a deleted dashboard are dropped on resync
+    this.websocketGateway.broadcastDashboardUpdate(id, { action: 'deleted' });
   }
 
   // ── Widget management ─────────────────────────────────────────────────────
@@ -1,8 +1,20 @@
-import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  OnModuleInit,
+  OnModuleDestroy,
+  Logger,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { Repository } from 'typeorm';
 import { KafkaService } from '@/lib/kafka/kafka.service';
-import { DeviceCommandsService } from './device-commands.service';
+import { RedisService } from '@/lib/redis/redis.service';
+import {
+  COMMAND_FINISHED_EVENT,
+  DeviceCommandsService,
+} from './device-commands.service';
+import type { CommandFinishedEvent } from './device-commands.service';
 import { GatewayService } from '@modules/gateway/gateway.service';
 import { Device } from '@modules/devices/entities/device.entity';
 
@@ -19,14 +31,32 @@ export interface DeviceCommandMessage {
   retries: number;
   createdAt: number;
   scheduledFor?: number;
+  fPort?: number;
+  confirmed?: boolean;
+  attempt?: number; // 1-based, drives the retry backoff
 }
 
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60_000;
+
+// commandId → epoch ms the device response is due by
+const RESPONSE_DEADLINES_KEY = 'device-commands:response-deadlines';
+// commandId → DeviceCommandMessage JSON, needed to retry after a timeout
+const RESPONSE_PENDING_KEY = 'device-commands:response-pending';
+const SWEEP_BATCH_SIZE = 500;
+
 @Injectable()
-export class DeviceCommandsConsumer implements OnModuleInit {
+export class DeviceCommandsConsumer implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(DeviceCommandsConsumer.name);
 
+  // Response timeouts of commands sent from this instance, by command id.
+  // They only make the timeout punctual — the deadline itself lives in
+  // Redis, so a restart or another instance's sweep still settles it.
+  private readonly responseTimers = new Map<string, NodeJS.Timeout>();
+
   constructor(
     private readonly kafkaService: KafkaService,
+    private readonly redis: RedisService,
     private readonly commandsService: DeviceCommandsService,
     // GatewayService is the single owner of downlink MQTT operations.
     // MQTTAdapter has been removed — do not re-add it here.
@@ -47,6 +77,50 @@ export class DeviceCommandsConsumer implements OnModuleInit {
     this.logger.log('Device commands consumer started');
   }
 
+  onModuleDestroy(): void {
+    for (const timer of this.responseTimers.values()) clearTimeout(timer);
+    this.responseTimers.clear();
+  }
+
+  @OnEvent(COMMAND_FINISHED_EVENT)
+  async handleCommandFinished({
+    commandId,
+  }: CommandFinishedEvent): Promise<void> {
+    const timer = this.responseTimers.get(commandId);
+    if (timer) {
+      clearTimeout(timer);
+      this.responseTimers.delete(commandId);
+    }
+
+    try {
+      await this.redis.zrem(RESPONSE_DEADLINES_KEY, commandId);
+      await this.redis.hdel(RESPONSE_PENDING_KEY, commandId);
+    } catch (error) {
+      // The sweep finds the command completed and drops the deadline then
+      this.logger.warn(
+        `Failed to clear response deadline of ${commandId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  // Deadlines whose local timer was lost (restart, crash) or that were
+  // armed by another instance
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async checkResponseDeadlines(): Promise<void> {
+    const expired = await this.redis.client.zrangebyscore(
+      RESPONSE_DEADLINES_KEY,
+      '-inf',
+      Date.now(),
+      'LIMIT',
+      0,
+      SWEEP_BATCH_SIZE,
+    );
+
+    for (const commandId of expired) {
+      await this.handleResponseTimeout(commandId);
+    }
+  }
+
   private async handleMessage({ message }: any): Promise<void> {
     try {
       const command: DeviceCommandMessage = JSON.parse(
@@ -78,37 +152,170 @@ export class DeviceCommandsConsumer implements OnModuleInit {
       return;
     }
 
+    // Cancelled (or answered late to a previous attempt) while in Kafka
+    const current = await this.commandsService.findCommand(command.id);
+    if (current?.isCompleted()) {
+      this.logger.log(
+        `Skipping ${current.status.toLowerCase()} command ${command.id}`,
+      );
+      return;
+    }
+
     try {
       await this.commandsService.updateCommandStatus(command.id, 'SENDING');
 
       // Route through GatewayService — it resolves the correct topic and
-      // encoding (generic MQTT vs Milesight LoRaWAN vs ChirpStack) based on
-      // device.protocol, then publishes via MQTTService.
-      await this.gatewayService.sendCommand(device.deviceKey, {
+      // encoding (generic MQTT vs Milesight LoRaWAN vs ChirpStack / TTS vs
+      // Sparkplug) based on device.protocol, then publishes via MQTTService.
+      // The command id is sent along so the response / network server ack
+      // can be correlated.
+      const dispatch = await this.gatewayService.sendCommand(device.deviceKey, {
+        id: command.id,
         method: command.commandType,
         params: command.params,
+        fPort: command.fPort,
+        confirmed: command.confirmed,
       });
 
-      await this.commandsService.updateCommandStatus(command.id, 'DELIVERED', 'Command sent successfully');
-      this.logger.log(`Command delivered: ${command.commandType} → ${device.deviceKey}`);
+      if (dispatch.completed) {
+        await this.commandsService.updateCommandStatus(
+          command.id,
+          'COMPLETED',
+          'Command published',
+        );
+        this.logger.log(
+          `Command sent: ${command.commandType} → ${device.deviceKey}`,
+        );
+        return;
+      }
+
+      if (dispatch.lorawan) {
+        await this.commandsService.updateCommandMetadata(command.id, {
+          confirmed: dispatch.confirmed,
+          queueItemId: dispatch.queueItemId,
+        });
+        await this.commandsService.updateCommandStatus(
+          command.id,
+          'QUEUED',
+          'Downlink queued at network server',
+        );
+      } else {
+        await this.commandsService.updateCommandStatus(
+          command.id,
+          'DELIVERED',
+          'Command sent, awaiting device response',
+        );
+      }
+
+      await this.armResponseTimeout(command);
+      this.logger.log(
+        `Command sent: ${command.commandType} → ${device.deviceKey}`,
+      );
     } catch (error) {
       await this.handleCommandFailure(command, (error as Error).message);
     }
   }
 
+  // Not answered (MQTT) or acknowledged (LoRaWAN) within command.timeout → retry
+  private async armResponseTimeout(
+    command: DeviceCommandMessage,
+  ): Promise<void> {
+    clearTimeout(this.responseTimers.get(command.id));
+
+    try {
+      await this.redis.hset(
+        RESPONSE_PENDING_KEY,
+        command.id,
+        JSON.stringify(command),
+      );
+      await this.redis.zadd(
+        RESPONSE_DEADLINES_KEY,
+        Date.now() + command.timeout,
+        command.id,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Response deadline of ${command.id} not persisted: ${(error as Error).message}`,
+      );
+    }
+
+    const timer = setTimeout(
+      () => void this.handleResponseTimeout(command.id, command),
+      command.timeout,
+    );
+    this.responseTimers.set(command.id, timer);
+  }
+
+  private async handleResponseTimeout(
+    commandId: string,
+    local?: DeviceCommandMessage,
+  ): Promise<void> {
+    clearTimeout(this.responseTimers.get(commandId));
+    this.responseTimers.delete(commandId);
+
+    try {
+      const command = await this.claimDeadline(commandId, local);
+      if (!command) return;
+
+      const current = await this.commandsService.findCommand(commandId);
+      if (!current || current.isCompleted()) return;
+
+      await this.handleCommandFailure(
+        command,
+        `No response from device within ${command.timeout}ms`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Timeout handling failed for ${commandId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * ZREM is the claim: the local timer and every instance's sweep race for
+   * the same deadline and only one of them handles it. Without Redis the
+   * local timer still settles the commands this instance sent.
+   */
+  private async claimDeadline(
+    commandId: string,
+    local?: DeviceCommandMessage,
+  ): Promise<DeviceCommandMessage | undefined> {
+    try {
+      if (
+        (await this.redis.client.zrem(RESPONSE_DEADLINES_KEY, commandId)) === 0
+      ) {
+        return undefined;
+      }
+
+      const pending = await this.redis.hget(RESPONSE_PENDING_KEY, commandId);
+      await this.redis.hdel(RESPONSE_PENDING_KEY, commandId);
+      return pending ? (JSON.parse(pending) as DeviceCommandMessage) : local;
+    } catch (error) {
+      this.logger.warn(
+        `Response deadline of ${commandId} unavailable: ${(error as Error).message}`,
+      );
+      return local;
+    }
+  }
+
   private async handleCommandFailure(command: DeviceCommandMessage, error: string): Promise<void> {
     const retriesLeft = command.retries - 1;
 
     if (retriesLeft > 0) {
       this.logger.log(`Retrying command (${retriesLeft} retries left)...`);
 
-      // Exponential backoff: 1s, 2s, 4s for 3 → 2 → 1 retries remaining
-      const retryDelay = Math.pow(2, 3 - retriesLeft) * 1000;
+      // Exponential backoff: 1s, 2s, 4s … capped at one minute
+      const attempt = command.attempt ?? 1;
+      const retryDelay = Math.min(
+        RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+        RETRY_MAX_DELAY_MS,
+      );
 
       setTimeout(async () => {
         await this.kafkaService.sendMessage('device.commands.retry', {
           ...command,
           retries: retriesLeft,
+          attempt: attempt + 1,
         });
       }, retryDelay);
 
@@ -37,6 +37,7 @@ export class DeviceCommandsController {
   @TenantOrCustomerAdmin()
   @ApiOperation({ summary: 'Send command to device' })
   @ApiResponse({ status: 201, description: 'Command sent successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid command or parameters' })
   @ApiResponse({ status: 404, description: 'Device not found' })
   async createCommand(
     @CurrentUser() user: User,
@@ -55,6 +56,40 @@ export class DeviceCommandsController {
     };
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // TWO-WAY RPC
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Post('rpc')
+  @TenantOrCustomerAdmin()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Send command to device and wait for its response',
+    description:
+      'Blocks for up to the command timeout (at most 60s). The device ' +
+      'answers on devices/{deviceKey}/rpc/response/{commandId}.',
+  })
+  @ApiResponse({ status: 200, description: 'Device responded' })
+  @ApiResponse({ status: 400, description: 'Timeout above 60s' })
+  @ApiResponse({ status: 404, description: 'Device not found' })
+  @ApiResponse({ status: 408, description: 'Device did not respond in time' })
+  async sendTwoWayRpc(
+    @CurrentUser() user: User,
+    @Body() createCommandDto: CreateCommandDto,
+  ) {
+    const command = await this.commandsService.sendTwoWayRpc(
+      createCommandDto,
+      user.id,
+      user.tenantId,
+    );
+
+    return {
+      success: command.status === 'COMPLETED',
+      data: command,
+      response: command.metadata?.response as unknown,
+    };
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // GET COMMAND STATUS
   // ══════════════════════════════════════════════════════════════════════════
@@ -105,6 +140,35 @@ export class DeviceCommandsController {
     };
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // GET AVAILABLE COMMANDS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Get('device/:deviceId/available')
+  @TenantOrCustomerAdmin()
+  @ApiOperation({
+    summary: 'List the commands a device accepts',
+    description:
+      "From the device codec's capabilities. validated=false means the " +
+      'codec declares no commands and any command is passed through.',
+  })
+  @ApiResponse({ status: 200, description: 'Available commands retrieved' })
+  @ApiResponse({ status: 404, description: 'Device not found' })
+  async getAvailableCommands(
+    @CurrentUser() user: User,
+    @Param('deviceId', ParseIdPipe) deviceId: string,
+  ) {
+    const schema = await this.commandsService.getAvailableCommands(
+      deviceId,
+      user.tenantId,
+    );
+
+    return {
+      success: true,
+      data: schema,
+    };
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // GET USER COMMAND HISTORY
   // ══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,67 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DeviceCommandsService } from './device-commands.service';
+import type { DownlinkAck } from './device-commands.service';
+import type { LorawanJoinedEvent } from '@modules/network-servers/network-server-bridge.service';
+
+export interface DeviceRpcResponse {
+  deviceKey: string;
+  requestId: string;
+  response: unknown;
+}
+
+@Injectable()
+export class DeviceCommandsListener {
+  private readonly logger = new Logger(DeviceCommandsListener.name);
+
+  constructor(private readonly commandsService: DeviceCommandsService) {}
+
+  /**
+   * MQTT devices answer a command on
+   *   devices/<deviceKey>/rpc/response/<commandId>
+   * with any JSON payload; { error } marks the command FAILED.
+   */
+  @OnEvent('device.rpc.response')
+  async handleRpcResponse(event: DeviceRpcResponse): Promise<void> {
+    try {
+      await this.commandsService.completeFromResponse(
+        event.deviceKey,
+        event.requestId,
+        event.response,
+      );
+    } catch (error) {
+      this.logger.error(
+        `RPC response ${event.requestId} from ${event.deviceKey} not processed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @OnEvent('device.downlink.ack')
+  async handleDownlinkAck(ack: DownlinkAck): Promise<void> {
+    try {
+      await this.commandsService.acknowledgeDownlink(ack);
+    } catch (error) {
+      this.logger.error(
+        `Downlink ${ack.event} for ${ack.devEUI} not processed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @OnEvent('device.lorawan.joined')
+  async handleLorawanJoined(event: LorawanJoinedEvent): Promise<void> {
+    try {
+      const requeued = await this.commandsService.requeueAfterJoin(
+        event.deviceId,
+      );
+      if (requeued > 0) {
+        this.logger.log(
+          `Re-queued ${requeued} downlinks after join of ${event.devEUI}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Re-queue after join of ${event.devEUI} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+}
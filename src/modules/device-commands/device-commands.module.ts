@@ -5,6 +5,7 @@ import { Device } from '../devices/entities/device.entity';
 import { DeviceCommandsService } from './device-commands.service';
 import { DeviceCommandsController } from './device-commands.controller';
 import { DeviceCommandsConsumer } from './device-commands.consumer';
+import { DeviceCommandsListener } from './device-commands.listener';
 import { KafkaModule } from '@/lib/kafka/kafka.module';
 import { GatewayModule } from '../gateway/gateway.module';
 
@@ -15,7 +16,11 @@ import { GatewayModule } from '../gateway/gateway.module';
     GatewayModule,  // provides GatewayService → DeviceCommandsConsumer
   ],
   controllers: [DeviceCommandsController],
-  providers: [DeviceCommandsService, DeviceCommandsConsumer],
+  providers: [
+    DeviceCommandsService,
+    DeviceCommandsConsumer,
+    DeviceCommandsListener,
+  ],
   exports: [DeviceCommandsService],
 })
 export class DeviceCommandsModule {}
\ No newline at end of file
@@ -1,11 +1,57 @@
 // src/modules/device-commands/device-commands.service.ts
-import { Injectable, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  RequestTimeoutException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { In, Repository } from 'typeorm';
+import { isUUID } from 'class-validator';
+import { pick } from '@common/utils/helpers';
 import { DeviceCommand } from './entities/device-commands.entity';
-import { Device } from '@modules/devices/entities/device.entity';
+import {
+  Device,
+  DeviceProtocol,
+} from '@modules/devices/entities/device.entity';
 import { CreateCommandDto } from './dto/create-command.dto';
 import { KafkaService } from '@/lib/kafka/kafka.service';
+import { CommandValidationService } from '@modules/devices/codecs/command-validation.service';
+import type { DeviceCommandMessage } from './device-commands.consumer';
+
+export const COMMAND_FINISHED_EVENT = 'device.command.finished';
+
+export interface CommandFinishedEvent {
+  commandId: string;
+  status: DeviceCommand['status'];
+  statusMessage?: string;
+  response?: unknown;
+}
+
+export interface DownlinkAck {
+  devEUI: string;
+  // Set for events of a registered network server — scopes the device lookup
+  tenantId?: string;
+  event: 'ack' | 'txack' | 'error';
+  queueItemId?: string;
+  acknowledged?: boolean;
+  error?: string;
+}
+
+const DEFAULT_RETRIES = 3;
+const FINAL_STATUSES: DeviceCommand['status'][] = [
+  'COMPLETED',
+  'FAILED',
+  'CANCELLED',
+];
+
+// Extra wait on top of the command timeout so the consumer's own timeout
+// (which starts once the command leaves Kafka) settles the command first
+const RPC_GRACE_MS = 5000;
+// The HTTP request stays open for the whole wait — longer commands go
+// through the async path (POST /device-commands, then poll its status)
+const MAX_RPC_TIMEOUT_MS = 60000;
 
 @Injectable()
 export class DeviceCommandsService {
@@ -15,6 +61,8 @@ export class DeviceCommandsService {
     @InjectRepository(Device)
     private deviceRepository: Repository<Device>,
     private readonly kafkaService: KafkaService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly commandValidation: CommandValidationService,
   ) {}
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -26,55 +74,91 @@ export class DeviceCommandsService {
     userId: string,
     tenantId: string | undefined,
   ): Promise<DeviceCommand> {
-    // 1. Verify device exists and belongs to tenant
-    const device = await this.deviceRepository.findOne({
-      where: { 
-        id: createCommandDto.deviceId, 
-        tenantId 
-      },
-    });
+    const { command, device } = await this.saveCommand(
+      createCommandDto,
+      userId,
+      tenantId,
+      DEFAULT_RETRIES,
+    );
 
-    if (!device) {
-      throw new NotFoundException('Device not found');
+    await this.publishCommand(command, device);
+
+    return command;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // TWO-WAY RPC
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Sends a command and waits up to its timeout for the device's reply.
+   * Two-way RPC is a single attempt — the caller retries, not the consumer.
+   */
+  async sendTwoWayRpc(
+    createCommandDto: CreateCommandDto,
+    userId: string,
+    tenantId: string | undefined,
+  ): Promise<DeviceCommand> {
+    if (createCommandDto.scheduledFor) {
+      throw new BadRequestException('Two-way RPC commands cannot be scheduled');
+    }
+    if ((createCommandDto.timeout ?? 0) > MAX_RPC_TIMEOUT_MS) {
+      throw new BadRequestException(
+        `Two-way RPC waits at most ${MAX_RPC_TIMEOUT_MS}ms — send longer commands asynchronously`,
+      );
     }
 
-    // 2. Create command record
-    const command = this.commandRepository.create({
-      deviceId: createCommandDto.deviceId,
-      commandType: createCommandDto.commandType,
-      params: createCommandDto.params || {},
-      priority: createCommandDto.priority || 'NORMAL',
-      timeout: createCommandDto.timeout || 30000,
-      retries: 3,
-      scheduledFor: createCommandDto.scheduledFor 
-        ? new Date(createCommandDto.scheduledFor) 
-        : undefined,
+    const { command, device } = await this.saveCommand(
+      createCommandDto,
       userId,
       tenantId,
-      status: createCommandDto.scheduledFor ? 'SCHEDULED' : 'PENDING',
+      1,
+    );
+
+    // Listen before publishing so a fast reply cannot be missed
+    const finished = this.eventEmitter.waitFor(COMMAND_FINISHED_EVENT, {
+      timeout: command.timeout + RPC_GRACE_MS,
+      filter: (event: CommandFinishedEvent) => event.commandId === command.id,
+      handleError: false,
+      Promise,
+      overload: false,
     });
 
-    const savedCommand = await this.commandRepository.save(command);
+    try {
+      await this.publishCommand(command, device);
+    } catch (error) {
+      finished.cancel('Command could not be published');
+      await finished.catch(() => undefined);
+      throw error;
+    }
 
-    // 3. Publish to Kafka for async processing
-    await this.kafkaService.sendMessage('device.commands', {
-      id: savedCommand.id,
-      deviceId: savedCommand.deviceId,
-      deviceKey: device.deviceKey,
-      tenantId: savedCommand.tenantId,
-      userId: savedCommand.userId,
-      commandType: savedCommand.commandType,
-      params: savedCommand.params,
-      priority: savedCommand.priority,
-      timeout: savedCommand.timeout,
-      retries: savedCommand.retries,
-      createdAt: savedCommand.createdAt.getTime(),
-      scheduledFor: savedCommand.scheduledFor?.getTime(),
-    });
+    try {
+      await finished;
+    } catch {
+      // The event is local — the reply may have been recorded by another
+      // instance, so the stored status below decides, not the timeout
+    }
 
-    console.log(`✅ Command ${savedCommand.id} published to Kafka`);
+    const result = await this.getCommandStatus(command.id, tenantId);
+
+    if (!result.isCompleted()) {
+      throw new RequestTimeoutException(
+        `Device did not respond within ${command.timeout}ms`,
+      );
+    }
 
-    return savedCommand;
+    // A device error reply is a response; anything else failed in transit
+    if (
+      result.status !== 'COMPLETED' &&
+      result.metadata?.response === undefined
+    ) {
+      throw new RequestTimeoutException(
+        result.statusMessage ??
+          `Device did not respond within ${command.timeout}ms`,
+      );
+    }
+
+    return result;
   }
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -114,6 +198,15 @@ export class DeviceCommandsService {
     });
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // GET AVAILABLE COMMANDS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** The commands (and param schemas) createCommand accepts for a device */
+  getAvailableCommands(deviceId: string, tenantId: string | undefined) {
+    return this.commandValidation.getCommandSchemaForDevice(deviceId, tenantId);
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // GET USER COMMANDS
   // ══════════════════════════════════════════════════════════════════════════
@@ -150,7 +243,10 @@ export class DeviceCommandsService {
     command.status = 'CANCELLED';
     command.statusMessage = 'Cancelled by user';
 
-    return this.commandRepository.save(command);
+    const saved = await this.commandRepository.save(command);
+    this.emitFinished(saved.id, saved.status, saved.statusMessage);
+
+    return saved;
   }
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -180,15 +276,297 @@ export class DeviceCommandsService {
     }
 
     await this.commandRepository.update(commandId, updates);
+
+    if (FINAL_STATUSES.includes(status)) {
+      this.emitFinished(commandId, status, statusMessage);
+    }
   }
 
   /**
-   * Update command metadata (called by DeviceCommandsConsumer)
+   * Merge into command metadata (called by DeviceCommandsConsumer)
    */
   async updateCommandMetadata(
     commandId: string,
     metadata: Record<string, any>,
   ): Promise<void> {
-    await this.commandRepository.update(commandId, { metadata });
+    const command = await this.commandRepository.findOne({
+      where: { id: commandId },
+    });
+    if (!command) return;
+
+    await this.commandRepository.update(commandId, {
+      metadata: { ...command.metadata, ...metadata },
+    });
+  }
+
+  /**
+   * Load a command without tenant scoping (called by DeviceCommandsConsumer)
+   */
+  async findCommand(commandId: string): Promise<DeviceCommand | null> {
+    return this.commandRepository.findOne({ where: { id: commandId } });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // RESPONSE CORRELATION (Called by DeviceCommandsListener)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Device reply on devices/<deviceKey>/rpc/response/<commandId>.
+   * A reply carrying an `error` field fails the command without retrying.
+   */
+  async completeFromResponse(
+    deviceKey: string,
+    commandId: string,
+    response: unknown,
+  ): Promise<void> {
+    if (!isUUID(commandId)) return;
+
+    const command = await this.commandRepository.findOne({
+      where: { id: commandId },
+      relations: ['device'],
+    });
+
+    // A device may only answer its own commands
+    if (!command || command.device?.deviceKey !== deviceKey) return;
+    if (command.isCompleted()) return; // late or duplicate reply
+
+    const error = this.extractResponseError(response);
+    const status = error ? 'FAILED' : 'COMPLETED';
+    const statusMessage = error ?? 'Device responded';
+
+    await this.commandRepository.update(command.id, {
+      status,
+      statusMessage,
+      completedAt: new Date(),
+      metadata: { ...command.metadata, response } as Record<string, any>,
+    });
+
+    this.emitFinished(command.id, status, statusMessage, response);
+  }
+
+  /**
+   * LoRaWAN network server events. txack completes an unconfirmed downlink
+   * and marks a confirmed one DELIVERED; ack completes a confirmed downlink;
+   * error fails it. queueItemId is the command id or the id the network
+   * server assigned; without one (ChirpStack v3) the oldest open command
+   * matches.
+   */
+  async acknowledgeDownlink(ack: DownlinkAck): Promise<void> {
+    const deviceQuery = this.deviceRepository
+      .createQueryBuilder('device')
+      .where(`LOWER(device.metadata ->> 'devEUI') = LOWER(:devEUI)`, {
+        devEUI: ack.devEUI,
+      });
+    if (ack.tenantId) {
+      deviceQuery.andWhere('device.tenantId = :tenantId', {
+        tenantId: ack.tenantId,
+      });
+    }
+    const device = await deviceQuery.getOne();
+    if (!device) return;
+
+    const command = ack.queueItemId
+      ? await this.findByQueueItem(device.id, ack.queueItemId)
+      : await this.commandRepository.findOne({
+          where: {
+            deviceId: device.id,
+            status: ack.event === 'ack' ? 'DELIVERED' : 'QUEUED',
+          },
+          order: { createdAt: 'ASC' },
+        });
+
+    if (!command || command.isCompleted()) return;
+
+    if (ack.event === 'error') {
+      await this.updateCommandStatus(
+        command.id,
+        'FAILED',
+        `Network server rejected downlink: ${ack.error ?? 'unknown error'}`,
+      );
+      return;
+    }
+
+    if (ack.event === 'txack') {
+      if (command.metadata?.confirmed) {
+        await this.updateCommandStatus(
+          command.id,
+          'DELIVERED',
+          'Downlink transmitted, awaiting device acknowledgement',
+        );
+      } else {
+        await this.updateCommandStatus(
+          command.id,
+          'COMPLETED',
+          'Downlink transmitted',
+        );
+      }
+      return;
+    }
+
+    if (ack.acknowledged === false) {
+      // Left open — the consumer's timeout retries the downlink
+      await this.commandRepository.update(command.id, {
+        statusMessage: 'Confirmed downlink not acknowledged by device',
+      });
+      return;
+    }
+
+    await this.updateCommandStatus(
+      command.id,
+      'COMPLETED',
+      'Acknowledged by device',
+    );
+  }
+
+  /**
+   * An OTAA (re)join starts a new session and ChirpStack flushes the device
+   * queue, so downlinks still waiting for txack / ack are sent again. TTS
+   * re-encrypts its queue for the new session itself.
+   */
+  async requeueAfterJoin(deviceId: string): Promise<number> {
+    const device = await this.deviceRepository.findOne({
+      where: { id: deviceId },
+    });
+    if (!device || device.protocol === DeviceProtocol.LORAWAN_TTS) return 0;
+
+    const commands = await this.commandRepository.find({
+      where: { deviceId, status: In(['QUEUED', 'DELIVERED']) },
+      order: { createdAt: 'ASC' },
+    });
+
+    for (const command of commands) {
+      await this.updateCommandStatus(
+        command.id,
+        'PENDING',
+        'Re-queued after device join',
+      );
+      await this.publishCommand(command, device);
+    }
+
+    return commands.length;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async saveCommand(
+    createCommandDto: CreateCommandDto,
+    userId: string,
+    tenantId: string | undefined,
+    retries: number,
+  ): Promise<{ command: DeviceCommand; device: Device }> {
+    // 1. Verify device exists and belongs to tenant
+    const device = await this.deviceRepository.findOne({
+      where: {
+        id: createCommandDto.deviceId,
+        tenantId,
+      },
+    });
+
+    if (!device) {
+      throw new NotFoundException('Device not found');
+    }
+
+    // 2. Check and coerce params against the codec's command schema
+    const params = this.commandValidation.validate(
+      device,
+      createCommandDto.commandType,
+      createCommandDto.params,
+    );
+
+    // 3. Create command record
+    const command = this.commandRepository.create({
+      deviceId: createCommandDto.deviceId,
+      commandType: createCommandDto.commandType,
+      params,
+      priority: createCommandDto.priority || 'NORMAL',
+      timeout: createCommandDto.timeout || 30000,
+      retries,
+      scheduledFor: createCommandDto.scheduledFor
+        ? new Date(createCommandDto.scheduledFor)
+        : undefined,
+      userId,
+      tenantId,
+      status: createCommandDto.scheduledFor ? 'SCHEDULED' : 'PENDING',
+      metadata: pick(createCommandDto, ['fPort', 'confirmed']),
+    });
+
+    return { command: await this.commandRepository.save(command), device };
+  }
+
+  /** Publish to Kafka for async processing by DeviceCommandsConsumer */
+  private async publishCommand(
+    savedCommand: DeviceCommand,
+    device: Device,
+  ): Promise<void> {
+    const message: DeviceCommandMessage = {
+      id: savedCommand.id,
+      deviceId: savedCommand.deviceId,
+      deviceKey: device.deviceKey,
+      tenantId: savedCommand.tenantId,
+      userId: savedCommand.userId,
+      commandType: savedCommand.commandType,
+      params: savedCommand.params,
+      priority: savedCommand.priority,
+      timeout: savedCommand.timeout,
+      retries: savedCommand.retries,
+      createdAt: savedCommand.createdAt.getTime(),
+      scheduledFor: savedCommand.scheduledFor?.getTime(),
+      fPort: savedCommand.metadata?.fPort as number | undefined,
+      confirmed: savedCommand.metadata?.confirmed as boolean | undefined,
+    };
+
+    await this.kafkaService.sendMessage('device.commands', message);
+
+    console.log(`✅ Command ${savedCommand.id} published to Kafka`);
+  }
+
+  private findByQueueItem(
+    deviceId: string,
+    queueItemId: string,
+  ): Promise<DeviceCommand | null> {
+    const query = this.commandRepository
+      .createQueryBuilder('command')
+      .where('command.deviceId = :deviceId', { deviceId });
+
+    return (
+      isUUID(queueItemId)
+        ? query.andWhere(
+            `(command.id = :queueItemId OR command.metadata ->> 'queueItemId' = :queueItemId)`,
+            { queueItemId },
+          )
+        : query.andWhere(`command.metadata ->> 'queueItemId' = :queueItemId`, {
+            queueItemId,
+          })
+    ).getOne();
+  }
+
+  private extractResponseError(response: unknown): string | undefined {
+    if (!response || typeof response !== 'object') return undefined;
+
+    const error = (response as Record<string, unknown>).error;
+    if (error === undefined || error === null || error === false) {
+      return undefined;
+    }
+    if (typeof error === 'string') return error;
+
+    const message = (error as Record<string, unknown>).message;
+    return typeof message === 'string' ? message : JSON.stringify(error);
+  }
+
+  private emitFinished(
+    commandId: string,
+    status: DeviceCommand['status'],
+    statusMessage?: string,
+    response?: unknown,
+  ): void {
+    const event: CommandFinishedEvent = {
+      commandId,
+      status,
+      statusMessage,
+      response,
+    };
+    this.eventEmitter.emit(COMMAND_FINISHED_EVENT, event);
   }
 }
\ No newline at end of file
@@ -6,7 +6,11 @@ import {
   IsEnum,
   IsOptional,
   IsNumber,
+  IsInt,
+  IsBoolean,
   IsDateString,
+  Min,
+  Max,
 } from 'class-validator';
 
 export class CreateCommandDto {
@@ -25,10 +29,23 @@ export class CreateCommandDto {
   priority?: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
 
   @IsNumber()
+  @Min(1000)
+  @Max(24 * 60 * 60 * 1000)
   @IsOptional()
-  timeout?: number;
+  timeout?: number; // ms to wait for the device's response / ack
 
   @IsDateString()
   @IsOptional()
   scheduledFor?: string; // ISO date string
+
+  // LoRaWAN (ChirpStack / TTS) — override the codec's fPort / confirmed
+  @IsInt()
+  @Min(1)
+  @Max(223)
+  @IsOptional()
+  fPort?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  confirmed?: boolean;
 }
@@ -129,8 +129,10 @@ export class DeviceCommand {
     return ['PENDING', 'QUEUED', 'SENDING', 'RETRYING'].includes(this.status);
   }
 
+  // DELIVERED is not final: the command still waits for the device's
+  // response (MQTT) or acknowledgement (confirmed LoRaWAN downlink)
   isCompleted(): boolean {
-    return ['COMPLETED', 'DELIVERED', 'FAILED', 'CANCELLED'].includes(this.status);
+    return ['COMPLETED', 'FAILED', 'CANCELLED'].includes(this.status);
   }
 
   canCancel(): boolean {
@@ -0,0 +1,265 @@
+// src/modules/devices/__tests__/device-credentials.service.spec.ts
+// Which credentials authenticate where — bearer/basic lookups vs. client
+// certificates on the MQTT auth hook
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ForbiddenException } from '@nestjs/common';
+import { X509Certificate } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { DeviceCredentialsService } from '../device-credentials.service';
+import { Device } from '../entities/device.entity';
+import {
+  CredentialsType,
+  DeviceCredentials,
+  X509Mode,
+} from '../entities/device-credentials.entity';
+import {
+  DEVICE_CERT,
+  FORGED_DEVICE_CERT,
+  TRUSTED_CA,
+} from './fixtures/x509.fixtures';
+
+describe('DeviceCredentialsService — authentication', () => {
+  let service: DeviceCredentialsService;
+  let stored: Map<string, DeviceCredentials>;
+
+  const fingerprint = new X509Certificate(DEVICE_CERT).fingerprint256
+    .replace(/:/g, '')
+    .toLowerCase();
+
+  const device = (deviceKey: string, caCertificates: string[] = []) =>
+    ({
+      id: `id-${deviceKey}`,
+      deviceKey,
+      tenantId: 'ten-1',
+      deviceProfile: {
+        transportConfiguration: {
+          mqtt: { x509CaCertificates: caCertificates },
+        },
+      },
+    }) as unknown as Device;
+
+  const register = (fields: Partial<DeviceCredentials>) => {
+    const credentials = Object.assign(new DeviceCredentials(), {
+      id: `creds-${fields.credentialsId}`,
+      isActive: true,
+      ...fields,
+    });
+    stored.set(credentials.credentialsId, credentials);
+    return credentials;
+  };
+
+  const mockCredentialsRepository = {
+    createQueryBuilder: jest.fn(),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  beforeEach(async () => {
+    stored = new Map();
+
+    mockCredentialsRepository.createQueryBuilder.mockImplementation(() => {
+      let credentialsId: string;
+      const qb = {
+        addSelect: () => qb,
+        leftJoinAndSelect: () => qb,
+        where: (_sql: string, params: { credentialsId: string }) => {
+          credentialsId = params.credentialsId;
+          return qb;
+        },
+        getOne: () => Promise.resolve(stored.get(credentialsId) ?? null),
+      };
+      return qb;
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeviceCredentialsService,
+        { provide: getRepositoryToken(Device), useValue: {} },
+        {
+          provide: getRepositoryToken(DeviceCredentials),
+          useValue: mockCredentialsRepository,
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<DeviceCredentialsService>(DeviceCredentialsService);
+
+    register({
+      credentialsId: 'token-1',
+      credentialsType: CredentialsType.ACCESS_TOKEN,
+      device: device('dev_token'),
+    });
+    register({
+      credentialsId: 'basic-user',
+      credentialsType: CredentialsType.MQTT_BASIC,
+      credentialsValue: bcrypt.hashSync('s3cret', 4),
+      mqttClientId: 'client-1',
+      device: device('dev_basic'),
+    });
+    register({
+      credentialsId: 'sensor-01',
+      credentialsType: CredentialsType.X509_CERTIFICATE,
+      x509Mode: X509Mode.CHAIN,
+      device: device('dev_chain', [TRUSTED_CA]),
+    });
+    register({
+      credentialsId: fingerprint,
+      credentialsType: CredentialsType.X509_CERTIFICATE,
+      x509Mode: X509Mode.LEAF,
+      credentialsValue: DEVICE_CERT,
+      device: device('dev_leaf'),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('verifyCredentials', () => {
+    it('should accept an access token', async () => {
+      const { device } = await service.verifyCredentials('token-1');
+
+      expect(device.deviceKey).toBe('dev_token');
+    });
+
+    it('should accept MQTT basic credentials with the right password', async () => {
+      const { device } = await service.verifyCredentials(
+        'basic-user',
+        's3cret',
+      );
+
+      expect(device.deviceKey).toBe('dev_basic');
+    });
+
+    it.each([
+      ['an unknown id', 'nope', undefined],
+      ['a wrong password', 'basic-user', 'wrong'],
+      ['a missing password', 'basic-user', undefined],
+    ])('should reject %s', async (_label, id, password) => {
+      await expect(service.verifyCredentials(id, password)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should reject revoked and expired credentials', async () => {
+      stored.get('token-1')!.isActive = false;
+      stored.get('basic-user')!.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.verifyCredentials('token-1')).rejects.toThrow(
+        ForbiddenException,
+      );
+      await expect(
+        service.verifyCredentials('basic-user', 's3cret'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not accept a certificate CN as a bearer token', async () => {
+      await expect(service.verifyCredentials('sensor-01')).rejects.toThrow(
+        'Client certificate required',
+      );
+    });
+
+    it('should not accept a certificate fingerprint as a bearer token', async () => {
+      await expect(service.verifyCredentials(fingerprint)).rejects.toThrow(
+        'Client certificate required',
+      );
+    });
+  });
+
+  describe('authenticateMqtt', () => {
+    it('should accept basic credentials with the bound client id', async () => {
+      const { device } = await service.authenticateMqtt({
+        clientId: 'client-1',
+        username: 'basic-user',
+        password: 's3cret',
+      });
+
+      expect(device.deviceKey).toBe('dev_basic');
+    });
+
+    it('should reject basic credentials from another client id', async () => {
+      await expect(
+        service.authenticateMqtt({
+          clientId: 'client-2',
+          username: 'basic-user',
+          password: 's3cret',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject a certificate CN sent as the username', async () => {
+      await expect(
+        service.authenticateMqtt({
+          clientId: 'dev_chain',
+          username: 'sensor-01',
+        }),
+      ).rejects.toThrow('Client certificate required');
+    });
+
+    it('should accept a CHAIN certificate issued by a profile CA', async () => {
+      stored.delete(fingerprint);
+
+      const { device } = await service.authenticateMqtt({
+        clientId: 'dev_chain',
+        certificate: DEVICE_CERT,
+      });
+
+      expect(device.deviceKey).toBe('dev_chain');
+    });
+
+    it('should reject a certificate with the same CN from another CA', async () => {
+      stored.delete(fingerprint);
+
+      await expect(
+        service.authenticateMqtt({
+          clientId: 'dev_chain',
+          certificate: FORGED_DEVICE_CERT,
+        }),
+      ).rejects.toThrow('not issued by a CA trusted on the device profile');
+    });
+
+    it('should accept a registered LEAF certificate', async () => {
+      const { device } = await service.authenticateMqtt({
+        clientId: 'dev_leaf',
+        certificate: DEVICE_CERT,
+      });
+
+      expect(device.deviceKey).toBe('dev_leaf');
+    });
+
+    it('should reject a certificate client that is not its device', async () => {
+      await expect(
+        service.authenticateMqtt({
+          clientId: 'dev_token',
+          certificate: DEVICE_CERT,
+        }),
+      ).rejects.toThrow('must use their deviceKey');
+    });
+
+    it('should reject an expired certificate', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2200, 0, 1));
+
+      await expect(
+        service.authenticateMqtt({
+          clientId: 'dev_leaf',
+          certificate: DEVICE_CERT,
+        }),
+      ).rejects.toThrow('expired or not yet valid');
+    });
+
+    it('should reject a revoked certificate registration', async () => {
+      stored.get(fingerprint)!.isActive = false;
+      stored.get('sensor-01')!.isActive = false;
+
+      await expect(
+        service.authenticateMqtt({
+          clientId: 'dev_leaf',
+          certificate: DEVICE_CERT,
+        }),
+      ).rejects.toThrow('Unknown client certificate');
+    });
+  });
+});
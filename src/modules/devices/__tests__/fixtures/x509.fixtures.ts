@@ -0,0 +1,51 @@
+// src/modules/devices/__tests__/fixtures/x509.fixtures.ts
+// EC P-256 test certificates valid for 100 years. The two CAs share a
+// subject, so only the signature tells the forged leaf apart.
+
+/** CA registered on the device profile */
+export const TRUSTED_CA = `-----BEGIN CERTIFICATE-----
+MIIBlzCCAT2gAwIBAgIUVxzEro5HK2Vw+xhXQpcAMxfa31wwCgYIKoZIzj0EAwIw
+GDEWMBQGA1UEAwwNRmxlZXQgVGVzdCBDQTAgFw0yNjEwMTkxNzMyNTVaGA8yMTI2
+MDkyNTE3MzI1NVowGDEWMBQGA1UEAwwNRmxlZXQgVGVzdCBDQTBZMBMGByqGSM49
+AgEGCCqGSM49AwEHA0IABButgB9BztW3bFxWH167fAWnzq47v/LoKoWt2CnW8v+Q
+3q2gnRuQ+r5Gm48+7/n0+SOS7+iSu7DhtE0hNgU3kiWjYzBhMB0GA1UdDgQWBBQ+
+tt001FlKXl1A2exyNEVcUJ3NWDAfBgNVHSMEGDAWgBQ+tt001FlKXl1A2exyNEVc
+UJ3NWDAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwICBDAKBggqhkjOPQQD
+AgNIADBFAiBJQZUUxylg7/xrGnWrS2KhxG3QVSVsYgz9QKGw1uiz7gIhAJCeWneK
+Mwpdibg/XAAfcp0e4Ne7207SeNmjVaBNLOmb
+-----END CERTIFICATE-----`;
+
+/** Self-signed CA nobody trusts, same subject as TRUSTED_CA */
+export const ROGUE_CA = `-----BEGIN CERTIFICATE-----
+MIIBmDCCAT2gAwIBAgIUB4NzepU40CXopiuXiaZGLDSCPIkwCgYIKoZIzj0EAwIw
+GDEWMBQGA1UEAwwNRmxlZXQgVGVzdCBDQTAgFw0yNjEwMTkxNzMyNTVaGA8yMTI2
+MDkyNTE3MzI1NVowGDEWMBQGA1UEAwwNRmxlZXQgVGVzdCBDQTBZMBMGByqGSM49
+AgEGCCqGSM49AwEHA0IABGhggddQJ+WxCwPYew3xIXNSrMdk9O5V6d7kOqfqgpDj
+xKm+bG2pjVx43EUorOkO5U17YvlNjF3PwnuXXWSRRnujYzBhMB0GA1UdDgQWBBTM
+hH0nKcKh8y2A4VkQ7l0i2apCFTAfBgNVHSMEGDAWgBTMhH0nKcKh8y2A4VkQ7l0i
+2apCFTAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwICBDAKBggqhkjOPQQD
+AgNJADBGAiEAtcBzN+BvbGDmpZIykhpIl+DleviYiHQPMjjc1b9QuXkCIQCbp/kZ
+4JESmYMy2TBuk7MSscuFiHOgZwjqqOMjfAH1Hw==
+-----END CERTIFICATE-----`;
+
+/** CN=sensor-01, issued by TRUSTED_CA */
+export const DEVICE_CERT = `-----BEGIN CERTIFICATE-----
+MIIBKDCBzwIUGDHGU+Q5VLxPbKXE/fFqodbeysQwCgYIKoZIzj0EAwIwGDEWMBQG
+A1UEAwwNRmxlZXQgVGVzdCBDQTAgFw0yNjEwMTkxNzMyNTVaGA8yMTI2MDkyNTE3
+MzI1NVowFDESMBAGA1UEAwwJc2Vuc29yLTAxMFkwEwYHKoZIzj0CAQYIKoZIzj0D
+AQcDQgAE1O0Hop2zzKY6GObAVnlFSzcr49jHO04tMPUoiU/eU4hl7Z7BmM1BR9mT
+55PXFuArATVfTH7mEiW1eFcfS34XXjAKBggqhkjOPQQDAgNIADBFAiBON1GGpRgR
+o40PYegqLfO0MOES5SSCmrTzd0UXrpQ4UgIhAMM7FiXLU3b1yOrLs4NRBamGmXqJ
+iymrT+9e+ovtEkZU
+-----END CERTIFICATE-----`;
+
+/** CN=sensor-01, issued by ROGUE_CA */
+export const FORGED_DEVICE_CERT = `-----BEGIN CERTIFICATE-----
+MIIBJzCBzwIUEn/yETC6EZHlMEB7nwhH2WryvTYwCgYIKoZIzj0EAwIwGDEWMBQG
+A1UEAwwNRmxlZXQgVGVzdCBDQTAgFw0yNjEwMTkxNzMyNTVaGA8yMTI2MDkyNTE3
+MzI1NVowFDESMBAGA1UEAwwJc2Vuc29yLTAxMFkwEwYHKoZIzj0CAQYIKoZIzj0D
+AQcDQgAEtSkfm/gNQw8Qro4vG97+5wF/lMWTJ9+LXJEkeRsVNMeqlXpHLD/eH9QN
++GBNAxu/s4rBMThk6OiMtz5kMxFe/TAKBggqhkjOPQQDAgNHADBEAiBjfqm6m5qa
+MDW9QUGwNtOsM+y2EGSz/e4JnvrW5+aIlAIgfqk75Q8yEREYhl/lUQvkDoj/I/Wd
+4Au5MDhkL+N8WSM=
+-----END CERTIFICATE-----`;
@@ -0,0 +1,185 @@
+// src/modules/devices/codecs/__tests__/codec-sandbox.service.spec.ts
+// Behaviour of the codec sandbox limits — runs the real sandbox process, no mocks
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { CodecSandboxService } from '../codec-sandbox.service';
+import { ScriptDeviceCodec } from '../custom/script.codec';
+import { CustomCodecDefinition } from '../interfaces/custom-codec.interface';
+
+describe('CodecSandboxService', () => {
+  let module: TestingModule;
+  let sandbox: CodecSandboxService;
+
+  const DECODE_FIRST_BYTE =
+    'function decodeUplink(input) { return { data: { value: input.bytes[0] } }; }';
+
+  const codec = (script: string, tenantId = 'tenant-a') =>
+    new ScriptDeviceCodec(
+      {
+        codecId: 'spec-codec',
+        tenantId,
+        version: 1,
+        manufacturer: 'Acme',
+        supportedModels: ['X1'],
+        protocol: 'lorawan',
+        type: 'SCRIPT',
+        script,
+      } as CustomCodecDefinition,
+      sandbox,
+    );
+
+  beforeAll(async () => {
+    process.env.CODEC_SCRIPT_TIMEOUT_MS = '100';
+    process.env.CODEC_SANDBOX_MEMORY_MB = '32';
+
+    module = await Test.createTestingModule({
+      providers: [CodecSandboxService],
+    }).compile();
+
+    sandbox = module.get<CodecSandboxService>(CodecSandboxService);
+  });
+
+  afterAll(async () => {
+    await module.close();
+    delete process.env.CODEC_SCRIPT_TIMEOUT_MS;
+    delete process.env.CODEC_SANDBOX_MEMORY_MB;
+  });
+
+  describe('decode / encode', () => {
+    it('should decode with the uploaded decodeUplink', () => {
+      expect(codec(DECODE_FIRST_BYTE).decodeUplink([42], 85)).toEqual({
+        data: { value: 42 },
+        warnings: [],
+        errors: [],
+      });
+    });
+
+    it('should encode with the uploaded encodeDownlink', () => {
+      const instance = codec(
+        DECODE_FIRST_BYTE +
+          '\nfunction encodeDownlink(input) { return { bytes: [input.data.level], fPort: 2 }; }',
+      );
+
+      expect(
+        instance.encodeDownlink({ type: 'set', params: { level: 7 } }),
+      ).toMatchObject({ fPort: 2, data: '07', warnings: [] });
+    });
+
+    it('should refuse a script without decodeUplink', () => {
+      expect(() => codec('var x = 1;')).toThrow(
+        'Codec script must define decodeUplink(input)',
+      );
+    });
+
+    it('should report errors thrown by the script', () => {
+      const instance = codec(
+        'function decodeUplink() { throw new Error("bad frame"); }',
+      );
+
+      expect(() => instance.decodeUplink([1])).toThrow(
+        'decodeUplink: bad frame',
+      );
+    });
+
+    it('should not share globals between tenants running the same script', () => {
+      const script =
+        'var seen = 0;\nfunction decodeUplink() { seen += 1; return { data: { seen } }; }';
+
+      codec(script, 'tenant-a').decodeUplink([1]);
+      codec(script, 'tenant-a').decodeUplink([1]);
+
+      expect(codec(script, 'tenant-b').decodeUplink([1]).data).toEqual({
+        seen: 1,
+      });
+    });
+  });
+
+  describe('limits', () => {
+    it('should stop an infinite loop at the time limit', () => {
+      const instance = codec('function decodeUplink() { while (true) {} }');
+
+      expect(() => instance.decodeUplink([1])).toThrow(/timed out/);
+    });
+
+    it('should stop an infinite loop in the top-level script', () => {
+      expect(() => codec('while (true) {}\n' + DECODE_FIRST_BYTE)).toThrow(
+        /timed out/,
+      );
+    });
+
+    it('should drain microtasks inside the time limit', () => {
+      const instance = codec(
+        'function decodeUplink() {\n' +
+          '  const spin = () => Promise.resolve().then(spin);\n' +
+          '  spin();\n' +
+          '  return { data: {} };\n' +
+          '}',
+      );
+
+      expect(() => instance.decodeUplink([1])).toThrow(/timed out/);
+    });
+
+    it('should stop a script that exhausts the memory limit', () => {
+      const instance = codec(
+        'function decodeUplink() { return { data: { v: new Array(1.2e8).fill(1.5).length } }; }',
+      );
+
+      expect(() => instance.decodeUplink([1])).toThrow(/memory limit/);
+    });
+
+    it('should keep decoding after the sandbox process was restarted', () => {
+      const runaway = codec(
+        'function decodeUplink() { return { data: { v: new Array(1.2e8).fill(1.5).length } }; }',
+      );
+      expect(() => runaway.decodeUplink([1])).toThrow();
+
+      expect(codec(DECODE_FIRST_BYTE).decodeUplink([9]).data).toEqual({
+        value: 9,
+      });
+    });
+  });
+
+  describe('isolation', () => {
+    it('should block eval and the Function constructor', () => {
+      const instance = codec(
+        'function decodeUplink(input) {\n' +
+          '  return { data: { v: input.bytes[0] === 1 ? eval("1 + 1") : new Function("return 1")() } };\n' +
+          '}',
+      );
+
+      expect(() => instance.decodeUplink([1])).toThrow(
+        /Code generation from strings disallowed/,
+      );
+      expect(() => instance.decodeUplink([2])).toThrow(
+        /Code generation from strings disallowed/,
+      );
+    });
+
+    it('should not reach the host through constructors', () => {
+      const instance = codec(
+        'function decodeUplink() {\n' +
+          '  const F = decodeUplink.constructor;\n' +
+          '  return { data: { p: typeof F("return process")() } };\n' +
+          '}',
+      );
+
+      expect(() => instance.decodeUplink([1])).toThrow(
+        /Code generation from strings disallowed/,
+      );
+    });
+
+    it('should expose no require, process or timers', () => {
+      const instance = codec(
+        'function decodeUplink() {\n' +
+          '  return { data: { r: typeof require, p: typeof process, t: typeof setTimeout } };\n' +
+          '}',
+      );
+
+      expect(instance.decodeUplink([1]).data).toEqual({
+        r: 'undefined',
+        p: 'undefined',
+        t: 'undefined',
+      });
+    });
+  });
+});
@@ -54,6 +54,28 @@ export class CodecRegistryService {
     );
   }
 
+  unregisterCodec(codecId: string): void {
+    if (this.codecs.delete(codecId)) {
+      this.logger.log(`Unregistered codec: ${codecId}`);
+    }
+  }
+
+  // ── Tenant visibility ─────────────────────────────────────────────────────
+
+  /**
+   * Built-in codecs are visible to everyone, uploaded ones only to their
+   * tenant. Catalog methods take the caller's tenantId; without one they
+   * list built-in codecs only.
+   */
+  isVisible(codecId: string, tenantId?: string): boolean {
+    const codec = this.codecs.get(codecId);
+    return !!codec && this.visibleTo(codec, tenantId);
+  }
+
+  private visibleTo(codec: IDeviceCodec, tenantId?: string): boolean {
+    return !codec.tenantId || codec.tenantId === tenantId;
+  }
+
   // ── Family derivation ─────────────────────────────────────────────────────
 
 /**
@@ -85,12 +107,16 @@ private deriveFamily(model: string, codec: IDeviceCodec): string {
  *   - Multiple variants in one codec's supportedModels  → all grouped under same family
  *   - Separate codecs for same family                   → merged into one family entry
  */
-private buildFamilyMap(manufacturer: string): Map<string, ModelFamilyEntry> {
+private buildFamilyMap(
+  manufacturer: string,
+  tenantId?: string,
+): Map<string, ModelFamilyEntry> {
   const familyMap = new Map<string, ModelFamilyEntry>();
   const mfr = manufacturer.toLowerCase();
 
   for (const codec of this.codecs.values()) {
     if (codec.manufacturer.toLowerCase() !== mfr) continue;
+    if (!this.visibleTo(codec, tenantId)) continue;
 
     for (const modelName of codec.supportedModels) {
       if (modelName === '*') continue;
@@ -155,8 +181,9 @@ private buildFamilyMap(manufacturer: string): Map<string, ModelFamilyEntry> {
 listModelFamiliesForManufacturer(
   manufacturer: string,
   category?: string,
+  tenantId?: string,
 ): ModelFamilyEntry[] {
-  const familyMap = this.buildFamilyMap(manufacturer);
+  const familyMap = this.buildFamilyMap(manufacturer, tenantId);
 
   let families = Array.from(familyMap.values());
 
@@ -174,8 +201,11 @@ listModelFamiliesForManufacturer(
  *
  *   GET /codecs/manufacturers/Milesight/categories
  */
-listCategoriesForManufacturer(manufacturer: string): string[] {
-  const familyMap = this.buildFamilyMap(manufacturer);
+listCategoriesForManufacturer(
+  manufacturer: string,
+  tenantId?: string,
+): string[] {
+  const familyMap = this.buildFamilyMap(manufacturer, tenantId);
   const cats = new Set<string>();
 
   for (const entry of familyMap.values()) {
@@ -191,17 +221,18 @@ listCategoriesForManufacturer(manufacturer: string): string[] {
  *
  *   GET /codecs/catalog/v2
  */
-getStructuredCatalog(): ManufacturerCatalogV2[] {
+getStructuredCatalog(tenantId?: string): ManufacturerCatalogV2[] {
   // Collect all unique manufacturers (excluding Generic)
   const manufacturers = new Set<string>();
   for (const codec of this.codecs.values()) {
+    if (!this.visibleTo(codec, tenantId)) continue;
     if (codec.manufacturer !== 'Generic') manufacturers.add(codec.manufacturer);
   }
 
   const result: ManufacturerCatalogV2[] = [];
 
   for (const manufacturer of Array.from(manufacturers).sort()) {
-    const familyMap = this.buildFamilyMap(manufacturer);
+    const familyMap = this.buildFamilyMap(manufacturer, tenantId);
     const categoryMap = new Map<string, ModelFamilyEntry[]>();
     const uncategorized: ModelFamilyEntry[] = [];
 
@@ -243,12 +274,17 @@ getStructuredCatalog(): ManufacturerCatalogV2[] {
    * Find the codec for a given manufacturer + model combination.
    * Case-insensitive on both sides.
    */
-  findCodec(manufacturer: string, model: string): IDeviceCodec | undefined {
+  findCodec(
+    manufacturer: string,
+    model: string,
+    tenantId?: string,
+  ): IDeviceCodec | undefined {
     const mfr = manufacturer.toLowerCase();
     const mdl = model.toLowerCase();
 
     for (const codec of this.codecs.values()) {
       if (
+        this.visibleTo(codec, tenantId) &&
         codec.manufacturer.toLowerCase() === mfr &&
         codec.supportedModels.some((m) => m.toLowerCase() === mdl)
       ) {
@@ -262,8 +298,12 @@ getStructuredCatalog(): ManufacturerCatalogV2[] {
    * Resolve a codecId from manufacturer + model.
    * Returns undefined if no match found.
    */
-  resolveCodecId(manufacturer: string, model: string): string | undefined {
-    return this.findCodec(manufacturer, model)?.codecId;
+  resolveCodecId(
+    manufacturer: string,
+    model: string,
+    tenantId?: string,
+  ): string | undefined {
+    return this.findCodec(manufacturer, model, tenantId)?.codecId;
   }
 
   // ── Catalog (for frontend dropdowns) ─────────────────────────────────────
@@ -275,10 +315,10 @@ getStructuredCatalog(): ManufacturerCatalogV2[] {
    * Excludes 'Generic' from the list because generic devices don't go
    * through the manufacturer/model selection flow.
    */
-  listManufacturers(): string[] {
+  listManufacturers(tenantId?: string): string[] {
     const names = new Set<string>();
     for (const codec of this.codecs.values()) {
-      if (codec.manufacturer !== 'Generic') {
+      if (codec.manufacturer !== 'Generic' && this.visibleTo(codec, tenantId)) {
         names.add(codec.manufacturer);
       }
     }
@@ -293,12 +333,16 @@ getStructuredCatalog(): ManufacturerCatalogV2[] {
    * WS558 and EM300), all models from all codecs are merged into one flat
    * list — one entry per model.
    */
-  listModelsForManufacturer(manufacturer: string): ModelEntry[] {
+  listModelsForManufacturer(
+    manufacturer: string,
+    tenantId?: string,
+  ): ModelEntry[] {
     const models: ModelEntry[] = [];
     const mfr = manufacturer.toLowerCase();
 
     for (const codec of this.codecs.values()) {
       if (codec.manufacturer.toLowerCase() !== mfr) continue;
+      if (!this.visibleTo(codec, tenantId)) continue;
 
       for (const modelName of codec.supportedModels) {
         // Skip the generic wildcard
@@ -319,11 +363,12 @@ getStructuredCatalog(): ManufacturerCatalogV2[] {
   /**
    * Full catalog grouped by manufacturer — used by GET /codecs/manufacturers.
    */
-  getCatalog(): ManufacturerCatalog[] {
+  getCatalog(tenantId?: string): ManufacturerCatalog[] {
     const byManufacturer = new Map<string, ModelEntry[]>();
 
     for (const codec of this.codecs.values()) {
       if (codec.manufacturer === 'Generic') continue;
+      if (!this.visibleTo(codec, tenantId)) continue;
 
       if (!byManufacturer.has(codec.manufacturer)) {
         byManufacturer.set(codec.manufacturer, []);
@@ -466,8 +511,12 @@ getStructuredCatalog(): ManufacturerCatalogV2[] {
   /**
    * Get capabilities by manufacturer + model (when codecId is not known).
    */
-  getCapabilitiesByModel(manufacturer: string, model: string): DeviceCapability | null {
-    const codec = this.findCodec(manufacturer, model);
+  getCapabilitiesByModel(
+    manufacturer: string,
+    model: string,
+    tenantId?: string,
+  ): DeviceCapability | null {
+    const codec = this.findCodec(manufacturer, model, tenantId);
     if (!codec) return null;
     if (typeof codec.getCapabilities !== 'function') return null;
     return codec.getCapabilities();
@@ -477,9 +526,10 @@ getStructuredCatalog(): ManufacturerCatalogV2[] {
    * Get capabilities for ALL registered codecs.
    * GET /codecs/capabilities  →  used by automation builder to list all devices
    */
-  getAllCapabilities(): DeviceCapability[] {
+  getAllCapabilities(tenantId?: string): DeviceCapability[] {
     const result: DeviceCapability[] = [];
     for (const codec of this.codecs.values()) {
+      if (!this.visibleTo(codec, tenantId)) continue;
       if (typeof codec.getCapabilities === 'function') {
         try {
           result.push(codec.getCapabilities());
@@ -493,13 +543,17 @@ getStructuredCatalog(): ManufacturerCatalogV2[] {
 
   // ── List (admin API) ──────────────────────────────────────────────────────
 
-  listCodecs() {
-    return Array.from(this.codecs.values()).map((c) => ({
-      codecId: c.codecId,
-      manufacturer: c.manufacturer,
-      models: c.supportedModels,
-      protocol: c.protocol,
-    }));
+  /** tenantId null → every codec (super admin), otherwise visible ones */
+  listCodecs(tenantId?: string | null) {
+    return Array.from(this.codecs.values())
+      .filter((c) => tenantId === null || this.visibleTo(c, tenantId))
+      .map((c) => ({
+        codecId: c.codecId,
+        manufacturer: c.manufacturer,
+        models: c.supportedModels,
+        protocol: c.protocol,
+        ...(c.tenantId && { tenantId: c.tenantId }),
+      }));
   }
 
   // ── Helpers ───────────────────────────────────────────────────────────────
@@ -0,0 +1,382 @@
+// src/modules/devices/codecs/codec-sandbox.service.ts
+
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { createHash } from 'crypto';
+import {
+  MessageChannel,
+  MessagePort,
+  Worker,
+  receiveMessageOnPort,
+} from 'worker_threads';
+
+// ══════════════════════════════════════════════════════════════════════════
+// SANDBOX SOURCES
+// ══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Installed before the uploaded script. __call is the only way in: the input
+ * crosses as a JSON string and the result — or the error — goes back as one,
+ * so no host-realm object (and with it the host Function constructor) reaches
+ * codec code. JSON and String are captured first and the slots are
+ * non-configurable, so the script cannot swap them for getters or setters.
+ */
+const CODEC_PRELUDE = `
+(function (global, parse, stringify, toString) {
+  const define = (name, value, writable) =>
+    Object.defineProperty(global, name, { value, writable });
+
+  const describe = (error) => {
+    try {
+      return toString(error && error.message !== undefined ? error.message : error);
+    } catch (e) {
+      return 'Codec script failed';
+    }
+  };
+
+  define('__input', 'null', true);
+  define('__error', null, true);
+  define('__call', function (name, input) {
+    try {
+      const fn = global[name];
+      if (typeof fn !== 'function') throw new TypeError(name + ' is not defined');
+      const result = fn(parse(input));
+      return toString(stringify({ result: result === undefined ? null : result }));
+    } catch (error) {
+      return toString(stringify({ error: describe(error) }));
+    }
+  });
+  define('__defines', () =>
+    toString(stringify({
+      decodeUplink: typeof global.decodeUplink === 'function',
+      encodeDownlink: typeof global.encodeDownlink === 'function',
+    })),
+  );
+  define('__describe', () => describe(global.__error));
+})(globalThis, JSON.parse, JSON.stringify, String);
+`;
+
+/**
+ * Sandbox process entry point. Keeps one vm context per codec version (least
+ * recently used dropped first) with string/wasm code generation disabled and
+ * its microtasks drained inside the timeout.
+ */
+const PROCESS_SOURCE = `
+const vm = require('vm');
+
+const prelude = process.env.CODEC_PRELUDE;
+const maxContexts = Number(process.env.CODEC_MAX_CONTEXTS);
+const contexts = new Map();
+
+// Timeouts and compile errors are host errors; anything else was thrown by
+// codec code and is only read inside the context, under the timeout
+function describe(error, context, timeout) {
+  if (error instanceof Error || !context) return String(error && error.message || error);
+  context.__error = error;
+  try {
+    const message = vm.runInContext('__describe()', context, { timeout });
+    return typeof message === 'string' ? message : 'Codec script failed';
+  } catch (inner) {
+    return String(inner && inner.message || inner);
+  } finally {
+    context.__error = null;
+  }
+}
+
+function load(job) {
+  let context = contexts.get(job.key);
+  if (context) {
+    contexts.delete(job.key);
+    contexts.set(job.key, context);
+    return context;
+  }
+
+  context = vm.createContext(Object.create(null), {
+    name: 'codec:' + job.key,
+    codeGeneration: { strings: false, wasm: false },
+    microtaskMode: 'afterEvaluate',
+  });
+  vm.runInContext(prelude, context, { timeout: job.timeout });
+  const script = new vm.Script(job.script, { filename: job.filename });
+  try {
+    script.runInContext(context, { timeout: job.loadTimeout });
+  } catch (error) {
+    throw new Error(describe(error, context, job.timeout));
+  }
+
+  contexts.set(job.key, context);
+  if (contexts.size > maxContexts) {
+    contexts.delete(contexts.keys().next().value);
+  }
+  return context;
+}
+
+process.on('disconnect', () => process.exit(0));
+process.on('message', (job) => {
+  const reply = { id: job.id, success: true, output: 'null' };
+  let context;
+
+  try {
+    context = load(job);
+    if (job.name) {
+      context.__input = job.input;
+      reply.output = vm.runInContext(
+        '__call(' + JSON.stringify(job.name) + ', __input)',
+        context,
+        { timeout: job.timeout },
+      );
+    } else {
+      reply.output = vm.runInContext('__defines()', context, { timeout: job.timeout });
+    }
+    if (typeof reply.output !== 'string') throw new Error('Codec returned no result');
+  } catch (error) {
+    reply.success = false;
+    reply.error = describe(error, context, job.timeout);
+  }
+
+  process.send(reply);
+});
+`;
+
+/**
+ * Relay worker. Owns the sandbox process: forwards each job, kills the
+ * process when the job overruns its budget (a builtin the vm timeout cannot
+ * interrupt) and reports a job whose process died (heap limit) as over the
+ * limit. Replies go over a dedicated port and wake the blocked host through
+ * the shared signal.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { spawn } = require('child_process');
+
+const { port, signal, execPath, args, env, bootMs } = workerData;
+const flag = new Int32Array(signal);
+let child;
+let pending;
+
+function reply(message) {
+  port.postMessage(message);
+  Atomics.store(flag, 0, 1);
+  Atomics.notify(flag, 0);
+}
+
+function start() {
+  const proc = spawn(execPath, args, {
+    stdio: ['ignore', 'ignore', 'ignore', 'ipc'],
+    env,
+  });
+  proc.on('message', (message) => {
+    if (!pending || message.id !== pending.id) return;
+    clearTimeout(pending.timer);
+    pending = undefined;
+    reply(message);
+  });
+  const lost = () => {
+    if (child === proc) child = undefined;
+    if (pending && pending.proc === proc) {
+      clearTimeout(pending.timer);
+      reply({ id: pending.id, success: false, limit: true });
+      pending = undefined;
+    }
+  };
+  proc.on('exit', lost);
+  proc.on('error', lost);
+  child = proc;
+  return proc;
+}
+
+parentPort.on('message', (job) => {
+  if (job.shutdown) {
+    if (child) child.kill('SIGKILL');
+    process.exit(0);
+  }
+
+  const fresh = !child;
+  const proc = child || start();
+  const budget = job.budget + (fresh ? bootMs : 0);
+  pending = { id: job.id, proc, timer: setTimeout(() => proc.kill('SIGKILL'), budget) };
+  proc.send(job);
+});
+`;
+
+// ══════════════════════════════════════════════════════════════════════════
+// WORKER
+// ══════════════════════════════════════════════════════════════════════════
+
+export interface CodecScript {
+  tenantId: string;
+  codecId: string;
+  version: number;
+  script: string;
+}
+
+export interface CodecEntryPoints {
+  decodeUplink: boolean;
+  encodeDownlink: boolean;
+}
+
+interface WorkerReply {
+  id: number;
+  success: boolean;
+  output: string;
+  error?: string;
+  // The sandbox process overran its budget or died at the heap limit
+  limit?: boolean;
+}
+
+interface SandboxWorker {
+  worker: Worker;
+  port: MessagePort;
+  flag: Int32Array;
+}
+
+/**
+ * Runs tenant codec scripts in a separate Node process with its own heap cap.
+ * A worker's resourceLimits are not enough on their own: some allocations
+ * (filling a huge array) hit V8's fatal out-of-memory path, which aborts the
+ * whole process the isolate lives in. A runaway script therefore only takes
+ * the sandbox process down, and it is restarted for the next call.
+ *
+ * decode()/encode() are synchronous in the registry contract, so calls block
+ * the caller (up to the codec budget) on a shared signal that the relay
+ * worker raises once the sandbox process has answered.
+ */
+@Injectable()
+export class CodecSandboxService implements OnModuleDestroy {
+  private readonly logger = new Logger(CodecSandboxService.name);
+
+  // Codecs run inline on the ingestion path — keep them short
+  private readonly timeoutMs = parseInt(
+    process.env.CODEC_SCRIPT_TIMEOUT_MS || '50',
+    10,
+  );
+  private readonly memoryMb = parseInt(
+    process.env.CODEC_SANDBOX_MEMORY_MB || '64',
+    10,
+  );
+  private readonly maxContexts = parseInt(
+    process.env.CODEC_SANDBOX_MAX_CONTEXTS || '200',
+    10,
+  );
+
+  // Slack for the round trip to the sandbox process, and the allowance for a
+  // freshly started worker or process to boot
+  private readonly HOST_GRACE_MS = 100;
+  private readonly BOOT_MS = 5000;
+
+  private current?: SandboxWorker;
+  private nextJobId = 1;
+
+  onModuleDestroy(): void {
+    if (this.current) this.discard(this.current);
+  }
+
+  /** Compiles the script (once per version) and reports what it defines */
+  define(codec: CodecScript): CodecEntryPoints {
+    return JSON.parse(this.request(codec)) as CodecEntryPoints;
+  }
+
+  /** Runs decodeUplink / encodeDownlink and returns its JSON result */
+  call(codec: CodecScript, name: string, input: unknown): string {
+    return this.request(codec, name, JSON.stringify(input));
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private request(codec: CodecScript, name?: string, input?: string): string {
+    const entry = this.current ?? this.spawn();
+    const id = this.nextJobId++;
+    const loadTimeout = this.timeoutMs * 10;
+
+    // A call may first have to (re)compile the codec in the sandbox process
+    const budget = loadTimeout + this.timeoutMs + this.HOST_GRACE_MS;
+
+    Atomics.store(entry.flag, 0, 0);
+    entry.worker.postMessage({
+      id,
+      key: this.keyOf(codec),
+      filename: `${codec.codecId}.js`,
+      script: codec.script,
+      name,
+      input,
+      timeout: this.timeoutMs,
+      loadTimeout,
+      budget,
+    });
+
+    // The relay enforces the budget itself — this wait only guards against
+    // a relay worker that stopped answering
+    Atomics.wait(entry.flag, 0, 0, budget + this.BOOT_MS + this.HOST_GRACE_MS);
+
+    const reply = receiveMessageOnPort(entry.port)?.message as
+      | WorkerReply
+      | undefined;
+    const unanswered = !reply || reply.id !== id;
+    if (unanswered) this.discard(entry);
+    if (unanswered || reply.limit) {
+      throw new Error(
+        `Codec ${codec.codecId} exceeded the ${this.timeoutMs}ms time or ${this.memoryMb}MB memory limit`,
+      );
+    }
+
+    if (!reply.success) throw new Error(reply.error ?? 'Codec script failed');
+    return reply.output;
+  }
+
+  private spawn(): SandboxWorker {
+    const { port1, port2 } = new MessageChannel();
+    const signal = new SharedArrayBuffer(4);
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        port: port2,
+        signal,
+        execPath: process.execPath,
+        args: [`--max-old-space-size=${this.memoryMb}`, '-e', PROCESS_SOURCE],
+        // The sandbox process gets nothing of the backend environment
+        env: {
+          CODEC_PRELUDE,
+          CODEC_MAX_CONTEXTS: String(this.maxContexts),
+        },
+        bootMs: this.BOOT_MS,
+      },
+      transferList: [port2],
+      stdout: true,
+      stderr: true,
+    });
+    worker.unref();
+
+    const entry: SandboxWorker = {
+      worker,
+      port: port1,
+      flag: new Int32Array(signal),
+    };
+
+    worker.on('error', (error: Error) => {
+      this.logger.warn(`Codec sandbox failed: ${error.message}`);
+      this.discard(entry);
+    });
+    worker.on('exit', () => this.discard(entry));
+
+    this.current = entry;
+    return entry;
+  }
+
+  // The relay kills its sandbox process on shutdown; terminate() follows in
+  // case it no longer answers
+  private discard(entry: SandboxWorker): void {
+    if (this.current === entry) this.current = undefined;
+    entry.port.close();
+    entry.worker.postMessage({ shutdown: true });
+    setTimeout(() => void entry.worker.terminate(), this.HOST_GRACE_MS).unref();
+  }
+
+  // One context per tenant and script — identical scripts of two tenants
+  // never share globals
+  private keyOf(codec: CodecScript): string {
+    const digest = createHash('sha1').update(codec.script).digest('hex');
+    return `${codec.tenantId}:${codec.codecId}:${codec.version}:${digest}`;
+  }
+}
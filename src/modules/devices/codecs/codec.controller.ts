@@ -4,12 +4,17 @@ import {
   Controller,
   Get,
   Post,
+  Put,
+  Patch,
+  Delete,
   Body,
   Param,
+  ParseIntPipe,
   UseGuards,
   HttpCode,
   HttpStatus,
   Query,
+  NotFoundException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -24,14 +29,28 @@ import { RolesGuard } from '@/common/guards/roles.guard';
 import { Roles } from '@/common/decorators/roles.decorator';
 import { UserRole } from '@common/enums/index.enum';
 import { CodecRegistryService } from './codec-registry.service';
+import { CustomCodecsService } from './custom-codecs.service';
+import {
+  CreateCustomCodecDto,
+  CustomCodecVersionDto,
+  TestCustomCodecDto,
+  TestDraftCodecDto,
+  UpdateCustomCodecDto,
+} from './dto/custom-codec.dto';
 import { SwaggerAuth } from '@/common/decorators/access-control.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+import { ParseIdPipe } from '@/common/pipes/parse-id.pipe';
+import { User } from '@modules/users/entities/user.entity';
 
 @ApiTags('Codecs')
 @Controller('codecs')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @ApiBearerAuth()
 export class CodecController {
-  constructor(private readonly codecRegistry: CodecRegistryService) {}
+  constructor(
+    private readonly codecRegistry: CodecRegistryService,
+    private readonly customCodecs: CustomCodecsService,
+  ) {}
 
   // ── Catalog endpoints (called by the "Add Device" form) ───────────────────
 
@@ -49,9 +68,9 @@ export class CodecController {
   @Roles(UserRole.USER, UserRole.TENANT_ADMIN, UserRole.SUPER_ADMIN, UserRole.CUSTOMER_USER, UserRole.CUSTOMER)
   @ApiOperation({ summary: 'List all manufacturers that have registered codecs' })
   @ApiResponse({ status: 200, description: 'Manufacturer list' })
-  listManufacturers() {
+  listManufacturers(@CurrentUser() user: User) {
     return {
-      data: this.codecRegistry.listManufacturers(),
+      data: this.codecRegistry.listManufacturers(user.tenantId),
     };
   }
 
@@ -78,10 +97,16 @@ export class CodecController {
   @ApiOperation({ summary: 'List models available for a manufacturer' })
   @ApiParam({ name: 'manufacturer', example: 'Milesight' })
   @ApiResponse({ status: 200, description: 'Model list for manufacturer' })
-  listModelsForManufacturer(@Param('manufacturer') manufacturer: string) {
+  listModelsForManufacturer(
+    @CurrentUser() user: User,
+    @Param('manufacturer') manufacturer: string,
+  ) {
     return {
       manufacturer,
-      data: this.codecRegistry.listModelsForManufacturer(manufacturer),
+      data: this.codecRegistry.listModelsForManufacturer(
+        manufacturer,
+        user.tenantId,
+      ),
     };
   }
 
@@ -94,18 +119,18 @@ export class CodecController {
   @Get('catalog')
   @Roles(UserRole.TENANT_ADMIN, UserRole.SUPER_ADMIN)
   @ApiOperation({ summary: 'Full codec catalog grouped by manufacturer' })
-  getCatalog() {
+  getCatalog(@CurrentUser() user: User) {
     return {
-      data: this.codecRegistry.getCatalog(),
+      data: this.codecRegistry.getCatalog(user.tenantId),
     };
   }
 
   @Get('capabilities')
 @ApiOperation({ summary: 'Get capabilities for all registered codecs' })
-getAllCapabilities() {
+getAllCapabilities(@CurrentUser() user: User) {
   return {
     message: 'All codec capabilities',
-    data: this.codecRegistry.getAllCapabilities(),
+    data: this.codecRegistry.getAllCapabilities(user.tenantId),
   };
 }
 
@@ -121,10 +146,16 @@ getAllCapabilities() {
 @Roles(UserRole.USER, UserRole.TENANT_ADMIN, UserRole.SUPER_ADMIN, UserRole.CUSTOMER_USER, UserRole.CUSTOMER)
 @ApiOperation({ summary: 'List product categories available for a manufacturer' })
 @ApiParam({ name: 'manufacturer', example: 'Milesight' })
-listCategoriesForManufacturer(@Param('manufacturer') manufacturer: string) {
+listCategoriesForManufacturer(
+  @CurrentUser() user: User,
+  @Param('manufacturer') manufacturer: string,
+) {
   return {
     manufacturer,
-    data: this.codecRegistry.listCategoriesForManufacturer(manufacturer),
+    data: this.codecRegistry.listCategoriesForManufacturer(
+      manufacturer,
+      user.tenantId,
+    ),
   };
 }
 
@@ -159,13 +190,18 @@ listCategoriesForManufacturer(@Param('manufacturer') manufacturer: string) {
 @ApiParam({ name: 'manufacturer', example: 'Milesight' })
 @ApiQuery({ name: 'category', required: false, example: 'Ambience Monitoring' })
 listModelFamiliesForManufacturer(
+  @CurrentUser() user: User,
   @Param('manufacturer') manufacturer: string,
   @Query('category') category?: string,
 ) {
   return {
     manufacturer,
     ...(category && { category }),
-    data: this.codecRegistry.listModelFamiliesForManufacturer(manufacturer, category),
+    data: this.codecRegistry.listModelFamiliesForManufacturer(
+      manufacturer,
+      category,
+      user.tenantId,
+    ),
   };
 }
 
@@ -178,9 +214,9 @@ listModelFamiliesForManufacturer(
 @Get('catalog/v2')
 @Roles(UserRole.TENANT_ADMIN, UserRole.SUPER_ADMIN)
 @ApiOperation({ summary: 'Full structured catalog grouped by manufacturer, category, and model family' })
-getStructuredCatalog() {
+getStructuredCatalog(@CurrentUser() user: User) {
   return {
-    data: this.codecRegistry.getStructuredCatalog(),
+    data: this.codecRegistry.getStructuredCatalog(user.tenantId),
   };
 }
 
@@ -190,8 +226,10 @@ getStructuredCatalog() {
   @Get()
   @Roles(UserRole.TENANT_ADMIN, UserRole.SUPER_ADMIN)
   @ApiOperation({ summary: 'List all registered codecs (raw)' })
-  listCodecs() {
-    const codecs = this.codecRegistry.listCodecs();
+  listCodecs(@CurrentUser() user: User) {
+    const codecs = this.codecRegistry.listCodecs(
+      user.role === UserRole.SUPER_ADMIN ? null : user.tenantId,
+    );
     return { data: codecs, total: codecs.length };
   }
 
@@ -200,6 +238,7 @@ getStructuredCatalog() {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Test-decode a payload' })
   testDecode(
+    @CurrentUser() user: User,
     @Body()
     body: {
       payload: string;
@@ -209,6 +248,7 @@ getStructuredCatalog() {
       fPort?: number;
     },
   ) {
+    if (body.codecId) this.assertVisible(user, body.codecId);
     const decoded = this.codecRegistry.decode(body.payload, {
       codecId: body.codecId,
       manufacturer: body.manufacturer,
@@ -223,12 +263,14 @@ getStructuredCatalog() {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Test-encode a command' })
   testEncode(
+    @CurrentUser() user: User,
     @Body()
     body: {
       codecId: string;
       command: { type: string; params?: any };
     },
   ) {
+    this.assertVisible(user, body.codecId);
     const encoded = this.codecRegistry.encode(body.command, { codecId: body.codecId });
     return { data: encoded };
   }
@@ -249,4 +291,146 @@ getStructuredCatalog() {
       },
     };
   }
-}
\ No newline at end of file
+
+  // ── Custom codecs (tenant uploads) ────────────────────────────────────────
+  //
+  // Sandboxed TTN / ChirpStack decodeUplink / encodeDownlink scripts or
+  // declarative byte layouts, versioned per codec. The active version is
+  // registered like a built-in codec and listed in the tenant's catalog.
+
+  @Get('custom')
+  @Roles(UserRole.TENANT_ADMIN)
+  @ApiOperation({ summary: "List the tenant's uploaded codecs" })
+  async listCustomCodecs(@CurrentUser() user: User) {
+    return { data: await this.customCodecs.findAll(user.tenantId) };
+  }
+
+  @Post('custom')
+  @Roles(UserRole.TENANT_ADMIN)
+  @ApiOperation({ summary: 'Upload a codec (version 1)' })
+  @ApiResponse({ status: 400, description: 'Invalid code or failing samples' })
+  @ApiResponse({ status: 409, description: 'Codec id already in use' })
+  async createCustomCodec(
+    @CurrentUser() user: User,
+    @Body() dto: CreateCustomCodecDto,
+  ) {
+    return {
+      message: 'Codec uploaded successfully',
+      data: await this.customCodecs.create(user.tenantId, user.id, dto),
+    };
+  }
+
+  /**
+   * POST /codecs/custom/test
+   *
+   * Test harness for an unsaved upload: decodes the sample payloads (and
+   * optionally encodes a command) without storing or registering anything.
+   */
+  @Post('custom/test')
+  @Roles(UserRole.TENANT_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Test an unsaved codec against sample payloads' })
+  testDraftCodec(@CurrentUser() user: User, @Body() dto: TestDraftCodecDto) {
+    return { data: this.customCodecs.testDraft(user.tenantId, dto) };
+  }
+
+  @Get('custom/:id')
+  @Roles(UserRole.TENANT_ADMIN)
+  @ApiOperation({ summary: 'Get an uploaded codec with its versions' })
+  async getCustomCodec(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+  ) {
+    return { data: await this.customCodecs.findOne(user.tenantId, id) };
+  }
+
+  @Patch('custom/:id')
+  @Roles(UserRole.TENANT_ADMIN)
+  @ApiOperation({ summary: 'Update catalog fields or enable/disable a codec' })
+  async updateCustomCodec(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body() dto: UpdateCustomCodecDto,
+  ) {
+    return {
+      message: 'Codec updated successfully',
+      data: await this.customCodecs.update(user.tenantId, id, user.id, dto),
+    };
+  }
+
+  @Delete('custom/:id')
+  @Roles(UserRole.TENANT_ADMIN)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an uploaded codec and all its versions' })
+  async removeCustomCodec(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+  ) {
+    await this.customCodecs.remove(user.tenantId, id);
+  }
+
+  @Post('custom/:id/versions')
+  @Roles(UserRole.TENANT_ADMIN)
+  @ApiOperation({ summary: 'Upload a new version of a codec' })
+  @ApiResponse({ status: 400, description: 'Invalid code or failing samples' })
+  async addCustomCodecVersion(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body() dto: CustomCodecVersionDto,
+  ) {
+    return {
+      message: 'Codec version uploaded successfully',
+      data: await this.customCodecs.addVersion(user.tenantId, id, user.id, dto),
+    };
+  }
+
+  @Put('custom/:id/versions/:version/activate')
+  @Roles(UserRole.TENANT_ADMIN)
+  @ApiOperation({ summary: 'Activate a stored version (rollback)' })
+  async activateCustomCodecVersion(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return {
+      message: `Version ${version} activated`,
+      data: await this.customCodecs.activateVersion(
+        user.tenantId,
+        id,
+        version,
+        user.id,
+      ),
+    };
+  }
+
+  /**
+   * POST /codecs/custom/:id/test
+   *
+   * Decodes the stored samples of a version (default: active) or the given
+   * ones and reports, per sample, the output, warnings/errors and any
+   * mismatch with the expected values.
+   */
+  @Post('custom/:id/test')
+  @Roles(UserRole.TENANT_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Run a codec version against sample payloads' })
+  async testCustomCodec(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body() dto: TestCustomCodecDto,
+  ) {
+    return { data: await this.customCodecs.test(user.tenantId, id, dto) };
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private assertVisible(user: User, codecId: string): void {
+    if (
+      user.role !== UserRole.SUPER_ADMIN &&
+      this.codecRegistry.getCodec(codecId) &&
+      !this.codecRegistry.isVisible(codecId, user.tenantId)
+    ) {
+      throw new NotFoundException(`Codec not found: ${codecId}`);
+    }
+  }
+}
@@ -1,8 +1,15 @@
 // src/modules/devices/codecs/codec.module.ts
 
 import { Module, Global } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { CodecRegistryService } from './codec-registry.service';
 import { CodecController      } from './codec.controller';
+import { CustomCodecsService } from './custom-codecs.service';
+import { CodecSandboxService } from './codec-sandbox.service';
+import { CommandValidationService } from './command-validation.service';
+import { Device } from '../entities/device.entity';
+import { CustomCodec } from './entities/custom-codec.entity';
+import { CustomCodecVersion } from './entities/custom-codec-version.entity';
 
 // WS family
 import { MilesightWS558Codec  } from './milesight/ws/ws558.codec';
@@ -298,8 +305,14 @@ MilesightAM319O3Codec,
 
 @Global()
 @Module({
+  imports: [
+    TypeOrmModule.forFeature([CustomCodec, CustomCodecVersion, Device]),
+  ],
   providers: [
     CodecRegistryService,
+    CodecSandboxService,
+    CustomCodecsService,
+    CommandValidationService,
     ...ALL_CODECS,
     {
       provide: 'CODEC_INITIALIZER',
@@ -311,6 +324,10 @@ MilesightAM319O3Codec,
     },
   ],
   controllers: [CodecController],
-  exports: [CodecRegistryService],
+  exports: [
+    CodecRegistryService,
+    CustomCodecsService,
+    CommandValidationService,
+  ],
 })
 export class CodecModule {}
\ No newline at end of file
@@ -0,0 +1,258 @@
+// src/modules/devices/codecs/command-validation.service.ts
+
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Device } from '../entities/device.entity';
+import { CodecRegistryService } from './codec-registry.service';
+import {
+  CommandDef,
+  CommandParamDef,
+  DeviceCapability,
+} from '@/common/interfaces/device-capability.interface';
+
+export interface CommandCheck {
+  params: Record<string, any>; // coerced
+  errors: string[];
+}
+
+export interface DeviceCommandSchema {
+  codecId: string | null;
+  // false → the codec declares no commands, anything is passed through
+  validated: boolean;
+  commands: CommandDef[];
+}
+
+/**
+ * Checks downlink commands against the device codec's
+ * getCapabilities().commands before they reach encode(). Params are coerced
+ * to the declared types ("60" → 60, "true" → true, select labels → values)
+ * and every violation is reported at once.
+ *
+ * Devices without a codec, or whose codec declares no commands (generic
+ * MQTT/HTTP devices), are not validated.
+ */
+@Injectable()
+export class CommandValidationService {
+  constructor(
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    private readonly codecRegistry: CodecRegistryService,
+  ) {}
+
+  // ── Schema ────────────────────────────────────────────────────────────────
+
+  /** Resolution priority: metadata.codecId → manufacturer + model */
+  getDeviceCapabilities(device: Device): DeviceCapability | null {
+    const codecId = device.metadata?.codecId as string | undefined;
+    const manufacturer =
+      (device.metadata?.manufacturer as string | undefined) ??
+      device.manufacturer;
+    const model =
+      (device.metadata?.model as string | undefined) ?? device.model;
+
+    return (
+      (codecId ? this.codecRegistry.getCapabilities(codecId) : null) ??
+      (manufacturer && model
+        ? this.codecRegistry.getCapabilitiesByModel(
+            manufacturer,
+            model,
+            device.tenantId,
+          )
+        : null)
+    );
+  }
+
+  getCommandSchema(device: Device): DeviceCommandSchema {
+    const capabilities = this.getDeviceCapabilities(device);
+    const commands = capabilities?.commands ?? [];
+    return {
+      codecId: capabilities?.codecId ?? null,
+      validated: commands.length > 0,
+      commands,
+    };
+  }
+
+  async getCommandSchemaForDevice(
+    deviceId: string,
+    tenantId: string | undefined,
+  ): Promise<DeviceCommandSchema> {
+    return this.getCommandSchema(await this.findDevice(deviceId, tenantId));
+  }
+
+  // ── Validation ────────────────────────────────────────────────────────────
+
+  /** Coerced params, or a 400 listing every violation */
+  validate(
+    device: Device,
+    commandType: string,
+    params: Record<string, any> = {},
+  ): Record<string, any> {
+    const { params: coerced, errors } = this.check(device, commandType, params);
+    if (errors.length) throw new BadRequestException(errors);
+    return coerced;
+  }
+
+  async validateForDevice(
+    deviceId: string,
+    tenantId: string | undefined,
+    commandType: string,
+    params: Record<string, any> = {},
+  ): Promise<Record<string, any>> {
+    const device = await this.findDevice(deviceId, tenantId);
+    return this.validate(device, commandType, params);
+  }
+
+  /**
+   * Automation actions carry a single `value`: an object is the params, a
+   * scalar fills the command's only parameter.
+   */
+  validateAction(
+    device: Device,
+    commandType: string,
+    value: unknown,
+  ): Record<string, any> {
+    const def = this.findCommand(device, commandType);
+
+    let params: Record<string, any> = {};
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      params = value as Record<string, any>;
+    } else if (value !== undefined && value !== null) {
+      if (def && def.params.length !== 1) {
+        throw new BadRequestException([
+          `${commandType} takes ${def.params.length} parameters — set the action value to an object`,
+        ]);
+      }
+      params = def ? { [def.params[0].key]: value } : { value };
+    }
+
+    return this.validate(device, commandType, params);
+  }
+
+  check(
+    device: Device,
+    commandType: string,
+    params: Record<string, any> = {},
+  ): CommandCheck {
+    const schema = this.getCommandSchema(device);
+    if (!schema.validated) return { params, errors: [] };
+
+    const def = schema.commands.find((c) => c.type === commandType);
+    if (!def) {
+      return {
+        params,
+        errors: [
+          `Unknown command "${commandType}" for ${schema.codecId} — expected one of: ${schema.commands.map((c) => c.type).join(', ')}`,
+        ],
+      };
+    }
+
+    const errors: string[] = [];
+    const coerced: Record<string, any> = {};
+    const known = new Set(def.params.map((p) => p.key));
+
+    for (const key of Object.keys(params)) {
+      if (!known.has(key))
+        errors.push(`${key} is not a parameter of ${def.type}`);
+    }
+
+    for (const param of def.params) {
+      const raw: unknown = params[param.key];
+
+      if (raw === undefined || raw === null || raw === '') {
+        const fallback: unknown = param.default;
+        if (fallback !== undefined) coerced[param.key] = fallback;
+        else if (param.required) errors.push(`${param.key} is required`);
+        continue;
+      }
+
+      const result = this.coerce(param, raw);
+      if ('error' in result) errors.push(result.error);
+      else coerced[param.key] = result.value;
+    }
+
+    return { params: coerced, errors };
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private findCommand(
+    device: Device,
+    commandType: string,
+  ): CommandDef | undefined {
+    return this.getCommandSchema(device).commands.find(
+      (c) => c.type === commandType,
+    );
+  }
+
+  private async findDevice(
+    deviceId: string,
+    tenantId: string | undefined,
+  ): Promise<Device> {
+    const device = await this.deviceRepository.findOne({
+      where: { id: deviceId, tenantId },
+    });
+    if (!device) throw new NotFoundException('Device not found');
+    return device;
+  }
+
+  private coerce(
+    param: CommandParamDef,
+    raw: unknown,
+  ): { value: unknown } | { error: string } {
+    switch (param.type) {
+      case 'number': {
+        const value =
+          typeof raw === 'number'
+            ? raw
+            : typeof raw === 'string' && raw.trim() !== ''
+              ? Number(raw)
+              : NaN;
+        if (!Number.isFinite(value)) {
+          return { error: `${param.key} must be a number` };
+        }
+        if (param.min !== undefined && value < param.min) {
+          return { error: `${param.key} must be at least ${param.min}` };
+        }
+        if (param.max !== undefined && value > param.max) {
+          return { error: `${param.key} must be at most ${param.max}` };
+        }
+        return { value };
+      }
+
+      case 'boolean':
+        if (raw === true || raw === 1 || raw === 'true' || raw === '1') {
+          return { value: true };
+        }
+        if (raw === false || raw === 0 || raw === 'false' || raw === '0') {
+          return { value: false };
+        }
+        return { error: `${param.key} must be a boolean` };
+
+      case 'select': {
+        const options = param.options ?? [];
+        const option =
+          options.find((o) => o.value === raw) ??
+          options.find(
+            (o) => String(o.value) === String(raw) || o.label === raw,
+          );
+        if (!option) {
+          return {
+            error: `${param.key} must be one of: ${options.map((o) => String(o.value)).join(', ')}`,
+          };
+        }
+        return { value: option.value };
+      }
+
+      default:
+        if (typeof raw === 'object') {
+          return { error: `${param.key} must be a string` };
+        }
+        return { value: String(raw as string | number | boolean) };
+    }
+  }
+}
@@ -0,0 +1,486 @@
+// src/modules/devices/codecs/custom-codecs.service.ts
+
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { RedisService } from '@/lib/redis/redis.service';
+import { CodecRegistryService } from './codec-registry.service';
+import { CodecSandboxService } from './codec-sandbox.service';
+import { CustomCodec } from './entities/custom-codec.entity';
+import { CustomCodecVersion } from './entities/custom-codec-version.entity';
+import { CustomDeviceCodec } from './custom/custom.codec';
+import { ScriptDeviceCodec } from './custom/script.codec';
+import { LayoutDeviceCodec } from './custom/layout.codec';
+import { CodecSample, SampleResult } from './interfaces/custom-codec.interface';
+import {
+  CreateCustomCodecDto,
+  CustomCodecVersionDto,
+  TestCustomCodecDto,
+  TestDraftCodecDto,
+  UpdateCustomCodecDto,
+} from './dto/custom-codec.dto';
+
+// Every instance keeps its own registry — changes are broadcast so they all
+// re-register the codec
+const CHANGED_CHANNEL = 'codecs:custom:changed';
+
+export interface CodecTestReport {
+  codecId: string;
+  version?: number;
+  passed: number;
+  failed: number;
+  results: SampleResult[];
+  command?: {
+    success: boolean;
+    fPort?: number;
+    data?: string;
+    warnings: string[];
+    errors: string[];
+  };
+}
+
+@Injectable()
+export class CustomCodecsService implements OnModuleInit {
+  private readonly logger = new Logger(CustomCodecsService.name);
+
+  constructor(
+    @InjectRepository(CustomCodec)
+    private readonly codecRepository: Repository<CustomCodec>,
+    @InjectRepository(CustomCodecVersion)
+    private readonly versionRepository: Repository<CustomCodecVersion>,
+    private readonly codecRegistry: CodecRegistryService,
+    private readonly redisService: RedisService,
+    private readonly codecSandbox: CodecSandboxService,
+  ) {}
+
+  // Built-in codecs are registered while providers are created, so by now
+  // an id clash with one of them can be detected
+  async onModuleInit(): Promise<void> {
+    try {
+      const codecs = await this.codecRepository.find({
+        where: { enabled: true },
+      });
+      for (const codec of codecs) await this.reload(codec.id, codec.codecId);
+      this.logger.log(`Loaded ${codecs.length} custom codec(s)`);
+    } catch (err) {
+      this.logger.error(
+        `Loading custom codecs failed: ${(err as Error).message}`,
+      );
+    }
+
+    await this.redisService
+      .subscribe(CHANGED_CHANNEL, (message) => {
+        const { id, codecId } = JSON.parse(message) as {
+          id: string;
+          codecId: string;
+        };
+        void this.reload(id, codecId);
+      })
+      .catch((err: Error) =>
+        this.logger.error(`Codec change subscription failed: ${err.message}`),
+      );
+  }
+
+  // ── Queries ───────────────────────────────────────────────────────────────
+
+  async findAll(tenantId: string | undefined) {
+    const codecs = await this.codecRepository.find({
+      where: { tenantId: this.requireTenant(tenantId) },
+      order: { name: 'ASC' },
+    });
+    return codecs.map((codec) => ({
+      ...codec,
+      registered: !!this.codecRegistry.getCodec(codec.codecId),
+    }));
+  }
+
+  async findOne(tenantId: string | undefined, id: string) {
+    const codec = await this.getOwned(tenantId, id);
+    const versions = await this.versionRepository.find({
+      where: { customCodecId: codec.id },
+      order: { version: 'DESC' },
+    });
+    return {
+      ...codec,
+      versions,
+      registered: !!this.codecRegistry.getCodec(codec.codecId),
+    };
+  }
+
+  // ── Upload ────────────────────────────────────────────────────────────────
+
+  async create(
+    tenantId: string | undefined,
+    userId: string,
+    dto: CreateCustomCodecDto,
+  ): Promise<CustomCodec> {
+    const owner = this.requireTenant(tenantId);
+
+    const taken =
+      this.codecRegistry.getCodec(dto.codecId) ||
+      (await this.codecRepository.exists({
+        where: { codecId: dto.codecId },
+        withDeleted: true,
+      }));
+    if (taken) {
+      throw new ConflictException(
+        `Codec id "${dto.codecId}" is already in use`,
+      );
+    }
+
+    const codec = this.codecRepository.create({
+      tenantId: owner,
+      codecId: dto.codecId,
+      name: dto.name,
+      manufacturer: dto.manufacturer,
+      supportedModels: dto.supportedModels,
+      protocol: dto.protocol ?? 'lorawan',
+      category: dto.category,
+      description: dto.description,
+      activeVersion: 1,
+      enabled: dto.activate ?? true,
+      createdBy: userId,
+    });
+    const version = this.versionRepository.create({
+      version: 1,
+      ...this.versionFields(dto),
+      createdBy: userId,
+    });
+    this.verify(codec, version);
+
+    const saved = await this.codecRepository.save(codec);
+    await this.versionRepository.save({ ...version, customCodecId: saved.id });
+    await this.changed(saved);
+
+    return saved;
+  }
+
+  async update(
+    tenantId: string | undefined,
+    id: string,
+    userId: string,
+    dto: UpdateCustomCodecDto,
+  ): Promise<CustomCodec> {
+    const codec = await this.getOwned(tenantId, id);
+
+    Object.assign(codec, dto);
+    codec.updatedBy = userId;
+    if (codec.enabled) {
+      this.verify(codec, await this.getVersion(codec, codec.activeVersion));
+    }
+
+    const saved = await this.codecRepository.save(codec);
+    await this.changed(saved);
+    return saved;
+  }
+
+  /** New code is a new version — activated unless dto.activate is false */
+  async addVersion(
+    tenantId: string | undefined,
+    id: string,
+    userId: string,
+    dto: CustomCodecVersionDto,
+  ): Promise<CustomCodecVersion> {
+    const codec = await this.getOwned(tenantId, id);
+
+    const latest = await this.versionRepository.findOne({
+      where: { customCodecId: codec.id },
+      order: { version: 'DESC' },
+    });
+    const version = this.versionRepository.create({
+      customCodecId: codec.id,
+      version: (latest?.version ?? 0) + 1,
+      ...this.versionFields(dto),
+      createdBy: userId,
+    });
+    this.verify(codec, version);
+
+    const saved = await this.versionRepository.save(version);
+    if (dto.activate ?? true) {
+      codec.activeVersion = saved.version;
+      codec.updatedBy = userId;
+      await this.codecRepository.save(codec);
+      await this.changed(codec);
+    }
+
+    return saved;
+  }
+
+  /** Switch the registered code to another stored version (rollback) */
+  async activateVersion(
+    tenantId: string | undefined,
+    id: string,
+    versionNumber: number,
+    userId: string,
+  ): Promise<CustomCodec> {
+    const codec = await this.getOwned(tenantId, id);
+    const version = await this.getVersion(codec, versionNumber);
+    this.verify(codec, version);
+
+    codec.activeVersion = version.version;
+    codec.updatedBy = userId;
+    const saved = await this.codecRepository.save(codec);
+    await this.changed(saved);
+    return saved;
+  }
+
+  /** Devices still pointing at the codec fall back to raw payloads */
+  async remove(tenantId: string | undefined, id: string): Promise<void> {
+    const codec = await this.getOwned(tenantId, id);
+    await this.codecRepository.remove(codec);
+    await this.changed({ ...codec, id });
+  }
+
+  // ── Test harness ──────────────────────────────────────────────────────────
+
+  /** Run a stored version against its samples (or the given ones) */
+  async test(
+    tenantId: string | undefined,
+    id: string,
+    dto: TestCustomCodecDto,
+  ): Promise<CodecTestReport> {
+    const codec = await this.getOwned(tenantId, id);
+    const version = await this.getVersion(
+      codec,
+      dto.version ?? codec.activeVersion,
+    );
+
+    return this.report(
+      this.build(codec, version),
+      dto.samples ?? version.samples,
+      dto.command,
+    );
+  }
+
+  /** Try an unsaved upload — nothing is stored or registered */
+  testDraft(
+    tenantId: string | undefined,
+    dto: TestDraftCodecDto,
+  ): CodecTestReport {
+    const codec = this.codecRepository.create({
+      tenantId: this.requireTenant(tenantId),
+      codecId: 'draft',
+      name: 'draft',
+      manufacturer: 'Draft',
+      supportedModels: [],
+      protocol: 'other',
+    });
+    const version = this.versionRepository.create({
+      version: 0,
+      ...this.versionFields(dto),
+    });
+
+    return this.report(
+      this.build(codec, version),
+      version.samples,
+      dto.command,
+    );
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private requireTenant(tenantId: string | undefined): string {
+    if (!tenantId) {
+      throw new BadRequestException('Custom codecs must belong to a tenant');
+    }
+    return tenantId;
+  }
+
+  private async getOwned(
+    tenantId: string | undefined,
+    id: string,
+  ): Promise<CustomCodec> {
+    const codec = await this.codecRepository.findOne({
+      where: { id, tenantId: this.requireTenant(tenantId) },
+    });
+    if (!codec) throw new NotFoundException('Codec not found');
+    return codec;
+  }
+
+  private async getVersion(
+    codec: CustomCodec,
+    version: number,
+  ): Promise<CustomCodecVersion> {
+    const found = await this.versionRepository.findOne({
+      where: { customCodecId: codec.id, version },
+    });
+    if (!found) {
+      throw new NotFoundException(
+        `Version ${version} of ${codec.codecId} not found`,
+      );
+    }
+    return found;
+  }
+
+  private versionFields(
+    dto: CustomCodecVersionDto,
+  ): Partial<CustomCodecVersion> {
+    return {
+      type: dto.type,
+      script: dto.type === 'SCRIPT' ? dto.script : undefined,
+      layout: dto.type === 'LAYOUT' ? dto.layout : undefined,
+      capabilities: dto.capabilities,
+      samples: dto.samples ?? [],
+      changelog: dto.changelog,
+    };
+  }
+
+  private build(
+    codec: CustomCodec,
+    version: CustomCodecVersion,
+  ): CustomDeviceCodec {
+    const definition = {
+      codecId: codec.codecId,
+      tenantId: codec.tenantId,
+      version: version.version,
+      manufacturer: codec.manufacturer,
+      supportedModels: codec.supportedModels,
+      protocol: codec.protocol,
+      category: codec.category ?? undefined,
+      description: codec.description ?? undefined,
+      type: version.type,
+      script: version.script ?? undefined,
+      layout: version.layout ?? undefined,
+      capabilities: version.capabilities ?? undefined,
+    };
+
+    try {
+      return version.type === 'LAYOUT'
+        ? new LayoutDeviceCodec(definition)
+        : new ScriptDeviceCodec(definition, this.codecSandbox);
+    } catch (err) {
+      throw new BadRequestException(`Invalid codec: ${(err as Error).message}`);
+    }
+  }
+
+  /** A version is only stored or activated when it builds and its samples pass */
+  private verify(codec: CustomCodec, version: CustomCodecVersion): void {
+    const report = this.report(this.build(codec, version), version.samples);
+    if (report.failed > 0) {
+      throw new BadRequestException({
+        message: `${report.failed} sample payload(s) failed`,
+        results: report.results,
+      });
+    }
+  }
+
+  private report(
+    instance: CustomDeviceCodec,
+    samples: CodecSample[],
+    command?: { type: string; params?: any },
+  ): CodecTestReport {
+    const results = samples.map((sample) => this.runSample(instance, sample));
+    const passed = results.filter((r) => r.success).length;
+
+    return {
+      codecId: instance.codecId,
+      version: instance.version || undefined,
+      passed,
+      failed: results.length - passed,
+      results,
+      ...(command && { command: this.runCommand(instance, command) }),
+    };
+  }
+
+  private runSample(
+    instance: CustomDeviceCodec,
+    sample: CodecSample,
+  ): SampleResult {
+    const startedAt = Date.now();
+    const base = { name: sample.name, fPort: sample.fPort };
+
+    try {
+      const { data, warnings, errors } = instance.decodePayload(
+        sample.payload,
+        sample.fPort,
+      );
+      const mismatches = Object.entries(sample.expected ?? {})
+        .filter(
+          ([key, value]) => JSON.stringify(data[key]) !== JSON.stringify(value),
+        )
+        .map(([key]) => key);
+
+      return {
+        ...base,
+        success: !errors.length && !mismatches.length,
+        data,
+        warnings,
+        errors,
+        ...(sample.expected && { mismatches }),
+        executionTime: Date.now() - startedAt,
+      };
+    } catch (err) {
+      return {
+        ...base,
+        success: false,
+        warnings: [],
+        errors: [(err as Error).message],
+        executionTime: Date.now() - startedAt,
+      };
+    }
+  }
+
+  private runCommand(
+    instance: CustomDeviceCodec,
+    command: { type: string; params?: any },
+  ): CodecTestReport['command'] {
+    try {
+      const { fPort, data, warnings } = instance.encodeDownlink(command);
+      return { success: true, fPort, data, warnings, errors: [] };
+    } catch (err) {
+      return {
+        success: false,
+        warnings: [],
+        errors: [(err as Error).message],
+      };
+    }
+  }
+
+  /** Re-register (or drop) one codec from its stored state */
+  private async reload(id: string, codecId: string): Promise<void> {
+    try {
+      const codec = await this.codecRepository.findOne({ where: { id } });
+      if (!codec?.enabled) {
+        this.codecRegistry.unregisterCodec(codecId);
+        return;
+      }
+
+      const existing = this.codecRegistry.getCodec(codec.codecId);
+      if (existing && existing.tenantId !== codec.tenantId) {
+        this.logger.warn(
+          `Custom codec ${codec.codecId} clashes with a registered codec — skipped`,
+        );
+        return;
+      }
+
+      const version = await this.getVersion(codec, codec.activeVersion);
+      this.codecRegistry.registerCodec(this.build(codec, version));
+    } catch (err) {
+      this.codecRegistry.unregisterCodec(codecId);
+      this.logger.error(
+        `Custom codec ${codecId} not loaded: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  private async changed(codec: Pick<CustomCodec, 'id' | 'codecId'>) {
+    await this.reload(codec.id, codec.codecId);
+    await this.redisService
+      .publish(
+        CHANGED_CHANNEL,
+        JSON.stringify({ id: codec.id, codecId: codec.codecId }),
+      )
+      .catch((err: Error) =>
+        this.logger.warn(`Codec change broadcast failed: ${err.message}`),
+      );
+  }
+}
@@ -0,0 +1,93 @@
+// src/modules/devices/codecs/custom/custom.codec.ts
+
+import { DeviceCapability } from '@/common/interfaces/device-capability.interface';
+import {
+  BaseDeviceCodec,
+  DecodedTelemetry,
+  EncodedCommand,
+} from '../interfaces/base-codec.interface';
+import {
+  CustomCodecCapabilities,
+  CustomCodecDefinition,
+  UplinkResult,
+} from '../interfaces/custom-codec.interface';
+
+/**
+ * Base for tenant-uploaded codecs. Subclasses return the full TTN-style
+ * { data, warnings, errors } result; decode()/encode() adapt it to the
+ * registry contract and throw on errors so the registry falls back to raw.
+ *
+ * canDecode() is always false — like the generic JSON codec, a custom codec
+ * is only used when a device names it in metadata.codecId, so one tenant's
+ * codec never auto-detects another tenant's payloads.
+ */
+export abstract class CustomDeviceCodec extends BaseDeviceCodec {
+  readonly codecId: string;
+  readonly tenantId: string;
+  readonly version: number;
+  readonly manufacturer: string;
+  readonly supportedModels: string[];
+  readonly protocol: CustomCodecDefinition['protocol'];
+  readonly category?: string;
+  readonly description?: string;
+
+  constructor(protected readonly definition: CustomCodecDefinition) {
+    super();
+    this.codecId = definition.codecId;
+    this.tenantId = definition.tenantId;
+    this.version = definition.version;
+    this.manufacturer = definition.manufacturer;
+    this.supportedModels = definition.supportedModels;
+    this.protocol = definition.protocol;
+    this.category = definition.category;
+    this.description = definition.description;
+  }
+
+  abstract decodeUplink(bytes: number[], fPort?: number): UplinkResult;
+
+  abstract encodeDownlink(command: {
+    type: string;
+    params?: any;
+  }): EncodedCommand & { warnings: string[] };
+
+  /** Hex / base64 / raw payload → TTN-style result (test harness) */
+  decodePayload(payload: string | Buffer, fPort?: number): UplinkResult {
+    return this.decodeUplink(this.normalizePayload(payload), fPort);
+  }
+
+  decode(payload: string | Buffer, fPort?: number): DecodedTelemetry {
+    const result = this.decodePayload(payload, fPort);
+    if (result.errors.length) throw new Error(result.errors.join('; '));
+    return result.data;
+  }
+
+  encode(command: { type: string; params?: any }): EncodedCommand {
+    const { fPort, data, confirmed } = this.encodeDownlink(command);
+    return { fPort, data, confirmed };
+  }
+
+  canDecode(): boolean {
+    return false;
+  }
+
+  getCapabilities(): DeviceCapability {
+    const capabilities = {
+      ...this.defaultCapabilities(),
+      ...this.definition.capabilities,
+    };
+    return {
+      codecId: this.codecId,
+      manufacturer: this.manufacturer,
+      model: this.supportedModels[0] ?? this.codecId,
+      description: this.description ?? '',
+      telemetryKeys: capabilities.telemetryKeys ?? [],
+      commands: capabilities.commands ?? [],
+      uiComponents: capabilities.uiComponents ?? [],
+    };
+  }
+
+  /** What the codec can describe about itself when the upload does not */
+  protected defaultCapabilities(): CustomCodecCapabilities {
+    return {};
+  }
+}
@@ -0,0 +1,273 @@
+// src/modules/devices/codecs/custom/layout.codec.ts
+
+import { EncodedCommand } from '../interfaces/base-codec.interface';
+import {
+  CodecLayout,
+  CustomCodecCapabilities,
+  CustomCodecDefinition,
+  LayoutCommandParam,
+  LayoutField,
+  LayoutUplink,
+  LayoutValueType,
+  UplinkResult,
+} from '../interfaces/custom-codec.interface';
+import { CustomDeviceCodec } from './custom.codec';
+
+const INT_SIZES: Partial<Record<LayoutValueType, number>> = {
+  uint8: 1,
+  int8: 1,
+  bool: 1,
+  uint16: 2,
+  int16: 2,
+  uint24: 3,
+  int24: 3,
+  uint32: 4,
+  int32: 4,
+  float32: 4,
+};
+
+/**
+ * Declarative codec: fixed-offset fields per fPort, and downlink commands as
+ * a hex prefix followed by the encoded params.
+ *
+ *   uplinks: [{ fPort: 1, fields: [
+ *     { key: 'temperature', offset: 0, type: 'int16', scale: 0.1 },
+ *     { key: 'humidity',    offset: 2, type: 'uint8', scale: 0.5 },
+ *     { key: 'door',        offset: 3, type: 'uint8', bit: 0, bits: 1,
+ *       values: { '0': 'closed', '1': 'open' } },
+ *   ]}]
+ */
+export class LayoutDeviceCodec extends CustomDeviceCodec {
+  private readonly layout: CodecLayout;
+
+  constructor(definition: CustomCodecDefinition) {
+    super(definition);
+    if (!definition.layout?.uplinks?.length) {
+      throw new Error('Layout codec needs at least one uplink frame');
+    }
+    this.layout = definition.layout;
+    this.validate();
+  }
+
+  decodeUplink(bytes: number[], fPort?: number): UplinkResult {
+    const frame = this.frameFor(fPort);
+    if (!frame) {
+      return {
+        data: {},
+        warnings: [],
+        errors: [`No uplink frame for fPort ${fPort ?? '-'}`],
+      };
+    }
+    if (frame.minLength && bytes.length < frame.minLength) {
+      return {
+        data: {},
+        warnings: [],
+        errors: [
+          `Payload is ${bytes.length} bytes, frame needs ${frame.minLength}`,
+        ],
+      };
+    }
+
+    const data: Record<string, any> = {};
+    const warnings: string[] = [];
+    for (const field of frame.fields ?? []) {
+      const size = this.sizeOf(field);
+      if (field.offset + size > bytes.length) {
+        warnings.push(`${field.key}: payload too short`);
+        continue;
+      }
+      data[field.key] = this.readField(bytes, field);
+    }
+
+    return { data, warnings, errors: [] };
+  }
+
+  encodeDownlink(command: {
+    type: string;
+    params?: any;
+  }): EncodedCommand & { warnings: string[] } {
+    const def = this.layout.commands?.find((c) => c.type === command.type);
+    if (!def) {
+      throw new Error(
+        `Unsupported command for ${this.codecId}: ${command.type}`,
+      );
+    }
+
+    const params = (command.params ?? {}) as Record<string, unknown>;
+    const bytes = def.prefix ? this.hexToBytes(def.prefix) : [];
+    for (const param of def.params ?? []) {
+      const value = params[param.key] ?? param.default;
+      if (value === undefined) {
+        throw new Error(`Missing parameter "${param.key}"`);
+      }
+      bytes.push(...this.writeParam(param, value));
+    }
+
+    return {
+      fPort: def.fPort,
+      data: this.bytesToHex(bytes),
+      confirmed: def.confirmed ?? false,
+      warnings: [],
+    };
+  }
+
+  /** Telemetry keys and commands straight from the layout */
+  protected defaultCapabilities(): CustomCodecCapabilities {
+    const keys = new Map<string, LayoutField>();
+    for (const frame of this.layout.uplinks) {
+      for (const field of frame.fields ?? []) keys.set(field.key, field);
+    }
+
+    return {
+      telemetryKeys: Array.from(keys.values()).map((field) => ({
+        key: field.key,
+        label: field.key,
+        type:
+          field.values || field.type === 'hex' || field.type === 'ascii'
+            ? 'string'
+            : field.type === 'bool'
+              ? 'boolean'
+              : 'number',
+      })),
+      commands: (this.layout.commands ?? []).map((command) => ({
+        type: command.type,
+        label: command.label ?? command.type,
+        params: (command.params ?? []).map((param) => ({
+          key: param.key,
+          label: param.key,
+          type: param.type === 'bool' ? 'boolean' : 'number',
+          required: param.default === undefined,
+          default: param.default,
+        })),
+      })),
+    };
+  }
+
+  /** Uploads are JSON — check the shape once instead of on every frame */
+  private validate(): void {
+    for (const frame of this.layout.uplinks) {
+      for (const field of frame.fields ?? []) {
+        const name = `Field "${field.key}"`;
+        if (!field.key) throw new Error('Every field needs a key');
+        if (!Number.isInteger(field.offset) || field.offset < 0) {
+          throw new Error(`${name}: offset must be a non-negative integer`);
+        }
+        if (field.type === 'hex' || field.type === 'ascii') {
+          if (!Number.isInteger(field.length) || field.length! < 1) {
+            throw new Error(`${name}: ${field.type} needs a length`);
+          }
+        } else if (!INT_SIZES[field.type]) {
+          throw new Error(`${name}: unknown type "${field.type}"`);
+        }
+      }
+    }
+
+    for (const command of this.layout.commands ?? []) {
+      if (!command.type) throw new Error('Every command needs a type');
+      if (command.prefix && !/^([0-9a-fA-F]{2})*$/.test(command.prefix)) {
+        throw new Error(`Command "${command.type}": prefix must be hex bytes`);
+      }
+      for (const param of command.params ?? []) {
+        if (!param.key || !INT_SIZES[param.type]) {
+          throw new Error(
+            `Command "${command.type}": invalid param "${param.key}"`,
+          );
+        }
+      }
+    }
+  }
+
+  // ── Reading ───────────────────────────────────────────────────────────────
+
+  private frameFor(fPort?: number): LayoutUplink | undefined {
+    return (
+      this.layout.uplinks.find(
+        (f) => f.fPort !== undefined && f.fPort === fPort,
+      ) ?? this.layout.uplinks.find((f) => f.fPort === undefined)
+    );
+  }
+
+  private sizeOf(field: LayoutField): number {
+    return INT_SIZES[field.type] ?? field.length ?? 1;
+  }
+
+  private readField(bytes: number[], field: LayoutField): unknown {
+    const slice = bytes.slice(field.offset, field.offset + this.sizeOf(field));
+
+    if (field.type === 'hex') return this.bytesToHex(slice);
+    if (field.type === 'ascii') {
+      return Buffer.from(slice).toString('ascii').replace(/\0+$/, '');
+    }
+
+    let value = this.readNumber(slice, field.type, field.endian);
+    if (field.bit !== undefined || field.bits !== undefined) {
+      value = (value >>> (field.bit ?? 0)) & ((1 << (field.bits ?? 1)) - 1);
+    }
+
+    if (field.values) return field.values[String(value)] ?? value;
+    if (field.type === 'bool') return value !== 0;
+
+    value = value * (field.scale ?? 1) + (field.add ?? 0);
+    if (field.decimals !== undefined) {
+      const factor = Math.pow(10, field.decimals);
+      value = Math.round(value * factor) / factor;
+    }
+    return value;
+  }
+
+  private readNumber(
+    slice: number[],
+    type: LayoutValueType,
+    endian: 'BE' | 'LE' = 'BE',
+  ): number {
+    const buffer = Buffer.from(endian === 'LE' ? [...slice].reverse() : slice);
+    switch (type) {
+      case 'int8':
+        return buffer.readInt8(0);
+      case 'int16':
+        return buffer.readInt16BE(0);
+      case 'int24':
+        return buffer.readIntBE(0, 3);
+      case 'int32':
+        return buffer.readInt32BE(0);
+      case 'float32':
+        return buffer.readFloatBE(0);
+      default:
+        return buffer.readUIntBE(0, buffer.length);
+    }
+  }
+
+  // ── Writing ───────────────────────────────────────────────────────────────
+
+  private writeParam(param: LayoutCommandParam, value: unknown): number[] {
+    const size = INT_SIZES[param.type] ?? 1;
+    const buffer = Buffer.alloc(size);
+
+    if (param.type === 'bool') {
+      buffer.writeUInt8(
+        value === true || value === 1 || value === 'true' ? 1 : 0,
+      );
+    } else {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        throw new Error(`Parameter "${param.key}" must be a number`);
+      }
+      const raw =
+        param.type === 'float32'
+          ? number / (param.scale ?? 1)
+          : Math.round(number / (param.scale ?? 1));
+      try {
+        if (param.type === 'float32') buffer.writeFloatBE(raw);
+        else if (param.type.startsWith('int')) buffer.writeIntBE(raw, 0, size);
+        else buffer.writeUIntBE(raw, 0, size);
+      } catch {
+        throw new Error(
+          `Parameter "${param.key}" is out of range for ${param.type}`,
+        );
+      }
+    }
+
+    const bytes = Array.from(buffer);
+    return param.endian === 'LE' ? bytes.reverse() : bytes;
+  }
+}
@@ -0,0 +1,119 @@
+// src/modules/devices/codecs/custom/script.codec.ts
+
+import { EncodedCommand } from '../interfaces/base-codec.interface';
+import {
+  CustomCodecDefinition,
+  UplinkResult,
+} from '../interfaces/custom-codec.interface';
+import {
+  CodecEntryPoints,
+  CodecSandboxService,
+  CodecScript,
+} from '../codec-sandbox.service';
+import { CustomDeviceCodec } from './custom.codec';
+
+/**
+ * JavaScript codec with the TTN / ChirpStack v4 signatures:
+ *
+ *   function decodeUplink(input)   // { bytes, fPort, recvTime }
+ *     → { data, warnings?, errors? }
+ *   function encodeDownlink(input) // { data: params, type }
+ *     → { bytes, fPort?, warnings?, errors? }
+ *
+ * The script runs in CodecSandboxService's sandbox process — a vm context
+ * with a null prototype, string and wasm code generation disabled, a timeout
+ * on every entry and its own heap limit — never in the backend process. It
+ * is compiled once per codec version.
+ */
+export class ScriptDeviceCodec extends CustomDeviceCodec {
+  private readonly script: CodecScript;
+  private readonly entryPoints: CodecEntryPoints;
+
+  constructor(
+    definition: CustomCodecDefinition,
+    private readonly sandbox: CodecSandboxService,
+  ) {
+    super(definition);
+
+    this.script = {
+      tenantId: definition.tenantId,
+      codecId: definition.codecId,
+      version: definition.version,
+      script: definition.script ?? '',
+    };
+    this.entryPoints = sandbox.define(this.script);
+
+    if (!this.entryPoints.decodeUplink) {
+      throw new Error('Codec script must define decodeUplink(input)');
+    }
+  }
+
+  decodeUplink(bytes: number[], fPort?: number): UplinkResult {
+    const output = this.call('decodeUplink', {
+      bytes,
+      fPort,
+      recvTime: new Date().toISOString(),
+    });
+
+    const errors = this.messages(output?.errors);
+    const data = output?.data;
+    if (!errors.length && (typeof data !== 'object' || data === null)) {
+      errors.push('decodeUplink must return { data: {...} }');
+    }
+
+    return {
+      data: errors.length ? {} : (data as Record<string, any>),
+      warnings: this.messages(output?.warnings),
+      errors,
+    };
+  }
+
+  encodeDownlink(command: {
+    type: string;
+    params?: any;
+  }): EncodedCommand & { warnings: string[] } {
+    if (!this.entryPoints.encodeDownlink) {
+      throw new Error(`Codec ${this.codecId} does not define encodeDownlink`);
+    }
+
+    const output = this.call('encodeDownlink', {
+      data: (command.params ?? {}) as Record<string, unknown>,
+      type: command.type,
+    });
+
+    const errors = this.messages(output?.errors);
+    if (errors.length) throw new Error(errors.join('; '));
+
+    const bytes: unknown = output?.bytes;
+    if (
+      !Array.isArray(bytes) ||
+      bytes.some((b) => !Number.isInteger(b) || b < 0 || b > 255)
+    ) {
+      throw new Error('encodeDownlink must return { bytes: [0-255, ...] }');
+    }
+
+    return {
+      fPort: typeof output?.fPort === 'number' ? output.fPort : undefined,
+      data: this.bytesToHex(bytes as number[]),
+      confirmed: false,
+      warnings: this.messages(output?.warnings),
+    };
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private call(name: string, input: unknown): Record<string, unknown> | null {
+    const { result, error } = JSON.parse(
+      this.sandbox.call(this.script, name, input),
+    ) as {
+      result?: Record<string, unknown> | null;
+      error?: string;
+    };
+    if (error !== undefined) throw new Error(`${name}: ${error}`);
+    return result ?? null;
+  }
+
+  private messages(value: unknown): string[] {
+    return Array.isArray(value) ? value.map(String) : [];
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsBoolean,
+  IsArray,
+  IsObject,
+  IsInt,
+  IsNotEmpty,
+  ValidateIf,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  PartialType,
+  PickType,
+} from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import type {
+  CodecLayout,
+  CustomCodecCapabilities,
+  CustomCodecType,
+} from '../interfaces/custom-codec.interface';
+import type { IDeviceCodec } from '../interfaces/base-codec.interface';
+
+const CODEC_TYPES: CustomCodecType[] = ['SCRIPT', 'LAYOUT'];
+const PROTOCOLS: IDeviceCodec['protocol'][] = [
+  'lorawan',
+  'mqtt',
+  'http',
+  'coap',
+  'cellular',
+  'other',
+];
+
+export class CodecSampleDto {
+  @ApiPropertyOptional({ example: 'Periodic report' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ example: '00eb7801', description: 'Hex or base64' })
+  @IsString()
+  @IsNotEmpty()
+  payload: string;
+
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(255)
+  fPort?: number;
+
+  @ApiPropertyOptional({
+    example: { temperature: 23.5, humidity: 60 },
+    description: 'Keys the decoded output must contain with these values',
+  })
+  @IsOptional()
+  @IsObject()
+  expected?: Record<string, any>;
+}
+
+/** The decoder itself — what every new version uploads */
+export class CustomCodecVersionDto {
+  @ApiProperty({ enum: CODEC_TYPES, example: 'SCRIPT' })
+  @IsIn(CODEC_TYPES)
+  type: CustomCodecType;
+
+  @ApiPropertyOptional({
+    description:
+      'SCRIPT: JavaScript defining decodeUplink(input) and optionally encodeDownlink(input) (TTN / ChirpStack v4)',
+    example:
+      'function decodeUplink(input) {\n  return { data: { temperature: ((input.bytes[0] << 8) | input.bytes[1]) / 10 } };\n}',
+  })
+  @ValidateIf((dto: CustomCodecVersionDto) => dto.type === 'SCRIPT')
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(65536)
+  script?: string;
+
+  @ApiPropertyOptional({
+    description: 'LAYOUT: uplink frames and downlink commands',
+    example: {
+      uplinks: [
+        {
+          fPort: 1,
+          fields: [
+            { key: 'temperature', offset: 0, type: 'int16', scale: 0.1 },
+            { key: 'humidity', offset: 2, type: 'uint8', scale: 0.5 },
+          ],
+        },
+      ],
+      commands: [
+        {
+          type: 'set_interval',
+          fPort: 2,
+          prefix: '01',
+          params: [{ key: 'interval', type: 'uint16' }],
+        },
+      ],
+    },
+  })
+  @ValidateIf((dto: CustomCodecVersionDto) => dto.type === 'LAYOUT')
+  @IsObject()
+  layout?: CodecLayout;
+
+  @ApiPropertyOptional({
+    description:
+      'getCapabilities() metadata: telemetryKeys, commands, uiComponents. LAYOUT codecs derive keys and commands when omitted',
+  })
+  @IsOptional()
+  @IsObject()
+  capabilities?: CustomCodecCapabilities;
+
+  @ApiPropertyOptional({ type: [CodecSampleDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => CodecSampleDto)
+  samples?: CodecSampleDto[];
+
+  @ApiPropertyOptional({ example: 'Decode the battery byte' })
+  @IsOptional()
+  @IsString()
+  changelog?: string;
+
+  @ApiPropertyOptional({
+    default: true,
+    description: 'Register this version right away',
+  })
+  @IsOptional()
+  @IsBoolean()
+  activate?: boolean;
+}
+
+export class CreateCustomCodecDto extends CustomCodecVersionDto {
+  @ApiProperty({
+    example: 'acme-th100',
+    description: 'Registry id stored in device metadata.codecId',
+  })
+  @Matches(/^[a-z0-9][a-z0-9-]{2,63}$/, {
+    message:
+      'codecId must be 3-64 lowercase letters, digits or dashes, starting with a letter or digit',
+  })
+  codecId: string;
+
+  @ApiProperty({ example: 'ACME TH100 decoder' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ example: 'ACME' })
+  @IsString()
+  @IsNotEmpty()
+  manufacturer: string;
+
+  @ApiProperty({ example: ['TH100', 'TH100-868'] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  supportedModels: string[];
+
+  @ApiPropertyOptional({ enum: PROTOCOLS, default: 'lorawan' })
+  @IsOptional()
+  @IsIn(PROTOCOLS)
+  protocol?: IDeviceCodec['protocol'];
+
+  @ApiPropertyOptional({ example: 'Ambience Monitoring' })
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class UpdateCustomCodecDto extends PartialType(
+  PickType(CreateCustomCodecDto, [
+    'name',
+    'manufacturer',
+    'supportedModels',
+    'protocol',
+    'category',
+    'description',
+  ] as const),
+) {
+  @ApiPropertyOptional({ description: 'Disabled codecs leave the registry' })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class TestCustomCodecDto {
+  @ApiPropertyOptional({
+    description: 'Version to test, default the active one',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number;
+
+  @ApiPropertyOptional({
+    type: [CodecSampleDto],
+    description: "Payloads to decode, default the version's stored samples",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => CodecSampleDto)
+  samples?: CodecSampleDto[];
+
+  @ApiPropertyOptional({
+    example: { type: 'set_interval', params: { interval: 600 } },
+    description: 'Command to encode as well',
+  })
+  @IsOptional()
+  @IsObject()
+  command?: { type: string; params?: any };
+}
+
+export class TestDraftCodecDto extends CustomCodecVersionDto {
+  @ApiPropertyOptional({
+    example: { type: 'set_interval', params: { interval: 600 } },
+  })
+  @IsOptional()
+  @IsObject()
+  command?: { type: string; params?: any };
+}
@@ -0,0 +1,67 @@
+// src/modules/devices/codecs/entities/custom-codec-version.entity.ts
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { CustomCodec } from './custom-codec.entity';
+import type {
+  CodecLayout,
+  CodecSample,
+  CustomCodecCapabilities,
+  CustomCodecType,
+} from '../interfaces/custom-codec.interface';
+
+/**
+ * One immutable upload of a custom codec. New code means a new version;
+ * rolling back is activating an older one.
+ */
+@Entity('custom_codec_versions')
+@Index(['customCodecId', 'version'], { unique: true })
+export class CustomCodecVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  customCodecId: string;
+
+  @ManyToOne(() => CustomCodec, (codec) => codec.versions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'customCodecId' })
+  codec: CustomCodec;
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'varchar', length: 10 })
+  type: CustomCodecType;
+
+  // SCRIPT: source defining decodeUplink / encodeDownlink
+  @Column({ type: 'text', nullable: true })
+  script?: string;
+
+  // LAYOUT: declarative byte layout
+  @Column({ type: 'jsonb', nullable: true })
+  layout?: CodecLayout;
+
+  @Column({ type: 'jsonb', nullable: true })
+  capabilities?: CustomCodecCapabilities;
+
+  // Test harness payloads — every sample must decode before a version is saved
+  @Column({ type: 'jsonb', default: [] })
+  samples: CodecSample[];
+
+  @Column({ type: 'text', nullable: true })
+  changelog?: string;
+
+  @Column({ name: 'created_by', nullable: true })
+  createdBy?: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,74 @@
+// src/modules/devices/codecs/entities/custom-codec.entity.ts
+import {
+  Entity,
+  Column,
+  Index,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant } from '@modules/index.entities';
+import { CustomCodecVersion } from './custom-codec-version.entity';
+import type { IDeviceCodec } from '../interfaces/base-codec.interface';
+
+/**
+ * A tenant-uploaded codec. The catalog fields live here; the decoder itself
+ * is versioned in CustomCodecVersion and activeVersion is the one registered
+ * in CodecRegistryService.
+ */
+@Entity('custom_codecs')
+export class CustomCodec extends BaseEntity {
+  // ══════════════════════════════════════════════════════════════════════════
+  // TENANT SCOPING
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  @Index()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CATALOG
+  // ══════════════════════════════════════════════════════════════════════════
+
+  // Registry key — stored in device.metadata.codecId, unique across tenants
+  // and built-in codecs
+  @Column({ unique: true })
+  codecId: string;
+
+  @Column()
+  name: string;
+
+  @Column()
+  manufacturer: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  supportedModels: string[];
+
+  @Column({ type: 'varchar', length: 20, default: 'lorawan' })
+  protocol: IDeviceCodec['protocol'];
+
+  @Column({ nullable: true })
+  category?: string;
+
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // VERSIONS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ type: 'int', default: 1 })
+  activeVersion: number;
+
+  // Disabled codecs stay stored but are removed from the registry
+  @Column({ default: true })
+  enabled: boolean;
+
+  @OneToMany(() => CustomCodecVersion, (version) => version.codec)
+  versions: CustomCodecVersion[];
+}
@@ -72,6 +72,11 @@ export interface IDeviceCodec {
   readonly category?: string;
   readonly modelFamily?: string;
   readonly imageUrl?: string;
+
+  /**
+   * Set on codecs uploaded by a tenant — listed only in that tenant's catalog
+   */
+  readonly tenantId?: string;
   
   /**
    * Protocol type
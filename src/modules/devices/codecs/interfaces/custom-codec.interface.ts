@@ -0,0 +1,122 @@
+// src/modules/devices/codecs/interfaces/custom-codec.interface.ts
+/**
+ * Tenant-uploaded codecs — either a sandboxed JavaScript file with the
+ * TTN / ChirpStack v4 `decodeUplink` / `encodeDownlink` functions, or a
+ * declarative byte layout.
+ */
+
+import {
+  CommandDef,
+  TelemetryKeyDef,
+  UIComponentDef,
+} from '@/common/interfaces/device-capability.interface';
+
+export type CustomCodecType = 'SCRIPT' | 'LAYOUT';
+
+// ── Declarative byte layout ──────────────────────────────────────────────────
+
+export type LayoutValueType =
+  | 'uint8'
+  | 'int8'
+  | 'uint16'
+  | 'int16'
+  | 'uint24'
+  | 'int24'
+  | 'uint32'
+  | 'int32'
+  | 'float32'
+  | 'bool'
+  | 'hex'
+  | 'ascii';
+
+export interface LayoutField {
+  key: string;
+  offset: number; // byte offset in the frame
+  type: LayoutValueType;
+  endian?: 'BE' | 'LE'; // default BE
+  length?: number; // bytes, hex/ascii only
+  bit?: number; // bit field: (value >> bit) & (2^bits - 1)
+  bits?: number;
+  scale?: number; // value * scale, e.g. 0.1 for deci-degrees
+  add?: number; // added after scaling
+  decimals?: number;
+  values?: Record<string, string | number | boolean>; // raw value → label
+}
+
+export interface LayoutUplink {
+  fPort?: number; // omitted → any port without a dedicated frame
+  minLength?: number;
+  fields: LayoutField[];
+}
+
+export interface LayoutCommandParam {
+  key: string;
+  type: Exclude<LayoutValueType, 'hex' | 'ascii'>;
+  endian?: 'BE' | 'LE';
+  scale?: number; // raw = round(value / scale)
+  default?: number | boolean;
+}
+
+export interface LayoutCommand {
+  type: string;
+  label?: string;
+  fPort?: number;
+  confirmed?: boolean;
+  prefix?: string; // hex bytes written before the params, e.g. 'ff10'
+  params: LayoutCommandParam[];
+}
+
+export interface CodecLayout {
+  uplinks: LayoutUplink[];
+  commands?: LayoutCommand[];
+}
+
+// ── Shared definition ────────────────────────────────────────────────────────
+
+/** getCapabilities() metadata — layout codecs derive what is left out */
+export interface CustomCodecCapabilities {
+  telemetryKeys?: TelemetryKeyDef[];
+  commands?: CommandDef[];
+  uiComponents?: UIComponentDef[];
+}
+
+export interface CodecSample {
+  name?: string;
+  payload: string; // hex or base64
+  fPort?: number;
+  expected?: Record<string, any>; // keys the decoded output must contain
+}
+
+/** Everything a codec instance is built from — one stored version */
+export interface CustomCodecDefinition {
+  codecId: string;
+  tenantId: string;
+  version: number;
+  manufacturer: string;
+  supportedModels: string[];
+  protocol: 'lorawan' | 'mqtt' | 'http' | 'coap' | 'cellular' | 'other';
+  category?: string;
+  description?: string;
+  type: CustomCodecType;
+  script?: string;
+  layout?: CodecLayout;
+  capabilities?: CustomCodecCapabilities;
+}
+
+/** TTN / ChirpStack style result, kept intact for the test harness */
+export interface UplinkResult {
+  data: Record<string, any>;
+  warnings: string[];
+  errors: string[];
+}
+
+export interface SampleResult {
+  name?: string;
+  fPort?: number;
+  success: boolean;
+  data?: Record<string, any>;
+  warnings: string[];
+  errors: string[];
+  mismatches?: string[]; // expected keys whose decoded value differs
+  executionTime: number;
+}
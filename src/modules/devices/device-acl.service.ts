@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Device } from './entities/device.entity';
+import {
+  DeviceCredentials,
+  CredentialsType,
+} from './entities/device-credentials.entity';
+import { DeviceCredentialsService } from './device-credentials.service';
+import { MqttAclAction } from './dto/mqtt-auth.dto';
+import { mqttTopicCovers } from '@common/utils/helpers';
+
+const SPARKPLUG_NAMESPACE = 'spBv1.0';
+
+export interface DeviceTopicAcl {
+  publish: string[];
+  subscribe: string[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Per-device MQTT ACL. A device may only touch its own topics: the protocol
+// topic strategy, the firmware/RPC topics, and the topics declared in its
+// profile's transportConfiguration.mqtt. Edge nodes on a Sparkplug profile
+// also get their own spBv1.0 topics in the profile's group.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class DeviceAclService {
+  constructor(
+    @InjectRepository(Device)
+    private deviceRepository: Repository<Device>,
+    @InjectRepository(DeviceCredentials)
+    private credentialsRepository: Repository<DeviceCredentials>,
+    private credentialsService: DeviceCredentialsService,
+  ) {}
+
+  /**
+   * Username/password clients are found by their credentials; certificate
+   * clients connect with their deviceKey as client ID (enforced at auth).
+   */
+  async resolveDevice(
+    clientId?: string,
+    username?: string,
+  ): Promise<Device | null> {
+    if (username) {
+      const credentials = await this.credentialsRepository.findOne({
+        where: { credentialsId: username },
+        relations: ['device', 'device.deviceProfile'],
+      });
+      if (
+        credentials?.device &&
+        credentials.credentialsType !== CredentialsType.X509_CERTIFICATE
+      ) {
+        return credentials.device;
+      }
+    }
+
+    const deviceKey = clientId ?? username;
+    if (!deviceKey) return null;
+
+    const device = await this.deviceRepository.findOne({
+      where: { deviceKey },
+      relations: ['deviceProfile', 'credentials'],
+    });
+
+    return device?.credentials?.credentialsType ===
+      CredentialsType.X509_CERTIFICATE
+      ? device
+      : null;
+  }
+
+  getTopicAcl(device: Device): DeviceTopicAcl {
+    const topics = this.credentialsService.getTopicStrategy(device);
+    const mqtt = device.deviceProfile?.transportConfiguration?.mqtt ?? {};
+    const base = `devices/${device.deviceKey}`;
+    const sparkplug = this.sparkplugTopics(device);
+
+    const profileTopic = (topic?: string): string[] =>
+      topic
+        ? [
+            topic
+              .replace(/\{deviceKey\}/g, device.deviceKey)
+              .replace(/\{devEUI\}/g, String(device.metadata?.devEUI ?? '+')),
+          ]
+        : [];
+
+    return {
+      publish: [
+        topics.telemetryTopic,
+        topics.attributesTopic,
+        topics.statusTopic,
+        topics.alertsTopic,
+        ...topics.uplinkPatterns,
+        `${base}/rpc/response/+`,
+        `${base}/firmware/request/+/chunk/+`,
+        ...profileTopic(mqtt.deviceTelemetryTopic),
+        ...profileTopic(mqtt.deviceAttributesTopic),
+        ...profileTopic(mqtt.deviceRpcResponseTopic),
+        ...sparkplug.publish,
+      ],
+      subscribe: [
+        topics.commandsTopic,
+        topics.attributesTopic,
+        `${base}/rpc/request`,
+        `${base}/firmware`,
+        `${base}/firmware/response/#`,
+        ...profileTopic(mqtt.deviceAttributesTopic),
+        ...profileTopic(mqtt.deviceRpcRequestTopic),
+        ...sparkplug.subscribe,
+      ],
+    };
+  }
+
+  isAllowed(device: Device, topic: string, action: MqttAclAction): boolean {
+    const acl = this.getTopicAcl(device);
+    const patterns =
+      action === MqttAclAction.PUBLISH ? acl.publish : acl.subscribe;
+
+    // Wildcards are never valid in a publish topic
+    if (action === MqttAclAction.PUBLISH && /[+#]/.test(topic)) return false;
+
+    return patterns.some((pattern) => mqttTopicCovers(pattern, topic));
+  }
+
+  /**
+   * The edge node's births, data and deaths (its own and its devices'),
+   * its NCMD/DCMD and host STATE. Only the edge node connects — the
+   * Sparkplug devices behind it ("<edgeNodeId>/<deviceId>") get nothing.
+   */
+  private sparkplugTopics(device: Device): DeviceTopicAcl {
+    const mqtt = device.deviceProfile?.transportConfiguration?.mqtt;
+    const groupId = mqtt?.sparkplug ? mqtt.sparkplugGroupId : undefined;
+    const identity = device.metadata?.sparkplug as
+      | { edgeNodeId?: string; deviceId?: string }
+      | undefined;
+    const edgeNodeId = identity?.edgeNodeId ?? device.name;
+
+    if (
+      !groupId ||
+      identity?.deviceId ||
+      !edgeNodeId ||
+      /[/+#]/.test(edgeNodeId)
+    ) {
+      return { publish: [], subscribe: [] };
+    }
+
+    const group = `${SPARKPLUG_NAMESPACE}/${groupId}`;
+    return {
+      publish: [
+        ...['NBIRTH', 'NDATA', 'NDEATH'].map(
+          (type) => `${group}/${type}/${edgeNodeId}`,
+        ),
+        ...['DBIRTH', 'DDATA', 'DDEATH'].map(
+          (type) => `${group}/${type}/${edgeNodeId}/+`,
+        ),
+      ],
+      subscribe: [
+        `${group}/NCMD/${edgeNodeId}`,
+        `${group}/DCMD/${edgeNodeId}/+`,
+        `${SPARKPLUG_NAMESPACE}/STATE/+`,
+      ],
+    };
+  }
+}
@@ -0,0 +1,496 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, IsNull, LessThan, Not, Repository } from 'typeorm';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Device, DeviceProfile, Tenant } from '@modules/index.entities';
+import {
+  ConnectivityState,
+  DeviceConnectivityEvent,
+} from './entities/device-connectivity-event.entity';
+import { DeviceStatus } from '@common/enums/index.enum';
+import { RedisService } from '@/lib/redis/redis.service';
+import { KafkaService } from '@/lib/kafka/kafka.service';
+import { UsersService } from '@modules/users/users.service';
+
+// deviceId → epoch ms after which the device is OFFLINE
+const DEADLINES_KEY = 'devices:connectivity:deadlines';
+// deviceId → epoch ms of the last uplink
+const LAST_SEEN_KEY = 'devices:connectivity:last-seen';
+
+// Seconds — used when neither device, profile nor tenant set a timeout
+const DEFAULT_INACTIVITY_TIMEOUT = parseInt(
+  process.env.DEVICE_INACTIVITY_TIMEOUT || '300',
+  10,
+);
+
+// A learned timeout tolerates this many missed reports
+const LEARNED_TIMEOUT_FACTOR = 3;
+// Uplinks closer together than this belong to the same report
+const MIN_LEARN_INTERVAL = 10;
+const MAX_LEARN_INTERVAL = 7 * 24 * 3600;
+
+const SWEEP_BATCH_SIZE = 500;
+const SEED_BATCH_SIZE = 1000;
+const SETTINGS_CACHE_TTL = 60 * 1000;
+
+export interface DeviceActivity {
+  device: Device;
+  seenAt?: Date;
+}
+
+export interface ConnectivityReport {
+  deviceId: string;
+  status: DeviceStatus;
+  lastSeenAt?: Date;
+  inactivityTimeout: number;
+  reportingInterval?: number;
+  from: Date;
+  to: Date;
+  onlineSeconds: number;
+  offlineSeconds: number;
+  uptimePercent: number;
+  transitions: DeviceConnectivityEvent[];
+}
+
+interface CachedSetting {
+  value?: number;
+  expiresAt: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Online/offline detection. Every uplink pushes the device's deadline
+// (last seen + inactivity timeout) into a Redis sorted set; the sweep only
+// reads the entries whose deadline has passed instead of scanning devices.
+//
+// Timeout resolution: device → device profile → tenant default → platform
+// default. Without a device or profile value the learned reporting interval
+// raises the timeout so slow reporters (LoRaWAN) do not flap.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class DeviceConnectivityService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(DeviceConnectivityService.name);
+
+  private readonly profileTimeouts = new Map<string, CachedSetting>();
+  private readonly tenantTimeouts = new Map<string, CachedSetting>();
+
+  constructor(
+    @InjectRepository(Device)
+    private deviceRepository: Repository<Device>,
+    @InjectRepository(DeviceProfile)
+    private profileRepository: Repository<DeviceProfile>,
+    @InjectRepository(Tenant)
+    private tenantRepository: Repository<Tenant>,
+    @InjectRepository(DeviceConnectivityEvent)
+    private eventRepository: Repository<DeviceConnectivityEvent>,
+    @Inject(forwardRef(() => UsersService))
+    private userService: UsersService,
+    private readonly redis: RedisService,
+    private readonly kafkaService: KafkaService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    // Devices that were ACTIVE before a restart (or before Redis was wiped)
+    // still need a deadline — runs in the background
+    void this.seedDeadlines().catch((error) =>
+      this.logger.error(
+        `Seeding connectivity deadlines failed: ${(error as Error).message}`,
+      ),
+    );
+  }
+
+  // ── Activity ──────────────────────────────────────────────────────────────
+
+  @OnEvent('device.activity')
+  async handleActivity({ device, seenAt }: DeviceActivity): Promise<void> {
+    try {
+      await this.recordActivity(device, seenAt);
+    } catch (error) {
+      this.logger.error(
+        `Activity of ${device.deviceKey} not recorded: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /** `device` is the state loaded before this uplink was applied */
+  async recordActivity(device: Device, seenAt = new Date()): Promise<void> {
+    const now = seenAt.getTime();
+
+    const previous = await this.redis.hget(LAST_SEEN_KEY, device.id);
+    await this.redis.hset(LAST_SEEN_KEY, device.id, String(now));
+
+    // A gap that ended an OFFLINE period is an outage, not the cadence
+    let timeout = await this.resolveInactivityTimeout(device);
+    const reportingInterval =
+      device.status === DeviceStatus.OFFLINE
+        ? device.reportingInterval
+        : this.learnReportingInterval(
+            device.reportingInterval,
+            previous ? Number(previous) : undefined,
+            now,
+            timeout,
+          );
+    if (reportingInterval !== device.reportingInterval) {
+      device.reportingInterval = reportingInterval;
+      await this.deviceRepository.update(device.id, { reportingInterval });
+      timeout = await this.resolveInactivityTimeout(device);
+    }
+
+    await this.redis.zadd(DEADLINES_KEY, now + timeout * 1000, device.id);
+
+    if (device.status === DeviceStatus.OFFLINE) {
+      await this.markOnline(device, seenAt, timeout);
+    }
+  }
+
+  /**
+   * The device announced its own disconnect (Sparkplug NDEATH/DDEATH) — it
+   * goes OFFLINE now instead of at its inactivity deadline.
+   */
+  async reportDisconnected(deviceId: string): Promise<boolean> {
+    await this.redis.client.zrem(DEADLINES_KEY, deviceId);
+    return this.markOffline(deviceId, true);
+  }
+
+  // ── Timeout resolution ────────────────────────────────────────────────────
+
+  async resolveInactivityTimeout(device: Device): Promise<number> {
+    if (device.inactivityTimeout) return device.inactivityTimeout;
+
+    const profileTimeout = device.deviceProfileId
+      ? await this.getProfileTimeout(device.deviceProfileId)
+      : undefined;
+    if (profileTimeout) return profileTimeout;
+
+    const fallback =
+      (await this.getTenantTimeout(device.tenantId)) ??
+      DEFAULT_INACTIVITY_TIMEOUT;
+
+    return device.reportingInterval
+      ? Math.max(fallback, device.reportingInterval * LEARNED_TIMEOUT_FACTOR)
+      : fallback;
+  }
+
+  @OnEvent('device.profile.updated')
+  handleProfileUpdated({ profile }: { profile: DeviceProfile }): void {
+    this.profileTimeouts.delete(profile.id);
+  }
+
+  // ── Offline sweep ─────────────────────────────────────────────────────────
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async checkOfflineDevices(): Promise<void> {
+    const expired = await this.redis.client.zrangebyscore(
+      DEADLINES_KEY,
+      '-inf',
+      Date.now(),
+      'LIMIT',
+      0,
+      SWEEP_BATCH_SIZE,
+    );
+
+    let marked = 0;
+    for (const deviceId of expired) {
+      // ZREM is the claim: with several instances only one handles a device
+      if ((await this.redis.client.zrem(DEADLINES_KEY, deviceId)) === 0) {
+        continue;
+      }
+
+      try {
+        if (await this.markOffline(deviceId)) marked++;
+      } catch (error) {
+        this.logger.error(
+          `Offline check of device ${deviceId} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (marked > 0) {
+      this.logger.log(`Marked ${marked} device(s) as offline`);
+    }
+  }
+
+  // ── Uptime ────────────────────────────────────────────────────────────────
+
+  async getConnectivityReport(
+    device: Device,
+    from: Date,
+    to: Date,
+  ): Promise<ConnectivityReport> {
+    const end = Math.min(to.getTime(), Date.now());
+
+    const [before, transitions] = await Promise.all([
+      this.eventRepository.findOne({
+        where: { deviceId: device.id, occurredAt: LessThan(from) },
+        order: { occurredAt: 'DESC' },
+      }),
+      this.eventRepository.find({
+        where: { deviceId: device.id, occurredAt: Between(from, to) },
+        order: { occurredAt: 'ASC' },
+      }),
+    ]);
+
+    // State at `from`: the last transition before the window; without
+    // history, the opposite of the first transition or the current status
+    let online = before
+      ? before.state === ConnectivityState.ONLINE
+      : transitions.length > 0
+        ? transitions[0].state === ConnectivityState.OFFLINE
+        : device.status === DeviceStatus.ACTIVE;
+
+    let cursor = from.getTime();
+    let onlineMs = 0;
+    for (const transition of transitions) {
+      const at = transition.occurredAt.getTime();
+      if (online) onlineMs += at - cursor;
+      cursor = at;
+      online = transition.state === ConnectivityState.ONLINE;
+    }
+    if (online) onlineMs += Math.max(end - cursor, 0);
+
+    const totalMs = Math.max(end - from.getTime(), 0);
+
+    return {
+      deviceId: device.id,
+      status: device.status,
+      lastSeenAt: device.lastSeenAt,
+      inactivityTimeout: await this.resolveInactivityTimeout(device),
+      reportingInterval: device.reportingInterval,
+      from,
+      to,
+      onlineSeconds: Math.round(onlineMs / 1000),
+      offlineSeconds: Math.round((totalMs - onlineMs) / 1000),
+      uptimePercent:
+        totalMs > 0 ? Math.round((onlineMs / totalMs) * 10000) / 100 : 0,
+      transitions,
+    };
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async markOffline(
+    deviceId: string,
+    announced = false,
+  ): Promise<boolean> {
+    const device = await this.deviceRepository.findOne({
+      where: { id: deviceId },
+    });
+    if (!device) {
+      await this.redis.client.hdel(LAST_SEEN_KEY, deviceId);
+      return false;
+    }
+
+    const timeout = await this.resolveInactivityTimeout(device);
+    const lastSeen =
+      Number(await this.redis.hget(LAST_SEEN_KEY, deviceId)) ||
+      device.lastSeenAt?.getTime() ||
+      0;
+
+    // Seen again, or the timeout was raised, since the deadline was set
+    const deadline = lastSeen + timeout * 1000;
+    if (!announced && deadline > Date.now()) {
+      await this.redis.zadd(DEADLINES_KEY, deadline, deviceId);
+      return false;
+    }
+
+    const result = await this.deviceRepository.update(
+      { id: deviceId, status: DeviceStatus.ACTIVE },
+      { status: DeviceStatus.OFFLINE },
+    );
+    if (!result.affected) return false;
+
+    device.status = DeviceStatus.OFFLINE;
+    await this.recordTransition(
+      device,
+      ConnectivityState.OFFLINE,
+      new Date(),
+      lastSeen ? new Date(lastSeen) : undefined,
+      timeout,
+    );
+
+    const user = await this.userService.findOne(device.userId);
+    this.eventEmitter.emit('device.offline', { device, user });
+    this.logger.warn(`Device offline: ${device.name} (${device.id})`);
+    return true;
+  }
+
+  private async markOnline(
+    device: Device,
+    seenAt: Date,
+    timeout: number,
+  ): Promise<void> {
+    const result = await this.deviceRepository.update(
+      { id: device.id, status: DeviceStatus.OFFLINE },
+      { status: DeviceStatus.ACTIVE },
+    );
+    if (!result.affected) return;
+
+    device.status = DeviceStatus.ACTIVE;
+    await this.recordTransition(
+      device,
+      ConnectivityState.ONLINE,
+      seenAt,
+      seenAt,
+      timeout,
+    );
+
+    const user = await this.userService.findOne(device.userId);
+    this.eventEmitter.emit('device.connected', { device, user });
+    this.logger.log(`Device online: ${device.name} (${device.id})`);
+  }
+
+  private async recordTransition(
+    device: Device,
+    state: ConnectivityState,
+    occurredAt: Date,
+    lastSeenAt: Date | undefined,
+    inactivityTimeout: number,
+  ): Promise<void> {
+    await this.eventRepository.save(
+      this.eventRepository.create({
+        tenantId: device.tenantId,
+        deviceId: device.id,
+        state,
+        occurredAt,
+        lastSeenAt,
+        inactivityTimeout,
+      }),
+    );
+
+    const topic =
+      state === ConnectivityState.ONLINE
+        ? 'device.connectivity.online'
+        : 'device.connectivity.offline';
+
+    await this.kafkaService
+      .sendMessage(
+        topic,
+        {
+          deviceId: device.id,
+          deviceKey: device.deviceKey,
+          tenantId: device.tenantId,
+          customerId: device.customerId ?? null,
+          state,
+          occurredAt: occurredAt.toISOString(),
+          lastSeenAt: lastSeenAt?.toISOString() ?? null,
+          inactivityTimeout,
+        },
+        device.deviceKey,
+      )
+      .catch((error) =>
+        this.logger.error(
+          `Publishing ${topic} for ${device.deviceKey} failed: ${(error as Error).message}`,
+        ),
+      );
+  }
+
+  /**
+   * Moving average of the seconds between uplinks. Only persisted when it
+   * moves by 10% or more, so steady devices cause no extra writes. Gaps
+   * longer than the timeout in force are missed reports and never learned.
+   */
+  private learnReportingInterval(
+    current: number | undefined,
+    previousSeenAt: number | undefined,
+    now: number,
+    timeout: number,
+  ): number | undefined {
+    if (!previousSeenAt) return current;
+
+    const interval = Math.round((now - previousSeenAt) / 1000);
+    if (
+      interval < MIN_LEARN_INTERVAL ||
+      interval > MAX_LEARN_INTERVAL ||
+      interval > timeout
+    ) {
+      return current;
+    }
+    if (!current) return interval;
+
+    const next = Math.round(current * 0.8 + interval * 0.2);
+    return Math.abs(next - current) >= current * 0.1 ? next : current;
+  }
+
+  private async getProfileTimeout(
+    profileId: string,
+  ): Promise<number | undefined> {
+    return this.cached(this.profileTimeouts, profileId, async () => {
+      const profile = await this.profileRepository.findOne({
+        where: { id: profileId },
+        select: ['id', 'inactivityTimeout'],
+      });
+      return profile?.inactivityTimeout ?? undefined;
+    });
+  }
+
+  private async getTenantTimeout(
+    tenantId: string,
+  ): Promise<number | undefined> {
+    return this.cached(this.tenantTimeouts, tenantId, async () => {
+      const tenant = await this.tenantRepository.findOne({
+        where: { id: tenantId },
+        select: ['id', 'configuration'],
+      });
+      return tenant?.configuration?.inactivityTimeout ?? undefined;
+    });
+  }
+
+  private async cached(
+    cache: Map<string, CachedSetting>,
+    key: string,
+    load: () => Promise<number | undefined>,
+  ): Promise<number | undefined> {
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) return hit.value;
+
+    const value = await load();
+    cache.set(key, { value, expiresAt: Date.now() + SETTINGS_CACHE_TTL });
+    return value;
+  }
+
+  private async seedDeadlines(): Promise<void> {
+    let seeded = 0;
+
+    for (let skip = 0; ; skip += SEED_BATCH_SIZE) {
+      const devices = await this.deviceRepository.find({
+        where: { status: DeviceStatus.ACTIVE, lastSeenAt: Not(IsNull()) },
+        order: { id: 'ASC' },
+        skip,
+        take: SEED_BATCH_SIZE,
+      });
+      if (devices.length === 0) break;
+
+      for (const device of devices) {
+        const lastSeen = device.lastSeenAt!.getTime();
+        const timeout = await this.resolveInactivityTimeout(device);
+
+        // NX: never move a deadline that live traffic already set
+        seeded += await this.redis.client.zadd(
+          DEADLINES_KEY,
+          'NX',
+          lastSeen + timeout * 1000,
+          device.id,
+        );
+        await this.redis.client.hsetnx(
+          LAST_SEEN_KEY,
+          device.id,
+          String(lastSeen),
+        );
+      }
+
+      if (devices.length < SEED_BATCH_SIZE) break;
+    }
+
+    if (seeded > 0) {
+      this.logger.log(`Seeded connectivity deadlines for ${seeded} device(s)`);
+    }
+  }
+}
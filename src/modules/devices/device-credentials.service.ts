@@ -2,16 +2,25 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
   ForbiddenException,
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { X509Certificate } from 'crypto';
 import { Device } from './entities/device.entity';
 import { DeviceProtocol } from './entities/device.entity';
-import { DeviceCredentials, CredentialsType } from './entities/device-credentials.entity';
+import {
+  DeviceCredentials,
+  CredentialsType,
+  X509Mode,
+} from './entities/device-credentials.entity';
 import { DeviceCredentialsDto } from './dto/device-credentials.dto';
+import { UpdateDeviceCredentialsDto } from './dto/update-device-credentials.dto';
+import { MqttAuthRequestDto } from './dto/mqtt-auth.dto';
 import { User } from '../users/entities/user.entity';
 import { UserRole } from '@common/enums/index.enum';
 
@@ -26,6 +35,21 @@ interface TopicStrategy {
   uplinkPatterns: string[];
 }
 
+// ─── Freshly issued credentials ──────────────────────────────────────────────
+// MQTT_BASIC passwords are stored as bcrypt hashes, so the plain password is
+// only available here — right after it was issued.
+
+export interface IssuedCredentials {
+  credentials: DeviceCredentials;
+  password?: string;
+}
+
+type CredentialsOptions = Omit<UpdateDeviceCredentialsDto, 'credentialsType'>;
+
+const PASSWORD_SALT_ROUNDS = 10;
+const PEM_CERTIFICATE =
+  /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
 @Injectable()
 export class DeviceCredentialsService {
   private readonly logger = new Logger(DeviceCredentialsService.name);
@@ -43,11 +67,15 @@ export class DeviceCredentialsService {
   async createCredentials(
     device: Device,
     credentialsType: CredentialsType = CredentialsType.ACCESS_TOKEN,
-  ): Promise<DeviceCredentials> {
+    options: CredentialsOptions = {},
+  ): Promise<IssuedCredentials> {
     this.logger.log(`Creating credentials for device: ${device.deviceKey}`);
 
     let credentialsId: string;
     let credentialsValue: string | undefined;
+    let password: string | undefined;
+    let x509Mode: X509Mode | undefined;
+    let expiresAt: Date | undefined;
 
     switch (credentialsType) {
       case CredentialsType.ACCESS_TOKEN:
@@ -57,14 +85,40 @@ export class DeviceCredentialsService {
         break;
 
       case CredentialsType.MQTT_BASIC:
-        credentialsId = device.deviceKey; // username = deviceKey
-        credentialsValue = DeviceCredentials.generateToken(); // password
+        credentialsId = options.mqttUsername ?? device.deviceKey;
+        password = options.mqttPassword ?? DeviceCredentials.generateToken();
+        credentialsValue = await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
         break;
 
-      case CredentialsType.X509_CERTIFICATE:
-        credentialsId = device.deviceKey;
-        credentialsValue = `sha256:${DeviceCredentials.generateToken()}`;
+      case CredentialsType.X509_CERTIFICATE: {
+        x509Mode = options.x509Mode ?? X509Mode.LEAF;
+        const certificate = options.certificate
+          ? this.parseCertificate(options.certificate)
+          : undefined;
+
+        if (x509Mode === X509Mode.LEAF) {
+          if (!certificate) {
+            throw new BadRequestException(
+              'A device certificate is required for X.509 LEAF credentials',
+            );
+          }
+          credentialsId = this.fingerprintOf(certificate);
+          credentialsValue = certificate.toString();
+          expiresAt = new Date(certificate.validTo);
+        } else {
+          const commonName =
+            options.commonName ??
+            (certificate ? this.commonNameOf(certificate) : undefined);
+          if (!commonName) {
+            throw new BadRequestException(
+              'A certificate CN is required for X.509 CHAIN credentials',
+            );
+          }
+          credentialsId = commonName;
+          credentialsValue = undefined;
+        }
         break;
+      }
 
       default:
         throw new Error(`Unsupported credentials type: ${credentialsType}`);
@@ -80,38 +134,32 @@ export class DeviceCredentialsService {
       );
     }
 
+    const taken = await this.credentialsRepository.exist({
+      where: { credentialsId },
+    });
+
+    if (taken) {
+      throw new ConflictException(
+        `Credentials ${credentialsId} are already used by another device`,
+      );
+    }
+
     const credentials = this.credentialsRepository.create({
       deviceId: device.id,
       credentialsType,
       credentialsId,
       credentialsValue,
+      mqttClientId:
+        credentialsType === CredentialsType.MQTT_BASIC
+          ? options.mqttClientId
+          : undefined,
+      x509Mode,
+      expiresAt,
     });
 
     const saved = await this.credentialsRepository.save(credentials);
     this.logger.log(`Credentials created: ${saved.id}`);
-    return saved;
-  }
-
-  // ── Internal: get credentials WITH the secret value selected ─────────────
-  // credentialsValue has select:false on the column, so we must explicitly
-  // include it whenever we need to expose or compare the secret.
-
-  private async getCredentialsWithSecret(
-    deviceId: string,
-  ): Promise<DeviceCredentials> {
-    const credentials = await this.credentialsRepository
-      .createQueryBuilder('creds')
-      .addSelect('creds.credentialsValue') // explicitly opt-in to the hidden column
-      .where('creds.deviceId = :deviceId', { deviceId })
-      .getOne();
-
-    if (!credentials) {
-      throw new NotFoundException(
-        `Credentials not found for device: ${deviceId}`,
-      );
-    }
-
-    return credentials;
+    return { credentials: saved, password };
   }
 
   // ── Public: get credentials without secret (safe for relations/logging) ───
@@ -135,6 +183,7 @@ export class DeviceCredentialsService {
   async getMqttConfiguration(
     deviceId: string,
     user: User,
+    password?: string,
   ): Promise<DeviceCredentialsDto> {
     const device = await this.deviceRepository.findOne({ where: { id: deviceId } });
 
@@ -144,17 +193,34 @@ export class DeviceCredentialsService {
 
     this.verifyAccess(device, user);
 
-    // Use the private method so credentialsValue is populated
-    const credentials = await this.getCredentialsWithSecret(deviceId);
+    const credentials = await this.getByDeviceId(deviceId);
 
-    return this.buildMqttConfiguration(device, credentials);
+    return this.buildMqttConfiguration(device, credentials, password);
+  }
+
+  // ── Configuration for a device that authenticated itself (provisioning) ──
+  // No user access check — the caller has already verified the device.
+
+  async getDeviceConfiguration(
+    device: Device,
+    password?: string,
+  ): Promise<DeviceCredentialsDto> {
+    const credentials = await this.getByDeviceId(device.id);
+    return this.buildMqttConfiguration(device, credentials, password);
+  }
+
+  async hasCredentials(deviceId: string): Promise<boolean> {
+    return this.credentialsRepository.exist({ where: { deviceId } });
   }
 
   // ── Build the full DeviceCredentialsDto ───────────────────────────────────
+  // `password` is the plain MQTT_BASIC password — only known when the
+  // credentials were just issued. Otherwise the response carries no secret.
 
   private buildMqttConfiguration(
     device: Device,
     credentials: DeviceCredentials,
+    password?: string,
   ): DeviceCredentialsDto {
     const mqttBrokerUrl =
       this.configService.get<string>('MQTT_BROKER_URL') || 'mqtt://localhost:1883';
@@ -173,7 +239,7 @@ export class DeviceCredentialsService {
 
     const secretKey =
       credentials.credentialsType === CredentialsType.MQTT_BASIC
-        ? credentials.credentialsValue
+        ? password
         : undefined;
 
     return {
@@ -187,6 +253,7 @@ export class DeviceCredentialsService {
       gatewayConfig: this.buildGatewayConfig(
         device,
         credentials,
+        secretKey,
         mqttHost,
         mqttPort,
         topics,
@@ -194,6 +261,7 @@ export class DeviceCredentialsService {
       setupInstructions: this.buildSetupInstructions(
         device,
         credentials,
+        secretKey,
         mqttHost,
         mqttPort,
         topics,
@@ -201,6 +269,7 @@ export class DeviceCredentialsService {
       codeExamples: this.buildCodeExamples(
         device,
         credentials,
+        secretKey,
         mqttBrokerUrl,
         topics.telemetryTopic,
       ),
@@ -276,24 +345,15 @@ export class DeviceCredentialsService {
   private buildGatewayConfig(
     device: Device,
     credentials: DeviceCredentials,
+    secretKey: string | undefined,
     mqttHost: string,
     mqttPort: number,
     topics: TopicStrategy,
   ): DeviceCredentialsDto['gatewayConfig'] {
-    const username =
-      credentials.credentialsType === CredentialsType.ACCESS_TOKEN
-        ? credentials.credentialsId
-        : credentials.credentialsId;
-
-    const password =
-      credentials.credentialsType === CredentialsType.MQTT_BASIC
-        ? (credentials.credentialsValue ?? '')
-        : '';
-
     const base: any = {
-      clientId: device.deviceKey,
-      username,
-      password,
+      clientId: credentials.mqttClientId ?? device.deviceKey,
+      username: this.mqttUsernameOf(device, credentials),
+      password: secretKey ?? '',
       host: mqttHost,
       port: mqttPort,
       publishTopic: topics.telemetryTopic,
@@ -321,12 +381,13 @@ export class DeviceCredentialsService {
   private buildSetupInstructions(
     device: Device,
     credentials: DeviceCredentials,
+    secretKey: string | undefined,
     mqttHost: string,
     mqttPort: number,
     topics: TopicStrategy,
   ): DeviceCredentialsDto['setupInstructions'] {
-    const username = credentials.credentialsId;
-    const password = credentials.credentialsValue ?? '(use access token)';
+    const username = this.mqttUsernameOf(device, credentials);
+    const password = this.passwordHint(credentials, secretKey);
 
     if (device.protocol === DeviceProtocol.LORAWAN_MILESIGHT) {
       return {
@@ -349,7 +410,7 @@ export class DeviceCredentialsService {
     return {
       steps: [
         `1. Configure MQTT broker: ${mqttHost}:${mqttPort}`,
-        `2. Set client ID: ${device.deviceKey}`,
+        `2. Set client ID: ${credentials.mqttClientId ?? device.deviceKey}`,
         `3. Set username: ${username}`,
         `4. Set password: ${password}`,
         `5. Publish telemetry to: ${topics.telemetryTopic}`,
@@ -368,11 +429,12 @@ export class DeviceCredentialsService {
   private buildCodeExamples(
     device: Device,
     credentials: DeviceCredentials,
+    secretKey: string | undefined,
     mqttBroker: string,
     telemetryTopic: string,
   ): DeviceCredentialsDto['codeExamples'] {
-    const username = credentials.credentialsId;
-    const password = credentials.credentialsValue ?? '';
+    const username = this.mqttUsernameOf(device, credentials);
+    const password = secretKey ?? '';
     const host = mqttBroker.replace(/^mqtt:\/\//, '');
 
     return {
@@ -420,59 +482,251 @@ client.on('connect', () => {
     };
   }
 
+  // X.509 devices authenticate with their certificate; the username is free
+  // and the deviceKey keeps ACL lookups working.
+  private mqttUsernameOf(
+    device: Device,
+    credentials: DeviceCredentials,
+  ): string {
+    return credentials.credentialsType === CredentialsType.X509_CERTIFICATE
+      ? device.deviceKey
+      : credentials.credentialsId;
+  }
+
+  private passwordHint(
+    credentials: DeviceCredentials,
+    secretKey: string | undefined,
+  ): string {
+    switch (credentials.credentialsType) {
+      case CredentialsType.ACCESS_TOKEN:
+        return '(use access token)';
+      case CredentialsType.X509_CERTIFICATE:
+        return '(none — present the client certificate)';
+      default:
+        return secretKey ?? '(shown once when the credentials were issued)';
+    }
+  }
+
   // ── Regenerate credentials ────────────────────────────────────────────────
+  // Keeps the credentials type; MQTT_BASIC keeps username and client ID and
+  // only gets a new password. Certificates cannot be regenerated server-side.
 
   async regenerateCredentials(
     deviceId: string,
     user: User,
   ): Promise<DeviceCredentialsDto> {
-    const device = await this.deviceRepository.findOne({ where: { id: deviceId } });
+    const device = await this.findAccessibleDevice(deviceId, user);
+    const existing = await this.getByDeviceId(deviceId);
 
-    if (!device) {
-      throw new NotFoundException(`Device not found: ${deviceId}`);
+    if (existing.credentialsType === CredentialsType.X509_CERTIFICATE) {
+      throw new BadRequestException(
+        'X.509 credentials cannot be regenerated — upload a new certificate instead',
+      );
     }
 
-    this.verifyAccess(device, user);
+    return this.replaceCredentials(device, existing, existing.credentialsType, {
+      mqttUsername: existing.credentialsId,
+      mqttClientId: existing.mqttClientId,
+    });
+  }
+
+  // ── Replace credentials (switch type, set username/password, certificate) ─
+
+  async updateCredentials(
+    deviceId: string,
+    user: User,
+    dto: UpdateDeviceCredentialsDto,
+  ): Promise<DeviceCredentialsDto> {
+    const device = await this.findAccessibleDevice(deviceId, user);
+    const existing = await this.credentialsRepository.findOne({
+      where: { deviceId },
+    });
 
-    // Load existing (with secret so we know the type)
-    const existing = await this.getCredentialsWithSecret(deviceId);
-    const credentialsType = existing.credentialsType;
+    const { credentialsType, ...options } = dto;
+    return this.replaceCredentials(device, existing, credentialsType, options);
+  }
 
+  private async replaceCredentials(
+    device: Device,
+    existing: DeviceCredentials | null,
+    credentialsType: CredentialsType,
+    options: CredentialsOptions,
+  ): Promise<DeviceCredentialsDto> {
     // Hard-delete the old row — DB cascade is not involved here because
     // we're deleting the child (credentials), not the parent (device).
-    await this.credentialsRepository.remove(existing);
-
-    const newCreds = await this.createCredentials(device, credentialsType);
+    if (existing) {
+      await this.credentialsRepository.remove(existing);
+    }
 
-    // We need the secret value on the new creds for the response
-    const newCredsWithSecret = await this.getCredentialsWithSecret(device.id);
+    const { credentials, password } = await this.createCredentials(
+      device,
+      credentialsType,
+      options,
+    );
 
-    return this.buildMqttConfiguration(device, newCredsWithSecret);
+    return this.buildMqttConfiguration(device, credentials, password);
   }
 
-  // ── Verify credentials (called by MQTT gateway auth hook) ────────────────
+  // ── Verify credentials (access token / username + password) ──────────────
+  // X.509 credentials ids are a CN or fingerprint — public values, not
+  // secrets — so they only authenticate through authenticateCertificate().
 
   async verifyCredentials(
     credentialsId: string,
     credentialsValue?: string,
   ): Promise<{ device: Device; credentials: DeviceCredentials }> {
-    const credentials = await this.credentialsRepository
-      .createQueryBuilder('creds')
-      .addSelect('creds.credentialsValue')
-      .leftJoinAndSelect('creds.device', 'device')
-      .where('creds.credentialsId = :credentialsId', { credentialsId })
-      .getOne();
+    const credentials = await this.findByCredentialsId(credentialsId);
 
     if (!credentials || !credentials.isValid()) {
       throw new ForbiddenException('Invalid or revoked credentials');
     }
 
+    if (credentials.credentialsType === CredentialsType.X509_CERTIFICATE) {
+      throw new ForbiddenException('Client certificate required');
+    }
+
     if (credentials.credentialsType === CredentialsType.MQTT_BASIC) {
-      if (credentials.credentialsValue !== credentialsValue) {
+      if (!(await this.passwordMatches(credentials, credentialsValue))) {
         throw new ForbiddenException('Invalid password');
       }
     }
 
+    return this.acceptCredentials(credentials);
+  }
+
+  // ── Authenticate an MQTT connection (broker HTTP auth hook) ──────────────
+  // A client certificate wins over username/password. X.509 LEAF matches the
+  // certificate fingerprint; CHAIN matches the CN and, when the PEM is passed,
+  // verifies it against the CAs on the device profile. A CN without PEM is
+  // only sent by a broker that already verified the chain during TLS.
+
+  async authenticateMqtt(
+    request: MqttAuthRequestDto,
+  ): Promise<{ device: Device; credentials: DeviceCredentials }> {
+    const certificates = request.certificate
+      ? this.parseCertificateBundle(request.certificate)
+      : [];
+
+    if (
+      certificates.length > 0 ||
+      request.certFingerprint ||
+      request.certCommonName
+    ) {
+      return this.authenticateCertificate(certificates, request);
+    }
+
+    if (!request.username) {
+      throw new ForbiddenException('Username or client certificate required');
+    }
+
+    const result = await this.verifyCredentials(
+      request.username,
+      request.password,
+    );
+    const { credentials } = result;
+
+    if (
+      credentials.mqttClientId &&
+      credentials.mqttClientId !== request.clientId
+    ) {
+      throw new ForbiddenException('Client ID does not match credentials');
+    }
+
+    return result;
+  }
+
+  private async authenticateCertificate(
+    certificates: X509Certificate[],
+    request: MqttAuthRequestDto,
+  ): Promise<{ device: Device; credentials: DeviceCredentials }> {
+    const [leaf] = certificates;
+
+    if (leaf && !this.isCurrentlyValid(leaf)) {
+      throw new ForbiddenException(
+        'Client certificate is expired or not yet valid',
+      );
+    }
+
+    // LEAF — the certificate itself is registered
+    const fingerprint = leaf
+      ? this.fingerprintOf(leaf)
+      : request.certFingerprint?.replace(/:/g, '').toLowerCase();
+
+    if (fingerprint) {
+      const credentials = await this.findByCredentialsId(fingerprint);
+      if (credentials?.x509Mode === X509Mode.LEAF && credentials.isValid()) {
+        return this.acceptCertificate(credentials, request);
+      }
+    }
+
+    // CHAIN — registered by CN, trusted through the profile CAs
+    const commonName = leaf ? this.commonNameOf(leaf) : request.certCommonName;
+    const credentials = commonName
+      ? await this.findByCredentialsId(commonName)
+      : null;
+
+    if (
+      !credentials ||
+      credentials.x509Mode !== X509Mode.CHAIN ||
+      !credentials.isValid()
+    ) {
+      throw new ForbiddenException('Unknown client certificate');
+    }
+
+    if (leaf) {
+      const caCertificates =
+        credentials.device?.deviceProfile?.transportConfiguration?.mqtt
+          ?.x509CaCertificates ?? [];
+      const trusted = caCertificates.flatMap((pem) =>
+        this.parseCertificateBundle(pem),
+      );
+
+      if (!this.isIssuedByTrustedCa(certificates, trusted)) {
+        throw new ForbiddenException(
+          'Client certificate is not issued by a CA trusted on the device profile',
+        );
+      }
+    }
+
+    return this.acceptCertificate(credentials, request);
+  }
+
+  private async findByCredentialsId(
+    credentialsId: string,
+  ): Promise<DeviceCredentials | null> {
+    return this.credentialsRepository
+      .createQueryBuilder('creds')
+      .addSelect('creds.credentialsValue')
+      .leftJoinAndSelect('creds.device', 'device')
+      .leftJoinAndSelect('device.deviceProfile', 'deviceProfile')
+      .where('creds.credentialsId = :credentialsId', { credentialsId })
+      .getOne();
+  }
+
+  // Certificate clients identify as their device (client ID / username =
+  // deviceKey) so the ACL hook can resolve them without the certificate.
+  private acceptCertificate(
+    credentials: DeviceCredentials,
+    request: MqttAuthRequestDto,
+  ): { device: Device; credentials: DeviceCredentials } {
+    const deviceKey = credentials.device?.deviceKey;
+    const mismatch = [request.clientId, request.username].some(
+      (value) => value && value !== deviceKey,
+    );
+
+    if (mismatch) {
+      throw new ForbiddenException(
+        'Certificate clients must use their deviceKey as client ID and username',
+      );
+    }
+
+    return this.acceptCredentials(credentials);
+  }
+
+  private acceptCredentials(credentials: DeviceCredentials): {
+    device: Device;
+    credentials: DeviceCredentials;
+  } {
     if (!credentials.device) {
       throw new ForbiddenException('Device not found for these credentials');
     }
@@ -485,6 +739,85 @@ client.on('connect', () => {
     return { device: credentials.device, credentials };
   }
 
+  // Passwords issued before hashing was introduced are still stored in plain
+  private async passwordMatches(
+    credentials: DeviceCredentials,
+    password: string | undefined,
+  ): Promise<boolean> {
+    const stored = credentials.credentialsValue;
+    if (!stored || password === undefined) return false;
+
+    return /^\$2[aby]\$/.test(stored)
+      ? bcrypt.compare(password, stored)
+      : stored === password;
+  }
+
+  // ── X.509 helpers ─────────────────────────────────────────────────────────
+
+  private parseCertificate(pem: string): X509Certificate {
+    const [certificate] = this.parseCertificateBundle(pem);
+    if (!certificate) {
+      throw new BadRequestException('Invalid PEM certificate');
+    }
+    return certificate;
+  }
+
+  private parseCertificateBundle(pem: string): X509Certificate[] {
+    try {
+      return (pem.match(PEM_CERTIFICATE) ?? []).map(
+        (block) => new X509Certificate(block),
+      );
+    } catch {
+      throw new BadRequestException('Invalid PEM certificate');
+    }
+  }
+
+  private fingerprintOf(certificate: X509Certificate): string {
+    return certificate.fingerprint256.replace(/:/g, '').toLowerCase();
+  }
+
+  private commonNameOf(certificate: X509Certificate): string | undefined {
+    return certificate.subject
+      .split('\n')
+      .find((part) => part.startsWith('CN='))
+      ?.slice(3);
+  }
+
+  private isCurrentlyValid(certificate: X509Certificate): boolean {
+    const now = Date.now();
+    return (
+      new Date(certificate.validFrom).getTime() <= now &&
+      now <= new Date(certificate.validTo).getTime()
+    );
+  }
+
+  /** Walk leaf → intermediates until a certificate is signed by a trusted CA */
+  private isIssuedByTrustedCa(
+    chain: X509Certificate[],
+    trusted: X509Certificate[],
+  ): boolean {
+    const signedBy = (cert: X509Certificate, issuer: X509Certificate) =>
+      cert.checkIssued(issuer) && cert.verify(issuer.publicKey);
+
+    let current = chain[0];
+    const intermediates = chain.slice(1);
+
+    for (let depth = 0; depth <= intermediates.length; depth++) {
+      if (trusted.some((ca) => signedBy(current, ca))) return true;
+
+      const issuer = intermediates.find(
+        (candidate) =>
+          candidate.ca &&
+          this.isCurrentlyValid(candidate) &&
+          signedBy(current, candidate),
+      );
+      if (!issuer) return false;
+      current = issuer;
+    }
+
+    return false;
+  }
+
   // ── Delete (called explicitly before soft-removing the device) ────────────
 
   async deleteByDeviceId(deviceId: string): Promise<void> {
@@ -494,6 +827,22 @@ client.on('connect', () => {
 
   // ── Access control ────────────────────────────────────────────────────────
 
+  private async findAccessibleDevice(
+    deviceId: string,
+    user: User,
+  ): Promise<Device> {
+    const device = await this.deviceRepository.findOne({
+      where: { id: deviceId },
+    });
+
+    if (!device) {
+      throw new NotFoundException(`Device not found: ${deviceId}`);
+    }
+
+    this.verifyAccess(device, user);
+    return device;
+  }
+
   private verifyAccess(device: Device, user: User): void {
     if (user.role === UserRole.SUPER_ADMIN) return;
 
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Throttle } from '@nestjs/throttler';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { DeviceProvisioningService } from './device-provisioning.service';
+import {
+  BulkProvisionDto,
+  ProvisionDeviceDto,
+  ProvisionResponseDto,
+} from './dto/provision-device.dto';
+import { Public } from '@/common/decorators/public.decorator';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { Roles } from '@common/decorators/roles.decorator';
+import { User } from '@modules/users/entities/user.entity';
+import { UserRole } from '@common/enums/index.enum';
+
+// Devices call POST /provision themselves and authenticate with the device
+// profile's provision key and secret. The same flow is available over MQTT
+// on provision/request (see DeviceProvisioningListener).
+
+@ApiTags('device-provisioning')
+@Controller('provision')
+export class DeviceProvisioningController {
+  constructor(
+    private readonly provisioningService: DeviceProvisioningService,
+  ) {}
+
+  @Post()
+  @Public()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Provision a device using its profile provision key and secret',
+  })
+  @ApiResponse({ status: 200, type: ProvisionResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid provision key or secret' })
+  @ApiResponse({
+    status: 403,
+    description: 'Provisioning disabled or device limit reached',
+  })
+  @ApiResponse({ status: 404, description: 'Device is not pre-provisioned' })
+  @ApiResponse({ status: 409, description: 'Device is already provisioned' })
+  provision(@Body() dto: ProvisionDeviceDto): Promise<ProvisionResponseDto> {
+    return this.provisioningService.provision(dto);
+  }
+
+  @Post('bulk')
+  @Roles(UserRole.TENANT_ADMIN, UserRole.SUPER_ADMIN)
+  @ApiBearerAuth()
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Pre-provision devices from a CSV file',
+    description:
+      'Columns: name, devEUI, description, type, protocol, manufacturer, model, location. ' +
+      'Devices receive credentials when they provision themselves.',
+  })
+  @ApiResponse({ status: 403, description: 'Device limit reached' })
+  async bulkPreProvision(
+    @CurrentUser() user: User,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: BulkProvisionDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('CSV file is required');
+    }
+
+    const result = await this.provisioningService.preProvisionFromCsv(
+      user,
+      dto.deviceProfileId,
+      file.buffer.toString('utf-8'),
+    );
+    return { message: 'Devices pre-provisioned successfully', data: result };
+  }
+}
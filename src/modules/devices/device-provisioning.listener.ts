@@ -0,0 +1,66 @@
+// src/modules/devices/device-provisioning.listener.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { MQTTService } from '@/lib/mqtt/mqtt.service';
+import { DeviceProvisioningService } from './device-provisioning.service';
+import {
+  ProvisionDeviceDto,
+  ProvisionResponseDto,
+  ProvisionStatus,
+} from './dto/provision-device.dto';
+
+@Injectable()
+export class DeviceProvisioningListener {
+  private readonly logger = new Logger(DeviceProvisioningListener.name);
+
+  constructor(
+    private readonly provisioningService: DeviceProvisioningService,
+    private readonly mqttService: MQTTService,
+  ) {}
+
+  /**
+   * MQTT provisioning: the device publishes
+   *   { provisionDeviceKey, provisionDeviceSecret, deviceName?, devEUI?, requestId? }
+   * to provision/request and receives the ProvisionResponseDto on
+   *   provision/response/<requestId | devEUI | deviceName>
+   */
+  @OnEvent('device.provision.requested')
+  async handleProvisionRequest(payload: Record<string, any>): Promise<void> {
+    const replyTo: unknown =
+      payload.requestId ?? payload.devEUI ?? payload.deviceName;
+    if (!replyTo || typeof replyTo !== 'string') {
+      this.logger.warn(
+        'Provision request without requestId, devEUI or deviceName',
+      );
+      return;
+    }
+
+    let response: ProvisionResponseDto;
+    try {
+      const dto = plainToInstance(ProvisionDeviceDto, payload);
+      const errors = await validate(dto);
+      if (errors.length > 0) {
+        const messages = errors.flatMap((e) =>
+          Object.values(e.constraints ?? {}),
+        );
+        throw new Error(messages.join(', '));
+      }
+
+      response = await this.provisioningService.provision(dto);
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.warn(`Provision request ${replyTo} failed: ${message}`);
+      response = { status: ProvisionStatus.FAILURE, errorMsg: message };
+    }
+
+    await this.mqttService
+      .publish(`provision/response/${replyTo}`, response)
+      .catch((error) =>
+        this.logger.error(
+          `Provision response ${replyTo} not delivered: ${(error as Error).message}`,
+        ),
+      );
+  }
+}
@@ -0,0 +1,440 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+  Logger,
+  Inject,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import * as crypto from 'crypto';
+import { Device, DeviceProfile, User } from '@modules/index.entities';
+import { DeviceProtocol } from './entities/device.entity';
+import {
+  DeviceProvisionType,
+  DeviceStatus,
+  DeviceType,
+  UserRole,
+} from '@common/enums/index.enum';
+import { parseCsv } from '@common/utils/helpers';
+import { DeviceCredentialsService } from './device-credentials.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { UsersService } from '@modules/users/users.service';
+import {
+  BulkProvisionResult,
+  ProvisionDeviceDto,
+  ProvisionResponseDto,
+  ProvisionStatus,
+} from './dto/provision-device.dto';
+
+type ProvisionMode =
+  | 'DISABLED'
+  | 'ALLOW_CREATE_NEW_DEVICES'
+  | 'CHECK_PRE_PROVISIONED_DEVICES';
+
+export interface AnnouncedDevice {
+  name: string;
+  type: DeviceType;
+  protocol: DeviceProtocol;
+  metadata?: Record<string, any>;
+}
+
+// provisionConfiguration.type wins; the provisionType column is the fallback
+// for profiles created before the configuration block existed.
+const PROVISION_TYPE_TO_MODE: Record<DeviceProvisionType, ProvisionMode> = {
+  [DeviceProvisionType.DISABLED]: 'DISABLED',
+  [DeviceProvisionType.ALLOW_CREATE_NEW]: 'ALLOW_CREATE_NEW_DEVICES',
+  [DeviceProvisionType.CHECK_PRE_PROVISIONED]: 'CHECK_PRE_PROVISIONED_DEVICES',
+};
+
+@Injectable()
+export class DeviceProvisioningService {
+  private readonly logger = new Logger(DeviceProvisioningService.name);
+
+  constructor(
+    @InjectRepository(Device)
+    private deviceRepository: Repository<Device>,
+    @InjectRepository(DeviceProfile)
+    private profileRepository: Repository<DeviceProfile>,
+    @Inject(forwardRef(() => UsersService))
+    private userService: UsersService,
+    private credentialsService: DeviceCredentialsService,
+    private subscriptionsService: SubscriptionsService,
+    private eventEmitter: EventEmitter2,
+  ) {}
+
+  // ── Self-provisioning ─────────────────────────────────────────────────────
+  // ALLOW_CREATE_NEW_DEVICES      → claim a pre-provisioned device or create one
+  // CHECK_PRE_PROVISIONED_DEVICES → only claim devices registered beforehand
+  // A device that already holds credentials cannot provision again.
+
+  async provision(dto: ProvisionDeviceDto): Promise<ProvisionResponseDto> {
+    const deviceName = dto.deviceName?.trim();
+    const devEUI = dto.devEUI?.trim();
+
+    if (!deviceName && !devEUI) {
+      throw new BadRequestException('Either deviceName or devEUI is required');
+    }
+
+    const profile = await this.findProfileByKey(
+      dto.provisionDeviceKey,
+      dto.provisionDeviceSecret,
+    );
+    const mode = this.getProvisionMode(profile);
+
+    if (mode === 'DISABLED') {
+      throw new ForbiddenException(
+        `Provisioning is disabled for device profile "${profile.name}"`,
+      );
+    }
+
+    const existing = await this.findProfileDevice(profile, deviceName, devEUI);
+
+    if (existing) {
+      if (await this.credentialsService.hasCredentials(existing.id)) {
+        throw new ConflictException(
+          `Device ${existing.name} is already provisioned`,
+        );
+      }
+
+      const { password } =
+        await this.credentialsService.createCredentials(existing);
+      this.logger.log(`Pre-provisioned device claimed: ${existing.deviceKey}`);
+      return this.buildResponse(existing, false, password);
+    }
+
+    if (mode === 'CHECK_PRE_PROVISIONED_DEVICES') {
+      throw new NotFoundException(
+        `Device ${deviceName ?? devEUI} is not pre-provisioned in profile "${profile.name}"`,
+      );
+    }
+
+    const device = await this.createProfileDevice(profile, {
+      name: deviceName ?? devEUI!,
+      type: dto.type ?? DeviceType.SENSOR,
+      protocol: dto.protocol ?? DeviceProtocol.GENERIC_MQTT,
+      metadata: devEUI ? { devEUI } : {},
+    });
+
+    const { password } =
+      await this.credentialsService.createCredentials(device);
+    this.logger.log(
+      `Device provisioned: ${device.deviceKey} (profile ${profile.name})`,
+    );
+    this.eventEmitter.emit('device.provisioned', { device, profile });
+
+    return this.buildResponse(device, true, password);
+  }
+
+  // ── Announced devices ─────────────────────────────────────────────────────
+  // Devices announced by a protocol (Sparkplug births) rather than asking for
+  // credentials — they arrive over an already authenticated connection.
+  // Same provision modes as provision(); null when the profile does not
+  // admit the device.
+
+  async registerAnnounced(
+    profile: DeviceProfile,
+    announced: AnnouncedDevice,
+  ): Promise<Device | null> {
+    const mode = this.getProvisionMode(profile);
+    if (mode === 'DISABLED') return null;
+
+    const existing = await this.findProfileDevice(profile, announced.name);
+    if (existing) {
+      existing.protocol = announced.protocol;
+      existing.metadata = { ...existing.metadata, ...announced.metadata };
+      await this.deviceRepository.update(existing.id, {
+        protocol: existing.protocol,
+        metadata: existing.metadata,
+      });
+      this.logger.log(`Pre-provisioned device claimed: ${existing.deviceKey}`);
+      return existing;
+    }
+
+    if (mode === 'CHECK_PRE_PROVISIONED_DEVICES') return null;
+
+    const device = await this.createProfileDevice(profile, announced);
+    this.logger.log(
+      `Device registered: ${device.deviceKey} (profile ${profile.name})`,
+    );
+    this.eventEmitter.emit('device.provisioned', { device, profile });
+    return device;
+  }
+
+  // ── Bulk pre-provisioning ─────────────────────────────────────────────────
+  // Registers devices without credentials; each one receives credentials when
+  // it first provisions itself with the profile key and secret.
+
+  async preProvisionFromCsv(
+    user: User,
+    deviceProfileId: string,
+    content: string,
+  ): Promise<BulkProvisionResult> {
+    const profile = await this.profileRepository.findOne({
+      where: { id: deviceProfileId },
+    });
+
+    if (
+      !profile ||
+      (user.role !== UserRole.SUPER_ADMIN && profile.tenantId !== user.tenantId)
+    ) {
+      throw new NotFoundException(
+        `Device profile ${deviceProfileId} not found`,
+      );
+    }
+
+    const rows = parseCsv(content);
+    if (rows.length === 0) {
+      throw new BadRequestException('CSV file contains no device rows');
+    }
+
+    const result: BulkProvisionResult = { created: 0, skipped: 0, errors: [] };
+    const pending: Device[] = [];
+    const seen = new Set<string>();
+
+    rows.forEach((row, index) => {
+      // Row numbers match the file: line 1 is the header
+      const line = index + 2;
+      const name = row.name?.trim();
+      const devEUI = row.devEUI?.trim();
+
+      if (!name && !devEUI) {
+        result.errors.push({
+          row: line,
+          error: 'Either name or devEUI is required',
+        });
+        return;
+      }
+
+      const type = (row.type?.trim() || DeviceType.SENSOR) as DeviceType;
+      if (!Object.values(DeviceType).includes(type)) {
+        result.errors.push({
+          row: line,
+          error: `Unknown device type: ${type}`,
+        });
+        return;
+      }
+
+      const protocol = (row.protocol?.trim() ||
+        DeviceProtocol.GENERIC_MQTT) as DeviceProtocol;
+      if (!Object.values(DeviceProtocol).includes(protocol)) {
+        result.errors.push({
+          row: line,
+          error: `Unknown protocol: ${protocol}`,
+        });
+        return;
+      }
+
+      const identity = devEUI ? `eui:${devEUI.toLowerCase()}` : `name:${name}`;
+      if (seen.has(identity)) {
+        result.errors.push({
+          row: line,
+          error: `Duplicate device ${devEUI ?? name}`,
+        });
+        return;
+      }
+      seen.add(identity);
+
+      pending.push(
+        this.deviceRepository.create({
+          deviceKey: this.generateDeviceKey(),
+          name: name || devEUI,
+          description: row.description?.trim() || undefined,
+          type,
+          protocol,
+          manufacturer: row.manufacturer?.trim() || undefined,
+          model: row.model?.trim() || undefined,
+          location: row.location?.trim() || undefined,
+          status: DeviceStatus.INACTIVE,
+          tenantId: profile.tenantId,
+          userId: user.id,
+          deviceProfileId: profile.id,
+          metadata: devEUI ? { devEUI } : {},
+        }),
+      );
+    });
+
+    // Devices already registered under the profile are skipped, not duplicated
+    const fresh: Device[] = [];
+    for (const device of pending) {
+      const devEUI = device.metadata?.devEUI as string | undefined;
+      const existing = await this.findProfileDevice(
+        profile,
+        devEUI ? undefined : device.name,
+        devEUI,
+      );
+      if (existing) result.skipped++;
+      else fresh.push(device);
+    }
+
+    if (fresh.length > 0) {
+      await this.assertDeviceCapacity(profile.tenantId, fresh.length);
+      await this.deviceRepository.save(fresh);
+      await this.subscriptionsService.incrementTenantUsage(
+        profile.tenantId,
+        'devices',
+        fresh.length,
+      );
+    }
+
+    result.created = fresh.length;
+    this.logger.log(
+      `Pre-provisioned ${result.created} device(s) for profile ${profile.name} ` +
+        `(${result.skipped} skipped, ${result.errors.length} rejected)`,
+    );
+    return result;
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private async findProfileByKey(
+    key: string,
+    secret: string,
+  ): Promise<DeviceProfile> {
+    const profile = await this.profileRepository
+      .createQueryBuilder('profile')
+      .where(`profile.provisionConfiguration ->> 'provisionDeviceKey' = :key`, {
+        key,
+      })
+      .getOne();
+
+    const expected = profile?.provisionConfiguration?.provisionDeviceSecret;
+    if (!profile || !expected || !this.secretsMatch(expected, secret)) {
+      throw new UnauthorizedException('Invalid provision key or secret');
+    }
+
+    return profile;
+  }
+
+  private async createProfileDevice(
+    profile: DeviceProfile,
+    fields: AnnouncedDevice,
+  ): Promise<Device> {
+    await this.assertDeviceCapacity(profile.tenantId, 1);
+
+    const owner = await this.resolveOwner(profile);
+    const device = await this.deviceRepository.save(
+      this.deviceRepository.create({
+        deviceKey: this.generateDeviceKey(),
+        name: fields.name,
+        type: fields.type,
+        protocol: fields.protocol,
+        status: DeviceStatus.INACTIVE,
+        tenantId: profile.tenantId,
+        userId: owner,
+        deviceProfileId: profile.id,
+        metadata: {
+          ...fields.metadata,
+          provisionedAt: new Date().toISOString(),
+        },
+      }),
+    );
+
+    void this.subscriptionsService.incrementTenantUsage(
+      profile.tenantId,
+      'devices',
+      1,
+    );
+    return device;
+  }
+
+  private getProvisionMode(profile: DeviceProfile): ProvisionMode {
+    return (
+      profile.provisionConfiguration?.type ??
+      PROVISION_TYPE_TO_MODE[profile.provisionType] ??
+      'DISABLED'
+    );
+  }
+
+  /** devEUI is the stronger identity — names are not unique within a tenant */
+  private async findProfileDevice(
+    profile: DeviceProfile,
+    deviceName?: string,
+    devEUI?: string,
+  ): Promise<Device | null> {
+    const qb = this.deviceRepository
+      .createQueryBuilder('device')
+      .where('device.tenantId = :tenantId', { tenantId: profile.tenantId })
+      .andWhere('device.deviceProfileId = :profileId', {
+        profileId: profile.id,
+      });
+
+    if (devEUI) {
+      qb.andWhere(`LOWER(device.metadata ->> 'devEUI') = LOWER(:devEUI)`, {
+        devEUI,
+      });
+    } else {
+      qb.andWhere('device.name = :name', { name: deviceName });
+    }
+
+    return qb.getOne();
+  }
+
+  private async assertDeviceCapacity(
+    tenantId: string,
+    required: number,
+  ): Promise<void> {
+    const canCreate = await this.subscriptionsService.canTenantPerformAction(
+      tenantId,
+      'devices',
+    );
+    const subscription = canCreate
+      ? await this.subscriptionsService.findByTenantId(tenantId)
+      : null;
+    const remaining = subscription
+      ? subscription.getRemainingCapacity('devices')
+      : 0;
+
+    if (required > remaining) {
+      throw new ForbiddenException(
+        `Device limit reached: ${required} requested, ${remaining} remaining. ` +
+          'Please upgrade your subscription to add more devices.',
+      );
+    }
+  }
+
+  /** Profile creator, else the first tenant admin */
+  private async resolveOwner(profile: DeviceProfile): Promise<string> {
+    if (profile.createdBy) return profile.createdBy;
+
+    const users = await this.userService.findByTenant(profile.tenantId);
+    const admin = users.find((u) => u.role === UserRole.TENANT_ADMIN);
+    if (!admin) {
+      throw new ForbiddenException(
+        `Tenant of device profile "${profile.name}" has no admin to own provisioned devices`,
+      );
+    }
+    return admin.id;
+  }
+
+  private async buildResponse(
+    device: Device,
+    created: boolean,
+    password?: string,
+  ): Promise<ProvisionResponseDto> {
+    return {
+      status: ProvisionStatus.SUCCESS,
+      deviceKey: device.deviceKey,
+      created,
+      credentials: await this.credentialsService.getDeviceConfiguration(
+        device,
+        password,
+      ),
+    };
+  }
+
+  private generateDeviceKey(): string {
+    return `dev_${crypto.randomBytes(8).toString('hex')}`;
+  }
+
+  private secretsMatch(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual ?? '');
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+}
@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   UseGuards,
@@ -21,6 +22,8 @@ import {
 import { DevicesService } from './devices.service';
 import { CreateDeviceDto } from './dto/create-device.dto';
 import { UpdateDeviceDto } from './dto/update-device.dto';
+import { UpdateDeviceCredentialsDto } from './dto/update-device-credentials.dto';
+import { ConnectivityQueryDto } from './dto/connectivity-query.dto';
 import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
 import { CurrentUser, ResolvedCustomerId, ResolvedTenantId } from '@common/decorators/current-user.decorator';
 import { User } from '@modules/users/entities/user.entity';
@@ -108,7 +111,7 @@ async getDeviceCapabilities(
  
   const capabilities =
     (codecId      ? this.codecRegistry.getCapabilities(codecId)                    : null) ??
-    (manufacturer && model ? this.codecRegistry.getCapabilitiesByModel(manufacturer, model) : null);
+    (manufacturer && model ? this.codecRegistry.getCapabilitiesByModel(manufacturer, model, device.tenantId) : null);
  
   return {
     message: 'Device capabilities retrieved successfully',
@@ -162,6 +165,18 @@ async getDeviceCapabilities(
     return this.devicesService.deactivate(id, user);
   }
 
+  @Get(':id/connectivity')
+  @ApiOperation({
+    summary: 'Get online/offline history and uptime of a device',
+  })
+  getConnectivity(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Query() query: ConnectivityQueryDto,
+  ) {
+    return this.devicesService.getConnectivity(id, user, query.from, query.to);
+  }
+
   @Get(':id/credentials')
   @ApiOperation({ summary: 'Get device MQTT credentials' })
   getCredentials(@CurrentUser() user: User, @Param('id', ParseIdPipe) id: string) {
@@ -175,6 +190,20 @@ async getDeviceCapabilities(
     return this.devicesService.regenerateCredentials(id, user);
   }
 
+  @Put(':id/credentials')
+  @ApiOperation({
+    summary: 'Replace device credentials (access token, MQTT basic or X.509 certificate)',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid certificate or missing CN' })
+  @ApiResponse({ status: 409, description: 'Username or certificate already in use' })
+  updateCredentials(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body() dto: UpdateDeviceCredentialsDto,
+  ) {
+    return this.devicesService.updateCredentials(id, user, dto);
+  }
+
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete device' })
@@ -3,8 +3,17 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { DevicesService } from './devices.service';
 import { DevicesController } from './devices.controller';
 import { DeviceCredentialsService } from './device-credentials.service';
+import { DeviceProvisioningService } from './device-provisioning.service';
+import { DeviceProvisioningController } from './device-provisioning.controller';
+import { DeviceProvisioningListener } from './device-provisioning.listener';
+import { DeviceAclService } from './device-acl.service';
+import { MqttAuthController } from './mqtt-auth.controller';
+import { DeviceConnectivityService } from './device-connectivity.service';
 import { Device } from './entities/device.entity';
 import { DeviceCredentials } from './entities/device-credentials.entity';
+import { DeviceConnectivityEvent } from './entities/device-connectivity-event.entity';
+import { Tenant } from '@modules/tenants/entities/tenant.entity';
+import { DeviceProfile } from '@modules/profiles/entities/device-profile.entity';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
 import { ProtocolsModule } from '../protocols/protocols.module';
 import { UsersModule } from '../users/users.module';
@@ -15,7 +24,13 @@ import { CodecModule } from './codecs/codec.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Device, DeviceCredentials]),
+    TypeOrmModule.forFeature([
+      Device,
+      DeviceCredentials,
+      DeviceProfile,
+      DeviceConnectivityEvent,
+      Tenant,
+    ]),
     SubscriptionsModule,
     RolesModule,
     ProtocolsModule,
@@ -24,8 +39,24 @@ import { CodecModule } from './codecs/codec.module';
     UsersModule,
     MailModule,
   ],
-  controllers: [DevicesController],
-  providers: [DevicesService, DeviceCredentialsService],
-  exports: [DevicesService, DeviceCredentialsService],
+  controllers: [
+    DevicesController,
+    DeviceProvisioningController,
+    MqttAuthController,
+  ],
+  providers: [
+    DevicesService,
+    DeviceCredentialsService,
+    DeviceProvisioningService,
+    DeviceProvisioningListener,
+    DeviceAclService,
+    DeviceConnectivityService,
+  ],
+  exports: [
+    DevicesService,
+    DeviceCredentialsService,
+    DeviceProvisioningService,
+    DeviceConnectivityService,
+  ],
 })
 export class DevicesModule {}
\ No newline at end of file
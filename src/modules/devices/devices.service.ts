@@ -6,25 +6,26 @@ import {
   ForbiddenException,
   Logger,
   Inject,
-  forwardRef,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, In, LessThan } from 'typeorm';
+import { Repository, In } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { Device, User } from '@modules/index.entities';
 import { DeviceStatus } from '@common/enums/index.enum';
 import { CreateDeviceDto } from '@modules/devices/dto/create-device.dto';
 import { UpdateDeviceDto } from '@modules/devices/dto/update-device.dto';
 import { DeviceCredentialsDto } from '@modules/devices/dto/device-credentials.dto';
+import { UpdateDeviceCredentialsDto } from '@modules/devices/dto/update-device-credentials.dto';
 import { PaginationDto, PaginatedResponseDto } from '@/common/dto/pagination.dto';
 import { UserRole } from '@common/enums/index.enum';
 import { DeviceCredentialsService } from './device-credentials.service';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
-import { Cron, CronExpression } from '@nestjs/schedule';
-import { UsersService } from '@modules/users/users.service';
-import { EventEmitter2 } from '@nestjs/event-emitter';
 import * as crypto from 'crypto';
 import { CodecRegistryService } from './codecs/codec-registry.service';
+import {
+  ConnectivityReport,
+  DeviceConnectivityService,
+} from './device-connectivity.service';
 
 @Injectable()
 export class DevicesService {
@@ -35,16 +36,14 @@ export class DevicesService {
     private deviceRepository: Repository<Device>,
     @Inject(ConfigService)
     private configService: ConfigService,
-     @Inject(forwardRef(() => UsersService))
-    private userService: UsersService,
-    @Inject(EventEmitter2)
-    private eventEmitter: EventEmitter2,
     @Inject(DeviceCredentialsService)
     private credentialsService: DeviceCredentialsService,
     @Inject(CodecRegistryService)
     private codecRegistry: CodecRegistryService,
     @Inject(SubscriptionsService)
     private subscriptionsService: SubscriptionsService,
+    @Inject(DeviceConnectivityService)
+    private connectivityService: DeviceConnectivityService,
   ) {}
 
   // ── Create ────────────────────────────────────────────────────────────────
@@ -67,7 +66,11 @@ export class DevicesService {
     let resolvedCodecId: string | undefined = dto.metadata?.codecId as string | undefined;
  
     if (dto.manufacturer && dto.model && !resolvedCodecId) {
-      resolvedCodecId = this.codecRegistry.resolveCodecId(dto.manufacturer, dto.model);
+      resolvedCodecId = this.codecRegistry.resolveCodecId(
+        dto.manufacturer,
+        dto.model,
+        user.tenantId,
+      );
  
       if (!resolvedCodecId) {
         // Don't hard-fail — just log a warning. The device is still created;
@@ -110,12 +113,14 @@ export class DevicesService {
     );
 
     // Create credentials — pass the full user object so verifyAccess works
-    await this.credentialsService.createCredentials(savedDevice);
+    const { password } =
+      await this.credentialsService.createCredentials(savedDevice);
 
     // Build full MQTT config for the response (user is always the creator here)
     const credentials = await this.credentialsService.getMqttConfiguration(
       savedDevice.id,
       user, // full User entity — not a partial object
+      password,
     );
 
     return { device: savedDevice, credentials };
@@ -269,6 +274,15 @@ export class DevicesService {
     return this.credentialsService.regenerateCredentials(id, user);
   }
 
+  async updateCredentials(
+    id: string,
+    user: User,
+    dto: UpdateDeviceCredentialsDto,
+  ): Promise<DeviceCredentialsDto> {
+    await this.findOne(id, user); // access check
+    return this.credentialsService.updateCredentials(id, user, dto);
+  }
+
   // ── Activity ──────────────────────────────────────────────────────────────
 
   async updateActivity(deviceKey: string): Promise<void> {
@@ -281,17 +295,36 @@ export class DevicesService {
 
   async updateLastSeen(deviceKey: string, user: User): Promise<void> {
     const device = await this.findByDeviceKey(deviceKey, user);
-    const wasOffline = device.status === DeviceStatus.OFFLINE;
 
     await this.deviceRepository.update(
       { deviceKey },
-      { lastSeenAt: new Date(), status: DeviceStatus.ACTIVE },
+      { lastSeenAt: new Date() },
     );
 
-    if (wasOffline) {
-      const deviceUser = await this.userService.findOne(device.userId);
-      this.handleDeviceOnline(device, deviceUser);
+    // OFFLINE → ACTIVE transition and the next offline deadline
+    await this.connectivityService.recordActivity(device);
+  }
+
+  // ── Connectivity history ──────────────────────────────────────────────────
+
+  async getConnectivity(
+    id: string,
+    user: User,
+    from?: string,
+    to?: string,
+  ): Promise<ConnectivityReport> {
+    const device = await this.findOne(id, user);
+
+    const end = to ? new Date(to) : new Date();
+    const start = from
+      ? new Date(from)
+      : new Date(end.getTime() - 24 * 60 * 60 * 1000);
+
+    if (start >= end) {
+      throw new BadRequestException('"from" must be before "to"');
     }
+
+    return this.connectivityService.getConnectivityReport(device, start, end);
   }
 
   // ── Verify credentials (called by MQTT gateway auth hook) ─────────────────
@@ -320,10 +353,12 @@ export class DevicesService {
       qb.clone().andWhere('device.status = :s', { s: DeviceStatus.OFFLINE }).getCount(),
     ]);
 
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
+    // ACTIVE devices go OFFLINE once their own inactivity timeout passes
+    // (DeviceConnectivityService), so online = ACTIVE and seen at least once
     const online = await qb
       .clone()
-      .andWhere('device.lastSeenAt > :ts', { ts: fiveMinutesAgo })
+      .andWhere('device.status = :s', { s: DeviceStatus.ACTIVE })
+      .andWhere('device.lastSeenAt IS NOT NULL')
       .getCount();
 
     return {
@@ -390,29 +425,6 @@ export class DevicesService {
     await this.deviceRepository.update({ id: In(deviceIds) }, { status });
   }
 
-  // ── Offline cron ──────────────────────────────────────────────────────────
-
-  @Cron(CronExpression.EVERY_5_MINUTES)
-  async checkOfflineDevices(): Promise<void> {
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-
-    const staleDevices = await this.deviceRepository.find({
-      where: { status: DeviceStatus.ACTIVE, lastSeenAt: LessThan(fiveMinutesAgo) },
-    });
-
-    for (const device of staleDevices) {
-      device.status = DeviceStatus.OFFLINE;
-      await this.deviceRepository.save(device);
-
-      const user = await this.userService.findOne(device.userId);
-      this.handleDeviceOffline(device, user);
-    }
-
-    if (staleDevices.length > 0) {
-      this.logger.log(`Marked ${staleDevices.length} device(s) as offline`);
-    }
-  }
-
   // ── Private helpers ───────────────────────────────────────────────────────
 
   /**
@@ -453,14 +465,4 @@ export class DevicesService {
       throw new ForbiddenException('Only admins can perform this action');
     }
   }
-
-  private handleDeviceOffline(device: Device, user: User): void {
-    this.eventEmitter.emit('device.offline', { device, user });
-    this.logger.warn(`Device offline: ${device.name} (${device.id})`);
-  }
-
-  private handleDeviceOnline(device: Device, user: User): void {
-    this.eventEmitter.emit('device.connected', { device, user });
-    this.logger.log(`Device online: ${device.name} (${device.id})`);
-  }
-}
\ No newline at end of file
+}
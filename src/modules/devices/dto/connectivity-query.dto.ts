@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+// ─── Connectivity history / uptime window ───────────────────────────────────
+// Defaults to the 24 hours before `to` (or now).
+
+export class ConnectivityQueryDto {
+  @ApiPropertyOptional({ example: '2026-10-01T00:00:00Z' })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({ example: '2026-10-08T00:00:00Z' })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+}
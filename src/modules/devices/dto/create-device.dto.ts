@@ -9,6 +9,10 @@ import {
   IsObject,
   MaxLength,
   IsArray,
+  IsInt,
+  IsUUID,
+  Min,
+  Max,
 } from 'class-validator';
 import { DeviceType, DeviceConnectionType } from '@common/enums/index.enum';
 import { DeviceProtocol } from '../entities/device.entity';
@@ -38,6 +42,7 @@ export class CreateDeviceDto {
   // GENERIC_MQTT       → devices/{deviceKey}/telemetry topics, JSON payloads
   // LORAWAN_MILESIGHT  → application/1/device/{devEUI}/rx topics, hex payloads
   // LORAWAN_CHIRPSTACK → application/{appId}/device/{devEUI}/event/up, JSON
+  // LORAWAN_TTS        → v3/{app}@{tenant}/devices/{id}/up via a network server
   // HTTP / COAP        → handled by separate adapters (future)
 
   @ApiProperty({
@@ -123,4 +128,25 @@ export class CreateDeviceDto {
   @IsString({ each: true })
   @IsOptional()
   tags?: string[];
-}
\ No newline at end of file
+
+  @ApiPropertyOptional({
+    example: 3600,
+    description:
+      'Seconds without uplink before the device is marked OFFLINE. ' +
+      'Defaults to the device profile, then the tenant setting.',
+  })
+  @IsInt()
+  @Min(30)
+  @Max(30 * 24 * 3600)
+  @IsOptional()
+  inactivityTimeout?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'LoRaWAN network server (ChirpStack / TTS) of the device. ' +
+      'Defaults to the tenant default network server.',
+  })
+  @IsUUID()
+  @IsOptional()
+  networkServerId?: string;
+}
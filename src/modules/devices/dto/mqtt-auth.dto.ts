@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsEnum, IsOptional } from 'class-validator';
+
+// ─── Broker HTTP hooks (EMQX / mosquitto-go-auth) ───────────────────────────
+// Field names are mapped in the broker config, e.g. for EMQX:
+//   { "clientId": "${clientid}", "username": "${username}",
+//     "password": "${password}", "certCommonName": "${cert_common_name}" }
+
+export class MqttAuthRequestDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  clientId?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  username?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  password?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Client certificate (PEM), optionally followed by intermediates',
+  })
+  @IsString()
+  @IsOptional()
+  certificate?: string;
+
+  @ApiPropertyOptional({
+    description: 'SHA-256 fingerprint of the client certificate',
+  })
+  @IsString()
+  @IsOptional()
+  certFingerprint?: string;
+
+  @ApiPropertyOptional({
+    description: 'Subject CN of a certificate the broker already verified',
+  })
+  @IsString()
+  @IsOptional()
+  certCommonName?: string;
+}
+
+export enum MqttAclAction {
+  PUBLISH = 'publish',
+  SUBSCRIBE = 'subscribe',
+}
+
+export class MqttAclRequestDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  clientId?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  username?: string;
+
+  @ApiProperty({ example: 'devices/dev_1a2b3c4d5e6f7a8b/telemetry' })
+  @IsString()
+  @IsNotEmpty()
+  topic: string;
+
+  @ApiProperty({ enum: MqttAclAction })
+  @IsEnum(MqttAclAction)
+  action: MqttAclAction;
+}
+
+// `result` is read by EMQX, `ok` by mosquitto-go-auth (http_response_mode json)
+export interface MqttHookResponse {
+  result: 'allow' | 'deny';
+  ok: boolean;
+  is_superuser: boolean;
+  error?: string;
+}
@@ -0,0 +1,99 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsOptional,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { DeviceType } from '@common/enums/index.enum';
+import { DeviceProtocol } from '../entities/device.entity';
+import { DeviceCredentialsDto } from './device-credentials.dto';
+
+// ─── Device self-provisioning ────────────────────────────────────────────────
+// Sent by the device itself over HTTP (POST /provision) or MQTT
+// (provision/request). The profile key/secret replace user authentication.
+
+export class ProvisionDeviceDto {
+  @ApiProperty({ example: 'temp-sensor-key' })
+  @IsString()
+  @IsNotEmpty()
+  provisionDeviceKey: string;
+
+  @ApiProperty({ example: 'temp-sensor-secret' })
+  @IsString()
+  @IsNotEmpty()
+  provisionDeviceSecret: string;
+
+  @ApiPropertyOptional({
+    example: 'Warehouse Sensor 07',
+    description: 'Device name. Either deviceName or devEUI is required.',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  deviceName?: string;
+
+  @ApiPropertyOptional({
+    example: '24E124136B502217',
+    description: 'LoRaWAN devEUI. Either deviceName or devEUI is required.',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(32)
+  devEUI?: string;
+
+  @ApiPropertyOptional({ enum: DeviceType, default: DeviceType.SENSOR })
+  @IsEnum(DeviceType)
+  @IsOptional()
+  type?: DeviceType;
+
+  @ApiPropertyOptional({
+    enum: DeviceProtocol,
+    default: DeviceProtocol.GENERIC_MQTT,
+  })
+  @IsEnum(DeviceProtocol)
+  @IsOptional()
+  protocol?: DeviceProtocol;
+}
+
+export enum ProvisionStatus {
+  SUCCESS = 'SUCCESS',
+  FAILURE = 'FAILURE',
+}
+
+export class ProvisionResponseDto {
+  @ApiProperty({ enum: ProvisionStatus })
+  status: ProvisionStatus;
+
+  @ApiPropertyOptional({ example: 'dev_1a2b3c4d5e6f7a8b' })
+  deviceKey?: string;
+
+  @ApiPropertyOptional({ description: 'True when a new device was created' })
+  created?: boolean;
+
+  @ApiPropertyOptional({ type: DeviceCredentialsDto })
+  credentials?: DeviceCredentialsDto;
+
+  @ApiPropertyOptional({ example: 'Invalid provision key or secret' })
+  errorMsg?: string;
+}
+
+// ─── Bulk pre-provisioning from CSV ──────────────────────────────────────────
+// Columns: name, devEUI, description, type, protocol, manufacturer, model,
+// location. Either name or devEUI is required per row.
+
+export class BulkProvisionDto {
+  @ApiProperty({
+    description: 'Device profile the devices are registered under',
+  })
+  @IsUUID()
+  deviceProfileId: string;
+}
+
+export interface BulkProvisionResult {
+  created: number;
+  skipped: number;
+  errors: Array<{ row: number; error: string }>;
+}
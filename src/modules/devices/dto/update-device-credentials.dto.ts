@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsEnum,
+  IsOptional,
+  MaxLength,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import {
+  CredentialsType,
+  X509Mode,
+} from '../entities/device-credentials.entity';
+
+// ─── Replace the credentials of a device ────────────────────────────────────
+// ACCESS_TOKEN     → a new token is generated
+// MQTT_BASIC       → username required; password generated when omitted
+// X509_CERTIFICATE → LEAF needs the device certificate, CHAIN its CN
+
+export class UpdateDeviceCredentialsDto {
+  @ApiProperty({ enum: CredentialsType })
+  @IsEnum(CredentialsType)
+  credentialsType: CredentialsType;
+
+  @ApiPropertyOptional({
+    example: 'plant-7-plc-01',
+    description: 'MQTT client ID the device must connect with (MQTT_BASIC)',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(128)
+  mqttClientId?: string;
+
+  @ApiPropertyOptional({ example: 'plant7-plc01' })
+  @ValidateIf(
+    (o: UpdateDeviceCredentialsDto) =>
+      o.credentialsType === CredentialsType.MQTT_BASIC,
+  )
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  mqttUsername?: string;
+
+  @ApiPropertyOptional({
+    description: 'Leave empty to generate a random password',
+  })
+  @IsString()
+  @IsOptional()
+  @MinLength(8)
+  @MaxLength(128)
+  mqttPassword?: string;
+
+  @ApiPropertyOptional({ enum: X509Mode, default: X509Mode.LEAF })
+  @IsEnum(X509Mode)
+  @IsOptional()
+  x509Mode?: X509Mode;
+
+  @ApiPropertyOptional({
+    description: 'Device certificate (PEM) — required for X.509 LEAF mode',
+  })
+  @ValidateIf(
+    (o: UpdateDeviceCredentialsDto) =>
+      o.credentialsType === CredentialsType.X509_CERTIFICATE &&
+      o.x509Mode !== X509Mode.CHAIN,
+  )
+  @IsString()
+  @IsNotEmpty()
+  certificate?: string;
+
+  @ApiPropertyOptional({
+    example: 'plc-01.plant7.example.com',
+    description:
+      'Certificate subject CN — required for X.509 CHAIN mode unless certificate is given',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  commonName?: string;
+}
@@ -0,0 +1,45 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant, Device } from '@modules/index.entities';
+
+export enum ConnectivityState {
+  ONLINE = 'ONLINE',
+  OFFLINE = 'OFFLINE',
+}
+
+/**
+ * One online/offline transition of a device, written by
+ * DeviceConnectivityService. The sequence of transitions is the
+ * connectivity history used for uptime reporting.
+ */
+@Entity('device_connectivity_events')
+@Index(['deviceId', 'occurredAt'])
+@Index(['tenantId', 'occurredAt'])
+export class DeviceConnectivityEvent extends BaseEntity {
+  @Column()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  @Column()
+  deviceId: string;
+
+  @ManyToOne(() => Device, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'deviceId' })
+  device: Device;
+
+  @Column({ type: 'enum', enum: ConnectivityState })
+  state: ConnectivityState;
+
+  @Column({ type: 'timestamp' })
+  occurredAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastSeenAt?: Date;
+
+  // Timeout (seconds) that was in effect — explains why the device went offline
+  @Column({ type: 'int', nullable: true })
+  inactivityTimeout?: number;
+}
@@ -16,6 +16,14 @@ export enum CredentialsType {
   X509_CERTIFICATE = 'X509_CERTIFICATE',
 }
 
+// LEAF  → the device certificate itself is trusted (matched by fingerprint)
+// CHAIN → any certificate issued by a CA trusted on the device profile,
+//         matched by its subject CN
+export enum X509Mode {
+  LEAF = 'LEAF',
+  CHAIN = 'CHAIN',
+}
+
 @Entity('device_credentials')
 @Index(['deviceId'], { unique: true }) // One credential set per device
 @Index(['credentialsId'], { unique: true }) // Used for fast auth lookup
@@ -47,15 +55,17 @@ export class DeviceCredentials extends BaseEntity {
   // ── Credential identifier ─────────────────────────────────────────────────
   // For ACCESS_TOKEN → the token itself (used as MQTT username)
   // For MQTT_BASIC   → the username
-  // For X509         → the certificate CN
+  // For X509 LEAF    → the certificate SHA-256 fingerprint (lowercase hex)
+  // For X509 CHAIN   → the certificate subject CN
 
   @Column({ unique: true })
   credentialsId: string;
 
   // ── Credential value ──────────────────────────────────────────────────────
   // For ACCESS_TOKEN → null  (token is self-contained in credentialsId)
-  // For MQTT_BASIC   → the password (stored hashed in production; plain for now)
-  // For X509         → certificate fingerprint
+  // For MQTT_BASIC   → bcrypt hash of the password
+  // For X509 LEAF    → the device certificate (PEM)
+  // For X509 CHAIN   → null (trust comes from the profile's CA certificates)
   //
   // IMPORTANT: select: false means this column is NOT returned by default
   // QueryBuilder / findOne calls.  Any service method that needs credentialsValue
@@ -64,6 +74,16 @@ export class DeviceCredentials extends BaseEntity {
   @Column({ type: 'text', nullable: true, select: false })
   credentialsValue?: string;
 
+  // ── MQTT basic / X.509 options ────────────────────────────────────────────
+  // mqttClientId — when set, the MQTT client ID must match as well
+  // x509Mode     — only set for X509_CERTIFICATE credentials
+
+  @Column({ nullable: true })
+  mqttClientId?: string;
+
+  @Column({ type: 'enum', enum: X509Mode, nullable: true })
+  x509Mode?: X509Mode;
+
   // ── Metadata ──────────────────────────────────────────────────────────────
 
   @Column({ type: 'timestamp', nullable: true })
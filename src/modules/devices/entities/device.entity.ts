@@ -16,6 +16,7 @@ import {
   DeviceProfile,
   DeviceCredentials,
   EdgeInstance,
+  NetworkServer,
 } from '@modules/index.entities';
 import {
   DeviceType,
@@ -29,6 +30,8 @@ export enum DeviceProtocol {
   GENERIC_MQTT = 'generic_mqtt',
   LORAWAN_MILESIGHT = 'lorawan_milesight',
   LORAWAN_CHIRPSTACK = 'lorawan_chirpstack',
+  LORAWAN_TTS = 'lorawan_tts',
+  SPARKPLUG_B = 'sparkplug_b',
   HTTP = 'http',
   COAP = 'coap',
 }
@@ -174,6 +177,17 @@ export class Device extends BaseEntity {
   edge?: EdgeInstance;
 
 
+  // ── LoRaWAN network server ────────────────────────────────────────────────
+  // Tenant LNS that carries this device's uplinks and downlinks. Unset means
+  // the tenant's default network server (or the platform broker when none).
+
+  @Column({ nullable: true })
+  networkServerId?: string;
+
+  @ManyToOne(() => NetworkServer, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'networkServerId' })
+  networkServer?: NetworkServer;
+
   // ── Tags ──────────────────────────────────────────────────────────────────
 
   @Column({ type: 'simple-array', nullable: true })
@@ -190,6 +204,18 @@ export class Device extends BaseEntity {
   @Column({ type: 'timestamp', nullable: true })
   activatedAt?: Date;
 
+  // ── Connectivity ──────────────────────────────────────────────────────────
+  // inactivityTimeout — seconds without uplink before the device is OFFLINE.
+  //   Falls back to the profile, then the tenant default (see
+  //   DeviceConnectivityService.resolveInactivityTimeout).
+  // reportingInterval — learned average seconds between uplinks
+
+  @Column({ type: 'int', nullable: true })
+  inactivityTimeout?: number;
+
+  @Column({ type: 'int', nullable: true })
+  reportingInterval?: number;
+
   // ── Credentials (1:1) — cascade handled by FK, not by TypeORM cascade ────
 
   @OneToOne(() => DeviceCredentials, (credentials) => credentials.device, {
@@ -205,12 +231,20 @@ export class Device extends BaseEntity {
   @Column({ type: 'int', default: 0 })
   errorCount: number;
 
+  // Uplinks dropped as retransmissions / replays (TelemetryIngestService)
+  @Column({ type: 'int', default: 0 })
+  duplicateCount: number;
+
+  // Points stored after a newer one had already arrived
+  @Column({ type: 'int', default: 0 })
+  lateCount: number;
+
   // ── Helper methods ────────────────────────────────────────────────────────
 
+  // OFFLINE is set by DeviceConnectivityService once the inactivity timeout
+  // of the device has passed
   isOnline(): boolean {
-    if (!this.lastSeenAt) return false;
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-    return this.lastSeenAt > fiveMinutesAgo;
+    return !!this.lastSeenAt && this.status === DeviceStatus.ACTIVE;
   }
 
   updateLastSeen(): void {
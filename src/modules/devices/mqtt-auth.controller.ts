@@ -0,0 +1,141 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SkipThrottle } from '@nestjs/throttler';
+import { ApiTags, ApiOperation, ApiHeader, ApiResponse } from '@nestjs/swagger';
+import * as crypto from 'crypto';
+import { Public } from '@/common/decorators/public.decorator';
+import { DeviceCredentialsService } from './device-credentials.service';
+import { DeviceAclService } from './device-acl.service';
+import {
+  MqttAclRequestDto,
+  MqttAuthRequestDto,
+  MqttHookResponse,
+} from './dto/mqtt-auth.dto';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HTTP auth/ACL hooks for the MQTT broker (EMQX HTTP authenticator and
+// authorizer, mosquitto-go-auth HTTP backend). Called by the broker, not by
+// users: secured with the shared MQTT_AUTH_WEBHOOK_SECRET header.
+//
+// The platform's own client (MQTT_USERNAME / MQTT_PASSWORD) is a superuser.
+//
+// Denials are answered with 200 + result 'deny' — EMQX treats any other
+// status as "ignore" and would fall through to its default policy.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SECRET_HEADER = 'x-mqtt-auth-secret';
+
+@ApiTags('mqtt-auth')
+@Controller('mqtt')
+@Public()
+@SkipThrottle()
+export class MqttAuthController {
+  private readonly logger = new Logger(MqttAuthController.name);
+
+  constructor(
+    private readonly credentialsService: DeviceCredentialsService,
+    private readonly aclService: DeviceAclService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Post('auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: SECRET_HEADER, required: true })
+  @ApiOperation({
+    summary:
+      'Authenticate an MQTT client (access token, username/password or X.509)',
+  })
+  @ApiResponse({ status: 401, description: 'Missing or wrong broker secret' })
+  async authenticate(
+    @Headers(SECRET_HEADER) secret: string | undefined,
+    @Body() dto: MqttAuthRequestDto,
+  ): Promise<MqttHookResponse> {
+    this.assertBrokerSecret(secret);
+
+    if (
+      this.isPlatformClient(dto.username) &&
+      this.safeEqual(
+        dto.password,
+        this.configService.get<string>('mqtt.password'),
+      )
+    ) {
+      return { ...this.allow(), is_superuser: true };
+    }
+
+    try {
+      await this.credentialsService.authenticateMqtt(dto);
+      return this.allow();
+    } catch (error) {
+      this.logger.warn(
+        `MQTT auth denied for ${dto.clientId ?? dto.username ?? 'certificate client'}: ${(error as Error).message}`,
+      );
+      return this.deny((error as Error).message);
+    }
+  }
+
+  @Post('acl')
+  @HttpCode(HttpStatus.OK)
+  @ApiHeader({ name: SECRET_HEADER, required: true })
+  @ApiOperation({ summary: 'Authorize an MQTT publish or subscribe' })
+  @ApiResponse({ status: 401, description: 'Missing or wrong broker secret' })
+  async authorize(
+    @Headers(SECRET_HEADER) secret: string | undefined,
+    @Body() dto: MqttAclRequestDto,
+  ): Promise<MqttHookResponse> {
+    this.assertBrokerSecret(secret);
+
+    if (this.isPlatformClient(dto.username)) return this.allow();
+
+    try {
+      const device = await this.aclService.resolveDevice(
+        dto.clientId,
+        dto.username,
+      );
+      if (!device) return this.deny('Unknown device');
+
+      return this.aclService.isAllowed(device, dto.topic, dto.action)
+        ? this.allow()
+        : this.deny(`${dto.action} not allowed on ${dto.topic}`);
+    } catch (error) {
+      return this.deny((error as Error).message);
+    }
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────
+
+  private assertBrokerSecret(secret: string | undefined): void {
+    const expected = this.configService.get<string>('mqtt.authWebhookSecret');
+    if (!this.safeEqual(secret, expected)) {
+      throw new UnauthorizedException('Invalid broker secret');
+    }
+  }
+
+  private isPlatformClient(username: string | undefined): boolean {
+    const platformUser = this.configService.get<string>('mqtt.username');
+    return !!platformUser && username === platformUser;
+  }
+
+  private safeEqual(actual?: string, expected?: string): boolean {
+    if (!actual || !expected) return false;
+    const a = Buffer.from(actual);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
+  private allow(): MqttHookResponse {
+    return { result: 'allow', ok: true, is_superuser: false };
+  }
+
+  private deny(error: string): MqttHookResponse {
+    return { result: 'deny', ok: false, is_superuser: false, error };
+  }
+}
@@ -6,8 +6,23 @@ import {
   IsOptional,
   IsBoolean,
   IsObject,
+  Matches,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { EmailTemplateType } from '@common/enums/index.enum';
+import type { LocalizedTemplateContent } from '@common/interfaces/index.interface';
+
+export class ChannelMessageTemplateDto {
+  @ApiProperty({ example: 'Alarm: {{alarmName}}' })
+  @IsString()
+  title: string;
+
+  @ApiProperty({ example: '{{alarmName}} triggered at {{timestamp}}' })
+  @IsString()
+  @IsNotEmpty()
+  body: string;
+}
 
 export class CreateEmailTemplateDto {
   @ApiProperty({
@@ -51,6 +66,61 @@ export class CreateEmailTemplateDto {
   @IsNotEmpty()
   textTemplate: string;
 
+  @ApiProperty({
+    description: 'SMS variant',
+    example: '{{deviceName}} went offline at {{timestamp}}',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  smsTemplate?: string;
+
+  @ApiProperty({
+    description: 'Push notification variant',
+    type: ChannelMessageTemplateDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ChannelMessageTemplateDto)
+  @IsOptional()
+  pushTemplate?: ChannelMessageTemplateDto;
+
+  @ApiProperty({
+    description: 'In-app notification variant',
+    type: ChannelMessageTemplateDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => ChannelMessageTemplateDto)
+  @IsOptional()
+  inAppTemplate?: ChannelMessageTemplateDto;
+
+  @ApiProperty({
+    description: 'Locale the fields above are written in',
+    example: 'en',
+    required: false,
+  })
+  @Matches(/^[a-z]{2}([-_][A-Za-z]{2})?$/)
+  @IsOptional()
+  locale?: string;
+
+  @ApiProperty({
+    description:
+      'Per-locale variants; any field may be omitted and falls back along ar-SA → ar → en → locale',
+    example: {
+      ar: {
+        subject: 'تحقق من بريدك الإلكتروني - {{appName}}',
+        htmlTemplate: '<p>مرحباً {{userName}}</p>',
+        textTemplate: 'مرحباً {{userName}}',
+        smsTemplate: 'رمزك: {{code}}',
+      },
+    },
+    required: false,
+  })
+  @IsObject()
+  @IsOptional()
+  translations?: Record<string, LocalizedTemplateContent>;
+
   @ApiProperty({
     description: 'Available variables for this template',
     example: { name: 'User name', email: 'User email', verificationUrl: 'URL' },
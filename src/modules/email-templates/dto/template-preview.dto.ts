@@ -0,0 +1,44 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsArray, IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class TemplateLocalePreviewQueryDto {
+  @ApiPropertyOptional({
+    description: 'Comma-separated locales to compare (default: en,ar,fr,es)',
+    example: 'en,ar',
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((l) => l.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @Matches(/^[a-z]{2}([-_][A-Za-z]{2})?$/, { each: true })
+  locales?: string[];
+
+  @ApiPropertyOptional({ example: 'Asia/Riyadh' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ enum: ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'] })
+  @IsOptional()
+  @IsIn(['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'])
+  dateFormat?: string;
+
+  @ApiPropertyOptional({ enum: ['12h', '24h'] })
+  @IsOptional()
+  @IsIn(['12h', '24h'])
+  timeFormat?: string;
+
+  @ApiPropertyOptional({
+    description: 'JSON string of variables to use for preview',
+  })
+  @IsOptional()
+  @IsString()
+  variables?: string;
+}
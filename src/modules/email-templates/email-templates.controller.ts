@@ -21,6 +21,7 @@ import {
 import { EmailTemplatesService } from './email-templates.service';
 import { CreateEmailTemplateDto } from './dto/create-email-template.dto';
 import { UpdateEmailTemplateDto } from './dto/update-email-template.dto';
+import { TemplateLocalePreviewQueryDto } from './dto/template-preview.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { EmailTemplateType } from '@common/enums/index.enum';
 
@@ -75,9 +76,15 @@ export class EmailTemplatesController {
     required: false,
     description: 'JSON string of variables to use for preview',
   })
+  @ApiQuery({
+    name: 'locale',
+    required: false,
+    description: 'Render as for a recipient using this locale (e.g. ar)',
+  })
   async previewTemplate(
     @Param('id') id: string,
     @Query('variables') variablesJson?: string,
+    @Query('locale') locale?: string,
   ) {
     let variables: Record<string, any> | undefined;
 
@@ -91,7 +98,32 @@ export class EmailTemplatesController {
       }
     }
 
-    return this.emailTemplatesService.previewTemplate(id, variables);
+    return this.emailTemplatesService.previewTemplate(id, variables, locale);
+  }
+
+  @Get(':id/preview/locales')
+  @ApiOperation({
+    summary: 'Compare a template across locales, for every channel',
+  })
+  @ApiResponse({ status: 200, description: 'One preview per locale' })
+  @ApiResponse({ status: 404, description: 'Template not found' })
+  async previewLocales(
+    @Param('id') id: string,
+    @Query() query: TemplateLocalePreviewQueryDto,
+  ) {
+    let variables: Record<string, any> | undefined;
+
+    if (query.variables) {
+      try {
+        variables = JSON.parse(query.variables);
+      } catch (error) {
+        return {
+          error: 'Invalid JSON in variables parameter',
+        };
+      }
+    }
+
+    return this.emailTemplatesService.previewLocales(id, query, variables);
   }
 
   @Post(':id/validate')
@@ -3,9 +3,10 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { EmailTemplatesService } from './email-templates.service';
 import { EmailTemplatesController } from './email-templates.controller';
 import { EmailTemplate } from './entities/email-template.entity';
+import { User, UserSettings } from '@modules/index.entities';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([EmailTemplate])],
+  imports: [TypeOrmModule.forFeature([EmailTemplate, User, UserSettings])],
   controllers: [EmailTemplatesController],
   providers: [EmailTemplatesService],
   exports: [EmailTemplatesService],
@@ -2,6 +2,7 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -9,9 +10,35 @@ import { Repository } from 'typeorm';
 import {
   EmailTemplate,
 } from './entities/email-template.entity';
-import { EmailTemplateType } from '@common/enums/index.enum';
+import { User, UserSettings } from '@modules/index.entities';
+import {
+  EmailTemplateType,
+  NotificationChannel,
+} from '@common/enums/index.enum';
+import type {
+  RecipientLocale,
+  RenderedEmail,
+  RenderedMessage,
+} from '@common/interfaces/index.interface';
+import {
+  DEFAULT_RECIPIENT_LOCALE,
+  SUPPORTED_LANGUAGES,
+  applyTextDirection,
+  formatTemplateVariables,
+  localeChain,
+  textDirection,
+} from '@common/utils/localization';
 import { CreateEmailTemplateDto } from './dto/create-email-template.dto';
 import { UpdateEmailTemplateDto } from './dto/update-email-template.dto';
+import { TemplateLocalePreviewQueryDto } from './dto/template-preview.dto';
+import { BUILT_IN_MESSAGES, BuiltInMessageKey } from './localization/messages';
+
+type MessageChannel =
+  | NotificationChannel.SMS
+  | NotificationChannel.PUSH
+  | NotificationChannel.IN_APP;
+
+const LOCALE_PATTERN = /^[a-z]{2}([-_][A-Za-z]{2})?$/;
 
 @Injectable()
 export class EmailTemplatesService {
@@ -20,12 +47,18 @@ export class EmailTemplatesService {
   constructor(
     @InjectRepository(EmailTemplate)
     private emailTemplateRepository: Repository<EmailTemplate>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(UserSettings)
+    private userSettingsRepository: Repository<UserSettings>,
   ) { }
 
   /**
    * Create a new email template
    */
   async create(createDto: CreateEmailTemplateDto): Promise<EmailTemplate> {
+    this.assertLocales(createDto);
+
     // Check if template type already exists
     const existing = await this.emailTemplateRepository.findOne({
       where: { type: createDto.type },
@@ -100,6 +133,7 @@ export class EmailTemplatesService {
     updateDto: UpdateEmailTemplateDto,
   ): Promise<EmailTemplate> {
     const template = await this.findOne(id);
+    this.assertLocales(updateDto);
 
     // If updating type, check it doesn't conflict
     if (updateDto.type && updateDto.type !== template.type) {
@@ -161,25 +195,86 @@ export class EmailTemplatesService {
   }
 
   /**
-   * Get rendered email content
+   * Get rendered email content in the recipient's language, with dates
+   * and numbers formatted for them
    */
   async getRenderedEmail(
     type: EmailTemplateType,
     variables: Record<string, any>,
-  ): Promise<{ subject: string; html: string; text: string }> {
+    recipient: Partial<RecipientLocale> = {},
+  ): Promise<RenderedEmail> {
     const template = await this.findByType(type);
 
-    // Add default variables if not provided
-    const enrichedVariables = {
-      appName: process.env.APP_NAME || 'Smart Life IoT Platform',
-      year: new Date().getFullYear().toString(),
-      ...variables,
-    };
+    return this.renderEmail(template, variables, recipient);
+  }
+
+  /**
+   * Get the SMS / push / in-app variant of a template, or null when the
+   * template or every locale in the chain lacks one
+   */
+  async getRenderedMessage(
+    type: EmailTemplateType,
+    channel: MessageChannel,
+    variables: Record<string, any>,
+    recipient: Partial<RecipientLocale> = {},
+  ): Promise<RenderedMessage | null> {
+    const template = await this.emailTemplateRepository.findOne({
+      where: { type, isActive: true },
+    });
+    if (!template) return null;
+
+    return this.renderMessage(template, channel, variables, recipient);
+  }
+
+  /**
+   * Render a built-in string (localization/messages) in the recipient's
+   * language
+   */
+  renderBuiltIn(
+    key: BuiltInMessageKey,
+    variables: Record<string, any>,
+    recipient: Partial<RecipientLocale> = {},
+  ): string {
+    const locale = this.withDefaults(recipient);
+    const translations: Record<string, string> = BUILT_IN_MESSAGES[key];
+    const language =
+      localeChain(locale.language).find((l) => translations[l]) ?? 'en';
+
+    return this.renderTemplate(
+      translations[language],
+      formatTemplateVariables(this.withAppVariables(variables), locale),
+    ).trim();
+  }
+
+  /**
+   * Language, timezone and formats of a user (by id or email); platform
+   * defaults for addresses that aren't users
+   */
+  async resolveRecipientLocale(recipient: {
+    userId?: string;
+    email?: string;
+  }): Promise<RecipientLocale> {
+    let userId = recipient.userId;
+
+    if (!userId && recipient.email) {
+      const user = await this.userRepository.findOne({
+        where: { email: recipient.email },
+        select: ['id'],
+      });
+      userId = user?.id;
+    }
+    if (!userId) return { ...DEFAULT_RECIPIENT_LOCALE };
+
+    const settings = await this.userSettingsRepository.findOne({
+      where: { userId },
+    });
+    if (!settings) return { ...DEFAULT_RECIPIENT_LOCALE };
 
     return {
-      subject: this.renderTemplate(template.subject, enrichedVariables),
-      html: this.renderTemplate(template.htmlTemplate, enrichedVariables),
-      text: this.renderTemplate(template.textTemplate, enrichedVariables),
+      language: settings.language,
+      timezone: settings.timezone,
+      dateFormat: settings.dateFormat,
+      timeFormat: settings.timeFormat,
     };
   }
 
@@ -189,19 +284,177 @@ export class EmailTemplatesService {
   async previewTemplate(
     id: string,
     sampleVariables?: Record<string, any>,
-  ): Promise<{ subject: string; html: string; text: string }> {
+    locale?: string,
+  ): Promise<RenderedEmail> {
     const template = await this.findOne(id);
 
     // Use provided sample variables or generate defaults from template variables
     const variables = sampleVariables || this.generateSampleVariables(template);
 
+    return this.renderEmail(template, variables, { language: locale });
+  }
+
+  /**
+   * Render one template side by side in several locales, every channel
+   */
+  async previewLocales(
+    id: string,
+    query: TemplateLocalePreviewQueryDto,
+    sampleVariables?: Record<string, any>,
+  ) {
+    const template = await this.findOne(id);
+    const variables = sampleVariables || this.generateSampleVariables(template);
+    const locales = query.locales?.length ? query.locales : SUPPORTED_LANGUAGES;
+
+    return {
+      templateId: template.id,
+      type: template.type,
+      baseLocale: template.locale,
+      availableLocales: template.getAvailableLocales(),
+      previews: locales.map((language) => {
+        const recipient = {
+          language,
+          timezone: query.timezone,
+          dateFormat: query.dateFormat,
+          timeFormat: query.timeFormat,
+        };
+
+        return {
+          requestedLocale: language,
+          email: this.renderEmail(template, variables, recipient),
+          sms: this.renderMessage(
+            template,
+            NotificationChannel.SMS,
+            variables,
+            recipient,
+          ),
+          push: this.renderMessage(
+            template,
+            NotificationChannel.PUSH,
+            variables,
+            recipient,
+          ),
+          inApp: this.renderMessage(
+            template,
+            NotificationChannel.IN_APP,
+            variables,
+            recipient,
+          ),
+        };
+      }),
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // LOCALIZED RENDERING
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private renderEmail(
+    template: EmailTemplate,
+    variables: Record<string, any>,
+    recipient: Partial<RecipientLocale>,
+  ): RenderedEmail {
+    const locale = this.withDefaults(recipient);
+    const chain = localeChain(locale.language, template.locale);
+
+    // Subject and HTML travel together; the text may come from further down
+    const used =
+      chain.find((l) => {
+        const content = template.getContentFor(l);
+        return content?.subject && content.htmlTemplate;
+      }) ?? template.locale;
+    const content = template.getContentFor(used) ?? {};
+    const textTemplate =
+      content.textTemplate ??
+      chain.map((l) => template.getContentFor(l)?.textTemplate).find(Boolean) ??
+      '';
+
+    const values = formatTemplateVariables(
+      this.withAppVariables({ ...template.variables?.defaults, ...variables }),
+      locale,
+    );
+
+    return {
+      subject: this.renderTemplate(content.subject ?? template.subject, values),
+      html: applyTextDirection(
+        this.renderTemplate(
+          content.htmlTemplate ?? template.htmlTemplate,
+          values,
+        ),
+        used,
+      ),
+      text: this.renderTemplate(textTemplate, values),
+      locale: used,
+      direction: textDirection(used),
+    };
+  }
+
+  private renderMessage(
+    template: EmailTemplate,
+    channel: MessageChannel,
+    variables: Record<string, any>,
+    recipient: Partial<RecipientLocale>,
+  ): RenderedMessage | null {
+    const locale = this.withDefaults(recipient);
+    const values = formatTemplateVariables(
+      this.withAppVariables({ ...template.variables?.defaults, ...variables }),
+      locale,
+    );
+
+    for (const used of localeChain(locale.language, template.locale)) {
+      const content = template.getContentFor(used);
+      const variant =
+        channel === NotificationChannel.SMS
+          ? content?.smsTemplate && { title: '', body: content.smsTemplate }
+          : channel === NotificationChannel.PUSH
+            ? content?.pushTemplate
+            : content?.inAppTemplate;
+      if (!variant) continue;
+
+      return {
+        title: this.renderTemplate(variant.title, values),
+        body: this.renderTemplate(variant.body, values),
+        locale: used,
+        direction: textDirection(used),
+      };
+    }
+
+    return null;
+  }
+
+  private withDefaults(recipient: Partial<RecipientLocale>): RecipientLocale {
+    return {
+      language: recipient.language || DEFAULT_RECIPIENT_LOCALE.language,
+      timezone: recipient.timezone || DEFAULT_RECIPIENT_LOCALE.timezone,
+      dateFormat: recipient.dateFormat || DEFAULT_RECIPIENT_LOCALE.dateFormat,
+      timeFormat: recipient.timeFormat || DEFAULT_RECIPIENT_LOCALE.timeFormat,
+    };
+  }
+
+  // Add default variables if not provided
+  private withAppVariables(
+    variables: Record<string, any>,
+  ): Record<string, any> {
     return {
-      subject: this.renderTemplate(template.subject, variables),
-      html: this.renderTemplate(template.htmlTemplate, variables),
-      text: this.renderTemplate(template.textTemplate, variables),
+      appName: process.env.APP_NAME || 'Smart Life IoT Platform',
+      year: new Date().getFullYear().toString(),
+      ...variables,
     };
   }
 
+  private assertLocales(dto: UpdateEmailTemplateDto): void {
+    const locales = [
+      ...(dto.locale ? [dto.locale] : []),
+      ...Object.keys(dto.translations ?? {}),
+    ];
+    const invalid = locales.filter((l) => !LOCALE_PATTERN.test(l));
+    if (invalid.length) {
+      throw new BadRequestException(
+        `Invalid locale(s): ${invalid.join(', ')} — use e.g. ${SUPPORTED_LANGUAGES.join(', ')} or ar-SA`,
+      );
+    }
+  }
+
   /**
    * Generate sample variables based on template's variable definitions
    */
@@ -224,7 +477,7 @@ export class EmailTemplatesService {
       resetUrl: 'https://example.com/reset/token456',
       dashboardLink: 'https://example.com/dashboard',
       dashboardUrl: 'https://example.com/dashboard',
-      timestamp: new Date().toLocaleString(),
+      timestamp: new Date(),
       expirationTime: '24',
     };
 
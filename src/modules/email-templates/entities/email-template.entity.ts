@@ -3,6 +3,10 @@ import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
 import { BaseEntity } from '@common/entities/base.entity';
 import { Tenant } from '@modules/index.entities';
 import { EmailTemplateType } from '@common/enums/index.enum';
+import type {
+  ChannelMessageTemplate,
+  LocalizedTemplateContent,
+} from '@common/interfaces/index.interface';
 
 @Entity('email_templates')
 @Index(['tenantId', 'type'], { unique: true })  // One template per type per tenant
@@ -52,6 +56,19 @@ export class EmailTemplate extends BaseEntity {
   @Column({ type: 'text' })
   textTemplate: string;  // Plain text version with {{variables}}
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // OTHER CHANNELS (OPTIONAL - same {{variables}})
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ type: 'text', nullable: true })
+  smsTemplate?: string;  // "{{deviceName}} went offline at {{timestamp}}"
+
+  @Column({ type: 'jsonb', nullable: true })
+  pushTemplate?: ChannelMessageTemplate;  // { title, body }
+
+  @Column({ type: 'jsonb', nullable: true })
+  inAppTemplate?: ChannelMessageTemplate;  // { title, body }
+
   // ══════════════════════════════════════════════════════════════════════════
   // TEMPLATE VARIABLES
   // ══════════════════════════════════════════════════════════════════════════
@@ -105,17 +122,16 @@ export class EmailTemplate extends BaseEntity {
   locale: string;  // 'en', 'ar', 'fr'
 
   @Column({ type: 'jsonb', nullable: true })
-  translations?: Record<string, {
-    subject: string;
-    htmlTemplate: string;
-    textTemplate: string;
-  }>;
-  // Example:
+  translations?: Record<string, LocalizedTemplateContent>;
+  // Any field may be left out and falls back along the locale chain
+  // (see localization.interface). Example:
   // translations: {
   //   ar: {
   //     subject: 'تحقق من بريدك الإلكتروني',
   //     htmlTemplate: '<div dir="rtl">...</div>',
-  //     textTemplate: '...'
+  //     textTemplate: '...',
+  //     smsTemplate: '...',
+  //     pushTemplate: { title: '...', body: '...' }
   //   },
   //   fr: {
   //     subject: 'Vérifiez votre email',
@@ -170,9 +186,9 @@ export class EmailTemplate extends BaseEntity {
 
     if (locale && this.translations?.[locale]) {
       const translation = this.translations[locale];
-      subject = translation.subject;
-      htmlTemplate = translation.htmlTemplate;
-      textTemplate = translation.textTemplate;
+      subject = translation.subject ?? subject;
+      htmlTemplate = translation.htmlTemplate ?? htmlTemplate;
+      textTemplate = translation.textTemplate ?? textTemplate;
     }
 
     // Merge with defaults
@@ -227,14 +243,40 @@ export class EmailTemplate extends BaseEntity {
     htmlTemplate: string;
     textTemplate: string;
   } {
-    if (this.translations?.[locale]) {
-      return this.translations[locale];
-    }
+    const translation = this.translations?.[locale];
 
     return {
-      subject: this.subject,
-      htmlTemplate: this.htmlTemplate,
-      textTemplate: this.textTemplate,
+      subject: translation?.subject ?? this.subject,
+      htmlTemplate: translation?.htmlTemplate ?? this.htmlTemplate,
+      textTemplate: translation?.textTemplate ?? this.textTemplate,
     };
   }
+
+  /**
+   * Content written for exactly this locale — the template's own columns
+   * for its base locale, else the translation (undefined when missing)
+   */
+  getContentFor(locale: string): LocalizedTemplateContent | undefined {
+    if (locale === this.locale) {
+      return {
+        subject: this.subject,
+        htmlTemplate: this.htmlTemplate,
+        textTemplate: this.textTemplate,
+        smsTemplate: this.smsTemplate,
+        pushTemplate: this.pushTemplate,
+        inAppTemplate: this.inAppTemplate,
+      };
+    }
+    return this.translations?.[locale];
+  }
+
+  /**
+   * Locales this template has content for
+   */
+  getAvailableLocales(): string[] {
+    return [
+      this.locale,
+      ...Object.keys(this.translations ?? {}).filter((l) => l !== this.locale),
+    ];
+  }
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+// src/modules/email-templates/localization/email-layout.ts
+import { baseLanguage, textDirection } from '@common/utils/localization';
+
+export interface EmailLayoutOptions {
+  locale: string;
+  title: string;
+  paragraphs: string[];
+  button?: { label: string; url: string };
+  footer?: string;
+}
+
+/**
+ * Plain, direction-aware email body for built-in messages. Text is
+ * escaped; only the button URL is used as-is.
+ */
+export function renderEmailLayout(options: EmailLayoutOptions): string {
+  const { locale, title, paragraphs, button, footer } = options;
+  const dir = textDirection(locale);
+  const align = dir === 'rtl' ? 'right' : 'left';
+
+  return `
+<!DOCTYPE html>
+<html dir="${dir}" lang="${baseLanguage(locale)}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f4f4f4; font-family: Arial, Tahoma, sans-serif; line-height: 1.6; color: #333;">
+  <div dir="${dir}" style="direction: ${dir}; text-align: ${align}; max-width: 600px; margin: 20px auto; background: #fff; border-radius: 8px; overflow: hidden;">
+    <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: #fff; padding: 30px 20px; text-align: center;">
+      <h1 style="margin: 0; font-size: 24px;">${escapeHtml(title)}</h1>
+    </div>
+    <div style="padding: 30px;">
+      ${paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`).join('\n      ')}
+      ${
+        button
+          ? `<div style="text-align: center;"><a href="${button.url}" style="display: inline-block; padding: 12px 28px; background: #667eea; color: #fff; text-decoration: none; border-radius: 6px; font-weight: bold; margin: 20px 0;">${escapeHtml(button.label)}</a></div>`
+          : ''
+      }
+    </div>
+    ${
+      footer
+        ? `<div style="background: #f8f9fa; padding: 20px; text-align: center; color: #6c757d; font-size: 14px;">${escapeHtml(footer)}</div>`
+        : ''
+    }
+  </div>
+</body>
+</html>
+  `;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
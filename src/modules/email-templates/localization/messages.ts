@@ -0,0 +1,256 @@
+// src/modules/email-templates/localization/messages.ts
+//
+// Built-in strings for messages that have no database template: the
+// notifications NotificationsService fans out and MailService's fallback
+// emails. {{variables}} are filled by EmailTemplatesService.renderBuiltIn().
+
+type Translations = Record<'en' | 'ar' | 'fr' | 'es', string>;
+
+export const BUILT_IN_MESSAGES = {
+  // ── Notifications ─────────────────────────────────────────────────────────
+  'notification.alarm_triggered.title': {
+    en: 'Alarm: {{alarmName}}',
+    ar: 'إنذار: {{alarmName}}',
+    fr: 'Alarme : {{alarmName}}',
+    es: 'Alarma: {{alarmName}}',
+  },
+  'notification.alarm_triggered.body': {
+    en: 'Alarm {{alarmName}} was triggered at {{triggeredAt}}. Value: {{value}}',
+    ar: 'تم تفعيل الإنذار {{alarmName}} في {{triggeredAt}}. القيمة: {{value}}',
+    fr: "L'alarme {{alarmName}} s'est déclenchée le {{triggeredAt}}. Valeur : {{value}}",
+    es: 'La alarma {{alarmName}} se activó el {{triggeredAt}}. Valor: {{value}}',
+  },
+  'notification.device_offline.title': {
+    en: 'Device Offline: {{deviceName}}',
+    ar: 'الجهاز غير متصل: {{deviceName}}',
+    fr: 'Appareil hors ligne : {{deviceName}}',
+    es: 'Dispositivo desconectado: {{deviceName}}',
+  },
+  'notification.device_offline.body': {
+    en: 'Device "{{deviceName}}" has gone offline',
+    ar: 'انقطع اتصال الجهاز "{{deviceName}}"',
+    fr: "L'appareil « {{deviceName}} » est hors ligne",
+    es: 'El dispositivo "{{deviceName}}" se ha desconectado',
+  },
+  'notification.device_connected.title': {
+    en: 'Device Connected: {{deviceName}}',
+    ar: 'الجهاز متصل: {{deviceName}}',
+    fr: 'Appareil connecté : {{deviceName}}',
+    es: 'Dispositivo conectado: {{deviceName}}',
+  },
+  'notification.device_connected.body': {
+    en: 'Device "{{deviceName}}" is now online',
+    ar: 'الجهاز "{{deviceName}}" متصل الآن',
+    fr: "L'appareil « {{deviceName}} » est de nouveau en ligne",
+    es: 'El dispositivo "{{deviceName}}" ya está en línea',
+  },
+  'notification.alarm_mentioned.title': {
+    en: '{{authorName}} mentioned you on alarm {{alarmName}}',
+    ar: 'أشار إليك {{authorName}} في الإنذار {{alarmName}}',
+    fr: "{{authorName}} vous a mentionné sur l'alarme {{alarmName}}",
+    es: '{{authorName}} te mencionó en la alarma {{alarmName}}',
+  },
+  'notification.alarm_mentioned.body': {
+    en: '{{comment}}',
+    ar: '{{comment}}',
+    fr: '{{comment}}',
+    es: '{{comment}}',
+  },
+  'notification.alarm_assigned.title': {
+    en: 'Alarm assigned to you: {{alarmName}}',
+    ar: 'تم إسناد إنذار إليك: {{alarmName}}',
+    fr: 'Alarme qui vous est assignée : {{alarmName}}',
+    es: 'Alarma asignada a ti: {{alarmName}}',
+  },
+  'notification.alarm_assigned.body': {
+    en: '{{details}}',
+    ar: '{{details}}',
+    fr: '{{details}}',
+    es: '{{details}}',
+  },
+  'notification.action.view_alarm': {
+    en: 'View Alarm',
+    ar: 'عرض الإنذار',
+    fr: "Voir l'alarme",
+    es: 'Ver alarma',
+  },
+  'notification.action.view_device': {
+    en: 'View Device',
+    ar: 'عرض الجهاز',
+    fr: "Voir l'appareil",
+    es: 'Ver dispositivo',
+  },
+  'notification.action.view_comment': {
+    en: 'View Comment',
+    ar: 'عرض التعليق',
+    fr: 'Voir le commentaire',
+    es: 'Ver comentario',
+  },
+  'notification.digest.title': {
+    en: 'Your notification digest: {{count}} new',
+    ar: 'ملخص إشعاراتك: {{count}} جديدة',
+    fr: 'Votre récapitulatif de notifications : {{count}} nouvelles',
+    es: 'Tu resumen de notificaciones: {{count}} nuevas',
+  },
+  'notification.digest.heading': {
+    en: 'Your notification digest',
+    ar: 'ملخص إشعاراتك',
+    fr: 'Votre récapitulatif de notifications',
+    es: 'Tu resumen de notificaciones',
+  },
+  'notification.digest.more': {
+    en: '…and {{count}} more in the app.',
+    ar: '…و{{count}} أخرى في التطبيق.',
+    fr: "…et {{count}} de plus dans l'application.",
+    es: '…y {{count}} más en la aplicación.',
+  },
+  'notification.email.details': {
+    en: 'Additional Information:',
+    ar: 'معلومات إضافية:',
+    fr: 'Informations complémentaires :',
+    es: 'Información adicional:',
+  },
+  'notification.email.footer': {
+    en: 'This is an automated notification from {{appName}}',
+    ar: 'هذا إشعار تلقائي من {{appName}}',
+    fr: 'Ceci est une notification automatique de {{appName}}',
+    es: 'Esta es una notificación automática de {{appName}}',
+  },
+  'notification.email.sent_at': {
+    en: 'Sent at {{sentAt}}',
+    ar: 'أُرسل في {{sentAt}}',
+    fr: 'Envoyé le {{sentAt}}',
+    es: 'Enviado el {{sentAt}}',
+  },
+
+  // ── Mail fallbacks ────────────────────────────────────────────────────────
+  'mail.greeting': {
+    en: 'Hi {{name}},',
+    ar: 'مرحباً {{name}}،',
+    fr: 'Bonjour {{name}},',
+    es: 'Hola, {{name}}:',
+  },
+  'mail.ignore': {
+    en: "If you didn't request this, please ignore this email.",
+    ar: 'إذا لم تطلب ذلك، يرجى تجاهل هذه الرسالة.',
+    fr: "Si vous n'êtes pas à l'origine de cette demande, ignorez cet e-mail.",
+    es: 'Si no lo solicitaste, ignora este correo.',
+  },
+  'mail.footer': {
+    en: '© {{year}} {{appName}}. All rights reserved.',
+    ar: '© {{year}} {{appName}}. جميع الحقوق محفوظة.',
+    fr: '© {{year}} {{appName}}. Tous droits réservés.',
+    es: '© {{year}} {{appName}}. Todos los derechos reservados.',
+  },
+  'mail.invitation.subject': {
+    en: "You've been invited to join {{appName}}",
+    ar: 'تمت دعوتك للانضمام إلى {{appName}}',
+    fr: 'Vous êtes invité à rejoindre {{appName}}',
+    es: 'Te han invitado a unirte a {{appName}}',
+  },
+  'mail.invitation.body': {
+    en: '{{inviterName}} has invited you to join {{appName}} as a {{role}}. This invitation will expire in 7 days.',
+    ar: 'دعاك {{inviterName}} للانضمام إلى {{appName}} بصفة {{role}}. تنتهي صلاحية هذه الدعوة خلال 7 أيام.',
+    fr: '{{inviterName}} vous invite à rejoindre {{appName}} en tant que {{role}}. Cette invitation expire dans 7 jours.',
+    es: '{{inviterName}} te ha invitado a unirte a {{appName}} como {{role}}. Esta invitación caduca en 7 días.',
+  },
+  'mail.invitation.button': {
+    en: 'Accept Invitation',
+    ar: 'قبول الدعوة',
+    fr: "Accepter l'invitation",
+    es: 'Aceptar invitación',
+  },
+  'mail.verification.subject': {
+    en: 'Verify Your Email - {{appName}}',
+    ar: 'تأكيد بريدك الإلكتروني - {{appName}}',
+    fr: 'Vérifiez votre adresse e-mail - {{appName}}',
+    es: 'Verifica tu correo electrónico - {{appName}}',
+  },
+  'mail.verification.body': {
+    en: 'Please verify your email address. This link will expire in 24 hours.',
+    ar: 'يرجى تأكيد عنوان بريدك الإلكتروني. تنتهي صلاحية هذا الرابط خلال 24 ساعة.',
+    fr: 'Veuillez vérifier votre adresse e-mail. Ce lien expire dans 24 heures.',
+    es: 'Verifica tu dirección de correo electrónico. Este enlace caduca en 24 horas.',
+  },
+  'mail.verification.button': {
+    en: 'Verify Email',
+    ar: 'تأكيد البريد الإلكتروني',
+    fr: "Vérifier l'adresse e-mail",
+    es: 'Verificar correo',
+  },
+  'mail.welcome.subject': {
+    en: 'Welcome to {{appName}}!',
+    ar: 'مرحباً بك في {{appName}}!',
+    fr: 'Bienvenue sur {{appName}} !',
+    es: '¡Bienvenido a {{appName}}!',
+  },
+  'mail.welcome.body': {
+    en: 'Your email has been verified successfully. You can now access all features of the platform.',
+    ar: 'تم تأكيد بريدك الإلكتروني بنجاح. يمكنك الآن استخدام جميع ميزات المنصة.',
+    fr: 'Votre adresse e-mail a bien été vérifiée. Vous pouvez maintenant accéder à toutes les fonctionnalités de la plateforme.',
+    es: 'Tu correo electrónico se verificó correctamente. Ya puedes acceder a todas las funciones de la plataforma.',
+  },
+  'mail.welcome.button': {
+    en: 'Go to Dashboard',
+    ar: 'الانتقال إلى لوحة التحكم',
+    fr: 'Accéder au tableau de bord',
+    es: 'Ir al panel',
+  },
+  'mail.password_reset.subject': {
+    en: 'Reset Your Password - {{appName}}',
+    ar: 'إعادة تعيين كلمة المرور - {{appName}}',
+    fr: 'Réinitialisez votre mot de passe - {{appName}}',
+    es: 'Restablece tu contraseña - {{appName}}',
+  },
+  'mail.password_reset.body': {
+    en: 'You requested to reset your password. This link will expire in 1 hour.',
+    ar: 'لقد طلبت إعادة تعيين كلمة المرور. تنتهي صلاحية هذا الرابط خلال ساعة واحدة.',
+    fr: 'Vous avez demandé la réinitialisation de votre mot de passe. Ce lien expire dans 1 heure.',
+    es: 'Solicitaste restablecer tu contraseña. Este enlace caduca en 1 hora.',
+  },
+  'mail.password_reset.button': {
+    en: 'Reset Password',
+    ar: 'إعادة تعيين كلمة المرور',
+    fr: 'Réinitialiser le mot de passe',
+    es: 'Restablecer contraseña',
+  },
+  'mail.two_factor.subject': {
+    en: 'Your Two-Factor Authentication Code - {{appName}}',
+    ar: 'رمز التحقق بخطوتين - {{appName}}',
+    fr: "Votre code d'authentification à deux facteurs - {{appName}}",
+    es: 'Tu código de autenticación en dos pasos - {{appName}}',
+  },
+  'mail.two_factor.body': {
+    en: 'Your two-factor authentication code is: {{code}}. This code will expire in 10 minutes.',
+    ar: 'رمز التحقق بخطوتين الخاص بك هو: {{code}}. تنتهي صلاحية هذا الرمز خلال 10 دقائق.',
+    fr: "Votre code d'authentification à deux facteurs est : {{code}}. Ce code expire dans 10 minutes.",
+    es: 'Tu código de autenticación en dos pasos es: {{code}}. Este código caduca en 10 minutos.',
+  },
+  'mail.role.tenant_admin': {
+    en: 'Tenant Administrator',
+    ar: 'مسؤول المستأجر',
+    fr: 'Administrateur du locataire',
+    es: 'Administrador del inquilino',
+  },
+  'mail.role.customer': {
+    en: 'Customer',
+    ar: 'عميل',
+    fr: 'Client',
+    es: 'Cliente',
+  },
+  'mail.role.customer_user': {
+    en: 'Customer User',
+    ar: 'مستخدم العميل',
+    fr: 'Utilisateur client',
+    es: 'Usuario del cliente',
+  },
+} satisfies Record<string, Translations>;
+
+export type BuiltInMessageKey = keyof typeof BUILT_IN_MESSAGES;
+
+export type NotificationMessageKey =
+  | 'alarm_triggered'
+  | 'device_offline'
+  | 'device_connected'
+  | 'alarm_mentioned'
+  | 'alarm_assigned';
@@ -0,0 +1,72 @@
+// src/modules/firmware/dto/create-firmware-rollout.dto.ts
+import {
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsArray,
+  IsInt,
+  IsDateString,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateFirmwareRolloutDto {
+  @ApiProperty({ example: 'WS202 1.2.3 rollout' })
+  @IsString()
+  name: string;
+
+  @ApiProperty()
+  @IsUUID()
+  firmwareId: string;
+
+  @ApiPropertyOptional({
+    description: "Defaults to the firmware's device profile",
+  })
+  @IsOptional()
+  @IsUUID()
+  deviceProfileId?: string;
+
+  @ApiPropertyOptional({
+    example: [5, 25, 100],
+    description:
+      'Cumulative percentages of the target devices released per wave',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(100, { each: true })
+  waves?: number[];
+
+  @ApiPropertyOptional({ example: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  waveIntervalMinutes?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Pause when more than this % of released updates failed',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  failureThreshold?: number;
+
+  @ApiPropertyOptional({ example: 60 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  updateTimeoutMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Start later instead of immediately' })
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+}
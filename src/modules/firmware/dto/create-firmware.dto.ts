@@ -0,0 +1,111 @@
+// src/modules/firmware/dto/create-firmware.dto.ts
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsUUID,
+  IsIn,
+  IsObject,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  PartialType,
+  PickType,
+} from '@nestjs/swagger';
+import { ChecksumAlgorithm, FirmwareType } from '@common/enums/index.enum';
+
+/**
+ * Multipart body sent together with the binary in the `file` field.
+ */
+export class CreateFirmwareDto {
+  @ApiProperty({ example: 'ws202-main' })
+  @IsString()
+  @MaxLength(255)
+  title: string;
+
+  @ApiProperty({ example: '1.2.3' })
+  @IsString()
+  @MaxLength(64)
+  version: string;
+
+  @ApiPropertyOptional({ enum: FirmwareType, default: FirmwareType.FIRMWARE })
+  @IsOptional()
+  @IsEnum(FirmwareType)
+  type?: FirmwareType;
+
+  @ApiPropertyOptional({ example: 'stable' })
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
+  @ApiPropertyOptional({
+    example: 'Fixes PIR false positives at low temperature',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Restrict the package to one device profile',
+  })
+  @IsOptional()
+  @IsUUID()
+  deviceProfileId?: string;
+
+  @ApiPropertyOptional({
+    enum: ChecksumAlgorithm,
+    default: ChecksumAlgorithm.SHA256,
+  })
+  @IsOptional()
+  @IsEnum(ChecksumAlgorithm)
+  checksumAlgorithm?: ChecksumAlgorithm;
+
+  @ApiPropertyOptional({
+    description:
+      'Expected hex digest. The upload is rejected when the file does not match.',
+  })
+  @IsOptional()
+  @Matches(/^[0-9a-fA-F]+$/, { message: 'checksum must be a hex digest' })
+  checksum?: string;
+}
+
+export class UpdateFirmwareDto extends PartialType(
+  PickType(CreateFirmwareDto, ['tag', 'description'] as const),
+) {
+  @ApiPropertyOptional({
+    example: { releaseNotesUrl: 'https://example.com/notes' },
+  })
+  @IsOptional()
+  @IsObject()
+  additionalInfo?: Record<string, any>;
+}
+
+export class AssignFirmwareDto {
+  @ApiProperty()
+  @IsUUID()
+  deviceProfileId: string;
+
+  @ApiPropertyOptional({
+    enum: ['immediately', 'on_connect', 'scheduled'],
+    default: 'on_connect',
+    description:
+      'immediately starts a single-wave rollout now, scheduled starts it at scheduledTime, ' +
+      'on_connect updates each device the next time it connects',
+  })
+  @IsOptional()
+  @IsIn(['immediately', 'on_connect', 'scheduled'])
+  strategy?: 'immediately' | 'on_connect' | 'scheduled';
+
+  @ApiPropertyOptional({
+    example: '02:00',
+    description: 'Daily start time (UTC) for the scheduled strategy',
+  })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, {
+    message: 'scheduledTime must be HH:MM',
+  })
+  scheduledTime?: string;
+}
@@ -0,0 +1,97 @@
+// src/modules/firmware/entities/device-firmware-update.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant, Device } from '@modules/index.entities';
+import { FirmwareUpdateState } from '@common/enums/index.enum';
+import { Firmware } from './firmware.entity';
+import { FirmwareRollout } from './firmware-rollout.entity';
+
+/**
+ * Update of one device to one firmware package. Created QUEUED when the
+ * device is released (rollout wave or on-connect assignment), then moved
+ * along by the fw_state / fw_progress attributes the device reports.
+ */
+@Entity('device_firmware_updates')
+@Index(['deviceId', 'state'])
+@Index(['rolloutId', 'wave'])
+@Index(['tenantId', 'state'])
+export class DeviceFirmwareUpdate extends BaseEntity {
+  // ══════════════════════════════════════════════════════════════════════════
+  // TENANT SCOPING (REQUIRED)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant)
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // TARGET
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  deviceId: string;
+
+  @ManyToOne(() => Device, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'deviceId' })
+  device: Device;
+
+  @Column()
+  firmwareId: string;
+
+  @ManyToOne(() => Firmware)
+  @JoinColumn({ name: 'firmwareId' })
+  firmware: Firmware;
+
+  @Column({ nullable: true })
+  rolloutId?: string; // Null for on-connect updates
+
+  @ManyToOne(() => FirmwareRollout, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'rolloutId' })
+  rollout?: FirmwareRollout;
+
+  @Column({ type: 'int', default: 0 })
+  wave: number;
+
+  @Column({ nullable: true })
+  previousVersion?: string;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PROGRESS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({
+    type: 'enum',
+    enum: FirmwareUpdateState,
+    default: FirmwareUpdateState.QUEUED,
+  })
+  state: FirmwareUpdateState;
+
+  @Column({ type: 'int', default: 0 })
+  progress: number; // 0-100 as reported by the device
+
+  @Column({ type: 'text', nullable: true })
+  error?: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt?: Date; // First download request or state report
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt?: Date; // UPDATED or FAILED
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastReportedAt?: Date;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPER METHODS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  isFinished(): boolean {
+    return (
+      this.state === FirmwareUpdateState.UPDATED ||
+      this.state === FirmwareUpdateState.FAILED
+    );
+  }
+}
@@ -0,0 +1,107 @@
+// src/modules/firmware/entities/firmware-rollout.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant, User, DeviceProfile } from '@modules/index.entities';
+import { FirmwareRolloutStatus } from '@common/enums/index.enum';
+import { Firmware } from './firmware.entity';
+
+/**
+ * Staged delivery of one firmware package to the devices of a profile.
+ *
+ * The target devices are fixed when the rollout starts. Waves are cumulative
+ * percentages of that list (e.g. [5, 25, 100]); the next wave is released
+ * once every update of the current one has finished and the wave interval
+ * has passed. The rollout pauses itself when the share of failed updates
+ * exceeds failureThreshold.
+ */
+@Entity('firmware_rollouts')
+@Index(['tenantId', 'status'])
+@Index(['deviceProfileId'])
+export class FirmwareRollout extends BaseEntity {
+  // ══════════════════════════════════════════════════════════════════════════
+  // OWNERSHIP
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant)
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // TARGET
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  name: string;
+
+  @Column()
+  firmwareId: string;
+
+  @ManyToOne(() => Firmware)
+  @JoinColumn({ name: 'firmwareId' })
+  firmware: Firmware;
+
+  @Column()
+  deviceProfileId: string;
+
+  @ManyToOne(() => DeviceProfile)
+  @JoinColumn({ name: 'deviceProfileId' })
+  deviceProfile: DeviceProfile;
+
+  @Column({ type: 'jsonb', default: [] })
+  deviceIds: string[]; // Snapshot taken on start, in delivery order
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // WAVES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ type: 'jsonb', default: [100] })
+  waves: number[]; // Cumulative percentages, ascending, last one is 100
+
+  @Column({ type: 'int', default: -1 })
+  currentWave: number; // -1 until the first wave is released
+
+  @Column({ type: 'int', default: 60 })
+  waveIntervalMinutes: number; // Minimum time between two waves
+
+  @Column({ type: 'int', default: 10 })
+  failureThreshold: number; // Pause when failed / released > this percentage
+
+  @Column({ type: 'int', default: 60 })
+  updateTimeoutMinutes: number; // Unfinished updates older than this fail
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // STATE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({
+    type: 'enum',
+    enum: FirmwareRolloutStatus,
+    default: FirmwareRolloutStatus.SCHEDULED,
+  })
+  status: FirmwareRolloutStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  scheduledAt?: Date; // Start time; null starts on creation
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  waveStartedAt?: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt?: Date;
+
+  @Column({ type: 'text', nullable: true })
+  pauseReason?: string;
+}
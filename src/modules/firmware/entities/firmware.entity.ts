@@ -0,0 +1,85 @@
+// src/modules/firmware/entities/firmware.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant, DeviceProfile } from '@modules/index.entities';
+import { ChecksumAlgorithm, FirmwareType } from '@common/enums/index.enum';
+
+/**
+ * A firmware or software package uploaded by a tenant. The binary lives on
+ * local storage under <UPLOAD_PATH>/firmware/<tenantId>; the row keeps the
+ * version metadata and the checksum devices verify after downloading.
+ */
+@Entity('firmware')
+@Index(['tenantId', 'type', 'title', 'version'])
+@Index(['tenantId', 'deviceProfileId'])
+export class Firmware extends BaseEntity {
+  // ══════════════════════════════════════════════════════════════════════════
+  // TENANT SCOPING (REQUIRED)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant)
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // TARGET PROFILE (OPTIONAL)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ nullable: true })
+  deviceProfileId?: string; // Package is only assignable to this profile when set
+
+  @ManyToOne(() => DeviceProfile, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'deviceProfileId' })
+  deviceProfile?: DeviceProfile;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // VERSION METADATA
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ type: 'enum', enum: FirmwareType, default: FirmwareType.FIRMWARE })
+  type: FirmwareType;
+
+  @Column()
+  title: string; // 'ws202-main'
+
+  @Column()
+  version: string; // '1.2.3'
+
+  @Column({ nullable: true })
+  tag?: string; // Free-form label, e.g. 'stable', 'beta'
+
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  additionalInfo?: Record<string, any>;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // BINARY
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  fileName: string;
+
+  @Column({ default: 'application/octet-stream' })
+  contentType: string;
+
+  @Column({ type: 'int' })
+  size: number; // Bytes
+
+  @Column({
+    type: 'enum',
+    enum: ChecksumAlgorithm,
+    default: ChecksumAlgorithm.SHA256,
+  })
+  checksumAlgorithm: ChecksumAlgorithm;
+
+  @Column()
+  checksum: string; // Lower-case hex digest of the binary
+
+  @Column({ select: false })
+  filePath: string; // Never exposed through the API
+}
@@ -0,0 +1,68 @@
+// src/modules/firmware/firmware-progress.consumer.ts
+import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
+import { KafkaService } from '@/lib/kafka/kafka.service';
+import {
+  FirmwareProgressReport,
+  FirmwareRolloutService,
+} from './firmware-rollout.service';
+
+const PROGRESS_KEYS = [
+  'fw_state',
+  'fw_progress',
+  'fw_error',
+  'fw_version',
+  'current_fw_version',
+] as const;
+
+/**
+ * Picks the fw_* attributes out of validated device messages (MQTT
+ * devices/<key>/attributes, HTTP ingestion, ...) and feeds them to the
+ * device's pending firmware update.
+ */
+@Injectable()
+export class FirmwareProgressConsumer implements OnModuleInit {
+  private readonly logger = new Logger(FirmwareProgressConsumer.name);
+
+  constructor(
+    private readonly kafkaService: KafkaService,
+    private readonly rolloutService: FirmwareRolloutService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.kafkaService.createConsumer(
+      'firmware-progress-consumer-group',
+      ['telemetry.device.validated'],
+      this.handleMessage.bind(this),
+    );
+
+    this.logger.log('Firmware progress consumer started');
+  }
+
+  private async handleMessage({ message }: any): Promise<void> {
+    try {
+      const payload = JSON.parse(message.value?.toString() || '{}');
+      const data: Record<string, any> = payload.data ?? {};
+
+      if (
+        !payload.deviceId ||
+        !PROGRESS_KEYS.some((key) => data[key] !== undefined)
+      ) {
+        return;
+      }
+
+      const report: FirmwareProgressReport = {};
+      for (const key of PROGRESS_KEYS) {
+        if (data[key] !== undefined) report[key] = data[key];
+      }
+
+      await this.rolloutService.reportProgress(
+        { id: payload.deviceId, deviceKey: payload.deviceKey },
+        report,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to process firmware progress: ${(error as Error).message}`,
+      );
+    }
+  }
+}
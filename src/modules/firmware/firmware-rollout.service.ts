@@ -0,0 +1,831 @@
+// src/modules/firmware/firmware-rollout.service.ts
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  Not,
+  Repository,
+} from 'typeorm';
+import { FirmwareService } from './firmware.service';
+import { Firmware } from './entities/firmware.entity';
+import { FirmwareRollout } from './entities/firmware-rollout.entity';
+import { DeviceFirmwareUpdate } from './entities/device-firmware-update.entity';
+import { AssignFirmwareDto } from './dto/create-firmware.dto';
+import { CreateFirmwareRolloutDto } from './dto/create-firmware-rollout.dto';
+import { Device, DeviceProfile, User } from '@modules/index.entities';
+import { MQTTService } from '@/lib/mqtt/mqtt.service';
+import {
+  FirmwareRolloutStatus,
+  FirmwareUpdateState,
+} from '@common/enums/index.enum';
+
+const FINISHED_STATES = [
+  FirmwareUpdateState.UPDATED,
+  FirmwareUpdateState.FAILED,
+];
+
+const ACTIVE_ROLLOUT_STATUSES = [
+  FirmwareRolloutStatus.SCHEDULED,
+  FirmwareRolloutStatus.IN_PROGRESS,
+  FirmwareRolloutStatus.PAUSED,
+];
+
+// fw_state values devices report → tracked update state
+const REPORTED_STATES: Record<string, FirmwareUpdateState> = {
+  QUEUED: FirmwareUpdateState.QUEUED,
+  INITIATED: FirmwareUpdateState.QUEUED,
+  DOWNLOADING: FirmwareUpdateState.DOWNLOADING,
+  DOWNLOADED: FirmwareUpdateState.VERIFYING,
+  VERIFYING: FirmwareUpdateState.VERIFYING,
+  VERIFIED: FirmwareUpdateState.VERIFYING,
+  UPDATING: FirmwareUpdateState.VERIFYING,
+  UPDATED: FirmwareUpdateState.UPDATED,
+  FAILED: FirmwareUpdateState.FAILED,
+};
+
+/**
+ * Firmware progress attributes a device reports while updating:
+ *   fw_state    — QUEUED | DOWNLOADING | DOWNLOADED | VERIFYING | UPDATING | UPDATED | FAILED
+ *   fw_progress — 0-100
+ *   fw_error    — failure reason
+ *   fw_version / current_fw_version — running version, completes the update when it matches
+ */
+export interface FirmwareProgressReport {
+  fw_state?: string;
+  fw_progress?: number | string;
+  fw_error?: string;
+  fw_version?: string;
+  current_fw_version?: string;
+}
+
+/**
+ * Staged firmware rollouts and per-device update tracking.
+ *
+ * A rollout releases its target devices in percentage waves. Released
+ * devices get a QUEUED DeviceFirmwareUpdate and a notification on
+ * devices/<deviceKey>/firmware, download the binary in chunks over MQTT or
+ * HTTP, and report progress through their fw_* attributes.
+ */
+@Injectable()
+export class FirmwareRolloutService {
+  private readonly logger = new Logger(FirmwareRolloutService.name);
+
+  private readonly defaultUpdateTimeoutMinutes = parseInt(
+    process.env.FIRMWARE_UPDATE_TIMEOUT_MINUTES || '60',
+    10,
+  );
+
+  constructor(
+    @InjectRepository(FirmwareRollout)
+    private readonly rolloutRepository: Repository<FirmwareRollout>,
+    @InjectRepository(DeviceFirmwareUpdate)
+    private readonly updateRepository: Repository<DeviceFirmwareUpdate>,
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    private readonly firmwareService: FirmwareService,
+    private readonly mqttService: MQTTService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PROFILE ASSIGNMENT
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Make the package the profile's default firmware. `immediately` and
+   * `scheduled` roll it out to the profile's devices in a single wave;
+   * `on_connect` leaves delivery to the device's next connection.
+   */
+  async assign(
+    firmwareId: string,
+    user: User,
+    dto: AssignFirmwareDto,
+  ): Promise<{ profile: DeviceProfile; rollout?: FirmwareRollout }> {
+    const tenantId = this.requireTenant(user);
+    const firmware = await this.firmwareService.findOne(firmwareId, tenantId);
+    const strategy = dto.strategy ?? 'on_connect';
+
+    if (strategy === 'scheduled' && !dto.scheduledTime) {
+      throw new BadRequestException(
+        'scheduledTime is required for the scheduled strategy',
+      );
+    }
+
+    const profile = await this.firmwareService.assignToProfile(
+      firmware,
+      dto.deviceProfileId,
+      { firmwareUpdateStrategy: strategy, scheduledTime: dto.scheduledTime },
+    );
+
+    if (strategy === 'on_connect') {
+      return { profile };
+    }
+
+    const rollout = await this.create(user, {
+      name: `${firmware.title} ${firmware.version} → ${profile.name}`,
+      firmwareId: firmware.id,
+      deviceProfileId: profile.id,
+      waves: [100],
+      scheduledAt:
+        strategy === 'scheduled'
+          ? this.nextOccurrence(dto.scheduledTime!).toISOString()
+          : undefined,
+    });
+
+    return { profile, rollout };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ROLLOUTS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async create(
+    user: User,
+    dto: CreateFirmwareRolloutDto,
+  ): Promise<FirmwareRollout> {
+    const tenantId = this.requireTenant(user);
+    const firmware = await this.firmwareService.findOne(
+      dto.firmwareId,
+      tenantId,
+    );
+
+    const deviceProfileId = dto.deviceProfileId ?? firmware.deviceProfileId;
+    if (!deviceProfileId) {
+      throw new BadRequestException(
+        'deviceProfileId is required for firmware that is not bound to a profile',
+      );
+    }
+    if (
+      firmware.deviceProfileId &&
+      firmware.deviceProfileId !== deviceProfileId
+    ) {
+      throw new BadRequestException(
+        'Firmware is restricted to a different device profile',
+      );
+    }
+    await this.firmwareService.findProfile(deviceProfileId, tenantId);
+
+    const waves = dto.waves ?? [100];
+    if (
+      waves[waves.length - 1] !== 100 ||
+      waves.some((value, index) => index > 0 && value <= waves[index - 1])
+    ) {
+      throw new BadRequestException(
+        'waves must be strictly ascending cumulative percentages ending at 100',
+      );
+    }
+
+    const running = await this.rolloutRepository.findOne({
+      where: { deviceProfileId, status: In(ACTIVE_ROLLOUT_STATUSES) },
+    });
+    if (running) {
+      throw new ConflictException(
+        `Rollout "${running.name}" is already active for this device profile`,
+      );
+    }
+
+    const scheduledAt = dto.scheduledAt ? new Date(dto.scheduledAt) : undefined;
+
+    const rollout = await this.rolloutRepository.save(
+      this.rolloutRepository.create({
+        tenantId,
+        userId: user.id,
+        name: dto.name,
+        firmwareId: firmware.id,
+        deviceProfileId,
+        waves,
+        waveIntervalMinutes: dto.waveIntervalMinutes ?? 60,
+        failureThreshold: dto.failureThreshold ?? 10,
+        updateTimeoutMinutes:
+          dto.updateTimeoutMinutes ?? this.defaultUpdateTimeoutMinutes,
+        scheduledAt,
+        status: FirmwareRolloutStatus.SCHEDULED,
+        createdBy: user.id,
+      }),
+    );
+
+    if (!scheduledAt || scheduledAt <= new Date()) {
+      return this.start(rollout, firmware);
+    }
+
+    return rollout;
+  }
+
+  async findAll(
+    tenantId: string,
+    filters: { deviceProfileId?: string; status?: FirmwareRolloutStatus } = {},
+  ): Promise<FirmwareRollout[]> {
+    return this.rolloutRepository.find({
+      where: {
+        tenantId,
+        ...(filters.deviceProfileId && {
+          deviceProfileId: filters.deviceProfileId,
+        }),
+        ...(filters.status && { status: filters.status }),
+      },
+      relations: ['firmware'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: string, tenantId: string): Promise<FirmwareRollout> {
+    const rollout = await this.rolloutRepository.findOne({
+      where: { id, tenantId },
+      relations: ['firmware'],
+    });
+    if (!rollout) {
+      throw new NotFoundException(`Firmware rollout ${id} not found`);
+    }
+    return rollout;
+  }
+
+  /**
+   * Rollout with per-wave and overall update counts by state.
+   */
+  async getProgress(id: string, tenantId: string) {
+    const rollout = await this.findOne(id, tenantId);
+
+    const rows: { wave: number; state: FirmwareUpdateState; count: string }[] =
+      await this.updateRepository
+        .createQueryBuilder('update')
+        .select('update.wave', 'wave')
+        .addSelect('update.state', 'state')
+        .addSelect('COUNT(*)', 'count')
+        .where('update.rolloutId = :id', { id })
+        .groupBy('update.wave')
+        .addGroupBy('update.state')
+        .getRawMany();
+
+    const emptyCounts = () =>
+      Object.fromEntries(
+        Object.values(FirmwareUpdateState).map((state) => [state, 0]),
+      ) as Record<FirmwareUpdateState, number>;
+
+    const total = emptyCounts();
+    const waves = rollout.waves.map((percentage, index) => ({
+      wave: index,
+      percentage,
+      devices:
+        this.waveBoundary(rollout, index) -
+        this.waveBoundary(rollout, index - 1),
+      states: emptyCounts(),
+    }));
+
+    for (const row of rows) {
+      const count = Number(row.count);
+      total[row.state] += count;
+      if (waves[row.wave]) waves[row.wave].states[row.state] += count;
+    }
+
+    return {
+      rollout,
+      targetDevices: rollout.deviceIds.length,
+      released: this.waveBoundary(rollout, rollout.currentWave),
+      states: total,
+      waves,
+    };
+  }
+
+  async findUpdates(
+    id: string,
+    tenantId: string,
+    state?: FirmwareUpdateState,
+  ): Promise<DeviceFirmwareUpdate[]> {
+    await this.findOne(id, tenantId);
+
+    return this.updateRepository.find({
+      where: { rolloutId: id, ...(state && { state }) },
+      relations: ['device'],
+      order: { wave: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  async pause(
+    id: string,
+    user: User,
+    reason?: string,
+  ): Promise<FirmwareRollout> {
+    const rollout = await this.findOne(id, this.requireTenant(user));
+    if (rollout.status !== FirmwareRolloutStatus.IN_PROGRESS) {
+      throw new BadRequestException(
+        `Rollout is ${rollout.status}, only running rollouts can be paused`,
+      );
+    }
+
+    rollout.status = FirmwareRolloutStatus.PAUSED;
+    rollout.pauseReason = reason ?? `Paused by user ${user.id}`;
+    rollout.updatedBy = user.id;
+    return this.rolloutRepository.save(rollout);
+  }
+
+  /**
+   * Resuming does not reset the failure count — raise failureThreshold
+   * first if the rollout was paused for failures and should go on anyway.
+   */
+  async resume(
+    id: string,
+    user: User,
+    failureThreshold?: number,
+  ): Promise<FirmwareRollout> {
+    const rollout = await this.findOne(id, this.requireTenant(user));
+    if (rollout.status !== FirmwareRolloutStatus.PAUSED) {
+      throw new BadRequestException(
+        `Rollout is ${rollout.status}, only paused rollouts can be resumed`,
+      );
+    }
+
+    rollout.status = FirmwareRolloutStatus.IN_PROGRESS;
+    rollout.pauseReason = undefined;
+    rollout.updatedBy = user.id;
+    if (failureThreshold !== undefined)
+      rollout.failureThreshold = failureThreshold;
+    await this.rolloutRepository.save(rollout);
+
+    await this.evaluate(rollout);
+    return rollout;
+  }
+
+  /**
+   * Cancel the rollout. Devices that have not started downloading yet are
+   * failed; updates already in flight are left to finish.
+   */
+  async cancel(id: string, user: User): Promise<FirmwareRollout> {
+    const rollout = await this.findOne(id, this.requireTenant(user));
+    if (!ACTIVE_ROLLOUT_STATUSES.includes(rollout.status)) {
+      throw new BadRequestException(`Rollout is already ${rollout.status}`);
+    }
+
+    await this.updateRepository.update(
+      { rolloutId: rollout.id, state: FirmwareUpdateState.QUEUED },
+      {
+        state: FirmwareUpdateState.FAILED,
+        error: 'Rollout cancelled',
+        completedAt: new Date(),
+      },
+    );
+
+    rollout.status = FirmwareRolloutStatus.CANCELLED;
+    rollout.completedAt = new Date();
+    rollout.updatedBy = user.id;
+    return this.rolloutRepository.save(rollout);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // WAVES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Fix the target list (profile devices not already on the version) and
+   * release the first wave.
+   */
+  private async start(
+    rollout: FirmwareRollout,
+    firmware: Firmware,
+  ): Promise<FirmwareRollout> {
+    const devices = await this.deviceRepository
+      .createQueryBuilder('device')
+      .select(['device.id'])
+      .where('device.tenantId = :tenantId', { tenantId: rollout.tenantId })
+      .andWhere('device.deviceProfileId = :profileId', {
+        profileId: rollout.deviceProfileId,
+      })
+      .andWhere('device.firmwareVersion IS DISTINCT FROM :version', {
+        version: firmware.version,
+      })
+      .orderBy('device.id', 'ASC')
+      .getMany();
+
+    rollout.deviceIds = devices.map((device) => device.id);
+    rollout.status = FirmwareRolloutStatus.IN_PROGRESS;
+    rollout.startedAt = new Date();
+
+    if (rollout.deviceIds.length === 0) {
+      rollout.status = FirmwareRolloutStatus.COMPLETED;
+      rollout.completedAt = new Date();
+      return this.rolloutRepository.save(rollout);
+    }
+
+    this.logger.log(
+      `Rollout ${rollout.id} started: ${firmware.title} ${firmware.version} → ${rollout.deviceIds.length} devices`,
+    );
+
+    return this.releaseWave(rollout, firmware, 0);
+  }
+
+  private async releaseWave(
+    rollout: FirmwareRollout,
+    firmware: Firmware,
+    wave: number,
+  ): Promise<FirmwareRollout> {
+    const deviceIds = rollout.deviceIds.slice(
+      this.waveBoundary(rollout, wave - 1),
+      this.waveBoundary(rollout, wave),
+    );
+
+    rollout.currentWave = wave;
+    rollout.waveStartedAt = new Date();
+    await this.rolloutRepository.save(rollout);
+
+    const devices = deviceIds.length
+      ? await this.deviceRepository.find({ where: { id: In(deviceIds) } })
+      : [];
+    for (const device of devices) {
+      await this.queueUpdate(device, firmware, rollout.id, wave);
+    }
+
+    this.logger.log(
+      `Rollout ${rollout.id} wave ${wave + 1}/${rollout.waves.length} released to ${devices.length} devices`,
+    );
+
+    // Devices deleted since the rollout started leave the wave empty
+    if (devices.length === 0) await this.evaluate(rollout);
+
+    return rollout;
+  }
+
+  /**
+   * Number of target devices released up to and including the wave.
+   */
+  private waveBoundary(rollout: FirmwareRollout, wave: number): number {
+    if (wave < 0) return 0;
+    const percentage = rollout.waves[Math.min(wave, rollout.waves.length - 1)];
+    return Math.ceil((rollout.deviceIds.length * percentage) / 100);
+  }
+
+  /**
+   * Pause on too many failures, otherwise release the next wave once the
+   * current one has finished and the wave interval has passed.
+   */
+  private async evaluate(rollout: FirmwareRollout): Promise<void> {
+    if (rollout.status !== FirmwareRolloutStatus.IN_PROGRESS) return;
+
+    const [released, failed, unfinished] = await Promise.all([
+      this.updateRepository.count({ where: { rolloutId: rollout.id } }),
+      this.updateRepository.count({
+        where: { rolloutId: rollout.id, state: FirmwareUpdateState.FAILED },
+      }),
+      this.updateRepository.count({
+        where: {
+          rolloutId: rollout.id,
+          wave: rollout.currentWave,
+          state: Not(In(FINISHED_STATES)),
+        },
+      }),
+    ]);
+
+    const failureRate = released > 0 ? (failed / released) * 100 : 0;
+    if (failureRate > rollout.failureThreshold) {
+      rollout.status = FirmwareRolloutStatus.PAUSED;
+      rollout.pauseReason =
+        `${failed} of ${released} updates failed (${failureRate.toFixed(1)}%), ` +
+        `above the ${rollout.failureThreshold}% threshold`;
+      await this.rolloutRepository.save(rollout);
+
+      this.logger.warn(`Rollout ${rollout.id} paused: ${rollout.pauseReason}`);
+      this.eventEmitter.emit('firmware.rollout.paused', { rollout });
+      return;
+    }
+
+    if (unfinished > 0) return;
+
+    if (rollout.currentWave >= rollout.waves.length - 1) {
+      rollout.status = FirmwareRolloutStatus.COMPLETED;
+      rollout.completedAt = new Date();
+      await this.rolloutRepository.save(rollout);
+
+      this.logger.log(
+        `Rollout ${rollout.id} completed (${failed} of ${released} failed)`,
+      );
+      this.eventEmitter.emit('firmware.rollout.completed', { rollout });
+      return;
+    }
+
+    const nextWaveAt =
+      (rollout.waveStartedAt?.getTime() ?? 0) +
+      rollout.waveIntervalMinutes * 60 * 1000;
+    if (Date.now() < nextWaveAt) return;
+
+    const firmware = await this.firmwareService.findOne(
+      rollout.firmwareId,
+      rollout.tenantId,
+    );
+    await this.releaseWave(rollout, firmware, rollout.currentWave + 1);
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processRollouts(): Promise<void> {
+    const due = await this.rolloutRepository.find({
+      where: {
+        status: FirmwareRolloutStatus.SCHEDULED,
+        scheduledAt: LessThanOrEqual(new Date()),
+      },
+      relations: ['firmware'],
+    });
+    for (const rollout of due) {
+      await this.start(rollout, rollout.firmware).catch((error: Error) =>
+        this.logger.error(
+          `Failed to start rollout ${rollout.id}: ${error.message}`,
+        ),
+      );
+    }
+
+    await this.expireStaleUpdates();
+
+    const running = await this.rolloutRepository.find({
+      where: { status: FirmwareRolloutStatus.IN_PROGRESS },
+    });
+    for (const rollout of running) {
+      await this.evaluate(rollout).catch((error: Error) =>
+        this.logger.error(
+          `Failed to advance rollout ${rollout.id}: ${error.message}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Fail updates that have not finished within their rollout's timeout
+   * (or the default one for on-connect updates).
+   */
+  private async expireStaleUpdates(): Promise<void> {
+    const running = await this.rolloutRepository.find({
+      where: {
+        status: In([
+          FirmwareRolloutStatus.IN_PROGRESS,
+          FirmwareRolloutStatus.PAUSED,
+        ]),
+      },
+    });
+
+    const expire = (where: Record<string, any>, timeoutMinutes: number) =>
+      this.updateRepository.update(
+        {
+          ...where,
+          state: Not(In(FINISHED_STATES)),
+          updatedAt: LessThan(
+            new Date(Date.now() - timeoutMinutes * 60 * 1000),
+          ),
+        },
+        {
+          state: FirmwareUpdateState.FAILED,
+          error: `No progress reported for ${timeoutMinutes} minutes`,
+          completedAt: new Date(),
+        },
+      );
+
+    for (const rollout of running) {
+      await expire({ rolloutId: rollout.id }, rollout.updateTimeoutMinutes);
+    }
+    await expire({ rolloutId: IsNull() }, this.defaultUpdateTimeoutMinutes);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // DEVICE UPDATES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Queue the update for one device and notify it. An unfinished update to
+   * another package is superseded.
+   */
+  async queueUpdate(
+    device: Device,
+    firmware: Firmware,
+    rolloutId?: string,
+    wave = 0,
+  ): Promise<DeviceFirmwareUpdate> {
+    await this.updateRepository.update(
+      {
+        deviceId: device.id,
+        firmwareId: Not(firmware.id),
+        state: Not(In(FINISHED_STATES)),
+      },
+      {
+        state: FirmwareUpdateState.FAILED,
+        error: `Superseded by ${firmware.title} ${firmware.version}`,
+        completedAt: new Date(),
+      },
+    );
+
+    const existing = await this.findActiveUpdate(device.id);
+    if (existing) return existing;
+
+    const update = await this.updateRepository.save(
+      this.updateRepository.create({
+        tenantId: device.tenantId,
+        deviceId: device.id,
+        firmwareId: firmware.id,
+        rolloutId,
+        wave,
+        previousVersion: device.firmwareVersion,
+        state: FirmwareUpdateState.QUEUED,
+      }),
+    );
+
+    await this.notifyDevice(device, firmware);
+    return update;
+  }
+
+  async findDeviceUpdates(
+    deviceId: string,
+    tenantId: string,
+  ): Promise<DeviceFirmwareUpdate[]> {
+    return this.updateRepository.find({
+      where: { deviceId, tenantId },
+      relations: ['firmware'],
+      order: { createdAt: 'DESC' },
+      take: 50,
+    });
+  }
+
+  async findActiveUpdate(
+    deviceId: string,
+  ): Promise<DeviceFirmwareUpdate | null> {
+    return this.updateRepository.findOne({
+      where: { deviceId, state: Not(In(FINISHED_STATES)) },
+      relations: ['firmware'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Push the package metadata to the device. Devices that miss it (offline,
+   * HTTP-only) still find the update by polling or on their next connect.
+   */
+  async notifyDevice(device: Device, firmware: Firmware): Promise<void> {
+    try {
+      await this.mqttService.publish(`devices/${device.deviceKey}/firmware`, {
+        fw_id: firmware.id,
+        fw_type: firmware.type,
+        fw_title: firmware.title,
+        fw_version: firmware.version,
+        fw_size: firmware.size,
+        fw_checksum: firmware.checksum,
+        fw_checksum_algorithm: firmware.checksumAlgorithm,
+        fw_chunk_size: this.firmwareService.defaultChunkSize,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not notify ${device.deviceKey} about firmware ${firmware.version}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Resolve the firmware a device is downloading. The first download
+   * request moves a QUEUED update to DOWNLOADING.
+   */
+  async beginDownload(device: Device, firmwareId?: string): Promise<Firmware> {
+    const update = await this.findActiveUpdate(device.id);
+    if (!update || (firmwareId && update.firmwareId !== firmwareId)) {
+      throw new NotFoundException('No firmware update pending for this device');
+    }
+
+    if (update.state === FirmwareUpdateState.QUEUED) {
+      await this.updateRepository.update(update.id, {
+        state: FirmwareUpdateState.DOWNLOADING,
+        startedAt: update.startedAt ?? new Date(),
+      });
+    }
+
+    return update.firmware;
+  }
+
+  /**
+   * Apply the fw_* attributes a device reported to its pending update.
+   */
+  async reportProgress(
+    device: Pick<Device, 'id' | 'deviceKey'>,
+    report: FirmwareProgressReport,
+  ): Promise<DeviceFirmwareUpdate | null> {
+    const update = await this.findActiveUpdate(device.id);
+    if (!update) return null;
+
+    const reportedVersion = report.fw_version ?? report.current_fw_version;
+    let state = report.fw_state
+      ? REPORTED_STATES[String(report.fw_state).toUpperCase()]
+      : undefined;
+
+    if (report.fw_state && !state) {
+      this.logger.warn(
+        `Unknown fw_state "${report.fw_state}" from ${device.deviceKey}`,
+      );
+    }
+    if (
+      reportedVersion === update.firmware.version &&
+      state !== FirmwareUpdateState.FAILED
+    ) {
+      state = FirmwareUpdateState.UPDATED;
+    }
+
+    const now = new Date();
+    if (state) update.state = state;
+    if (
+      report.fw_progress !== undefined &&
+      !isNaN(Number(report.fw_progress))
+    ) {
+      update.progress = Math.max(
+        0,
+        Math.min(100, Math.round(Number(report.fw_progress))),
+      );
+    }
+    if (report.fw_error) update.error = String(report.fw_error);
+    update.startedAt = update.startedAt ?? now;
+    update.lastReportedAt = now;
+
+    if (update.state === FirmwareUpdateState.UPDATED) {
+      update.progress = 100;
+      update.completedAt = now;
+      await this.deviceRepository.update(device.id, {
+        firmwareVersion: update.firmware.version,
+      });
+    } else if (update.state === FirmwareUpdateState.FAILED) {
+      update.completedAt = now;
+      update.error = update.error ?? 'Update failed on device';
+    }
+
+    const saved = await this.updateRepository.save(update);
+    this.eventEmitter.emit('firmware.update.changed', { update: saved });
+
+    if (saved.isFinished()) {
+      this.logger.log(
+        `Firmware update of ${device.deviceKey} to ${update.firmware.version}: ${saved.state}`,
+      );
+
+      if (saved.rolloutId) {
+        const rollout = await this.rolloutRepository.findOne({
+          where: { id: saved.rolloutId },
+        });
+        if (rollout) await this.evaluate(rollout);
+      }
+    }
+
+    return saved;
+  }
+
+  /**
+   * on_connect strategy: a device that connects behind its profile's default
+   * firmware gets an update queued; one with a pending update is reminded.
+   */
+  async handleDeviceConnected(device: Device): Promise<void> {
+    const active = await this.findActiveUpdate(device.id);
+    if (active) {
+      await this.notifyDevice(device, active.firmware);
+      return;
+    }
+
+    if (!device.deviceProfileId) return;
+
+    const profile = await this.firmwareService
+      .findProfile(device.deviceProfileId, device.tenantId)
+      .catch(() => null);
+    const config = profile?.firmwareConfiguration;
+    if (
+      config?.firmwareUpdateStrategy !== 'on_connect' ||
+      !config.defaultFirmwareId
+    ) {
+      return;
+    }
+
+    const firmware = await this.firmwareService
+      .findOne(config.defaultFirmwareId, device.tenantId)
+      .catch(() => null);
+    if (!firmware || firmware.version === device.firmwareVersion) return;
+
+    await this.queueUpdate(device, firmware);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Next UTC occurrence of a daily "HH:MM" time.
+   */
+  private nextOccurrence(time: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const next = new Date();
+    next.setUTCHours(hours, minutes, 0, 0);
+    if (next <= new Date()) next.setUTCDate(next.getUTCDate() + 1);
+    return next;
+  }
+
+  private requireTenant(user: User): string {
+    if (!user.tenantId) {
+      throw new BadRequestException(
+        'Firmware management requires a tenant user',
+      );
+    }
+    return user.tenantId;
+  }
+}
@@ -0,0 +1,351 @@
+// src/modules/firmware/firmware.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Res,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiConsumes,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { FirmwareService } from './firmware.service';
+import { FirmwareRolloutService } from './firmware-rollout.service';
+import {
+  AssignFirmwareDto,
+  CreateFirmwareDto,
+  UpdateFirmwareDto,
+} from './dto/create-firmware.dto';
+import { CreateFirmwareRolloutDto } from './dto/create-firmware-rollout.dto';
+import { DeviceCredentialsService } from '@modules/devices/device-credentials.service';
+import { JwtAuthGuard } from '@common/guards/jwt-auth.guard';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { Public } from '@/common/decorators/public.decorator';
+import { ParseIdPipe } from '@common/pipes/parse-id.pipe';
+import { User } from '../users/entities/user.entity';
+import {
+  FirmwareRolloutStatus,
+  FirmwareType,
+  FirmwareUpdateState,
+} from '@common/enums/index.enum';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// All routes except the device-facing ones require JWT. Devices authenticate
+// with their access token in the path.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@ApiTags('firmware')
+@Controller('firmware')
+export class FirmwareController {
+  constructor(
+    private readonly firmwareService: FirmwareService,
+    private readonly rolloutService: FirmwareRolloutService,
+    private readonly credentialsService: DeviceCredentialsService,
+  ) {}
+
+  // ── Packages ───────────────────────────────────────────────────────────────
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Upload a firmware or software package' })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing file or checksum mismatch',
+  })
+  @ApiResponse({ status: 409, description: 'Title and version already exist' })
+  create(
+    @CurrentUser() user: User,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() createDto: CreateFirmwareDto,
+  ) {
+    return this.firmwareService.create(user, file, createDto);
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List firmware packages' })
+  @ApiQuery({ name: 'deviceProfileId', required: false })
+  @ApiQuery({ name: 'type', required: false, enum: FirmwareType })
+  findAll(
+    @CurrentUser() user: User,
+    @Query('deviceProfileId') deviceProfileId?: string,
+    @Query('type') type?: FirmwareType,
+  ) {
+    return this.firmwareService.findAll(user.tenantId!, {
+      deviceProfileId,
+      type,
+    });
+  }
+
+  // ── Rollouts ───────────────────────────────────────────────────────────────
+
+  @Post('rollouts')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Create a staged rollout (starts now unless scheduledAt is set)',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A rollout is already active for the profile',
+  })
+  createRollout(
+    @CurrentUser() user: User,
+    @Body() createDto: CreateFirmwareRolloutDto,
+  ) {
+    return this.rolloutService.create(user, createDto);
+  }
+
+  @Get('rollouts')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List firmware rollouts' })
+  @ApiQuery({ name: 'deviceProfileId', required: false })
+  @ApiQuery({ name: 'status', required: false, enum: FirmwareRolloutStatus })
+  findRollouts(
+    @CurrentUser() user: User,
+    @Query('deviceProfileId') deviceProfileId?: string,
+    @Query('status') status?: FirmwareRolloutStatus,
+  ) {
+    return this.rolloutService.findAll(user.tenantId!, {
+      deviceProfileId,
+      status,
+    });
+  }
+
+  @Get('rollouts/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a rollout with per-wave update counts' })
+  getRolloutProgress(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+  ) {
+    return this.rolloutService.getProgress(id, user.tenantId!);
+  }
+
+  @Get('rollouts/:id/updates')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the device updates of a rollout' })
+  @ApiQuery({ name: 'state', required: false, enum: FirmwareUpdateState })
+  findRolloutUpdates(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Query('state') state?: FirmwareUpdateState,
+  ) {
+    return this.rolloutService.findUpdates(id, user.tenantId!, state);
+  }
+
+  @Post('rollouts/:id/pause')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause a running rollout' })
+  pauseRollout(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body('reason') reason?: string,
+  ) {
+    return this.rolloutService.pause(id, user, reason);
+  }
+
+  @Post('rollouts/:id/resume')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Resume a paused rollout, optionally with a new failure threshold',
+  })
+  resumeRollout(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body('failureThreshold') failureThreshold?: number,
+  ) {
+    return this.rolloutService.resume(id, user, failureThreshold);
+  }
+
+  @Post('rollouts/:id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a rollout' })
+  cancelRollout(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+  ) {
+    return this.rolloutService.cancel(id, user);
+  }
+
+  @Get('devices/:deviceId/updates')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Firmware update history of a device' })
+  findDeviceUpdates(
+    @CurrentUser() user: User,
+    @Param('deviceId', ParseIdPipe) deviceId: string,
+  ) {
+    return this.rolloutService.findDeviceUpdates(deviceId, user.tenantId!);
+  }
+
+  // ── Device-facing routes (no JwtAuthGuard — secured by access token) ───────
+
+  @Get('device/:accessToken')
+  @Public()
+  @ApiOperation({ summary: 'Pending firmware update of the device, if any' })
+  async getPendingUpdate(@Param('accessToken') accessToken: string) {
+    const { device } =
+      await this.credentialsService.verifyCredentials(accessToken);
+    const update = await this.rolloutService.findActiveUpdate(device.id);
+    if (!update) return null;
+
+    return {
+      fw_id: update.firmware.id,
+      fw_type: update.firmware.type,
+      fw_title: update.firmware.title,
+      fw_version: update.firmware.version,
+      fw_size: update.firmware.size,
+      fw_checksum: update.firmware.checksum,
+      fw_checksum_algorithm: update.firmware.checksumAlgorithm,
+      fw_chunk_size: this.firmwareService.defaultChunkSize,
+      fw_state: update.state,
+    };
+  }
+
+  @Get('device/:accessToken/:firmwareId')
+  @Public()
+  @ApiOperation({
+    summary: 'Download the pending firmware',
+    description:
+      'Returns one chunk when chunk is set (empty past the end of the file), the whole file otherwise.',
+  })
+  @ApiQuery({ name: 'chunk', required: false })
+  @ApiQuery({ name: 'size', required: false })
+  async downloadForDevice(
+    @Param('accessToken') accessToken: string,
+    @Param('firmwareId', ParseIdPipe) firmwareId: string,
+    @Res() res: Response,
+    @Query('chunk') chunk?: string,
+    @Query('size') size?: string,
+  ) {
+    const { device } =
+      await this.credentialsService.verifyCredentials(accessToken);
+    const firmware = await this.rolloutService.beginDownload(
+      device,
+      firmwareId,
+    );
+
+    const content =
+      chunk === undefined
+        ? await this.firmwareService.readFile(firmware)
+        : await this.firmwareService.readChunk(
+            firmware,
+            Number(chunk),
+            size !== undefined ? Number(size) : undefined,
+          );
+
+    return this.sendBinary(res, content, firmware.fileName, firmware.checksum);
+  }
+
+  // ── Single package ─────────────────────────────────────────────────────────
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get firmware package by ID' })
+  findOne(@CurrentUser() user: User, @Param('id', ParseIdPipe) id: string) {
+    return this.firmwareService.findOne(id, user.tenantId!);
+  }
+
+  @Get(':id/download')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download the firmware binary' })
+  async download(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Res() res: Response,
+  ) {
+    const firmware = await this.firmwareService.findOne(id, user.tenantId!);
+    const content = await this.firmwareService.readFile(firmware);
+    return this.sendBinary(res, content, firmware.fileName, firmware.checksum);
+  }
+
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Update firmware metadata (the binary is immutable)',
+  })
+  update(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body() updateDto: UpdateFirmwareDto,
+  ) {
+    return this.firmwareService.update(id, user, updateDto);
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a firmware package' })
+  @ApiResponse({
+    status: 409,
+    description: 'Firmware is assigned or being delivered',
+  })
+  remove(@CurrentUser() user: User, @Param('id', ParseIdPipe) id: string) {
+    return this.firmwareService.remove(id, user);
+  }
+
+  @Post(':id/assign')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Make the package a device profile's default firmware",
+  })
+  assign(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body() assignDto: AssignFirmwareDto,
+  ) {
+    return this.rolloutService.assign(id, user, assignDto);
+  }
+
+  private sendBinary(
+    res: Response,
+    content: Buffer,
+    fileName: string,
+    checksum: string,
+  ) {
+    res.header('Content-Type', 'application/octet-stream');
+    res.header('Content-Length', String(content.length));
+    res.header(
+      'Content-Disposition',
+      `attachment; filename="${fileName.replace(/"/g, '')}"`,
+    );
+    res.header('X-Firmware-Checksum', checksum);
+    return res.send(content);
+  }
+}
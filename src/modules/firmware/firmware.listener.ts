@@ -0,0 +1,83 @@
+// src/modules/firmware/firmware.listener.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Device } from '@modules/index.entities';
+import { MQTTService } from '@/lib/mqtt/mqtt.service';
+import { FirmwareService } from './firmware.service';
+import { FirmwareRolloutService } from './firmware-rollout.service';
+
+export interface FirmwareChunkRequest {
+  deviceKey: string;
+  requestId: string;
+  chunk: number;
+  chunkSize?: number;
+}
+
+@Injectable()
+export class FirmwareListener {
+  private readonly logger = new Logger(FirmwareListener.name);
+
+  constructor(
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    private readonly firmwareService: FirmwareService,
+    private readonly rolloutService: FirmwareRolloutService,
+    private readonly mqttService: MQTTService,
+  ) {}
+
+  /**
+   * MQTT download: the device publishes the chunk size to
+   *   devices/<deviceKey>/firmware/request/<requestId>/chunk/<index>
+   * and receives the raw bytes on
+   *   devices/<deviceKey>/firmware/response/<requestId>/chunk/<index>
+   * An empty response marks the end of the file; failures are sent to
+   *   devices/<deviceKey>/firmware/response/<requestId>/error
+   */
+  @OnEvent('firmware.chunk.requested')
+  async handleChunkRequest(request: FirmwareChunkRequest): Promise<void> {
+    const responseTopic = `devices/${request.deviceKey}/firmware/response/${request.requestId}`;
+
+    try {
+      const device = await this.deviceRepository.findOne({
+        where: { deviceKey: request.deviceKey },
+      });
+      if (!device) {
+        this.logger.warn(
+          `Firmware chunk requested by unknown device ${request.deviceKey}`,
+        );
+        return;
+      }
+
+      const firmware = await this.rolloutService.beginDownload(device);
+      const data = await this.firmwareService.readChunk(
+        firmware,
+        request.chunk,
+        request.chunkSize,
+      );
+      await this.mqttService.publishBinary(
+        `${responseTopic}/chunk/${request.chunk}`,
+        data,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Firmware chunk ${request.chunk} for ${request.deviceKey} failed: ${(error as Error).message}`,
+      );
+      await this.mqttService
+        .publish(`${responseTopic}/error`, { error: (error as Error).message })
+        .catch(() => undefined);
+    }
+  }
+
+  @OnEvent('device.connected')
+  async handleDeviceConnected({ device }: { device: Device }): Promise<void> {
+    try {
+      await this.rolloutService.handleDeviceConnected(device);
+    } catch (error) {
+      this.logger.error(
+        `Firmware check on connect failed for ${device.deviceKey}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,38 @@
+// src/modules/firmware/firmware.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FirmwareController } from './firmware.controller';
+import { FirmwareService } from './firmware.service';
+import { FirmwareRolloutService } from './firmware-rollout.service';
+import { FirmwareListener } from './firmware.listener';
+import { FirmwareProgressConsumer } from './firmware-progress.consumer';
+import { Firmware } from './entities/firmware.entity';
+import { FirmwareRollout } from './entities/firmware-rollout.entity';
+import { DeviceFirmwareUpdate } from './entities/device-firmware-update.entity';
+import { Device, DeviceProfile } from '@modules/index.entities';
+import { DevicesModule } from '@modules/devices/devices.module';
+
+// MQTTService and KafkaService come from the global MQTTModule / KafkaModule;
+// DevicesModule provides DeviceCredentialsService for device-facing routes.
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Firmware,
+      FirmwareRollout,
+      DeviceFirmwareUpdate,
+      Device,
+      DeviceProfile,
+    ]),
+    DevicesModule,
+  ],
+  controllers: [FirmwareController],
+  providers: [
+    FirmwareService,
+    FirmwareRolloutService,
+    FirmwareListener,
+    FirmwareProgressConsumer,
+  ],
+  exports: [FirmwareService, FirmwareRolloutService],
+})
+export class FirmwareModule {}
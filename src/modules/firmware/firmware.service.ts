@@ -0,0 +1,351 @@
+// src/modules/firmware/firmware.service.ts
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Not, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Firmware } from './entities/firmware.entity';
+import { FirmwareRollout } from './entities/firmware-rollout.entity';
+import { DeviceFirmwareUpdate } from './entities/device-firmware-update.entity';
+import {
+  CreateFirmwareDto,
+  UpdateFirmwareDto,
+} from './dto/create-firmware.dto';
+import { DeviceProfile, User } from '@modules/index.entities';
+import {
+  ChecksumAlgorithm,
+  FirmwareRolloutStatus,
+  FirmwareType,
+  FirmwareUpdateState,
+} from '@common/enums/index.enum';
+
+// Node crypto names of the supported checksum algorithms
+const HASH_ALGORITHMS: Record<ChecksumAlgorithm, string> = {
+  [ChecksumAlgorithm.MD5]: 'md5',
+  [ChecksumAlgorithm.SHA256]: 'sha256',
+  [ChecksumAlgorithm.SHA384]: 'sha384',
+  [ChecksumAlgorithm.SHA512]: 'sha512',
+};
+
+/**
+ * Firmware / software package registry: upload with checksum verification,
+ * binary storage, chunked reads for device downloads and assignment of a
+ * package as a device profile's default firmware.
+ */
+@Injectable()
+export class FirmwareService {
+  private readonly logger = new Logger(FirmwareService.name);
+
+  private readonly storageRoot = path.join(
+    process.env.UPLOAD_PATH || './uploads',
+    'firmware',
+  );
+  private readonly maxFileSize =
+    parseInt(process.env.FIRMWARE_MAX_SIZE_MB || '100', 10) * 1024 * 1024;
+
+  readonly defaultChunkSize = parseInt(
+    process.env.FIRMWARE_CHUNK_SIZE || '16384',
+    10,
+  );
+  readonly maxChunkSize = 1024 * 1024;
+
+  constructor(
+    @InjectRepository(Firmware)
+    private readonly firmwareRepository: Repository<Firmware>,
+    @InjectRepository(FirmwareRollout)
+    private readonly rolloutRepository: Repository<FirmwareRollout>,
+    @InjectRepository(DeviceFirmwareUpdate)
+    private readonly updateRepository: Repository<DeviceFirmwareUpdate>,
+    @InjectRepository(DeviceProfile)
+    private readonly profileRepository: Repository<DeviceProfile>,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PACKAGES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async create(
+    user: User,
+    file: Express.Multer.File,
+    dto: CreateFirmwareDto,
+  ): Promise<Firmware> {
+    const tenantId = this.requireTenant(user);
+
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('Firmware file is required');
+    }
+    if (file.size > this.maxFileSize) {
+      throw new BadRequestException(
+        `Firmware file exceeds the ${this.maxFileSize / 1024 / 1024} MB limit`,
+      );
+    }
+
+    if (dto.deviceProfileId) {
+      await this.findProfile(dto.deviceProfileId, tenantId);
+    }
+
+    const type = dto.type ?? FirmwareType.FIRMWARE;
+    const existing = await this.firmwareRepository.findOne({
+      where: { tenantId, type, title: dto.title, version: dto.version },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `${type} "${dto.title}" version ${dto.version} already exists`,
+      );
+    }
+
+    const checksumAlgorithm = dto.checksumAlgorithm ?? ChecksumAlgorithm.SHA256;
+    const checksum = this.computeChecksum(file.buffer, checksumAlgorithm);
+    if (dto.checksum && dto.checksum.toLowerCase() !== checksum) {
+      throw new BadRequestException(
+        `Checksum mismatch: expected ${dto.checksum.toLowerCase()}, file has ${checksum} (${checksumAlgorithm})`,
+      );
+    }
+
+    const firmware = this.firmwareRepository.create({
+      tenantId,
+      deviceProfileId: dto.deviceProfileId,
+      type,
+      title: dto.title,
+      version: dto.version,
+      tag: dto.tag,
+      description: dto.description,
+      fileName: file.originalname,
+      contentType: file.mimetype || 'application/octet-stream',
+      size: file.size,
+      checksumAlgorithm,
+      checksum,
+      filePath: '',
+      createdBy: user.id,
+    });
+    const saved = await this.firmwareRepository.save(firmware);
+
+    const directory = path.join(this.storageRoot, tenantId);
+    const filePath = path.join(directory, `${saved.id}.bin`);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(filePath, file.buffer);
+    await this.firmwareRepository.update(saved.id, { filePath });
+
+    this.logger.log(
+      `Firmware ${saved.title} ${saved.version} uploaded for tenant ${tenantId} (${saved.size} bytes)`,
+    );
+
+    // Reloaded so the response carries no filePath (select: false)
+    return this.findOne(saved.id, tenantId);
+  }
+
+  async findAll(
+    tenantId: string,
+    filters: { deviceProfileId?: string; type?: FirmwareType } = {},
+  ): Promise<Firmware[]> {
+    const qb = this.firmwareRepository
+      .createQueryBuilder('firmware')
+      .where('firmware.tenantId = :tenantId', { tenantId });
+
+    if (filters.deviceProfileId) {
+      qb.andWhere(
+        '(firmware.deviceProfileId = :deviceProfileId OR firmware.deviceProfileId IS NULL)',
+        { deviceProfileId: filters.deviceProfileId },
+      );
+    }
+    if (filters.type) {
+      qb.andWhere('firmware.type = :type', { type: filters.type });
+    }
+
+    return qb
+      .orderBy('firmware.title', 'ASC')
+      .addOrderBy('firmware.createdAt', 'DESC')
+      .getMany();
+  }
+
+  async findOne(id: string, tenantId: string): Promise<Firmware> {
+    const firmware = await this.firmwareRepository.findOne({
+      where: { id, tenantId },
+    });
+    if (!firmware) {
+      throw new NotFoundException(`Firmware ${id} not found`);
+    }
+    return firmware;
+  }
+
+  async update(
+    id: string,
+    user: User,
+    dto: UpdateFirmwareDto,
+  ): Promise<Firmware> {
+    const firmware = await this.findOne(id, this.requireTenant(user));
+
+    Object.assign(firmware, dto, { updatedBy: user.id });
+    return this.firmwareRepository.save(firmware);
+  }
+
+  /**
+   * Packages still referenced by a profile, a running rollout or an
+   * unfinished device update cannot be removed.
+   */
+  async remove(id: string, user: User): Promise<void> {
+    const tenantId = this.requireTenant(user);
+    const firmware = await this.findOne(id, tenantId);
+
+    const assigned = await this.profileRepository
+      .createQueryBuilder('profile')
+      .where('profile.tenantId = :tenantId', { tenantId })
+      .andWhere(`profile.firmwareConfiguration->>'defaultFirmwareId' = :id`, {
+        id,
+      })
+      .getCount();
+    if (assigned > 0) {
+      throw new ConflictException(
+        'Firmware is the default firmware of a device profile',
+      );
+    }
+
+    const rollouts = await this.rolloutRepository.count({
+      where: {
+        firmwareId: id,
+        status: In([
+          FirmwareRolloutStatus.SCHEDULED,
+          FirmwareRolloutStatus.IN_PROGRESS,
+          FirmwareRolloutStatus.PAUSED,
+        ]),
+      },
+    });
+    const updates = await this.updateRepository.count({
+      where: {
+        firmwareId: id,
+        state: Not(
+          In([FirmwareUpdateState.UPDATED, FirmwareUpdateState.FAILED]),
+        ),
+      },
+    });
+    if (rollouts > 0 || updates > 0) {
+      throw new ConflictException('Firmware is being delivered to devices');
+    }
+
+    const filePath = await this.getFilePath(firmware.id);
+    await fs.unlink(filePath).catch(() => undefined);
+
+    firmware.deletedBy = user.id;
+    await this.firmwareRepository.save(firmware);
+    await this.firmwareRepository.softRemove(firmware);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PROFILE ASSIGNMENT
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async assignToProfile(
+    firmware: Firmware,
+    deviceProfileId: string,
+    configuration: NonNullable<DeviceProfile['firmwareConfiguration']>,
+  ): Promise<DeviceProfile> {
+    if (
+      firmware.deviceProfileId &&
+      firmware.deviceProfileId !== deviceProfileId
+    ) {
+      throw new BadRequestException(
+        'Firmware is restricted to a different device profile',
+      );
+    }
+
+    const profile = await this.findProfile(deviceProfileId, firmware.tenantId);
+    profile.firmwareConfiguration = {
+      ...profile.firmwareConfiguration,
+      ...configuration,
+      defaultFirmwareId: firmware.id,
+    };
+
+    return this.profileRepository.save(profile);
+  }
+
+  async findProfile(id: string, tenantId: string): Promise<DeviceProfile> {
+    const profile = await this.profileRepository.findOne({
+      where: { id, tenantId },
+    });
+    if (!profile) {
+      throw new NotFoundException(`Device profile ${id} not found`);
+    }
+    return profile;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // BINARY ACCESS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Read one chunk of the binary. Chunks past the end of the file are empty,
+   * which tells the device the download is complete.
+   */
+  async readChunk(
+    firmware: Firmware,
+    chunk: number,
+    chunkSize = this.defaultChunkSize,
+  ): Promise<Buffer> {
+    if (!Number.isInteger(chunk) || chunk < 0) {
+      throw new BadRequestException(
+        'Chunk index must be a non-negative integer',
+      );
+    }
+    if (
+      !Number.isInteger(chunkSize) ||
+      chunkSize < 1 ||
+      chunkSize > this.maxChunkSize
+    ) {
+      throw new BadRequestException(
+        `Chunk size must be between 1 and ${this.maxChunkSize} bytes`,
+      );
+    }
+
+    const offset = chunk * chunkSize;
+    if (offset >= firmware.size) return Buffer.alloc(0);
+
+    const handle = await fs.open(await this.getFilePath(firmware.id), 'r');
+    try {
+      const buffer = Buffer.alloc(Math.min(chunkSize, firmware.size - offset));
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async readFile(firmware: Firmware): Promise<Buffer> {
+    return fs.readFile(await this.getFilePath(firmware.id));
+  }
+
+  private async getFilePath(id: string): Promise<string> {
+    const row = await this.firmwareRepository
+      .createQueryBuilder('firmware')
+      .select(['firmware.id', 'firmware.filePath'])
+      .where('firmware.id = :id', { id })
+      .withDeleted()
+      .getOne();
+    if (!row?.filePath) {
+      throw new NotFoundException(`Binary of firmware ${id} not found`);
+    }
+    return row.filePath;
+  }
+
+  private computeChecksum(
+    content: Buffer,
+    algorithm: ChecksumAlgorithm,
+  ): string {
+    return createHash(HASH_ALGORITHMS[algorithm]).update(content).digest('hex');
+  }
+
+  private requireTenant(user: User): string {
+    if (!user.tenantId) {
+      throw new BadRequestException(
+        'Firmware management requires a tenant user',
+      );
+    }
+    return user.tenantId;
+  }
+}
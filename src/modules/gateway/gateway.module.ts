@@ -6,6 +6,8 @@ import { DevicesModule } from '../devices/devices.module';
 import { ProtocolsModule } from '../protocols/protocols.module';
 import { WebsocketModule } from '../websocket/websocket.module';
 import { CodecModule } from '@modules/devices/codecs/codec.module';
+import { NetworkServersModule } from '@modules/network-servers/network-servers.module';
+import { SparkplugModule } from '@modules/sparkplug/sparkplug.module';
 import mqttConfig from '../../config/mqtt.config';
 
 // ─── What GatewayModule does NOT own ─────────────────────────────────────
@@ -17,6 +19,8 @@ import mqttConfig from '../../config/mqtt.config';
 //   MQTTService         → publish downlink commands  (from MQTTModule, global)
 //   DevicesService      → device lookup / findByDeviceKey (from DevicesModule)
 //   CodecRegistryService → encode commands for LoRaWAN (from CodecModule)
+//   NetworkServersService → queue ChirpStack / TTS downlinks (from NetworkServersModule)
+//   SparkplugService    → encode Sparkplug NCMD / DCMD writes (from SparkplugModule)
 
 @Module({
   imports: [
@@ -24,6 +28,8 @@ import mqttConfig from '../../config/mqtt.config';
     DevicesModule,
     ProtocolsModule,  // exports DeviceListenerService + re-exports MQTTModule
     CodecModule,      // exports CodecRegistryService
+    NetworkServersModule,
+    SparkplugModule,
     WebsocketModule,
   ],
   controllers: [GatewayController],
@@ -12,6 +12,8 @@ import { DevicesService } from '../devices/devices.service';
 import { MQTTService } from '@/lib/mqtt/mqtt.service';
 import { CodecRegistryService } from '@modules/devices/codecs/codec-registry.service';
 import { DeviceProtocol } from '@modules/devices/entities/device.entity';
+import { NetworkServersService } from '@modules/network-servers/network-servers.service';
+import { SparkplugService } from '@modules/sparkplug/sparkplug.service';
 import { UserRole } from '@/common/enums/user.enum';
 import { User } from '../index.entities';
 
@@ -23,8 +25,23 @@ export interface DeviceMessage {
 }
 
 export interface DeviceCommand {
+  /** DeviceCommand id — echoed back by the device / network server for correlation */
+  id?: string;
   method: string;
   params?: Record<string, any>;
+  // LoRaWAN only — override the codec's defaults
+  fPort?: number;
+  confirmed?: boolean;
+}
+
+export interface CommandDispatch {
+  // LoRaWAN downlinks are acknowledged by the network server (txack / ack
+  // events), generic MQTT commands by the device on rpc/response/<id>
+  lorawan: boolean;
+  confirmed: boolean;
+  queueItemId?: string;
+  // Nothing to wait for — Sparkplug NCMD / DCMD writes have no response
+  completed?: boolean;
 }
 
 interface VerifiedConnection {
@@ -58,6 +75,8 @@ export class GatewayService implements OnModuleInit, OnModuleDestroy {
     // It delegates all publish operations to MQTTService (the single client).
     private readonly mqttService: MQTTService,
     private readonly codecRegistry: CodecRegistryService,
+    private readonly networkServers: NetworkServersService,
+    private readonly sparkplug: SparkplugService,
   ) {}
 
   async onModuleInit(): Promise<void> {
@@ -73,7 +92,10 @@ export class GatewayService implements OnModuleInit, OnModuleDestroy {
 
   // ── Send command (downlink) ────────────────────────────────────────────────
 
-  async sendCommand(deviceKey: string, command: DeviceCommand): Promise<void> {
+  async sendCommand(
+    deviceKey: string,
+    command: DeviceCommand,
+  ): Promise<CommandDispatch> {
     const device = await this.devicesService.findByDeviceKey(deviceKey, this.systemUser);
 
     this.logger.log(`sendCommand — deviceKey: ${deviceKey}, protocol: ${device.protocol}, devEUI: ${device.metadata?.devEUI}`);
@@ -82,6 +104,8 @@ export class GatewayService implements OnModuleInit, OnModuleDestroy {
 
     let topic: string;
     let payload: any;
+    let lorawan = true;
+    let confirmed = false;
 
     switch (device.protocol) {
       case DeviceProtocol.LORAWAN_MILESIGHT: {
@@ -94,44 +118,91 @@ export class GatewayService implements OnModuleInit, OnModuleDestroy {
         );
 
         topic = `milesight/downlink/${devEUI}`;
+        confirmed = encoded.confirmed ?? false;
         payload = {
+          ...(command.id ? { id: command.id } : {}),
           devEUI,
           fPort: encoded.fPort ?? 85,
-          confirmed: encoded.confirmed ?? false,
+          confirmed,
           data: encoded.data,
         };
         break;
       }
 
 
-      case DeviceProtocol.LORAWAN_CHIRPSTACK: {
-        if (!devEUI) throw new Error(`devEUI required for ChirpStack device: ${deviceKey}`);
+      case DeviceProtocol.LORAWAN_CHIRPSTACK:
+      case DeviceProtocol.LORAWAN_TTS: {
+        if (!devEUI) throw new Error(`devEUI required for LoRaWAN device: ${deviceKey}`);
+        if (!command.id) throw new Error('LoRaWAN downlinks require a command id');
 
         const encoded = this.codecRegistry.encode(
           { type: command.method, params: command.params },
           { codecId: device.metadata?.codecId as string },
         );
 
+        const fPort = command.fPort ?? encoded.fPort ?? 1;
+        if (!Number.isInteger(fPort) || fPort < 1 || fPort > 223) {
+          throw new Error(`Invalid LoRaWAN fPort ${fPort} (1–223)`);
+        }
+        confirmed = command.confirmed ?? encoded.confirmed ?? false;
+
+        // id becomes the ChirpStack queueItemId / TTS correlation id,
+        // echoed in txack / ack / error events
+        const queued = await this.networkServers.enqueueDownlink(device, {
+          id: command.id,
+          fPort,
+          confirmed,
+          data: encoded.data,
+        });
+
+        if (queued) {
+          this.logger.log(`Downlink queued → ${deviceKey} (${command.method})`);
+          return { lorawan, confirmed, queueItemId: queued.queueItemId };
+        }
+
+        if (device.protocol === DeviceProtocol.LORAWAN_TTS) {
+          throw new Error(
+            `No network server configured for TTS device: ${deviceKey}`,
+          );
+        }
+
+        // No network server registered — ChirpStack bridged to the platform
+        // broker (legacy setup)
         topic = `milesight/downlink/${devEUI}`;
         payload = {
+          id: command.id,
           devEUI,
-          confirmed: false,
-          fPort: encoded.fPort ?? 1,
+          confirmed,
+          fPort,
           data: Buffer.from(encoded.data, 'hex').toString('base64'),
         };
         break;
       }
 
+      case DeviceProtocol.SPARKPLUG_B: {
+        // Metric writes as NCMD (edge node) / DCMD (device), protobuf encoded
+        const message = this.sparkplug.buildCommand(device, command);
+        await this.mqttService.publishBinary(message.topic, message.payload);
+        this.logger.log(
+          `Sparkplug command sent → ${deviceKey} (${command.method})`,
+        );
+        return { lorawan: false, confirmed: false, completed: true };
+      }
+
       default: {
-        // Generic MQTT — send command JSON directly to the commands topic
-        topic = `milesight/downlink/${devEUI}`;
+        // Generic MQTT — send command JSON directly to the commands topic.
+        // The device answers on devices/<deviceKey>/rpc/response/<id>.
+        topic = `devices/${deviceKey}/commands`;
         payload = command;
+        lorawan = false;
         break;
       }
     }
 
     await this.mqttService.publish(topic, payload);
     this.logger.log(`Command sent → ${deviceKey} (${command.method})`);
+
+    return { lorawan, confirmed };
   }
 
   // ── Send RPC request ──────────────────────────────────────────────────────
@@ -15,6 +15,7 @@ export {
 // Device & IoT entities
 export { Device } from './devices/entities/device.entity';
 export { Telemetry } from './telemetry/entities/telemetry.entity';
+export { TelemetryRollup } from './telemetry/entities/telemetry-rollup.entity';
 export { Asset } from './assets/entities/asset.entity';
 export { EdgeInstance } from './edge/entities/edge-instance.entity';
 export { EdgeCommand } from './edge/entities/edge-command.entity';
@@ -33,6 +34,11 @@ export { FloorPlan } from './floor-plans/entities/floor-plan.entity';
 
 // Notification & Communication entities
 export { Alarm } from './alarms/entities/alarm.entity';
+export { EscalationPolicy } from './alarms/entities/escalation-policy.entity';
+export { OnCallSchedule } from './alarms/entities/on-call-schedule.entity';
+export { AlarmEscalation } from './alarms/entities/alarm-escalation.entity';
+export { AlarmComment } from './alarms/entities/alarm-comment.entity';
+export { AlarmTimelineEvent } from './alarms/entities/alarm-timeline-event.entity';
 export { Notification } from './notifications/entities/notification.entity';
 export { EmailTemplate } from './email-templates/entities/email-template.entity';
 
@@ -45,6 +51,7 @@ export { APILog } from './api-monitoring/entities/api-log.entity';
 export { Integration } from './integrations/entities/integration.entity';
 export { Automation } from './automation/entities/automation.entity';
 export { Schedule } from './schedules/entities/schedule.entity';
+export { Script } from './scripts/entities/script.entity';
 
 // Subscription & Sharing entities
 export { Subscription } from './subscriptions/entities/subscription.entity';
@@ -52,6 +59,7 @@ export { Share } from './sharing/entities/sharing.entity';
 
 // Template & Resource entities
 export { SolutionTemplate } from './solution-templates/entities/solution-template.entity';
+export { SolutionTemplateInstallation } from './solution-templates/entities/solution-template-installation.entity';
 export { Image } from './images/entities/image.entity';
 
 export { Attribute } from './attributes/entities/attribute.entity';
@@ -60,7 +68,14 @@ export { Tenant } from './tenants/entities/tenant.entity';
 
 export { Node } from './nodes/entities/node.entity';
 export { DeviceCredentials } from './devices/entities/device-credentials.entity';
+export { DeviceConnectivityEvent } from './devices/entities/device-connectivity-event.entity';
+export { CustomCodec } from './devices/codecs/entities/custom-codec.entity';
+export { CustomCodecVersion } from './devices/codecs/entities/custom-codec-version.entity';
+export { NetworkServer } from './network-servers/entities/network-server.entity';
 export { DeviceCommand } from './device-commands/entities/device-commands.entity';
+export { Firmware } from './firmware/entities/firmware.entity';
+export { FirmwareRollout } from './firmware/entities/firmware-rollout.entity';
+export { DeviceFirmwareUpdate } from './firmware/entities/device-firmware-update.entity';
 export { OAuthAccount } from './auth/entities/oauth-account.entity';
 export { TokenBlacklist } from './auth/entities/token-blacklist.entity';
 export { Payment } from './payments/entities/payment.entity';
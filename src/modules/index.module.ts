@@ -36,6 +36,7 @@ export { GatewayModule } from './gateway/gateway.module';
 export { AssetsModule } from './assets/assets.module';
 export { AttributesModule } from './attributes/attributes.module';
 export { NodesModule } from './nodes/nodes.module';
+export { RulesModule } from './rules/rules.module';
 
 // Communication modules
 export { WebsocketModule } from './websocket/websocket.module';
@@ -65,6 +66,11 @@ export { ImagesModule } from './images/images.module';
 export { SolutionTemplatesModule } from './solution-templates/solution-templates.module';
 export { SharingModule } from './sharing/sharing.module';
 
+// Device management modules
+export { FirmwareModule } from './firmware/firmware.module';
+export { NetworkServersModule } from './network-servers/network-servers.module';
+export { SparkplugModule } from './sparkplug/sparkplug.module';
+
 // ============================================
 // IMPORT MODULES FOR FEATURE ARRAY
 // ============================================
@@ -78,6 +84,7 @@ import { GatewayModule } from './gateway/gateway.module';
 import { AssetsModule } from './assets/assets.module';
 import { AttributesModule } from './attributes/attributes.module';
 import { NodesModule } from './nodes/nodes.module';
+import { RulesModule } from './rules/rules.module';
 import { WebsocketModule } from './websocket/websocket.module';
 import { UserSettingsModule } from './user-settings/user-settings.module';
 import { MailModule } from './mail/mail.module';
@@ -115,6 +122,9 @@ import { KafkaModule } from '@/lib/kafka/kafka.module';
 import { RedisModule } from '@/lib/redis/redis.module';
 import { MQTTModule } from '@/lib/mqtt/mqtt.module';
 import { EdgeModule } from './edge/edge.module';
+import { FirmwareModule } from './firmware/firmware.module';
+import { NetworkServersModule } from './network-servers/network-servers.module';
+import { SparkplugModule } from './sparkplug/sparkplug.module';
 
 // ============================================
 // FEATURE MODULES ARRAY (for spreading in app.module.ts)
@@ -149,6 +159,7 @@ export const featureModules = [
   AssetsModule,
   AttributesModule,
   NodesModule,
+  RulesModule,
 
   // Communication
   WebsocketModule,
@@ -180,4 +191,7 @@ export const featureModules = [
   SharingModule,
   ProtocolsModule,
   DeviceCommandsModule,
+  FirmwareModule,
+  NetworkServersModule,
+  SparkplugModule,
 ];
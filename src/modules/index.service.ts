@@ -17,6 +17,8 @@ export { DeviceCommandsService } from './device-commands/device-commands.service
 export { DevicesService } from './devices/devices.service';
 export { EdgeService } from './edge/edge.service';
 export { EmailTemplatesService } from './email-templates/email-templates.service';
+export { FirmwareService } from './firmware/firmware.service';
+export { FirmwareRolloutService } from './firmware/firmware-rollout.service';
 export { FloorPlansService } from './floor-plans/floor-plans.service';
 export { GatewayService } from './gateway/gateway.service';
 export { ImagesService } from './images/images.service';
@@ -28,6 +30,7 @@ export { NotificationsService } from './notifications/notifications.service';
 export { PaymentsService } from './payments/payments.service';
 export { AssetProfilesService } from './profiles/asset-profiles.service';
 export { DeviceProfilesService } from './profiles/device-profiles.service';
+export { RulesService } from './rules/rules.service';
 export { ScriptsService } from './scripts/scripts.service';
 export { SharingService } from './sharing/sharing.service';
 export { SolutionTemplatesService } from './solution-templates/solution-template.service';
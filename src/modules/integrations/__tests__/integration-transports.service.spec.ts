@@ -0,0 +1,215 @@
+// src/modules/integrations/__tests__/integration-transports.service.spec.ts
+// Outbound target checks — integrations may not reach loopback, private,
+// link-local or reserved addresses, directly or through DNS
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { LookupAddress, promises as dns } from 'dns';
+import {
+  IntegrationDeliveryError,
+  IntegrationTransportsService,
+} from '../integration-transports.service';
+import { isReservedIp } from '@common/utils/helpers';
+
+describe('IntegrationTransportsService — target checks', () => {
+  let service: IntegrationTransportsService;
+
+  const lookup = jest.spyOn(dns, 'lookup');
+
+  const resolvesTo = (...addresses: string[]) =>
+    lookup.mockResolvedValue(
+      addresses.map((address) => ({
+        address,
+        family: address.includes(':') ? 6 : 4,
+      })) as LookupAddress[] as never,
+    );
+
+  const resolve = (target: IntegrationTransportsService, host: string) =>
+    target['resolveTarget'](host, 'HTTP');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [IntegrationTransportsService],
+    }).compile();
+
+    service = module.get<IntegrationTransportsService>(
+      IntegrationTransportsService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    lookup.mockRestore();
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ADDRESSES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('isReservedIp', () => {
+    it('should flag loopback', () => {
+      expect(isReservedIp('127.0.0.1')).toBe(true);
+      expect(isReservedIp('127.10.20.30')).toBe(true);
+      expect(isReservedIp('::1')).toBe(true);
+    });
+
+    it('should flag RFC 1918 private ranges', () => {
+      expect(isReservedIp('10.0.0.1')).toBe(true);
+      expect(isReservedIp('172.16.0.1')).toBe(true);
+      expect(isReservedIp('172.31.255.254')).toBe(true);
+      expect(isReservedIp('192.168.1.1')).toBe(true);
+    });
+
+    it('should flag link-local, including the cloud metadata address', () => {
+      expect(isReservedIp('169.254.169.254')).toBe(true);
+      expect(isReservedIp('fe80::1')).toBe(true);
+    });
+
+    it('should flag IPv4-mapped IPv6 forms of reserved addresses', () => {
+      expect(isReservedIp('::ffff:127.0.0.1')).toBe(true);
+      expect(isReservedIp('::ffff:169.254.169.254')).toBe(true);
+      expect(isReservedIp('::ffff:7f00:1')).toBe(true);
+      expect(isReservedIp('::ffff:a00:1')).toBe(true);
+    });
+
+    it('should flag anything that is not an address', () => {
+      expect(isReservedIp('localhost')).toBe(true);
+      expect(isReservedIp('')).toBe(true);
+    });
+
+    it('should pass public addresses', () => {
+      expect(isReservedIp('8.8.8.8')).toBe(false);
+      expect(isReservedIp('172.32.0.1')).toBe(false);
+      expect(isReservedIp('::ffff:8.8.8.8')).toBe(false);
+      expect(isReservedIp('2606:4700:4700::1111')).toBe(false);
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // RESOLUTION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('resolveTarget', () => {
+    it('should refuse literal private and reserved hosts without a lookup', async () => {
+      for (const host of [
+        '127.0.0.1',
+        '10.1.2.3',
+        '169.254.169.254',
+        '[::1]',
+        '[::ffff:169.254.169.254]',
+      ]) {
+        await expect(resolve(service, host)).rejects.toThrow(
+          'is a private or reserved address',
+        );
+      }
+      expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('should not retry a refused target', async () => {
+      const refused = resolve(service, '127.0.0.1');
+
+      await expect(refused).rejects.toBeInstanceOf(IntegrationDeliveryError);
+      await expect(refused).rejects.toMatchObject({ retryable: false });
+    });
+
+    it('should refuse a name that resolves to a private address', async () => {
+      resolvesTo('192.168.0.10');
+
+      await expect(resolve(service, 'printer.example.com')).rejects.toThrow(
+        'HTTP host printer.example.com is a private or reserved address',
+      );
+      expect(lookup).toHaveBeenCalledWith('printer.example.com', {
+        all: true,
+        verbatim: true,
+      });
+    });
+
+    it('should refuse a name when any of its addresses is reserved', async () => {
+      resolvesTo('93.184.216.34', '::ffff:127.0.0.1');
+
+      await expect(resolve(service, 'mixed.example.com')).rejects.toThrow(
+        'is a private or reserved address',
+      );
+    });
+
+    it('should return the addresses of a public name', async () => {
+      resolvesTo('93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946');
+
+      await expect(resolve(service, 'example.com')).resolves.toEqual([
+        { address: '93.184.216.34', family: 4 },
+        { address: '2606:2800:220:1:248:1893:25c8:1946', family: 6 },
+      ]);
+    });
+
+    it('should report a name that does not resolve as retryable', async () => {
+      lookup.mockRejectedValue(
+        Object.assign(new Error('getaddrinfo ENOTFOUND'), {
+          code: 'ENOTFOUND',
+        }),
+      );
+
+      await expect(resolve(service, 'gone.example.com')).rejects.toMatchObject({
+        message: 'HTTP host gone.example.com could not be resolved: ENOTFOUND',
+        retryable: true,
+      });
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ALLOW-LIST
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('INTEGRATION_ALLOWED_NETWORKS', () => {
+    let allowing: IntegrationTransportsService;
+
+    // The allow-list is read when the module loads
+    beforeAll(() => {
+      process.env.INTEGRATION_ALLOWED_NETWORKS =
+        '10.20.0.0/16, 192.168.1.5, not-a-network';
+
+      jest.isolateModules(() => {
+        const isolated = jest.requireActual<{
+          IntegrationTransportsService: typeof IntegrationTransportsService;
+        }>('../integration-transports.service');
+        allowing = new isolated.IntegrationTransportsService();
+      });
+
+      delete process.env.INTEGRATION_ALLOWED_NETWORKS;
+    });
+
+    it('should let listed private addresses and ranges through', async () => {
+      await expect(resolve(allowing, '10.20.3.4')).resolves.toEqual([
+        { address: '10.20.3.4', family: 4 },
+      ]);
+      await expect(resolve(allowing, '[::ffff:10.20.3.4]')).resolves.toEqual([
+        { address: '::ffff:10.20.3.4', family: 6 },
+      ]);
+    });
+
+    it('should let a name through that resolves into the allow-list', async () => {
+      resolvesTo('192.168.1.5');
+
+      await expect(resolve(allowing, 'erp.internal')).resolves.toEqual([
+        { address: '192.168.1.5', family: 4 },
+      ]);
+    });
+
+    it('should still refuse private addresses outside the allow-list', async () => {
+      for (const host of ['10.21.0.1', '192.168.1.6', '169.254.169.254']) {
+        await expect(resolve(allowing, host)).rejects.toThrow(
+          'is a private or reserved address',
+        );
+      }
+    });
+
+    it('should ignore invalid entries', async () => {
+      resolvesTo('127.0.0.1');
+
+      await expect(resolve(allowing, 'not-a-network')).rejects.toThrow(
+        'is a private or reserved address',
+      );
+    });
+  });
+});
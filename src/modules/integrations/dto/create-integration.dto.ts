@@ -4,9 +4,32 @@ import {
   IsOptional,
   IsBoolean,
   IsObject,
+  IsInt,
+  Min,
+  Max,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { IntegrationType } from '@common/enums/index.enum';
+import type { Integration } from '../entities/integration.entity';
+
+export class IntegrationRateLimitDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  enabled: boolean;
+
+  @ApiProperty({ example: 100, description: 'Max deliveries per window' })
+  @IsInt()
+  @Min(1)
+  maxRequests: number;
+
+  @ApiProperty({ example: 60, description: 'Window length in seconds' })
+  @IsInt()
+  @Min(1)
+  @Max(86400)
+  windowSeconds: number;
+}
 
 export class CreateIntegrationDto {
   @ApiProperty({ example: 'AWS IoT Core', description: 'Integration name' })
@@ -33,20 +56,20 @@ export class CreateIntegrationDto {
 
   @ApiProperty({
     example: {
-      url: 'mqtt://aws-iot.com',
+      broker: 'aws-iot.com',
       port: 8883,
-      apiKey: 'xxx',
+      topic: 'export/{deviceId}/{eventType}',
+      useTls: true,
+      events: ['telemetry', 'alarm'],
+      converterScriptId: null,
     },
   })
   @IsObject()
-  configuration: {
-    url?: string;
-    port?: number;
-    username?: string;
-    password?: string;
-    apiKey?: string;
-    topic?: string;
-    headers?: Record<string, string>;
-    method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
-  };
+  configuration: Integration['configuration'];
+
+  @ApiProperty({ type: IntegrationRateLimitDto, required: false })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => IntegrationRateLimitDto)
+  rateLimiting?: IntegrationRateLimitDto;
 }
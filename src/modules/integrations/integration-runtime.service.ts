@@ -0,0 +1,608 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Alarm, Device } from '@modules/index.entities';
+import {
+  IntegrationEventType,
+  IntegrationStatus,
+} from '@common/enums/index.enum';
+import { pick, sleep } from '@common/utils/helpers';
+import { ScriptsService } from '../scripts/scripts.service';
+import { Integration } from './entities/integration.entity';
+import {
+  IntegrationDeliveryError,
+  IntegrationTransportsService,
+} from './integration-transports.service';
+
+export const INTEGRATION_CHANGED_EVENT = 'integration.changed';
+
+export interface IntegrationChangedEvent {
+  integrationId: string;
+  tenantId: string;
+}
+
+/** The message every converter receives as (msg, metadata, msgType) */
+export interface IntegrationExportMessage {
+  eventType: IntegrationEventType;
+  msgType: string;
+  tenantId: string;
+  deviceId?: string;
+  ts: number;
+  data: Record<string, any>;
+  metadata: Record<string, any>;
+}
+
+export interface TelemetryExport {
+  deviceId: string;
+  deviceKey?: string;
+  tenantId: string;
+  customerId?: string | null;
+  data: Record<string, any>;
+  timestamp?: string | number;
+}
+
+interface DeliveryQueue {
+  integration: Integration;
+  pending: IntegrationExportMessage[];
+  draining: boolean;
+}
+
+interface PendingStats {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  lastActivity: Date;
+  lastSuccess?: Date;
+  lastFailure?: Date;
+  // Newest first — put in front of the stored history on flush
+  errors: NonNullable<Integration['errorHistory']>;
+}
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+// Messages waiting per integration; the oldest are dropped beyond this
+const MAX_QUEUE_SIZE = 1000;
+const CACHE_TTL = 30 * 1000;
+
+// Fields an edit may change — statistics stay with the live instance
+const CONFIG_FIELDS = [
+  'name',
+  'type',
+  'protocol',
+  'configuration',
+  'credentials',
+  'enabled',
+  'status',
+  'tags',
+  'additionalInfo',
+] as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Data export runtime. Telemetry, alarm and device lifecycle events are run
+// through each matching integration's converter script and delivered by its
+// transport. Every integration drains its own queue in order, so its retries
+// and rate limit never hold up the others.
+//
+// Converter: an optional TRANSFORMATION script. It receives the export
+// message as (msg, metadata, msgType); returning null drops the message.
+// Without a converter the whole export message is delivered.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class IntegrationRuntimeService implements OnModuleDestroy {
+  private readonly logger = new Logger(IntegrationRuntimeService.name);
+  // Live instances hold the statistics and the rate limit window
+  private readonly tenantIntegrations = new Map<
+    string,
+    { integrations: Integration[]; loadedAt: number }
+  >();
+  private readonly instances = new Map<string, Integration>();
+  private readonly queues = new Map<string, DeliveryQueue>();
+  private stopped = false;
+
+  // Deliveries are counted here and written in one batch by flushStats()
+  private pendingStats = new Map<string, PendingStats>();
+
+  constructor(
+    @InjectRepository(Integration)
+    private readonly integrationRepository: Repository<Integration>,
+    private readonly transports: IntegrationTransportsService,
+    private readonly scriptsService: ScriptsService,
+  ) {}
+
+  async onModuleDestroy(): Promise<void> {
+    this.stopped = true;
+    await this.flushStats();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // EVENT SOURCES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** Called by IntegrationsConsumer for every validated telemetry message */
+  async exportTelemetry(telemetry: TelemetryExport): Promise<void> {
+    const ts = telemetry.timestamp
+      ? new Date(telemetry.timestamp).getTime()
+      : Date.now();
+
+    await this.dispatch({
+      eventType: IntegrationEventType.TELEMETRY,
+      msgType: 'POST_TELEMETRY_REQUEST',
+      tenantId: telemetry.tenantId,
+      deviceId: telemetry.deviceId,
+      ts: Number.isNaN(ts) ? Date.now() : ts,
+      data: telemetry.data,
+      metadata: {
+        deviceKey: telemetry.deviceKey,
+        customerId: telemetry.customerId ?? undefined,
+      },
+    });
+  }
+
+  @OnEvent('alarm.triggered')
+  async handleAlarmTriggered({ alarm }: { alarm: Alarm }): Promise<void> {
+    await this.exportAlarmEvent(alarm, 'ALARM_TRIGGERED');
+  }
+
+  @OnEvent('alarm.updated')
+  async handleAlarmUpdated({ alarm }: { alarm: Alarm }): Promise<void> {
+    await this.exportAlarmEvent(alarm, 'ALARM_UPDATED');
+  }
+
+  @OnEvent('alarm.acknowledged')
+  async handleAlarmAcknowledged({ alarm }: { alarm: Alarm }): Promise<void> {
+    await this.exportAlarmEvent(alarm, 'ALARM_ACK');
+  }
+
+  @OnEvent('alarm.cleared')
+  async handleAlarmCleared({ alarm }: { alarm: Alarm }): Promise<void> {
+    await this.exportAlarmEvent(alarm, 'ALARM_CLEAR');
+  }
+
+  @OnEvent('alarm.resolved')
+  async handleAlarmResolved({ alarm }: { alarm: Alarm }): Promise<void> {
+    await this.exportAlarmEvent(alarm, 'ALARM_RESOLVED');
+  }
+
+  @OnEvent('device.connected')
+  async handleDeviceConnected({ device }: { device: Device }): Promise<void> {
+    await this.exportDeviceEvent(device, 'CONNECT_EVENT');
+  }
+
+  @OnEvent('device.offline')
+  async handleDeviceOffline({ device }: { device: Device }): Promise<void> {
+    await this.exportDeviceEvent(device, 'INACTIVITY_EVENT');
+  }
+
+  @OnEvent('device.provisioned')
+  async handleDeviceProvisioned({ device }: { device: Device }): Promise<void> {
+    await this.exportDeviceEvent(device, 'ENTITY_CREATED');
+  }
+
+  @OnEvent(INTEGRATION_CHANGED_EVENT)
+  async handleIntegrationChanged({
+    integrationId,
+    tenantId,
+  }: IntegrationChangedEvent): Promise<void> {
+    this.tenantIntegrations.delete(tenantId);
+    await this.transports.release(integrationId);
+
+    const live = this.instances.get(integrationId);
+    if (!live) return;
+
+    const fresh = await this.integrationRepository
+      .createQueryBuilder('integration')
+      .addSelect('integration.credentials')
+      .where('integration.id = :id', { id: integrationId })
+      .getOne();
+
+    if (fresh) {
+      this.adopt(live, fresh);
+    } else {
+      // Deleted — pending messages go nowhere
+      this.instances.delete(integrationId);
+      this.queues.get(integrationId)?.pending.splice(0);
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // DISPATCH
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async exportAlarmEvent(alarm: Alarm, msgType: string): Promise<void> {
+    if (!alarm?.tenantId) return;
+
+    await this.dispatch({
+      eventType: IntegrationEventType.ALARM,
+      msgType,
+      tenantId: alarm.tenantId,
+      deviceId: alarm.deviceId,
+      ts: Date.now(),
+      data: {
+        id: alarm.id,
+        name: alarm.name,
+        severity: alarm.severity,
+        status: alarm.status,
+        message: alarm.message,
+        currentValue: alarm.currentValue as unknown,
+        triggeredAt: alarm.triggeredAt,
+        acknowledgedAt: alarm.acknowledgedAt,
+        clearedAt: alarm.clearedAt,
+        resolvedAt: alarm.resolvedAt,
+      },
+      metadata: { customerId: alarm.customerId },
+    });
+  }
+
+  private async exportDeviceEvent(
+    device: Device,
+    msgType: string,
+  ): Promise<void> {
+    if (!device?.tenantId) return;
+
+    await this.dispatch({
+      eventType: IntegrationEventType.DEVICE,
+      msgType,
+      tenantId: device.tenantId,
+      deviceId: device.id,
+      ts: Date.now(),
+      data: {
+        id: device.id,
+        name: device.name,
+        deviceKey: device.deviceKey,
+        type: device.type,
+        status: device.status,
+        lastSeenAt: device.lastSeenAt,
+      },
+      metadata: {
+        customerId: device.customerId,
+        deviceProfileId: device.deviceProfileId,
+      },
+    });
+  }
+
+  private async dispatch(message: IntegrationExportMessage): Promise<void> {
+    if (this.stopped) return;
+
+    try {
+      const integrations = await this.getTenantIntegrations(message.tenantId);
+      for (const integration of integrations) {
+        if (this.accepts(integration, message)) {
+          this.enqueue(integration, message);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch ${message.msgType} for tenant ${message.tenantId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /** No `events` means every event type; no `deviceIds` means every device */
+  private accepts(
+    integration: Integration,
+    message: IntegrationExportMessage,
+  ): boolean {
+    if (!integration.enabled) return false;
+
+    const { events, deviceIds } = integration.configuration ?? {};
+    if (events?.length && !events.includes(message.eventType)) return false;
+    if (
+      deviceIds?.length &&
+      (!message.deviceId || !deviceIds.includes(message.deviceId))
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  private enqueue(
+    integration: Integration,
+    message: IntegrationExportMessage,
+  ): void {
+    let queue = this.queues.get(integration.id);
+    if (!queue) {
+      queue = { integration, pending: [], draining: false };
+      this.queues.set(integration.id, queue);
+    }
+
+    if (queue.pending.length >= MAX_QUEUE_SIZE) {
+      queue.pending.shift();
+      this.logger.warn(
+        `Integration ${integration.name} is falling behind — dropped the oldest queued message`,
+      );
+    }
+    queue.pending.push(message);
+
+    if (!queue.draining) {
+      void this.drain(queue);
+    }
+  }
+
+  private async drain(queue: DeliveryQueue): Promise<void> {
+    queue.draining = true;
+    try {
+      while (queue.pending.length > 0 && !this.stopped) {
+        if (!queue.integration.enabled) {
+          queue.pending.splice(0);
+          break;
+        }
+        await this.process(queue.integration, queue.pending.shift()!);
+      }
+    } finally {
+      queue.draining = false;
+      if (queue.pending.length === 0) {
+        this.queues.delete(queue.integration.id);
+      }
+    }
+  }
+
+  private async process(
+    integration: Integration,
+    message: IntegrationExportMessage,
+  ): Promise<void> {
+    try {
+      const payload = await this.convert(integration, message);
+      if (payload === null || payload === undefined) return;
+
+      await this.deliverWithRetry(integration, payload, message);
+      integration.recordSuccess();
+      this.countDelivery(integration, true);
+    } catch (error) {
+      const statusCode =
+        error instanceof IntegrationDeliveryError
+          ? error.statusCode
+          : undefined;
+      integration.recordFailure((error as Error).message, statusCode);
+      this.countDelivery(integration, false);
+      this.logger.warn(
+        `Integration ${integration.name} failed to export ${message.msgType}: ${(error as Error).message}`,
+      );
+
+      // recordFailure() disabled it after too many consecutive failures
+      if (
+        !integration.enabled &&
+        integration.status === IntegrationStatus.ERROR
+      ) {
+        await this.disable(integration);
+      }
+    }
+  }
+
+  private async convert(
+    integration: Integration,
+    message: IntegrationExportMessage,
+  ): Promise<unknown> {
+    const scriptId = integration.configuration?.converterScriptId;
+    if (!scriptId) return message;
+
+    const result = await this.scriptsService.runById(
+      scriptId,
+      integration.tenantId,
+      {
+        msg: message.data,
+        metadata: {
+          ...message.metadata,
+          integrationId: integration.id,
+          integrationName: integration.name,
+          eventType: message.eventType,
+          tenantId: message.tenantId,
+          deviceId: message.deviceId,
+          ts: message.ts,
+        },
+        msgType: message.msgType,
+      },
+    );
+
+    if (!result.success) {
+      throw new Error(
+        `Converter failed: ${result.error?.name}: ${result.error?.message}`,
+      );
+    }
+
+    const output = result.output as unknown;
+    return output && typeof output === 'object' && 'msg' in output
+      ? (output as { msg: unknown }).msg
+      : output;
+  }
+
+  /**
+   * retryAttempts extra attempts with exponential backoff from retryDelay.
+   * Every attempt counts against the rate limit and waits for a free slot.
+   */
+  private async deliverWithRetry(
+    integration: Integration,
+    payload: unknown,
+    message: IntegrationExportMessage,
+  ): Promise<void> {
+    const config = integration.configuration;
+    const attempts = 1 + (config.retryAttempts ?? DEFAULT_RETRY_ATTEMPTS);
+    const baseDelay = config.retryDelay ?? DEFAULT_RETRY_DELAY_MS;
+    const vars = {
+      tenantId: message.tenantId,
+      deviceId: message.deviceId ?? '',
+      deviceKey: String(message.metadata.deviceKey ?? ''),
+      eventType: message.eventType,
+      msgType: message.msgType,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForRateLimit(integration);
+      integration.incrementRateLimit();
+
+      try {
+        await this.transports.deliver(integration, payload, vars);
+        return;
+      } catch (error) {
+        const retryable =
+          !(error instanceof IntegrationDeliveryError) || error.retryable;
+        if (!retryable || attempt >= attempts || this.stopped) throw error;
+
+        await sleep(
+          Math.min(baseDelay * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS),
+        );
+      }
+    }
+  }
+
+  private async waitForRateLimit(integration: Integration): Promise<void> {
+    while (integration.isRateLimited() && !this.stopped) {
+      const { windowStart, windowSeconds } = integration.rateLimiting!;
+      const windowEnd =
+        new Date(windowStart ?? Date.now()).getTime() + windowSeconds * 1000;
+      await sleep(Math.max(windowEnd - Date.now() + 1, 100));
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // STATE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async getTenantIntegrations(
+    tenantId: string,
+  ): Promise<Integration[]> {
+    const cached = this.tenantIntegrations.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL) {
+      return cached.integrations;
+    }
+
+    const rows = await this.integrationRepository
+      .createQueryBuilder('integration')
+      .addSelect('integration.credentials')
+      .where('integration.tenantId = :tenantId', { tenantId })
+      .andWhere('integration.enabled = true')
+      .getMany();
+
+    const integrations = rows.map((row) => {
+      const live = this.instances.get(row.id);
+      if (!live) {
+        this.instances.set(row.id, row);
+        return row;
+      }
+      this.adopt(live, row);
+      return live;
+    });
+
+    this.tenantIntegrations.set(tenantId, {
+      integrations,
+      loadedAt: Date.now(),
+    });
+    return integrations;
+  }
+
+  /** Take the configuration of a reloaded row, keep live statistics */
+  private adopt(live: Integration, fresh: Integration): void {
+    const reEnabled = fresh.enabled && !live.enabled;
+    Object.assign(live, pick(fresh, [...CONFIG_FIELDS]));
+    if (reEnabled) {
+      live.consecutiveFailures = fresh.consecutiveFailures;
+    }
+
+    live.rateLimiting = fresh.rateLimiting && {
+      ...fresh.rateLimiting,
+      currentCount: live.rateLimiting?.currentCount,
+      windowStart: live.rateLimiting?.windowStart,
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // STATISTICS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Counters are added to the stored values, so instances never overwrite
+   * each other's deliveries. Status is only written while the integration is
+   * still enabled, so a concurrent toggle by a user is not overwritten.
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async flushStats(): Promise<void> {
+    if (this.pendingStats.size === 0) return;
+
+    const batch = this.pendingStats;
+    this.pendingStats = new Map();
+
+    for (const [id, pending] of batch) {
+      const live = this.instances.get(id);
+      if (!live) continue;
+
+      try {
+        await this.integrationRepository
+          .createQueryBuilder()
+          .update(Integration)
+          .set({
+            messagesProcessed: () =>
+              `"messagesProcessed" + ${pending.processed}`,
+            messagesSucceeded: () =>
+              `"messagesSucceeded" + ${pending.succeeded}`,
+            messagesFailed: () => `"messagesFailed" + ${pending.failed}`,
+            lastActivity: pending.lastActivity,
+            ...(pending.lastSuccess && { lastSuccess: pending.lastSuccess }),
+            ...(pending.lastFailure && { lastFailure: pending.lastFailure }),
+            ...(pending.errors.length > 0 && {
+              errorHistory: () =>
+                `jsonb_path_query_array(CAST(:errors AS jsonb) || COALESCE("errorHistory", CAST('[]' AS jsonb)), '$[0 to 9]')`,
+            }),
+            lastError: live.lastError ?? (() => 'NULL'),
+            consecutiveFailures: live.consecutiveFailures,
+            rateLimiting: live.rateLimiting,
+            status: () => `CASE WHEN "enabled" THEN :status ELSE "status" END`,
+          })
+          .where('id = :id', { id })
+          .setParameters({
+            errors: JSON.stringify(pending.errors),
+            status: live.status,
+          })
+          .execute();
+      } catch (error) {
+        this.logger.error(
+          `Failed to save statistics of integration ${id}: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  private countDelivery(integration: Integration, succeeded: boolean): void {
+    const pending = this.pendingStats.get(integration.id) ?? {
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      lastActivity: integration.lastActivity!,
+      errors: [],
+    };
+
+    pending.processed += 1;
+    pending.lastActivity = integration.lastActivity!;
+    if (succeeded) {
+      pending.succeeded += 1;
+      pending.lastSuccess = integration.lastSuccess;
+    } else {
+      pending.failed += 1;
+      pending.lastFailure = integration.lastFailure;
+      pending.errors = [integration.errorHistory![0], ...pending.errors].slice(
+        0,
+        10,
+      );
+    }
+
+    this.pendingStats.set(integration.id, pending);
+  }
+
+  private async disable(integration: Integration): Promise<void> {
+    try {
+      await this.integrationRepository.update(integration.id, {
+        status: IntegrationStatus.ERROR,
+        enabled: false,
+      });
+      this.logger.error(
+        `Integration ${integration.name} disabled after ${integration.consecutiveFailures} consecutive failures`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to disable integration ${integration.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,617 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import axios, { AxiosError } from 'axios';
+import * as https from 'https';
+import { LookupAddress, promises as dns } from 'dns';
+import { isIP } from 'net';
+import * as mqtt from 'mqtt';
+import { Client, Pool, PoolConfig } from 'pg';
+import { IntegrationType } from '@common/enums/index.enum';
+import { ipInAllowList, isReservedIp } from '@common/utils/helpers';
+import { Integration } from './entities/integration.entity';
+
+export type IntegrationTransport = 'http' | 'mqtt' | 'sql';
+
+/**
+ * A failed delivery. Non-retryable failures (bad configuration, HTTP 4xx)
+ * skip the remaining retry attempts.
+ */
+export class IntegrationDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode?: number,
+    readonly retryable = true,
+  ) {
+    super(message);
+    this.name = 'IntegrationDeliveryError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const SQL_POOL_SIZE = 2;
+const SQL_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Private addresses integrations may still reach (on-premise targets), as
+// comma-separated IPs / CIDR ranges. Everything else private is refused.
+const ALLOWED_PRIVATE_NETWORKS = (
+  process.env.INTEGRATION_ALLOWED_NETWORKS ?? ''
+)
+  .split(',')
+  .map((rule) => rule.trim())
+  .filter(Boolean);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Outbound transports for integrations. MQTT clients and SQL pools are kept
+// per integration and dropped with release() when its configuration changes.
+// Connectivity tests always open fresh connections.
+//
+// Targets are tenant input: every host is resolved first and loopback,
+// private, link-local and reserved addresses are refused, so an integration
+// (or its connectivity test) cannot reach the platform's own network.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class IntegrationTransportsService implements OnModuleDestroy {
+  private readonly logger = new Logger(IntegrationTransportsService.name);
+  private readonly mqttClients = new Map<string, Promise<mqtt.MqttClient>>();
+  private readonly sqlPools = new Map<string, Pool>();
+  private readonly httpsAgents = new Map<string, https.Agent>();
+
+  async onModuleDestroy(): Promise<void> {
+    const ids = new Set([...this.mqttClients.keys(), ...this.sqlPools.keys()]);
+    await Promise.all([...ids].map((id) => this.release(id)));
+  }
+
+  /**
+   * WEBHOOK/API/NOTIFICATION deliver over HTTP, MQTT and DATABASE over their
+   * own transport; CLOUD integrations pick one from their protocol.
+   */
+  resolveTransport(integration: Integration): IntegrationTransport | null {
+    switch (integration.type) {
+      case IntegrationType.WEBHOOK:
+      case IntegrationType.API:
+      case IntegrationType.NOTIFICATION:
+        return 'http';
+      case IntegrationType.MQTT:
+        return 'mqtt';
+      case IntegrationType.DATABASE:
+        return 'sql';
+      case IntegrationType.CLOUD: {
+        const protocol = (integration.protocol ?? '').toUpperCase();
+        if (protocol.startsWith('MQTT')) return 'mqtt';
+        if (protocol.startsWith('HTTP')) return 'http';
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Deliver one converted payload. `vars` fill {placeholders} in the MQTT
+   * topic. SQL payloads are a row object or an array of rows.
+   */
+  async deliver(
+    integration: Integration,
+    payload: unknown,
+    vars: Record<string, string> = {},
+  ): Promise<void> {
+    switch (this.requireTransport(integration)) {
+      case 'http':
+        return this.sendHttp(integration, payload);
+      case 'mqtt':
+        return this.publishMqtt(integration, payload, vars);
+      case 'sql':
+        return this.insertRows(integration, payload);
+    }
+  }
+
+  /**
+   * Reach the target without exporting data: HTTP sends a TEST message,
+   * MQTT connects, SQL connects and checks that the table exists.
+   */
+  async test(integration: Integration): Promise<void> {
+    switch (this.requireTransport(integration)) {
+      case 'http':
+        return this.sendHttp(integration, {
+          msgType: 'TEST',
+          integrationId: integration.id,
+          ts: Date.now(),
+        });
+      case 'mqtt': {
+        const client = await this.connectMqtt(integration, false);
+        await client.endAsync();
+        return;
+      }
+      case 'sql':
+        return this.testSql(integration);
+    }
+  }
+
+  /** Close the cached connections of an integration */
+  async release(integrationId: string): Promise<void> {
+    this.httpsAgents.get(integrationId)?.destroy();
+    this.httpsAgents.delete(integrationId);
+
+    const client = this.mqttClients.get(integrationId);
+    this.mqttClients.delete(integrationId);
+    if (client) {
+      await client.then((c) => c.endAsync()).catch(() => undefined);
+    }
+
+    const pool = this.sqlPools.get(integrationId);
+    this.sqlPools.delete(integrationId);
+    if (pool) {
+      await pool.end().catch(() => undefined);
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HTTP
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async sendHttp(
+    integration: Integration,
+    payload: unknown,
+  ): Promise<void> {
+    const config = integration.configuration;
+    if (!config.url) {
+      throw new IntegrationDeliveryError(
+        'HTTP integration has no url configured',
+        undefined,
+        false,
+      );
+    }
+
+    const target = this.parseUrl(config.url, ['http:', 'https:'], 'HTTP');
+    await this.resolveTarget(target.hostname, 'HTTP');
+
+    let status: number;
+    let statusText: string;
+    try {
+      const response = await axios({
+        method: config.method ?? 'POST',
+        url: config.url,
+        // Checked again at connect time (DNS may change) and on redirects
+        lookup: async (hostname: string) => [
+          await this.resolveTarget(hostname, 'HTTP'),
+        ],
+        beforeRedirect: (options: Record<string, any>) => {
+          const hostname = String(options.hostname ?? '');
+          if (isIP(hostname) && this.isBlocked(hostname)) {
+            throw new IntegrationDeliveryError(
+              'HTTP redirect to a private or reserved address refused',
+              undefined,
+              false,
+            );
+          }
+        },
+        headers: this.buildHeaders(integration),
+        auth:
+          config.username && config.password
+            ? { username: config.username, password: config.password }
+            : undefined,
+        data: payload,
+        timeout: config.timeout ?? DEFAULT_TIMEOUT_MS,
+        httpsAgent: this.getHttpsAgent(integration),
+        validateStatus: () => true,
+      });
+      status = response.status;
+      statusText = response.statusText;
+    } catch (error) {
+      if (error instanceof IntegrationDeliveryError) throw error;
+      const axiosError = error as AxiosError;
+      if (axiosError.cause instanceof IntegrationDeliveryError) {
+        throw axiosError.cause;
+      }
+      throw new IntegrationDeliveryError(
+        `HTTP request failed: ${axiosError.code ?? axiosError.message}`,
+      );
+    }
+
+    if (status >= 400) {
+      // 408, 429 and 5xx are worth another attempt; other 4xx are not
+      throw new IntegrationDeliveryError(
+        `HTTP ${status} ${statusText}`.trim(),
+        status,
+        status >= 500 || status === 408 || status === 429,
+      );
+    }
+  }
+
+  private buildHeaders(integration: Integration): Record<string, string> {
+    const config = integration.configuration;
+    const token = config.token ?? integration.credentials?.accessToken;
+    const apiKey = config.apiKey ?? integration.credentials?.apiKey;
+
+    return {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(apiKey && { 'X-API-Key': apiKey }),
+      ...config.headers,
+    };
+  }
+
+  /** Client certificate for mutual TLS; undefined keeps axios' default agent */
+  private getHttpsAgent(integration: Integration): https.Agent | undefined {
+    const { tlsCert, tlsKey } = integration.configuration;
+    if (!tlsCert || !tlsKey) return undefined;
+
+    let agent = this.httpsAgents.get(integration.id);
+    if (!agent) {
+      agent = new https.Agent({ cert: tlsCert, key: tlsKey, keepAlive: true });
+      this.httpsAgents.set(integration.id, agent);
+    }
+    return agent;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MQTT
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async publishMqtt(
+    integration: Integration,
+    payload: unknown,
+    vars: Record<string, string>,
+  ): Promise<void> {
+    const config = integration.configuration;
+    if (!config.topic) {
+      throw new IntegrationDeliveryError(
+        'MQTT integration has no topic configured',
+        undefined,
+        false,
+      );
+    }
+
+    const client = await this.getMqttClient(integration);
+    if (!client.connected) {
+      throw new IntegrationDeliveryError(
+        `MQTT broker ${this.brokerUrl(integration)} is not connected`,
+      );
+    }
+
+    const topic = config.topic.replace(
+      /\{(\w+)\}/g,
+      (placeholder, name: string) => vars[name] ?? placeholder,
+    );
+    const message =
+      typeof payload === 'string' || Buffer.isBuffer(payload)
+        ? payload
+        : JSON.stringify(payload);
+
+    try {
+      await this.withTimeout(
+        client.publishAsync(topic, message, { qos: config.qos ?? 1 }),
+        config.timeout ?? DEFAULT_TIMEOUT_MS,
+        `MQTT publish to ${topic} timed out`,
+      );
+    } catch (error) {
+      throw new IntegrationDeliveryError(
+        `MQTT publish failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private getMqttClient(integration: Integration): Promise<mqtt.MqttClient> {
+    let client = this.mqttClients.get(integration.id);
+    if (!client) {
+      client = this.connectMqtt(integration, true).catch((error: Error) => {
+        // A failed connect is not cached — the next delivery tries again
+        this.mqttClients.delete(integration.id);
+        throw new IntegrationDeliveryError(
+          `MQTT connect failed: ${error.message}`,
+        );
+      });
+      this.mqttClients.set(integration.id, client);
+    }
+    return client;
+  }
+
+  private async connectMqtt(
+    integration: Integration,
+    keepAlive: boolean,
+  ): Promise<mqtt.MqttClient> {
+    const config = integration.configuration;
+    if (!config.broker && !config.url) {
+      throw new IntegrationDeliveryError(
+        'MQTT integration has no broker configured',
+        undefined,
+        false,
+      );
+    }
+
+    const brokerUrl = this.brokerUrl(integration);
+    const target = this.parseUrl(
+      brokerUrl,
+      ['mqtt:', 'mqtts:', 'ws:', 'wss:', 'tcp:', 'ssl:'],
+      'MQTT broker',
+    );
+    await this.resolveTarget(target.hostname, 'MQTT broker');
+
+    const client = await mqtt.connectAsync(
+      brokerUrl,
+      {
+        clientId: keepAlive
+          ? (config.clientId ?? `integration-${integration.id}`)
+          : `integration-test-${integration.id}-${Date.now()}`,
+        username: config.username,
+        password: config.password,
+        cert: config.tlsCert,
+        key: config.tlsKey,
+        clean: true,
+        connectTimeout: config.timeout ?? DEFAULT_TIMEOUT_MS,
+        reconnectPeriod: keepAlive ? 5000 : 0,
+      },
+      false,
+    );
+
+    client.on('error', (error) =>
+      this.logger.warn(
+        `Integration ${integration.name} MQTT error: ${error.message}`,
+      ),
+    );
+    return client;
+  }
+
+  private brokerUrl(integration: Integration): string {
+    const { broker, url, port, useTls } = integration.configuration;
+    const host = broker ?? url!;
+    if (/^(mqtts?|wss?|tcp|ssl):\/\//.test(host)) return host;
+
+    const scheme = useTls ? 'mqtts' : 'mqtt';
+    return `${scheme}://${host}:${port ?? (useTls ? 8883 : 1883)}`;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // SQL
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Insert converted rows. Column names come from the row keys; objects and
+   * arrays are stored as JSON.
+   */
+  private async insertRows(
+    integration: Integration,
+    payload: unknown,
+  ): Promise<void> {
+    const table = this.quoteTable(integration.configuration.table);
+    const rows = (Array.isArray(payload) ? payload : [payload]).filter(
+      (row): row is Record<string, unknown> =>
+        !!row && typeof row === 'object' && !Array.isArray(row),
+    );
+
+    if (rows.length === 0) {
+      throw new IntegrationDeliveryError(
+        'SQL payload must be a row object or an array of row objects',
+        undefined,
+        false,
+      );
+    }
+
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const quoted = columns.map((column) => this.quoteIdentifier(column));
+    const values: unknown[] = [];
+    const tuples = rows.map((row) => {
+      const params = columns.map((column) => {
+        values.push(this.toSqlValue(row[column]));
+        return `$${values.length}`;
+      });
+      return `(${params.join(', ')})`;
+    });
+
+    const pool = await this.getSqlPool(integration);
+    try {
+      await pool.query(
+        `INSERT INTO ${table} (${quoted.join(', ')}) VALUES ${tuples.join(', ')}`,
+        values,
+      );
+    } catch (error) {
+      throw new IntegrationDeliveryError(
+        `SQL insert failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async testSql(integration: Integration): Promise<void> {
+    const table = this.quoteTable(integration.configuration.table);
+    const client = new Client(await this.poolConfig(integration));
+
+    try {
+      await client.connect();
+      const { rows } = await client.query<{ relation: string | null }>(
+        'SELECT to_regclass($1) AS relation',
+        [table],
+      );
+      if (!rows[0]?.relation) {
+        throw new IntegrationDeliveryError(
+          `Table ${integration.configuration.table} does not exist`,
+          undefined,
+          false,
+        );
+      }
+    } finally {
+      await client.end().catch(() => undefined);
+    }
+  }
+
+  private async getSqlPool(integration: Integration): Promise<Pool> {
+    let pool = this.sqlPools.get(integration.id);
+    if (!pool) {
+      const config = await this.poolConfig(integration);
+      // Another delivery may have created it while the host resolved
+      pool = this.sqlPools.get(integration.id);
+      if (pool) return pool;
+
+      pool = new Pool({ ...config, max: SQL_POOL_SIZE });
+      pool.on('error', (error) =>
+        this.logger.warn(
+          `Integration ${integration.name} SQL pool error: ${error.message}`,
+        ),
+      );
+      this.sqlPools.set(integration.id, pool);
+    }
+    return pool;
+  }
+
+  private async poolConfig(integration: Integration): Promise<PoolConfig> {
+    const config = integration.configuration;
+    if (!config.url) {
+      throw new IntegrationDeliveryError(
+        'Database integration has no connection url configured',
+        undefined,
+        false,
+      );
+    }
+
+    // A host / hostaddr parameter would override the checked host (and can
+    // point at a local unix socket)
+    const target = this.parseUrl(
+      config.url,
+      ['postgres:', 'postgresql:'],
+      'Database',
+    );
+    if (
+      target.searchParams.has('host') ||
+      target.searchParams.has('hostaddr')
+    ) {
+      throw new IntegrationDeliveryError(
+        'Database url must not set host parameters',
+        undefined,
+        false,
+      );
+    }
+    await this.resolveTarget(target.hostname, 'Database');
+
+    const timeout = config.timeout ?? DEFAULT_TIMEOUT_MS;
+    return {
+      connectionString: config.url,
+      user: config.username,
+      password: config.password,
+      ssl: config.useTls
+        ? { cert: config.tlsCert, key: config.tlsKey }
+        : undefined,
+      connectionTimeoutMillis: timeout,
+      statement_timeout: timeout,
+    };
+  }
+
+  /** "table" or "schema.table" — identifiers are validated, then quoted */
+  private quoteTable(table?: string): string {
+    const parts = table?.split('.') ?? [];
+    if (parts.length === 0 || parts.length > 2) {
+      throw new IntegrationDeliveryError(
+        'Database integration needs a table ("table" or "schema.table")',
+        undefined,
+        false,
+      );
+    }
+    return parts.map((part) => this.quoteIdentifier(part)).join('.');
+  }
+
+  private quoteIdentifier(name: string): string {
+    if (!SQL_IDENTIFIER.test(name)) {
+      throw new IntegrationDeliveryError(
+        `Invalid SQL identifier: ${name}`,
+        undefined,
+        false,
+      );
+    }
+    return `"${name}"`;
+  }
+
+  private toSqlValue(value: unknown): unknown {
+    if (value === undefined) return null;
+    if (value instanceof Date) return value;
+    return value !== null && typeof value === 'object'
+      ? JSON.stringify(value)
+      : value;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private parseUrl(value: string, protocols: string[], label: string): URL {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new IntegrationDeliveryError(
+        `${label} url is not valid`,
+        undefined,
+        false,
+      );
+    }
+
+    if (!protocols.includes(url.protocol) || !url.hostname) {
+      throw new IntegrationDeliveryError(
+        `${label} url must be ${protocols.map((p) => `${p}//`).join(', ')} with a host`,
+        undefined,
+        false,
+      );
+    }
+    return url;
+  }
+
+  /** Every address a host resolves to, refusing private / reserved ones */
+  private async resolveTarget(
+    host: string,
+    label: string,
+  ): Promise<LookupAddress[]> {
+    const name = host.replace(/^\[|\]$/g, '');
+    const family = isIP(name);
+
+    let addresses: LookupAddress[];
+    if (family) {
+      addresses = [{ address: name, family }];
+    } else {
+      try {
+        addresses = await dns.lookup(name, { all: true, verbatim: true });
+      } catch (error) {
+        throw new IntegrationDeliveryError(
+          `${label} host ${name} could not be resolved: ${(error as NodeJS.ErrnoException).code ?? (error as Error).message}`,
+        );
+      }
+    }
+
+    if (addresses.some(({ address }) => this.isBlocked(address))) {
+      throw new IntegrationDeliveryError(
+        `${label} host ${name} is a private or reserved address`,
+        undefined,
+        false,
+      );
+    }
+    return addresses;
+  }
+
+  private isBlocked(address: string): boolean {
+    return (
+      isReservedIp(address) && !ipInAllowList(address, ALLOWED_PRIVATE_NETWORKS)
+    );
+  }
+
+  private requireTransport(integration: Integration): IntegrationTransport {
+    const transport = this.resolveTransport(integration);
+    if (!transport) {
+      throw new IntegrationDeliveryError(
+        `Integration type ${integration.type} (${integration.protocol}) has no supported transport`,
+        undefined,
+        false,
+      );
+    }
+    return transport;
+  }
+
+  private withTimeout<T>(
+    promise: Promise<T>,
+    ms: number,
+    message: string,
+  ): Promise<T> {
+    let timer: NodeJS.Timeout;
+    return Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), ms);
+      }),
+    ]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { KafkaService } from '@/lib/kafka/kafka.service';
+import {
+  IntegrationRuntimeService,
+  TelemetryExport,
+} from './integration-runtime.service';
+
+@Injectable()
+export class IntegrationsConsumer implements OnModuleInit {
+  private readonly logger = new Logger(IntegrationsConsumer.name);
+
+  constructor(
+    private readonly kafka: KafkaService,
+    private readonly runtime: IntegrationRuntimeService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    this.logger.log('Starting integration export consumer...');
+
+    try {
+      await this.kafka.createConsumer(
+        'integration-export-group',
+        ['telemetry.device.validated'],
+        this.handleMessage.bind(this),
+      );
+      this.logger.log('Integration export consumer started');
+    } catch (error) {
+      this.logger.error(
+        `Failed to start integration export consumer: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async handleMessage({ message }: any): Promise<void> {
+    try {
+      const payload = JSON.parse(message.value.toString()) as TelemetryExport;
+
+      if (!payload.deviceId || !payload.tenantId || !payload.data) {
+        this.logger.warn('Incomplete telemetry message — skipping export');
+        return;
+      }
+
+      // Queued per integration — delivery never blocks the partition
+      await this.runtime.exportTelemetry(payload);
+    } catch (error) {
+      this.logger.error(
+        `Error exporting telemetry: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -41,7 +41,11 @@ export class IntegrationsController {
     @CurrentUser() user: User,
     @Body() createIntegrationDto: CreateIntegrationDto,
   ) {
-    return this.integrationsService.create(user.id, createIntegrationDto);
+    return this.integrationsService.create(
+      user.id,
+      user.tenantId,
+      createIntegrationDto,
+    );
   }
 
   @Get()
@@ -2,13 +2,27 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { IntegrationsService } from './integrations.service';
 import { IntegrationsController } from './integrations.controller';
+import { IntegrationRuntimeService } from './integration-runtime.service';
+import { IntegrationTransportsService } from './integration-transports.service';
+import { IntegrationsConsumer } from './integrations.consumer';
 import { Integration } from './entities/integration.entity';
 import { User } from '../users/entities/user.entity';
+import { KafkaModule } from '@/lib/kafka/kafka.module';
+import { ScriptsModule } from '../scripts/scripts.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Integration, User])],
+  imports: [
+    TypeOrmModule.forFeature([Integration, User]),
+    KafkaModule,
+    ScriptsModule,
+  ],
   controllers: [IntegrationsController],
-  providers: [IntegrationsService],
-  exports: [IntegrationsService],
+  providers: [
+    IntegrationsService,
+    IntegrationTransportsService,
+    IntegrationRuntimeService,
+    IntegrationsConsumer,
+  ],
+  exports: [IntegrationsService, IntegrationRuntimeService],
 })
 export class IntegrationsModule {}
@@ -2,11 +2,18 @@ import {
   Injectable,
   NotFoundException,
   ConflictException,
+  BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Integration } from './entities/integration.entity';
 import { IntegrationStatus } from '@common/enums/index.enum'
+import { IntegrationTransportsService } from './integration-transports.service';
+import {
+  INTEGRATION_CHANGED_EVENT,
+  IntegrationChangedEvent,
+} from './integration-runtime.service';
 import { CreateIntegrationDto } from './dto/create-integration.dto';
 import { UpdateIntegrationDto } from './dto/update-integration.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
@@ -16,12 +23,19 @@ export class IntegrationsService {
   constructor(
     @InjectRepository(Integration)
     private readonly integrationRepository: Repository<Integration>,
+    private readonly transports: IntegrationTransportsService,
+    private readonly eventEmitter: EventEmitter2,
   ) { }
 
   async create(
     userId: string,
+    tenantId: string | undefined,
     createIntegrationDto: CreateIntegrationDto,
   ): Promise<Integration> {
+    if (!tenantId) {
+      throw new BadRequestException('Integrations must belong to a tenant');
+    }
+
     // Check if integration with same name exists
     const existing = await this.integrationRepository.findOne({
       where: { name: createIntegrationDto.name, userId },
@@ -33,11 +47,14 @@ export class IntegrationsService {
 
     const integration = this.integrationRepository.create({
       ...createIntegrationDto,
+      tenantId,
       userId,
       createdBy: userId,
     });
 
-    return await this.integrationRepository.save(integration);
+    const saved = await this.integrationRepository.save(integration);
+    this.emitChanged(saved);
+    return saved;
   }
 
   async findAll(userId: string, paginationDto: PaginationDto) {
@@ -99,12 +116,15 @@ export class IntegrationsService {
     Object.assign(integration, updateIntegrationDto);
     integration.updatedBy = userId;
 
-    return await this.integrationRepository.save(integration);
+    const saved = await this.integrationRepository.save(integration);
+    this.emitChanged(saved);
+    return saved;
   }
 
   async remove(id: string, userId: string): Promise<void> {
     const integration = await this.findOne(id, userId);
     await this.integrationRepository.softRemove(integration);
+    this.emitChanged(integration);
   }
 
   async toggleStatus(id: string, userId: string): Promise<Integration> {
@@ -114,22 +134,49 @@ export class IntegrationsService {
     integration.status = integration.enabled
       ? IntegrationStatus.ACTIVE
       : IntegrationStatus.INACTIVE;
+    // Re-enabling gives an auto-disabled integration a fresh failure budget
+    if (integration.enabled) integration.consecutiveFailures = 0;
     integration.updatedBy = userId;
 
-    return await this.integrationRepository.save(integration);
+    const saved = await this.integrationRepository.save(integration);
+    this.emitChanged(saved);
+    return saved;
   }
 
+  /**
+   * Reach the configured target with fresh connections. Failures are
+   * reported in the result, not thrown.
+   */
   async testConnection(
     id: string,
     userId: string,
-  ): Promise<{ success: boolean; message: string }> {
-    const integration = await this.findOne(id, userId);
+  ): Promise<{ success: boolean; message: string; latencyMs: number }> {
+    const integration = await this.integrationRepository
+      .createQueryBuilder('integration')
+      .addSelect('integration.credentials')
+      .where('integration.id = :id', { id })
+      .andWhere('integration.userId = :userId', { userId })
+      .getOne();
 
-    // TODO: Implement actual connection testing based on integration type
-    return {
-      success: true,
-      message: `Successfully connected to ${integration.name}`,
-    };
+    if (!integration) {
+      throw new NotFoundException('Integration not found');
+    }
+
+    const startedAt = Date.now();
+    try {
+      await this.transports.test(integration);
+      return {
+        success: true,
+        message: `Successfully connected to ${integration.name}`,
+        latencyMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Connection to ${integration.name} failed: ${(error as Error).message}`,
+        latencyMs: Date.now() - startedAt,
+      };
+    }
   }
 
   async getStatistics(userId: string) {
@@ -187,4 +234,12 @@ export class IntegrationsService {
       { lastActivity: new Date() },
     );
   }
+
+  private emitChanged(integration: Integration): void {
+    const event: IntegrationChangedEvent = {
+      integrationId: integration.id,
+      tenantId: integration.tenantId,
+    };
+    this.eventEmitter.emit(INTEGRATION_CHANGED_EVENT, event);
+  }
 }
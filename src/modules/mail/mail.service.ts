@@ -5,6 +5,20 @@ import { Transporter } from 'nodemailer';
 import { EmailOptions } from './interfaces/mail.interface';
 import { EmailTemplatesService } from '../email-templates/email-templates.service';
 import { EmailTemplateType } from '@common/enums/index.enum';
+import type { RecipientLocale } from '@common/interfaces/index.interface';
+import { baseLanguage, DEFAULT_LANGUAGE } from '@common/utils/localization';
+import {
+  BUILT_IN_MESSAGES,
+  BuiltInMessageKey,
+} from '../email-templates/localization/messages';
+import { renderEmailLayout } from '../email-templates/localization/email-layout';
+
+type MailFallbackKind =
+  | 'invitation'
+  | 'verification'
+  | 'welcome'
+  | 'password_reset'
+  | 'two_factor';
 
 @Injectable()
 export class MailService {
@@ -125,6 +139,7 @@ export class MailService {
         subject: options.subject,
         html: options.html,
         text: options.text,
+        attachments: options.attachments,
       };
 
       const info = await this.transporter!.sendMail(mailOptions);
@@ -149,6 +164,7 @@ export class MailService {
     inviterName: string,
     token: string,
     role: string,
+    recipient?: Partial<RecipientLocale>,
   ): Promise<boolean> {
     const frontendUrl = this.configService.get<string>(
       'FRONTEND_URL',
@@ -162,12 +178,18 @@ export class MailService {
     // ✅ Build the invitation URL
     const invitationLink = `${frontendUrl}/auth/accept-invitation?token=${token}`;
 
+    const locale = await this.recipientLocale(email, recipient);
+
     // ✅ Map role to display name
-    const roleDisplay = {
-      tenant_admin: 'Tenant Administrator',
-      customer: 'Customer',
-      customer_user: 'Customer User',
-    }[role] || role;
+    const roleKey = `mail.role.${role}`;
+    const roleDisplay =
+      roleKey in BUILT_IN_MESSAGES
+        ? this.emailTemplatesService.renderBuiltIn(
+            roleKey as BuiltInMessageKey,
+            {},
+            locale,
+          )
+        : role;
 
     try {
       // ✅ Template expects: userName, inviterName, role, invitationLink, appName, expirationTime, year
@@ -183,6 +205,7 @@ export class MailService {
             expirationTime: '7', // ✅ Template expects: expirationTime (in days)
             year: new Date().getFullYear().toString(),
           },
+          locale,
         );
 
       return this.sendEmail({
@@ -196,6 +219,17 @@ export class MailService {
         `Failed to get invitation template: ${error.message}. Using fallback.`,
       );
 
+      if (this.needsTranslation(locale)) {
+        return this.sendLocalizedFallback(
+          email,
+          'invitation',
+          { name, inviterName, role: roleDisplay, appName },
+          locale,
+          invitationLink,
+          true,
+        );
+      }
+
       // Fallback to inline template if database template not found
       const html = this.getInvitationEmailTemplate(
         name,
@@ -222,6 +256,7 @@ export class MailService {
     email: string,
     name: string,
     token: string,
+    recipient?: Partial<RecipientLocale>,
   ): Promise<boolean> {
     const frontendUrl = this.configService.get<string>(
       'FRONTEND_URL',
@@ -234,6 +269,7 @@ export class MailService {
 
     // ✅ Build the verification URL
     const verificationLink = `${frontendUrl}/verify-email?token=${token}`;
+    const locale = await this.recipientLocale(email, recipient);
 
     try {
       // ✅ Get template from database with CORRECT variable names
@@ -247,6 +283,7 @@ export class MailService {
             expirationTime: '24', // ✅ Template expects: expirationTime
             year: new Date().getFullYear().toString(), // ✅ Auto-added but explicit is better
           },
+          locale,
         );
 
       return this.sendEmail({
@@ -260,6 +297,16 @@ export class MailService {
         `Failed to get verification template: ${error.message}. Using fallback.`,
       );
 
+      if (this.needsTranslation(locale)) {
+        return this.sendLocalizedFallback(
+          email,
+          'verification',
+          { name, appName },
+          locale,
+          verificationLink,
+        );
+      }
+
       // Fallback to inline template if database template not found
       const html = this.getVerificationEmailTemplate(name, verificationLink);
       const text = `Hi ${name},\n\nPlease verify your email by visiting: ${verificationLink}\n\nThis link will expire in 24 hours.`;
@@ -277,7 +324,11 @@ export class MailService {
    * Send welcome email using database template
    * ✅ FIXED: Uses correct variable names matching the template
    */
-  async sendWelcomeEmail(email: string, name: string): Promise<boolean> {
+  async sendWelcomeEmail(
+    email: string,
+    name: string,
+    recipient?: Partial<RecipientLocale>,
+  ): Promise<boolean> {
     const frontendUrl = this.configService.get<string>(
       'FRONTEND_URL',
       'http://localhost:3000',
@@ -287,6 +338,8 @@ export class MailService {
       'Smart Life IoT Platform',
     );
 
+    const locale = await this.recipientLocale(email, recipient);
+
     try {
       // ✅ Template expects: userName, appName, dashboardLink, docsLink, year
       const { subject, html, text } =
@@ -299,6 +352,7 @@ export class MailService {
             docsLink: `${frontendUrl}/docs`, // ✅ Template expects: docsLink
             year: new Date().getFullYear().toString(),
           },
+          locale,
         );
 
       return this.sendEmail({
@@ -312,6 +366,16 @@ export class MailService {
         `Failed to get welcome template: ${error.message}. Using fallback.`,
       );
 
+      if (this.needsTranslation(locale)) {
+        return this.sendLocalizedFallback(
+          email,
+          'welcome',
+          { name, appName },
+          locale,
+          `${frontendUrl}/dashboard`,
+        );
+      }
+
       // Fallback
       const html = this.getWelcomeEmailTemplate(name);
       const text = `Welcome to ${appName}, ${name}!\n\nYour email has been verified successfully. You can now access all features of the platform.`;
@@ -333,6 +397,7 @@ export class MailService {
     email: string,
     name: string,
     token: string,
+    recipient?: Partial<RecipientLocale>,
   ): Promise<boolean> {
     const frontendUrl = this.configService.get<string>(
       'FRONTEND_URL',
@@ -345,6 +410,7 @@ export class MailService {
 
     // ✅ Build the reset URL
     const resetLink = `${frontendUrl}/reset-password?token=${token}`;
+    const locale = await this.recipientLocale(email, recipient);
 
     try {
       // ✅ Template expects: userName, appName, resetLink, expirationTime, year
@@ -358,6 +424,7 @@ export class MailService {
             expirationTime: '1', // ✅ Template expects: expirationTime (in hours)
             year: new Date().getFullYear().toString(),
           },
+          locale,
         );
 
       return this.sendEmail({
@@ -371,6 +438,17 @@ export class MailService {
         `Failed to get password reset template: ${error.message}. Using fallback.`,
       );
 
+      if (this.needsTranslation(locale)) {
+        return this.sendLocalizedFallback(
+          email,
+          'password_reset',
+          { name, appName },
+          locale,
+          resetLink,
+          true,
+        );
+      }
+
       // Fallback
       const html = this.getPasswordResetEmailTemplate(name, resetLink);
       const text = `Hi ${name},\n\nYou requested to reset your password. Please visit: ${resetLink}\n\nThis link will expire in 1 hour.\n\nIf you didn't request this, please ignore this email.`;
@@ -392,11 +470,13 @@ export class MailService {
     email: string,
     name: string,
     code: string,
+    recipient?: Partial<RecipientLocale>,
   ): Promise<boolean> {
     const appName = this.configService.get<string>(
       'APP_NAME',
       'Smart Life IoT Platform',
     );
+    const locale = await this.recipientLocale(email, recipient);
 
     try {
       // ✅ Template expects: userName, code, appName, year
@@ -409,6 +489,7 @@ export class MailService {
             appName,
             year: new Date().getFullYear().toString(),
           },
+          locale,
         );
 
       return this.sendEmail({
@@ -422,6 +503,17 @@ export class MailService {
         `Failed to get 2FA code template: ${error.message}. Using fallback.`,
       );
 
+      if (this.needsTranslation(locale)) {
+        return this.sendLocalizedFallback(
+          email,
+          'two_factor',
+          { name, code, appName },
+          locale,
+          undefined,
+          true,
+        );
+      }
+
       // Fallback to inline template if database template not found
       const html = this.getTwoFactorCodeEmailTemplate(name, code);
       const text = `Hi ${name},\n\nYour two-factor authentication code is: ${code}\n\nThis code will expire in 10 minutes.\n\nIf you didn't request this code, please ignore this email or contact support.`;
@@ -435,6 +527,79 @@ export class MailService {
     }
   }
 
+  /**
+   * The recipient's language and formats, looked up by address unless the
+   * caller already knows them
+   */
+  private async recipientLocale(
+    email: string,
+    recipient?: Partial<RecipientLocale>,
+  ): Promise<Partial<RecipientLocale>> {
+    if (recipient?.language) return recipient;
+
+    try {
+      return await this.emailTemplatesService.resolveRecipientLocale({ email });
+    } catch (error) {
+      this.logger.warn(
+        `Could not resolve locale for ${email}: ${error.message}`,
+      );
+      return {};
+    }
+  }
+
+  // The inline fallbacks below are English only
+  private needsTranslation(locale: Partial<RecipientLocale>): boolean {
+    return (
+      !!locale.language && baseLanguage(locale.language) !== DEFAULT_LANGUAGE
+    );
+  }
+
+  /**
+   * Built-in fallback in the recipient's language (RTL for Arabic), used
+   * when the database template is missing
+   */
+  private sendLocalizedFallback(
+    to: string,
+    kind: MailFallbackKind,
+    variables: Record<string, any>,
+    locale: Partial<RecipientLocale>,
+    link?: string,
+    ignoreNote = false,
+  ): Promise<boolean> {
+    const t = (key: string) =>
+      this.emailTemplatesService.renderBuiltIn(
+        key as BuiltInMessageKey,
+        variables,
+        locale,
+      );
+
+    const subject = t(`mail.${kind}.subject`);
+    const paragraphs = [
+      t('mail.greeting'),
+      t(`mail.${kind}.body`),
+      ...(ignoreNote ? [t('mail.ignore')] : []),
+    ];
+    const button = link
+      ? { label: t(`mail.${kind}.button`), url: link }
+      : undefined;
+
+    return this.sendEmail({
+      to,
+      subject,
+      html: renderEmailLayout({
+        locale: locale.language ?? DEFAULT_LANGUAGE,
+        title: subject,
+        paragraphs,
+        button,
+        footer: t('mail.footer'),
+      }),
+      text: [
+        ...paragraphs,
+        ...(button ? [`${button.label}: ${button.url}`] : []),
+      ].join('\n\n'),
+    });
+  }
+
   /**
    * Invitation email template (fallback)
    */
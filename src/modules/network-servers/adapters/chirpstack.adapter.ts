@@ -0,0 +1,191 @@
+// src/modules/network-servers/adapters/chirpstack.adapter.ts
+import { Injectable } from '@nestjs/common';
+import { NetworkServerType } from '@common/enums/index.enum';
+import type { Device } from '@modules/devices/entities/device.entity';
+import type { NetworkServer } from '../entities/network-server.entity';
+import type {
+  LnsAdapter,
+  LnsApiRequest,
+  LnsEvent,
+  LnsMqttMessage,
+  LorawanDownlink,
+  LorawanGatewayRx,
+  LorawanUplink,
+} from './lns-adapter.interface';
+import {
+  asObject,
+  asString,
+  bestGateway,
+  deviceEui,
+  isPlainObject,
+  toNumber,
+} from './lns-adapter.utils';
+
+/**
+ * ChirpStack v4 MQTT integration (JSON encoding) and REST API.
+ *
+ * Topics: application/{applicationId}/device/{devEui}/event/{up|join|ack|txack|log}
+ * v3 field names (devEUI, gatewayID, loRaSNR) and the legacy
+ * application/{id}/device/{devEui}/rx topic are accepted as well.
+ */
+@Injectable()
+export class ChirpStackAdapter implements LnsAdapter {
+  readonly type = NetworkServerType.CHIRPSTACK;
+
+  subscriptions(server: NetworkServer): string[] {
+    return [`application/${server.applicationId}/device/+/event/+`];
+  }
+
+  parseEvent(topic: string, payload: Record<string, any>): LnsEvent | null {
+    const parts = topic.split('/');
+    if (parts[0] !== 'application' || parts[2] !== 'device') return null;
+
+    const event = parts[4] === 'event' ? parts[5] : parts[4];
+    const devEUI = (
+      asString(asObject(payload.deviceInfo).devEui) ??
+      asString(payload.devEUI) ??
+      parts[3] ??
+      ''
+    ).toLowerCase();
+    if (!devEUI) return null;
+
+    switch (event) {
+      case 'up':
+      case 'rx':
+        return {
+          kind: 'uplink',
+          devEUI,
+          uplink: this.parseUplink(devEUI, payload),
+        };
+
+      case 'join':
+        return { kind: 'join', devEUI, devAddr: asString(payload.devAddr) };
+
+      case 'txack':
+        return {
+          kind: 'txack',
+          devEUI,
+          queueItemId: asString(payload.queueItemId),
+        };
+
+      case 'ack':
+        // v4 omits false booleans from JSON
+        return {
+          kind: 'ack',
+          devEUI,
+          queueItemId: asString(payload.queueItemId),
+          acknowledged: payload.acknowledged === true,
+        };
+
+      case 'log': {
+        const code = String(payload.code ?? '');
+        const context = asObject(payload.context);
+        if (payload.level !== 'ERROR' || !code.startsWith('DOWNLINK')) {
+          return null;
+        }
+        return {
+          kind: 'error',
+          devEUI,
+          queueItemId:
+            asString(context.queue_item_id) ??
+            asString(context.deviceQueueItemId),
+          error: `${code}: ${payload.description ?? 'downlink failed'}`,
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  downlinkMessage(
+    server: NetworkServer,
+    device: Device,
+    downlink: LorawanDownlink,
+  ): LnsMqttMessage {
+    const devEui = deviceEui(device);
+
+    return {
+      topic: `application/${server.applicationId}/device/${devEui}/command/down`,
+      payload: {
+        id: downlink.id,
+        devEui,
+        confirmed: downlink.confirmed,
+        fPort: downlink.fPort,
+        data: Buffer.from(downlink.data, 'hex').toString('base64'),
+      },
+    };
+  }
+
+  downlinkRequest(
+    server: NetworkServer,
+    device: Device,
+    downlink: LorawanDownlink,
+  ): LnsApiRequest {
+    return {
+      method: 'POST',
+      path: `/api/devices/${deviceEui(device)}/queue`,
+      data: {
+        queueItem: {
+          id: downlink.id,
+          confirmed: downlink.confirmed,
+          fPort: downlink.fPort,
+          data: Buffer.from(downlink.data, 'hex').toString('base64'),
+        },
+      },
+    };
+  }
+
+  testRequest(server: NetworkServer): LnsApiRequest {
+    return { method: 'GET', path: `/api/applications/${server.applicationId}` };
+  }
+
+  queueItemIdFromResponse(response: unknown): string | undefined {
+    return isPlainObject(response) && typeof response.id === 'string'
+      ? response.id
+      : undefined;
+  }
+
+  // ── Uplink ─────────────────────────────────────────────────────────────────
+
+  private parseUplink(
+    devEUI: string,
+    payload: Record<string, any>,
+  ): LorawanUplink {
+    const rxInfo: unknown[] = Array.isArray(payload.rxInfo)
+      ? payload.rxInfo
+      : [];
+    const gateways: LorawanGatewayRx[] = rxInfo.map((value) => {
+      const rx = asObject(value);
+      return {
+        gatewayId: String(rx.gatewayId ?? rx.gatewayID ?? rx.mac ?? 'unknown'),
+        rssi: toNumber(rx.rssi),
+        snr: toNumber(rx.snr ?? rx.loRaSNR),
+      };
+    });
+    const best = bestGateway(gateways);
+
+    const txInfo = asObject(payload.txInfo);
+    const lora = asObject(
+      asObject(txInfo.modulation).lora ?? txInfo.loRaModulationInfo,
+    );
+
+    return {
+      devEUI,
+      devAddr: asString(payload.devAddr),
+      fPort: toNumber(payload.fPort),
+      fCnt: toNumber(payload.fCnt),
+      confirmed: payload.confirmed === true,
+      data: asString(payload.data),
+      decoded: isPlainObject(payload.object) ? payload.object : undefined,
+      time: asString(payload.time),
+      frequency: toNumber(txInfo.frequency),
+      dataRate: toNumber(payload.dr ?? txInfo.dr),
+      spreadingFactor: toNumber(lora.spreadingFactor),
+      bandwidth: toNumber(lora.bandwidth),
+      rssi: best?.rssi,
+      snr: best?.snr,
+      gateways,
+    };
+  }
+}
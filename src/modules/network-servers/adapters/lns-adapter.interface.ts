@@ -0,0 +1,98 @@
+// src/modules/network-servers/adapters/lns-adapter.interface.ts
+import { NetworkServerType } from '@common/enums/index.enum';
+import type { Device } from '@modules/devices/entities/device.entity';
+import type { NetworkServer } from '../entities/network-server.entity';
+
+/**
+ * One gateway that received an uplink
+ */
+export interface LorawanGatewayRx {
+  gatewayId: string;
+  rssi?: number;
+  snr?: number;
+}
+
+/**
+ * An uplink normalised across network servers. rssi/snr are the values of
+ * the best gateway.
+ */
+export interface LorawanUplink {
+  devEUI: string;
+  devAddr?: string;
+  // Network server's own device ID (TTS end device ID)
+  lnsDeviceId?: string;
+  fPort?: number;
+  fCnt?: number;
+  confirmed?: boolean;
+  data?: string; // base64 FRMPayload
+  decoded?: Record<string, any>; // Output of the network server's payload formatter
+  time?: string;
+  frequency?: number;
+  dataRate?: number;
+  spreadingFactor?: number;
+  bandwidth?: number;
+  rssi?: number;
+  snr?: number;
+  gateways: LorawanGatewayRx[];
+}
+
+export type LnsEvent =
+  | { kind: 'uplink'; devEUI: string; uplink: LorawanUplink }
+  | { kind: 'join'; devEUI: string; devAddr?: string }
+  | {
+      kind: 'txack' | 'ack';
+      devEUI: string;
+      queueItemId?: string;
+      acknowledged?: boolean;
+    }
+  | { kind: 'error'; devEUI: string; queueItemId?: string; error: string };
+
+export interface LorawanDownlink {
+  id: string; // DeviceCommand id
+  fPort: number;
+  confirmed: boolean;
+  data: string; // hex
+}
+
+export interface LnsMqttMessage {
+  topic: string;
+  payload: Record<string, any>;
+}
+
+export interface LnsApiRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * Translates between one network server's MQTT/API formats and the
+ * platform's LorawanUplink / LnsEvent / LorawanDownlink.
+ */
+export interface LnsAdapter {
+  readonly type: NetworkServerType;
+
+  /** Topic filters covering uplinks and device events */
+  subscriptions(server: NetworkServer): string[];
+
+  /** null for topics and events the platform does not use */
+  parseEvent(topic: string, payload: Record<string, any>): LnsEvent | null;
+
+  downlinkMessage(
+    server: NetworkServer,
+    device: Device,
+    downlink: LorawanDownlink,
+  ): LnsMqttMessage;
+
+  downlinkRequest(
+    server: NetworkServer,
+    device: Device,
+    downlink: LorawanDownlink,
+  ): LnsApiRequest;
+
+  /** Read-only request that proves the API key can reach the application */
+  testRequest(server: NetworkServer): LnsApiRequest;
+
+  /** Queue item id from the API response, when the server assigns one */
+  queueItemIdFromResponse(response: unknown): string | undefined;
+}
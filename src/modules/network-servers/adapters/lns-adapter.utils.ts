@@ -0,0 +1,47 @@
+// src/modules/network-servers/adapters/lns-adapter.utils.ts
+import type { Device } from '@modules/devices/entities/device.entity';
+import type { LorawanGatewayRx } from './lns-adapter.interface';
+
+/** Network servers send numbers as strings too (TTS frequencies) */
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number')
+    return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/** Strongest signal wins: highest SNR, then highest RSSI */
+export function bestGateway(
+  gateways: LorawanGatewayRx[],
+): LorawanGatewayRx | undefined {
+  return [...gateways].sort(
+    (a, b) =>
+      (b.snr ?? -Infinity) - (a.snr ?? -Infinity) ||
+      (b.rssi ?? -Infinity) - (a.rssi ?? -Infinity),
+  )[0];
+}
+
+/** Lowercase hex devEUI, as used in network server topics and API paths */
+export function deviceEui(device: Device): string {
+  const devEUI = device.metadata?.devEUI as string | undefined;
+  if (!devEUI) {
+    throw new Error(`devEUI required for LoRaWAN device: ${device.deviceKey}`);
+  }
+  return devEUI.toLowerCase();
+}
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Nested payload object, or an empty one when the field is missing */
+export function asObject(value: unknown): Record<string, any> {
+  return isPlainObject(value) ? value : {};
+}
+
+export function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
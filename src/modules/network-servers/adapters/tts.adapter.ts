@@ -0,0 +1,210 @@
+// src/modules/network-servers/adapters/tts.adapter.ts
+import { Injectable } from '@nestjs/common';
+import { NetworkServerType } from '@common/enums/index.enum';
+import type { Device } from '@modules/devices/entities/device.entity';
+import type { NetworkServer } from '../entities/network-server.entity';
+import type {
+  LnsAdapter,
+  LnsApiRequest,
+  LnsEvent,
+  LnsMqttMessage,
+  LorawanDownlink,
+  LorawanGatewayRx,
+  LorawanUplink,
+} from './lns-adapter.interface';
+import {
+  asObject,
+  asString,
+  bestGateway,
+  deviceEui,
+  isPlainObject,
+  toNumber,
+} from './lns-adapter.utils';
+
+// TTS has no client-chosen queue item id — the command id travels as a
+// correlation id and comes back on down/sent, down/ack, down/nack, down/failed
+const CORRELATION_PREFIX = 'smartlife:command:';
+
+/**
+ * The Things Stack v3 MQTT server and Application Server HTTP API.
+ *
+ * Topics: v3/{application}@{tenant}/devices/{deviceId}/{up|join|down/...}
+ */
+@Injectable()
+export class TtsAdapter implements LnsAdapter {
+  readonly type = NetworkServerType.TTS;
+
+  subscriptions(server: NetworkServer): string[] {
+    return [`v3/${server.getTtsApplication()}/devices/#`];
+  }
+
+  parseEvent(topic: string, payload: Record<string, any>): LnsEvent | null {
+    const parts = topic.split('/');
+    if (parts[0] !== 'v3' || parts[2] !== 'devices') return null;
+
+    const ids = asObject(payload.end_device_ids);
+    const devEUI = String(ids.dev_eui ?? '').toLowerCase();
+    if (!devEUI) return null; // ABP devices without a DevEUI cannot be matched
+
+    switch (parts.slice(4).join('/')) {
+      case 'up':
+        return {
+          kind: 'uplink',
+          devEUI,
+          uplink: this.parseUplink(devEUI, ids, payload),
+        };
+
+      case 'join':
+        return { kind: 'join', devEUI, devAddr: asString(ids.dev_addr) };
+
+      case 'down/sent':
+        return {
+          kind: 'txack',
+          devEUI,
+          queueItemId: this.commandId(payload.downlink_sent),
+        };
+
+      case 'down/ack':
+      case 'down/nack':
+        return {
+          kind: 'ack',
+          devEUI,
+          queueItemId: this.commandId(
+            payload.downlink_ack ?? payload.downlink_nack,
+          ),
+          acknowledged: parts[5] === 'ack',
+        };
+
+      case 'down/failed': {
+        const failed = asObject(payload.downlink_failed);
+        const error = asObject(failed.error);
+        return {
+          kind: 'error',
+          devEUI,
+          queueItemId: this.commandId(failed.downlink),
+          error: String(
+            error.message_format ?? error.name ?? 'downlink failed',
+          ),
+        };
+      }
+
+      default:
+        return null; // down/queued, service/data, location/solved …
+    }
+  }
+
+  downlinkMessage(
+    server: NetworkServer,
+    device: Device,
+    downlink: LorawanDownlink,
+  ): LnsMqttMessage {
+    return {
+      topic: `v3/${server.getTtsApplication()}/devices/${this.endDeviceId(device)}/down/push`,
+      payload: this.pushBody(downlink),
+    };
+  }
+
+  downlinkRequest(
+    server: NetworkServer,
+    device: Device,
+    downlink: LorawanDownlink,
+  ): LnsApiRequest {
+    return {
+      method: 'POST',
+      path: `/api/v3/as/applications/${server.applicationId}/devices/${this.endDeviceId(device)}/down/push`,
+      data: this.pushBody(downlink),
+    };
+  }
+
+  testRequest(server: NetworkServer): LnsApiRequest {
+    return {
+      method: 'GET',
+      path: `/api/v3/applications/${server.applicationId}`,
+    };
+  }
+
+  queueItemIdFromResponse(): string | undefined {
+    return undefined;
+  }
+
+  // ── Helpers ────────────────────────────────────────────────────────────────
+
+  /**
+   * TTS addresses devices by end device ID. Learned from uplinks into
+   * device.metadata.lnsDeviceId; the console default "eui-<deveui>" otherwise.
+   */
+  private endDeviceId(device: Device): string {
+    const lnsDeviceId = device.metadata?.lnsDeviceId as string | undefined;
+    return lnsDeviceId ?? `eui-${deviceEui(device)}`;
+  }
+
+  private pushBody(downlink: LorawanDownlink): Record<string, any> {
+    return {
+      downlinks: [
+        {
+          f_port: downlink.fPort,
+          frm_payload: Buffer.from(downlink.data, 'hex').toString('base64'),
+          confirmed: downlink.confirmed,
+          priority: 'NORMAL',
+          correlation_ids: [`${CORRELATION_PREFIX}${downlink.id}`],
+        },
+      ],
+    };
+  }
+
+  private commandId(message: unknown): string | undefined {
+    if (!isPlainObject(message) || !Array.isArray(message.correlation_ids)) {
+      return undefined;
+    }
+    const correlationId = (message.correlation_ids as unknown[]).find(
+      (id): id is string =>
+        typeof id === 'string' && id.startsWith(CORRELATION_PREFIX),
+    );
+    return correlationId?.slice(CORRELATION_PREFIX.length);
+  }
+
+  private parseUplink(
+    devEUI: string,
+    ids: Record<string, any>,
+    payload: Record<string, any>,
+  ): LorawanUplink {
+    const up = asObject(payload.uplink_message);
+    const rxMetadata: unknown[] = Array.isArray(up.rx_metadata)
+      ? up.rx_metadata
+      : [];
+    const gateways: LorawanGatewayRx[] = rxMetadata.map((value) => {
+      const rx = asObject(value);
+      const gatewayIds = asObject(rx.gateway_ids);
+      return {
+        gatewayId: String(gatewayIds.gateway_id ?? gatewayIds.eui ?? 'unknown'),
+        rssi: toNumber(rx.rssi ?? rx.channel_rssi),
+        snr: toNumber(rx.snr),
+      };
+    });
+    const best = bestGateway(gateways);
+
+    const settings = asObject(up.settings);
+    const lora = asObject(asObject(settings.data_rate).lora);
+
+    return {
+      devEUI,
+      devAddr: asString(ids.dev_addr),
+      lnsDeviceId: asString(ids.device_id),
+      fPort: toNumber(up.f_port),
+      fCnt: toNumber(up.f_cnt),
+      confirmed: up.confirmed === true,
+      data: asString(up.frm_payload),
+      decoded: isPlainObject(up.decoded_payload)
+        ? up.decoded_payload
+        : undefined,
+      time: asString(up.received_at) ?? asString(payload.received_at),
+      frequency: toNumber(settings.frequency),
+      dataRate: toNumber(settings.data_rate_index),
+      spreadingFactor: toNumber(lora.spreading_factor),
+      bandwidth: toNumber(lora.bandwidth),
+      rssi: best?.rssi,
+      snr: best?.snr,
+      gateways,
+    };
+  }
+}
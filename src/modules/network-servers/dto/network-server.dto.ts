@@ -0,0 +1,98 @@
+// src/modules/network-servers/dto/network-server.dto.ts
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsUrl,
+  ValidateNested,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { DownlinkMode, NetworkServerType } from '@common/enums/index.enum';
+
+export class NetworkServerCredentialsDto {
+  @ApiPropertyOptional({
+    description: 'ChirpStack API token / TTS API key (Bearer)',
+  })
+  @IsOptional()
+  @IsString()
+  apiKey?: string;
+
+  @ApiPropertyOptional({
+    description: 'MQTT integration password (TTS: an API key)',
+  })
+  @IsOptional()
+  @IsString()
+  mqttPassword?: string;
+}
+
+export class CreateNetworkServerDto {
+  @ApiProperty({ example: 'ChirpStack EU868' })
+  @IsString()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ enum: NetworkServerType })
+  @IsEnum(NetworkServerType)
+  type: NetworkServerType;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    default: false,
+    description: 'Used by LoRaWAN devices without a networkServerId',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional({ example: 'https://eu1.cloud.thethings.network' })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  apiUrl?: string;
+
+  @ApiProperty({
+    example: 'b1c2d3e4-…',
+    description: 'ChirpStack application UUID or TTS application ID',
+  })
+  @IsString()
+  applicationId: string;
+
+  @ApiPropertyOptional({
+    example: 'ttn',
+    description: 'TTS tenant ID (defaults to "ttn")',
+  })
+  @IsOptional()
+  @IsString()
+  lnsTenantId?: string;
+
+  @ApiPropertyOptional({ example: 'mqtts://eu1.cloud.thethings.network:8883' })
+  @IsOptional()
+  @IsUrl({ protocols: ['mqtt', 'mqtts', 'ws', 'wss'], require_tld: false })
+  mqttBrokerUrl?: string;
+
+  @ApiPropertyOptional({ example: 'my-app@ttn' })
+  @IsOptional()
+  @IsString()
+  mqttUsername?: string;
+
+  @ApiPropertyOptional({ enum: DownlinkMode, default: DownlinkMode.MQTT })
+  @IsOptional()
+  @IsEnum(DownlinkMode)
+  downlinkMode?: DownlinkMode;
+
+  @ApiPropertyOptional({ type: NetworkServerCredentialsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NetworkServerCredentialsDto)
+  credentials?: NetworkServerCredentialsDto;
+}
+
+export class UpdateNetworkServerDto extends PartialType(
+  CreateNetworkServerDto,
+) {}
@@ -0,0 +1,93 @@
+// src/modules/network-servers/entities/network-server.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant } from '@modules/index.entities';
+import { DownlinkMode, NetworkServerType } from '@common/enums/index.enum';
+
+@Entity('network_servers')
+@Index(['tenantId', 'enabled'])
+@Index(['tenantId', 'name'], { unique: true })
+export class NetworkServer extends BaseEntity {
+  // ══════════════════════════════════════════════════════════════════════════
+  // TENANT SCOPING
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant)
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // BASIC INFO
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  name: string; // "ChirpStack EU868", "TTS Cloud eu1"
+
+  @Column({ type: 'enum', enum: NetworkServerType })
+  type: NetworkServerType;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  // Used by LoRaWAN devices of the tenant that have no networkServerId
+  @Column({ default: false })
+  isDefault: boolean;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CONNECTION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  // ChirpStack: REST API (chirpstack-rest-api), e.g. http://chirpstack:8090
+  // TTS: cluster address, e.g. https://eu1.cloud.thethings.network
+  @Column({ nullable: true })
+  apiUrl?: string;
+
+  // ChirpStack application UUID / TTS application ID
+  @Column()
+  applicationId: string;
+
+  // TTS tenant — "ttn" on The Things Network, the tenant ID on TTS Cloud
+  @Column({ nullable: true })
+  lnsTenantId?: string;
+
+  // MQTT integration of the network server (uplinks and events)
+  @Column({ nullable: true })
+  mqttBrokerUrl?: string;
+
+  @Column({ nullable: true })
+  mqttUsername?: string;
+
+  @Column({ type: 'enum', enum: DownlinkMode, default: DownlinkMode.MQTT })
+  downlinkMode: DownlinkMode;
+
+  @Column({ type: 'jsonb', nullable: true, select: false })
+  credentials?: {
+    apiKey?: string;
+    mqttPassword?: string;
+  };
+  // Stored separately with select: false — select explicitly when needed
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // STATUS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUplinkAt?: Date;
+
+  @Column({ type: 'text', nullable: true })
+  lastError?: string | null;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPER METHODS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * TTS MQTT username and topic prefix: "<application>@<tenant>"
+   */
+  getTtsApplication(): string {
+    return `${this.applicationId}@${this.lnsTenantId || 'ttn'}`;
+  }
+}
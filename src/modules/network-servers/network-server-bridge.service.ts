@@ -0,0 +1,387 @@
+// src/modules/network-servers/network-server-bridge.service.ts
+import * as mqtt from 'mqtt';
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import { NetworkServer } from './entities/network-server.entity';
+import {
+  Device,
+  DeviceProtocol,
+} from '@modules/devices/entities/device.entity';
+import { DeviceListenerService } from '@modules/protocols/device-listener.service';
+import { NetworkServerType } from '@common/enums/index.enum';
+import { StandardTelemetry } from '@common/interfaces/standard-telemetry.interface';
+import { ChirpStackAdapter } from './adapters/chirpstack.adapter';
+import { TtsAdapter } from './adapters/tts.adapter';
+import type {
+  LnsAdapter,
+  LnsEvent,
+  LnsMqttMessage,
+  LorawanUplink,
+} from './adapters/lns-adapter.interface';
+import type { DownlinkAck } from '@modules/device-commands/device-commands.service';
+
+export const NETWORK_SERVER_CHANGED_EVENT = 'network-server.changed';
+
+export interface NetworkServerChangedEvent {
+  networkServerId: string;
+  tenantId: string;
+}
+
+/**
+ * ChirpStack integrations publishing on the platform broker itself
+ * (application/... topics), forwarded by MQTTService
+ */
+export interface LorawanPlatformMessage {
+  topic: string;
+  payload: Record<string, any>;
+}
+
+export interface LorawanJoinedEvent {
+  deviceId: string;
+  devEUI: string;
+  tenantId: string;
+  devAddr?: string;
+}
+
+// lastUplinkAt is a health indicator — one write per server per minute
+const LAST_UPLINK_WRITE_INTERVAL_MS = 60_000;
+
+/**
+ * Holds one MQTT connection per enabled network server, turns uplinks into
+ * StandardTelemetry for DeviceListenerService and join / ack / error events
+ * into 'device.lorawan.joined' and 'device.downlink.ack'.
+ */
+@Injectable()
+export class NetworkServerBridgeService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(NetworkServerBridgeService.name);
+  private readonly clients = new Map<string, mqtt.MqttClient>();
+  private readonly lastUplinkWrites = new Map<string, number>();
+  private readonly adapters: Record<NetworkServerType, LnsAdapter>;
+
+  constructor(
+    @InjectRepository(NetworkServer)
+    private readonly serverRepository: Repository<NetworkServer>,
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    private readonly deviceListener: DeviceListenerService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly chirpStackAdapter: ChirpStackAdapter,
+    ttsAdapter: TtsAdapter,
+  ) {
+    this.adapters = {
+      [NetworkServerType.CHIRPSTACK]: chirpStackAdapter,
+      [NetworkServerType.TTS]: ttsAdapter,
+    };
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    const servers = await this.serverRepository
+      .createQueryBuilder('server')
+      .addSelect('server.credentials')
+      .where('server.enabled = true')
+      .andWhere('server.mqttBrokerUrl IS NOT NULL')
+      .getMany();
+
+    for (const server of servers) this.connect(server);
+    this.logger.log(
+      `Network server bridge started (${servers.length} servers)`,
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all(
+      [...this.clients.keys()].map((id) => this.disconnect(id)),
+    );
+  }
+
+  adapterFor(type: NetworkServerType): LnsAdapter {
+    return this.adapters[type];
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CONNECTIONS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @OnEvent(NETWORK_SERVER_CHANGED_EVENT)
+  async handleServerChanged(event: NetworkServerChangedEvent): Promise<void> {
+    try {
+      await this.disconnect(event.networkServerId);
+
+      const server = await this.serverRepository
+        .createQueryBuilder('server')
+        .addSelect('server.credentials')
+        .where('server.id = :id', { id: event.networkServerId })
+        .getOne();
+
+      if (server?.enabled && server.mqttBrokerUrl) this.connect(server);
+    } catch (error) {
+      this.logger.error(
+        `Reconnecting network server ${event.networkServerId} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /** Downlink over the network server's MQTT integration */
+  async publish(server: NetworkServer, message: LnsMqttMessage): Promise<void> {
+    const client = this.clients.get(server.id);
+    if (!client?.connected) {
+      throw new Error(`Network server ${server.name} is not connected`);
+    }
+    await client.publishAsync(message.topic, JSON.stringify(message.payload), {
+      qos: 1,
+    });
+  }
+
+  isConnected(serverId: string): boolean {
+    return this.clients.get(serverId)?.connected ?? false;
+  }
+
+  private connect(server: NetworkServer): void {
+    const adapter = this.adapterFor(server.type);
+
+    const client = mqtt.connect(server.mqttBrokerUrl!, {
+      clientId: `smartlife-lns-${server.id.slice(0, 8)}-${Date.now()}`,
+      username: server.mqttUsername,
+      password: server.credentials?.mqttPassword,
+      clean: true,
+      reconnectPeriod: 5000,
+    });
+
+    client.on('connect', () => {
+      this.logger.log(`Network server ${server.name} connected`);
+      for (const topic of adapter.subscriptions(server)) {
+        client.subscribe(topic, { qos: 1 }, (err) => {
+          if (err) {
+            this.logger.error(
+              `Failed to subscribe to ${topic}: ${err.message}`,
+            );
+          }
+        });
+      }
+    });
+
+    client.on('error', (err) => {
+      this.logger.error(`Network server ${server.name}: ${err.message}`);
+      void this.serverRepository.update(server.id, { lastError: err.message });
+    });
+
+    client.on('message', (topic, message) => {
+      const payload = this.parseJson(topic, message);
+      if (!payload) return;
+      void this.handleEvent(adapter.parseEvent(topic, payload), server);
+    });
+
+    this.clients.set(server.id, client);
+  }
+
+  private async disconnect(serverId: string): Promise<void> {
+    const client = this.clients.get(serverId);
+    if (!client) return;
+
+    this.clients.delete(serverId);
+    await client.endAsync().catch(() => undefined);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // EVENTS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @OnEvent('lorawan.platform.message')
+  async handlePlatformMessage(message: LorawanPlatformMessage): Promise<void> {
+    await this.handleEvent(
+      this.chirpStackAdapter.parseEvent(message.topic, message.payload),
+      null,
+    );
+  }
+
+  private async handleEvent(
+    event: LnsEvent | null,
+    server: NetworkServer | null,
+  ): Promise<void> {
+    if (!event) return;
+
+    try {
+      const device = await this.findDevice(event.devEUI, server);
+      if (!device) {
+        this.logger.warn(`No device for devEUI: ${event.devEUI}`);
+        return;
+      }
+
+      switch (event.kind) {
+        case 'uplink':
+          await this.handleUplink(device, event.uplink, server);
+          break;
+
+        case 'join': {
+          const joined: LorawanJoinedEvent = {
+            deviceId: device.id,
+            devEUI: event.devEUI,
+            tenantId: device.tenantId,
+            devAddr: event.devAddr,
+          };
+          this.eventEmitter.emit('device.lorawan.joined', joined);
+          break;
+        }
+
+        default: {
+          const ack: DownlinkAck = {
+            devEUI: event.devEUI,
+            tenantId: device.tenantId,
+            event: event.kind,
+            queueItemId: event.queueItemId,
+            acknowledged: event.kind === 'ack' ? event.acknowledged : undefined,
+            error: event.kind === 'error' ? event.error : undefined,
+          };
+          this.eventEmitter.emit('device.downlink.ack', ack);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Network server ${event.kind} for ${event.devEUI} not processed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async handleUplink(
+    device: Device,
+    uplink: LorawanUplink,
+    server: NetworkServer | null,
+  ): Promise<void> {
+    void this.deviceRepository.update(
+      { id: device.id },
+      { lastSeenAt: new Date() },
+    );
+
+    // TTS addresses downlinks by end device ID
+    if (
+      uplink.lnsDeviceId &&
+      device.metadata?.lnsDeviceId !== uplink.lnsDeviceId
+    ) {
+      device.metadata = { ...device.metadata, lnsDeviceId: uplink.lnsDeviceId };
+      await this.deviceRepository.update(
+        { id: device.id },
+        { metadata: device.metadata },
+      );
+    }
+
+    if (server) this.touchServer(server);
+
+    // Use the network server's payload formatter output only for devices
+    // that rely on it — Milesight devices behind ChirpStack keep their codec
+    const useDecoded =
+      uplink.decoded !== undefined &&
+      (device.protocol === DeviceProtocol.LORAWAN_CHIRPSTACK ||
+        device.protocol === DeviceProtocol.LORAWAN_TTS);
+    const hex = uplink.data
+      ? Buffer.from(uplink.data, 'base64').toString('hex')
+      : undefined;
+    // Hex strings go to the codec as-is, like MQTTService does
+    const data = (useDecoded ? uplink.decoded : (hex ?? uplink.decoded)) as
+      | StandardTelemetry['data']
+      | undefined;
+
+    // MAC-only frame (fPort 0 / no FRMPayload) — activity, no telemetry
+    if (data === undefined) return;
+
+    const telemetry: StandardTelemetry = {
+      deviceId: device.id,
+      deviceKey: device.deviceKey,
+      tenantId: device.tenantId,
+      customerId: device.customerId,
+      data,
+      signalStrength: uplink.rssi,
+      timestamp: uplink.time ?? new Date().toISOString(),
+      receivedAt: Date.now(),
+      protocol: 'lorawan',
+      metadata: {
+        protocol: device.protocol,
+        codecId: device.metadata?.codecId as string | undefined,
+        manufacturer:
+          (device.metadata?.manufacturer as string | undefined) ??
+          device.manufacturer,
+        model: (device.metadata?.model as string | undefined) ?? device.model,
+        devEUI: uplink.devEUI,
+        devAddr: uplink.devAddr,
+        fPort: uplink.fPort,
+        port: uplink.fPort,
+        frameCounter: uplink.fCnt,
+        rssi: uplink.rssi,
+        snr: uplink.snr,
+        frequency: uplink.frequency,
+        dataRate: uplink.dataRate,
+        spreadingFactor: uplink.spreadingFactor,
+        bandwidth: uplink.bandwidth,
+        gateways: uplink.gateways,
+        networkServerId: server?.id,
+      },
+      rawPayload: uplink,
+    };
+
+    await this.deviceListener.handleTelemetry(telemetry);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * A network server only reaches devices of its own tenant that are bound
+   * to it or to no server. Platform broker messages match any tenant.
+   */
+  private findDevice(
+    devEUI: string,
+    server: NetworkServer | null,
+  ): Promise<Device | null> {
+    const query = this.deviceRepository
+      .createQueryBuilder('device')
+      .where(`LOWER(device.metadata ->> 'devEUI') = :devEUI`, { devEUI })
+      .andWhere('device.deletedAt IS NULL');
+
+    if (server) {
+      query
+        .andWhere('device.tenantId = :tenantId', { tenantId: server.tenantId })
+        .andWhere(
+          '(device.networkServerId = :serverId OR device.networkServerId IS NULL)',
+          { serverId: server.id },
+        );
+    }
+
+    return query.getOne();
+  }
+
+  private touchServer(server: NetworkServer): void {
+    const now = Date.now();
+    const last = this.lastUplinkWrites.get(server.id) ?? 0;
+    if (now - last < LAST_UPLINK_WRITE_INTERVAL_MS) return;
+
+    this.lastUplinkWrites.set(server.id, now);
+    void this.serverRepository.update(server.id, {
+      lastUplinkAt: new Date(now),
+      lastError: null,
+    });
+  }
+
+  private parseJson(
+    topic: string,
+    message: Buffer,
+  ): Record<string, any> | null {
+    try {
+      const payload: unknown = JSON.parse(message.toString('utf-8'));
+      return payload && typeof payload === 'object'
+        ? (payload as Record<string, any>)
+        : null;
+    } catch {
+      this.logger.warn(`Ignoring non-JSON message on ${topic}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// src/modules/network-servers/network-servers.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { NetworkServersService } from './network-servers.service';
+import {
+  CreateNetworkServerDto,
+  UpdateNetworkServerDto,
+} from './dto/network-server.dto';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { TenantAdminOnly } from '@common/decorators/access-control.decorator';
+import { ParseIdPipe } from '@common/pipes/parse-id.pipe';
+import { User } from '@modules/index.entities';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// LoRaWAN network servers (ChirpStack / The Things Stack) of the tenant.
+// Credentials are write-only and never returned.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@ApiTags('network-servers')
+@Controller('network-servers')
+@ApiBearerAuth()
+export class NetworkServersController {
+  constructor(private readonly networkServersService: NetworkServersService) {}
+
+  @Post()
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Register a LoRaWAN network server' })
+  @ApiResponse({ status: 409, description: 'Name already exists' })
+  create(@CurrentUser() user: User, @Body() dto: CreateNetworkServerDto) {
+    return this.networkServersService.create(user, dto);
+  }
+
+  @Get()
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'List network servers of the tenant' })
+  findAll(@CurrentUser() user: User) {
+    return this.networkServersService.findAll(user);
+  }
+
+  @Get(':id')
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Get a network server' })
+  findOne(@CurrentUser() user: User, @Param('id', ParseIdPipe) id: string) {
+    return this.networkServersService.findOne(id, user.tenantId!);
+  }
+
+  @Patch(':id')
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Update a network server (reconnects MQTT)' })
+  update(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+    @Body() dto: UpdateNetworkServerDto,
+  ) {
+    return this.networkServersService.update(id, user, dto);
+  }
+
+  @Delete(':id')
+  @TenantAdminOnly()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a network server' })
+  remove(@CurrentUser() user: User, @Param('id', ParseIdPipe) id: string) {
+    return this.networkServersService.remove(id, user);
+  }
+
+  @Post(':id/test')
+  @TenantAdminOnly()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Test API and MQTT connectivity' })
+  testConnection(
+    @CurrentUser() user: User,
+    @Param('id', ParseIdPipe) id: string,
+  ) {
+    return this.networkServersService.testConnection(id, user);
+  }
+}
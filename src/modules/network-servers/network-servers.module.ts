@@ -0,0 +1,27 @@
+// src/modules/network-servers/network-servers.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { NetworkServersController } from './network-servers.controller';
+import { NetworkServersService } from './network-servers.service';
+import { NetworkServerBridgeService } from './network-server-bridge.service';
+import { ChirpStackAdapter } from './adapters/chirpstack.adapter';
+import { TtsAdapter } from './adapters/tts.adapter';
+import { Device, NetworkServer } from '@modules/index.entities';
+import { ProtocolsModule } from '@modules/protocols/protocols.module';
+
+// NetworkServerBridgeService owns one MQTT client per network server (not the
+// platform MQTTService client) and feeds uplinks to DeviceListenerService.
+// GatewayService queues LoRaWAN downlinks through NetworkServersService.
+
+@Module({
+  imports: [TypeOrmModule.forFeature([NetworkServer, Device]), ProtocolsModule],
+  controllers: [NetworkServersController],
+  providers: [
+    NetworkServersService,
+    NetworkServerBridgeService,
+    ChirpStackAdapter,
+    TtsAdapter,
+  ],
+  exports: [NetworkServersService],
+})
+export class NetworkServersModule {}
@@ -0,0 +1,317 @@
+// src/modules/network-servers/network-servers.service.ts
+import * as mqtt from 'mqtt';
+import axios from 'axios';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Not, Repository } from 'typeorm';
+import { NetworkServer } from './entities/network-server.entity';
+import { Device, User } from '@modules/index.entities';
+import { DownlinkMode } from '@common/enums/index.enum';
+import {
+  NETWORK_SERVER_CHANGED_EVENT,
+  NetworkServerBridgeService,
+  NetworkServerChangedEvent,
+} from './network-server-bridge.service';
+import type {
+  LnsApiRequest,
+  LorawanDownlink,
+} from './adapters/lns-adapter.interface';
+import {
+  CreateNetworkServerDto,
+  UpdateNetworkServerDto,
+} from './dto/network-server.dto';
+
+const API_TIMEOUT_MS = 10_000;
+
+@Injectable()
+export class NetworkServersService {
+  constructor(
+    @InjectRepository(NetworkServer)
+    private readonly serverRepository: Repository<NetworkServer>,
+    private readonly bridge: NetworkServerBridgeService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CRUD
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async create(
+    user: User,
+    dto: CreateNetworkServerDto,
+  ): Promise<NetworkServer> {
+    const tenantId = this.requireTenant(user);
+    await this.assertNameFree(tenantId, dto.name);
+
+    const server = this.serverRepository.create({
+      ...dto,
+      tenantId,
+      createdBy: user.id,
+    });
+    this.validateConnection(server);
+
+    const saved = await this.serverRepository.save(server);
+    if (saved.isDefault) await this.clearOtherDefaults(saved);
+
+    this.emitChanged(saved);
+    delete saved.credentials;
+    return saved;
+  }
+
+  async findAll(user: User): Promise<NetworkServer[]> {
+    return this.serverRepository.find({
+      where: { tenantId: this.requireTenant(user) },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(id: string, tenantId: string): Promise<NetworkServer> {
+    const server = await this.serverRepository.findOne({
+      where: { id, tenantId },
+    });
+    if (!server) {
+      throw new NotFoundException(`Network server ${id} not found`);
+    }
+    return server;
+  }
+
+  async update(
+    id: string,
+    user: User,
+    dto: UpdateNetworkServerDto,
+  ): Promise<NetworkServer> {
+    const tenantId = this.requireTenant(user);
+    const server = await this.findWithCredentials(id, tenantId);
+
+    if (dto.name && dto.name !== server.name) {
+      await this.assertNameFree(tenantId, dto.name);
+    }
+
+    // Credentials are merged so the API key survives a password change
+    const { credentials, ...changes } = dto;
+    Object.assign(server, changes, { updatedBy: user.id });
+    if (credentials) {
+      server.credentials = { ...server.credentials, ...credentials };
+    }
+    this.validateConnection(server);
+
+    const saved = await this.serverRepository.save(server);
+    if (saved.isDefault) await this.clearOtherDefaults(saved);
+
+    this.emitChanged(saved);
+    delete saved.credentials;
+    return saved;
+  }
+
+  /** Bound devices fall back to the tenant default (FK is ON DELETE SET NULL) */
+  async remove(id: string, user: User): Promise<void> {
+    const server = await this.findOne(id, this.requireTenant(user));
+    await this.serverRepository.remove(server);
+    this.emitChanged({ ...server, id });
+  }
+
+  /**
+   * Calls the network server API (when configured) and opens a fresh MQTT
+   * connection (when configured). Failures are reported, not thrown.
+   */
+  async testConnection(
+    id: string,
+    user: User,
+  ): Promise<{ success: boolean; message: string; latencyMs: number }> {
+    const server = await this.findWithCredentials(id, this.requireTenant(user));
+    const startedAt = Date.now();
+    const checks: string[] = [];
+
+    try {
+      if (server.apiUrl) {
+        await this.request(
+          server,
+          this.bridge.adapterFor(server.type).testRequest(server),
+        );
+        checks.push('API reachable');
+      }
+      if (server.mqttBrokerUrl) {
+        const client = await mqtt.connectAsync(
+          server.mqttBrokerUrl,
+          {
+            clientId: `smartlife-lns-test-${Date.now()}`,
+            username: server.mqttUsername,
+            password: server.credentials?.mqttPassword,
+            connectTimeout: API_TIMEOUT_MS,
+            reconnectPeriod: 0,
+          },
+          false,
+        );
+        await client.endAsync();
+        checks.push('MQTT connected');
+      }
+
+      return {
+        success: true,
+        message: checks.join(', '),
+        latencyMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: (error as Error).message,
+        latencyMs: Date.now() - startedAt,
+      };
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // DOWNLINKS (Called by GatewayService)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Queues a downlink at the device's network server, or the tenant default
+   * when the device is not bound to one. Returns null when the tenant has
+   * no network server.
+   */
+  async enqueueDownlink(
+    device: Device,
+    downlink: LorawanDownlink,
+  ): Promise<{ queueItemId: string } | null> {
+    const server = await this.resolveServer(device);
+    if (!server) return null;
+
+    if (!server.enabled) {
+      throw new Error(`Network server ${server.name} is disabled`);
+    }
+
+    const adapter = this.bridge.adapterFor(server.type);
+
+    if (server.downlinkMode === DownlinkMode.API) {
+      const response = await this.request(
+        server,
+        adapter.downlinkRequest(server, device, downlink),
+      );
+      return {
+        queueItemId: adapter.queueItemIdFromResponse(response) ?? downlink.id,
+      };
+    }
+
+    await this.bridge.publish(
+      server,
+      adapter.downlinkMessage(server, device, downlink),
+    );
+    return { queueItemId: downlink.id };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async resolveServer(device: Device): Promise<NetworkServer | null> {
+    const query = this.serverRepository
+      .createQueryBuilder('server')
+      .addSelect('server.credentials')
+      .where('server.tenantId = :tenantId', { tenantId: device.tenantId });
+
+    if (device.networkServerId) {
+      query.andWhere('server.id = :id', { id: device.networkServerId });
+    } else {
+      query.andWhere('server.isDefault = true');
+    }
+
+    return query.getOne();
+  }
+
+  private async request(
+    server: NetworkServer,
+    request: LnsApiRequest,
+  ): Promise<unknown> {
+    if (!server.apiUrl) {
+      throw new Error(`Network server ${server.name} has no API URL`);
+    }
+
+    const response = await axios.request({
+      baseURL: server.apiUrl,
+      url: request.path,
+      method: request.method,
+      data: request.data,
+      timeout: API_TIMEOUT_MS,
+      headers: server.credentials?.apiKey
+        ? { Authorization: `Bearer ${server.credentials.apiKey}` }
+        : undefined,
+      validateStatus: () => true,
+    });
+
+    if (response.status >= 400) {
+      const detail =
+        (response.data as { message?: string } | undefined)?.message ??
+        response.statusText;
+      throw new Error(
+        `${server.name} API ${request.method} ${request.path} → ${response.status} ${detail}`,
+      );
+    }
+    return response.data;
+  }
+
+  private validateConnection(server: NetworkServer): void {
+    if (server.downlinkMode === DownlinkMode.API && !server.apiUrl) {
+      throw new BadRequestException('API downlink mode requires apiUrl');
+    }
+    if (server.downlinkMode === DownlinkMode.MQTT && !server.mqttBrokerUrl) {
+      throw new BadRequestException(
+        'MQTT downlink mode requires mqttBrokerUrl',
+      );
+    }
+  }
+
+  private async findWithCredentials(
+    id: string,
+    tenantId: string,
+  ): Promise<NetworkServer> {
+    const server = await this.serverRepository
+      .createQueryBuilder('server')
+      .addSelect('server.credentials')
+      .where('server.id = :id', { id })
+      .andWhere('server.tenantId = :tenantId', { tenantId })
+      .getOne();
+    if (!server) {
+      throw new NotFoundException(`Network server ${id} not found`);
+    }
+    return server;
+  }
+
+  private async assertNameFree(tenantId: string, name: string): Promise<void> {
+    const existing = await this.serverRepository.findOne({
+      where: { tenantId, name },
+    });
+    if (existing) {
+      throw new ConflictException(`Network server "${name}" already exists`);
+    }
+  }
+
+  private async clearOtherDefaults(server: NetworkServer): Promise<void> {
+    await this.serverRepository.update(
+      { tenantId: server.tenantId, isDefault: true, id: Not(server.id) },
+      { isDefault: false },
+    );
+  }
+
+  private emitChanged(server: Pick<NetworkServer, 'id' | 'tenantId'>): void {
+    const event: NetworkServerChangedEvent = {
+      networkServerId: server.id,
+      tenantId: server.tenantId,
+    };
+    this.eventEmitter.emit(NETWORK_SERVER_CHANGED_EVENT, event);
+  }
+
+  private requireTenant(user: User): string {
+    if (!user.tenantId) {
+      throw new BadRequestException(
+        'Network server management requires a tenant user',
+      );
+    }
+    return user.tenantId;
+  }
+}
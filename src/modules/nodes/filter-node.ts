@@ -1,4 +1,5 @@
 import { Injectable } from '@nestjs/common';
+import { ScriptSandboxService } from '@modules/scripts/script-sandbox.service';
 import {
   INodeProcessor,
   NodeMessage,
@@ -7,6 +8,8 @@ import {
 
 @Injectable()
 export class FilterNodeProcessor implements INodeProcessor {
+  constructor(private readonly sandbox: ScriptSandboxService) {}
+
   async process(input: NodeMessage, config: any): Promise<NodeProcessorResult> {
     try {
       // Message Type Filter
@@ -29,9 +32,19 @@ export class FilterNodeProcessor implements INodeProcessor {
         }
       }
 
+      // Condition Filter
+      if (config.condition) {
+        const result = this.evaluateCondition(config.condition, input.data);
+        return {
+          success: result,
+          output: input,
+          route: result ? 'true' : 'false',
+        };
+      }
+
       // Script Filter (JavaScript)
       if (config.script) {
-        const result = this.executeScript(config.script, input);
+        const result = await this.executeScript(config.script, input);
         return {
           success: result,
           output: input,
@@ -53,13 +66,51 @@ export class FilterNodeProcessor implements INodeProcessor {
     }
   }
 
-  private executeScript(script: string, msg: NodeMessage): boolean {
-    try {
-      // Create a safe context for script execution
-      const func = new Function('msg', 'metadata', script);
-      return func(msg.data, msg.metadata);
-    } catch (error) {
-      throw new Error(`Script execution failed: ${error.message}`);
+  private evaluateCondition(
+    condition: { key: string; operator: string; value: any },
+    data: any,
+  ): boolean {
+    const actual = condition.key
+      .split('.')
+      .reduce((value, part) => (value == null ? undefined : value[part]), data);
+
+    if (actual === undefined) return false;
+
+    switch (condition.operator) {
+      case 'eq':
+        return actual === condition.value;
+      case 'ne':
+        return actual !== condition.value;
+      case 'gt':
+        return actual > condition.value;
+      case 'gte':
+        return actual >= condition.value;
+      case 'lt':
+        return actual < condition.value;
+      case 'lte':
+        return actual <= condition.value;
+      case 'contains':
+        return String(actual).includes(String(condition.value));
+      default:
+        throw new Error(`Unknown operator: ${condition.operator}`);
+    }
+  }
+
+  private async executeScript(
+    script: string,
+    msg: NodeMessage,
+  ): Promise<boolean> {
+    // Tenant code runs in the sandbox worker pool, never in this process
+    const result = await this.sandbox.run(script, {
+      msg: msg.data,
+      metadata: msg.metadata,
+      msgType: msg.type,
+    });
+    if (!result.success) {
+      throw new Error(
+        `Script execution failed: ${result.error?.name}: ${result.error?.message}`,
+      );
     }
+    return Boolean(result.result);
   }
 }
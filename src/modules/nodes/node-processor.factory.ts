@@ -3,6 +3,7 @@ import { FilterNodeProcessor } from './filter-node';
 import { TransformationNodeProcessor } from './transformation-node';
 import { EnrichmentNodeProcessor } from './enrichment-node';
 import { ActionNodeProcessor } from './action-node';
+import { SwitchNodeProcessor } from './switch-node';
 import { INodeProcessor } from './nodes-processor.interface';
 import { NodeType } from '@common/enums/index.enum';
 
@@ -13,6 +14,7 @@ export class NodeProcessorFactory {
     private readonly transformationProcessor: TransformationNodeProcessor,
     private readonly enrichmentProcessor: EnrichmentNodeProcessor,
     private readonly actionProcessor: ActionNodeProcessor,
+    private readonly switchProcessor: SwitchNodeProcessor,
   ) { }
 
   getProcessor(nodeType: NodeType): INodeProcessor {
@@ -25,6 +27,8 @@ export class NodeProcessorFactory {
         return this.enrichmentProcessor;
       case NodeType.ACTION:
         return this.actionProcessor;
+      case NodeType.SWITCH:
+        return this.switchProcessor;
       default:
         throw new Error(`No processor found for node type: ${nodeType}`);
     }
@@ -3,14 +3,19 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { NodesService } from './nodes.service';
 import { NodesController } from './nodes.controller';
 import { Node } from './entities/node.entity';
+import { ScriptsModule } from '@modules/scripts/scripts.module';
 import { FilterNodeProcessor } from './filter-node';
 import { TransformationNodeProcessor } from './transformation-node';
 import { EnrichmentNodeProcessor } from './enrichment-node';
 import { ActionNodeProcessor } from './action-node';
+import { SwitchNodeProcessor } from './switch-node';
 import { NodeProcessorFactory } from './node-processor.factory';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Node])],
+  imports: [
+    TypeOrmModule.forFeature([Node]),
+    ScriptsModule, // exports ScriptSandboxService for script nodes
+  ],
   controllers: [NodesController],
   providers: [
     NodesService,
@@ -18,6 +23,7 @@ import { NodeProcessorFactory } from './node-processor.factory';
     TransformationNodeProcessor,
     EnrichmentNodeProcessor,
     ActionNodeProcessor,
+    SwitchNodeProcessor,
     NodeProcessorFactory,
   ],
   exports: [NodesService, NodeProcessorFactory],
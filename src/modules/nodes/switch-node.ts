@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { ScriptSandboxService } from '@modules/scripts/script-sandbox.service';
+import {
+  INodeProcessor,
+  NodeMessage,
+  NodeProcessorResult,
+} from './nodes-processor.interface';
+
+@Injectable()
+export class SwitchNodeProcessor implements INodeProcessor {
+  constructor(private readonly sandbox: ScriptSandboxService) {}
+
+  async process(input: NodeMessage, config: any): Promise<NodeProcessorResult> {
+    try {
+      let route: string | undefined;
+
+      // Script Switch (JavaScript) — must return the label of the next connection
+      if (config.script) {
+        route = await this.executeScript(config.script, input);
+      } else if (config.switchKey) {
+        // Key Switch — map the value of a data key onto a connection label
+        const value = this.resolveKey(input.data, config.switchKey);
+        route = config.routes?.[String(value)];
+      }
+
+      return {
+        success: true,
+        output: input,
+        route: route ?? config.defaultRoute ?? 'default',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error.message,
+        route: 'failure',
+      };
+    }
+  }
+
+  private resolveKey(data: any, key: string): any {
+    // Support dot notation for nested keys e.g. "hvac.mode"
+    return key
+      .split('.')
+      .reduce((value, part) => (value == null ? undefined : value[part]), data);
+  }
+
+  private async executeScript(
+    script: string,
+    msg: NodeMessage,
+  ): Promise<string | undefined> {
+    const result = await this.sandbox.run(script, {
+      msg: msg.data,
+      metadata: msg.metadata,
+      msgType: msg.type,
+    });
+    if (!result.success) {
+      throw new Error(
+        `Switch script failed: ${result.error?.name}: ${result.error?.message}`,
+      );
+    }
+    return result.result == null ? undefined : String(result.result);
+  }
+}
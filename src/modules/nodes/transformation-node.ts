@@ -1,4 +1,5 @@
 import { Injectable } from '@nestjs/common';
+import { ScriptSandboxService } from '@modules/scripts/script-sandbox.service';
 import {
   INodeProcessor,
   NodeMessage,
@@ -7,13 +8,18 @@ import {
 
 @Injectable()
 export class TransformationNodeProcessor implements INodeProcessor {
+  constructor(private readonly sandbox: ScriptSandboxService) {}
+
   async process(input: NodeMessage, config: any): Promise<NodeProcessorResult> {
     try {
       let transformedData = { ...input.data };
 
       // Script Transformation
       if (config.script) {
-        transformedData = this.executeTransformScript(config.script, input);
+        transformedData = await this.executeTransformScript(
+          config.script,
+          input,
+        );
       }
 
       // Data Key Mapping
@@ -56,13 +62,21 @@ export class TransformationNodeProcessor implements INodeProcessor {
     }
   }
 
-  private executeTransformScript(script: string, msg: NodeMessage): any {
-    try {
-      const func = new Function('msg', 'metadata', script);
-      return func(msg.data, msg.metadata);
-    } catch (error) {
-      throw new Error(`Transformation script failed: ${error.message}`);
+  private async executeTransformScript(
+    script: string,
+    msg: NodeMessage,
+  ): Promise<any> {
+    const result = await this.sandbox.run(script, {
+      msg: msg.data,
+      metadata: msg.metadata,
+      msgType: msg.type,
+    });
+    if (!result.success) {
+      throw new Error(
+        `Transformation script failed: ${result.error?.name}: ${result.error?.message}`,
+      );
     }
+    return result.result;
   }
 
   private applyKeyMapping(data: any, mapping: Record<string, string>): any {
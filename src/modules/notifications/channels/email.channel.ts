@@ -1,6 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Notification } from '../entities/notification.entity';
 import { MailService } from '@modules/mail/mail.service';
+import { EmailTemplatesService } from '@modules/email-templates/email-templates.service';
+import type { RecipientLocale } from '@common/interfaces/index.interface';
+import {
+  baseLanguage,
+  formatDateTime,
+  textDirection,
+} from '@common/utils/localization';
 
 /**
  * Email notification channel
@@ -10,7 +17,10 @@ import { MailService } from '@modules/mail/mail.service';
 export class EmailChannel {
   private readonly logger = new Logger(EmailChannel.name);
 
-  constructor(private readonly mailService: MailService) {}
+  constructor(
+    private readonly mailService: MailService,
+    private readonly emailTemplatesService: EmailTemplatesService,
+  ) {}
 
   /**
    * Send notification via email
@@ -25,12 +35,20 @@ export class EmailChannel {
         `Sending email notification ${notification.id} to ${notification.recipientEmail}`,
       );
 
+      const html =
+        notification.htmlContent ||
+        this.generateHtmlContent(
+          notification,
+          await this.emailTemplatesService.resolveRecipientLocale({
+            email: notification.recipientEmail,
+          }),
+        );
+
       await this.mailService.sendEmail({
         to: notification.recipientEmail,
         subject: notification.title,
         text: notification.message,
-        html:
-          notification.htmlContent || this.generateHtmlContent(notification),
+        html,
       });
 
       this.logger.log(
@@ -45,12 +63,25 @@ export class EmailChannel {
   }
 
   /**
-   * Generate HTML content from notification if not provided
+   * Generate HTML content from notification if not provided, laid out for
+   * the recipient's language (RTL for Arabic)
    */
-  private generateHtmlContent(notification: Notification): string {
+  private generateHtmlContent(
+    notification: Notification,
+    recipient: RecipientLocale,
+  ): string {
+    const dir = textDirection(recipient.language);
+    const t = (
+      key:
+        | 'notification.email.details'
+        | 'notification.email.footer'
+        | 'notification.email.sent_at',
+      variables: Record<string, any> = {},
+    ) => this.emailTemplatesService.renderBuiltIn(key, variables, recipient);
+
     const html = `
       <!DOCTYPE html>
-      <html>
+      <html dir="${dir}" lang="${baseLanguage(recipient.language)}">
         <head>
           <style>
             body {
@@ -97,7 +128,7 @@ export class EmailChannel {
           </style>
         </head>
         <body>
-          <div class="container">
+          <div class="container" dir="${dir}" style="direction: ${dir}; text-align: ${dir === 'rtl' ? 'right' : 'left'};">
             <div class="header">
               <h1>${notification.title}</h1>
             </div>
@@ -116,7 +147,7 @@ export class EmailChannel {
                 notification.metadata
                   ? `
                 <div style="margin-top: 20px; padding: 15px; background: #f5f5f5; border-radius: 4px;">
-                  <strong>Additional Information:</strong>
+                  <strong>${t('notification.email.details')}</strong>
                   <pre style="margin: 10px 0; white-space: pre-wrap;">${JSON.stringify(notification.metadata, null, 2)}</pre>
                 </div>
               `
@@ -124,8 +155,8 @@ export class EmailChannel {
               }
             </div>
             <div class="footer">
-              <p>This is an automated notification from IoT Platform</p>
-              <p>Sent at ${new Date().toLocaleString()}</p>
+              <p>${t('notification.email.footer')}</p>
+              <p>${t('notification.email.sent_at', { sentAt: formatDateTime(new Date(), recipient) })}</p>
             </div>
           </div>
         </body>
@@ -18,6 +18,7 @@ import { User, Tenant, Customer } from '@modules/index.entities';
 @Index(['tenantId', 'userId'])
 @Index(['scheduledFor'])
 @Index(['status', 'scheduledFor'])
+@Index(['inDigest', 'status', 'userId'])
 export class Notification extends BaseEntity {
   // ══════════════════════════════════════════════════════════════════════════
   // TENANT SCOPING (REQUIRED)
@@ -193,6 +194,18 @@ export class Notification extends BaseEntity {
   @Column({ type: 'timestamp', nullable: true })
   expiresAt?: Date;
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // DIGEST
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** Held (PENDING) for the recipient's next digest email instead of sent */
+  @Column({ default: false })
+  inDigest: boolean;
+
+  /** The digest email that carried it */
+  @Column({ type: 'uuid', nullable: true })
+  digestId?: string;
+
   // ══════════════════════════════════════════════════════════════════════════
   // HELPER METHODS
   // ══════════════════════════════════════════════════════════════════════════
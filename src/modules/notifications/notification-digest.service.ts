@@ -0,0 +1,183 @@
+// src/modules/notifications/notification-digest.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { In, Repository } from 'typeorm';
+import { Notification, UserSettings } from '@modules/index.entities';
+import {
+  NotificationChannel,
+  NotificationPriority,
+  NotificationStatus,
+  NotificationType,
+} from '@common/enums/index.enum';
+import type { RecipientLocale } from '@common/interfaces/index.interface';
+import { zonedClock } from '@common/utils/helpers';
+import { applyTextDirection, formatDateTime } from '@common/utils/localization';
+import { EmailTemplatesService } from '@modules/email-templates/email-templates.service';
+import { escapeHtml } from '@modules/email-templates/localization/email-layout';
+import { NotificationsService } from './notifications.service';
+
+const DEFAULT_DAILY_HOUR = 8;
+const MAX_LISTED = 100;
+
+/**
+ * Sends the emails NotificationPreferencesService held back (inDigest) as
+ * one digest per user — every hour, or once a day at the user's local
+ * dailyHour.
+ */
+@Injectable()
+export class NotificationDigestService {
+  private readonly logger = new Logger(NotificationDigestService.name);
+
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+    @InjectRepository(UserSettings)
+    private readonly settingsRepository: Repository<UserSettings>,
+    private readonly notificationsService: NotificationsService,
+    private readonly emailTemplatesService: EmailTemplatesService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async sendDueDigests(): Promise<void> {
+    const rows = await this.notificationRepository
+      .createQueryBuilder('notification')
+      .select('DISTINCT notification.userId', 'userId')
+      .where('notification.inDigest = true')
+      .andWhere('notification.status = :status', {
+        status: NotificationStatus.PENDING,
+      })
+      .getRawMany<{ userId: string }>();
+
+    if (!rows.length) return;
+
+    const settings = await this.settingsRepository.find({
+      where: { userId: In(rows.map((row) => row.userId)) },
+    });
+    const settingsByUser = new Map(settings.map((s) => [s.userId, s]));
+    const now = new Date();
+
+    for (const { userId } of rows) {
+      if (!this.isDue(settingsByUser.get(userId), now)) continue;
+
+      try {
+        await this.sendDigest(userId);
+      } catch (error) {
+        this.logger.error(
+          `Digest for user ${userId} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /** Sends whatever is held for the user right away */
+  async sendDigest(userId: string): Promise<Notification | null> {
+    const items = await this.notificationRepository.find({
+      where: { userId, inDigest: true, status: NotificationStatus.PENDING },
+      order: { createdAt: 'ASC' },
+    });
+    if (!items.length) return null;
+
+    const user = await this.notificationsService.getUserById(userId);
+    const recipient = await this.emailTemplatesService.resolveRecipientLocale({
+      userId,
+    });
+    const listed = items.slice(-MAX_LISTED);
+    const more = items.length - listed.length;
+    const moreLine = more
+      ? this.emailTemplatesService.renderBuiltIn(
+          'notification.digest.more',
+          { count: more },
+          recipient,
+        )
+      : '';
+
+    const digest = await this.notificationsService.create(
+      {
+        userId,
+        type: NotificationType.SYSTEM,
+        channel: NotificationChannel.EMAIL,
+        priority: NotificationPriority.LOW,
+        title: this.emailTemplatesService.renderBuiltIn(
+          'notification.digest.title',
+          { count: items.length },
+          recipient,
+        ),
+        message: [
+          ...listed.map((n) => `• ${n.title} — ${n.message}`),
+          ...(moreLine ? [moreLine] : []),
+        ].join('\n'),
+        htmlContent: this.renderHtml(listed, moreLine, recipient),
+        recipientEmail: user.email,
+        metadata: { digest: true, count: items.length },
+      },
+      user,
+    );
+
+    // The digest's own status and retries stand for the items from here on
+    await this.notificationRepository.update(
+      { id: In(items.map((n) => n.id)) },
+      {
+        status: NotificationStatus.SENT,
+        sentAt: new Date(),
+        digestId: digest.id,
+      },
+    );
+
+    this.logger.log(`Digest of ${items.length} sent to user ${userId}`);
+    return digest;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private isDue(settings: UserSettings | undefined, now: Date): boolean {
+    const digest = settings?.notificationDigest;
+
+    // Switched to hourly or off since the items were held — flush them
+    if (!settings || digest?.frequency !== 'daily') return true;
+
+    const { hour } = zonedClock(now, settings.timezone);
+    return hour === (digest.dailyHour ?? DEFAULT_DAILY_HOUR);
+  }
+
+  private renderHtml(
+    items: Notification[],
+    moreLine: string,
+    recipient: RecipientLocale,
+  ): string {
+    const heading = this.emailTemplatesService.renderBuiltIn(
+      'notification.digest.heading',
+      {},
+      recipient,
+    );
+    const rows = items
+      .map(
+        (n) => `
+          <tr>
+            <td style="padding:8px;border-bottom:1px solid #eee;color:#888;white-space:nowrap">
+              ${formatDateTime(n.createdAt, recipient)}
+            </td>
+            <td style="padding:8px;border-bottom:1px solid #eee">
+              <strong>${escapeHtml(n.title)}</strong><br />${escapeHtml(n.message)}
+            </td>
+          </tr>`,
+      )
+      .join('');
+
+    return applyTextDirection(
+      `
+      <!DOCTYPE html>
+      <html>
+        <body style="font-family:Arial,sans-serif;color:#333">
+          <h2>${escapeHtml(heading)}</h2>
+          <table style="border-collapse:collapse;width:100%">${rows}</table>
+          ${moreLine ? `<p>${escapeHtml(moreLine)}</p>` : ''}
+        </body>
+      </html>
+    `,
+      recipient.language,
+    );
+  }
+}
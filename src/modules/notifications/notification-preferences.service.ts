@@ -0,0 +1,294 @@
+// src/modules/notifications/notification-preferences.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Device, User, UserSettings } from '@modules/index.entities';
+import {
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+} from '@common/enums/index.enum';
+import type {
+  NotificationRateLimit,
+  NotificationRoutingContext,
+  NotificationRoutingRule,
+} from '@common/interfaces/index.interface';
+import { RedisService } from '@/lib/redis/redis.service';
+import { unique, zonedClock } from '@common/utils/helpers';
+
+export type NotificationDeliveryAction = 'send' | 'defer' | 'digest';
+
+export interface NotificationDelivery {
+  channel: NotificationChannel;
+  action: NotificationDeliveryAction;
+  scheduledFor?: Date; // defer — end of quiet hours
+  ruleId?: string;
+}
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = {
+  [NotificationPriority.LOW]: 0,
+  [NotificationPriority.NORMAL]: 1,
+  [NotificationPriority.HIGH]: 2,
+  [NotificationPriority.URGENT]: 3,
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Decides, per recipient, which channels a fanned-out notification goes to
+ * and whether each one is sent now, held until quiet hours end or batched
+ * into the digest email (NotificationDigestService).
+ */
+@Injectable()
+export class NotificationPreferencesService {
+  private readonly logger = new Logger(NotificationPreferencesService.name);
+
+  constructor(
+    @InjectRepository(UserSettings)
+    private readonly settingsRepository: Repository<UserSettings>,
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    private readonly redisService: RedisService,
+  ) {}
+
+  async plan(
+    user: User,
+    notification: { type: NotificationType; priority?: NotificationPriority },
+    channels: NotificationChannel[],
+    context: NotificationRoutingContext = {},
+  ): Promise<NotificationDelivery[]> {
+    const settings = await this.settingsRepository.findOne({
+      where: { userId: user.id },
+    });
+
+    // Never saved any settings — nothing to apply
+    if (!settings) {
+      return unique(channels).map((channel) => ({ channel, action: 'send' }));
+    }
+
+    const rule = await this.findRule(settings, notification.type, context);
+    const selected = unique(
+      rule
+        ? rule.channels
+        : this.applySwitches(settings, notification, channels),
+    );
+    if (!selected.length) return [];
+
+    const now = new Date();
+    const priority = notification.priority ?? NotificationPriority.NORMAL;
+    const quiet =
+      rule?.quietHours !== false && this.isQuiet(settings, priority, now);
+    const limited =
+      !!rule?.rateLimit &&
+      (await this.isRateLimited(user, rule.id, rule.rateLimit));
+    const digest =
+      rule?.digest !== false &&
+      !!settings.notificationDigest &&
+      settings.notificationDigest.frequency !== 'off';
+    const batchable =
+      digest &&
+      PRIORITY_RANK[priority] <=
+        PRIORITY_RANK[
+          settings.notificationDigest?.maxPriority ?? NotificationPriority.LOW
+        ];
+
+    const deliveries: NotificationDelivery[] = [];
+    for (const channel of selected) {
+      // The in-app inbox is silent — quiet hours and limits don't apply
+      if (channel === NotificationChannel.IN_APP) {
+        deliveries.push({ channel, action: 'send' });
+        continue;
+      }
+
+      if (quiet || limited) {
+        if (channel === NotificationChannel.EMAIL && digest) {
+          deliveries.push({ channel, action: 'digest' });
+        } else if (!limited) {
+          deliveries.push({
+            channel,
+            action: 'defer',
+            scheduledFor: this.quietHoursEnd(settings, now),
+          });
+        }
+        continue;
+      }
+
+      deliveries.push({
+        channel,
+        action:
+          channel === NotificationChannel.EMAIL && batchable
+            ? 'digest'
+            : 'send',
+      });
+    }
+
+    // Rate-limited channels are dropped; keep an in-app copy so it isn't lost
+    if (
+      limited &&
+      !deliveries.some((d) => d.channel === NotificationChannel.IN_APP)
+    ) {
+      deliveries.push({ channel: NotificationChannel.IN_APP, action: 'send' });
+    }
+
+    return deliveries.map((delivery) => ({ ...delivery, ruleId: rule?.id }));
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async findRule(
+    settings: UserSettings,
+    type: NotificationType,
+    context: NotificationRoutingContext,
+  ): Promise<NotificationRoutingRule | undefined> {
+    // Loaded at most once, and only when a rule matches on device groups
+    let device: Pick<Device, 'deviceProfileId' | 'tags'> | null | undefined;
+
+    for (const rule of settings.notificationRules ?? []) {
+      if (!rule.enabled) continue;
+      const { match } = rule;
+
+      if (match.types?.length && !match.types.includes(type)) continue;
+      if (
+        match.severities?.length &&
+        (!context.severity || !match.severities.includes(context.severity))
+      ) {
+        continue;
+      }
+      if (
+        match.customerIds?.length &&
+        (!context.customerId || !match.customerIds.includes(context.customerId))
+      ) {
+        continue;
+      }
+
+      if (match.deviceProfileIds?.length || match.deviceTags?.length) {
+        if (device === undefined) {
+          device = context.deviceId
+            ? await this.deviceRepository.findOne({
+                where: { id: context.deviceId },
+                select: ['id', 'deviceProfileId', 'tags'],
+              })
+            : null;
+        }
+        if (!device) continue;
+
+        if (
+          match.deviceProfileIds?.length &&
+          (!device.deviceProfileId ||
+            !match.deviceProfileIds.includes(device.deviceProfileId))
+        ) {
+          continue;
+        }
+        if (
+          match.deviceTags?.length &&
+          !match.deviceTags.some((tag) => device?.tags?.includes(tag))
+        ) {
+          continue;
+        }
+      }
+
+      return rule;
+    }
+
+    return undefined;
+  }
+
+  // The coarse switches, for notifications no rule matched
+  private applySwitches(
+    settings: UserSettings,
+    notification: { type: NotificationType },
+    channels: NotificationChannel[],
+  ): NotificationChannel[] {
+    if (
+      notification.type === NotificationType.ALARM &&
+      !settings.alarmNotifications
+    ) {
+      return [];
+    }
+    if (
+      notification.type === NotificationType.DEVICE &&
+      !settings.deviceStatusNotifications
+    ) {
+      return [];
+    }
+
+    return channels.filter(
+      (channel) =>
+        (channel !== NotificationChannel.EMAIL ||
+          settings.emailNotifications) &&
+        (channel !== NotificationChannel.PUSH || settings.pushNotifications),
+    );
+  }
+
+  private isQuiet(
+    settings: UserSettings,
+    priority: NotificationPriority,
+    now: Date,
+  ): boolean {
+    const quietHours = settings.quietHours;
+    if (!quietHours?.enabled) return false;
+    if (
+      priority === NotificationPriority.URGENT &&
+      quietHours.allowUrgent !== false
+    ) {
+      return false;
+    }
+
+    const clock = zonedClock(now, settings.timezone);
+    const minute = clock.hour * 60 + clock.minute;
+    const start = this.toMinutes(quietHours.start);
+    const end = this.toMinutes(quietHours.end);
+
+    // A window spanning midnight belongs to the day it started on
+    const spansMidnight = start > end;
+    const startedYesterday = spansMidnight && minute < end;
+    if (quietHours.days?.length) {
+      const day = startedYesterday ? (clock.weekday + 6) % 7 : clock.weekday;
+      if (!quietHours.days.includes(day)) return false;
+    }
+
+    return spansMidnight
+      ? minute >= start || minute < end
+      : minute >= start && minute < end;
+  }
+
+  private quietHoursEnd(settings: UserSettings, now: Date): Date {
+    const clock = zonedClock(now, settings.timezone);
+    const minute = clock.hour * 60 + clock.minute;
+    const end = this.toMinutes(settings.quietHours?.end ?? '00:00');
+    const wait = (end - minute + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+
+    const at = new Date(now.getTime() + wait * 60_000);
+    at.setSeconds(0, 0);
+    return at;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+  }
+
+  // Fixed window per user and rule; Redis being down never blocks delivery
+  private async isRateLimited(
+    user: User,
+    ruleId: string,
+    { max, windowMinutes }: NotificationRateLimit,
+  ): Promise<boolean> {
+    const key = `notifications:rate:${user.id}:${ruleId}`;
+
+    try {
+      const count = await this.redisService.increment(key);
+      if (count === 1) {
+        await this.redisService.expire(key, windowMinutes * 60);
+      }
+      return count > max;
+    } catch (error) {
+      this.logger.warn(
+        `Rate limit check for user ${user.id} failed: ${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+}
@@ -9,11 +9,18 @@ import { SmsChannel } from './channels/sms.channel';
 import { PushChannel } from './channels/push.channel';
 import { MailModule } from '../../modules/mail/mail.module';
 import { UsersModule } from '../users/users.module';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationDigestService } from './notification-digest.service';
+import { Device, UserSettings } from '@modules/index.entities';
+import { RedisModule } from '@/lib/redis/redis.module';
+import { EmailTemplatesModule } from '../email-templates/email-templates.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Notification]),  // ← remove User, UsersModule handles it
+    TypeOrmModule.forFeature([Notification, UserSettings, Device]),  // ← remove User, UsersModule handles it
     MailModule,
+    RedisModule,
+    EmailTemplatesModule,
     forwardRef(() => UsersModule),
   ],
   controllers: [NotificationsController],
@@ -24,6 +31,8 @@ import { UsersModule } from '../users/users.module';
     EmailChannel,
     SmsChannel,
     PushChannel,
+    NotificationPreferencesService,
+    NotificationDigestService,
   ],
   exports: [NotificationsService],  // ← UsersService removed from exports
 })
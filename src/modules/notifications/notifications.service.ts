@@ -10,11 +10,15 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In } from 'typeorm';
-import { NotificationChannel, NotificationStatus, NotificationType } from '@common/enums/index.enum';
 import {
-  Notification,
-  User
-} from '@modules/index.entities';
+  AlarmSeverity,
+  EmailTemplateType,
+  NotificationChannel,
+  NotificationPriority,
+  NotificationStatus,
+  NotificationType,
+} from '@common/enums/index.enum';
+import { Alarm, Notification, User } from '@modules/index.entities';
 import {
   CreateNotificationDto,
   NotificationQueryDto,
@@ -29,6 +33,28 @@ import { NotificationsRepository } from './repositories/notifications.repository
 import { UserRole } from '@common/enums/index.enum';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { UsersService } from '@modules/users/users.service';
+import type {
+  NotificationRoutingContext,
+  RecipientLocale,
+} from '@common/interfaces/index.interface';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { EmailTemplatesService } from '@modules/email-templates/email-templates.service';
+import type {
+  BuiltInMessageKey,
+  NotificationMessageKey,
+} from '@modules/email-templates/localization/messages';
+
+/**
+ * What to say, independent of language: rendered per recipient from the
+ * database template's channel variant when `template` has one, else from
+ * the built-in notification.<key>.title/body strings
+ */
+export interface NotificationMessageRef {
+  key: NotificationMessageKey;
+  variables: Record<string, any>;
+  template?: EmailTemplateType;
+  actionLabel?: BuiltInMessageKey;
+}
 
 @Injectable()
 export class NotificationsService {
@@ -44,6 +70,8 @@ export class NotificationsService {
     private userService: UsersService,
     private smsChannel: SmsChannel,
     private pushChannel: PushChannel,
+    private preferencesService: NotificationPreferencesService,
+    private emailTemplatesService: EmailTemplatesService,
   ) { }
 
   /**
@@ -88,6 +116,172 @@ export class NotificationsService {
     return saved;
   }
 
+  /**
+   * Fan an event out to a user the way they asked for: their routing rules,
+   * quiet hours, rate limits and digest pick the channels and the timing.
+   * `channels` is used when none of their rules match. With `message` the
+   * text is rendered in the user's language; dto.title/message are kept
+   * otherwise.
+   */
+  async notify(
+    dto: Omit<CreateNotificationDto, 'userId' | 'channel'>,
+    user: User,
+    channels: NotificationChannel[],
+    context: NotificationRoutingContext = {},
+    message?: NotificationMessageRef,
+  ): Promise<Notification[]> {
+    const deliveries = await this.preferencesService.plan(
+      user,
+      dto,
+      channels,
+      context,
+    );
+    const recipient =
+      message && deliveries.length
+        ? await this.emailTemplatesService.resolveRecipientLocale({
+            userId: user.id,
+          })
+        : undefined;
+
+    const created: Notification[] = [];
+    for (const delivery of deliveries) {
+      if (delivery.channel === NotificationChannel.SMS && !user.phone) {
+        this.logger.debug(`User ${user.id} has no phone, skipping SMS`);
+        continue;
+      }
+
+      const localized =
+        message && recipient
+          ? await this.localize(
+              message,
+              delivery.channel,
+              recipient,
+              dto.action,
+            )
+          : {};
+
+      const createDto: CreateNotificationDto = {
+        ...dto,
+        ...localized,
+        userId: user.id,
+        channel: delivery.channel,
+        recipientEmail:
+          delivery.channel === NotificationChannel.EMAIL
+            ? user.email
+            : undefined,
+        recipientPhone:
+          delivery.channel === NotificationChannel.SMS ? user.phone : undefined,
+        scheduledFor: delivery.scheduledFor ?? dto.scheduledFor,
+        metadata: delivery.ruleId
+          ? { ...dto.metadata, routingRuleId: delivery.ruleId }
+          : dto.metadata,
+      };
+
+      if (delivery.action === 'digest') {
+        // Held for NotificationDigestService
+        created.push(
+          await this.notificationRepository.save(
+            this.notificationRepository.create({
+              ...createDto,
+              tenantId: user.tenantId,
+              customerId: user.customerId,
+              status: NotificationStatus.PENDING,
+              inDigest: true,
+            }),
+          ),
+        );
+        continue;
+      }
+
+      created.push(await this.create(createDto, user));
+    }
+
+    return created;
+  }
+
+  /**
+   * Title, body (and HTML for email) in the recipient's language — the
+   * database template's variant for the channel when there is one, else
+   * the built-in strings
+   */
+  private async localize(
+    message: NotificationMessageRef,
+    channel: NotificationChannel,
+    recipient: RecipientLocale,
+    action?: CreateNotificationDto['action'],
+  ): Promise<Partial<CreateNotificationDto>> {
+    const { key, variables, template, actionLabel } = message;
+    const title = this.emailTemplatesService.renderBuiltIn(
+      `notification.${key}.title`,
+      variables,
+      recipient,
+    );
+    const localizedAction =
+      action && actionLabel
+        ? {
+            ...action,
+            label: this.emailTemplatesService.renderBuiltIn(
+              actionLabel,
+              {},
+              recipient,
+            ),
+          }
+        : action;
+
+    if (template) {
+      try {
+        if (channel === NotificationChannel.EMAIL) {
+          const email = await this.emailTemplatesService.getRenderedEmail(
+            template,
+            variables,
+            recipient,
+          );
+          return {
+            title: email.subject,
+            message: email.text,
+            htmlContent: email.html,
+            action: localizedAction,
+          };
+        }
+
+        if (
+          channel === NotificationChannel.SMS ||
+          channel === NotificationChannel.PUSH ||
+          channel === NotificationChannel.IN_APP
+        ) {
+          const rendered = await this.emailTemplatesService.getRenderedMessage(
+            template,
+            channel,
+            variables,
+            recipient,
+          );
+          if (rendered) {
+            return {
+              title: rendered.title || title,
+              message: rendered.body,
+              action: localizedAction,
+            };
+          }
+        }
+      } catch (error) {
+        // No active template — the built-in strings below cover it
+        this.logger.debug(
+          `Template ${template} unavailable: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return {
+      title,
+      message: this.emailTemplatesService.renderBuiltIn(
+        `notification.${key}.body`,
+        variables,
+        recipient,
+      ),
+      action: localizedAction,
+    };
+  }
+
   /**
    * Send notification through appropriate channel
    */
@@ -608,11 +802,9 @@ export class NotificationsService {
   async handleDeviceOffline(payload: { device: any; user: User }) {
     const { device, user } = payload;
 
-    await this.create(
+    await this.notify(
       {
-        userId: user.id,
         type: NotificationType.DEVICE,
-        channel: NotificationChannel.IN_APP,
         priority: 'high' as any,
         title: `Device Offline: ${device.name}`,
         message: `Device "${device.name}" has gone offline`,
@@ -630,6 +822,18 @@ export class NotificationsService {
         },
       },
       user,
+      [NotificationChannel.IN_APP],
+      { customerId: device.customerId, deviceId: device.id },
+      {
+        key: 'device_offline',
+        variables: {
+          deviceName: device.name,
+          deviceId: device.id,
+          timestamp: new Date(),
+        },
+        template: EmailTemplateType.DEVICE_OFFLINE,
+        actionLabel: 'notification.action.view_device',
+      },
     );
   }
 
@@ -640,11 +844,9 @@ export class NotificationsService {
   async handleDeviceConnected(payload: { device: any; user: User }) {
     const { device, user } = payload;
 
-    await this.create(
+    await this.notify(
       {
-        userId: user.id,
         type: NotificationType.DEVICE,
-        channel: NotificationChannel.IN_APP,
         priority: 'normal' as any,
         title: `Device Connected: ${device.name}`,
         message: `Device "${device.name}" is now online`,
@@ -662,6 +864,13 @@ export class NotificationsService {
         },
       },
       user,
+      [NotificationChannel.IN_APP],
+      { customerId: device.customerId, deviceId: device.id },
+      {
+        key: 'device_connected',
+        variables: { deviceName: device.name, timestamp: new Date() },
+        actionLabel: 'notification.action.view_device',
+      },
     );
   }
 
@@ -671,10 +880,24 @@ export class NotificationsService {
   @OnEvent('alarm.triggered')
   async handleAlarmTriggered(payload: any) {
     const { alarm, user } = payload;
+    const message: NotificationMessageRef = {
+      key: 'alarm_triggered',
+      variables: this.alarmVariables(alarm),
+      template: EmailTemplateType.ALERT_NOTIFICATION,
+      actionLabel: 'notification.action.view_alarm',
+    };
 
     // Send notifications based on alarm configuration
     if (alarm.notifications?.email && alarm.recipients?.emails) {
       for (const email of alarm.recipients.emails) {
+        const action = {
+          label: 'View Alarm',
+          url: `/alarms/${alarm.id}`,
+          type: 'button' as const,
+        };
+        const recipient =
+          await this.emailTemplatesService.resolveRecipientLocale({ email });
+
         await this.create(
           {
             userId: alarm.userId,
@@ -687,11 +910,13 @@ export class NotificationsService {
             recipientEmail: email,
             relatedEntityType: 'alarm',
             relatedEntityId: alarm.id,
-            action: {
-              label: 'View Alarm',
-              url: `/alarms/${alarm.id}`,
-              type: 'button',
-            },
+            action,
+            ...(await this.localize(
+              message,
+              NotificationChannel.EMAIL,
+              recipient,
+              action,
+            )),
           },
           user,
         );
@@ -702,11 +927,9 @@ export class NotificationsService {
     if (alarm.notifications?.push && alarm.recipients?.userIds) {
       for (const userId of alarm.recipients.userIds) {
         const recipientUser = await this.getUserById(userId);
-        await this.create(
+        await this.notify(
           {
-            userId,
             type: NotificationType.ALARM,
-            channel: NotificationChannel.PUSH,
             priority:
               alarm.severity === 'critical' ? 'urgent' : ('high' as any),
             title: `Alarm: ${alarm.name}`,
@@ -715,12 +938,136 @@ export class NotificationsService {
             relatedEntityId: alarm.id,
           },
           recipientUser,
+          [NotificationChannel.PUSH],
+          this.alarmContext(alarm),
+          message,
         );
       }
     }
   }
 
+  /**
+   * Listen for users mentioned in alarm comments
+   */
+  @OnEvent('alarm.mentioned')
+  async handleAlarmMentioned(payload: {
+    alarm: Alarm;
+    comment: { id: string; body: string };
+    author: User;
+    mentionedUserIds: string[];
+  }) {
+    const { alarm, comment, author, mentionedUserIds } = payload;
+
+    for (const userId of mentionedUserIds) {
+      try {
+        const recipient = await this.getUserById(userId);
+        await this.notify(
+          {
+            type: NotificationType.ALARM,
+            priority: NotificationPriority.NORMAL,
+            title: `${author.name} mentioned you on alarm ${alarm.name}`,
+            message: comment.body.slice(0, 500),
+            relatedEntityType: 'alarm',
+            relatedEntityId: alarm.id,
+            action: {
+              label: 'View Comment',
+              url: `/alarms/${alarm.id}?comment=${comment.id}`,
+              type: 'button',
+            },
+            metadata: { commentId: comment.id, authorId: author.id },
+          },
+          recipient,
+          [NotificationChannel.IN_APP],
+          this.alarmContext(alarm),
+          {
+            key: 'alarm_mentioned',
+            variables: {
+              authorName: author.name,
+              alarmName: alarm.name,
+              comment: comment.body.slice(0, 500),
+            },
+            actionLabel: 'notification.action.view_comment',
+          },
+        );
+      } catch (error) {
+        this.logger.error(
+          `Mention notification for ${userId} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Listen for alarm assignment
+   */
+  @OnEvent('alarm.assigned')
+  async handleAlarmAssigned(payload: {
+    alarm: Alarm;
+    userId: string;
+    note?: string;
+  }) {
+    const { alarm, userId, note } = payload;
+    if (!alarm.assigneeId || alarm.assigneeId === userId) return;
+
+    try {
+      const assignee = await this.getUserById(alarm.assigneeId);
+      await this.notify(
+        {
+          type: NotificationType.ALARM,
+          priority:
+            alarm.severity === AlarmSeverity.CRITICAL
+              ? NotificationPriority.URGENT
+              : NotificationPriority.HIGH,
+          title: `Alarm assigned to you: ${alarm.name}`,
+          message: note || alarm.message || `Alarm ${alarm.name}`,
+          relatedEntityType: 'alarm',
+          relatedEntityId: alarm.id,
+          action: {
+            label: 'View Alarm',
+            url: `/alarms/${alarm.id}`,
+            type: 'button',
+          },
+          metadata: { assignedBy: userId },
+        },
+        assignee,
+        [NotificationChannel.IN_APP],
+        this.alarmContext(alarm),
+        {
+          key: 'alarm_assigned',
+          variables: {
+            alarmName: alarm.name,
+            details: note || alarm.message || alarm.name,
+          },
+          actionLabel: 'notification.action.view_alarm',
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Assignment notification for alarm ${alarm.id} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
   // ✅ Helper methods
+  private alarmVariables(alarm: Alarm): Record<string, any> {
+    return {
+      alarmName: alarm.name,
+      alarmId: alarm.id,
+      severity: alarm.severity,
+      triggeredAt: alarm.lastTriggeredAt ?? alarm.triggeredAt ?? new Date(),
+      value: typeof alarm.currentValue === 'number' ? alarm.currentValue : '—',
+      message: alarm.message ?? '',
+    };
+  }
+
+  private alarmContext(alarm: Alarm): NotificationRoutingContext {
+    return {
+      severity: alarm.severity,
+      customerId: alarm.customerId,
+      deviceId: alarm.deviceId,
+    };
+  }
+
   async getUserById(userId: string): Promise<User> {
     return this.userService.findOne(userId);
   }
@@ -59,6 +59,7 @@ export class NotificationsRepository extends Repository<Notification> {
       .where('notification.status = :status', {
         status: NotificationStatus.PENDING,
       })
+      .andWhere('notification.inDigest = false')
       .andWhere(
         '(notification.scheduledFor IS NULL OR notification.scheduledFor <= NOW())',
       )
@@ -10,6 +10,7 @@ import { EventEmitter2 } from '@nestjs/event-emitter';
 import { DeviceProfile } from './entities/device-profile.entity';
 import { Device } from '../devices/entities/device.entity';
 import {
+  CalculatedFieldDto,
   CreateDeviceProfileDto,
   UpdateDeviceProfileDto,
   QueryProfilesDto,
@@ -43,6 +44,15 @@ export class DeviceProfilesService {
       );
     }
 
+    if (createDto.calculatedFields) {
+      this.validateCalculatedFields(createDto.calculatedFields);
+    }
+
+    await this.validateSparkplugGroup(
+      createDto.transportConfiguration as DeviceProfile['transportConfiguration'],
+      createDto.tenantId,
+    );
+
     // If this is set as default, unset other defaults
     if (createDto.default) {
       await this.unsetAllDefaults(createDto.tenantId);
@@ -166,6 +176,18 @@ export class DeviceProfilesService {
       }
     }
 
+    if (updateDto.calculatedFields) {
+      this.validateCalculatedFields(updateDto.calculatedFields);
+    }
+
+    if (updateDto.transportConfiguration !== undefined) {
+      await this.validateSparkplugGroup(
+        updateDto.transportConfiguration as DeviceProfile['transportConfiguration'],
+        profile.tenantId,
+        profile.id,
+      );
+    }
+
     // If setting as default, unset others
     if (updateDto.default && !profile.default) {
       await this.unsetAllDefaults(profile.tenantId);
@@ -390,6 +412,90 @@ export class DeviceProfilesService {
     }
   }
 
+  /**
+   * Private: Validate calculated fields — unique ids and keys, and the
+   * settings each calculation needs
+   */
+  private validateCalculatedFields(fields: CalculatedFieldDto[]): void {
+    const ids = new Set<string>();
+    const keys = new Set<string>();
+
+    for (const field of fields) {
+      if (ids.has(field.id)) {
+        throw new BadRequestException(
+          `Duplicate calculated field ID: ${field.id}`,
+        );
+      }
+      if (keys.has(field.key)) {
+        throw new BadRequestException(
+          `Two calculated fields write the key "${field.key}"`,
+        );
+      }
+      ids.add(field.id);
+      keys.add(field.key);
+
+      if (field.calculation === 'EXPRESSION') {
+        if (!field.expression?.trim()) {
+          throw new BadRequestException(
+            `Calculated field ${field.id} needs an expression`,
+          );
+        }
+      } else if (!field.input) {
+        throw new BadRequestException(
+          `Calculated field ${field.id} needs an input key`,
+        );
+      }
+
+      if (field.input === field.key) {
+        throw new BadRequestException(
+          `Calculated field ${field.id} cannot overwrite its own input`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Private: Validate the Sparkplug group — required for Sparkplug profiles,
+   * and owned by a single tenant since devices are matched by topic
+   */
+  private async validateSparkplugGroup(
+    transportConfiguration: DeviceProfile['transportConfiguration'],
+    tenantId: string | undefined,
+    profileId?: string,
+  ): Promise<void> {
+    const mqtt = transportConfiguration?.mqtt;
+    if (!mqtt?.sparkplug) return;
+
+    const groupId = mqtt.sparkplugGroupId;
+    if (typeof groupId !== 'string' || !groupId || /[/+#]/.test(groupId)) {
+      throw new BadRequestException(
+        'Sparkplug profiles need a sparkplugGroupId without "/", "+" or "#"',
+      );
+    }
+
+    const query = this.deviceProfileRepository
+      .createQueryBuilder('profile')
+      .where(
+        `profile.transportConfiguration -> 'mqtt' ->> 'sparkplug' = 'true'`,
+      )
+      .andWhere(
+        `profile.transportConfiguration -> 'mqtt' ->> 'sparkplugGroupId' = :groupId`,
+        { groupId },
+      );
+    if (tenantId) {
+      query.andWhere('profile.tenantId != :tenantId', { tenantId });
+    }
+    if (profileId) {
+      query.andWhere('profile.id != :profileId', { profileId });
+    }
+
+    if ((await query.getCount()) > 0) {
+      throw new ConflictException(
+        `Sparkplug group ${groupId} is already used by another tenant`,
+      );
+    }
+  }
+
   /**
    * Private: Validate data type
    */
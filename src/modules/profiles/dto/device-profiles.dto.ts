@@ -8,6 +8,10 @@ import {
   IsNotEmpty,
   IsObject,
   IsNumber,
+  IsInt,
+  Min,
+  Max,
+  IsUUID,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
@@ -16,6 +20,7 @@ import {
   DeviceProvisionType,
 } from '@common/enums/index.enum';
 import { AlarmSeverity, ProcessingStrategy, QueueName, SubmitStrategy } from '@common/enums/index.enum';
+import type { CalculatedFieldKind } from '@common/interfaces/index.interface';
 
 // Device Profile DTOs
 export class CreateDeviceProfileDto {
@@ -66,6 +71,13 @@ export class CreateDeviceProfileDto {
   @IsOptional()
   telemetryConfig?: any;
 
+  @ApiPropertyOptional({ type: () => [CalculatedFieldDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CalculatedFieldDto)
+  calculatedFields?: CalculatedFieldDto[];
+
   @ApiPropertyOptional()
   @IsOptional()
   attributesConfig?: any;
@@ -75,6 +87,14 @@ export class CreateDeviceProfileDto {
   @IsArray()
   alarmRules?: any[];
 
+  @ApiPropertyOptional({
+    description:
+      'Escalation policy for alarms of these devices; null for the tenant default',
+  })
+  @IsOptional()
+  @IsUUID()
+  escalationPolicyId?: string;
+
   @ApiPropertyOptional()
   @IsOptional()
   provisionConfiguration?: any;
@@ -103,6 +123,17 @@ export class CreateDeviceProfileDto {
   @IsString()
   image?: string;
 
+  @ApiPropertyOptional({
+    example: 1800,
+    description:
+      'Seconds without uplink before devices of this profile are marked OFFLINE',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(30)
+  @Max(30 * 24 * 3600)
+  inactivityTimeout?: number;
+
   @ApiPropertyOptional()
   @IsOptional()
   additionalInfo?: Record<string, any>;
@@ -302,17 +333,65 @@ export class CalculatedFieldDto {
   @IsString()
   id: string;
 
-  @ApiProperty()
+  @ApiProperty({ example: 'power', description: 'Telemetry key of the result' })
   @IsString()
-  name: string;
+  @IsNotEmpty()
+  key: string;
 
-  @ApiProperty({ enum: ['number', 'string', 'boolean'] })
-  @IsEnum(['number', 'string', 'boolean'])
-  type: string;
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  name?: string;
 
-  @ApiProperty()
+  @ApiProperty({
+    enum: ['EXPRESSION', 'DELTA', 'RATE', 'COUNTER', 'ASSET_AGGREGATE'],
+  })
+  @IsEnum(['EXPRESSION', 'DELTA', 'RATE', 'COUNTER', 'ASSET_AGGREGATE'])
+  calculation: CalculatedFieldKind;
+
+  @ApiPropertyOptional({
+    example: 'voltage * current',
+    description: 'EXPRESSION — JavaScript expression over the message keys',
+  })
+  @IsOptional()
+  @IsString()
+  expression?: string;
+
+  @ApiPropertyOptional({
+    example: 'energy',
+    description: 'Source key of DELTA, RATE, COUNTER and ASSET_AGGREGATE',
+  })
+  @IsOptional()
   @IsString()
-  expression: string;
+  input?: string;
+
+  @ApiPropertyOptional({ enum: ['SECOND', 'MINUTE', 'HOUR'] })
+  @IsOptional()
+  @IsEnum(['SECOND', 'MINUTE', 'HOUR'])
+  rateUnit?: 'SECOND' | 'MINUTE' | 'HOUR';
+
+  @ApiPropertyOptional({
+    example: 65536,
+    description: 'COUNTER — reading at which the meter wraps to 0',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  rollover?: number;
+
+  @ApiPropertyOptional({ enum: ['SUM', 'AVG', 'MIN', 'MAX', 'COUNT'] })
+  @IsOptional()
+  @IsEnum(['SUM', 'AVG', 'MIN', 'MAX', 'COUNT'])
+  aggregation?: 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT';
+
+  @ApiPropertyOptional({
+    example: 900,
+    description: 'ASSET_AGGREGATE — ignore device values older than this',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxAgeSeconds?: number;
 
   @ApiPropertyOptional()
   @IsOptional()
@@ -326,13 +405,10 @@ export class CalculatedFieldDto {
 
   @ApiPropertyOptional()
   @IsOptional()
-  @IsNumber()
+  @IsInt()
+  @Min(0)
+  @Max(10)
   decimalPlaces?: number;
-
-  @ApiPropertyOptional()
-  @IsOptional()
-  @IsNumber()
-  updateInterval?: number;
 }
 
 export class QueueConfigDto {
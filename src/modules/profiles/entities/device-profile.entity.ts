@@ -2,6 +2,11 @@ import { Entity, Column, Index, ManyToOne, JoinColumn, OneToMany } from 'typeorm
 import { BaseEntity } from '@common/entities/base.entity';
 import { Device, Tenant } from '@/modules/index.entities';
 import { DeviceProvisionType, DeviceTransportType } from '@common/enums/index.enum';
+import type {
+  DeviceCalculatedField,
+  DeviceProfileAlarmRule,
+  TelemetryRetentionPolicy,
+} from '@common/interfaces/index.interface';
 
 @Entity('device_profiles')
 @Index(['tenantId', 'name'])
@@ -72,6 +77,8 @@ export class DeviceProfile extends BaseEntity {
       deviceRpcRequestTopic?: string;     // WHERE device receives commands
       deviceRpcResponseTopic?: string;    // WHERE device sends command responses
       sparkplug?: boolean;                // Use Sparkplug B protocol?
+      sparkplugGroupId?: string;          // Sparkplug group whose edge nodes join this profile
+      x509CaCertificates?: string[];      // PEM CAs trusted for X.509 CHAIN credentials
     };
     http?: {
       baseUrl?: string;                   // API endpoint
@@ -121,11 +128,20 @@ export class DeviceProfile extends BaseEntity {
   //   }
   // }
   //
+  // The mqtt topics also form each device's broker ACL. They may contain
+  // {deviceKey} and {devEUI} placeholders, e.g. 'devices/{deviceKey}/rpc/request'.
+  //
   // NOTE: Your MQTT service subscribes to broad patterns like:
   // - 'devices/+/telemetry'  (catches devices/temp-sensors/telemetry)
   // - 'sensors/+/data'       (catches sensors/ws202/data)
   // So when you create a profile with topic 'devices/temp-sensors/telemetry',
   // your wildcard subscription 'devices/+/telemetry' automatically catches it!
+  //
+  // With sparkplug: true, edge nodes publishing an NBIRTH/DBIRTH on
+  // spBv1.0/{sparkplugGroupId}/... are registered under this profile
+  // (per its provision mode) — one gateway per edge node, one device per
+  // Sparkplug device. sparkplugGroupId is required and binds the group to
+  // this tenant — no other tenant's profile may name the same group.
 
   // ══════════════════════════════════════════════════════════════════════════
   // TELEMETRY CONFIGURATION (What data does this device send?)
@@ -179,6 +195,21 @@ export class DeviceProfile extends BaseEntity {
   // NOTE: This is just a SCHEMA definition. When device actually sends data,
   // it goes into the Telemetry entity (time-series table).
 
+  // Keys derived from each message before it is stored, in order — a field
+  // may use the keys calculated before it.
+  @Column({ type: 'jsonb', nullable: true })
+  calculatedFields?: DeviceCalculatedField[];
+
+  // Example for an energy meter:
+  // calculatedFields: [
+  //   { id: 'power', key: 'power', calculation: 'EXPRESSION',
+  //     expression: 'voltage * current', unit: 'W' },
+  //   { id: 'energy', key: 'energyTotal', calculation: 'COUNTER',
+  //     input: 'energy', rollover: 65536, unit: 'kWh' },
+  //   { id: 'share', key: 'assetPower', calculation: 'ASSET_AGGREGATE',
+  //     input: 'power', aggregation: 'SUM', maxAgeSeconds: 900 }
+  // ]
+
   // ══════════════════════════════════════════════════════════════════════════
   // ATTRIBUTES CONFIGURATION (Device state/config management)
   // ══════════════════════════════════════════════════════════════════════════
@@ -218,27 +249,7 @@ export class DeviceProfile extends BaseEntity {
   // ══════════════════════════════════════════════════════════════════════════
 
   @Column({ type: 'jsonb', nullable: true })
-  alarmRules?: Array<{
-    id: string;
-    alarmType: string;
-    severity: 'CRITICAL' | 'MAJOR' | 'MINOR' | 'WARNING' | 'INDETERMINATE';
-    createCondition: {
-      condition: Array<{
-        key: { key: string; type: string };
-        valueType: string;
-        predicate: {
-          operation: string;
-          value: any;
-        };
-      }>;
-      spec?: {
-        type: string;
-      };
-    };
-    clearCondition?: any;
-    propagate?: boolean;
-    propagateRelationTypes?: string[];
-  }>;
+  alarmRules?: DeviceProfileAlarmRule[];
 
   // Example:
   // alarmRules: [
@@ -279,6 +290,18 @@ export class DeviceProfile extends BaseEntity {
   // 1. System reads this rule from DeviceProfile
   // 2. Creates an actual Alarm ENTITY with status='ACTIVE'
   // 3. When temperature drops to 30°C, Alarm entity status → 'CLEARED'
+  //
+  // Per-severity escalation replaces severity/createCondition with:
+  //   createConditions: { CRITICAL: { condition: [...] }, MAJOR: { ... } }
+  //
+  // Specs: { type: 'SIMPLE' }
+  //        { type: 'DURATION', unit: 'MINUTES', predicate: { defaultValue: 5 } }
+  //        { type: 'REPEATING', predicate: { defaultValue: 3 } }  // 3 samples in a row
+
+  // Escalation for alarms of this profile's devices that name no policy
+  // themselves. Null falls back to the tenant default policy.
+  @Column({ nullable: true })
+  escalationPolicyId?: string;
 
   // ══════════════════════════════════════════════════════════════════════════
   // PROVISIONING (How new devices register)
@@ -334,6 +357,24 @@ export class DeviceProfile extends BaseEntity {
   // 4. Device downloads, updates, reboots
   // 5. Device reconnects and reports: firmwareVersion='1.2.3'
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // CONNECTIVITY
+  // ══════════════════════════════════════════════════════════════════════════
+
+  // Seconds without uplink before a device of this profile is OFFLINE.
+  // Overridden per device; null falls back to the tenant default.
+  @Column({ type: 'int', nullable: true })
+  inactivityTimeout?: number;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // RETENTION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  // Days to keep telemetry of this profile's devices, raw and rolled up,
+  // optionally per key. Unset fields fall back to the tenant policy.
+  @Column({ type: 'jsonb', nullable: true })
+  telemetryRetention?: TelemetryRetentionPolicy;
+
   // ══════════════════════════════════════════════════════════════════════════
   // RULE CHAINS & DASHBOARDS 
   // ══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,129 @@
+// src/modules/protocols/__tests__/device-listener.service.spec.ts
+// Dedup in the ingest path — duplicates are dropped before decoding, and a
+// claimed message id is given back when the uplink never reaches Kafka
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DeviceListenerService } from '../device-listener.service';
+import { Device } from '../../devices/entities/device.entity';
+import { CodecRegistryService } from '../../devices/codecs/codec-registry.service';
+import { ScriptsService } from '../../scripts/scripts.service';
+import { TelemetryIngestService } from '../../telemetry/telemetry-ingest.service';
+import { KafkaService } from '@/lib/kafka/kafka.service';
+import { DeviceStatus } from '@common/enums/index.enum';
+import { StandardTelemetry } from '@common/interfaces/standard-telemetry.interface';
+
+describe('DeviceListenerService — dedup', () => {
+  let service: DeviceListenerService;
+
+  const device = {
+    id: 'dev-1',
+    deviceKey: 'sensor-01',
+    tenantId: 'ten-1',
+    status: DeviceStatus.ACTIVE,
+    metadata: {},
+  };
+
+  const mockDeviceRepository = {
+    findOne: jest.fn().mockResolvedValue(device),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+  const mockCodecRegistry = {
+    decode: jest.fn((data: Record<string, any>) => data),
+  };
+  const mockKafkaService = { sendMessage: jest.fn() };
+  const mockEventEmitter = { emit: jest.fn() };
+  const mockIngest = {
+    isDuplicate: jest.fn(),
+    releaseDuplicate: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const message: StandardTelemetry = {
+    deviceId: 'dev-1',
+    deviceKey: 'sensor-01',
+    protocol: 'mqtt',
+    data: { temperature: 21 },
+    timestamp: '2026-01-01T00:00:00Z',
+    receivedAt: Date.now(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeviceListenerService,
+        {
+          provide: getRepositoryToken(Device),
+          useValue: mockDeviceRepository,
+        },
+        { provide: CodecRegistryService, useValue: mockCodecRegistry },
+        { provide: KafkaService, useValue: mockKafkaService },
+        { provide: ScriptsService, useValue: {} },
+        { provide: EventEmitter2, useValue: mockEventEmitter },
+        { provide: TelemetryIngestService, useValue: mockIngest },
+      ],
+    }).compile();
+
+    service = module.get<DeviceListenerService>(DeviceListenerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should publish a new uplink and keep its claim', async () => {
+    mockIngest.isDuplicate.mockResolvedValue(false);
+    mockKafkaService.sendMessage.mockResolvedValue(undefined);
+
+    await service.handleTelemetry(message);
+
+    expect(mockKafkaService.sendMessage).toHaveBeenCalledWith(
+      'telemetry.device.raw',
+      expect.objectContaining({ deviceId: device.id }),
+      device.deviceKey,
+    );
+    expect(mockIngest.releaseDuplicate).not.toHaveBeenCalled();
+  });
+
+  it('should drop a duplicate before decoding but still record activity', async () => {
+    mockIngest.isDuplicate.mockResolvedValue(true);
+
+    await service.handleTelemetry(message);
+
+    expect(mockEventEmitter.emit).toHaveBeenCalledWith(
+      'device.activity',
+      expect.objectContaining({ device }),
+    );
+    expect(mockCodecRegistry.decode).not.toHaveBeenCalled();
+    expect(mockKafkaService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should release the claim when publishing fails', async () => {
+    mockIngest.isDuplicate.mockResolvedValue(false);
+    mockKafkaService.sendMessage.mockRejectedValue(new Error('broker down'));
+
+    await service.handleTelemetry(message);
+
+    expect(mockIngest.releaseDuplicate).toHaveBeenCalledWith(device, message);
+  });
+
+  it('should release the claim when decoding fails', async () => {
+    mockIngest.isDuplicate.mockResolvedValue(false);
+    mockCodecRegistry.decode.mockImplementationOnce(() => {
+      throw new Error('bad payload');
+    });
+
+    await service.handleTelemetry(message);
+
+    expect(mockIngest.releaseDuplicate).toHaveBeenCalledWith(device, message);
+    expect(mockKafkaService.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should not release anything for a duplicate', async () => {
+    mockIngest.isDuplicate.mockResolvedValue(true);
+
+    await service.handleTelemetry(message);
+
+    expect(mockIngest.releaseDuplicate).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Repository } from 'typeorm';
 import { Device } from '@modules/devices/entities/device.entity';
 import { DeviceProtocol } from '@modules/devices/entities/device.entity';
@@ -7,6 +8,8 @@ import { DeviceConnectionType, DeviceStatus, DeviceType } from '@common/enums/in
 import { StandardTelemetry } from '@common/interfaces/standard-telemetry.interface';
 import { CodecRegistryService } from '@modules/devices/codecs/codec-registry.service';
 import { KafkaService } from '@/lib/kafka/kafka.service';
+import { ScriptsService } from '@modules/scripts/scripts.service';
+import { TelemetryIngestService } from '@modules/telemetry/telemetry-ingest.service';
 
 @Injectable()
 export class DeviceListenerService {
@@ -17,6 +20,9 @@ export class DeviceListenerService {
     private readonly deviceRepository: Repository<Device>,
     private readonly codecRegistry: CodecRegistryService,
     private readonly kafkaService: KafkaService,
+    private readonly scriptsService: ScriptsService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly ingest: TelemetryIngestService,
   ) {}
 
   // ── Unified entry point ───────────────────────────────────────────────────
@@ -29,12 +35,18 @@ export class DeviceListenerService {
   //   - ZigbeeAdapter         (Zigbee messages)
   //
   // Responsibilities:
-  //   1. Find or auto-register the device
-  //   2. Decode payload via CodecRegistryService
+  //   1. Find or auto-register the device, drop retransmissions / replays
+  //   2. Decode payload via CodecRegistryService (+ optional decoder script)
   //   3. Update device.lastSeenAt / messageCount / status
   //   4. Publish decoded telemetry to Kafka → TelemetryConsumer picks it up
+  //
+  // Every uplink (heartbeats included) emits 'device.activity' for
+  // DeviceConnectivityService, which owns the ACTIVE ⇄ OFFLINE transitions.
 
   async handleTelemetry(standardTelemetry: StandardTelemetry): Promise<void> {
+    // Set once the message id is claimed — released again if the uplink fails
+    let claimedBy: Device | undefined;
+
     try {
       this.logger.log(
         `Telemetry from ${standardTelemetry.protocol.toUpperCase()} — device: ${standardTelemetry.deviceKey}`,
@@ -54,6 +66,17 @@ export class DeviceListenerService {
         }
       }
 
+      this.eventEmitter.emit('device.activity', { device, seenAt: new Date() });
+
+      // Still activity (the device is alive), but already in the pipeline
+      if (await this.ingest.isDuplicate(device, standardTelemetry)) {
+        this.logger.debug(
+          `Duplicate uplink dropped — device: ${device.deviceKey}`,
+        );
+        return;
+      }
+      claimedBy = device;
+
       // ── 2. Decode payload ─────────────────────────────────────────────────
       // Use metadata from StandardTelemetry (set by MQTTService / HTTPAdapter).
       // CodecRegistryService handles: JSON pass-through, hex decode, auto-detect.
@@ -71,8 +94,15 @@ export class DeviceListenerService {
     };
 
       this.logger.log(`standardTelemetry.data type: ${typeof standardTelemetry.data}, value: ${JSON.stringify(standardTelemetry.data).substring(0, 200)}`);
-const decodedData = this.codecRegistry.decode(standardTelemetry.data, codecMeta);
+const codecData = this.codecRegistry.decode(standardTelemetry.data, codecMeta);
 
+      // Optional user script post-processing the codec output
+      const decoderScriptId =
+        (standardTelemetry.metadata?.decoderScriptId as string | undefined) ??
+        (device.metadata?.decoderScriptId as string | undefined);
+      const decodedData = decoderScriptId
+        ? await this.runDecoderScript(decoderScriptId, device, standardTelemetry, codecData)
+        : codecData;
 
 
       // Merge decoded fields with any top-level fields from StandardTelemetry
@@ -100,12 +130,12 @@ if (Object.keys(finalData).length === 0) {
           lastSeenAt: new Date(),
           lastActivityAt: new Date(),
           messageCount: () => '"messageCount" + 1',
-          status: device.status === DeviceStatus.INACTIVE
-            ? DeviceStatus.ACTIVE
-            : device.status,
-          activatedAt: device.activatedAt ?? (
-            device.status === DeviceStatus.INACTIVE ? new Date() : undefined
-          ),
+          // Only first activation here — writing the loaded status back
+          // would undo a concurrent OFFLINE → ACTIVE transition
+          ...(device.status === DeviceStatus.INACTIVE && {
+            status: DeviceStatus.ACTIVE,
+            activatedAt: device.activatedAt ?? new Date(),
+          }),
         },
       );
 
@@ -135,9 +165,52 @@ if (Object.keys(finalData).length === 0) {
       this.logger.error(
         `Error handling telemetry for ${standardTelemetry.deviceKey}: ${(error as Error).message}`,
       );
+      if (claimedBy) {
+        await this.ingest.releaseDuplicate(claimedBy, standardTelemetry);
+      }
     }
   }
 
+  // ── Decoder script ────────────────────────────────────────────────────────
+  // Runs the tenant script referenced by decoderScriptId (message metadata or
+  // device metadata) on the codec output. The script gets the decoded fields
+  // as msg and returns the new telemetry object (or { msg, metadata }).
+  // A failing script never drops the uplink — the codec output is kept.
+
+  private async runDecoderScript(
+    scriptId: string,
+    device: Device,
+    telemetry: StandardTelemetry,
+    decoded: Record<string, any>,
+  ): Promise<Record<string, any>> {
+    try {
+      const result = await this.scriptsService.runById(scriptId, device.tenantId, {
+        msg: decoded,
+        metadata: {
+          deviceId: device.id,
+          deviceKey: device.deviceKey,
+          protocol: telemetry.protocol,
+          raw: typeof telemetry.data === 'string' ? telemetry.data : undefined,
+          fPort: telemetry.metadata?.fPort,
+        },
+        msgType: 'POST_TELEMETRY_REQUEST',
+      });
+
+      const output = result.output?.msg ?? result.result;
+      if (result.success && output && typeof output === 'object' && !Array.isArray(output)) {
+        return output;
+      }
+
+      this.logger.warn(
+        `Decoder script ${scriptId} returned no telemetry for ${device.deviceKey}: ${result.error?.message ?? 'not an object'}`,
+      );
+    } catch (error) {
+      this.logger.error(`Decoder script ${scriptId} failed: ${(error as Error).message}`);
+    }
+
+    return decoded;
+  }
+
   // ── Auto-register ─────────────────────────────────────────────────────────
   // Creates a minimal device record when AUTO_REGISTER_DEVICES=true.
   // The device gets no userId / tenantId from a real user — instead we use a
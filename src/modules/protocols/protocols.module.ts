@@ -10,11 +10,13 @@ import { Device } from '@modules/devices/entities/device.entity';
 import { CodecModule } from '@modules/devices/codecs/codec.module';
 import { KafkaModule } from '@/lib/kafka/kafka.module';
 import { MQTTModule } from '@/lib/mqtt/mqtt.module';
+import { ScriptsModule } from '@modules/scripts/scripts.module';
+import { TelemetryIngestModule } from '@modules/telemetry/telemetry-ingest.module';
 
 // ─── What this module owns ────────────────────────────────────────────────
 // DeviceListenerService — unified entry point for all protocol adapters.
 //   Called by: MQTTService (lib/mqtt), HTTPAdapter, CoAPAdapter, etc.
-//   Does:      codec decode → device update → Kafka publish
+//   Does:      codec decode (+ decoder script) → device update → Kafka publish
 //
 // ─── MQTTAdapter is intentionally NOT registered here ────────────────────
 // The old MQTTAdapter was a third MQTT client creating duplicate connections.
@@ -32,6 +34,8 @@ import { MQTTModule } from '@/lib/mqtt/mqtt.module';
     TypeOrmModule.forFeature([Device]),
     CodecModule,       // provides CodecRegistryService for DeviceListenerService
     KafkaModule,       // provides KafkaService for DeviceListenerService
+    ScriptsModule,     // provides ScriptsService for decoder scripts
+    TelemetryIngestModule, // provides TelemetryIngestService for deduplication
     forwardRef(() => MQTTModule), // circular: MQTTModule also imports ProtocolsModule
   ],
   providers: [
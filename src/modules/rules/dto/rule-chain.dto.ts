@@ -0,0 +1,119 @@
+// src/modules/rules/dto/rule-chain.dto.ts
+import {
+  IsString,
+  IsBoolean,
+  IsOptional,
+  IsArray,
+  IsNumber,
+  IsObject,
+  IsUUID,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+
+// ══════════════════════════════════════════════════════════════════════════
+// CONFIGURATION DTO
+// ══════════════════════════════════════════════════════════════════════════
+
+class RuleChainConfigurationDto {
+  @ApiPropertyOptional({
+    example: ['TELEMETRY', 'ALARM'],
+    description: 'Message types routed into this chain (empty = all)',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  messageTypes?: string[];
+
+  @ApiPropertyOptional({
+    example: ['sensor', 'gateway'],
+    description: 'Only run for originators of these device types',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  deviceTypes?: string[];
+
+  @ApiPropertyOptional({ example: ['building'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  assetTypes?: string[];
+
+  @ApiPropertyOptional({
+    example: 5000,
+    description: 'Abort the run after this many milliseconds',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  maxExecutionTime?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  retryOnFailure?: boolean;
+
+  @ApiPropertyOptional({ example: 3 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxRetries?: number;
+}
+
+// ══════════════════════════════════════════════════════════════════════════
+// CREATE RULE CHAIN DTO
+// ══════════════════════════════════════════════════════════════════════════
+
+export class CreateRuleChainDto {
+  @ApiProperty({ example: 'Device Telemetry Processing' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Filters and forwards HVAC telemetry' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Mark as the tenant root chain (only one per tenant)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isRoot?: boolean;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  debugMode?: boolean;
+
+  @ApiPropertyOptional({
+    example: 'node-uuid-123',
+    description: 'First node to execute',
+  })
+  @IsOptional()
+  @IsUUID()
+  rootNodeId?: string;
+
+  @ApiPropertyOptional({ type: RuleChainConfigurationDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RuleChainConfigurationDto)
+  configuration?: RuleChainConfigurationDto;
+
+  @ApiPropertyOptional({ example: ['telemetry', 'critical'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsObject()
+  additionalInfo?: Record<string, any>;
+}
+
+export class UpdateRuleChainDto extends PartialType(CreateRuleChainDto) {}
@@ -0,0 +1,72 @@
+// src/modules/rules/dto/rule-execution.dto.ts
+import {
+  IsString,
+  IsOptional,
+  IsObject,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NodeMessage } from '@modules/nodes/nodes-processor.interface';
+
+class MessageOriginatorDto {
+  @ApiProperty({ example: 'device-uuid-123' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ example: 'DEVICE' })
+  @IsString()
+  type: string;
+}
+
+// ══════════════════════════════════════════════════════════════════════════
+// TEST MESSAGE DTO (dry run)
+// ══════════════════════════════════════════════════════════════════════════
+
+export class TestRuleChainMessageDto {
+  @ApiProperty({ example: 'TELEMETRY' })
+  @IsString()
+  messageType: string;
+
+  @ApiPropertyOptional({ type: MessageOriginatorDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MessageOriginatorDto)
+  originator?: MessageOriginatorDto;
+
+  @ApiProperty({ example: { temperature: 31.5, humidity: 40 } })
+  @IsObject()
+  data: Record<string, any>;
+
+  @ApiPropertyOptional({ example: { deviceType: 'sensor' } })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+// ══════════════════════════════════════════════════════════════════════════
+// EXECUTION RESULT
+// ══════════════════════════════════════════════════════════════════════════
+
+export interface RuleNodeTrace {
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  route?: string;
+  success: boolean;
+  skipped?: boolean;
+  error?: string;
+  executionTime: number;
+  input: NodeMessage;
+  output?: NodeMessage;
+}
+
+export interface RuleChainExecutionResult {
+  ruleChainId: string;
+  success: boolean;
+  executionTime: number;
+  error?: string;
+  failedNodeId?: string;
+  trace: RuleNodeTrace[];
+  outputs: NodeMessage[];
+}
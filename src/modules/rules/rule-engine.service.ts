@@ -0,0 +1,402 @@
+// src/modules/rules/rule-engine.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityTarget, Repository } from 'typeorm';
+import { RuleChain, Node } from '@modules/index.entities';
+import { RuleChainStatus } from '@common/enums/index.enum';
+import { NodeProcessorFactory } from '@modules/nodes/node-processor.factory';
+import {
+  NodeMessage,
+  NodeProcessorResult,
+} from '@modules/nodes/nodes-processor.interface';
+import { KafkaService } from '@/lib/kafka/kafka.service';
+import {
+  RuleChainExecutionResult,
+  RuleNodeTrace,
+} from './dto/rule-execution.dto';
+
+type NodeConnection = Node['connections'][number];
+
+interface ExecuteOptions {
+  dryRun?: boolean;
+}
+
+// Other instances pick up chain changes within this window
+const CHAIN_CACHE_TTL = 30 * 1000;
+
+@Injectable()
+export class RuleEngineService {
+  private readonly logger = new Logger(RuleEngineService.name);
+
+  // Hard stop for misconfigured graphs (cycles, runaway fan-out)
+  private readonly MAX_STEPS = 100;
+  private readonly DEFAULT_MAX_EXECUTION_TIME = 10000;
+
+  // Active chains per tenant — every rules.input message needs them
+  private readonly activeChains = new Map<
+    string,
+    { chains: RuleChain[]; loadedAt: number }
+  >();
+
+  constructor(
+    @InjectRepository(RuleChain)
+    private readonly ruleChainRepo: Repository<RuleChain>,
+    @InjectRepository(Node)
+    private readonly nodeRepo: Repository<Node>,
+    private readonly processorFactory: NodeProcessorFactory,
+    private readonly kafka: KafkaService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ENTRY POINT (Called by RulesConsumer for every rules.input message)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Route a message through every active chain of the tenant that accepts it
+   */
+  async processMessage(
+    tenantId: string,
+    msg: NodeMessage,
+  ): Promise<RuleChainExecutionResult[]> {
+    const chains = await this.getActiveChains(tenantId);
+
+    const matching = chains.filter((chain) => this.acceptsMessage(chain, msg));
+
+    if (matching.length === 0) {
+      this.logger.debug(`No rule chains for ${msg.type} in tenant ${tenantId}`);
+      return [];
+    }
+
+    const results: RuleChainExecutionResult[] = [];
+
+    for (const chain of matching) {
+      const result = await this.executeWithRetry(chain, msg);
+
+      await this.recordStats(
+        RuleChain,
+        chain.id,
+        result.success,
+        result.executionTime,
+        result.error,
+        result.failedNodeId,
+      );
+
+      for (const output of result.outputs) {
+        await this.kafka.sendMessage(
+          'rules.output',
+          { tenantId, ruleChainId: chain.id, ...output },
+          output.originator?.id,
+        );
+      }
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Drop the tenant's cached chains — RulesService calls this on every change
+   */
+  invalidate(tenantId: string): void {
+    this.activeChains.delete(tenantId);
+  }
+
+  /**
+   * Check the chain's configuration filters against the message
+   */
+  acceptsMessage(chain: RuleChain, msg: NodeMessage): boolean {
+    const { messageTypes, deviceTypes, assetTypes } = chain.configuration ?? {};
+
+    if (messageTypes?.length && !messageTypes.includes(msg.type)) {
+      return false;
+    }
+
+    const originatorType = msg.originator?.type;
+    const entityType = msg.metadata?.deviceType ?? msg.metadata?.assetType;
+
+    if (originatorType === 'DEVICE' && deviceTypes?.length && entityType) {
+      return deviceTypes.includes(entityType);
+    }
+
+    if (originatorType === 'ASSET' && assetTypes?.length && entityType) {
+      return assetTypes.includes(entityType);
+    }
+
+    return true;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // EXECUTION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async executeWithRetry(
+    chain: RuleChain,
+    msg: NodeMessage,
+  ): Promise<RuleChainExecutionResult> {
+    const { retryOnFailure, maxRetries = 3 } = chain.configuration ?? {};
+    const attempts = retryOnFailure ? maxRetries + 1 : 1;
+
+    let result = await this.execute(chain, msg);
+    for (let attempt = 2; !result.success && attempt <= attempts; attempt++) {
+      this.logger.warn(
+        `Retrying rule chain ${chain.id} (attempt ${attempt}/${attempts})`,
+      );
+      result = await this.execute(chain, msg);
+    }
+
+    return result;
+  }
+
+  /**
+   * Walk the node graph from rootNodeId, following the connections that
+   * match each node's route. A dry run does not touch node statistics and
+   * does not execute ACTION nodes.
+   */
+  async execute(
+    chain: RuleChain,
+    msg: NodeMessage,
+    options: ExecuteOptions = {},
+  ): Promise<RuleChainExecutionResult> {
+    const startedAt = Date.now();
+    const deadline =
+      startedAt +
+      (chain.configuration?.maxExecutionTime ??
+        this.DEFAULT_MAX_EXECUTION_TIME);
+
+    const result: RuleChainExecutionResult = {
+      ruleChainId: chain.id,
+      success: true,
+      executionTime: 0,
+      trace: [],
+      outputs: [],
+    };
+
+    const finish = (error?: string, nodeId?: string) => {
+      if (error) {
+        result.success = false;
+        result.error = error;
+        result.failedNodeId = nodeId;
+      }
+      result.executionTime = Date.now() - startedAt;
+      return result;
+    };
+
+    if (!chain.rootNodeId) {
+      return finish('Rule chain has no root node');
+    }
+
+    const nodes = await this.nodeRepo.find({
+      where: { tenantId: chain.tenantId, ruleChainId: chain.id },
+    });
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+    if (!nodesById.has(chain.rootNodeId)) {
+      return finish(`Root node ${chain.rootNodeId} not found in rule chain`);
+    }
+
+    const queue: Array<{ nodeId: string; msg: NodeMessage }> = [
+      { nodeId: chain.rootNodeId, msg },
+    ];
+    let steps = 0;
+
+    while (queue.length > 0) {
+      const { nodeId, msg: input } = queue.shift()!;
+      const node = nodesById.get(nodeId);
+
+      if (!node) {
+        return finish(`Connection points to missing node ${nodeId}`, nodeId);
+      }
+      if (++steps > this.MAX_STEPS) {
+        return finish(`Exceeded ${this.MAX_STEPS} node executions`, nodeId);
+      }
+      if (Date.now() > deadline) {
+        return finish('Rule chain execution timed out', nodeId);
+      }
+
+      const trace = await this.runNode(node, input, options, chain.debugMode);
+      result.trace.push(trace);
+
+      if (trace.error) {
+        const failureTargets = this.nextNodes(node, 'failure');
+        if (failureTargets.length === 0) {
+          return finish(trace.error, node.id);
+        }
+        failureTargets.forEach((target) =>
+          queue.push({ nodeId: target, msg: input }),
+        );
+        continue;
+      }
+
+      const output = trace.output ?? input;
+      const targets = this.nextNodes(node, trace.route!);
+
+      if (targets.length === 0) {
+        // Leaf reached — whatever arrives here is the chain's output
+        if (trace.success) result.outputs.push(output);
+        continue;
+      }
+
+      targets.forEach((target) => queue.push({ nodeId: target, msg: output }));
+    }
+
+    return finish();
+  }
+
+  private async runNode(
+    node: Node,
+    input: NodeMessage,
+    options: ExecuteOptions,
+    debugMode: boolean,
+  ): Promise<RuleNodeTrace> {
+    const trace: RuleNodeTrace = {
+      nodeId: node.id,
+      nodeName: node.name,
+      nodeType: node.type,
+      success: true,
+      executionTime: 0,
+      input,
+    };
+
+    // Disabled nodes and dry-run actions pass the message through untouched
+    if (!node.isEnabled() || (options.dryRun && node.isAction())) {
+      trace.skipped = true;
+      trace.route = 'success';
+      trace.output = input;
+      return trace;
+    }
+
+    const startedAt = Date.now();
+    let processed: NodeProcessorResult;
+
+    try {
+      processed = await this.processorFactory
+        .getProcessor(node.type)
+        .process(input, node.configuration);
+    } catch (error) {
+      processed = { success: false, error: (error as Error).message };
+    }
+
+    trace.executionTime = Date.now() - startedAt;
+    trace.success = processed.success;
+    trace.route = processed.route;
+    trace.output = processed.output;
+    trace.error = processed.error;
+
+    if (debugMode || node.debugMode) {
+      this.logger.debug(
+        `[${node.name}] route=${processed.route} success=${processed.success}`,
+      );
+    }
+
+    if (!options.dryRun) {
+      await this.recordStats(
+        Node,
+        node.id,
+        !processed.error,
+        trace.executionTime,
+        processed.error,
+      );
+    }
+
+    return trace;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // STATE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async getActiveChains(tenantId: string): Promise<RuleChain[]> {
+    const cached = this.activeChains.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt < CHAIN_CACHE_TTL) {
+      return cached.chains;
+    }
+
+    const chains = await this.ruleChainRepo.find({
+      where: { tenantId, status: RuleChainStatus.ACTIVE, enabled: true },
+    });
+
+    this.activeChains.set(tenantId, { chains, loadedAt: Date.now() });
+    return chains;
+  }
+
+  /**
+   * Count one execution in a single UPDATE of the statistics columns. The
+   * row is never saved whole here, so edits made meanwhile are kept.
+   */
+  private async recordStats(
+    target: EntityTarget<RuleChain | Node>,
+    id: string,
+    success: boolean,
+    executionTime: number,
+    error?: string,
+    nodeId?: string,
+  ): Promise<void> {
+    const stats: Record<string, () => string> = {
+      executionCount: () => '"executionCount" + 1',
+      lastExecuted: () => ':now',
+      averageExecutionTime: () =>
+        'ROUND(("averageExecutionTime" * "executionCount" + :executionTime) / ("executionCount" + 1.0))',
+    };
+
+    if (success) {
+      stats.successCount = () => '"successCount" + 1';
+      stats.lastError = () => 'NULL';
+    } else {
+      // Newest first, last 10 kept
+      stats.failureCount = () => '"failureCount" + 1';
+      stats.lastError = () => ':error';
+      stats.errorHistory = () =>
+        `jsonb_path_query_array(CAST(:entry AS jsonb) || COALESCE("errorHistory", CAST('[]' AS jsonb)), '$[0 to 9]')`;
+    }
+
+    await this.ruleChainRepo.manager
+      .createQueryBuilder()
+      .update(target)
+      .set(stats)
+      .where('id = :id', { id })
+      .setParameters({
+        now: new Date(),
+        executionTime,
+        error: error ?? null,
+        entry: JSON.stringify([
+          { timestamp: new Date(), error: error || 'Unknown error', nodeId },
+        ]),
+      })
+      .execute();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ROUTING
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Resolve the target nodes for a route.
+   * - 'success' connections follow the success/true routes
+   * - 'failure' connections follow the failure/false routes
+   * - 'custom' connections follow the route equal to their label (switch nodes)
+   * - 'default' connections are always followed
+   */
+  private nextNodes(node: Node, route: string): string[] {
+    return (node.connections ?? [])
+      .filter((connection) => this.matchesRoute(connection, route))
+      .map((connection) => connection.targetNodeId);
+  }
+
+  private matchesRoute(connection: NodeConnection, route: string): boolean {
+    const normalized = route?.toLowerCase();
+
+    switch (connection.connectionType) {
+      case 'default':
+        return true;
+      case 'success':
+        return normalized === 'success' || normalized === 'true';
+      case 'failure':
+        return normalized === 'failure' || normalized === 'false';
+      case 'custom':
+        return connection.label?.toLowerCase() === normalized;
+      default:
+        return false;
+    }
+  }
+}
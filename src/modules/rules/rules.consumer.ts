@@ -0,0 +1,85 @@
+// src/modules/rules/rules.consumer.ts
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Device } from '@modules/index.entities';
+import { KafkaService } from '@/lib/kafka/kafka.service';
+import { NodeMessage } from '@modules/nodes/nodes-processor.interface';
+import { RuleEngineService } from './rule-engine.service';
+
+@Injectable()
+export class RulesConsumer implements OnModuleInit {
+  private readonly logger = new Logger(RulesConsumer.name);
+
+  constructor(
+    private readonly kafka: KafkaService,
+    @InjectRepository(Device)
+    private readonly deviceRepo: Repository<Device>,
+    private readonly ruleEngine: RuleEngineService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    this.logger.log('Starting rule engine consumer...');
+
+    try {
+      await this.kafka.createConsumer(
+        'rule-engine-group',
+        ['rules.input'],
+        this.handleMessage.bind(this),
+      );
+      this.logger.log('Rule engine consumer started');
+    } catch (error) {
+      this.logger.error(
+        `Failed to start rule engine consumer: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async handleMessage({ message }: any): Promise<void> {
+    try {
+      const payload = JSON.parse(message.value.toString());
+
+      if (!payload.entityId || !payload.eventType) {
+        this.logger.warn(
+          'rules.input message without entityId/eventType — skipping',
+        );
+        return;
+      }
+
+      const tenantId = payload.tenantId ?? (await this.resolveTenant(payload));
+      if (!tenantId) {
+        this.logger.warn(
+          `No tenant for ${payload.entityType} ${payload.entityId} — skipping`,
+        );
+        return;
+      }
+
+      const msg: NodeMessage = {
+        type: payload.eventType,
+        originator: {
+          id: payload.entityId,
+          type: payload.entityType ?? 'DEVICE',
+        },
+        data: payload.data ?? {},
+        metadata: payload.metadata ?? {},
+        timestamp: payload.timestamp ?? Date.now(),
+      };
+
+      await this.ruleEngine.processMessage(tenantId, msg);
+    } catch (error) {
+      this.logger.error(
+        `Error processing rule engine message: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async resolveTenant(payload: any): Promise<string | undefined> {
+    if (payload.entityType && payload.entityType !== 'DEVICE') return undefined;
+
+    const device = await this.deviceRepo.findOne({
+      where: { id: payload.entityId },
+      select: ['id', 'tenantId'],
+    });
+    return device?.tenantId;
+  }
+}
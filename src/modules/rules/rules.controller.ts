@@ -0,0 +1,185 @@
+// src/modules/rules/rules.controller.ts
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiResponse } from '@nestjs/swagger';
+import { RulesService } from './rules.service';
+import { CreateRuleChainDto, UpdateRuleChainDto } from './dto/rule-chain.dto';
+import { TestRuleChainMessageDto } from './dto/rule-execution.dto';
+import { CurrentUser } from '@common/decorators/current-user.decorator';
+import { PaginationDto } from '@common/dto/pagination.dto';
+import {
+  TenantOrCustomerAdmin,
+  SwaggerAuth,
+} from '@common/decorators/access-control.decorator';
+import { UserRole } from '@common/enums/index.enum';
+
+@ApiTags('Rule Chains')
+@Controller('rule-chains')
+export class RulesController {
+  constructor(private readonly rulesService: RulesService) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CREATE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Post()
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Create a new rule chain', 'Rule chain created')
+  create(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @Body() dto: CreateRuleChainDto,
+  ) {
+    return this.rulesService.create(userId, tenantId, customerId, dto);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // READ
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Get()
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Get all rule chains', 'List of rule chains')
+  findAll(
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Query() pagination: PaginationDto,
+  ) {
+    return this.rulesService.findAll(tenantId, customerId, role, pagination);
+  }
+
+  @Get(':id')
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Get rule chain by ID')
+  @ApiResponse({ status: 404, description: 'Rule chain not found' })
+  findOne(
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Param('id') id: string,
+  ) {
+    return this.rulesService.findOne(id, tenantId, customerId, role);
+  }
+
+  @Get(':id/nodes')
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Get the nodes of a rule chain')
+  getNodes(
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Param('id') id: string,
+  ) {
+    return this.rulesService.getNodes(id, tenantId, customerId, role);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // UPDATE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Patch(':id')
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Update rule chain', 'Rule chain updated')
+  @ApiResponse({ status: 404, description: 'Rule chain not found' })
+  update(
+    @CurrentUser('id') userId: string,
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Param('id') id: string,
+    @Body() dto: UpdateRuleChainDto,
+  ) {
+    return this.rulesService.update(
+      id,
+      userId,
+      tenantId,
+      customerId,
+      role,
+      dto,
+    );
+  }
+
+  @Post(':id/activate')
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Activate rule chain', 'Rule chain activated')
+  @ApiResponse({ status: 400, description: 'Rule chain graph is invalid' })
+  activate(
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Param('id') id: string,
+  ) {
+    return this.rulesService.activate(id, tenantId, customerId, role);
+  }
+
+  @Post(':id/deactivate')
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Deactivate rule chain', 'Rule chain deactivated')
+  deactivate(
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Param('id') id: string,
+  ) {
+    return this.rulesService.deactivate(id, tenantId, customerId, role);
+  }
+
+  @Post(':id/reset-statistics')
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Reset rule chain execution statistics')
+  resetStatistics(
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Param('id') id: string,
+  ) {
+    return this.rulesService.resetStatistics(id, tenantId, customerId, role);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // DELETE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Delete(':id')
+  @TenantOrCustomerAdmin()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @SwaggerAuth('Delete rule chain', 'Deleted successfully')
+  @ApiResponse({ status: 409, description: 'Rule chain is active' })
+  remove(
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Param('id') id: string,
+  ) {
+    return this.rulesService.remove(id, tenantId, customerId, role);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // DRY RUN
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Post(':id/test')
+  @TenantOrCustomerAdmin()
+  @SwaggerAuth('Run a test message through the rule chain (dry run)')
+  testMessage(
+    @CurrentUser('tenantId') tenantId: string,
+    @CurrentUser('customerId') customerId: string | null,
+    @CurrentUser('role') role: UserRole,
+    @Param('id') id: string,
+    @Body() dto: TestRuleChainMessageDto,
+  ) {
+    return this.rulesService.testMessage(id, tenantId, customerId, role, dto);
+  }
+}
@@ -0,0 +1,20 @@
+// src/modules/rules/rules.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { RuleChain, Node, Device } from '@modules/index.entities';
+import { NodesModule } from '@modules/nodes/nodes.module';
+import { RulesController } from './rules.controller';
+import { RulesService } from './rules.service';
+import { RuleEngineService } from './rule-engine.service';
+import { RulesConsumer } from './rules.consumer';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RuleChain, Node, Device]),
+    NodesModule, // exports NodeProcessorFactory
+  ],
+  controllers: [RulesController],
+  providers: [RulesService, RuleEngineService, RulesConsumer],
+  exports: [RulesService, RuleEngineService],
+})
+export class RulesModule {}
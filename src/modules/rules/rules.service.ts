@@ -0,0 +1,327 @@
+// src/modules/rules/rules.service.ts
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { RuleChain, Node } from '@modules/index.entities';
+import { RuleChainStatus, UserRole } from '@common/enums/index.enum';
+import { PaginationDto } from '@common/dto/pagination.dto';
+import { CreateRuleChainDto, UpdateRuleChainDto } from './dto/rule-chain.dto';
+import {
+  TestRuleChainMessageDto,
+  RuleChainExecutionResult,
+} from './dto/rule-execution.dto';
+import { RuleEngineService } from './rule-engine.service';
+
+@Injectable()
+export class RulesService {
+  private readonly logger = new Logger(RulesService.name);
+
+  constructor(
+    @InjectRepository(RuleChain)
+    private readonly ruleChainRepo: Repository<RuleChain>,
+    @InjectRepository(Node)
+    private readonly nodeRepo: Repository<Node>,
+    private readonly ruleEngine: RuleEngineService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CREATE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async create(
+    userId: string,
+    tenantId: string,
+    customerId: string | null,
+    dto: CreateRuleChainDto,
+  ): Promise<RuleChain> {
+    const existing = await this.ruleChainRepo.findOne({
+      where: { tenantId, name: dto.name },
+    });
+
+    if (existing) {
+      throw new ConflictException('Rule chain with this name already exists');
+    }
+
+    const ruleChain = this.ruleChainRepo.create({
+      ...dto,
+      tenantId,
+      userId,
+      createdBy: userId,
+      status: RuleChainStatus.DRAFT,
+      ...(customerId && { customerId }),
+    });
+
+    if (dto.isRoot) {
+      await this.clearRoot(tenantId);
+    }
+
+    const saved = await this.ruleChainRepo.save(ruleChain);
+    this.logger.log(`Rule chain created: ${saved.id} by user ${userId}`);
+    return saved;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // READ
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async findAll(
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+    pagination: PaginationDto,
+  ) {
+    const {
+      page = 1,
+      limit = 10,
+      search,
+      sortBy = 'createdAt',
+      sortOrder = 'DESC',
+    } = pagination;
+    const skip = (page - 1) * limit;
+
+    const qb = this.ruleChainRepo
+      .createQueryBuilder('ruleChain')
+      .where('ruleChain.tenantId = :tenantId', { tenantId });
+
+    // Customer isolation
+    if (role === UserRole.CUSTOMER && customerId) {
+      qb.andWhere('ruleChain.customerId = :customerId', { customerId });
+    }
+
+    if (search) {
+      qb.andWhere(
+        '(ruleChain.name ILIKE :search OR ruleChain.description ILIKE :search)',
+        { search: `%${search}%` },
+      );
+    }
+
+    qb.orderBy(`ruleChain.${sortBy}`, sortOrder as 'ASC' | 'DESC')
+      .skip(skip)
+      .take(limit);
+
+    const [data, total] = await qb.getManyAndCount();
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(
+    id: string,
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+  ): Promise<RuleChain> {
+    const where: any = { id, tenantId };
+
+    if (role === UserRole.CUSTOMER && customerId) {
+      where.customerId = customerId;
+    }
+
+    const ruleChain = await this.ruleChainRepo.findOne({ where });
+
+    if (!ruleChain) {
+      throw new NotFoundException('Rule chain not found');
+    }
+
+    return ruleChain;
+  }
+
+  async getNodes(
+    id: string,
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+  ): Promise<Node[]> {
+    const ruleChain = await this.findOne(id, tenantId, customerId, role);
+
+    return this.nodeRepo.find({
+      where: { tenantId, ruleChainId: ruleChain.id },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // UPDATE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async update(
+    id: string,
+    userId: string,
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+    dto: UpdateRuleChainDto,
+  ): Promise<RuleChain> {
+    const ruleChain = await this.findOne(id, tenantId, customerId, role);
+
+    if (dto.isRoot && !ruleChain.isRoot) {
+      await this.clearRoot(tenantId);
+    }
+
+    Object.assign(ruleChain, dto);
+    ruleChain.updatedBy = userId;
+
+    // An active chain must stay executable after edits
+    if (ruleChain.isActive()) {
+      await this.validateGraph(ruleChain);
+    }
+
+    const saved = await this.ruleChainRepo.save(ruleChain);
+    this.ruleEngine.invalidate(tenantId);
+    this.logger.log(`Rule chain updated: ${id} by user ${userId}`);
+    return saved;
+  }
+
+  async activate(
+    id: string,
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+  ): Promise<RuleChain> {
+    const ruleChain = await this.findOne(id, tenantId, customerId, role);
+
+    await this.validateGraph(ruleChain);
+    ruleChain.activate();
+
+    const saved = await this.ruleChainRepo.save(ruleChain);
+    this.ruleEngine.invalidate(tenantId);
+    this.logger.log(`Rule chain activated: ${id}`);
+    return saved;
+  }
+
+  async deactivate(
+    id: string,
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+  ): Promise<RuleChain> {
+    const ruleChain = await this.findOne(id, tenantId, customerId, role);
+
+    ruleChain.deactivate();
+
+    const saved = await this.ruleChainRepo.save(ruleChain);
+    this.ruleEngine.invalidate(tenantId);
+    this.logger.log(`Rule chain deactivated: ${id}`);
+    return saved;
+  }
+
+  async resetStatistics(
+    id: string,
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+  ): Promise<RuleChain> {
+    const ruleChain = await this.findOne(id, tenantId, customerId, role);
+    ruleChain.resetStats();
+    return this.ruleChainRepo.save(ruleChain);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // DELETE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async remove(
+    id: string,
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+  ): Promise<void> {
+    const ruleChain = await this.findOne(id, tenantId, customerId, role);
+
+    if (ruleChain.isActive()) {
+      throw new ConflictException(
+        'Deactivate the rule chain before deleting it',
+      );
+    }
+
+    await this.ruleChainRepo.softRemove(ruleChain);
+    this.ruleEngine.invalidate(tenantId);
+    this.logger.log(`Rule chain deleted: ${id}`);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // TEST MESSAGE (Dry run — no statistics, no actions, no rules.output)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async testMessage(
+    id: string,
+    tenantId: string,
+    customerId: string | null,
+    role: UserRole,
+    dto: TestRuleChainMessageDto,
+  ): Promise<RuleChainExecutionResult & { accepted: boolean }> {
+    const ruleChain = await this.findOne(id, tenantId, customerId, role);
+
+    const msg = {
+      type: dto.messageType,
+      originator: dto.originator ?? { id: 'test-originator', type: 'DEVICE' },
+      data: dto.data,
+      metadata: dto.metadata ?? {},
+      timestamp: Date.now(),
+    };
+
+    const result = await this.ruleEngine.execute(ruleChain, msg, {
+      dryRun: true,
+    });
+
+    return {
+      ...result,
+      accepted: this.ruleEngine.acceptsMessage(ruleChain, msg),
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async clearRoot(tenantId: string): Promise<void> {
+    await this.ruleChainRepo.update(
+      { tenantId, isRoot: true },
+      { isRoot: false },
+    );
+  }
+
+  /**
+   * Ensure the root node exists in the chain and that every connection
+   * points to a node of the same chain
+   */
+  private async validateGraph(ruleChain: RuleChain): Promise<void> {
+    if (!ruleChain.rootNodeId) {
+      throw new BadRequestException('Rule chain has no root node');
+    }
+
+    const nodes = await this.nodeRepo.find({
+      where: { tenantId: ruleChain.tenantId, ruleChainId: ruleChain.id },
+    });
+    const nodeIds = new Set(nodes.map((node) => node.id));
+
+    if (!nodeIds.has(ruleChain.rootNodeId)) {
+      throw new BadRequestException(
+        'Root node does not belong to this rule chain',
+      );
+    }
+
+    const dangling = nodes.flatMap((node) =>
+      (node.connections ?? [])
+        .filter((connection) => !nodeIds.has(connection.targetNodeId))
+        .map((connection) => `${node.name} → ${connection.targetNodeId}`),
+    );
+
+    if (dangling.length > 0) {
+      throw new BadRequestException(
+        `Connections point outside the rule chain: ${dangling.join(', ')}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,135 @@
+// src/modules/schedules/listeners/backup.listener.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DataSource, EntityTarget, ObjectLiteral } from 'typeorm';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  Alarm,
+  Asset,
+  AssetProfile,
+  Automation,
+  Dashboard,
+  Device,
+  DeviceProfile,
+  FloorPlan,
+  RuleChain,
+  Schedule,
+  Script,
+} from '@modules/index.entities';
+import { ScheduleJobPayload } from '../schedule-executor.service';
+
+interface BackupJob extends ScheduleJobPayload {
+  retention?: number; // Days to keep older backups
+  compression?: boolean;
+}
+
+// Tenant configuration captured by a backup. Credentials, telemetry and logs
+// are deliberately left out.
+const BACKUP_ENTITIES: Record<string, EntityTarget<ObjectLiteral>> = {
+  deviceProfiles: DeviceProfile,
+  assetProfiles: AssetProfile,
+  devices: Device,
+  assets: Asset,
+  dashboards: Dashboard,
+  floorPlans: FloorPlan,
+  alarms: Alarm,
+  automations: Automation,
+  ruleChains: RuleChain,
+  scripts: Script,
+  schedules: Schedule,
+};
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * Snapshots a tenant's configuration entities into one JSON document under
+ * <UPLOAD_PATH>/backups/<tenantId>, then prunes backups past the retention.
+ */
+@Injectable()
+export class ScheduleBackupListener {
+  private readonly logger = new Logger(ScheduleBackupListener.name);
+  private readonly backupRoot = path.join(
+    process.env.UPLOAD_PATH || './uploads',
+    'backups',
+  );
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  @OnEvent('schedule.backup.requested')
+  async handle(job: BackupJob): Promise<Record<string, any>> {
+    const createdAt = new Date();
+    const entities: Record<string, ObjectLiteral[]> = {};
+    const counts: Record<string, number> = {};
+
+    for (const [name, target] of Object.entries(BACKUP_ENTITIES)) {
+      entities[name] = await this.dataSource
+        .getRepository(target)
+        .find({ where: { tenantId: job.tenantId } });
+      counts[name] = entities[name].length;
+    }
+
+    const document = JSON.stringify({
+      version: 1,
+      tenantId: job.tenantId,
+      scheduleId: job.scheduleId,
+      createdAt: createdAt.toISOString(),
+      entities,
+    });
+
+    const compressed = job.compression !== false;
+    const content = compressed
+      ? await gzipAsync(document)
+      : Buffer.from(document);
+
+    const directory = path.join(this.backupRoot, job.tenantId);
+    const fileName = `backup-${createdAt.toISOString().replace(/[:.]/g, '-')}.json${compressed ? '.gz' : ''}`;
+    const filePath = path.join(directory, fileName);
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(filePath, content);
+
+    const pruned = job.retention
+      ? await this.prune(directory, job.retention, fileName)
+      : [];
+
+    this.logger.log(
+      `Schedule ${job.scheduleId} backed up tenant ${job.tenantId} to ${filePath} (${content.length} bytes)`,
+    );
+
+    return {
+      file: filePath,
+      sizeBytes: content.length,
+      compressed,
+      counts,
+      pruned,
+    };
+  }
+
+  /**
+   * Delete backups older than the retention, never the one just written.
+   */
+  private async prune(
+    directory: string,
+    retentionDays: number,
+    keep: string,
+  ): Promise<string[]> {
+    const cutoff = Date.now() - retentionDays * 24 * 3600 * 1000;
+    const pruned: string[] = [];
+
+    for (const name of await fs.readdir(directory)) {
+      if (name === keep || !name.startsWith('backup-')) continue;
+
+      const filePath = path.join(directory, name);
+      const stat = await fs.stat(filePath);
+      if (stat.mtimeMs < cutoff) {
+        await fs.unlink(filePath);
+        pruned.push(name);
+      }
+    }
+
+    return pruned;
+  }
+}
@@ -0,0 +1,140 @@
+// src/modules/schedules/listeners/cleanup.listener.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DataSource } from 'typeorm';
+import { SubscriptionsService } from '@modules/subscriptions/subscriptions.service';
+import { TelemetryRetentionService } from '@modules/telemetry/telemetry-retention.service';
+import { ScheduleJobPayload } from '../schedule-executor.service';
+
+interface CleanupJob extends ScheduleJobPayload {
+  olderThanDays?: number;
+  retention?: number; // Alias of olderThanDays used by older schedules
+  targets?: CleanupTarget[];
+  batchSize?: number;
+}
+
+type CleanupTarget = 'telemetry' | 'audit_logs' | 'api_logs';
+
+// Table and timestamp column of every cleanup target
+const CLEANUP_TARGETS: Record<
+  CleanupTarget,
+  { table: string; column: string }
+> = {
+  telemetry: { table: 'telemetry', column: 'timestamp' },
+  audit_logs: { table: 'audit_logs', column: 'timestamp' },
+  api_logs: { table: 'api_logs', column: 'timestamp' },
+};
+
+/**
+ * Applies retention to the tenant's time-series tables. Rows are deleted in
+ * batches so a large backlog never holds one long-running lock.
+ *
+ * Telemetry goes through TelemetryRetentionService, so profile and key
+ * policies still apply; an explicit retention only replaces the tenant's
+ * raw default for the run.
+ */
+@Injectable()
+export class ScheduleCleanupListener {
+  private readonly logger = new Logger(ScheduleCleanupListener.name);
+
+  private readonly DEFAULT_RETENTION_DAYS = 90;
+  private readonly DEFAULT_BATCH_SIZE = 1000;
+  private readonly MAX_BATCHES = 1000; // Per target per run
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly telemetryRetention: TelemetryRetentionService,
+  ) {}
+
+  @OnEvent('schedule.cleanup.requested')
+  async handle(job: CleanupJob): Promise<Record<string, any>> {
+    const retentionDays = await this.resolveRetention(job);
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 3600 * 1000);
+    const batchSize = Math.max(1, job.batchSize ?? this.DEFAULT_BATCH_SIZE);
+    const targets = job.targets?.length
+      ? job.targets
+      : (Object.keys(CLEANUP_TARGETS) as CleanupTarget[]);
+
+    const deleted: Record<string, number> = {};
+
+    for (const target of targets) {
+      const spec = CLEANUP_TARGETS[target];
+      if (!spec) {
+        throw new Error(`Unknown cleanup target "${target}"`);
+      }
+      if (target === 'telemetry') {
+        const configured = job.olderThanDays ?? job.retention;
+        const result = await this.telemetryRetention.applyTenant(
+          job.tenantId,
+          configured !== undefined ? { rawDays: retentionDays } : undefined,
+        );
+        deleted[target] = result.rawDeleted;
+        continue;
+      }
+      deleted[target] = await this.purge(
+        spec.table,
+        spec.column,
+        job.tenantId,
+        cutoff,
+        batchSize,
+      );
+    }
+
+    this.logger.log(
+      `Schedule ${job.scheduleId} cleaned tenant ${job.tenantId} before ${cutoff.toISOString()}: ${JSON.stringify(deleted)}`,
+    );
+
+    return { retentionDays, cutoff: cutoff.toISOString(), deleted };
+  }
+
+  /**
+   * Explicit retention on the schedule wins, then the plan's data retention.
+   */
+  private async resolveRetention(job: CleanupJob): Promise<number> {
+    const configured = job.olderThanDays ?? job.retention;
+    if (configured !== undefined) {
+      if (!(configured > 0)) {
+        throw new Error('Cleanup retention must be a positive number of days');
+      }
+      return configured;
+    }
+
+    const subscription = await this.subscriptionsService
+      .findByTenantId(job.tenantId)
+      .catch(() => null);
+    const planRetention = subscription?.limits?.dataRetentionDays;
+
+    return planRetention && planRetention > 0
+      ? planRetention
+      : this.DEFAULT_RETENTION_DAYS;
+  }
+
+  private async purge(
+    table: string,
+    column: string,
+    tenantId: string,
+    cutoff: Date,
+    batchSize: number,
+  ): Promise<number> {
+    let total = 0;
+
+    for (let batch = 0; batch < this.MAX_BATCHES; batch++) {
+      const result: [unknown[], number] = await this.dataSource.query(
+        `DELETE FROM "${table}"
+         WHERE id IN (
+           SELECT id FROM "${table}"
+           WHERE "tenantId" = $1 AND "${column}" < $2
+           LIMIT $3
+         )`,
+        [tenantId, cutoff, batchSize],
+      );
+
+      const affected = result[1] ?? 0;
+      total += affected;
+      if (affected < batchSize) break;
+    }
+
+    return total;
+  }
+}
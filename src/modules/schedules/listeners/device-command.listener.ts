@@ -0,0 +1,50 @@
+// src/modules/schedules/listeners/device-command.listener.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DeviceCommandsService } from '@modules/device-commands/device-commands.service';
+import { ScheduleJobPayload } from '../schedule-executor.service';
+
+interface DeviceCommandJob extends ScheduleJobPayload {
+  deviceId: string;
+  command: string;
+  params: Record<string, any>;
+  priority?: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
+  timeout?: number;
+}
+
+/**
+ * Sends the scheduled command through the regular command pipeline, so it is
+ * tracked, retried and acknowledged like any command sent from the UI.
+ */
+@Injectable()
+export class ScheduleDeviceCommandListener {
+  private readonly logger = new Logger(ScheduleDeviceCommandListener.name);
+
+  constructor(private readonly deviceCommandsService: DeviceCommandsService) {}
+
+  @OnEvent('schedule.device_command.requested')
+  async handle(job: DeviceCommandJob): Promise<Record<string, any>> {
+    const command = await this.deviceCommandsService.createCommand(
+      {
+        deviceId: job.deviceId,
+        commandType: job.command,
+        params: job.params,
+        priority: job.priority,
+        timeout: job.timeout,
+      },
+      job.userId,
+      job.tenantId,
+    );
+
+    this.logger.log(
+      `Schedule ${job.scheduleId} sent ${job.command} to device ${job.deviceId} (command ${command.id})`,
+    );
+
+    return {
+      commandId: command.id,
+      deviceId: command.deviceId,
+      command: command.commandType,
+      status: command.status,
+    };
+  }
+}
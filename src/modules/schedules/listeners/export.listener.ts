@@ -0,0 +1,205 @@
+// src/modules/schedules/listeners/export.listener.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DataSource } from 'typeorm';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Alarm, Asset, Device, Telemetry } from '@modules/index.entities';
+import { toCsv } from '@common/utils/helpers';
+import { ScheduleJobPayload } from '../schedule-executor.service';
+
+type ExportDataset = 'devices' | 'assets' | 'alarms' | 'telemetry';
+type ExportFormat = 'csv' | 'json';
+
+interface ExportJob extends ScheduleJobPayload {
+  format: string;
+  datasets?: ExportDataset[];
+  // Older schedules pick datasets with flags instead
+  includeDevices?: boolean;
+  includeAlarms?: boolean;
+  includeTelemetry?: boolean;
+  filters?: {
+    deviceIds?: string[];
+    from?: string;
+    to?: string;
+  };
+  periodHours?: number; // Telemetry/alarm window when filters.from is unset
+}
+
+/**
+ * Writes the requested datasets for a tenant to local storage, one file per
+ * dataset under <UPLOAD_PATH>/exports/<tenantId>/<run timestamp>.
+ */
+@Injectable()
+export class ScheduleExportListener {
+  private readonly logger = new Logger(ScheduleExportListener.name);
+  private readonly exportRoot = path.join(
+    process.env.UPLOAD_PATH || './uploads',
+    'exports',
+  );
+  private readonly maxRows = parseInt(
+    process.env.SCHEDULE_EXPORT_MAX_ROWS || '100000',
+    10,
+  );
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  @OnEvent('schedule.export.requested')
+  async handle(job: ExportJob): Promise<Record<string, any>> {
+    const format = job.format?.toLowerCase() as ExportFormat;
+    if (format !== 'csv' && format !== 'json') {
+      throw new Error(`Unsupported export format "${job.format}" (csv, json)`);
+    }
+
+    const datasets = this.resolveDatasets(job);
+    const to = job.filters?.to ? new Date(job.filters.to) : new Date();
+    const from = job.filters?.from
+      ? new Date(job.filters.from)
+      : new Date(to.getTime() - (job.periodHours ?? 24) * 3600 * 1000);
+
+    const directory = path.join(
+      this.exportRoot,
+      job.tenantId,
+      new Date().toISOString().replace(/[:.]/g, '-'),
+    );
+    await fs.mkdir(directory, { recursive: true });
+
+    const files: Record<string, any>[] = [];
+
+    for (const dataset of datasets) {
+      const rows = await this.load(dataset, job, from, to);
+      const content =
+        format === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2);
+      const filePath = path.join(directory, `${dataset}.${format}`);
+
+      await fs.writeFile(filePath, content);
+      files.push({
+        dataset,
+        file: filePath,
+        rows: rows.length,
+        sizeBytes: Buffer.byteLength(content),
+        truncated: rows.length >= this.maxRows,
+      });
+    }
+
+    this.logger.log(
+      `Schedule ${job.scheduleId} exported ${datasets.join(', ')} for tenant ${job.tenantId} to ${directory}`,
+    );
+
+    return {
+      format,
+      directory,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      files,
+    };
+  }
+
+  private resolveDatasets(job: ExportJob): ExportDataset[] {
+    if (job.datasets?.length) return job.datasets;
+
+    const datasets: ExportDataset[] = [];
+    if (job.includeDevices) datasets.push('devices');
+    if (job.includeAlarms) datasets.push('alarms');
+    if (job.includeTelemetry) datasets.push('telemetry');
+
+    return datasets.length ? datasets : ['devices', 'alarms'];
+  }
+
+  private async load(
+    dataset: ExportDataset,
+    job: ExportJob,
+    from: Date,
+    to: Date,
+  ): Promise<Record<string, any>[]> {
+    const deviceIds = job.filters?.deviceIds;
+
+    switch (dataset) {
+      case 'devices': {
+        const qb = this.dataSource
+          .getRepository(Device)
+          .createQueryBuilder('device')
+          .select([
+            'device.id',
+            'device.name',
+            'device.deviceKey',
+            'device.type',
+            'device.status',
+            'device.protocol',
+            'device.manufacturer',
+            'device.model',
+            'device.customerId',
+            'device.assetId',
+            'device.lastSeenAt',
+            'device.createdAt',
+          ])
+          .where('device.tenantId = :tenantId', { tenantId: job.tenantId })
+          .orderBy('device.createdAt', 'ASC')
+          .take(this.maxRows);
+        if (deviceIds?.length) {
+          qb.andWhere('device.id IN (:...deviceIds)', { deviceIds });
+        }
+        return qb.getMany();
+      }
+
+      case 'assets':
+        return this.dataSource.getRepository(Asset).find({
+          where: { tenantId: job.tenantId },
+          order: { createdAt: 'ASC' },
+          take: this.maxRows,
+        });
+
+      case 'alarms': {
+        const qb = this.dataSource
+          .getRepository(Alarm)
+          .createQueryBuilder('alarm')
+          .select([
+            'alarm.id',
+            'alarm.name',
+            'alarm.severity',
+            'alarm.status',
+            'alarm.deviceId',
+            'alarm.currentValue',
+            'alarm.message',
+            'alarm.triggerCount',
+            'alarm.triggeredAt',
+            'alarm.lastTriggeredAt',
+            'alarm.acknowledgedAt',
+            'alarm.clearedAt',
+          ])
+          .where('alarm.tenantId = :tenantId', { tenantId: job.tenantId })
+          .andWhere('alarm.lastTriggeredAt BETWEEN :from AND :to', { from, to })
+          .orderBy('alarm.lastTriggeredAt', 'DESC')
+          .take(this.maxRows);
+        if (deviceIds?.length) {
+          qb.andWhere('alarm.deviceId IN (:...deviceIds)', { deviceIds });
+        }
+        return qb.getMany();
+      }
+
+      case 'telemetry': {
+        const qb = this.dataSource
+          .getRepository(Telemetry)
+          .createQueryBuilder('telemetry')
+          .select([
+            'telemetry.id',
+            'telemetry.deviceId',
+            'telemetry.deviceKey',
+            'telemetry.timestamp',
+            'telemetry.data',
+          ])
+          .where('telemetry.tenantId = :tenantId', { tenantId: job.tenantId })
+          .andWhere('telemetry.timestamp BETWEEN :from AND :to', { from, to })
+          .orderBy('telemetry.timestamp', 'ASC')
+          .take(this.maxRows);
+        if (deviceIds?.length) {
+          qb.andWhere('telemetry.deviceId IN (:...deviceIds)', { deviceIds });
+        }
+        return qb.getMany();
+      }
+
+      default:
+        throw new Error(`Unknown export dataset "${dataset as string}"`);
+    }
+  }
+}
@@ -0,0 +1,331 @@
+// src/modules/schedules/listeners/report.listener.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import PDFDocument from 'pdfkit';
+import { Alarm, Telemetry } from '@modules/index.entities';
+import { MailService } from '@modules/mail/mail.service';
+import { EmailAttachment } from '@modules/mail/interfaces/mail.interface';
+import { toCsv } from '@common/utils/helpers';
+import { AlarmSeverity } from '@common/enums/index.enum';
+import { ScheduleJobPayload } from '../schedule-executor.service';
+
+interface ReportJob extends ScheduleJobPayload {
+  reportType: string; // 'telemetry', 'alarms' or anything else for both
+  recipients: string[];
+  format?: string;
+  periodHours?: number;
+}
+
+interface ReportSection {
+  title: string;
+  columns: string[];
+  rows: Record<string, any>[];
+}
+
+interface ReportDocument {
+  title: string;
+  from: Date;
+  to: Date;
+  summary: Record<string, number>;
+  sections: ReportSection[];
+}
+
+/**
+ * Renders a telemetry / alarm summary for the schedule window and emails it
+ * to the recipients as a PDF or CSV attachment.
+ */
+@Injectable()
+export class ScheduleReportListener {
+  private readonly logger = new Logger(ScheduleReportListener.name);
+
+  private readonly MAX_ALARM_ROWS = 200;
+
+  constructor(
+    @InjectRepository(Telemetry)
+    private readonly telemetryRepository: Repository<Telemetry>,
+    @InjectRepository(Alarm)
+    private readonly alarmRepository: Repository<Alarm>,
+    private readonly mailService: MailService,
+  ) {}
+
+  @OnEvent('schedule.report.requested')
+  async handle(job: ReportJob): Promise<Record<string, any>> {
+    const format = (job.format ?? 'pdf').toLowerCase();
+    if (format !== 'pdf' && format !== 'csv') {
+      throw new Error(`Unsupported report format "${job.format}" (pdf, csv)`);
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - (job.periodHours ?? 24) * 3600 * 1000);
+    const report = await this.build(job, from, to);
+
+    const attachments: EmailAttachment[] =
+      format === 'pdf'
+        ? [
+            {
+              filename: `${job.reportType}.pdf`,
+              content: await this.renderPdf(report),
+              contentType: 'application/pdf',
+            },
+          ]
+        : report.sections.map((section) => ({
+            filename: `${job.reportType}-${section.title.toLowerCase().replace(/\s+/g, '-')}.csv`,
+            content: toCsv(section.rows, section.columns),
+            contentType: 'text/csv',
+          }));
+
+    const summaryHtml = Object.entries(report.summary)
+      .map(([label, value]) => `<li>${label}: <strong>${value}</strong></li>`)
+      .join('');
+
+    const delivered: string[] = [];
+    for (const recipient of job.recipients ?? []) {
+      const sent = await this.mailService.sendEmail({
+        to: recipient,
+        subject: report.title,
+        html:
+          `<p>${report.title} for ${from.toISOString()} – ${to.toISOString()}.</p>` +
+          `<ul>${summaryHtml}</ul><p>The full report is attached.</p>`,
+        attachments,
+      });
+      if (sent) delivered.push(recipient);
+    }
+
+    if (delivered.length === 0) {
+      throw new Error(
+        `Report could not be emailed to any recipient (${(job.recipients ?? []).join(', ')})`,
+      );
+    }
+
+    return {
+      reportType: job.reportType,
+      format,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      summary: report.summary,
+      attachments: attachments.map((a) => ({
+        filename: a.filename,
+        sizeBytes: Buffer.byteLength(a.content),
+      })),
+      delivered,
+      failed: (job.recipients ?? []).filter((r) => !delivered.includes(r)),
+    };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // DATA
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async build(
+    job: ReportJob,
+    from: Date,
+    to: Date,
+  ): Promise<ReportDocument> {
+    const type = job.reportType.toLowerCase();
+    const includeTelemetry = !type.includes('alarm');
+    const includeAlarms = !type.includes('telemetry');
+
+    const report: ReportDocument = {
+      title: `${this.humanize(job.reportType)} report`,
+      from,
+      to,
+      summary: {},
+      sections: [],
+    };
+
+    if (includeTelemetry) {
+      const rows = await this.telemetrySummary(job.tenantId, from, to);
+      report.summary['Reporting devices'] = rows.length;
+      report.summary['Telemetry samples'] = rows.reduce(
+        (total, row) => total + Number(row.samples),
+        0,
+      );
+      report.sections.push({
+        title: 'Telemetry',
+        columns: [
+          'device',
+          'samples',
+          'firstSeen',
+          'lastSeen',
+          'avgTemperature',
+          'avgHumidity',
+          'minBatteryLevel',
+        ],
+        rows,
+      });
+    }
+
+    if (includeAlarms) {
+      const rows = await this.alarmSummary(job.tenantId, from, to);
+      report.summary['Alarms triggered'] = rows.length;
+      report.summary['Critical alarms'] = rows.filter(
+        (row) => row.severity === AlarmSeverity.CRITICAL,
+      ).length;
+      report.sections.push({
+        title: 'Alarms',
+        columns: [
+          'name',
+          'device',
+          'severity',
+          'status',
+          'triggerCount',
+          'lastTriggeredAt',
+        ],
+        rows,
+      });
+    }
+
+    return report;
+  }
+
+  private async telemetrySummary(
+    tenantId: string,
+    from: Date,
+    to: Date,
+  ): Promise<Record<string, any>[]> {
+    const rows: Record<string, any>[] = await this.telemetryRepository
+      .createQueryBuilder('telemetry')
+      .leftJoin('telemetry.device', 'device')
+      .select('COALESCE(device.name, telemetry.deviceKey)', 'device')
+      .addSelect('COUNT(*)', 'samples')
+      .addSelect('MIN(telemetry.timestamp)', 'firstSeen')
+      .addSelect('MAX(telemetry.timestamp)', 'lastSeen')
+      .addSelect('ROUND(AVG(telemetry.temperature), 2)', 'avgTemperature')
+      .addSelect('ROUND(AVG(telemetry.humidity), 2)', 'avgHumidity')
+      .addSelect('MIN(telemetry.batteryLevel)', 'minBatteryLevel')
+      .where('telemetry.tenantId = :tenantId', { tenantId })
+      .andWhere('telemetry.timestamp BETWEEN :from AND :to', { from, to })
+      .groupBy('telemetry.deviceId')
+      .addGroupBy('device.name')
+      .addGroupBy('telemetry.deviceKey')
+      .orderBy('samples', 'DESC')
+      .getRawMany();
+
+    return rows.map((row) => ({ ...row, samples: Number(row.samples) }));
+  }
+
+  private async alarmSummary(
+    tenantId: string,
+    from: Date,
+    to: Date,
+  ): Promise<Record<string, any>[]> {
+    const alarms = await this.alarmRepository
+      .createQueryBuilder('alarm')
+      .leftJoinAndSelect('alarm.device', 'device')
+      .where('alarm.tenantId = :tenantId', { tenantId })
+      .andWhere('alarm.lastTriggeredAt BETWEEN :from AND :to', { from, to })
+      .orderBy('alarm.lastTriggeredAt', 'DESC')
+      .take(this.MAX_ALARM_ROWS)
+      .getMany();
+
+    return alarms.map((alarm) => ({
+      name: alarm.name,
+      device: alarm.device?.name ?? '',
+      severity: alarm.severity,
+      status: alarm.status,
+      triggerCount: alarm.triggerCount,
+      lastTriggeredAt: alarm.lastTriggeredAt,
+    }));
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PDF
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private renderPdf(report: ReportDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        margin: 50,
+        size: 'A4',
+        layout: 'landscape',
+      });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      // ── Header ────────────────────────────────────────────────────────────
+      doc
+        .fontSize(20)
+        .font('Helvetica-Bold')
+        .fillColor('#1a1a2e')
+        .text(report.title);
+      doc
+        .fontSize(10)
+        .font('Helvetica')
+        .fillColor('#6b7280')
+        .text(`${report.from.toISOString()} – ${report.to.toISOString()}`)
+        .moveDown();
+
+      for (const [label, value] of Object.entries(report.summary)) {
+        doc.fillColor('#1a1a2e').text(`${label}: ${value}`);
+      }
+
+      // ── Sections ──────────────────────────────────────────────────────────
+      for (const section of report.sections) {
+        doc
+          .moveDown()
+          .fontSize(14)
+          .font('Helvetica-Bold')
+          .fillColor('#1a1a2e')
+          .text(section.title)
+          .moveDown(0.5);
+
+        if (section.rows.length === 0) {
+          doc
+            .fontSize(10)
+            .font('Helvetica')
+            .fillColor('#6b7280')
+            .text('No data for this period.');
+          continue;
+        }
+
+        const width = (doc.page.width - 100) / section.columns.length;
+        const row = (cells: string[], bold = false) => {
+          if (doc.y > doc.page.height - 70) doc.addPage();
+          const y = doc.y;
+          doc
+            .fontSize(8)
+            .font(bold ? 'Helvetica-Bold' : 'Helvetica')
+            .fillColor(bold ? '#374151' : '#1a1a2e');
+          cells.forEach((cell, index) =>
+            doc.text(cell, 50 + index * width, y, {
+              width: width - 6,
+              height: 12,
+              ellipsis: true,
+            }),
+          );
+          doc.x = 50;
+          doc.y = y + 14;
+        };
+
+        row(
+          section.columns.map((column) => this.humanize(column)),
+          true,
+        );
+        for (const entry of section.rows) {
+          row(section.columns.map((column) => this.format(entry[column])));
+        }
+      }
+
+      doc.end();
+    });
+  }
+
+  private format(value: any): string {
+    if (value === null || value === undefined) return '—';
+    if (value instanceof Date) return value.toISOString();
+    return String(value);
+  }
+
+  private humanize(value: string): string {
+    const words = value
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/[_-]+/g, ' ')
+      .toLowerCase();
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+}
@@ -17,6 +17,18 @@ export interface ExecutionResult {
   error?: string;
 }
 
+/**
+ * Payload of every schedule.<type>.requested event — the schedule
+ * configuration plus who owns it. Listeners return their result, which is
+ * stored on the execution log.
+ */
+export interface ScheduleJobPayload {
+  scheduleId: string;
+  tenantId: string;
+  userId: string;
+  [key: string]: any;
+}
+
 @Injectable()
 export class ScheduleExecutorService {
   private readonly logger = new Logger(ScheduleExecutorService.name);
@@ -102,79 +114,31 @@ export class ScheduleExecutorService {
   // ──────────────────────────────────────────────────────────────────────────
 
   private async handleReport(schedule: Schedule): Promise<ExecutionResult> {
-    const payload = {
-      scheduleId: schedule.id,
-      tenantId: schedule.tenantId,
-      userId: schedule.userId,
-      ...schedule.configuration,
-    };
-
     this.logger.log(
       `[REPORT] Emitting schedule.report.requested for schedule ${schedule.id}`,
     );
-    await this.eventEmitter.emitAsync('schedule.report.requested', payload);
-
-    return {
-      success: true,
-      output: { event: 'schedule.report.requested', payload },
-    };
+    return this.request('schedule.report.requested', this.payload(schedule));
   }
 
   private async handleBackup(schedule: Schedule): Promise<ExecutionResult> {
-    const payload = {
-      scheduleId: schedule.id,
-      tenantId: schedule.tenantId,
-      userId: schedule.userId,
-      ...schedule.configuration,
-    };
-
     this.logger.log(
       `[BACKUP] Emitting schedule.backup.requested for schedule ${schedule.id}`,
     );
-    await this.eventEmitter.emitAsync('schedule.backup.requested', payload);
-
-    return {
-      success: true,
-      output: { event: 'schedule.backup.requested', payload },
-    };
+    return this.request('schedule.backup.requested', this.payload(schedule));
   }
 
   private async handleCleanup(schedule: Schedule): Promise<ExecutionResult> {
-    const payload = {
-      scheduleId: schedule.id,
-      tenantId: schedule.tenantId,
-      userId: schedule.userId,
-      ...schedule.configuration,
-    };
-
     this.logger.log(
       `[CLEANUP] Emitting schedule.cleanup.requested for schedule ${schedule.id}`,
     );
-    await this.eventEmitter.emitAsync('schedule.cleanup.requested', payload);
-
-    return {
-      success: true,
-      output: { event: 'schedule.cleanup.requested', payload },
-    };
+    return this.request('schedule.cleanup.requested', this.payload(schedule));
   }
 
   private async handleExport(schedule: Schedule): Promise<ExecutionResult> {
-    const payload = {
-      scheduleId: schedule.id,
-      tenantId: schedule.tenantId,
-      userId: schedule.userId,
-      ...schedule.configuration,
-    };
-
     this.logger.log(
       `[EXPORT] Emitting schedule.export.requested for schedule ${schedule.id}`,
     );
-    await this.eventEmitter.emitAsync('schedule.export.requested', payload);
-
-    return {
-      success: true,
-      output: { event: 'schedule.export.requested', payload },
-    };
+    return this.request('schedule.export.requested', this.payload(schedule));
   }
 
   private async handleDeviceCommand(
@@ -193,10 +157,8 @@ export class ScheduleExecutorService {
       );
     }
 
-    const payload = {
-      scheduleId: schedule.id,
-      tenantId: schedule.tenantId,
-      userId: schedule.userId,
+    const payload: ScheduleJobPayload = {
+      ...this.payload(schedule),
       deviceId: config.deviceId,
       command: config.command,
       params: config.params ?? {},
@@ -206,14 +168,40 @@ export class ScheduleExecutorService {
       `[DEVICE_COMMAND] Emitting schedule.device_command.requested ` +
         `(device=${config.deviceId}, cmd=${config.command}) for schedule ${schedule.id}`,
     );
-    await this.eventEmitter.emitAsync(
-      'schedule.device_command.requested',
-      payload,
-    );
+    return this.request('schedule.device_command.requested', payload);
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // HELPERS
+  // ──────────────────────────────────────────────────────────────────────────
 
+  private payload(schedule: Schedule): ScheduleJobPayload {
     return {
-      success: true,
-      output: { event: 'schedule.device_command.requested', payload },
+      ...schedule.configuration,
+      scheduleId: schedule.id,
+      tenantId: schedule.tenantId,
+      userId: schedule.userId,
     };
   }
+
+  /**
+   * Emit the job event and wait for its listener. The listener's return
+   * value becomes the execution output; a throwing listener fails the run.
+   * An event nobody handles is a failure, not a silent success.
+   */
+  private async request(
+    event: string,
+    payload: ScheduleJobPayload,
+  ): Promise<ExecutionResult> {
+    const [output] = (await this.eventEmitter.emitAsync(event, payload)) as (
+      | Record<string, any>
+      | undefined
+    )[];
+
+    if (output === undefined) {
+      throw new Error(`No handler registered for ${event}`);
+    }
+
+    return { success: true, output: { event, ...output } };
+  }
 }
\ No newline at end of file
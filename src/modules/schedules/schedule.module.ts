@@ -9,12 +9,32 @@ import { Schedule } from './entities/schedule.entity';
 import { ScheduleExecutionLog } from './entities/schedule-execution-log.entity';
 import { ScheduleExecutorService } from './schedule-executor.service';
 import { ScheduleCronService } from './schedule-cron.service';
+import { ScheduleReportListener } from './listeners/report.listener';
+import { ScheduleBackupListener } from './listeners/backup.listener';
+import { ScheduleCleanupListener } from './listeners/cleanup.listener';
+import { ScheduleExportListener } from './listeners/export.listener';
+import { ScheduleDeviceCommandListener } from './listeners/device-command.listener';
+import { Alarm, Telemetry } from '@modules/index.entities';
+import { MailModule } from '../mail/mail.module';
+import { DeviceCommandsModule } from '../device-commands/device-commands.module';
+import { TelemetryModule } from '../telemetry/telemetry.module';
 
 @Module({
   imports: [
     // Register both entities with TypeORM
     TypeOrmModule.forFeature([Schedule, ScheduleExecutionLog]),
 
+    // Read by the REPORT listener
+    TypeOrmModule.forFeature([Telemetry, Alarm]),
+
+    // Job listeners: REPORT mails via MailService, DEVICE_COMMAND goes
+    // through the regular command pipeline
+    MailModule,
+    DeviceCommandsModule,
+
+    // CLEANUP applies the telemetry retention policies
+    TelemetryModule,
+
     // NestJS cron scheduler (needed by ScheduleCronService)
     ScheduleModule.forRoot(),
 
@@ -36,6 +56,11 @@ import { ScheduleCronService } from './schedule-cron.service';
     SchedulesService,
     ScheduleExecutorService,
     ScheduleCronService,
+    ScheduleReportListener,
+    ScheduleBackupListener,
+    ScheduleCleanupListener,
+    ScheduleExportListener,
+    ScheduleDeviceCommandListener,
   ],
   exports: [SchedulesService, ScheduleExecutorService],
 })
@@ -0,0 +1,134 @@
+// src/modules/scripts/__tests__/script-sandbox.service.spec.ts
+// Behaviour of the sandbox limits — runs real worker threads, no mocks
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScriptSandboxService } from '../script-sandbox.service';
+
+describe('ScriptSandboxService', () => {
+  let module: TestingModule;
+  let sandbox: ScriptSandboxService;
+
+  beforeAll(async () => {
+    process.env.SCRIPT_SANDBOX_TIMEOUT_MS = '200';
+    process.env.SCRIPT_SANDBOX_MEMORY_MB = '16';
+
+    module = await Test.createTestingModule({
+      providers: [ScriptSandboxService],
+    }).compile();
+
+    sandbox = module.get<ScriptSandboxService>(ScriptSandboxService);
+  });
+
+  afterAll(async () => {
+    await module.close();
+    delete process.env.SCRIPT_SANDBOX_TIMEOUT_MS;
+    delete process.env.SCRIPT_SANDBOX_MEMORY_MB;
+  });
+
+  describe('run', () => {
+    it('should return the script result and logs', async () => {
+      const result = await sandbox.run(
+        'console.log("temp", msg.temperature); return { hot: msg.temperature > 30, type: msgType };',
+        { msg: { temperature: 35 }, msgType: 'POST_TELEMETRY' },
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.result).toEqual({ hot: true, type: 'POST_TELEMETRY' });
+      expect(result.logs).toEqual([{ level: 'log', message: 'temp 35' }]);
+    });
+
+    it('should report syntax errors with a line number', async () => {
+      const result = await sandbox.run('const a = 1;\nreturn a +;', {
+        msg: {},
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('SyntaxError');
+      expect(result.error?.line).toBe(2);
+    });
+  });
+
+  describe('limits', () => {
+    it('should stop an infinite loop at the time limit', async () => {
+      const result = await sandbox.run('while (true) {}', { msg: {} });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('TimeoutError');
+    });
+
+    it('should stop a loop scheduled as a microtask', async () => {
+      const result = await sandbox.run(
+        'Promise.resolve().then(() => { while (true) {} }); return 1;',
+        { msg: {} },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('TimeoutError');
+    });
+
+    it('should stop a script that exhausts the memory limit', async () => {
+      const result = await sandbox.run(
+        'const chunks = []; while (true) { chunks.push(new Array(1e5).fill(chunks.length)); }',
+        { msg: {} },
+        { timeoutMs: 200 },
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('RangeError');
+    });
+
+    it('should reject promises returned by the script', async () => {
+      const result = await sandbox.run('return Promise.resolve(1);', {
+        msg: {},
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('TypeError');
+    });
+
+    it('should keep working after a worker was thrown away', async () => {
+      await sandbox.run('while (true) {}', { msg: {} });
+      const result = await sandbox.run('return msg.value * 2;', {
+        msg: { value: 21 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBe(42);
+    });
+  });
+
+  describe('isolation', () => {
+    it.each([
+      ['eval', 'return eval("1 + 1");'],
+      ['new Function', 'return new Function("return 1")();'],
+      ['constructor escape', 'return (() => {}).constructor("return 1")();'],
+    ])('should refuse code generation through %s', async (_label, code) => {
+      const result = await sandbox.run(code, { msg: {} });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.name).toBe('EvalError');
+    });
+
+    it.each([
+      ['require', 'return typeof require;'],
+      ['process', 'return typeof process;'],
+      ['setTimeout', 'return typeof setTimeout;'],
+    ])('should not expose %s', async (_label, code) => {
+      const result = await sandbox.run(code, { msg: {} });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBe('undefined');
+    });
+
+    it('should hand the script a copy of the input', async () => {
+      const msg = { nested: { value: 1 } };
+      const result = await sandbox.run(
+        'msg.nested.value = 2; return msg.nested.value;',
+        { msg },
+      );
+
+      expect(result.result).toBe(2);
+      expect(msg.nested.value).toBe(1);
+    });
+  });
+});
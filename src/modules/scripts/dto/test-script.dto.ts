@@ -0,0 +1,24 @@
+import { IsOptional, IsObject, IsString, IsDefined } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TestScriptDto {
+  @ApiProperty({
+    example: { temperature: 25.5, humidity: 60 },
+    description: 'Message payload passed to the script as `msg`',
+  })
+  @IsDefined()
+  msg: any;
+
+  @ApiProperty({
+    example: { deviceName: 'Sensor-01', deviceType: 'sensor' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+
+  @ApiProperty({ example: 'POST_TELEMETRY_REQUEST', required: false })
+  @IsOptional()
+  @IsString()
+  msgType?: string;
+}
@@ -0,0 +1,34 @@
+// src/modules/scripts/interfaces/script-execution.interface.ts
+
+/**
+ * The message triple every script receives as (msg, metadata, msgType)
+ */
+export interface ScriptInput {
+  msg: any;
+  metadata?: Record<string, any>;
+  msgType?: string;
+}
+
+export interface ScriptLogEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+}
+
+export interface ScriptError {
+  name: string;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ScriptExecutionResult {
+  success: boolean;
+  result?: any;
+  error?: ScriptError;
+  logs: ScriptLogEntry[];
+  executionTime: number;
+}
+
+export interface ScriptRunOptions {
+  timeoutMs?: number;
+}
@@ -0,0 +1,430 @@
+// src/modules/scripts/script-sandbox.service.ts
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { Worker } from 'worker_threads';
+import {
+  ScriptError,
+  ScriptExecutionResult,
+  ScriptInput,
+  ScriptLogEntry,
+  ScriptRunOptions,
+} from './interfaces/script-execution.interface';
+
+// ══════════════════════════════════════════════════════════════════════════
+// SANDBOX SOURCES
+// ══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Helpers installed in every fresh context before the user code runs.
+ * Only plain JS lives in here — no require, process, timers or host objects.
+ */
+const SANDBOX_PRELUDE = `
+(function (global) {
+  'use strict';
+
+  const MAX_LOGS = 100;
+  const MAX_LOG_LENGTH = 1000;
+  const logs = [];
+
+  const format = (args) =>
+    args
+      .map((arg) => {
+        if (typeof arg === 'string') return arg;
+        try {
+          return JSON.stringify(arg);
+        } catch (e) {
+          return String(arg);
+        }
+      })
+      .join(' ')
+      .slice(0, MAX_LOG_LENGTH);
+
+  const writer = (level) => (...args) => {
+    if (logs.length < MAX_LOGS) logs.push({ level, message: format(args) });
+  };
+
+  const numbers = (values) =>
+    (Array.isArray(values) ? values : []).map(Number).filter((v) => !isNaN(v));
+
+  const math = {
+    abs: Math.abs, ceil: Math.ceil, floor: Math.floor, trunc: Math.trunc,
+    sqrt: Math.sqrt, pow: Math.pow, exp: Math.exp, log: Math.log,
+    log10: Math.log10, sin: Math.sin, cos: Math.cos, tan: Math.tan,
+    PI: Math.PI, E: Math.E,
+    min: (...values) => Math.min(...values.flat()),
+    max: (...values) => Math.max(...values.flat()),
+    round: (value, decimals = 0) => {
+      const factor = Math.pow(10, decimals);
+      return Math.round(value * factor) / factor;
+    },
+    clamp: (value, min, max) => Math.min(Math.max(value, min), max),
+    sum: (values) => numbers(values).reduce((acc, v) => acc + v, 0),
+    avg: (values) => {
+      const list = numbers(values);
+      return list.length ? list.reduce((acc, v) => acc + v, 0) / list.length : null;
+    },
+  };
+
+  const toDate = (value) => (value === undefined ? new Date() : new Date(value));
+
+  const date = {
+    now: () => Date.now(),
+    iso: (value) => toDate(value).toISOString(),
+    parse: (value) => {
+      const ts = new Date(value).getTime();
+      return isNaN(ts) ? null : ts;
+    },
+    diff: (a, b) => (toDate(a).getTime() - toDate(b).getTime()) / 1000,
+    hour: (value) => toDate(value).getUTCHours(),
+    dayOfWeek: (value) => toDate(value).getUTCDay(),
+    startOfDay: (value) => {
+      const d = toDate(value);
+      d.setUTCHours(0, 0, 0, 0);
+      return d.getTime();
+    },
+  };
+
+  const define = (name, value) =>
+    Object.defineProperty(global, name, { value, writable: false, configurable: false });
+
+  define('console', Object.freeze({
+    log: writer('log'), info: writer('info'), warn: writer('warn'),
+    error: writer('error'), debug: writer('debug'),
+  }));
+  define('math', Object.freeze(math));
+  define('date', Object.freeze(date));
+
+  define('__run', (fn, input) => {
+    const parsed = JSON.parse(input);
+    const result = fn(parsed.msg, parsed.metadata, parsed.msgType);
+    if (result && typeof result.then === 'function') {
+      throw new TypeError('Scripts must return a value synchronously');
+    }
+    return JSON.stringify(result === undefined ? null : result);
+  });
+  define('__logs', () => JSON.stringify(logs));
+})(globalThis);
+`;
+
+/**
+ * Worker entry point. Each job gets its own vm context with string/wasm code
+ * generation disabled, so eval/new Function are unavailable to the script.
+ * Data crosses the context boundary only as JSON strings — no host-realm
+ * object ever reaches user code.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+// Prefer a stack frame (line:column), fall back to the syntax-error header
+const FRAME = /script\\.js:(\\d+):(\\d+)/;
+const HEADER = /script\\.js:(\\d+)/;
+
+function describe(error) {
+  const err = error || {};
+  const stack = String(err.stack || '');
+  const match = stack.match(FRAME) || stack.match(HEADER);
+  return {
+    name: String(err.name || 'Error'),
+    message: String(err.message || err),
+    line: match ? Number(match[1]) : undefined,
+    column: match && match[2] ? Number(match[2]) : undefined,
+    timeout: err.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT',
+  };
+}
+
+parentPort.on('message', (job) => {
+  // A null-prototype sandbox keeps this.constructor from resolving to the
+  // worker's own Function constructor. With afterEvaluate the context drains
+  // its own microtask queue inside runInContext, so promise callbacks count
+  // against the timeout instead of running after the job was answered.
+  const context = vm.createContext(
+    Object.create(null),
+    {
+      name: 'script-sandbox',
+      codeGeneration: { strings: false, wasm: false },
+      microtaskMode: 'afterEvaluate',
+    },
+  );
+  const reply = { id: job.id, success: true, output: 'null', logs: '[]' };
+
+  try {
+    vm.runInContext(workerData.prelude, context);
+    const fn = new vm.Script(
+      '(function (msg, metadata, msgType) {\\n' + job.code + '\\n})',
+      { filename: 'script.js', lineOffset: -1 },
+    ).runInContext(context);
+
+    context.__fn = fn;
+    context.__input = job.input;
+    reply.output = String(
+      vm.runInContext('__run(__fn, __input)', context, { timeout: job.timeout }),
+    );
+  } catch (error) {
+    reply.success = false;
+    reply.error = describe(error);
+  }
+
+  try {
+    reply.logs = String(vm.runInContext('__logs()', context, { timeout: 50 }));
+  } catch (error) {
+    // Prelude never ran or logs are unserializable — report none
+  }
+
+  parentPort.postMessage(reply);
+});
+`;
+
+// ══════════════════════════════════════════════════════════════════════════
+// WORKER POOL
+// ══════════════════════════════════════════════════════════════════════════
+
+interface WorkerReply {
+  id: number;
+  success: boolean;
+  output: string;
+  logs: string;
+  error?: ScriptError & { timeout?: boolean };
+}
+
+interface PendingJob {
+  id: number;
+  code: string;
+  input: string;
+  timeout: number;
+  startedAt: number;
+  resolve: (result: ScriptExecutionResult) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job?: PendingJob;
+  timer?: NodeJS.Timeout;
+}
+
+@Injectable()
+export class ScriptSandboxService implements OnModuleDestroy {
+  private readonly logger = new Logger(ScriptSandboxService.name);
+
+  private readonly poolSize = parseInt(
+    process.env.SCRIPT_SANDBOX_POOL_SIZE || '2',
+    10,
+  );
+  private readonly memoryMb = parseInt(
+    process.env.SCRIPT_SANDBOX_MEMORY_MB || '32',
+    10,
+  );
+  private readonly defaultTimeoutMs = parseInt(
+    process.env.SCRIPT_SANDBOX_TIMEOUT_MS || '1000',
+    10,
+  );
+
+  // Extra wall-clock slack before the host gives up on a worker that did not
+  // answer (e.g. stuck outside the vm timeout or crashed without an event)
+  private readonly HOST_GRACE_MS = 500;
+
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: PendingJob[] = [];
+  private nextJobId = 1;
+
+  onModuleDestroy(): void {
+    for (const entry of this.workers) {
+      void entry.worker.terminate();
+    }
+    this.workers.length = 0;
+  }
+
+  /**
+   * Run user code as `function (msg, metadata, msgType) { <code> }` and
+   * return its JSON-serializable result. Never throws for script failures —
+   * syntax/runtime errors, timeouts and memory exhaustion come back as a
+   * structured error.
+   */
+  run(
+    code: string,
+    input: ScriptInput,
+    options: ScriptRunOptions = {},
+  ): Promise<ScriptExecutionResult> {
+    let serialized: string;
+
+    try {
+      serialized = JSON.stringify({
+        msg: input.msg ?? null,
+        metadata: input.metadata ?? {},
+        msgType: input.msgType ?? null,
+      });
+    } catch (error) {
+      return Promise.resolve(
+        this.failure(Date.now(), 'TypeError', (error as Error).message),
+      );
+    }
+
+    return new Promise((resolve) => {
+      this.queue.push({
+        id: this.nextJobId++,
+        code,
+        input: serialized,
+        timeout: Math.min(
+          options.timeoutMs ?? this.defaultTimeoutMs,
+          this.defaultTimeoutMs,
+        ),
+        startedAt: Date.now(),
+        resolve,
+      });
+      this.drain();
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private drain(): void {
+    while (this.queue.length > 0) {
+      const entry = this.acquire();
+      if (!entry) return;
+      this.dispatch(entry, this.queue.shift()!);
+    }
+  }
+
+  private acquire(): PoolWorker | undefined {
+    const idle = this.workers.find((entry) => !entry.job);
+    if (idle) return idle;
+    if (this.workers.length >= this.poolSize) return undefined;
+
+    const entry: PoolWorker = { worker: this.spawn() };
+    this.workers.push(entry);
+
+    entry.worker.on('message', (reply: WorkerReply) =>
+      this.complete(entry, reply),
+    );
+    entry.worker.on('error', (error: Error & { code?: string }) => {
+      const outOfMemory = error.code === 'ERR_WORKER_OUT_OF_MEMORY';
+      this.abort(
+        entry,
+        outOfMemory ? 'RangeError' : error.name,
+        outOfMemory
+          ? `Script exceeded the ${this.memoryMb}MB memory limit`
+          : error.message,
+      );
+    });
+    entry.worker.on('exit', () => this.abort(entry, 'Error', 'Sandbox exited'));
+
+    return entry;
+  }
+
+  private spawn(): Worker {
+    return new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { prelude: SANDBOX_PRELUDE },
+      resourceLimits: {
+        maxOldGenerationSizeMb: this.memoryMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(this.memoryMb / 4)),
+        codeRangeSizeMb: 16,
+      },
+      stdout: true,
+      stderr: true,
+    });
+  }
+
+  private dispatch(entry: PoolWorker, job: PendingJob): void {
+    entry.job = job;
+    entry.timer = setTimeout(
+      () =>
+        this.abort(
+          entry,
+          'TimeoutError',
+          `Script exceeded the ${job.timeout}ms time limit`,
+        ),
+      job.timeout + this.HOST_GRACE_MS,
+    );
+
+    entry.worker.postMessage({
+      id: job.id,
+      code: job.code,
+      input: job.input,
+      timeout: job.timeout,
+    });
+  }
+
+  private complete(entry: PoolWorker, reply: WorkerReply): void {
+    const job = entry.job;
+    if (!job || job.id !== reply.id) return;
+
+    this.release(entry);
+
+    const logs = this.parseJson<ScriptLogEntry[]>(reply.logs) ?? [];
+    const executionTime = Date.now() - job.startedAt;
+
+    if (!reply.success) {
+      const { timeout, ...error } = reply.error!;
+      job.resolve({
+        success: false,
+        error: timeout
+          ? {
+              name: 'TimeoutError',
+              message: `Script exceeded the ${job.timeout}ms time limit`,
+            }
+          : error,
+        logs,
+        executionTime,
+      });
+    } else {
+      job.resolve({
+        success: true,
+        result: this.parseJson(reply.output),
+        logs,
+        executionTime,
+      });
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Fail the running job and throw the worker away — its isolate may be
+   * wedged or out of memory, so it is never reused.
+   */
+  private abort(entry: PoolWorker, name: string, message: string): void {
+    const index = this.workers.indexOf(entry);
+    if (index === -1) return;
+
+    this.workers.splice(index, 1);
+    const job = entry.job;
+    this.release(entry);
+    void entry.worker.terminate();
+
+    if (job) {
+      this.logger.warn(`Sandbox job ${job.id} aborted: ${message}`);
+      job.resolve(this.failure(job.startedAt, name, message));
+    }
+
+    this.drain();
+  }
+
+  private release(entry: PoolWorker): void {
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = undefined;
+    entry.job = undefined;
+  }
+
+  private failure(
+    startedAt: number,
+    name: string,
+    message: string,
+  ): ScriptExecutionResult {
+    return {
+      success: false,
+      error: { name, message },
+      logs: [],
+      executionTime: Date.now() - startedAt,
+    };
+  }
+
+  private parseJson<T = any>(value: string): T | undefined {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -15,6 +15,7 @@ import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { ScriptsService } from './scripts.service';
 import { CreateScriptDto } from './dto/create-script.dto';
 import { UpdateScriptDto } from './dto/update-script.dto';
+import { TestScriptDto } from './dto/test-script.dto';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { User } from '../users/entities/user.entity';
@@ -31,7 +32,7 @@ export class ScriptsController {
   @Post()
   @ApiOperation({ summary: 'Create a new script' })
   create(@CurrentUser() user: User, @Body() createScriptDto: CreateScriptDto) {
-    return this.scriptsService.create(user.id, createScriptDto);
+    return this.scriptsService.create(user.id, user.tenantId, createScriptDto);
   }
 
   @Get()
@@ -70,11 +71,15 @@ export class ScriptsController {
   }
 
   @Post(':id/test')
-  @ApiOperation({ summary: 'Test script execution' })
+  @ApiOperation({
+    summary: 'Test script execution',
+    description:
+      'Runs the script in the sandbox without counting the execution. Returns the raw result, the type-specific output, captured console output and structured errors (name, message, line, column).',
+  })
   test(
     @CurrentUser() user: User,
     @Param('id', ParseIdPipe) id: string,
-    @Body() testData: any,
+    @Body() testData: TestScriptDto,
   ) {
     return this.scriptsService.test(id, user.id, testData);
   }
@@ -84,7 +89,7 @@ export class ScriptsController {
   execute(
     @CurrentUser() user: User,
     @Param('id', ParseIdPipe) id: string,
-    @Body() inputData: any,
+    @Body() inputData: TestScriptDto,
   ) {
     return this.scriptsService.execute(id, user.id, inputData);
   }
@@ -2,12 +2,13 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ScriptsService } from './scripts.service';
 import { ScriptsController } from './scripts.controller';
+import { ScriptSandboxService } from './script-sandbox.service';
 import { Script } from './entities/script.entity';
 
 @Module({
   imports: [TypeOrmModule.forFeature([Script])],
   controllers: [ScriptsController],
-  providers: [ScriptsService],
-  exports: [ScriptsService],
+  providers: [ScriptsService, ScriptSandboxService],
+  exports: [ScriptsService, ScriptSandboxService],
 })
 export class ScriptsModule {}
@@ -1,26 +1,63 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnModuleDestroy,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { Repository } from 'typeorm';
 import { Script } from './entities/script.entity';
 import { CreateScriptDto } from './dto/create-script.dto';
 import { UpdateScriptDto } from './dto/update-script.dto';
+import { TestScriptDto } from './dto/test-script.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
+import { ScriptType } from '@common/enums/index.enum';
+import { ScriptSandboxService } from './script-sandbox.service';
+import {
+  ScriptExecutionResult,
+  ScriptInput,
+} from './interfaces/script-execution.interface';
+
+export interface ScriptRunResult extends ScriptExecutionResult {
+  /** Result shaped by script type (see normalizeOutput) */
+  output?: any;
+}
+
+interface PendingExecutions {
+  count: number;
+  lastExecutedAt: Date;
+}
 
 @Injectable()
-export class ScriptsService {
+export class ScriptsService implements OnModuleDestroy {
+  private readonly logger = new Logger(ScriptsService.name);
+
+  // Scripts run on every telemetry message — execution stats are counted
+  // here and written in one batch by flushExecutions()
+  private pendingExecutions = new Map<string, PendingExecutions>();
+
   constructor(
     @InjectRepository(Script)
     private readonly scriptRepository: Repository<Script>,
+    private readonly sandbox: ScriptSandboxService,
   ) {}
 
   async create(
     userId: string,
+    tenantId: string | undefined,
     createScriptDto: CreateScriptDto,
   ): Promise<Script> {
+    if (!tenantId) {
+      throw new BadRequestException('Scripts must belong to a tenant');
+    }
+
     const lines = createScriptDto.code.split('\n').length;
 
     const script = this.scriptRepository.create({
       ...createScriptDto,
+      tenantId,
       userId,
       createdBy: userId,
       lines,
@@ -105,35 +142,50 @@ export class ScriptsService {
   async test(
     id: string,
     userId: string,
-    testData: any,
-  ): Promise<{ success: boolean; result?: any; error?: string }> {
+    testData: TestScriptDto,
+  ): Promise<ScriptRunResult> {
     const script = await this.findOne(id, userId);
-
-    try {
-      // TODO: Implement actual script execution in a sandboxed environment
-      // For now, return a mock result
-      return {
-        success: true,
-        result: `Script "${script.name}" executed successfully with test data`,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error.message,
-      };
-    }
+    return this.run(script, testData);
   }
 
-  async execute(id: string, userId: string, inputData: any): Promise<any> {
+  async execute(
+    id: string,
+    userId: string,
+    inputData: TestScriptDto,
+  ): Promise<ScriptRunResult> {
     const script = await this.findOne(id, userId);
+    const result = await this.run(script, inputData);
+    this.recordExecution(script.id);
+    return result;
+  }
 
-    // TODO: Implement actual script execution
-    return {
-      scriptId: script.id,
-      scriptName: script.name,
-      executed: true,
-      result: inputData,
-    };
+  /**
+   * Run a tenant's script on behalf of another module (alarm rules,
+   * automation triggers, codecs). Script failures are returned, not thrown.
+   */
+  async runById(
+    scriptId: string,
+    tenantId: string,
+    input: ScriptInput,
+  ): Promise<ScriptRunResult> {
+    const script = await this.scriptRepository.findOne({
+      where: { id: scriptId, tenantId },
+    });
+
+    if (!script) {
+      throw new NotFoundException('Script not found');
+    }
+
+    const result = await this.run(script, input);
+    this.recordExecution(script.id);
+
+    if (!result.success) {
+      this.logger.warn(
+        `Script ${script.id} failed: ${result.error?.name}: ${result.error?.message}`,
+      );
+    }
+
+    return result;
   }
 
   async getStatistics(userId: string) {
@@ -162,4 +214,114 @@ export class ScriptsService {
       byType,
     };
   }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async run(
+    script: Script,
+    input: ScriptInput,
+  ): Promise<ScriptRunResult> {
+    const result = await this.sandbox.run(script.code, input);
+
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      ...result,
+      output: this.normalizeOutput(script.type, result, input),
+    };
+  }
+
+  /**
+   * Shape the raw return value by script type:
+   * - filter: boolean
+   * - validation: { valid, errors } (accepts a boolean, an error list or the object)
+   * - transformation/processing: { msg, metadata, msgType } (a bare value becomes msg)
+   * - aggregation: returned as-is
+   */
+  private normalizeOutput(
+    type: ScriptType,
+    { result }: ScriptExecutionResult,
+    input: ScriptInput,
+  ): any {
+    switch (type) {
+      case ScriptType.FILTER:
+        return Boolean(result);
+
+      case ScriptType.VALIDATION:
+        if (Array.isArray(result)) {
+          return { valid: result.length === 0, errors: result.map(String) };
+        }
+        if (result && typeof result === 'object' && 'valid' in result) {
+          return {
+            valid: Boolean(result.valid),
+            errors: Array.isArray(result.errors)
+              ? result.errors.map(String)
+              : [],
+          };
+        }
+        return { valid: Boolean(result), errors: [] };
+
+      case ScriptType.TRANSFORMATION:
+      case ScriptType.PROCESSING: {
+        const isEnvelope =
+          result && typeof result === 'object' && 'msg' in result;
+        return {
+          msg: isEnvelope ? result.msg : result,
+          metadata: (isEnvelope && result.metadata) || input.metadata || {},
+          msgType: (isEnvelope && result.msgType) || input.msgType,
+        };
+      }
+
+      default:
+        return result;
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // EXECUTION STATS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async flushExecutions(): Promise<void> {
+    if (this.pendingExecutions.size === 0) return;
+
+    const batch = this.pendingExecutions;
+    this.pendingExecutions = new Map();
+
+    for (const [id, pending] of batch) {
+      try {
+        await this.scriptRepository
+          .createQueryBuilder()
+          .update(Script)
+          .set({
+            executionCount: () => `"executionCount" + ${pending.count}`,
+            lastExecutedAt: pending.lastExecutedAt,
+          })
+          .where('id = :id', { id })
+          .execute();
+      } catch (error) {
+        this.logger.error(
+          `Failed to record ${pending.count} executions of script ${id}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.flushExecutions();
+  }
+
+  private recordExecution(id: string): void {
+    const pending = this.pendingExecutions.get(id);
+    if (pending) {
+      pending.count += 1;
+      pending.lastExecutedAt = new Date();
+    } else {
+      this.pendingExecutions.set(id, { count: 1, lastExecutedAt: new Date() });
+    }
+  }
 }
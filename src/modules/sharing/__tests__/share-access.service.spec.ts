@@ -0,0 +1,359 @@
+// src/modules/sharing/__tests__/share-access.service.spec.ts
+// Share links as read-only principals — what a link may read, and how
+// revocation, expiry, the IP allow-list and the password session end access
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import {
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { ShareAccessService } from '../share-access.service';
+import { Share } from '../entities/sharing.entity';
+import { Dashboard } from '../../dashboards/entities/dashboard.entity';
+import { Device } from '../../devices/entities/device.entity';
+import { Asset } from '../../assets/entities/asset.entity';
+import { FloorPlan } from '../../floor-plans/entities/floor-plan.entity';
+import { ShareResourceType, ShareType } from '@common/enums/index.enum';
+import type { SharePrincipal } from '@common/interfaces/index.interface';
+
+const TENANT = 'tenant-a';
+const OTHER_TENANT = 'tenant-b';
+
+const DEVICE_A = '0b5c3c1e-6a2f-4d8e-9c41-2f0e8a7b6d11';
+const DEVICE_B = '4f7d2a90-1c3e-4b5a-8e6f-7a9b0c1d2e22';
+const FOREIGN_DEVICE = '9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c33';
+const ASSET_A = 'c1d2e3f4-a5b6-4c7d-8e9f-0a1b2c3d4e44';
+
+describe('ShareAccessService', () => {
+  let service: ShareAccessService;
+  let share: Share | null;
+  let passwordHash: string;
+
+  // Rows the tenant-scoped lookups can see
+  const devices = [
+    { id: DEVICE_A, tenantId: TENANT },
+    { id: DEVICE_B, tenantId: TENANT },
+    { id: FOREIGN_DEVICE, tenantId: OTHER_TENANT },
+  ];
+  const assets = [{ id: ASSET_A, tenantId: TENANT }];
+
+  const findIn =
+    (rows: { id: string; tenantId: string }[]) =>
+    ({ where }: { where: { id: FindOperator<string[]>; tenantId: string } }) =>
+      Promise.resolve(
+        rows.filter(
+          (row) =>
+            where.id.value.includes(row.id) && row.tenantId === where.tenantId,
+        ),
+      );
+
+  const mockShareRepository = {
+    createQueryBuilder: jest.fn(() => ({
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getOne: jest.fn(() => Promise.resolve(share)),
+    })),
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+  const mockDashboardRepository = { findOne: jest.fn() };
+  const mockDeviceRepository = { find: jest.fn(findIn(devices)) };
+  const mockAssetRepository = { find: jest.fn(findIn(assets)) };
+  const mockFloorPlanRepository = { findOne: jest.fn() };
+
+  const givenShare = (overrides: Partial<Share> = {}): Share => {
+    share = Object.assign(new Share(), {
+      id: 'share-1',
+      tenantId: TENANT,
+      token: 'link-token',
+      shareType: ShareType.LINK,
+      resourceType: ShareResourceType.DEVICE,
+      resourceId: DEVICE_A,
+      passwordProtected: false,
+      sessionVersion: 0,
+      ...overrides,
+    });
+    return share;
+  };
+
+  const withPassword = (overrides: Partial<Share> = {}) =>
+    givenShare({ passwordProtected: true, passwordHash, ...overrides });
+
+  const principal = (overrides: Partial<SharePrincipal> = {}) =>
+    ({
+      shareId: 'share-1',
+      tenantId: TENANT,
+      resourceType: ShareResourceType.DEVICE,
+      resourceId: DEVICE_A,
+      deviceIds: [DEVICE_A],
+      assetIds: [],
+      ...overrides,
+    }) as SharePrincipal;
+
+  beforeAll(async () => {
+    passwordHash = await bcrypt.hash('open sesame', 4);
+  });
+
+  beforeEach(async () => {
+    share = null;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShareAccessService,
+        {
+          provide: getRepositoryToken(Share),
+          useValue: mockShareRepository,
+        },
+        {
+          provide: getRepositoryToken(Dashboard),
+          useValue: mockDashboardRepository,
+        },
+        {
+          provide: getRepositoryToken(Device),
+          useValue: mockDeviceRepository,
+        },
+        {
+          provide: getRepositoryToken(Asset),
+          useValue: mockAssetRepository,
+        },
+        {
+          provide: getRepositoryToken(FloorPlan),
+          useValue: mockFloorPlanRepository,
+        },
+        {
+          provide: JwtService,
+          useValue: new JwtService({ secret: 'share-spec-secret' }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<ShareAccessService>(ShareAccessService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // SCOPE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('authorize — scope', () => {
+    it('should give a device link that device only', async () => {
+      givenShare();
+
+      const result = await service.authorize('link-token', {});
+
+      expect(result).toMatchObject({
+        shareId: 'share-1',
+        tenantId: TENANT,
+        deviceIds: [DEVICE_A],
+        assetIds: [],
+      });
+    });
+
+    it('should drop a shared device that belongs to another tenant', async () => {
+      givenShare({ resourceId: FOREIGN_DEVICE });
+
+      const result = await service.authorize('link-token', {});
+
+      expect(result.deviceIds).toEqual([]);
+    });
+
+    it('should give a dashboard link the tenant entities its widgets use', async () => {
+      givenShare({
+        resourceType: ShareResourceType.DASHBOARD,
+        resourceId: 'dash-1',
+      });
+      mockDashboardRepository.findOne.mockResolvedValue(
+        Object.assign(new Dashboard(), {
+          id: 'dash-1',
+          tenantId: TENANT,
+          widgets: [
+            { dataSource: { deviceIds: [DEVICE_A, 'not-a-uuid'] } },
+            { dataSource: { deviceIds: [DEVICE_B, FOREIGN_DEVICE] } },
+            { dataSource: { assetIds: [ASSET_A] } },
+          ],
+        }),
+      );
+
+      const result = await service.authorize('link-token', {});
+
+      expect(mockDashboardRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'dash-1', tenantId: TENANT },
+      });
+      expect(result.deviceIds.sort()).toEqual([DEVICE_A, DEVICE_B].sort());
+      expect(result.assetIds).toEqual([ASSET_A]);
+    });
+
+    it('should refuse a dashboard link whose dashboard is not in the tenant', async () => {
+      givenShare({
+        resourceType: ShareResourceType.DASHBOARD,
+        resourceId: 'dash-1',
+      });
+      mockDashboardRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.authorize('link-token', {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should give a floor plan link the devices placed on it', async () => {
+      givenShare({
+        resourceType: ShareResourceType.FLOOR_PLAN,
+        resourceId: 'plan-1',
+      });
+      mockFloorPlanRepository.findOne.mockResolvedValue({
+        id: 'plan-1',
+        tenantId: TENANT,
+        devices: [{ deviceId: DEVICE_B }, { deviceId: FOREIGN_DEVICE }],
+      });
+
+      const result = await service.authorize('link-token', {});
+
+      expect(result.deviceIds).toEqual([DEVICE_B]);
+      expect(result.assetIds).toEqual([]);
+    });
+  });
+
+  describe('assertEntity', () => {
+    it('should allow entities in the share', () => {
+      expect(() =>
+        service.assertEntity(principal(), 'device', DEVICE_A),
+      ).not.toThrow();
+    });
+
+    it('should refuse entities outside the share', () => {
+      expect(() =>
+        service.assertEntity(principal(), 'device', DEVICE_B),
+      ).toThrow(ForbiddenException);
+      expect(() => service.assertEntity(principal(), 'asset', ASSET_A)).toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('getDashboard', () => {
+    it('should refuse a link that is not for a dashboard', async () => {
+      await expect(service.getDashboard(principal())).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // REVOCATION, EXPIRY AND ALLOW-LIST
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('authorize — access', () => {
+    it('should refuse a revoked link', async () => {
+      // Revoked shares are soft-deleted and no longer found
+      share = null;
+
+      await expect(service.authorize('link-token', {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should refuse an expired link', async () => {
+      givenShare({ expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(service.authorize('link-token', {})).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should only open a restricted link from an allowed network', async () => {
+      givenShare({ allowedIps: ['203.0.113.0/24'] });
+
+      await expect(
+        service.authorize('link-token', { ip: '203.0.113.7' }),
+      ).resolves.toMatchObject({ shareId: 'share-1' });
+      await expect(
+        service.authorize('link-token', { ip: '198.51.100.7' }),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(service.authorize('link-token', {})).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PASSWORD SESSIONS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('password-protected links', () => {
+    it('should require the unlock token', async () => {
+      withPassword();
+
+      await expect(service.authorize('link-token', {})).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should open with the token issued for the right password', async () => {
+      withPassword();
+
+      const { accessToken } = await service.unlock(
+        'link-token',
+        'open sesame',
+        {},
+      );
+
+      await expect(
+        service.authorize('link-token', { accessToken }),
+      ).resolves.toMatchObject({ shareId: 'share-1' });
+    });
+
+    it('should refuse a wrong password', async () => {
+      withPassword();
+
+      await expect(service.unlock('link-token', 'guess', {})).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should end sessions when the password changes', async () => {
+      withPassword();
+      const { accessToken } = await service.unlock(
+        'link-token',
+        'open sesame',
+        {},
+      );
+
+      withPassword({ sessionVersion: 1 });
+
+      await expect(
+        service.authorize('link-token', { accessToken }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should not accept a session of another link', async () => {
+      withPassword();
+      const { accessToken } = await service.unlock(
+        'link-token',
+        'open sesame',
+        {},
+      );
+
+      withPassword({ id: 'share-2' });
+
+      await expect(
+        service.authorize('link-token', { accessToken }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should refuse to unlock a link without a password', async () => {
+      givenShare();
+
+      await expect(
+        service.unlock('link-token', 'open sesame', {}),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+});
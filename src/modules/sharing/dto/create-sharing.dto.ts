@@ -5,6 +5,9 @@ import {
   IsBoolean,
   IsDateString,
   IsObject,
+  IsArray,
+  MinLength,
+  MaxLength,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import {
@@ -45,6 +48,30 @@ export class CreateShareDto {
   @IsBoolean()
   isPublic?: boolean;
 
+  @ApiProperty({
+    example: 'open-sesame',
+    required: false,
+    nullable: true,
+    description:
+      'Link shares only — viewers must enter it before anything loads. Send null on update to remove it.',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  @MaxLength(128)
+  password?: string | null;
+
+  @ApiProperty({
+    example: ['203.0.113.7', '10.0.0.0/8'],
+    required: false,
+    description:
+      'Link shares only — addresses or CIDR ranges allowed to open the link',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedIps?: string[];
+
   @ApiProperty({
     example: {
       resourceName: 'My Dashboard',
@@ -0,0 +1,9 @@
+import { IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UnlockShareDto {
+  @ApiProperty({ example: 'open-sesame' })
+  @IsString()
+  @MaxLength(128)
+  password: string;
+}
@@ -87,6 +87,22 @@ export class Share extends BaseEntity {
   @Column({ type: 'timestamp', nullable: true })
   expiresAt?: Date;
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // ACCESS RESTRICTIONS (link shares)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ default: false })
+  passwordProtected: boolean;
+
+  @Column({ type: 'varchar', nullable: true, select: false })
+  passwordHash?: string | null;  // bcrypt — never returned by default
+
+  @Column({ type: 'simple-array', nullable: true })
+  allowedIps?: string[];  // addresses or CIDR ranges; empty = from anywhere
+
+  @Column({ default: 0 })
+  sessionVersion: number;  // bumped to invalidate unlocked sessions
+
   // ══════════════════════════════════════════════════════════════════════════
   // STATISTICS
   // ══════════════════════════════════════════════════════════════════════════
@@ -121,6 +137,10 @@ export class Share extends BaseEntity {
     return !this.isExpired();
   }
 
+  hasIpRestriction(): boolean {
+    return !!this.allowedIps?.length;
+  }
+
   incrementViews(): void {
     this.views += 1;
     this.lastViewedAt = new Date();
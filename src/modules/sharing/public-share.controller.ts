@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Req,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import type { Request } from 'express';
+import { Public } from '@common/decorators/public.decorator';
+import { CurrentShare } from '@common/decorators/current-share.decorator';
+import {
+  SHARE_ACCESS_HEADER,
+  ShareAccessGuard,
+} from '@common/guards/share-access.guard';
+import type { SharePrincipal } from '@common/interfaces/index.interface';
+import { ShareAccessService } from './share-access.service';
+import { UnlockShareDto } from './dto/unlock-share.dto';
+
+/**
+ * Read-only access for anyone holding a link share token — no account
+ * needed. Telemetry and attribute reads for the shared entities live next
+ * to their modules (SharedTelemetryController, SharedAttributesController).
+ */
+@ApiTags('shared')
+@Controller('shared/:token')
+@Public()
+export class PublicShareController {
+  constructor(private readonly shareAccess: ShareAccessService) {}
+
+  @Post('unlock')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // Password guessing — same limit as login
+  @ApiOperation({
+    summary: 'Enter the password of a protected share link',
+    description: `Returns an access token to send as the ${SHARE_ACCESS_HEADER} header (or accessToken in share:subscribe)`,
+  })
+  @ApiResponse({ status: 200, description: 'Access token issued' })
+  @ApiResponse({ status: 401, description: 'Incorrect password' })
+  @ApiResponse({
+    status: 403,
+    description: 'Expired or not allowed from this address',
+  })
+  unlock(
+    @Param('token') token: string,
+    @Body() dto: UnlockShareDto,
+    @Req() request: Request,
+  ) {
+    return this.shareAccess.unlock(token, dto.password, {
+      ip: request.ip ?? request.socket.remoteAddress,
+    });
+  }
+
+  @Get()
+  @UseGuards(ShareAccessGuard)
+  @ApiHeader({ name: SHARE_ACCESS_HEADER, required: false })
+  @ApiOperation({ summary: 'What a share link gives access to' })
+  @ApiResponse({
+    status: 200,
+    description: 'Shared resource and readable entities',
+  })
+  @ApiResponse({ status: 401, description: 'Password required' })
+  @ApiResponse({ status: 404, description: 'Share not found or revoked' })
+  describe(@CurrentShare() share: SharePrincipal) {
+    return {
+      resourceType: share.resourceType,
+      resourceId: share.resourceId,
+      resourceName: share.resourceName,
+      deviceIds: share.deviceIds,
+      assetIds: share.assetIds,
+      expiresAt: share.expiresAt,
+    };
+  }
+
+  @Get('dashboard')
+  @UseGuards(ShareAccessGuard)
+  @ApiHeader({ name: SHARE_ACCESS_HEADER, required: false })
+  @ApiOperation({ summary: 'Open a shared dashboard (read-only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Dashboard with its widgets and devices',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Share not found or not a dashboard',
+  })
+  getDashboard(@CurrentShare() share: SharePrincipal) {
+    return this.shareAccess.getDashboard(share);
+  }
+}
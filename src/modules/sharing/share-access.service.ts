@@ -0,0 +1,312 @@
+// src/modules/sharing/share-access.service.ts
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { In, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { isUUID } from 'class-validator';
+import { ShareResourceType, ShareType } from '@common/enums/index.enum';
+import type {
+  ShareClient,
+  SharePrincipal,
+  ShareSessionPayload,
+} from '@common/interfaces/index.interface';
+import { ipInAllowList } from '@common/utils/helpers';
+import {
+  Asset,
+  Dashboard,
+  Device,
+  FloorPlan,
+  Share,
+} from '@modules/index.entities';
+
+// How long the password unlocks a link for (never past the link's expiry)
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export type SharedEntityType = 'device' | 'asset';
+
+/**
+ * Turns a share link token into a read-only SharePrincipal. Used by
+ * ShareAccessGuard for the public /shared/:token/* endpoints and by
+ * WebsocketGateway for share:subscribe — the share row is re-read every
+ * time, so revocation, expiry and allow-list changes apply immediately.
+ */
+@Injectable()
+export class ShareAccessService {
+  private readonly logger = new Logger(ShareAccessService.name);
+
+  constructor(
+    @InjectRepository(Share)
+    private readonly shareRepository: Repository<Share>,
+    @InjectRepository(Dashboard)
+    private readonly dashboardRepository: Repository<Dashboard>,
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    @InjectRepository(Asset)
+    private readonly assetRepository: Repository<Asset>,
+    @InjectRepository(FloorPlan)
+    private readonly floorPlanRepository: Repository<FloorPlan>,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // AUTHORIZATION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async authorize(token: string, client: ShareClient): Promise<SharePrincipal> {
+    const share = await this.loadShare(token, client);
+
+    if (share.passwordProtected) {
+      await this.verifySession(share, client.accessToken);
+    }
+
+    return {
+      shareId: share.id,
+      tenantId: share.tenantId,
+      resourceType: share.resourceType,
+      resourceId: share.resourceId,
+      resourceName: share.metadata?.resourceName,
+      ...(await this.resolveScope(share)),
+      expiresAt: share.expiresAt,
+    };
+  }
+
+  /** Exchanges the link password for a short-lived access token */
+  async unlock(
+    token: string,
+    password: string,
+    client: ShareClient,
+  ): Promise<{ accessToken: string; expiresAt: Date }> {
+    const share = await this.loadShare(token, client);
+
+    if (!share.passwordProtected) {
+      throw new ForbiddenException('This share link has no password');
+    }
+
+    const valid =
+      !!share.passwordHash &&
+      (await bcrypt.compare(password, share.passwordHash));
+    if (!valid) {
+      this.logger.warn(`Wrong password for share ${share.id}`);
+      throw new UnauthorizedException('Incorrect password');
+    }
+
+    let ttl = SESSION_TTL_SECONDS;
+    if (share.expiresAt) {
+      const remaining = Math.floor(
+        (share.expiresAt.getTime() - Date.now()) / 1000,
+      );
+      ttl = Math.max(1, Math.min(ttl, remaining));
+    }
+
+    const payload: ShareSessionPayload = {
+      sub: share.id,
+      typ: 'share',
+      ver: share.sessionVersion,
+    };
+
+    return {
+      accessToken: await this.jwtService.signAsync(payload, { expiresIn: ttl }),
+      expiresAt: new Date(Date.now() + ttl * 1000),
+    };
+  }
+
+  assertEntity(
+    principal: SharePrincipal,
+    entityType: SharedEntityType,
+    entityId: string,
+  ): void {
+    const allowed =
+      entityType === 'device' ? principal.deviceIds : principal.assetIds;
+
+    if (!allowed.includes(entityId)) {
+      throw new ForbiddenException(
+        `This share link does not include ${entityType} ${entityId}`,
+      );
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // READ-ONLY VIEWS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** The shared dashboard, without ownership or sharing details */
+  async getDashboard(principal: SharePrincipal) {
+    if (principal.resourceType !== ShareResourceType.DASHBOARD) {
+      throw new NotFoundException('This share link is not for a dashboard');
+    }
+
+    const dashboard = await this.dashboardRepository.findOne({
+      where: { id: principal.resourceId, tenantId: principal.tenantId },
+    });
+    if (!dashboard) throw new NotFoundException('Shared dashboard not found');
+
+    const devices = principal.deviceIds.length
+      ? await this.deviceRepository.find({
+          where: { id: In(principal.deviceIds), tenantId: principal.tenantId },
+          select: ['id', 'name', 'type', 'status'],
+        })
+      : [];
+
+    await this.recordView(principal.shareId);
+
+    return {
+      id: dashboard.id,
+      name: dashboard.name,
+      description: dashboard.description,
+      widgets: dashboard.widgets,
+      layout: dashboard.layout,
+      settings: dashboard.settings,
+      filters: dashboard.filters,
+      devices,
+      assetIds: principal.assetIds,
+      expiresAt: principal.expiresAt,
+    };
+  }
+
+  async recordView(shareId: string): Promise<void> {
+    await this.shareRepository.update(shareId, {
+      views: () => 'views + 1',
+      lastViewedAt: new Date(),
+    });
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async loadShare(token: string, client: ShareClient): Promise<Share> {
+    // Soft-deleted (revoked) shares are excluded by TypeORM
+    const share = await this.shareRepository
+      .createQueryBuilder('share')
+      .addSelect('share.passwordHash')
+      .where('share.token = :token', { token })
+      .andWhere('share.shareType = :type', { type: ShareType.LINK })
+      .getOne();
+
+    if (!share) throw new NotFoundException('Share not found');
+
+    if (share.isExpired()) {
+      throw new ForbiddenException('This share link has expired');
+    }
+
+    if (
+      share.hasIpRestriction() &&
+      !(client.ip && ipInAllowList(client.ip, share.allowedIps ?? []))
+    ) {
+      this.logger.warn(
+        `Share ${share.id} refused for ${client.ip ?? 'unknown address'}`,
+      );
+      throw new ForbiddenException(
+        'This share link cannot be opened from your network',
+      );
+    }
+
+    return share;
+  }
+
+  private async verifySession(
+    share: Share,
+    accessToken?: string,
+  ): Promise<void> {
+    if (!accessToken) {
+      throw new UnauthorizedException('This share link is password protected');
+    }
+
+    let payload: ShareSessionPayload;
+    try {
+      payload =
+        await this.jwtService.verifyAsync<ShareSessionPayload>(accessToken);
+    } catch {
+      throw new UnauthorizedException(
+        'Share session expired — enter the password again',
+      );
+    }
+
+    // A changed password bumps sessionVersion and ends older sessions
+    if (
+      payload.typ !== 'share' ||
+      payload.sub !== share.id ||
+      payload.ver !== share.sessionVersion
+    ) {
+      throw new UnauthorizedException(
+        'Share session expired — enter the password again',
+      );
+    }
+  }
+
+  /** Devices and assets the link may read, limited to the share's tenant */
+  private async resolveScope(
+    share: Share,
+  ): Promise<Pick<SharePrincipal, 'deviceIds' | 'assetIds'>> {
+    let deviceIds: string[] = [];
+    let assetIds: string[] = [];
+
+    switch (share.resourceType) {
+      case ShareResourceType.DASHBOARD: {
+        const dashboard = await this.dashboardRepository.findOne({
+          where: { id: share.resourceId, tenantId: share.tenantId },
+        });
+        if (!dashboard)
+          throw new NotFoundException('Shared dashboard not found');
+        deviceIds = dashboard.getUsedDevices();
+        assetIds = dashboard.getUsedAssets();
+        break;
+      }
+      case ShareResourceType.DEVICE:
+        deviceIds = [share.resourceId];
+        break;
+      case ShareResourceType.ASSET:
+        assetIds = [share.resourceId];
+        break;
+      case ShareResourceType.FLOOR_PLAN: {
+        const floorPlan = await this.floorPlanRepository.findOne({
+          where: { id: share.resourceId, tenantId: share.tenantId },
+        });
+        if (!floorPlan)
+          throw new NotFoundException('Shared floor plan not found');
+        deviceIds = (floorPlan.devices ?? []).map((d) => d.deviceId);
+        break;
+      }
+      default:
+        // Reports carry no live data
+        break;
+    }
+
+    return {
+      deviceIds: await this.inTenant(
+        this.deviceRepository,
+        deviceIds,
+        share.tenantId,
+      ),
+      assetIds: await this.inTenant(
+        this.assetRepository,
+        assetIds,
+        share.tenantId,
+      ),
+    };
+  }
+
+  // Widget configs are free-form JSON — drop ids that are malformed or that
+  // belong to another tenant
+  private async inTenant(
+    repository: Repository<Device> | Repository<Asset>,
+    ids: string[],
+    tenantId: string,
+  ): Promise<string[]> {
+    const candidates = [...new Set(ids)].filter((id) => isUUID(id));
+    if (!candidates.length) return [];
+
+    const rows: { id: string }[] = await repository.find({
+      where: { id: In(candidates), tenantId },
+      select: ['id'],
+    });
+    return rows.map((row) => row.id);
+  }
+}
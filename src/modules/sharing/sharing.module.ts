@@ -1,13 +1,35 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule, JwtModuleOptions } from '@nestjs/jwt';
+import { ConfigService, ConfigModule } from '@nestjs/config';
+import { createHmac } from 'crypto';
 import { SharingService } from './sharing.service';
 import { SharingController } from './sharing.controller';
+import { PublicShareController } from './public-share.controller';
+import { ShareAccessService } from './share-access.service';
 import { Share } from './entities/sharing.entity';
+import { Asset, Dashboard, Device, FloorPlan } from '../index.entities';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Share])],
-  controllers: [SharingController],
-  providers: [SharingService],
-  exports: [SharingService],
+  imports: [
+    TypeOrmModule.forFeature([Share, Dashboard, Device, Asset, FloorPlan]),
+    // Share sessions get their own key so they can never pass as user JWTs
+    // (WsJwtGuard only checks the signature)
+    JwtModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService): JwtModuleOptions => ({
+        secret: createHmac(
+          'sha256',
+          configService.get<string>('JWT_SECRET', ''),
+        )
+          .update('share-session')
+          .digest('hex'),
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [SharingController, PublicShareController],
+  providers: [SharingService, ShareAccessService],
+  exports: [SharingService, ShareAccessService],
 })
 export class SharingModule {}
@@ -5,19 +5,26 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan } from 'typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Repository, MoreThan, In } from 'typeorm';
+import * as bcrypt from 'bcrypt';
 import { ShareType } from '@common/enums/index.enum';
+import type { ShareRevokedEvent } from '@common/interfaces/index.interface';
+import { isValidIpRule } from '@common/utils/helpers';
 import { Share } from '../index.entities';
 import { CreateShareDto } from './dto/create-sharing.dto';
 import { UpdateShareDto } from './dto/update-sharing.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { v4 as uuidv4 } from 'uuid';
 
+const PASSWORD_SALT_ROUNDS = 10;
+
 @Injectable()
 export class SharingService {
   constructor(
     @InjectRepository(Share)
     private readonly shareRepository: Repository<Share>,
+    private readonly eventEmitter: EventEmitter2,
   ) { }
 
   async create(userId: string, createShareDto: CreateShareDto): Promise<Share> {
@@ -31,8 +38,12 @@ export class SharingService {
       );
     }
 
+    const { password, ...fields } = createShareDto;
+    this.assertLinkRestrictions(createShareDto);
+
     const share = this.shareRepository.create({
-      ...createShareDto,
+      ...fields,
+      ...(await this.passwordFields(password)),
       sharedBy: userId,
       createdBy: userId,
       token:
@@ -41,7 +52,10 @@ export class SharingService {
           : undefined,
     });
 
-    return await this.shareRepository.save(share);
+    const saved = await this.shareRepository.save(share);
+    delete saved.passwordHash;
+
+    return saved;
   }
 
   async findAll(userId: string, paginationDto: PaginationDto) {
@@ -116,16 +130,39 @@ export class SharingService {
     updateShareDto: UpdateShareDto,
   ): Promise<Share> {
     const share = await this.findOne(id, userId);
+    const { password, ...fields } = updateShareDto;
+    this.assertLinkRestrictions({
+      shareType: fields.shareType ?? share.shareType,
+      password,
+      allowedIps: fields.allowedIps,
+    });
 
-    Object.assign(share, updateShareDto);
+    // Viewers already in keep their session only if nothing about who may
+    // get in has changed
+    const accessChanged =
+      password !== undefined ||
+      fields.allowedIps !== undefined ||
+      fields.expiresAt !== undefined ||
+      fields.resourceId !== undefined;
+
+    Object.assign(share, fields);
+    if (password !== undefined) {
+      Object.assign(share, await this.passwordFields(password));
+      share.sessionVersion += 1;
+    }
     share.updatedBy = userId;
 
-    return await this.shareRepository.save(share);
+    const saved = await this.shareRepository.save(share);
+    delete saved.passwordHash;
+    if (accessChanged) this.emitRevoked([share.id], 'updated');
+
+    return saved;
   }
 
   async remove(id: string, userId: string): Promise<void> {
     const share = await this.findOne(id, userId);
     await this.shareRepository.softRemove(share);
+    this.emitRevoked([share.id], 'revoked');
   }
 
   async trackView(token: string): Promise<Share> {
@@ -220,10 +257,15 @@ export class SharingService {
     userId: string,
     resourceId: string,
   ): Promise<number> {
-    const result = await this.shareRepository.softDelete({
-      sharedBy: userId,
-      resourceId,
+    const shares = await this.shareRepository.find({
+      where: { sharedBy: userId, resourceId },
+      select: ['id'],
     });
+    if (!shares.length) return 0;
+
+    const shareIds = shares.map((share) => share.id);
+    const result = await this.shareRepository.softDelete({ id: In(shareIds) });
+    this.emitRevoked(shareIds, 'revoked');
 
     return result.affected || 0;
   }
@@ -231,4 +273,48 @@ export class SharingService {
   private generateToken(): string {
     return uuidv4().replace(/-/g, '');
   }
+
+  private assertLinkRestrictions(dto: {
+    shareType?: ShareType;
+    password?: string | null;
+    allowedIps?: string[];
+  }): void {
+    const restricted = !!dto.password || !!dto.allowedIps?.length;
+    if (restricted && dto.shareType !== ShareType.LINK) {
+      throw new BadRequestException(
+        'Passwords and IP allow-lists apply to link shares only',
+      );
+    }
+
+    const invalid = dto.allowedIps?.filter((rule) => !isValidIpRule(rule));
+    if (invalid?.length) {
+      throw new BadRequestException(
+        `Invalid IP address or CIDR range: ${invalid.join(', ')}`,
+      );
+    }
+  }
+
+  private async passwordFields(
+    password?: string | null,
+  ): Promise<Pick<Share, 'passwordProtected' | 'passwordHash'>> {
+    if (!password) {
+      return { passwordProtected: false, passwordHash: null };
+    }
+    return {
+      passwordProtected: true,
+      passwordHash: await bcrypt.hash(password, PASSWORD_SALT_ROUNDS),
+    };
+  }
+
+  // Public viewers of these shares lose access right away — HTTP checks the
+  // share on every request, open sockets are dropped by WebsocketGateway
+  private emitRevoked(
+    shareIds: string[],
+    reason: ShareRevokedEvent['reason'],
+  ): void {
+    this.eventEmitter.emit('share.revoked', {
+      shareIds,
+      reason,
+    } satisfies ShareRevokedEvent);
+  }
 }
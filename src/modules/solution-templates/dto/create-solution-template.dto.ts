@@ -9,6 +9,7 @@ import {
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { SolutionTemplateCategory as TemplateCategory } from '@common/enums/index.enum';
+import type { SolutionTemplateConfiguration } from '../interfaces/template-configuration.interface';
 
 export class CreateSolutionTemplateDto {
   @ApiProperty({ example: 'Smart Factory Solution' })
@@ -77,12 +78,7 @@ export class CreateSolutionTemplateDto {
   @ApiProperty({ required: false })
   @IsOptional()
   @IsObject()
-  configuration?: {
-    devices?: any[];
-    dashboards?: any[];
-    rules?: any[];
-    widgets?: any[];
-  };
+  configuration?: SolutionTemplateConfiguration;
 
   @ApiProperty({ required: false })
   @IsOptional()
@@ -100,4 +96,13 @@ export class InstallTemplateDto {
   @IsOptional()
   @IsObject()
   customization?: any;
+
+  @ApiProperty({
+    example: false,
+    required: false,
+    description: 'Validate and preview the installation without creating anything',
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
 }
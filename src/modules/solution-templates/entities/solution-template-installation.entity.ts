@@ -0,0 +1,63 @@
+// src/modules/solution-templates/entities/solution-template-installation.entity.ts
+import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
+import { BaseEntity } from '@common/entities/base.entity';
+import { Tenant, User } from '@/modules/index.entities';
+import { SolutionTemplate } from './solution-template.entity';
+import type { InstalledResources } from '../interfaces/template-configuration.interface';
+
+/**
+ * One install of a SolutionTemplate into a tenant. Records every object the
+ * install created so it can be uninstalled without touching anything else.
+ * Soft-removed on uninstall.
+ */
+@Entity('solution_template_installations')
+@Index(['tenantId', 'templateId'])
+export class SolutionTemplateInstallation extends BaseEntity {
+  // ══════════════════════════════════════════════════════════════════════════
+  // OWNERSHIP
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  tenantId: string;
+
+  @ManyToOne(() => Tenant)
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  @Column()
+  userId: string;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // TEMPLATE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column()
+  templateId: string;
+
+  @ManyToOne(() => SolutionTemplate)
+  @JoinColumn({ name: 'templateId' })
+  template: SolutionTemplate;
+
+  @Column()
+  templateVersion: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  customization?: Record<string, any>;
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CREATED RESOURCES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @Column({ type: 'jsonb' })
+  resources: InstalledResources;
+
+  @Column({ type: 'jsonb', default: {} })
+  idMap: Record<string, string>; // Template ref → created id
+}
@@ -3,6 +3,7 @@ import { Entity, Column, Index, ManyToOne, JoinColumn } from 'typeorm';
 import { BaseEntity } from '@common/entities/base.entity';
 import { SolutionTemplateCategory } from '@common/enums/index.enum';
 import { Tenant, User } from '@/modules/index.entities';
+import type { SolutionTemplateConfiguration } from '../interfaces/template-configuration.interface';
 @Entity('solution_templates')
 @Index(['category'])
 @Index(['isPremium'])
@@ -95,12 +96,7 @@ export class SolutionTemplate extends BaseEntity {
   rules: number;
 
   @Column({ type: 'jsonb', nullable: true })
-  configuration?: {
-    devices?: any[];
-    dashboards?: any[];
-    rules?: any[];
-    widgets?: any[];
-  };
+  configuration?: SolutionTemplateConfiguration;
 
   // ══════════════════════════════════════════════════════════════════════════
   // FLAGS
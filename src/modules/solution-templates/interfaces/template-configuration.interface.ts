@@ -0,0 +1,96 @@
+// src/modules/solution-templates/interfaces/template-configuration.interface.ts
+import type { WidgetConfig } from '@common/interfaces/index.interface';
+import type {
+  AlarmRule,
+  DeviceProfileAlarmRule,
+} from '@common/interfaces/alarm.interface';
+import type {
+  AlarmSeverity,
+  DeviceConnectionType,
+  DeviceTransportType,
+  DeviceType,
+} from '@common/enums/index.enum';
+import type { DeviceProtocol } from '@modules/devices/entities/device.entity';
+import type { Automation } from '@modules/automation/entities/automation.entity';
+import type { Dashboard } from '@modules/dashboards/entities/dashboard.entity';
+import type { DeviceProfile } from '@modules/profiles/entities/device-profile.entity';
+
+/**
+ * Every object in a template carries a `ref` — a key unique within the
+ * template. Fields that normally hold an id (device.deviceProfileId,
+ * alarm.deviceId, widget dataSource.deviceIds, ...) hold a ref instead and
+ * are remapped to the ids created at install time.
+ */
+export interface TemplateObject {
+  ref: string;
+  name: string;
+  description?: string;
+}
+
+export interface TemplateDeviceProfile extends TemplateObject {
+  type?: string;
+  transportType?: DeviceTransportType;
+  telemetryConfig?: DeviceProfile['telemetryConfig'];
+  attributesConfig?: DeviceProfile['attributesConfig'];
+  alarmRules?: DeviceProfileAlarmRule[];
+  defaultDashboardId?: string; // Dashboard ref
+}
+
+export interface TemplateDevice extends TemplateObject {
+  type?: DeviceType;
+  connectionType?: DeviceConnectionType;
+  protocol?: DeviceProtocol;
+  deviceProfileId?: string; // Device profile ref
+  manufacturer?: string;
+  model?: string;
+  configuration?: Record<string, any>;
+  metadata?: Record<string, any>;
+  tags?: string[];
+}
+
+export interface TemplateDashboard extends TemplateObject {
+  widgets?: (Omit<WidgetConfig, 'id'> & { id?: string })[]; // dataSource.deviceIds hold device refs
+  layout?: Dashboard['layout'];
+  settings?: Dashboard['settings'];
+  tags?: string[];
+}
+
+export interface TemplateAlarm extends TemplateObject {
+  deviceId: string; // Device ref
+  severity?: AlarmSeverity;
+  rule: AlarmRule;
+  autoClear?: boolean;
+  tags?: string[];
+}
+
+export interface TemplateAutomation extends TemplateObject {
+  enabled?: boolean;
+  trigger: Automation['trigger']; // trigger.deviceId holds a device ref
+  action: Automation['action']; // action.deviceId holds a device ref
+  settings?: Automation['settings'];
+  tags?: string[];
+}
+
+export interface SolutionTemplateConfiguration {
+  deviceProfiles?: TemplateDeviceProfile[];
+  devices?: TemplateDevice[];
+  dashboards?: TemplateDashboard[];
+  alarms?: TemplateAlarm[];
+  automations?: TemplateAutomation[];
+
+  // Legacy free-form sections — kept for display, not installed
+  rules?: any[];
+  widgets?: any[];
+}
+
+/**
+ * Ids of everything an installation created, grouped by kind. Uninstall
+ * removes exactly these.
+ */
+export interface InstalledResources {
+  deviceProfiles: string[];
+  devices: string[];
+  dashboards: string[];
+  alarms: string[];
+  automations: string[];
+}
@@ -0,0 +1,498 @@
+// src/modules/solution-templates/solution-template-installer.service.ts
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { DataSource, EntityManager } from 'typeorm';
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  Alarm,
+  Automation,
+  Dashboard,
+  Device,
+  DeviceCredentials,
+  DeviceProfile,
+  SolutionTemplate,
+  SolutionTemplateInstallation,
+  User,
+} from '@modules/index.entities';
+import { CredentialsType } from '@modules/devices/entities/device-credentials.entity';
+import {
+  AlarmStatus,
+  AutomationStatus,
+  DeviceStatus,
+} from '@common/enums/index.enum';
+import { SubscriptionUsage } from '@common/interfaces/subscription.interface';
+import { SubscriptionsService } from '@modules/subscriptions/subscriptions.service';
+import {
+  InstalledResources,
+  SolutionTemplateConfiguration,
+  TemplateObject,
+} from './interfaces/template-configuration.interface';
+import { InstallTemplateDto } from './dto/create-solution-template.dto';
+
+type ResourceKind = keyof InstalledResources;
+
+export interface InstallationPlan {
+  items: Record<ResourceKind, string[]>; // Names of the objects to create
+  errors: string[]; // Broken template — install refused
+}
+
+export interface InstallationLimitCheck {
+  resource: keyof SubscriptionUsage;
+  required: number;
+  remaining: number; // -1 when unlimited, like plan limits
+  allowed: boolean;
+}
+
+// Resources counted against the subscription, by kind
+const LIMITED_RESOURCES: Partial<
+  Record<ResourceKind, keyof SubscriptionUsage>
+> = {
+  devices: 'devices',
+  dashboards: 'dashboards',
+  automations: 'automations',
+};
+
+const EMPTY_RESOURCES = (): InstalledResources => ({
+  deviceProfiles: [],
+  devices: [],
+  dashboards: [],
+  alarms: [],
+  automations: [],
+});
+
+/**
+ * Turns SolutionTemplate.configuration into real tenant objects.
+ *
+ * Creation runs in one transaction in dependency order — device profiles,
+ * devices, dashboards, alarms, automations — remapping template refs to the
+ * new ids as it goes. The installation record lists everything created so
+ * uninstall() removes exactly that and nothing else.
+ */
+@Injectable()
+export class SolutionTemplateInstallerService {
+  private readonly logger = new Logger(SolutionTemplateInstallerService.name);
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly subscriptionsService: SubscriptionsService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PLAN
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Validate the configuration without touching the database: every object
+   * needs a unique ref and a name, and every reference must resolve.
+   */
+  plan(config: SolutionTemplateConfiguration = {}): InstallationPlan {
+    const items = EMPTY_RESOURCES();
+    const errors: string[] = [];
+    const refs = new Map<string, ResourceKind>();
+
+    for (const kind of Object.keys(items) as ResourceKind[]) {
+      const entries: TemplateObject[] = config[kind] ?? [];
+      entries.forEach((entry, index) => {
+        if (!entry?.ref || !entry?.name) {
+          errors.push(`${kind}[${index}] needs a ref and a name`);
+          return;
+        }
+        if (refs.has(entry.ref)) {
+          errors.push(`Duplicate ref "${entry.ref}"`);
+          return;
+        }
+        refs.set(entry.ref, kind);
+        items[kind].push(entry.name);
+      });
+    }
+
+    const expect = (
+      ref: string | undefined,
+      kind: ResourceKind,
+      where: string,
+    ) => {
+      if (ref !== undefined && refs.get(ref) !== kind) {
+        errors.push(`${where} references unknown ${kind} ref "${ref}"`);
+      }
+    };
+
+    for (const profile of config.deviceProfiles ?? []) {
+      expect(
+        profile.defaultDashboardId,
+        'dashboards',
+        `Device profile "${profile.ref}"`,
+      );
+    }
+    for (const device of config.devices ?? []) {
+      expect(
+        device.deviceProfileId,
+        'deviceProfiles',
+        `Device "${device.ref}"`,
+      );
+    }
+    for (const dashboard of config.dashboards ?? []) {
+      for (const widget of dashboard.widgets ?? []) {
+        for (const deviceRef of widget.dataSource?.deviceIds ?? []) {
+          expect(
+            deviceRef,
+            'devices',
+            `Widget "${widget.title}" on "${dashboard.ref}"`,
+          );
+        }
+      }
+    }
+    for (const alarm of config.alarms ?? []) {
+      if (!alarm.rule) errors.push(`Alarm "${alarm.ref}" has no rule`);
+      expect(alarm.deviceId, 'devices', `Alarm "${alarm.ref}"`);
+    }
+    for (const automation of config.automations ?? []) {
+      if (!automation.trigger || !automation.action) {
+        errors.push(
+          `Automation "${automation.ref}" needs a trigger and an action`,
+        );
+        continue;
+      }
+      expect(
+        automation.trigger.deviceId,
+        'devices',
+        `Automation "${automation.ref}" trigger`,
+      );
+      expect(
+        automation.action.deviceId,
+        'devices',
+        `Automation "${automation.ref}" action`,
+      );
+    }
+
+    return { items, errors };
+  }
+
+  /**
+   * Check the plan against the tenant subscription. Every limited resource
+   * the template creates must fit in the remaining capacity.
+   */
+  async checkLimits(
+    tenantId: string,
+    plan: InstallationPlan,
+  ): Promise<InstallationLimitCheck[]> {
+    const checks: InstallationLimitCheck[] = [];
+    const subscription = await this.subscriptionsService
+      .findByTenantId(tenantId)
+      .catch(() => null);
+
+    for (const [kind, resource] of Object.entries(LIMITED_RESOURCES) as [
+      ResourceKind,
+      keyof SubscriptionUsage,
+    ][]) {
+      const required = plan.items[kind].length;
+      if (required === 0) continue;
+
+      const canCreate = await this.subscriptionsService.canTenantPerformAction(
+        tenantId,
+        resource,
+      );
+      const remaining =
+        canCreate && subscription
+          ? subscription.getRemainingCapacity(resource)
+          : 0;
+
+      checks.push({
+        resource,
+        required,
+        remaining: Number.isFinite(remaining) ? remaining : -1,
+        allowed: required <= remaining,
+      });
+    }
+
+    return checks;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // INSTALL
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async install(
+    template: SolutionTemplate,
+    user: User,
+    tenantId: string,
+    installDto: InstallTemplateDto,
+  ): Promise<SolutionTemplateInstallation> {
+    const config = template.configuration ?? {};
+    const plan = this.plan(config);
+
+    if (plan.errors.length > 0) {
+      throw new BadRequestException(
+        `Template "${template.name}" cannot be installed: ${plan.errors.join('; ')}`,
+      );
+    }
+
+    const exceeded = (await this.checkLimits(tenantId, plan)).filter(
+      (c) => !c.allowed,
+    );
+    if (exceeded.length > 0) {
+      throw new ForbiddenException(
+        `Subscription limit reached: ` +
+          exceeded
+            .map(
+              (c) =>
+                `${c.resource} needs ${c.required}, ${c.remaining} remaining`,
+            )
+            .join(', ') +
+          '. Please upgrade your subscription to install this template.',
+      );
+    }
+
+    const installation = await this.dataSource.transaction((manager) =>
+      this.createResources(
+        manager,
+        template,
+        config,
+        user,
+        tenantId,
+        installDto,
+      ),
+    );
+
+    for (const [kind, resource] of Object.entries(LIMITED_RESOURCES)) {
+      const created = installation.resources[kind as ResourceKind].length;
+      if (created > 0) {
+        void this.subscriptionsService.incrementTenantUsage(
+          tenantId,
+          resource,
+          created,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Template ${template.id} installed for tenant ${tenantId} (installation ${installation.id})`,
+    );
+    return installation;
+  }
+
+  private async createResources(
+    manager: EntityManager,
+    template: SolutionTemplate,
+    config: SolutionTemplateConfiguration,
+    user: User,
+    tenantId: string,
+    installDto: InstallTemplateDto,
+  ): Promise<SolutionTemplateInstallation> {
+    const resources = EMPTY_RESOURCES();
+    const idMap: Record<string, string> = {};
+    const resolve = (ref?: string) =>
+      ref === undefined ? undefined : idMap[ref];
+
+    // ── 1. Device profiles ─────────────────────────────────────────────────
+    const profiles: DeviceProfile[] = [];
+    for (const { ref, defaultDashboardId, ...entry } of config.deviceProfiles ??
+      []) {
+      const profile = await manager.save(
+        manager.create(DeviceProfile, {
+          ...entry,
+          tenantId,
+          createdBy: user.id,
+        }),
+      );
+      idMap[ref] = profile.id;
+      resources.deviceProfiles.push(profile.id);
+      if (defaultDashboardId) profiles.push(profile);
+    }
+
+    // ── 2. Devices (+ access-token credentials) ────────────────────────────
+    for (const { ref, deviceProfileId, ...entry } of config.devices ?? []) {
+      const device = await manager.save(
+        manager.create(Device, {
+          ...entry,
+          deviceKey: `dev_${randomBytes(8).toString('hex')}`,
+          deviceProfileId: resolve(deviceProfileId),
+          tenantId,
+          userId: user.id,
+          status: DeviceStatus.INACTIVE,
+          createdBy: user.id,
+        }),
+      );
+      await manager.save(
+        manager.create(DeviceCredentials, {
+          deviceId: device.id,
+          credentialsType: CredentialsType.ACCESS_TOKEN,
+          credentialsId: `${device.deviceKey}_${DeviceCredentials.generateToken()}`,
+        }),
+      );
+      idMap[ref] = device.id;
+      resources.devices.push(device.id);
+    }
+
+    // ── 3. Dashboards with widgets ─────────────────────────────────────────
+    for (const { ref, widgets = [], ...entry } of config.dashboards ?? []) {
+      const dashboard = await manager.save(
+        manager.create(Dashboard, {
+          ...entry,
+          tenantId,
+          userId: user.id,
+          createdBy: user.id,
+          widgets: widgets.map((widget) => ({
+            ...widget,
+            id: randomUUID(),
+            dataSource: {
+              ...widget.dataSource,
+              deviceIds: widget.dataSource?.deviceIds?.map(
+                (deviceRef) => idMap[deviceRef],
+              ),
+            },
+          })),
+        }),
+      );
+      idMap[ref] = dashboard.id;
+      resources.dashboards.push(dashboard.id);
+    }
+
+    // Profiles pointing at a template dashboard can only be linked now
+    for (const profile of profiles) {
+      const source = config.deviceProfiles!.find(
+        (p) => idMap[p.ref] === profile.id,
+      );
+      await manager.update(DeviceProfile, profile.id, {
+        defaultDashboardId: resolve(source?.defaultDashboardId),
+      });
+    }
+
+    // ── 4. Alarm rules ─────────────────────────────────────────────────────
+    for (const { ref, deviceId, ...entry } of config.alarms ?? []) {
+      const alarm = await manager.save(
+        manager.create(Alarm, {
+          ...entry,
+          deviceId: resolve(deviceId),
+          tenantId,
+          status: AlarmStatus.INACTIVE,
+          createdBy: user.id,
+        }),
+      );
+      idMap[ref] = alarm.id;
+      resources.alarms.push(alarm.id);
+    }
+
+    // ── 5. Automations ─────────────────────────────────────────────────────
+    for (const {
+      ref,
+      trigger,
+      action,
+      enabled = true,
+      ...entry
+    } of config.automations ?? []) {
+      const automation = await manager.save(
+        manager.create(Automation, {
+          ...entry,
+          enabled,
+          status: enabled ? AutomationStatus.ACTIVE : AutomationStatus.INACTIVE,
+          trigger: { ...trigger, deviceId: resolve(trigger.deviceId) },
+          action: { ...action, deviceId: resolve(action.deviceId) },
+          tenantId,
+          userId: user.id,
+          createdBy: user.id,
+        }),
+      );
+      idMap[ref] = automation.id;
+      resources.automations.push(automation.id);
+    }
+
+    return manager.save(
+      manager.create(SolutionTemplateInstallation, {
+        tenantId,
+        userId: user.id,
+        templateId: template.id,
+        templateVersion: template.version,
+        name: installDto.installationName || template.name,
+        customization: installDto.customization as Record<string, any>,
+        resources,
+        idMap,
+        createdBy: user.id,
+      }),
+    );
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // UNINSTALL
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Remove everything the installation created, in reverse dependency order,
+   * then soft-remove the installation record itself. Objects already deleted
+   * by hand are skipped.
+   */
+  async uninstall(
+    installation: SolutionTemplateInstallation,
+    userId: string,
+  ): Promise<void> {
+    const { resources } = installation;
+    const removed = EMPTY_RESOURCES();
+
+    await this.dataSource.transaction(async (manager) => {
+      const softDelete = async (
+        kind: ResourceKind,
+        entity:
+          | typeof Automation
+          | typeof Alarm
+          | typeof Dashboard
+          | typeof Device
+          | typeof DeviceProfile,
+      ) => {
+        const ids = resources[kind] ?? [];
+        if (ids.length === 0) return;
+
+        const rows = await manager
+          .getRepository<{ id: string }>(entity)
+          .createQueryBuilder('entity')
+          .select('entity.id')
+          .where('entity.id IN (:...ids)', { ids })
+          .andWhere('entity.tenantId = :tenantId', {
+            tenantId: installation.tenantId,
+          })
+          .getMany();
+
+        removed[kind] = rows.map((row) => row.id);
+        if (removed[kind].length > 0) {
+          await manager.softDelete(entity, removed[kind]);
+        }
+      };
+
+      await softDelete('automations', Automation);
+      await softDelete('alarms', Alarm);
+      await softDelete('dashboards', Dashboard);
+
+      if (resources.devices.length > 0) {
+        await manager
+          .createQueryBuilder()
+          .delete()
+          .from(DeviceCredentials)
+          .where('"deviceId" IN (:...ids)', { ids: resources.devices })
+          .execute();
+      }
+      await softDelete('devices', Device);
+      await softDelete('deviceProfiles', DeviceProfile);
+
+      installation.deletedBy = userId;
+      await manager.save(installation);
+      await manager.softRemove(installation);
+    });
+
+    for (const [kind, resource] of Object.entries(LIMITED_RESOURCES)) {
+      const count = removed[kind as ResourceKind].length;
+      if (count > 0) {
+        void this.subscriptionsService.decrementTenantUsage(
+          installation.tenantId,
+          resource,
+          count,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Installation ${installation.id} of template ${installation.templateId} uninstalled`,
+    );
+  }
+}
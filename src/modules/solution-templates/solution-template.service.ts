@@ -2,12 +2,16 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import {
   SolutionTemplate,
 } from './entities/solution-template.entity';
+import { SolutionTemplateInstallation } from './entities/solution-template-installation.entity';
+import { SolutionTemplateInstallerService } from './solution-template-installer.service';
+import { User } from '../users/entities/user.entity';
 import { SolutionTemplateCategory as TemplateCategory } from '@common/enums/index.enum'
 import {
   CreateSolutionTemplateDto,
@@ -22,6 +26,9 @@ export class SolutionTemplatesService {
   constructor(
     @InjectRepository(SolutionTemplate)
     private readonly templateRepository: Repository<SolutionTemplate>,
+    @InjectRepository(SolutionTemplateInstallation)
+    private readonly installationRepository: Repository<SolutionTemplateInstallation>,
+    private readonly installer: SolutionTemplateInstallerService,
   ) { }
 
   async create(
@@ -131,32 +138,88 @@ export class SolutionTemplatesService {
 
   async install(
     id: string,
-    userId: string,
+    user: User,
     installDto: InstallTemplateDto,
   ): Promise<{ success: boolean; message: string; data?: any }> {
+    if (!user.tenantId) {
+      throw new BadRequestException('Templates can only be installed into a tenant');
+    }
+
     const template = await this.findOne(id);
 
-    // Increment install count
-    template.installs += 1;
-    await this.templateRepository.save(template);
+    if (installDto.dryRun) {
+      const plan = this.installer.plan(template.configuration);
+      const limits = await this.installer.checkLimits(user.tenantId, plan);
+      const installable =
+        plan.errors.length === 0 && limits.every((check) => check.allowed);
+
+      return {
+        success: installable,
+        message: installable
+          ? `Template "${template.name}" can be installed`
+          : `Template "${template.name}" cannot be installed`,
+        data: {
+          templateId: template.id,
+          templateName: template.name,
+          installationName: installDto.installationName || template.name,
+          create: plan.items,
+          limits,
+          errors: plan.errors,
+        },
+      };
+    }
+
+    const installation = await this.installer.install(
+      template,
+      user,
+      user.tenantId,
+      installDto,
+    );
 
-    // TODO: Implement actual installation logic
-    // This would create devices, dashboards, rules, etc. based on the template configuration
+    await this.templateRepository.increment({ id: template.id }, 'installs', 1);
 
     return {
       success: true,
       message: `Template "${template.name}" installed successfully`,
       data: {
+        installationId: installation.id,
         templateId: template.id,
         templateName: template.name,
-        installationName: installDto.installationName || template.name,
-        devicesCreated: template.devices,
-        dashboardsCreated: template.dashboards,
-        rulesCreated: template.rules,
+        installationName: installation.name,
+        devicesCreated: installation.resources.devices.length,
+        dashboardsCreated: installation.resources.dashboards.length,
+        rulesCreated:
+          installation.resources.alarms.length +
+          installation.resources.automations.length,
+        resources: installation.resources,
+        idMap: installation.idMap,
       },
     };
   }
 
+  async findInstallations(
+    tenantId: string | undefined,
+    templateId?: string,
+  ): Promise<SolutionTemplateInstallation[]> {
+    return this.installationRepository.find({
+      where: { tenantId, ...(templateId ? { templateId } : {}) },
+      relations: ['template'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async uninstall(installationId: string, user: User): Promise<void> {
+    const installation = await this.installationRepository.findOne({
+      where: { id: installationId, tenantId: user.tenantId },
+    });
+
+    if (!installation) {
+      throw new NotFoundException('Template installation not found');
+    }
+
+    await this.installer.uninstall(installation, user.id);
+  }
+
   async getCategories(): Promise<
     { category: string; name: string; icon: string; count: number }[]
   > {
@@ -72,6 +72,31 @@ export class SolutionTemplatesController {
     return this.solutionTemplatesService.getStatistics();
   }
 
+  @Get('installations')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List template installations of the current tenant' })
+  @ApiResponse({ status: 200, description: 'List of installations' })
+  findInstallations(
+    @CurrentUser() user: User,
+    @Query('templateId') templateId?: string,
+  ) {
+    return this.solutionTemplatesService.findInstallations(user.tenantId, templateId);
+  }
+
+  @Delete('installations/:installationId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Uninstall a template installation and remove what it created' })
+  @ApiResponse({ status: 404, description: 'Installation not found' })
+  uninstall(
+    @CurrentUser() user: User,
+    @Param('installationId', ParseIdPipe) installationId: string,
+  ) {
+    return this.solutionTemplatesService.uninstall(installationId, user);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get template by ID' })
   @ApiResponse({ status: 200, description: 'Template details' })
@@ -105,14 +130,19 @@ export class SolutionTemplatesController {
   @Post(':id/install')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Install solution template' })
+  @ApiOperation({
+    summary: 'Install solution template',
+    description: 'Creates the template devices, profiles, dashboards, alarms and automations in one transaction. Set dryRun to preview.',
+  })
   @ApiResponse({ status: 200, description: 'Template installed successfully' })
+  @ApiResponse({ status: 400, description: 'Template configuration is invalid' })
+  @ApiResponse({ status: 403, description: 'Subscription limit reached' })
   install(
     @CurrentUser() user: User,
     @Param('id', ParseIdPipe) id: string,
     @Body() installDto: InstallTemplateDto,
   ) {
-    return this.solutionTemplatesService.install(id, user.id, installDto);
+    return this.solutionTemplatesService.install(id, user, installDto);
   }
 
   @Post(':id/rate')
@@ -2,12 +2,18 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { SolutionTemplatesService } from './solution-template.service';
 import { SolutionTemplatesController } from './solution-templates.controller';
+import { SolutionTemplateInstallerService } from './solution-template-installer.service';
 import { SolutionTemplate } from './entities/solution-template.entity';
+import { SolutionTemplateInstallation } from './entities/solution-template-installation.entity';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([SolutionTemplate])],
+  imports: [
+    TypeOrmModule.forFeature([SolutionTemplate, SolutionTemplateInstallation]),
+    SubscriptionsModule,
+  ],
   controllers: [SolutionTemplatesController],
-  providers: [SolutionTemplatesService],
+  providers: [SolutionTemplatesService, SolutionTemplateInstallerService],
   exports: [SolutionTemplatesService],
 })
 export class SolutionTemplatesModule {}
@@ -0,0 +1,232 @@
+// src/modules/sparkplug/__tests__/sparkplug-payload.spec.ts
+// Sparkplug B protobuf wire format — round trips per datatype, signed
+// integers, and malformed input from edge nodes
+
+import {
+  SparkplugDataType,
+  SparkplugMetric,
+  decodePayload,
+  encodePayload,
+} from '../sparkplug-payload';
+
+describe('Sparkplug payload', () => {
+  const roundTrip = (metric: SparkplugMetric): SparkplugMetric =>
+    decodePayload(encodePayload({ metrics: [metric] })).metrics[0];
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ROUND TRIPS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('round trip', () => {
+    it.each([
+      ['Int8', SparkplugDataType.Int8, -128],
+      ['Int16', SparkplugDataType.Int16, 32767],
+      ['Int32', SparkplugDataType.Int32, 2147483647],
+      ['Int64', SparkplugDataType.Int64, 9007199254740991],
+      ['UInt8', SparkplugDataType.UInt8, 255],
+      ['UInt16', SparkplugDataType.UInt16, 65535],
+      ['UInt32', SparkplugDataType.UInt32, 4294967295],
+      ['UInt64', SparkplugDataType.UInt64, 42],
+      ['Float', SparkplugDataType.Float, 21.5],
+      ['Double', SparkplugDataType.Double, 0.1 + 0.2],
+      ['Boolean', SparkplugDataType.Boolean, true],
+      ['String', SparkplugDataType.String, 'pump läuft'],
+      ['DateTime', SparkplugDataType.DateTime, 1767225600000],
+      ['Text', SparkplugDataType.Text, 'line one\nline two'],
+      ['UUID', SparkplugDataType.UUID, '0b5c3c1e-6a2f-4d8e-9c41-2f0e8a7b6d11'],
+    ])('should keep a %s metric', (_name, datatype, value) => {
+      expect(
+        roundTrip({ name: 'Node Control/Value', datatype, value }),
+      ).toEqual({ name: 'Node Control/Value', datatype, value });
+    });
+
+    it.each([
+      ['Bytes', SparkplugDataType.Bytes],
+      ['File', SparkplugDataType.File],
+    ])('should keep a %s metric', (_name, datatype) => {
+      const value = Buffer.from([0x00, 0xff, 0x10, 0x80]);
+
+      const decoded = roundTrip({ name: 'blob', datatype, value });
+
+      expect(Buffer.isBuffer(decoded.value)).toBe(true);
+      expect(decoded.value).toEqual(value);
+    });
+
+    it('should keep a null metric as null', () => {
+      expect(
+        roundTrip({ name: 'temp', datatype: SparkplugDataType.Double }),
+      ).toEqual({
+        name: 'temp',
+        datatype: SparkplugDataType.Double,
+        isNull: true,
+        value: null,
+      });
+    });
+
+    it('should keep the payload fields around the metrics', () => {
+      const payload = {
+        timestamp: 1767225600000,
+        seq: 255,
+        uuid: 'edge-node-1',
+        body: Buffer.from('raw'),
+        metrics: [
+          {
+            name: 'bdSeq',
+            timestamp: 1767225600000,
+            datatype: SparkplugDataType.Int64,
+            value: 3,
+          },
+        ],
+      };
+
+      expect(decodePayload(encodePayload(payload))).toEqual(payload);
+    });
+
+    it('should keep UInt64 values beyond 2^53 as strings', () => {
+      expect(
+        roundTrip({
+          name: 'counter',
+          datatype: SparkplugDataType.UInt64,
+          value: '18446744073709551615',
+        }).value,
+      ).toBe('18446744073709551615');
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // SIGNED INTEGERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('signed integers', () => {
+    it('should write a negative Int32 as two’s complement uint32', () => {
+      const encoded = encodePayload({
+        metrics: [{ alias: 1, datatype: SparkplugDataType.Int32, value: -1 }],
+      });
+
+      // int_value (field 10, varint) = 0xFFFFFFFF
+      expect(
+        encoded.includes(Buffer.from([0x50, 0xff, 0xff, 0xff, 0xff, 0x0f])),
+      ).toBe(true);
+      expect(decodePayload(encoded).metrics[0].value).toBe(-1);
+    });
+
+    it.each([
+      [SparkplugDataType.Int8, -1],
+      [SparkplugDataType.Int16, -32768],
+      [SparkplugDataType.Int32, -2147483648],
+      [SparkplugDataType.Int64, -1],
+      [SparkplugDataType.Int64, -9007199254740991],
+    ])('should read datatype %i value %i back', (datatype, value) => {
+      expect(roundTrip({ alias: 1, datatype, value }).value).toBe(value);
+    });
+
+    it('should keep Int64 values beyond -2^53 as strings', () => {
+      expect(
+        roundTrip({
+          alias: 1,
+          datatype: SparkplugDataType.Int64,
+          value: '-9223372036854775808',
+        }).value,
+      ).toBe('-9223372036854775808');
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ALIASES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('alias-only metrics', () => {
+    it('should decode DATA metrics that carry an alias and no name', () => {
+      const decoded = decodePayload(
+        encodePayload({
+          timestamp: 1767225600000,
+          seq: 4,
+          metrics: [
+            { alias: 7, datatype: SparkplugDataType.Double, value: 21.25 },
+            { alias: 8, datatype: SparkplugDataType.Boolean, value: false },
+          ],
+        }),
+      );
+
+      expect(decoded.metrics).toEqual([
+        { alias: 7, datatype: SparkplugDataType.Double, value: 21.25 },
+        { alias: 8, datatype: SparkplugDataType.Boolean, value: false },
+      ]);
+      expect(decoded.metrics[0].name).toBeUndefined();
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // MALFORMED INPUT
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('malformed payloads', () => {
+    const valid = encodePayload({
+      timestamp: 1767225600000,
+      metrics: [
+        { name: 'temp', datatype: SparkplugDataType.Double, value: 21.5 },
+      ],
+    });
+
+    it('should refuse a truncated buffer', () => {
+      // Cutting after the timestamp (7 bytes) leaves a valid payload
+      for (let length = 1; length < valid.length; length++) {
+        if (length === 7) continue;
+        expect(() => decodePayload(valid.subarray(0, length))).toThrow(
+          'Truncated Sparkplug payload',
+        );
+      }
+    });
+
+    it('should refuse a length prefix that runs past the buffer', () => {
+      // metrics (field 2, bytes) claiming 100 bytes with 2 present
+      expect(() =>
+        decodePayload(Buffer.from([0x12, 0x64, 0x0a, 0x00])),
+      ).toThrow('Truncated Sparkplug payload');
+    });
+
+    it('should refuse a varint longer than 64 bits', () => {
+      const overlong = Buffer.from([
+        0x08,
+        ...Array<number>(10).fill(0xff),
+        0x01,
+      ]);
+
+      expect(() => decodePayload(overlong)).toThrow(
+        'Invalid varint in Sparkplug payload',
+      );
+    });
+
+    it('should refuse an unknown wire type', () => {
+      // Field 9, wire type 7
+      expect(() => decodePayload(Buffer.from([0x4f]))).toThrow(
+        'Unsupported wire type 7 in Sparkplug payload',
+      );
+    });
+
+    it('should skip fields it does not read', () => {
+      const withExtras = Buffer.concat([
+        Buffer.from([0x3a, 0x02, 0xaa, 0xbb]), // field 7, bytes
+        valid,
+      ]);
+
+      expect(decodePayload(withExtras)).toEqual(decodePayload(valid));
+    });
+
+    it('should decode an empty buffer as a payload without metrics', () => {
+      expect(decodePayload(Buffer.alloc(0))).toEqual({ metrics: [] });
+    });
+  });
+
+  describe('encode', () => {
+    it('should refuse a datatype it cannot write', () => {
+      expect(() =>
+        encodePayload({
+          metrics: [
+            { name: 'set', datatype: SparkplugDataType.DataSet, value: 'x' },
+          ],
+        }),
+      ).toThrow('Cannot write Sparkplug datatype 16');
+    });
+  });
+});
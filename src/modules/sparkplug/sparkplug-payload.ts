@@ -0,0 +1,399 @@
+// src/modules/sparkplug/sparkplug-payload.ts
+//
+// Sparkplug B payload (sparkplug_b.proto, org.eclipse.tahu.protobuf.Payload)
+// encoded by hand — only the protobuf wire format is needed, not a runtime.
+// DataSet, Template, PropertySet and MetaData fields are skipped on decode.
+
+export enum SparkplugDataType {
+  Int8 = 1,
+  Int16 = 2,
+  Int32 = 3,
+  Int64 = 4,
+  UInt8 = 5,
+  UInt16 = 6,
+  UInt32 = 7,
+  UInt64 = 8,
+  Float = 9,
+  Double = 10,
+  Boolean = 11,
+  String = 12,
+  DateTime = 13,
+  Text = 14,
+  UUID = 15,
+  DataSet = 16,
+  Bytes = 17,
+  File = 18,
+  Template = 19,
+}
+
+export type SparkplugValue = number | boolean | string | Buffer | null;
+
+export interface SparkplugMetric {
+  name?: string;
+  alias?: number;
+  timestamp?: number;
+  datatype?: SparkplugDataType;
+  isHistorical?: boolean;
+  isTransient?: boolean;
+  isNull?: boolean;
+  value?: SparkplugValue;
+}
+
+export interface SparkplugPayload {
+  timestamp?: number;
+  metrics: SparkplugMetric[];
+  seq?: number;
+  uuid?: string;
+  body?: Buffer;
+}
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+// ══════════════════════════════════════════════════════════════════════════
+// DECODE
+// ══════════════════════════════════════════════════════════════════════════
+
+export function decodePayload(buffer: Buffer): SparkplugPayload {
+  const reader = new Reader(buffer);
+  const payload: SparkplugPayload = { metrics: [] };
+
+  while (!reader.done()) {
+    const [field, wireType] = reader.tag();
+    switch (field) {
+      case 1:
+        payload.timestamp = Number(reader.varint());
+        break;
+      case 2:
+        payload.metrics.push(decodeMetric(reader.bytes()));
+        break;
+      case 3:
+        payload.seq = Number(reader.varint());
+        break;
+      case 4:
+        payload.uuid = reader.bytes().toString('utf-8');
+        break;
+      case 5:
+        payload.body = reader.bytes();
+        break;
+      default:
+        reader.skip(wireType);
+    }
+  }
+
+  return payload;
+}
+
+function decodeMetric(buffer: Buffer): SparkplugMetric {
+  const reader = new Reader(buffer);
+  const metric: SparkplugMetric = {};
+  let intValue: bigint | undefined;
+
+  while (!reader.done()) {
+    const [field, wireType] = reader.tag();
+    switch (field) {
+      case 1:
+        metric.name = reader.bytes().toString('utf-8');
+        break;
+      case 2:
+        metric.alias = Number(reader.varint());
+        break;
+      case 3:
+        metric.timestamp = Number(reader.varint());
+        break;
+      case 4:
+        metric.datatype = Number(reader.varint());
+        break;
+      case 5:
+        metric.isHistorical = reader.varint() !== 0n;
+        break;
+      case 6:
+        metric.isTransient = reader.varint() !== 0n;
+        break;
+      case 7:
+        metric.isNull = reader.varint() !== 0n;
+        break;
+      case 10: // int_value (uint32)
+      case 11: // long_value (uint64)
+        intValue = reader.varint();
+        break;
+      case 12:
+        metric.value = reader.fixed32().readFloatLE(0);
+        break;
+      case 13:
+        metric.value = reader.fixed64().readDoubleLE(0);
+        break;
+      case 14:
+        metric.value = reader.varint() !== 0n;
+        break;
+      case 15:
+        metric.value = reader.bytes().toString('utf-8');
+        break;
+      case 16:
+        metric.value = reader.bytes();
+        break;
+      default:
+        reader.skip(wireType); // metadata, properties, dataset, template
+    }
+  }
+
+  if (intValue !== undefined) {
+    metric.value = fromWireInteger(intValue, metric.datatype);
+  }
+  if (metric.isNull) metric.value = null;
+
+  return metric;
+}
+
+/** Signed types travel as two's complement in uint32 / uint64 */
+function fromWireInteger(
+  value: bigint,
+  datatype?: SparkplugDataType,
+): number | string {
+  switch (datatype) {
+    case SparkplugDataType.Int8:
+      return Number(BigInt.asIntN(8, value));
+    case SparkplugDataType.Int16:
+      return Number(BigInt.asIntN(16, value));
+    case SparkplugDataType.Int32:
+      return Number(BigInt.asIntN(32, value));
+    case SparkplugDataType.Int64:
+      return toNumberOrString(BigInt.asIntN(64, value));
+    default:
+      return toNumberOrString(value);
+  }
+}
+
+// Beyond 2^53 a JS number loses precision — such values are kept as strings
+function toNumberOrString(value: bigint): number | string {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+    value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+}
+
+// ══════════════════════════════════════════════════════════════════════════
+// ENCODE
+// ══════════════════════════════════════════════════════════════════════════
+
+export function encodePayload(payload: SparkplugPayload): Buffer {
+  const writer = new Writer();
+
+  if (payload.timestamp !== undefined) {
+    writer.tag(1, WIRE_VARINT).varint(BigInt(payload.timestamp));
+  }
+  for (const metric of payload.metrics) {
+    writer.tag(2, WIRE_BYTES).bytes(encodeMetric(metric));
+  }
+  if (payload.seq !== undefined) {
+    writer.tag(3, WIRE_VARINT).varint(BigInt(payload.seq));
+  }
+  if (payload.uuid !== undefined) {
+    writer.tag(4, WIRE_BYTES).bytes(Buffer.from(payload.uuid, 'utf-8'));
+  }
+  if (payload.body !== undefined) {
+    writer.tag(5, WIRE_BYTES).bytes(payload.body);
+  }
+
+  return writer.finish();
+}
+
+function encodeMetric(metric: SparkplugMetric): Buffer {
+  const writer = new Writer();
+
+  if (metric.name !== undefined) {
+    writer.tag(1, WIRE_BYTES).bytes(Buffer.from(metric.name, 'utf-8'));
+  }
+  if (metric.alias !== undefined) {
+    writer.tag(2, WIRE_VARINT).varint(BigInt(metric.alias));
+  }
+  if (metric.timestamp !== undefined) {
+    writer.tag(3, WIRE_VARINT).varint(BigInt(metric.timestamp));
+  }
+  if (metric.datatype !== undefined) {
+    writer.tag(4, WIRE_VARINT).varint(BigInt(metric.datatype));
+  }
+  if (metric.value === null || metric.value === undefined) {
+    writer.tag(7, WIRE_VARINT).varint(1n);
+    return writer.finish();
+  }
+
+  const value = metric.value;
+  switch (metric.datatype) {
+    case SparkplugDataType.Int8:
+    case SparkplugDataType.Int16:
+    case SparkplugDataType.Int32:
+    case SparkplugDataType.UInt8:
+    case SparkplugDataType.UInt16:
+    case SparkplugDataType.UInt32:
+      writer
+        .tag(10, WIRE_VARINT)
+        .varint(BigInt.asUintN(32, BigInt(Math.trunc(Number(value)))));
+      break;
+    case SparkplugDataType.Int64:
+    case SparkplugDataType.UInt64:
+    case SparkplugDataType.DateTime:
+      writer
+        .tag(11, WIRE_VARINT)
+        .varint(BigInt.asUintN(64, BigInt(toIntegerString(value))));
+      break;
+    case SparkplugDataType.Float: {
+      const bytes = Buffer.alloc(4);
+      bytes.writeFloatLE(Number(value), 0);
+      writer.tag(12, WIRE_FIXED32).raw(bytes);
+      break;
+    }
+    case SparkplugDataType.Double: {
+      const bytes = Buffer.alloc(8);
+      bytes.writeDoubleLE(Number(value), 0);
+      writer.tag(13, WIRE_FIXED64).raw(bytes);
+      break;
+    }
+    case SparkplugDataType.Boolean:
+      writer.tag(14, WIRE_VARINT).varint(toBoolean(value) ? 1n : 0n);
+      break;
+    case SparkplugDataType.String:
+    case SparkplugDataType.Text:
+    case SparkplugDataType.UUID:
+      writer.tag(15, WIRE_BYTES).bytes(Buffer.from(String(value), 'utf-8'));
+      break;
+    case SparkplugDataType.Bytes:
+    case SparkplugDataType.File:
+      writer
+        .tag(16, WIRE_BYTES)
+        .bytes(
+          Buffer.isBuffer(value) ? value : Buffer.from(String(value), 'base64'),
+        );
+      break;
+    default:
+      throw new Error(
+        `Cannot write Sparkplug datatype ${metric.datatype ?? 'unknown'}`,
+      );
+  }
+
+  return writer.finish();
+}
+
+function toIntegerString(value: Exclude<SparkplugValue, null>): string {
+  if (typeof value === 'string' && /^-?\d+$/.test(value)) return value;
+  return String(Math.trunc(Number(value)));
+}
+
+function toBoolean(value: Exclude<SparkplugValue, null>): boolean {
+  if (typeof value === 'string') return value === 'true' || value === '1';
+  return Boolean(value);
+}
+
+// ══════════════════════════════════════════════════════════════════════════
+// WIRE FORMAT
+// ══════════════════════════════════════════════════════════════════════════
+
+class Reader {
+  private offset = 0;
+
+  constructor(private readonly buffer: Buffer) {}
+
+  done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  tag(): [field: number, wireType: number] {
+    const key = Number(this.varint());
+    return [key >>> 3, key & 0x7];
+  }
+
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      if (this.offset >= this.buffer.length) {
+        throw new Error('Truncated Sparkplug payload');
+      }
+      const byte = this.buffer[this.offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+      if (shift > 63n) throw new Error('Invalid varint in Sparkplug payload');
+    }
+  }
+
+  fixed32(): Buffer {
+    return this.take(4);
+  }
+
+  fixed64(): Buffer {
+    return this.take(8);
+  }
+
+  bytes(): Buffer {
+    return this.take(Number(this.varint()));
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_FIXED64:
+        this.take(8);
+        break;
+      case WIRE_BYTES:
+        this.bytes();
+        break;
+      case WIRE_FIXED32:
+        this.take(4);
+        break;
+      default:
+        throw new Error(
+          `Unsupported wire type ${wireType} in Sparkplug payload`,
+        );
+    }
+  }
+
+  private take(length: number): Buffer {
+    if (this.offset + length > this.buffer.length) {
+      throw new Error('Truncated Sparkplug payload');
+    }
+    const slice = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+}
+
+class Writer {
+  private readonly chunks: Buffer[] = [];
+
+  tag(field: number, wireType: number): this {
+    return this.varint(BigInt((field << 3) | wireType));
+  }
+
+  varint(value: bigint): this {
+    const bytes: number[] = [];
+    let rest = value;
+    do {
+      let byte = Number(rest & 0x7fn);
+      rest >>= 7n;
+      if (rest > 0n) byte |= 0x80;
+      bytes.push(byte);
+    } while (rest > 0n);
+    this.chunks.push(Buffer.from(bytes));
+    return this;
+  }
+
+  bytes(value: Buffer): this {
+    this.varint(BigInt(value.length));
+    this.chunks.push(value);
+    return this;
+  }
+
+  raw(value: Buffer): this {
+    this.chunks.push(value);
+    return this;
+  }
+
+  finish(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
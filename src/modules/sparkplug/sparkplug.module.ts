@@ -0,0 +1,22 @@
+// src/modules/sparkplug/sparkplug.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SparkplugService } from './sparkplug.service';
+import { Device, DeviceProfile } from '@modules/index.entities';
+import { DevicesModule } from '@modules/devices/devices.module';
+import { ProtocolsModule } from '@modules/protocols/protocols.module';
+
+// MQTTService hands spBv1.0/# messages over as 'sparkplug.message' events;
+// SparkplugService decodes them and feeds DeviceListenerService.
+// GatewayService encodes NCMD / DCMD writes through SparkplugService.
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Device, DeviceProfile]),
+    DevicesModule,
+    ProtocolsModule,
+  ],
+  providers: [SparkplugService],
+  exports: [SparkplugService],
+})
+export class SparkplugModule {}
@@ -0,0 +1,599 @@
+// src/modules/sparkplug/sparkplug.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import { Device, DeviceProfile } from '@modules/index.entities';
+import { DeviceProtocol } from '@modules/devices/entities/device.entity';
+import { DeviceType } from '@common/enums/index.enum';
+import { DeviceListenerService } from '@modules/protocols/device-listener.service';
+import { DeviceProvisioningService } from '@modules/devices/device-provisioning.service';
+import { DeviceConnectivityService } from '@modules/devices/device-connectivity.service';
+import { MQTTService } from '@/lib/mqtt/mqtt.service';
+import type { StandardTelemetry } from '@common/interfaces/standard-telemetry.interface';
+import type { DeviceCommand } from '@modules/gateway/gateway.service';
+import {
+  decodePayload,
+  encodePayload,
+  SparkplugDataType,
+  SparkplugMetric,
+  SparkplugPayload,
+  SparkplugValue,
+} from './sparkplug-payload';
+
+const NAMESPACE = 'spBv1.0';
+const REBIRTH_METRIC = 'Node Control/Rebirth';
+// An edge node is asked to rebirth at most this often
+const REBIRTH_INTERVAL_MS = 30_000;
+// How long a group → profile lookup is reused before it is read again
+const GROUP_CACHE_TTL_MS = 60_000;
+
+type MessageType =
+  | 'NBIRTH'
+  | 'NDATA'
+  | 'NDEATH'
+  | 'DBIRTH'
+  | 'DDATA'
+  | 'DDEATH';
+
+const HANDLED_TYPES: MessageType[] = [
+  'NBIRTH',
+  'NDATA',
+  'NDEATH',
+  'DBIRTH',
+  'DDATA',
+  'DDEATH',
+];
+
+export interface SparkplugMessageEvent {
+  topic: string;
+  payload: Buffer;
+}
+
+interface SparkplugTopic {
+  groupId: string;
+  messageType: MessageType;
+  edgeNodeId: string;
+  deviceId?: string;
+  tenantId: string; // of the profile the group is bound to
+}
+
+/** Stored in device.metadata.sparkplug — learned from the birth certificate */
+export interface SparkplugIdentity {
+  groupId: string;
+  edgeNodeId: string;
+  deviceId?: string;
+  bdSeq?: number;
+  metrics: Record<string, { alias?: number; datatype?: SparkplugDataType }>;
+}
+
+interface EdgeNodeState {
+  seq?: number;
+  rebirthRequestedAt?: number;
+}
+
+interface GroupBinding {
+  profile: DeviceProfile | null;
+  expiresAt: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sparkplug B host application. Edge nodes become GATEWAY devices named after
+// their edge node id, their devices "<edgeNodeId>/<deviceId>" — registered on
+// birth under the profile with transportConfiguration.mqtt.sparkplug.
+// A group belongs to the one tenant whose Sparkplug profile names it in
+// sparkplugGroupId; messages of unbound groups are dropped, and devices are
+// only ever looked up inside that tenant.
+//
+// Births record metric names, aliases and datatypes; DATA messages are
+// mapped back to metric names and fed to DeviceListenerService. Unknown
+// aliases, unknown devices and sequence gaps trigger a rebirth request.
+// NDEATH / DDEATH take the devices offline without waiting for a timeout.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class SparkplugService {
+  private readonly logger = new Logger(SparkplugService.name);
+
+  // "<groupId>/<edgeNodeId>" → sequence tracking, per instance
+  private readonly edgeNodes = new Map<string, EdgeNodeState>();
+  // groupId → its Sparkplug profile, per instance
+  private readonly groups = new Map<string, GroupBinding>();
+
+  constructor(
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    @InjectRepository(DeviceProfile)
+    private readonly profileRepository: Repository<DeviceProfile>,
+    private readonly deviceListener: DeviceListenerService,
+    private readonly provisioningService: DeviceProvisioningService,
+    private readonly connectivityService: DeviceConnectivityService,
+    private readonly mqttService: MQTTService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // INBOUND
+  // ══════════════════════════════════════════════════════════════════════════
+
+  @OnEvent('sparkplug.message')
+  async handleMessage({
+    topic,
+    payload,
+  }: SparkplugMessageEvent): Promise<void> {
+    const topicParts = this.parseTopic(topic);
+    if (!topicParts) return; // STATE, NCMD, DCMD or foreign topics
+
+    const profile = await this.resolveProfile(topicParts.groupId);
+    if (!profile) return;
+    const parsed: SparkplugTopic = {
+      ...topicParts,
+      tenantId: profile.tenantId,
+    };
+
+    let message: SparkplugPayload;
+    try {
+      message = decodePayload(payload);
+    } catch (error) {
+      this.logger.warn(
+        `Invalid Sparkplug payload on ${topic}: ${(error as Error).message}`,
+      );
+      return;
+    }
+
+    try {
+      if (!this.checkSequence(parsed, message.seq)) {
+        this.logger.warn(
+          `Sparkplug sequence gap from ${parsed.groupId}/${parsed.edgeNodeId}`,
+        );
+        await this.requestRebirth(parsed);
+      }
+
+      switch (parsed.messageType) {
+        case 'NBIRTH':
+        case 'DBIRTH':
+          await this.handleBirth(parsed, message, topic);
+          break;
+        case 'NDATA':
+        case 'DDATA':
+          await this.handleData(parsed, message, topic);
+          break;
+        case 'NDEATH':
+          await this.handleNodeDeath(parsed, message);
+          break;
+        case 'DDEATH':
+          await this.handleDeviceDeath(parsed);
+          break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Sparkplug ${parsed.messageType} on ${topic} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  @OnEvent('device.profile.created')
+  @OnEvent('device.profile.updated')
+  handleProfileChanged(): void {
+    this.groups.clear();
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // OUTBOUND (Called by GatewayService)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Builds an NCMD (edge node) or DCMD (device) writing birth metrics:
+   *   { method: '<metric>', params: { value } }  — a single metric
+   *   { method: 'write', params: { metrics: { '<metric>': value, … } } }
+   */
+  buildCommand(
+    device: Device,
+    command: Pick<DeviceCommand, 'method' | 'params'>,
+  ): { topic: string; payload: Buffer } {
+    const identity = this.identityOf(device);
+    if (!identity) {
+      throw new Error(
+        `Device ${device.deviceKey} has not published a Sparkplug birth`,
+      );
+    }
+
+    const params = command.params ?? {};
+    const values: Record<string, SparkplugValue> =
+      params.metrics && typeof params.metrics === 'object'
+        ? (params.metrics as Record<string, SparkplugValue>)
+        : { [command.method]: (params.value ?? null) as SparkplugValue };
+
+    const timestamp = Date.now();
+    const metrics: SparkplugMetric[] = Object.entries(values).map(
+      ([name, value]) => {
+        const definition = identity.metrics[name];
+        if (!definition) {
+          throw new Error(
+            `Metric "${name}" is not in the birth certificate of ${device.deviceKey}`,
+          );
+        }
+        // Aliased metrics are addressed by alias only
+        return {
+          ...(definition.alias !== undefined
+            ? { alias: definition.alias }
+            : { name }),
+          timestamp,
+          datatype: definition.datatype,
+          value,
+        };
+      },
+    );
+
+    const topic = identity.deviceId
+      ? `${NAMESPACE}/${identity.groupId}/DCMD/${identity.edgeNodeId}/${identity.deviceId}`
+      : `${NAMESPACE}/${identity.groupId}/NCMD/${identity.edgeNodeId}`;
+
+    return { topic, payload: encodePayload({ timestamp, metrics }) };
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // BIRTH / DATA / DEATH
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async handleBirth(
+    parsed: SparkplugTopic,
+    message: SparkplugPayload,
+    topic: string,
+  ): Promise<void> {
+    const device =
+      (await this.findDevice(parsed)) ?? (await this.registerDevice(parsed));
+    if (!device) return;
+
+    const identity: SparkplugIdentity = {
+      groupId: parsed.groupId,
+      edgeNodeId: parsed.edgeNodeId,
+      ...(parsed.deviceId && { deviceId: parsed.deviceId }),
+      metrics: {},
+    };
+    for (const metric of message.metrics) {
+      if (!metric.name) continue;
+      identity.metrics[metric.name] = {
+        alias: metric.alias,
+        datatype: metric.datatype,
+      };
+      if (metric.name === 'bdSeq' && typeof metric.value === 'number') {
+        identity.bdSeq = metric.value;
+      }
+    }
+
+    device.protocol = DeviceProtocol.SPARKPLUG_B;
+    device.metadata = { ...device.metadata, sparkplug: identity };
+    await this.deviceRepository.update(device.id, {
+      protocol: device.protocol,
+      metadata: device.metadata,
+    });
+
+    this.logger.log(
+      `Sparkplug ${parsed.messageType}: ${device.name} (${message.metrics.length} metrics)`,
+    );
+    await this.publishTelemetry(device, parsed, message, topic, true);
+  }
+
+  private async handleData(
+    parsed: SparkplugTopic,
+    message: SparkplugPayload,
+    topic: string,
+  ): Promise<void> {
+    const device = await this.findDevice(parsed);
+    if (!device || !this.identityOf(device)) {
+      // Data before (or without) a birth we saw — e.g. after a restart
+      await this.requestRebirth(parsed);
+      return;
+    }
+
+    await this.publishTelemetry(device, parsed, message, topic, false);
+  }
+
+  /** A stale NDEATH (LWT of a previous session) carries an older bdSeq */
+  private async handleNodeDeath(
+    parsed: SparkplugTopic,
+    message: SparkplugPayload,
+  ): Promise<void> {
+    this.edgeNodes.delete(this.nodeKey(parsed));
+
+    const node = await this.findDevice(parsed);
+    if (!node) return;
+
+    const bdSeq = message.metrics.find((m) => m.name === 'bdSeq')?.value;
+    const birthBdSeq = this.identityOf(node)?.bdSeq;
+    if (
+      typeof bdSeq === 'number' &&
+      birthBdSeq !== undefined &&
+      bdSeq !== birthBdSeq
+    ) {
+      this.logger.debug(
+        `Ignoring NDEATH of ${node.name}: bdSeq ${bdSeq} ≠ birth ${birthBdSeq}`,
+      );
+      return;
+    }
+
+    const devices = await this.findNodeDevices(parsed);
+    for (const device of devices) {
+      await this.connectivityService.reportDisconnected(device.id);
+    }
+    this.logger.log(
+      `Sparkplug NDEATH: ${node.name} (${devices.length} device(s) offline)`,
+    );
+  }
+
+  private async handleDeviceDeath(parsed: SparkplugTopic): Promise<void> {
+    const device = await this.findDevice(parsed);
+    if (!device) return;
+
+    await this.connectivityService.reportDisconnected(device.id);
+    this.logger.log(`Sparkplug DDEATH: ${device.name}`);
+  }
+
+  /**
+   * Metric values → telemetry, one message per metric timestamp so that
+   * historical (store-and-forward) values keep their own time.
+   */
+  private async publishTelemetry(
+    device: Device,
+    parsed: SparkplugTopic,
+    message: SparkplugPayload,
+    topic: string,
+    birth: boolean,
+  ): Promise<void> {
+    const identity = this.identityOf(device);
+    const aliases = new Map<number, string>();
+    for (const [name, definition] of Object.entries(identity?.metrics ?? {})) {
+      if (definition.alias !== undefined) aliases.set(definition.alias, name);
+    }
+
+    const batches = new Map<number, Record<string, any>>();
+    let unknownAlias = false;
+
+    for (const metric of message.metrics) {
+      const name =
+        metric.name ??
+        (metric.alias !== undefined ? aliases.get(metric.alias) : undefined);
+      if (!name) {
+        unknownAlias = true;
+        continue;
+      }
+      if (!this.isTelemetryMetric(name) || metric.value == null) continue;
+
+      const timestamp = metric.timestamp ?? message.timestamp ?? Date.now();
+      const batch = batches.get(timestamp) ?? {};
+      batch[name] = Buffer.isBuffer(metric.value)
+        ? metric.value.toString('base64')
+        : metric.value;
+      batches.set(timestamp, batch);
+    }
+
+    if (unknownAlias) {
+      this.logger.warn(`Unknown Sparkplug metric alias from ${device.name}`);
+      await this.requestRebirth(parsed);
+    }
+
+    // A birth without values still marks the device as seen
+    if (birth && batches.size === 0) {
+      batches.set(message.timestamp ?? Date.now(), {});
+    }
+
+    const ordered = [...batches.entries()].sort(([a], [b]) => a - b);
+    for (const [timestamp, data] of ordered) {
+      const telemetry: StandardTelemetry = {
+        deviceId: device.id,
+        deviceKey: device.deviceKey,
+        tenantId: device.tenantId,
+        customerId: device.customerId,
+        data,
+        timestamp: new Date(timestamp).toISOString(),
+        receivedAt: Date.now(),
+        protocol: 'mqtt',
+        metadata: {
+          topic,
+          protocol: device.protocol,
+          sparkplugMessageType: parsed.messageType,
+          sparkplugSeq: message.seq,
+        },
+      };
+      await this.deviceListener.handleTelemetry(telemetry);
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private parseTopic(topic: string): Omit<SparkplugTopic, 'tenantId'> | null {
+    const [namespace, groupId, messageType, edgeNodeId, deviceId] =
+      topic.split('/');
+    if (namespace !== NAMESPACE || !groupId || !edgeNodeId) return null;
+    if (!HANDLED_TYPES.includes(messageType as MessageType)) return null;
+
+    const nodeLevel = messageType.startsWith('N');
+    if (nodeLevel === Boolean(deviceId)) return null;
+
+    return {
+      groupId,
+      messageType: messageType as MessageType,
+      edgeNodeId,
+      ...(deviceId && { deviceId }),
+    };
+  }
+
+  /** seq runs 0–255 across all messages of an edge node; NBIRTH resets it */
+  private checkSequence(parsed: SparkplugTopic, seq?: number): boolean {
+    if (seq === undefined || parsed.messageType === 'NDEATH') return true;
+
+    const key = this.nodeKey(parsed);
+    const state = this.edgeNodes.get(key) ?? {};
+    const expected = state.seq === undefined ? seq : (state.seq + 1) % 256;
+    state.seq = seq;
+    this.edgeNodes.set(key, state);
+
+    return parsed.messageType === 'NBIRTH' || seq === expected;
+  }
+
+  private async requestRebirth(parsed: SparkplugTopic): Promise<void> {
+    const key = this.nodeKey(parsed);
+    const state = this.edgeNodes.get(key) ?? {};
+    const now = Date.now();
+    if (
+      state.rebirthRequestedAt &&
+      now - state.rebirthRequestedAt < REBIRTH_INTERVAL_MS
+    ) {
+      return;
+    }
+    state.rebirthRequestedAt = now;
+    this.edgeNodes.set(key, state);
+
+    const payload = encodePayload({
+      timestamp: now,
+      metrics: [
+        {
+          name: REBIRTH_METRIC,
+          timestamp: now,
+          datatype: SparkplugDataType.Boolean,
+          value: true,
+        },
+      ],
+    });
+
+    try {
+      await this.mqttService.publishBinary(
+        `${NAMESPACE}/${parsed.groupId}/NCMD/${parsed.edgeNodeId}`,
+        payload,
+      );
+      this.logger.log(`Rebirth requested from ${key}`);
+    } catch (error) {
+      this.logger.warn(
+        `Rebirth request to ${key} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async registerDevice(parsed: SparkplugTopic): Promise<Device | null> {
+    const profile = parsed.deviceId
+      ? await this.findNodeProfile(parsed)
+      : await this.resolveProfile(parsed.groupId);
+    if (!profile) return null;
+
+    const device = await this.provisioningService.registerAnnounced(profile, {
+      name: parsed.deviceId
+        ? `${parsed.edgeNodeId}/${parsed.deviceId}`
+        : parsed.edgeNodeId,
+      type: parsed.deviceId ? DeviceType.SENSOR : DeviceType.GATEWAY,
+      protocol: DeviceProtocol.SPARKPLUG_B,
+    });
+    if (!device) {
+      this.logger.warn(
+        `Sparkplug ${parsed.messageType} of ${parsed.groupId}/${parsed.edgeNodeId}` +
+          `${parsed.deviceId ? `/${parsed.deviceId}` : ''} not admitted by profile ${profile.name}`,
+      );
+    }
+    return device;
+  }
+
+  /** Devices of an edge node join the node's profile */
+  private async findNodeProfile(
+    parsed: SparkplugTopic,
+  ): Promise<DeviceProfile | null> {
+    const node = await this.findDevice({ ...parsed, deviceId: undefined });
+    if (!node?.deviceProfileId) {
+      await this.requestRebirth(parsed);
+      return null;
+    }
+    return this.profileRepository.findOne({
+      where: { id: node.deviceProfileId, tenantId: parsed.tenantId },
+    });
+  }
+
+  /**
+   * The one Sparkplug profile naming this group. Misses are cached too, so
+   * an unbound group is only logged once per TTL.
+   */
+  private async resolveProfile(groupId: string): Promise<DeviceProfile | null> {
+    const cached = this.groups.get(groupId);
+    if (cached && cached.expiresAt > Date.now()) return cached.profile;
+
+    const candidates = await this.profileRepository
+      .createQueryBuilder('profile')
+      .where(
+        `profile.transportConfiguration -> 'mqtt' ->> 'sparkplug' = 'true'`,
+      )
+      .andWhere(
+        `profile.transportConfiguration -> 'mqtt' ->> 'sparkplugGroupId' = :groupId`,
+        { groupId },
+      )
+      .getMany();
+
+    let profile: DeviceProfile | null = null;
+    if (candidates.length === 1) {
+      profile = candidates[0];
+    } else if (candidates.length === 0) {
+      this.logger.warn(`No Sparkplug device profile for group ${groupId}`);
+    } else if (new Set(candidates.map((p) => p.tenantId)).size > 1) {
+      this.logger.warn(
+        `Sparkplug group ${groupId} is claimed by several tenants — ignored`,
+      );
+    } else {
+      this.logger.warn(
+        `Several Sparkplug device profiles name group ${groupId}`,
+      );
+    }
+
+    this.groups.set(groupId, {
+      profile,
+      expiresAt: Date.now() + GROUP_CACHE_TTL_MS,
+    });
+    return profile;
+  }
+
+  private async findDevice(parsed: SparkplugTopic): Promise<Device | null> {
+    const qb = this.identityQuery(parsed);
+    if (parsed.deviceId) {
+      qb.andWhere(`device.metadata -> 'sparkplug' ->> 'deviceId' = :deviceId`, {
+        deviceId: parsed.deviceId,
+      });
+    } else {
+      qb.andWhere(`device.metadata -> 'sparkplug' ->> 'deviceId' IS NULL`);
+    }
+    return qb.getOne();
+  }
+
+  /** The edge node and every device behind it */
+  private async findNodeDevices(parsed: SparkplugTopic): Promise<Device[]> {
+    return this.identityQuery(parsed).getMany();
+  }
+
+  private identityQuery(parsed: SparkplugTopic) {
+    return this.deviceRepository
+      .createQueryBuilder('device')
+      .where('device.tenantId = :tenantId', { tenantId: parsed.tenantId })
+      .andWhere(`device.metadata -> 'sparkplug' ->> 'groupId' = :groupId`, {
+        groupId: parsed.groupId,
+      })
+      .andWhere(
+        `device.metadata -> 'sparkplug' ->> 'edgeNodeId' = :edgeNodeId`,
+        {
+          edgeNodeId: parsed.edgeNodeId,
+        },
+      );
+  }
+
+  private identityOf(device: Device): SparkplugIdentity | undefined {
+    return device.metadata?.sparkplug as SparkplugIdentity | undefined;
+  }
+
+  // bdSeq and the Node/Device Control metrics are protocol plumbing
+  private isTelemetryMetric(name: string): boolean {
+    return (
+      name !== 'bdSeq' &&
+      !name.startsWith('Node Control/') &&
+      !name.startsWith('Device Control/')
+    );
+  }
+
+  private nodeKey(parsed: SparkplugTopic): string {
+    return `${parsed.groupId}/${parsed.edgeNodeId}`;
+  }
+}
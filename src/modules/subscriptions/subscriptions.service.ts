@@ -54,6 +54,8 @@ const PLAN_LIMITS: Record<SubscriptionPlan, SubscriptionLimits> = {
     customers: 1,
     apiCallsPerMonth: 10_000,
     storageGB: 1,
+    dataRetentionDays: 7,
+    rollupRetentionDays: 30,
     smsNotificationsPerMonth: 0,
   },
   [SubscriptionPlan.STARTER]: {
@@ -66,6 +68,8 @@ const PLAN_LIMITS: Record<SubscriptionPlan, SubscriptionLimits> = {
     customers: 5,
     apiCallsPerMonth: 100_000,
     storageGB: 10,
+    dataRetentionDays: 30,
+    rollupRetentionDays: 365,
     smsNotificationsPerMonth: 100,
   },
   [SubscriptionPlan.PROFESSIONAL]: {
@@ -78,6 +82,8 @@ const PLAN_LIMITS: Record<SubscriptionPlan, SubscriptionLimits> = {
     customers: 20,
     apiCallsPerMonth: 500_000,
     storageGB: 50,
+    dataRetentionDays: 90,
+    rollupRetentionDays: 730,
     smsNotificationsPerMonth: 500,
   },
   [SubscriptionPlan.ENTERPRISE]: {
@@ -90,6 +96,8 @@ const PLAN_LIMITS: Record<SubscriptionPlan, SubscriptionLimits> = {
     customers: -1,
     apiCallsPerMonth: -1,
     storageGB: 500,
+    dataRetentionDays: -1,
+    rollupRetentionDays: -1,
     smsNotificationsPerMonth: -1,
   },
 };
@@ -0,0 +1,267 @@
+// src/modules/telemetry/__tests__/telemetry-ingest.service.spec.ts
+// Retransmission / replay dedup and late-point ordering over an in-memory Redis
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TelemetryIngestService } from '../telemetry-ingest.service';
+import { Telemetry } from '../entities/telemetry.entity';
+import { Device } from '../../devices/entities/device.entity';
+import { RedisService } from '@/lib/redis/redis.service';
+import { StandardTelemetry } from '@common/interfaces/standard-telemetry.interface';
+
+/** SET NX, DEL and the latest-snapshot script, as TelemetryIngestService uses them */
+class InMemoryRedis {
+  readonly keys = new Map<string, string>();
+  readonly hashes = new Map<string, Map<string, string>>();
+  failing = false;
+
+  set(key: string, value: string, ...args: unknown[]) {
+    if (this.failing) return Promise.reject(new Error('connection lost'));
+    if (args.includes('NX') && this.keys.has(key)) return Promise.resolve(null);
+    this.keys.set(key, value);
+    return Promise.resolve('OK');
+  }
+
+  del(key: string) {
+    if (this.failing) return Promise.reject(new Error('connection lost'));
+    return Promise.resolve(this.keys.delete(key) ? 1 : 0);
+  }
+
+  // ADVANCE_LATEST_LUA: keep the newer snapshot, report the stored timestamp
+  eval(_script: string, _numKeys: number, key: string, ...argv: string[]) {
+    if (this.failing) return Promise.reject(new Error('connection lost'));
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    const current = hash.get('timestamp');
+    if (current && Number(current) > Number(argv[0])) {
+      return Promise.resolve(current);
+    }
+    hash.set('timestamp', argv[0]);
+    for (let i = 1; i < argv.length; i += 2) hash.set(argv[i], argv[i + 1]);
+    this.hashes.set(key, hash);
+    return Promise.resolve(null);
+  }
+
+  hget(key: string, field: string) {
+    return Promise.resolve(this.hashes.get(key)?.get(field) ?? null);
+  }
+}
+
+describe('TelemetryIngestService', () => {
+  let service: TelemetryIngestService;
+  let redis: InMemoryRedis;
+
+  const mockDeviceRepository = {
+    update: jest.fn().mockResolvedValue({ affected: 1 }),
+  };
+
+  const device = (metadata: Record<string, any> = {}) =>
+    ({ id: 'dev-1', deviceKey: 'sensor-01', metadata }) as Device;
+
+  const uplink = (
+    data: Record<string, any>,
+    timestamp: string,
+    metadata: Record<string, any> = {},
+  ): StandardTelemetry => ({
+    deviceId: 'dev-1',
+    deviceKey: 'sensor-01',
+    protocol: 'lorawan',
+    data,
+    timestamp,
+    receivedAt: Date.now(),
+    metadata,
+  });
+
+  const record = (timestamp: string, data: Record<string, any>) =>
+    ({ deviceId: 'dev-1', timestamp: new Date(timestamp), data }) as Telemetry;
+
+  const countUpdates = (column: string) =>
+    mockDeviceRepository.update.mock.calls.filter(
+      ([, values]) => column in (values as object),
+    ).length;
+
+  beforeEach(async () => {
+    redis = new InMemoryRedis();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TelemetryIngestService,
+        {
+          provide: getRepositoryToken(Device),
+          useValue: mockDeviceRepository,
+        },
+        {
+          provide: RedisService,
+          useValue: {
+            client: redis,
+            hget: (key: string, field: string) => redis.hget(key, field),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TelemetryIngestService>(TelemetryIngestService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // DEDUPLICATION
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('isDuplicate', () => {
+    it('should let the first copy through and drop a retransmission', async () => {
+      const message = uplink({ temperature: 21 }, '2026-01-01T00:00:00Z');
+
+      expect(await service.isDuplicate(device(), message)).toBe(false);
+      expect(await service.isDuplicate(device(), message)).toBe(true);
+      expect(countUpdates('duplicateCount')).toBe(1);
+    });
+
+    it('should key LoRaWAN uplinks by frame counter and fPort', async () => {
+      const first = uplink({ raw: 'aa' }, '2026-01-01T00:00:00Z', {
+        frameCounter: 42,
+        fPort: 85,
+      });
+      // A gateway replay — same frame, received later with a new timestamp
+      const replay = uplink({ raw: 'aa' }, '2026-01-01T00:05:00Z', {
+        frameCounter: 42,
+        fPort: 85,
+      });
+      const otherPort = uplink({ raw: 'aa' }, '2026-01-01T00:00:00Z', {
+        frameCounter: 42,
+        fPort: 10,
+      });
+
+      expect(await service.isDuplicate(device(), first)).toBe(false);
+      expect(await service.isDuplicate(device(), replay)).toBe(true);
+      expect(await service.isDuplicate(device(), otherPort)).toBe(false);
+    });
+
+    it('should not merge identical readings taken at different times', async () => {
+      const data = { temperature: 21 };
+
+      expect(
+        await service.isDuplicate(
+          device(),
+          uplink(data, '2026-01-01T00:00:00Z'),
+        ),
+      ).toBe(false);
+      expect(
+        await service.isDuplicate(
+          device(),
+          uplink(data, '2026-01-01T00:01:00Z'),
+        ),
+      ).toBe(false);
+    });
+
+    it('should be disabled by a dedupWindowSec of 0', async () => {
+      const message = uplink({ temperature: 21 }, '2026-01-01T00:00:00Z');
+
+      expect(
+        await service.isDuplicate(device({ dedupWindowSec: 0 }), message),
+      ).toBe(false);
+      expect(
+        await service.isDuplicate(device({ dedupWindowSec: 0 }), message),
+      ).toBe(false);
+      expect(redis.keys.size).toBe(0);
+    });
+
+    it('should treat the uplink as new when Redis is down', async () => {
+      redis.failing = true;
+
+      expect(
+        await service.isDuplicate(
+          device(),
+          uplink({ temperature: 21 }, '2026-01-01T00:00:00Z'),
+        ),
+      ).toBe(false);
+    });
+
+    it('should let a retry in once the claim is released', async () => {
+      const message = uplink({ temperature: 21 }, '2026-01-01T00:00:00Z');
+
+      expect(await service.isDuplicate(device(), message)).toBe(false);
+      await service.releaseDuplicate(device(), message);
+
+      expect(await service.isDuplicate(device(), message)).toBe(false);
+      expect(countUpdates('duplicateCount')).toBe(0);
+    });
+
+    it('should swallow Redis errors on release', async () => {
+      const message = uplink({ temperature: 21 }, '2026-01-01T00:00:00Z');
+      redis.failing = true;
+
+      await expect(
+        service.releaseDuplicate(device(), message),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // ORDERING
+  // ══════════════════════════════════════════════════════════════════════════
+
+  describe('updateLatest', () => {
+    it('should advance the snapshot for points in order', async () => {
+      await service.updateLatest(
+        record('2026-01-01T00:00:00Z', { temperature: 20 }),
+      );
+      const result = await service.updateLatest(
+        record('2026-01-01T00:01:00Z', { temperature: 22 }),
+      );
+
+      expect(result).toEqual({
+        late: false,
+        latestAt: new Date('2026-01-01T00:01:00Z'),
+      });
+      expect(
+        redis.hashes.get('device:dev-1:telemetry:latest')?.get('temperature'),
+      ).toBe('22');
+    });
+
+    it('should report an older point late and keep the newer snapshot', async () => {
+      await service.updateLatest(
+        record('2026-01-01T00:10:00Z', { temperature: 25 }),
+      );
+      const result = await service.updateLatest(
+        record('2026-01-01T00:05:00Z', { temperature: 19 }),
+      );
+
+      expect(result).toEqual({
+        late: true,
+        latestAt: new Date('2026-01-01T00:10:00Z'),
+      });
+      expect(
+        redis.hashes.get('device:dev-1:telemetry:latest')?.get('temperature'),
+      ).toBe('25');
+      expect(countUpdates('lateCount')).toBe(1);
+    });
+
+    it('should accept a point with the same timestamp as the snapshot', async () => {
+      await service.updateLatest(
+        record('2026-01-01T00:00:00Z', { temperature: 20 }),
+      );
+      const result = await service.updateLatest(
+        record('2026-01-01T00:00:00Z', { humidity: 40 }),
+      );
+
+      expect(result.late).toBe(false);
+      const snapshot = redis.hashes.get('device:dev-1:telemetry:latest');
+      expect(snapshot?.get('temperature')).toBe('20');
+      expect(snapshot?.get('humidity')).toBe('40');
+    });
+
+    it('should treat the point as in order when Redis is down', async () => {
+      redis.failing = true;
+
+      expect(
+        await service.updateLatest(
+          record('2026-01-01T00:00:00Z', { temperature: 20 }),
+        ),
+      ).toEqual({ late: false, latestAt: null });
+      expect(countUpdates('lateCount')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+// src/modules/telemetry/calculated-fields.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { RedisService } from '@/lib/redis/redis.service';
+import { ScriptSandboxService } from '@modules/scripts/script-sandbox.service';
+import type { DeviceCalculatedField } from '@common/interfaces/index.interface';
+
+// Last input seen by a DELTA / RATE / COUNTER field
+interface FieldState {
+  value: number;
+  ts: number;
+  total?: number; // COUNTER
+}
+
+// Hash per device: calculated field id → FieldState
+const stateKey = (deviceId: string) => `telemetry:calculated:${deviceId}`;
+
+const RATE_UNIT_MS: Record<
+  NonNullable<DeviceCalculatedField['rateUnit']>,
+  number
+> = {
+  SECOND: 1_000,
+  MINUTE: 60_000,
+  HOUR: 3_600_000,
+};
+
+const AGGREGATIONS: Record<
+  NonNullable<DeviceCalculatedField['aggregation']>,
+  (values: number[]) => number
+> = {
+  SUM: (values) => values.reduce((acc, v) => acc + v, 0),
+  AVG: (values) => values.reduce((acc, v) => acc + v, 0) / values.length,
+  MIN: (values) => Math.min(...values),
+  MAX: (values) => Math.max(...values),
+  COUNT: (values) => values.length,
+};
+
+// Message keys an expression can use bare — the sandbox's own names excluded
+const IDENTIFIER = /[A-Za-z_$][\w$]*/g;
+const SANDBOX_NAMES = new Set([
+  'msg',
+  'metadata',
+  'msgType',
+  'math',
+  'date',
+  'console',
+]);
+
+const EXPRESSION_TIMEOUT_MS = 200;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Device profile calculated fields, evaluated for every message before it is
+// stored. Expressions run in the script sandbox; DELTA / RATE / COUNTER keep
+// the previous input per device in Redis and skip duplicate or out-of-order
+// messages; ASSET_AGGREGATE reads the latest input of the asset's devices.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class CalculatedFieldsService {
+  private readonly logger = new Logger(CalculatedFieldsService.name);
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    private readonly redis: RedisService,
+    private readonly sandbox: ScriptSandboxService,
+  ) {}
+
+  /**
+   * Values of the profile's calculated fields for one message — {} when the
+   * profile has none. A failing field is logged and left out.
+   */
+  async calculate(
+    deviceId: string,
+    inputs: Record<string, any>,
+    timestamp: Date,
+  ): Promise<Record<string, any>> {
+    const [device] = await this.dataSource.query<
+      Array<{
+        assetId: string | null;
+        calculatedFields: DeviceCalculatedField[] | null;
+      }>
+    >(
+      `SELECT d."assetId", p."calculatedFields"
+       FROM devices d
+       JOIN device_profiles p ON p.id = d."deviceProfileId"
+       WHERE d.id = $1`,
+      [deviceId],
+    );
+    if (!device?.calculatedFields?.length) return {};
+
+    // Later fields see the results of earlier ones
+    const values: Record<string, any> = { ...inputs };
+    const results: Record<string, any> = {};
+
+    for (const field of device.calculatedFields) {
+      try {
+        const value = this.format(
+          await this.evaluate(
+            field,
+            deviceId,
+            device.assetId,
+            values,
+            timestamp,
+          ),
+          field.decimalPlaces,
+        );
+        if (value === undefined) continue;
+        values[field.key] = value;
+        results[field.key] = value;
+      } catch (error) {
+        this.logger.warn(
+          `Calculated field ${field.id} of device ${deviceId} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return results;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // CALCULATIONS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private evaluate(
+    field: DeviceCalculatedField,
+    deviceId: string,
+    assetId: string | null,
+    values: Record<string, any>,
+    timestamp: Date,
+  ): Promise<unknown> {
+    switch (field.calculation) {
+      case 'EXPRESSION':
+        return this.expression(
+          field.expression ?? '',
+          deviceId,
+          values,
+          timestamp,
+        );
+      case 'DELTA':
+      case 'RATE':
+      case 'COUNTER':
+        return this.stateful(field, deviceId, values, timestamp);
+      case 'ASSET_AGGREGATE':
+        return this.assetAggregate(field, deviceId, assetId, values);
+      default:
+        return Promise.resolve(undefined);
+    }
+  }
+
+  /** Message keys are in scope by name, and all of them as msg[...] */
+  private async expression(
+    expression: string,
+    deviceId: string,
+    values: Record<string, any>,
+    timestamp: Date,
+  ): Promise<unknown> {
+    const names = [...new Set(expression.match(IDENTIFIER) ?? [])].filter(
+      (name) =>
+        !SANDBOX_NAMES.has(name) &&
+        Object.prototype.hasOwnProperty.call(values, name),
+    );
+    const code =
+      (names.length ? `const { ${names.join(', ')} } = msg;\n` : '') +
+      `return (${expression});`;
+
+    const result = await this.sandbox.run(
+      code,
+      {
+        msg: values,
+        metadata: { deviceId, ts: timestamp.getTime() },
+        msgType: 'CALCULATED_FIELD',
+      },
+      { timeoutMs: EXPRESSION_TIMEOUT_MS },
+    );
+    if (!result.success) {
+      throw new Error(`${result.error?.name}: ${result.error?.message}`);
+    }
+    return result.result;
+  }
+
+  private async stateful(
+    field: DeviceCalculatedField,
+    deviceId: string,
+    values: Record<string, any>,
+    timestamp: Date,
+  ): Promise<number | undefined> {
+    const value = this.numeric(values[field.input ?? '']);
+    if (value === undefined) return undefined;
+
+    const ts = timestamp.getTime();
+    const stored = await this.redis.hget(stateKey(deviceId), field.id);
+    const previous = stored ? (JSON.parse(stored) as FieldState) : undefined;
+
+    // Duplicate or out-of-order message — the state only moves forward
+    if (previous && ts <= previous.ts) return undefined;
+
+    let result: number | undefined;
+    let total: number | undefined;
+    switch (field.calculation) {
+      case 'DELTA':
+        result = previous ? value - previous.value : undefined;
+        break;
+      case 'RATE':
+        result = previous
+          ? (value - previous.value) /
+            ((ts - previous.ts) / RATE_UNIT_MS[field.rateUnit ?? 'SECOND'])
+          : undefined;
+        break;
+      case 'COUNTER':
+        total = this.counterTotal(field, value, previous);
+        result = total;
+        break;
+    }
+
+    const state: FieldState = { value, ts, total };
+    await this.redis.hset(stateKey(deviceId), field.id, JSON.stringify(state));
+    return result;
+  }
+
+  /**
+   * Running total of a meter reading. A reading below the previous one is a
+   * wrap past rollover when one is set, otherwise a reset to 0.
+   */
+  private counterTotal(
+    field: DeviceCalculatedField,
+    value: number,
+    previous?: FieldState,
+  ): number {
+    if (previous?.total === undefined) return value;
+    if (value >= previous.value) {
+      return previous.total + (value - previous.value);
+    }
+    return (
+      previous.total +
+      (field.rollover ? value + field.rollover - previous.value : value)
+    );
+  }
+
+  /** The message's own input counts instead of the device's stored one */
+  private async assetAggregate(
+    field: DeviceCalculatedField,
+    deviceId: string,
+    assetId: string | null,
+    values: Record<string, any>,
+  ): Promise<number | undefined> {
+    if (!assetId || !field.input) return undefined;
+
+    const since = field.maxAgeSeconds
+      ? new Date(Date.now() - field.maxAgeSeconds * 1000)
+      : null;
+    const rows = await this.dataSource.query<
+      Array<{ deviceId: string; value: unknown }>
+    >(
+      `SELECT d.id AS "deviceId", latest.value
+       FROM devices d
+       CROSS JOIN LATERAL (
+         SELECT t.data -> $2 AS value
+         FROM telemetry t
+         WHERE t."deviceId" = d.id AND t.data ? $2
+           AND ($4::timestamp IS NULL OR t."timestamp" >= $4)
+         ORDER BY t."timestamp" DESC
+         LIMIT 1
+       ) latest
+       WHERE d."assetId" = $1 AND d.id <> $3 AND d.deleted_at IS NULL`,
+      [assetId, field.input, deviceId, since],
+    );
+
+    const inputs = rows
+      .map((row) => this.numeric(row.value))
+      .filter((v): v is number => v !== undefined);
+    const own = this.numeric(values[field.input]);
+    if (own !== undefined) inputs.push(own);
+    if (!inputs.length) return undefined;
+
+    return AGGREGATIONS[field.aggregation ?? 'SUM'](inputs);
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private numeric(value: unknown): number | undefined {
+    if (value === null || value === undefined || value === '') {
+      return undefined;
+    }
+    if (typeof value !== 'number' && typeof value !== 'string') {
+      return undefined;
+    }
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+
+  /** Telemetry values only: finite numbers (rounded), strings and booleans */
+  private format(
+    value: unknown,
+    decimals?: number,
+  ): number | string | boolean | undefined {
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) return undefined;
+      if (decimals === undefined) return value;
+      const factor = Math.pow(10, decimals);
+      return Math.round(value * factor) / factor;
+    }
+    if (typeof value === 'string' || typeof value === 'boolean') return value;
+    return undefined;
+  }
+}
@@ -70,3 +70,21 @@ export class TimeSeriesQueryDto {
   @IsOptional()
   limit?: number;
 }
+
+export class RollupRebuildDto {
+  @ApiProperty({
+    example: '2024-01-01T00:00:00Z',
+    description: 'Recompute rollups from this date (whole days)',
+  })
+  @IsDateString()
+  @IsNotEmpty()
+  from: string;
+
+  @ApiPropertyOptional({
+    example: '2024-10-23T23:59:59Z',
+    description: 'Up to this date (defaults to now)',
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+}
@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsObject, IsOptional, IsUUID, Min } from 'class-validator';
+import type { TelemetryRetentionPeriod } from '@common/interfaces/index.interface';
+
+export class TelemetryRetentionPolicyDto {
+  @ApiPropertyOptional({
+    example: 90,
+    description: 'Days to keep raw telemetry (-1 = forever, within the plan)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(-1)
+  rawDays?: number;
+
+  @ApiPropertyOptional({
+    example: 730,
+    description: 'Days to keep minute/hour/day rollups (-1 = forever)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(-1)
+  rollupDays?: number;
+
+  @ApiPropertyOptional({
+    example: { energy_kwh: { rawDays: 3650, rollupDays: -1 } },
+    description: 'Per telemetry key overrides',
+  })
+  @IsOptional()
+  @IsObject()
+  keys?: Record<string, TelemetryRetentionPeriod>;
+}
+
+export class RetentionDryRunDto extends TelemetryRetentionPolicyDto {
+  @ApiPropertyOptional({
+    description:
+      "Evaluate the policy as this device profile's; omitted → as the tenant policy",
+  })
+  @IsOptional()
+  @IsUUID()
+  deviceProfileId?: string;
+}
+
+export class RetentionPurgeResultDto {
+  @ApiProperty({ example: 12, description: 'Devices the policy applies to' })
+  devices: number;
+
+  @ApiProperty({ example: 48210, description: 'Raw telemetry rows removed' })
+  rawDeleted: number;
+
+  @ApiProperty({
+    example: 1320,
+    description: 'Raw rows kept with only their expired keys removed',
+  })
+  rawTrimmed: number;
+
+  @ApiProperty({ example: 9120, description: 'Rollup rows removed' })
+  rollupsDeleted: number;
+}
@@ -0,0 +1,52 @@
+// src/modules/telemetry/entities/telemetry-rollup.entity.ts
+import {
+  Entity,
+  Column,
+  Index,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export type RollupResolution = 'minute' | 'hour' | 'day';
+
+/**
+ * Pre-aggregated numeric telemetry: one row per device, data key,
+ * resolution and bucket. Maintained by TelemetryRollupService — upserted
+ * per message, recomputed from raw telemetry on backfill / rebuild.
+ *
+ * avg is sum / count, so buckets combine into coarser intervals exactly.
+ */
+@Entity('telemetry_rollups')
+@Index(['tenantId', 'resolution', 'bucket'])
+export class TelemetryRollup {
+  @PrimaryColumn()
+  deviceId: string;
+
+  @PrimaryColumn()
+  key: string;
+
+  @PrimaryColumn({ type: 'varchar', length: 10 })
+  resolution: RollupResolution;
+
+  // Bucket start, date_trunc(resolution, telemetry.timestamp)
+  @PrimaryColumn({ type: 'timestamp' })
+  bucket: Date;
+
+  @Column()
+  tenantId: string;
+
+  @Column({ type: 'int' })
+  count: number;
+
+  @Column({ type: 'double precision' })
+  sum: number;
+
+  @Column({ type: 'double precision' })
+  min: number;
+
+  @Column({ type: 'double precision' })
+  max: number;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -6,6 +6,10 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Telemetry } from '../entities/telemetry.entity';
 import { AlarmsService } from '../../alarms/alarms.service';
+import {
+  RebuildRollupsJob,
+  TelemetryRollupService,
+} from '../telemetry-rollup.service';
 
 // NOTE: This processor requires BullModule to be registered in TelemetryModule:
 //   BullModule.registerQueue({ name: 'telemetry' })
@@ -20,6 +24,7 @@ export class TelemetryProcessor {
     private readonly telemetryRepository: Repository<Telemetry>,
     private readonly eventEmitter: EventEmitter2,
     private readonly alarmsService: AlarmsService,
+    private readonly rollupService: TelemetryRollupService,
   ) {}
 
   @Process('process-telemetry')
@@ -80,6 +85,20 @@ export class TelemetryProcessor {
     }
   }
 
+  // Queued by TelemetryRollupService.scheduleRebuild() — one chunk per job
+  @Process('rebuild-rollups')
+  async rebuildRollups(
+    job: Job<RebuildRollupsJob>,
+  ): Promise<{ buckets: number }> {
+    const { deviceId, from, to } = job.data;
+    const buckets = await this.rollupService.rebuild(
+      deviceId,
+      new Date(from),
+      new Date(to),
+    );
+    return { buckets };
+  }
+
   @Process('cleanup-telemetry')
   async cleanupTelemetry(job: Job<{ daysOld: number }>): Promise<{ deletedCount: number }> {
     const { daysOld } = job.data;
@@ -1,13 +1,17 @@
 import { Injectable } from '@nestjs/common';
 import { DataSource, Repository, Between, MoreThan, LessThan } from 'typeorm';
 import { Telemetry } from '../entities/telemetry.entity';
+import { TelemetryRollupService } from '../telemetry-rollup.service';
 
 /**
  * Custom repository for complex telemetry queries
  */
 @Injectable()
 export class TelemetryRepository extends Repository<Telemetry> {
-  constructor(private dataSource: DataSource) {
+  constructor(
+    private dataSource: DataSource,
+    private rollupService: TelemetryRollupService,
+  ) {
     super(Telemetry, dataSource.createEntityManager());
   }
 
@@ -26,7 +30,8 @@ export class TelemetryRepository extends Repository<Telemetry> {
   }
 
   /**
-   * Get telemetry aggregated by time interval
+   * Get telemetry aggregated by time interval — from the coarsest rollup
+   * that fits the interval when it covers the range, else from raw rows
    */
   async getAggregated(
     deviceId: string,
@@ -36,6 +41,16 @@ export class TelemetryRepository extends Repository<Telemetry> {
     startDate: Date,
     endDate: Date,
   ): Promise<Array<{ timestamp: Date; value: number }>> {
+    const rolledUp = await this.rollupService.getAggregated(
+      deviceId,
+      key,
+      aggregation,
+      interval,
+      startDate,
+      endDate,
+    );
+    if (rolledUp) return rolledUp;
+
     const intervalMap = {
       minute: '1 minute',
       hour: '1 hour',
@@ -90,22 +105,6 @@ export class TelemetryRepository extends Repository<Telemetry> {
     return result.map((row) => row.key);
   }
 
-  /**
-   * Delete old telemetry data
-   */
-  async deleteOld(daysOld: number): Promise<number> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysOld);
-
-    const result = await this.createQueryBuilder()
-      .delete()
-      .from(Telemetry)
-      .where('timestamp < :cutoffDate', { cutoffDate })
-      .execute();
-
-    return result.affected || 0;
-  }
-
   /**
    * Get telemetry statistics
    */
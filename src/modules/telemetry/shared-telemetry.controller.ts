@@ -0,0 +1,86 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { Public } from '@common/decorators/public.decorator';
+import { CurrentShare } from '@common/decorators/current-share.decorator';
+import {
+  SHARE_ACCESS_HEADER,
+  ShareAccessGuard,
+} from '@common/guards/share-access.guard';
+import type { SharePrincipal } from '@common/interfaces/index.interface';
+import { ParseIdPipe } from '../../common/pipes/parse-id.pipe';
+import { ShareAccessService } from '@modules/sharing/share-access.service';
+import { TelemetryService } from './telemetry.service';
+import {
+  TelemetryResponseDto,
+  TimeSeriesResponseDto,
+} from './dto/telemetry-response.dto';
+
+/**
+ * Telemetry of the devices a share link covers, for viewers without an
+ * account. Read-only; any other device is refused.
+ */
+@ApiTags('shared')
+@Controller('shared/:token/devices/:deviceId')
+@Public()
+@UseGuards(ShareAccessGuard)
+@ApiHeader({ name: SHARE_ACCESS_HEADER, required: false })
+export class SharedTelemetryController {
+  constructor(
+    private readonly telemetryService: TelemetryService,
+    private readonly shareAccess: ShareAccessService,
+  ) {}
+
+  @Get('latest')
+  @ApiOperation({ summary: 'Latest telemetry of a shared device' })
+  @ApiResponse({
+    status: 200,
+    description: 'Latest telemetry retrieved',
+    type: TelemetryResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Device not part of the share' })
+  getLatest(
+    @CurrentShare() share: SharePrincipal,
+    @Param('deviceId', ParseIdPipe) deviceId: string,
+  ) {
+    this.shareAccess.assertEntity(share, 'device', deviceId);
+    return this.telemetryService.getSharedLatest(deviceId, share.tenantId);
+  }
+
+  @Get('timeseries')
+  @ApiOperation({ summary: 'Time series of a shared device for one key' })
+  @ApiResponse({
+    status: 200,
+    description: 'Time series data retrieved',
+    type: TimeSeriesResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Device not part of the share' })
+  @ApiQuery({ name: 'key', required: true, type: String })
+  @ApiQuery({ name: 'startDate', required: true, type: String })
+  @ApiQuery({ name: 'endDate', required: true, type: String })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  getTimeSeries(
+    @CurrentShare() share: SharePrincipal,
+    @Param('deviceId', ParseIdPipe) deviceId: string,
+    @Query('key') key: string,
+    @Query('startDate') startDate: string,
+    @Query('endDate') endDate: string,
+    @Query('limit') limit?: number,
+  ) {
+    this.shareAccess.assertEntity(share, 'device', deviceId);
+    return this.telemetryService.getSharedTimeSeries(
+      deviceId,
+      share.tenantId,
+      key,
+      startDate,
+      endDate,
+      // Anonymous callers — never more than the default page
+      Math.min(Math.max(parseInt(String(limit), 10) || 1000, 1), 1000),
+    );
+  }
+}
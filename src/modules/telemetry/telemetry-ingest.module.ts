@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Device } from '@modules/devices/entities/device.entity';
+import { TelemetryIngestService } from './telemetry-ingest.service';
+
+// Own module so ProtocolsModule (DeviceListenerService) can use it without
+// importing TelemetryModule, which reaches ProtocolsModule via AutomationModule
+@Module({
+  imports: [TypeOrmModule.forFeature([Device])],
+  providers: [TelemetryIngestService],
+  exports: [TelemetryIngestService],
+})
+export class TelemetryIngestModule {}
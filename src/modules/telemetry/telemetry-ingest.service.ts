@@ -0,0 +1,238 @@
+// src/modules/telemetry/telemetry-ingest.service.ts
+
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { Device } from '@modules/devices/entities/device.entity';
+import { Telemetry } from './entities/telemetry.entity';
+import { RedisService } from '@/lib/redis/redis.service';
+import { StandardTelemetry } from '@common/interfaces/standard-telemetry.interface';
+
+/**
+ * What happens to a point older than the device's latest one. It is always
+ * stored and folded into rollups (count / sum / min / max do not depend on
+ * arrival order); it never replaces the latest snapshot, drives automations
+ * or reaches live dashboards.
+ *
+ *   store    — nothing else (default)
+ *   evaluate — alarms and the rule engine see it too, flagged late
+ */
+export type LateTelemetryPolicy = 'store' | 'evaluate';
+
+export interface LatestUpdate {
+  late: boolean;
+  // Timestamp of the snapshot the point was compared against
+  latestAt: Date | null;
+}
+
+export interface IngestStats {
+  deviceId: string;
+  messageCount: number;
+  duplicateCount: number;
+  lateCount: number;
+  latestAt: Date | null;
+  dedupWindowSec: number;
+  latePolicy: LateTelemetryPolicy;
+}
+
+const LATEST_KEY = (deviceId: string) => `device:${deviceId}:telemetry:latest`;
+const DEDUP_KEY = (deviceId: string, id: string) =>
+  `telemetry:dedup:${deviceId}:${id}`;
+
+const DEDUP_WINDOW_SEC = parseInt(
+  process.env.TELEMETRY_DEDUP_WINDOW_SEC || '600',
+  10,
+);
+const LATE_POLICY: LateTelemetryPolicy =
+  process.env.TELEMETRY_LATE_POLICY === 'evaluate' ? 'evaluate' : 'store';
+
+// Merges the point into the snapshot only if it is not older than the stored
+// one — compare and write in one step so concurrent consumers cannot interleave.
+// Returns the stored timestamp when the point is late.
+// ARGV[1] = point timestamp (ms), ARGV[2..] = field / value pairs
+const ADVANCE_LATEST_LUA = `
+local current = redis.call('HGET', KEYS[1], 'timestamp')
+if current and tonumber(current) > tonumber(ARGV[1]) then
+  return current
+end
+redis.call('HSET', KEYS[1], 'timestamp', ARGV[1], unpack(ARGV, 2))
+return false
+`;
+
+/**
+ * Guards the ingest pipeline against LoRaWAN retransmissions, gateway replays
+ * of buffered data and points that arrive after newer ones.
+ *
+ *   - isDuplicate()   DeviceListenerService, before decoding — claims the
+ *                     message id; releaseDuplicate() gives it back when the
+ *                     uplink fails before reaching Kafka, so a retry is let in
+ *   - updateLatest()  TelemetryConsumer / TelemetryService, after persisting
+ *
+ * Both count per device (devices.duplicateCount / lateCount). Redis failures
+ * never drop telemetry: the point is treated as new and in order.
+ */
+@Injectable()
+export class TelemetryIngestService {
+  private readonly logger = new Logger(TelemetryIngestService.name);
+
+  readonly latePolicy = LATE_POLICY;
+
+  constructor(
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    private readonly redis: RedisService,
+  ) {}
+
+  // ── Deduplication ─────────────────────────────────────────────────────────
+
+  /**
+   * Keyed by the LoRaWAN frame counter (+ fPort) when the uplink has one,
+   * otherwise by a hash of the payload and its timestamp — identical readings
+   * taken at different times are never merged. The window comes from
+   * device.metadata.dedupWindowSec or TELEMETRY_DEDUP_WINDOW_SEC; 0 disables.
+   */
+  async isDuplicate(
+    device: Device,
+    telemetry: StandardTelemetry,
+  ): Promise<boolean> {
+    const windowSec = this.dedupWindow(device);
+    if (windowSec <= 0) return false;
+
+    try {
+      const first = await this.redis.client.set(
+        DEDUP_KEY(device.id, this.messageId(telemetry)),
+        '1',
+        'EX',
+        windowSec,
+        'NX',
+      );
+      if (first === 'OK') return false;
+
+      await this.deviceRepository.update(
+        { id: device.id },
+        { duplicateCount: () => '"duplicateCount" + 1' },
+      );
+      return true;
+    } catch (err) {
+      this.logger.warn(
+        `Dedup check failed for ${device.deviceKey}: ${(err as Error).message}`,
+      );
+      return false;
+    }
+  }
+
+  /** Frees the id claimed by isDuplicate() for an uplink that was not delivered */
+  async releaseDuplicate(
+    device: Device,
+    telemetry: StandardTelemetry,
+  ): Promise<void> {
+    if (this.dedupWindow(device) <= 0) return;
+
+    try {
+      await this.redis.client.del(
+        DEDUP_KEY(device.id, this.messageId(telemetry)),
+      );
+    } catch (err) {
+      this.logger.warn(
+        `Dedup release failed for ${device.deviceKey}: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  // ── Ordering ──────────────────────────────────────────────────────────────
+
+  /**
+   * Merges a stored record into the latest snapshot, or reports it late and
+   * leaves the snapshot alone.
+   */
+  async updateLatest(record: Telemetry): Promise<LatestUpdate> {
+    const { deviceId, timestamp } = record;
+    const values: Record<string, any> = {
+      temperature: record.temperature,
+      humidity: record.humidity,
+      pressure: record.pressure,
+      batteryLevel: record.batteryLevel,
+      ...record.data,
+    };
+
+    const fields = Object.entries(values)
+      .filter(([k, v]) => k !== 'timestamp' && v !== undefined && v !== null)
+      .flatMap(([k, v]) => [
+        k,
+        typeof v === 'object' ? JSON.stringify(v) : String(v),
+      ]);
+
+    let newer: string | null;
+    try {
+      newer = (await this.redis.client.eval(
+        ADVANCE_LATEST_LUA,
+        1,
+        LATEST_KEY(deviceId),
+        String(timestamp.getTime()),
+        ...fields,
+      )) as string | null;
+    } catch (err) {
+      this.logger.warn(
+        `Latest snapshot update failed for ${deviceId}: ${(err as Error).message}`,
+      );
+      return { late: false, latestAt: null };
+    }
+
+    if (!newer) return { late: false, latestAt: timestamp };
+
+    const latestAt = new Date(Number(newer));
+    this.logger.debug(
+      `Late telemetry for ${deviceId}: ${timestamp.toISOString()} < ${latestAt.toISOString()}`,
+    );
+    await this.deviceRepository
+      .update({ id: deviceId }, { lateCount: () => '"lateCount" + 1' })
+      .catch((err: Error) =>
+        this.logger.warn(`Late count failed for ${deviceId}: ${err.message}`),
+      );
+
+    return { late: true, latestAt };
+  }
+
+  // ── Stats ─────────────────────────────────────────────────────────────────
+
+  async getStats(device: Device): Promise<IngestStats> {
+    const latest = await this.redis
+      .hget(LATEST_KEY(device.id), 'timestamp')
+      .catch(() => null);
+
+    return {
+      deviceId: device.id,
+      messageCount: device.messageCount,
+      duplicateCount: device.duplicateCount,
+      lateCount: device.lateCount,
+      latestAt: latest ? new Date(Number(latest)) : null,
+      dedupWindowSec: this.dedupWindow(device),
+      latePolicy: this.latePolicy,
+    };
+  }
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+
+  private dedupWindow(device: Device): number {
+    const override: unknown = device.metadata?.dedupWindowSec;
+    return typeof override === 'number' ? override : DEDUP_WINDOW_SEC;
+  }
+
+  private messageId(telemetry: StandardTelemetry): string {
+    const fCnt = telemetry.metadata?.frameCounter;
+    if (typeof fCnt === 'number') {
+      const fPort: unknown =
+        telemetry.metadata?.fPort ?? telemetry.metadata?.port ?? '';
+      return `fcnt:${String(fPort)}:${fCnt}`;
+    }
+
+    const timestamp = new Date(telemetry.timestamp).getTime();
+    return (
+      'hash:' +
+      createHash('sha1')
+        .update(JSON.stringify([telemetry.data, timestamp]))
+        .digest('hex')
+    );
+  }
+}
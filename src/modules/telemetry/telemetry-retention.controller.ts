@@ -0,0 +1,85 @@
+// src/modules/telemetry/telemetry-retention.controller.ts
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { TelemetryRetentionService } from './telemetry-retention.service';
+import {
+  RetentionDryRunDto,
+  RetentionPurgeResultDto,
+  TelemetryRetentionPolicyDto,
+} from './dto/telemetry-retention.dto';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { TenantAdminOnly } from '../../common/decorators/access-control.decorator';
+import { ParseIdPipe } from '../../common/pipes/parse-id.pipe';
+import { User } from '../users/entities/user.entity';
+
+@ApiTags('telemetry')
+@Controller('telemetry/retention')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class TelemetryRetentionController {
+  constructor(private readonly retentionService: TelemetryRetentionService) {}
+
+  @Get()
+  @TenantAdminOnly()
+  @ApiOperation({
+    summary: 'Plan, tenant and device profile telemetry retention policies',
+  })
+  getPolicies(@CurrentUser() user: User) {
+    return this.retentionService.getPolicies(user.tenantId!);
+  }
+
+  @Put()
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Set the tenant telemetry retention policy' })
+  @ApiResponse({ status: 400, description: 'Exceeds the plan retention' })
+  setTenantPolicy(
+    @CurrentUser() user: User,
+    @Body() dto: TelemetryRetentionPolicyDto,
+  ) {
+    return this.retentionService.setTenantPolicy(user.tenantId!, dto);
+  }
+
+  @Put('profiles/:deviceProfileId')
+  @TenantAdminOnly()
+  @ApiOperation({ summary: 'Set the telemetry retention of a device profile' })
+  @ApiResponse({ status: 400, description: 'Exceeds the plan retention' })
+  @ApiResponse({ status: 404, description: 'Device profile not found' })
+  setProfilePolicy(
+    @CurrentUser() user: User,
+    @Param('deviceProfileId', ParseIdPipe) deviceProfileId: string,
+    @Body() dto: TelemetryRetentionPolicyDto,
+  ) {
+    return this.retentionService.setProfilePolicy(
+      user.tenantId!,
+      deviceProfileId,
+      dto,
+    );
+  }
+
+  @Post('dry-run')
+  @TenantAdminOnly()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Count the telemetry rows a retention policy change would remove',
+  })
+  @ApiResponse({ status: 200, type: RetentionPurgeResultDto })
+  dryRun(@CurrentUser() user: User, @Body() dto: RetentionDryRunDto) {
+    return this.retentionService.dryRun(user.tenantId!, dto);
+  }
+}
@@ -0,0 +1,627 @@
+// src/modules/telemetry/telemetry-retention.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { Cron } from '@nestjs/schedule';
+import { DataSource, Repository } from 'typeorm';
+import { Device, DeviceProfile, Tenant } from '@modules/index.entities';
+import { SubscriptionsService } from '@modules/subscriptions/subscriptions.service';
+import type {
+  TelemetryRetentionPeriod,
+  TelemetryRetentionPolicy,
+} from '@common/interfaces/index.interface';
+import { TelemetryRollupService } from './telemetry-rollup.service';
+import type {
+  RetentionDryRunDto,
+  TelemetryRetentionPolicyDto,
+} from './dto/telemetry-retention.dto';
+
+export interface RetentionPurgeResult {
+  devices: number;
+  rawDeleted: number;
+  rawTrimmed: number;
+  rollupsDeleted: number;
+}
+
+export interface TelemetryRetentionOverview {
+  plan: Required<TelemetryRetentionPeriod>;
+  tenant: TelemetryRetentionPolicy | null;
+  profiles: Array<{
+    deviceProfileId: string;
+    name: string;
+    policy: TelemetryRetentionPolicy | null;
+  }>;
+}
+
+// When raw rows or rollups of a device group expire; null never expires
+interface ExpiryPlan {
+  cutoff: Date | null; // keys without a setting of their own
+  keys: string[];
+  keyCutoffs: Array<Date | null>;
+}
+
+interface DeviceGroup {
+  deviceProfileId: string | null;
+  deviceIds: string[];
+  raw: ExpiryPlan;
+  rollups: ExpiryPlan;
+}
+
+// Policies evaluated instead of the stored ones (dry run, cleanup schedules)
+interface PolicyOverrides {
+  tenant?: TelemetryRetentionPolicy;
+  profiles?: Record<string, TelemetryRetentionPolicy>;
+}
+
+const DAY_MS = 86_400_000;
+
+// Subscriptions created before the plans carried retention limits
+const DEFAULT_RAW_RETENTION_DAYS = 90;
+const DEFAULT_ROLLUP_RETENTION_DAYS = 730;
+
+// Every statement takes $1 device ids, $2 keys with a cutoff of their own,
+// $3 those cutoffs, $4 the default cutoff and [$5, $6) the time partition.
+const keyCutoffSql = (key: string) => `
+  CASE WHEN ${key} = ANY($2::text[])
+    THEN (SELECT c.cutoff
+          FROM unnest($2::text[], $3::timestamp[]) AS c(key, cutoff)
+          WHERE c.key = ${key})
+    ELSE $4::timestamp
+  END`;
+
+const expiredSql = (time: string, key: string) =>
+  `COALESCE(${time} < ${keyCutoffSql(key)}, false)`;
+
+// Keys of raw row t and how many of them expired. Non-object and empty
+// payloads count as one key without a setting of its own.
+const ROW_EXPIRY_SQL = `
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) AS total,
+           COUNT(*) FILTER (WHERE ${expiredSql('t."timestamp"', 'k.key')}) AS expired
+    FROM jsonb_object_keys(
+      CASE WHEN jsonb_typeof(t.data) = 'object' AND t.data <> '{}'::jsonb
+        THEN t.data ELSE '{"": null}'::jsonb END
+    ) AS k(key)
+  ) e`;
+
+const RAW_PARTITION_SQL = `
+  t."deviceId" = ANY($1) AND t."timestamp" >= $5 AND t."timestamp" < $6`;
+
+const RAW_DELETE_SQL = `
+  DELETE FROM telemetry WHERE id IN (
+    SELECT t.id FROM telemetry t ${ROW_EXPIRY_SQL}
+    WHERE ${RAW_PARTITION_SQL} AND e.expired = e.total
+  )`;
+
+// Rows holding both expired and live keys keep the live ones
+const RAW_TRIM_SQL = `
+  UPDATE telemetry t SET data = COALESCE((
+    SELECT jsonb_object_agg(kv.key, kv.value)
+    FROM jsonb_each(t.data) kv
+    WHERE NOT ${expiredSql('t."timestamp"', 'kv.key')}
+  ), '{}'::jsonb)
+  WHERE ${RAW_PARTITION_SQL} AND jsonb_typeof(t.data) = 'object'
+    AND EXISTS (
+      SELECT 1 FROM jsonb_object_keys(t.data) AS k(key)
+      WHERE ${expiredSql('t."timestamp"', 'k.key')}
+    )`;
+
+const RAW_COUNT_SQL = `
+  SELECT COUNT(*) FILTER (WHERE e.expired = e.total) AS deleted,
+         COUNT(*) FILTER (WHERE e.expired > 0 AND e.expired < e.total) AS trimmed
+  FROM telemetry t ${ROW_EXPIRY_SQL}
+  WHERE ${RAW_PARTITION_SQL}`;
+
+const ROLLUP_WHERE_SQL = `
+  r."deviceId" = ANY($1) AND r."bucket" >= $5 AND r."bucket" < $6
+  AND ${expiredSql('r."bucket"', 'r."key"')}`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Telemetry retention per plan, tenant, device profile and key.
+//
+// Runs nightly for every tenant (and from CLEANUP schedules). Each device
+// profile's devices are purged one day partition at a time: raw rows whose
+// keys all expired are deleted, rows with only some expired keys keep the
+// rest. Rollups expire per key on their own cutoffs.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class TelemetryRetentionService {
+  private readonly logger = new Logger(TelemetryRetentionService.name);
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    @InjectRepository(Tenant)
+    private readonly tenantRepository: Repository<Tenant>,
+    @InjectRepository(DeviceProfile)
+    private readonly profileRepository: Repository<DeviceProfile>,
+    @InjectRepository(Device)
+    private readonly deviceRepository: Repository<Device>,
+    private readonly subscriptionsService: SubscriptionsService,
+    private readonly rollupService: TelemetryRollupService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // POLICIES
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async getPolicies(tenantId: string): Promise<TelemetryRetentionOverview> {
+    const tenant = await this.findTenant(tenantId);
+    const profiles = await this.profileRepository.find({
+      where: { tenantId },
+      select: ['id', 'name', 'telemetryRetention'],
+      order: { name: 'ASC' },
+    });
+
+    return {
+      plan: await this.planRetention(tenantId),
+      tenant: tenant.configuration?.telemetryRetention ?? null,
+      profiles: profiles.map((profile) => ({
+        deviceProfileId: profile.id,
+        name: profile.name,
+        policy: profile.telemetryRetention ?? null,
+      })),
+    };
+  }
+
+  async setTenantPolicy(
+    tenantId: string,
+    dto: TelemetryRetentionPolicyDto,
+  ): Promise<TelemetryRetentionPolicy> {
+    const tenant = await this.findTenant(tenantId);
+    const policy = this.validatePolicy(dto, await this.planRetention(tenantId));
+
+    tenant.configuration = {
+      ...tenant.configuration,
+      telemetryRetention: policy,
+    };
+    await this.tenantRepository.save(tenant);
+    return policy;
+  }
+
+  async setProfilePolicy(
+    tenantId: string,
+    deviceProfileId: string,
+    dto: TelemetryRetentionPolicyDto,
+  ): Promise<TelemetryRetentionPolicy> {
+    const profile = await this.findProfile(tenantId, deviceProfileId);
+    const policy = this.validatePolicy(dto, await this.planRetention(tenantId));
+
+    profile.telemetryRetention = policy;
+    await this.profileRepository.save(profile);
+    return policy;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PURGE
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Rows the policy would remove if it replaced the tenant policy — or the
+   * profile's, with deviceProfileId. Nothing is deleted.
+   */
+  async dryRun(
+    tenantId: string,
+    dto: RetentionDryRunDto,
+  ): Promise<RetentionPurgeResult> {
+    const { deviceProfileId, ...proposed } = dto;
+    const policy = this.validatePolicy(
+      proposed,
+      await this.planRetention(tenantId),
+    );
+
+    if (!deviceProfileId) {
+      return this.run(tenantId, { tenant: policy }, true);
+    }
+
+    await this.findProfile(tenantId, deviceProfileId);
+    return this.run(
+      tenantId,
+      { profiles: { [deviceProfileId]: policy } },
+      true,
+      deviceProfileId,
+    );
+  }
+
+  /**
+   * Applies the stored policies of the tenant. `defaults` replace the
+   * tenant-wide rawDays / rollupDays for this run (CLEANUP schedules).
+   */
+  async applyTenant(
+    tenantId: string,
+    defaults?: TelemetryRetentionPeriod,
+  ): Promise<RetentionPurgeResult> {
+    let overrides: PolicyOverrides = {};
+    if (defaults) {
+      const tenant = await this.findTenant(tenantId);
+      overrides = {
+        tenant: { ...tenant.configuration?.telemetryRetention, ...defaults },
+      };
+    }
+
+    const result = await this.run(tenantId, overrides, false);
+    this.logger.log(
+      `Retention for tenant ${tenantId}: ${result.rawDeleted} raw row(s) deleted, ` +
+        `${result.rawTrimmed} trimmed, ${result.rollupsDeleted} rollup(s) deleted`,
+    );
+    return result;
+  }
+
+  @Cron('0 3 * * *') // Run at 3 AM daily
+  async applyAll(): Promise<void> {
+    const tenants = await this.tenantRepository.find({ select: ['id'] });
+
+    for (const tenant of tenants) {
+      await this.applyTenant(tenant.id).catch((error: Error) =>
+        this.logger.error(
+          `Retention for tenant ${tenant.id} failed: ${error.message}`,
+        ),
+      );
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private async run(
+    tenantId: string,
+    overrides: PolicyOverrides,
+    dryRun: boolean,
+    onlyProfileId?: string,
+  ): Promise<RetentionPurgeResult> {
+    const groups = (await this.deviceGroups(tenantId, overrides)).filter(
+      (group) => !onlyProfileId || group.deviceProfileId === onlyProfileId,
+    );
+    const result: RetentionPurgeResult = {
+      devices: 0,
+      rawDeleted: 0,
+      rawTrimmed: 0,
+      rollupsDeleted: 0,
+    };
+
+    for (const group of groups) {
+      const raw = await this.purgeRaw(group, dryRun);
+      result.devices += group.deviceIds.length;
+      result.rawDeleted += raw.deleted;
+      result.rawTrimmed += raw.trimmed;
+      result.rollupsDeleted += await this.purgeRollups(group, dryRun);
+    }
+
+    return result;
+  }
+
+  private async purgeRaw(
+    group: DeviceGroup,
+    dryRun: boolean,
+  ): Promise<{ deleted: number; trimmed: number }> {
+    const limit = this.latestCutoff(group.raw);
+    if (!limit) return { deleted: 0, trimmed: 0 };
+
+    const [{ oldest }] = await this.dataSource.query<
+      Array<{ oldest: Date | null }>
+    >(
+      `SELECT MIN("timestamp") AS oldest FROM telemetry WHERE "deviceId" = ANY($1)`,
+      [group.deviceIds],
+    );
+    if (!oldest || oldest >= limit) return { deleted: 0, trimmed: 0 };
+
+    if (dryRun) {
+      const [counts] = await this.dataSource.query<
+        Array<{ deleted: string; trimmed: string }>
+      >(RAW_COUNT_SQL, this.params(group, group.raw, oldest, limit));
+      return {
+        deleted: Number(counts.deleted),
+        trimmed: Number(counts.trimmed),
+      };
+    }
+
+    let deleted = 0;
+    let trimmed = 0;
+    for (const [from, to] of this.dayPartitions(oldest, limit)) {
+      const params = this.params(group, group.raw, from, to);
+      const [, removed] = await this.dataSource.query<[unknown[], number]>(
+        RAW_DELETE_SQL,
+        params,
+      );
+      const [, updated] = await this.dataSource.query<[unknown[], number]>(
+        RAW_TRIM_SQL,
+        params,
+      );
+      deleted += removed ?? 0;
+      trimmed += updated ?? 0;
+    }
+
+    await this.rollupService.markRawPruned(group.deviceIds, limit);
+    return { deleted, trimmed };
+  }
+
+  private async purgeRollups(
+    group: DeviceGroup,
+    dryRun: boolean,
+  ): Promise<number> {
+    const limit = this.latestCutoff(group.rollups);
+    if (!limit) return 0;
+
+    const [{ oldest }] = await this.dataSource.query<
+      Array<{ oldest: Date | null }>
+    >(
+      `SELECT MIN("bucket") AS oldest FROM telemetry_rollups WHERE "deviceId" = ANY($1)`,
+      [group.deviceIds],
+    );
+    if (!oldest || oldest >= limit) return 0;
+
+    if (dryRun) {
+      const [{ deleted }] = await this.dataSource.query<
+        Array<{ deleted: string }>
+      >(
+        `SELECT COUNT(*) AS deleted FROM telemetry_rollups r WHERE ${ROLLUP_WHERE_SQL}`,
+        this.params(group, group.rollups, oldest, limit),
+      );
+      return Number(deleted);
+    }
+
+    let deleted = 0;
+    for (const [from, to] of this.dayPartitions(oldest, limit)) {
+      const [, removed] = await this.dataSource.query<[unknown[], number]>(
+        `DELETE FROM telemetry_rollups r WHERE ${ROLLUP_WHERE_SQL}`,
+        this.params(group, group.rollups, from, to),
+      );
+      deleted += removed ?? 0;
+    }
+
+    // Keys kept longer still answer from their rollups — only the earliest
+    // cutoff sends older queries back to raw telemetry
+    const earliest = this.earliestCutoff(group.rollups);
+    if (earliest) {
+      await this.rollupService.markRollupsPruned(group.deviceIds, earliest);
+    }
+    return deleted;
+  }
+
+  /** Devices of the tenant grouped by profile, with their cutoffs */
+  private async deviceGroups(
+    tenantId: string,
+    overrides: PolicyOverrides,
+  ): Promise<DeviceGroup[]> {
+    const tenant = await this.findTenant(tenantId);
+    const plan = await this.planRetention(tenantId);
+    const tenantPolicy =
+      overrides.tenant ?? tenant.configuration?.telemetryRetention ?? {};
+
+    const profiles = await this.profileRepository.find({
+      where: { tenantId },
+      select: ['id', 'telemetryRetention'],
+    });
+    const profilePolicies = new Map(
+      profiles.map((profile) => [
+        profile.id,
+        overrides.profiles?.[profile.id] ?? profile.telemetryRetention ?? {},
+      ]),
+    );
+
+    // Soft-deleted devices still have telemetry to expire
+    const devices = await this.deviceRepository.find({
+      where: { tenantId },
+      select: ['id', 'deviceProfileId'],
+      withDeleted: true,
+    });
+    const byProfile = new Map<string | null, string[]>();
+    for (const device of devices) {
+      const profileId =
+        device.deviceProfileId && profilePolicies.has(device.deviceProfileId)
+          ? device.deviceProfileId
+          : null;
+      const deviceIds = byProfile.get(profileId);
+      if (deviceIds) deviceIds.push(device.id);
+      else byProfile.set(profileId, [device.id]);
+    }
+
+    const now = Date.now();
+    return [...byProfile].map(([deviceProfileId, deviceIds]) => {
+      const profilePolicy =
+        (deviceProfileId && profilePolicies.get(deviceProfileId)) || {};
+      return {
+        deviceProfileId,
+        deviceIds,
+        raw: this.expiryPlan(
+          'rawDays',
+          plan.rawDays,
+          tenantPolicy,
+          profilePolicy,
+          now,
+        ),
+        rollups: this.expiryPlan(
+          'rollupDays',
+          plan.rollupDays,
+          tenantPolicy,
+          profilePolicy,
+          now,
+        ),
+      };
+    });
+  }
+
+  /** profile key → tenant key → profile → tenant → plan, capped by the plan */
+  private expiryPlan(
+    field: keyof TelemetryRetentionPeriod,
+    planDays: number,
+    tenant: TelemetryRetentionPolicy,
+    profile: TelemetryRetentionPolicy,
+    now: number,
+  ): ExpiryPlan {
+    const resolve = (...candidates: Array<number | undefined>) => {
+      const days = candidates.find((d) => d !== undefined) ?? planDays;
+      if (planDays === -1) return days;
+      return days === -1 ? planDays : Math.min(days, planDays);
+    };
+    const toCutoff = (days: number) => {
+      if (days === -1) return null;
+      const cutoff = now - days * DAY_MS;
+      // Rollups expire by whole (UTC) day buckets
+      return new Date(
+        field === 'rollupDays' ? Math.floor(cutoff / DAY_MS) * DAY_MS : cutoff,
+      );
+    };
+
+    const keys = [
+      ...new Set([
+        ...Object.keys(tenant.keys ?? {}),
+        ...Object.keys(profile.keys ?? {}),
+      ]),
+    ];
+
+    return {
+      cutoff: toCutoff(resolve(profile[field], tenant[field])),
+      keys,
+      keyCutoffs: keys.map((key) =>
+        toCutoff(
+          resolve(
+            profile.keys?.[key]?.[field],
+            tenant.keys?.[key]?.[field],
+            profile[field],
+            tenant[field],
+          ),
+        ),
+      ),
+    };
+  }
+
+  private latestCutoff(plan: ExpiryPlan): Date | null {
+    const cutoffs = [plan.cutoff, ...plan.keyCutoffs].filter(
+      (cutoff): cutoff is Date => cutoff !== null,
+    );
+    if (!cutoffs.length) return null;
+    return new Date(Math.max(...cutoffs.map((c) => c.getTime())));
+  }
+
+  private earliestCutoff(plan: ExpiryPlan): Date | null {
+    const cutoffs = [plan.cutoff, ...plan.keyCutoffs];
+    let earliest = Infinity;
+    for (const cutoff of cutoffs) {
+      if (!cutoff) return null;
+      earliest = Math.min(earliest, cutoff.getTime());
+    }
+    return new Date(earliest);
+  }
+
+  /** Whole UTC days from the day of `from` up to `to` */
+  private dayPartitions(from: Date, to: Date): Array<[Date, Date]> {
+    const partitions: Array<[Date, Date]> = [];
+    let start = Math.floor(from.getTime() / DAY_MS) * DAY_MS;
+    while (start < to.getTime()) {
+      const end = Math.min(start + DAY_MS, to.getTime());
+      partitions.push([new Date(start), new Date(end)]);
+      start = end;
+    }
+    return partitions;
+  }
+
+  private params(
+    group: DeviceGroup,
+    plan: ExpiryPlan,
+    from: Date,
+    to: Date,
+  ): unknown[] {
+    return [group.deviceIds, plan.keys, plan.keyCutoffs, plan.cutoff, from, to];
+  }
+
+  /** The plan's retention is both the default and the ceiling */
+  private async planRetention(
+    tenantId: string,
+  ): Promise<Required<TelemetryRetentionPeriod>> {
+    const subscription = await this.subscriptionsService
+      .findByTenantId(tenantId)
+      .catch(() => null);
+    const orDefault = (days: number | undefined, fallback: number) =>
+      days !== undefined && (days > 0 || days === -1) ? days : fallback;
+
+    return {
+      rawDays: orDefault(
+        subscription?.limits?.dataRetentionDays,
+        DEFAULT_RAW_RETENTION_DAYS,
+      ),
+      rollupDays: orDefault(
+        subscription?.limits?.rollupRetentionDays,
+        DEFAULT_ROLLUP_RETENTION_DAYS,
+      ),
+    };
+  }
+
+  private validatePolicy(
+    dto: TelemetryRetentionPolicy,
+    plan: Required<TelemetryRetentionPeriod>,
+  ): TelemetryRetentionPolicy {
+    const period = (
+      value: TelemetryRetentionPeriod,
+      path: string,
+    ): TelemetryRetentionPeriod => ({
+      rawDays: this.validateDays(value.rawDays, plan.rawDays, `${path}rawDays`),
+      rollupDays: this.validateDays(
+        value.rollupDays,
+        plan.rollupDays,
+        `${path}rollupDays`,
+      ),
+    });
+
+    const policy: TelemetryRetentionPolicy = period(dto, '');
+    for (const [key, value] of Object.entries(dto.keys ?? {})) {
+      if (!key.trim()) {
+        throw new BadRequestException('Retention keys must not be empty');
+      }
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new BadRequestException(
+          `keys.${key} must be an object of rawDays / rollupDays`,
+        );
+      }
+      policy.keys = { ...policy.keys, [key]: period(value, `keys.${key}.`) };
+    }
+    return policy;
+  }
+
+  private validateDays(
+    days: number | null | undefined,
+    planDays: number,
+    field: string,
+  ): number | undefined {
+    if (days === undefined || days === null) return undefined;
+    if (!Number.isInteger(days) || (days < 1 && days !== -1)) {
+      throw new BadRequestException(
+        `${field} must be a positive number of days or -1 (forever)`,
+      );
+    }
+    if (planDays !== -1 && (days === -1 || days > planDays)) {
+      throw new BadRequestException(
+        `${field} exceeds the plan's retention of ${planDays} days`,
+      );
+    }
+    return days;
+  }
+
+  private async findTenant(tenantId: string): Promise<Tenant> {
+    if (!tenantId) {
+      throw new BadRequestException('Retention policies require a tenant');
+    }
+    const tenant = await this.tenantRepository.findOne({
+      where: { id: tenantId },
+    });
+    if (!tenant) throw new NotFoundException('Tenant not found');
+    return tenant;
+  }
+
+  private async findProfile(
+    tenantId: string,
+    deviceProfileId: string,
+  ): Promise<DeviceProfile> {
+    const profile = await this.profileRepository.findOne({
+      where: { id: deviceProfileId, tenantId },
+    });
+    if (!profile) throw new NotFoundException('Device profile not found');
+    return profile;
+  }
+}
@@ -0,0 +1,63 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { KafkaService } from '@/lib/kafka/kafka.service';
+import { TelemetryRollupService } from './telemetry-rollup.service';
+
+interface ProcessedTelemetry {
+  tenantId: string;
+  deviceId: string;
+  telemetryId: string;
+  timestamp: string;
+  data: Record<string, any>;
+}
+
+@Injectable()
+export class TelemetryRollupConsumer implements OnModuleInit {
+  private readonly logger = new Logger(TelemetryRollupConsumer.name);
+
+  constructor(
+    private readonly kafka: KafkaService,
+    private readonly rollupService: TelemetryRollupService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    this.logger.log('Starting telemetry rollup consumer...');
+
+    try {
+      await this.kafka.createConsumer(
+        'telemetry-rollup-group',
+        ['telemetry.device.processed'],
+        this.handleMessage.bind(this),
+      );
+      this.logger.log('Telemetry rollup consumer started');
+    } catch (error) {
+      this.logger.error(
+        `Failed to start telemetry rollup consumer: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async handleMessage({ message }: any): Promise<void> {
+    try {
+      const payload = JSON.parse(
+        message.value.toString(),
+      ) as ProcessedTelemetry;
+
+      if (!payload.deviceId || !payload.tenantId || !payload.data) {
+        this.logger.warn('Incomplete processed telemetry — skipping rollup');
+        return;
+      }
+
+      await this.rollupService.record({
+        tenantId: payload.tenantId,
+        deviceId: payload.deviceId,
+        timestamp: new Date(payload.timestamp),
+        data: payload.data,
+      });
+    } catch (error) {
+      // A missed record is restored by the next rebuild of its day
+      this.logger.error(
+        `Rollup of telemetry failed: ${(error as Error).message}`,
+      );
+    }
+  }
+}
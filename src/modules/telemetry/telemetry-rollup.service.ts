@@ -0,0 +1,456 @@
+// src/modules/telemetry/telemetry-rollup.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { DataSource } from 'typeorm';
+import { RedisService } from '@/lib/redis/redis.service';
+import type { RollupResolution } from './entities/telemetry-rollup.entity';
+
+export type RollupAggregation = 'avg' | 'sum' | 'min' | 'max' | 'count';
+export type AggregationInterval = 'minute' | 'hour' | 'day' | 'week' | 'month';
+
+export interface RollupPoint {
+  timestamp: Date;
+  value: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface RollupKeyStats {
+  avg: number | null;
+  min: number | null;
+  max: number | null;
+  count: number;
+}
+
+export interface RollupRecord {
+  tenantId: string;
+  deviceId: string;
+  timestamp: Date;
+  data: Record<string, any>;
+}
+
+export interface RebuildRollupsJob {
+  deviceId: string;
+  from: string;
+  to: string;
+}
+
+// deviceId → epoch ms from which every telemetry record is in the rollups
+const COVERAGE_KEY = 'telemetry:rollups:coverage';
+
+// deviceId → epoch ms before which retention has pruned raw telemetry
+const RAW_HORIZON_KEY = 'telemetry:rollups:raw-horizon';
+
+const RESOLUTIONS: RollupResolution[] = ['minute', 'hour', 'day'];
+
+const RESOLUTION_MS: Record<RollupResolution, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+// Coarsest rollup whose buckets nest inside the requested interval
+const RESOLUTION_FOR_INTERVAL: Record<AggregationInterval, RollupResolution> = {
+  minute: 'minute',
+  hour: 'hour',
+  day: 'day',
+  week: 'day',
+  month: 'day',
+};
+
+const AGGREGATE_SQL: Record<RollupAggregation, string> = {
+  avg: 'SUM(r."sum") / NULLIF(SUM(r."count"), 0)',
+  sum: 'SUM(r."sum")',
+  min: 'MIN(r."min")',
+  max: 'MAX(r."max")',
+  count: 'SUM(r."count")',
+};
+
+// Rebuild jobs cover at most this much raw telemetry per transaction
+const REBUILD_CHUNK_DAYS = 30;
+
+// Numbers and numeric strings — what getAggregated's ::numeric cast accepted
+const NUMERIC_VALUE_SQL = `
+  CASE
+    WHEN jsonb_typeof(kv.value) = 'number'
+      THEN (kv.value #>> '{}')::double precision
+    WHEN jsonb_typeof(kv.value) = 'string'
+      AND (kv.value #>> '{}') ~ '^\\s*-?[0-9]+(\\.[0-9]+)?\\s*$'
+      THEN (kv.value #>> '{}')::double precision
+  END`;
+
+const UPSERT_COLUMNS = `
+  INSERT INTO telemetry_rollups
+    ("tenantId", "deviceId", "key", "resolution", "bucket",
+     "count", "sum", "min", "max")`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Minute / hour / day rollups of every numeric telemetry key.
+//
+// Live telemetry is folded in per record (telemetry.device.processed and the
+// HTTP ingestion path). Backfill / rebuild recompute whole days from raw
+// telemetry — after late or corrected data, or for history that predates
+// the rollups. Reads use the rollups only where the coverage mark says they
+// are complete, and fall back to raw telemetry otherwise.
+// ─────────────────────────────────────────────────────────────────────────────
+
+@Injectable()
+export class TelemetryRollupService {
+  private readonly logger = new Logger(TelemetryRollupService.name);
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    @InjectQueue('telemetry')
+    private readonly telemetryQueue: Queue,
+    private readonly redis: RedisService,
+  ) {}
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // INCREMENTAL
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async record(record: RollupRecord): Promise<void> {
+    if (!record.data || typeof record.data !== 'object') return;
+    if (Array.isArray(record.data)) return;
+
+    await this.dataSource.query(
+      `${UPSERT_COLUMNS}
+       SELECT $1, $2, kv.key, res.resolution,
+              date_trunc(res.resolution, $3::timestamp),
+              1, n.value, n.value, n.value
+       FROM jsonb_each($4::jsonb) kv
+       CROSS JOIN LATERAL (SELECT ${NUMERIC_VALUE_SQL} AS value) n
+       CROSS JOIN unnest($5::text[]) res(resolution)
+       WHERE n.value IS NOT NULL
+       ON CONFLICT ("deviceId", "key", "resolution", "bucket") DO UPDATE SET
+         "count" = telemetry_rollups."count" + EXCLUDED."count",
+         "sum" = telemetry_rollups."sum" + EXCLUDED."sum",
+         "min" = LEAST(telemetry_rollups."min", EXCLUDED."min"),
+         "max" = GREATEST(telemetry_rollups."max", EXCLUDED."max"),
+         "updatedAt" = now()`,
+      [
+        record.tenantId,
+        record.deviceId,
+        record.timestamp,
+        JSON.stringify(record.data),
+        RESOLUTIONS,
+      ],
+    );
+
+    // From the first live record on, everything newer is folded in. Its own
+    // timestamp may be old (late data), so the mark is the arrival time.
+    await this.redis.client.hsetnx(
+      COVERAGE_KEY,
+      record.deviceId,
+      String(Date.now()),
+    );
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // BACKFILL / REBUILD
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Queues rebuild jobs over [from, to], newest chunk first so the coverage
+   * mark moves back one contiguous chunk at a time.
+   */
+  async scheduleRebuild(
+    deviceIds: string[],
+    from: Date,
+    to: Date = new Date(),
+  ): Promise<{ devices: number; jobs: number }> {
+    const chunkMs = REBUILD_CHUNK_DAYS * RESOLUTION_MS.day;
+    let jobs = 0;
+
+    for (const deviceId of deviceIds) {
+      for (let end = to.getTime(); end > from.getTime(); end -= chunkMs) {
+        const start = Math.max(end - chunkMs, from.getTime());
+        const job: RebuildRollupsJob = {
+          deviceId,
+          from: new Date(start).toISOString(),
+          to: new Date(end).toISOString(),
+        };
+        await this.telemetryQueue.add('rebuild-rollups', job, {
+          attempts: 3,
+          backoff: { type: 'exponential', delay: 10_000 },
+          removeOnComplete: true,
+        });
+        jobs++;
+      }
+    }
+
+    this.logger.log(
+      `Queued ${jobs} rollup rebuild job(s) for ${deviceIds.length} device(s)`,
+    );
+    return { devices: deviceIds.length, jobs };
+  }
+
+  /**
+   * Recomputes every rollup of the device in the whole days spanning
+   * [from, to] from raw telemetry. Called by TelemetryProcessor.
+   */
+  async rebuild(deviceId: string, from: Date, to: Date): Promise<number> {
+    // Days retention has (partly) pruned keep their rollups as they are
+    const horizon = await this.redis.hget(RAW_HORIZON_KEY, deviceId);
+    if (horizon) {
+      const firstWholeDay =
+        Math.ceil(Number(horizon) / RESOLUTION_MS.day) * RESOLUTION_MS.day;
+      if (from.getTime() < firstWholeDay) from = new Date(firstWholeDay);
+      if (from >= to) return 0;
+    }
+
+    const rows = await this.dataSource.transaction(async (manager) => {
+      const [{ start, end }] = await manager.query<
+        Array<{ start: Date; end: Date }>
+      >(
+        `SELECT date_trunc('day', $1::timestamp) AS start,
+                date_trunc('day', $2::timestamp) + interval '1 day' AS "end"`,
+        [from, to],
+      );
+
+      await manager.query(
+        `DELETE FROM telemetry_rollups
+         WHERE "deviceId" = $1 AND "bucket" >= $2 AND "bucket" < $3`,
+        [deviceId, start, end],
+      );
+
+      const inserted = await manager.query<unknown[]>(
+        `${UPSERT_COLUMNS}
+         SELECT t."tenantId", t."deviceId", kv.key, res.resolution,
+                date_trunc(res.resolution, t."timestamp") AS bucket,
+                COUNT(*), SUM(n.value), MIN(n.value), MAX(n.value)
+         FROM telemetry t
+         CROSS JOIN LATERAL jsonb_each(
+           CASE WHEN jsonb_typeof(t.data) = 'object' THEN t.data ELSE '{}'::jsonb END
+         ) kv
+         CROSS JOIN LATERAL (SELECT ${NUMERIC_VALUE_SQL} AS value) n
+         CROSS JOIN unnest($4::text[]) res(resolution)
+         WHERE t."deviceId" = $1 AND t.deleted_at IS NULL
+           AND t."timestamp" >= $2 AND t."timestamp" < $3
+           AND n.value IS NOT NULL
+         GROUP BY t."tenantId", t."deviceId", kv.key, res.resolution, bucket
+         ON CONFLICT ("deviceId", "key", "resolution", "bucket") DO UPDATE SET
+           "count" = EXCLUDED."count",
+           "sum" = EXCLUDED."sum",
+           "min" = EXCLUDED."min",
+           "max" = EXCLUDED."max",
+           "updatedAt" = now()
+         RETURNING 1`,
+        [deviceId, start, end, RESOLUTIONS],
+      );
+
+      await this.extendCoverage(deviceId, start, end);
+      return inserted.length;
+    });
+
+    this.logger.log(
+      `Rebuilt ${rows} rollup bucket(s) for device ${deviceId} ` +
+        `(${from.toISOString()} – ${to.toISOString()})`,
+    );
+    return rows;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // RETENTION (called by TelemetryRetentionService)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** Raw telemetry before cutoff is gone — rebuilds must not start earlier */
+  async markRawPruned(deviceIds: string[], cutoff: Date): Promise<void> {
+    for (const deviceId of deviceIds) {
+      const current = await this.redis.hget(RAW_HORIZON_KEY, deviceId);
+      if (current && Number(current) >= cutoff.getTime()) continue;
+      await this.redis.hset(
+        RAW_HORIZON_KEY,
+        deviceId,
+        String(cutoff.getTime()),
+      );
+    }
+  }
+
+  /**
+   * Rollups before cutoff are gone — queries reaching further back read
+   * raw telemetry instead, as long as retention kept it.
+   */
+  async markRollupsPruned(deviceIds: string[], cutoff: Date): Promise<void> {
+    const mark =
+      Math.ceil(cutoff.getTime() / RESOLUTION_MS.day) * RESOLUTION_MS.day;
+
+    for (const deviceId of deviceIds) {
+      const current = await this.redis.hget(COVERAGE_KEY, deviceId);
+      if (!current || Number(current) >= mark) continue;
+      await this.redis.hset(COVERAGE_KEY, deviceId, String(mark));
+    }
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // READS (null → not covered, the caller queries raw telemetry)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  async getAggregated(
+    deviceId: string,
+    key: string,
+    aggregation: RollupAggregation,
+    interval: AggregationInterval,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<Array<{ timestamp: Date; value: number }> | null> {
+    const resolution = RESOLUTION_FOR_INTERVAL[interval];
+    if (!(await this.covers(deviceId, startDate, resolution))) return null;
+
+    const rows = await this.dataSource.query<
+      Array<{ timestamp: Date; value: string | number | null }>
+    >(
+      `SELECT date_trunc($1, r."bucket") AS timestamp,
+              ${AGGREGATE_SQL[aggregation]} AS value
+       FROM telemetry_rollups r
+       WHERE r."deviceId" = $2 AND r."key" = $3 AND r."resolution" = $4
+         AND r."bucket" >= date_trunc($4, $5::timestamp) AND r."bucket" <= $6
+       GROUP BY 1
+       ORDER BY 1 ASC`,
+      [interval, deviceId, key, resolution, startDate, endDate],
+    );
+
+    return rows.map((row) => ({
+      timestamp: row.timestamp,
+      value: Number(row.value) || 0,
+    }));
+  }
+
+  /** avg / min / max / count of several keys per interval */
+  async getKeyStats(
+    deviceId: string,
+    keys: string[],
+    interval: AggregationInterval,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<Array<{
+    period: Date;
+    keys: Record<string, RollupKeyStats>;
+  }> | null> {
+    const resolution = RESOLUTION_FOR_INTERVAL[interval];
+    if (!(await this.covers(deviceId, startDate, resolution))) return null;
+
+    const rows = await this.dataSource.query<
+      Array<{
+        period: Date;
+        key: string;
+        avg: string | null;
+        min: number | null;
+        max: number | null;
+        count: string;
+      }>
+    >(
+      `SELECT date_trunc($1, r."bucket") AS period, r."key" AS key,
+              ${AGGREGATE_SQL.avg} AS avg, MIN(r."min") AS min,
+              MAX(r."max") AS max, SUM(r."count") AS count
+       FROM telemetry_rollups r
+       WHERE r."deviceId" = $2 AND r."key" = ANY($3::text[])
+         AND r."resolution" = $4
+         AND r."bucket" >= date_trunc($4, $5::timestamp) AND r."bucket" <= $6
+       GROUP BY 1, 2
+       ORDER BY 1 ASC`,
+      [interval, deviceId, keys, resolution, startDate, endDate],
+    );
+
+    const periods = new Map<number, Record<string, RollupKeyStats>>();
+    for (const row of rows) {
+      const stats = periods.get(row.period.getTime()) ?? {};
+      stats[row.key] = {
+        avg: row.avg === null ? null : Number(row.avg),
+        min: row.min,
+        max: row.max,
+        count: Number(row.count),
+      };
+      periods.set(row.period.getTime(), stats);
+    }
+
+    return [...periods.entries()].map(([period, stats]) => ({
+      period: new Date(period),
+      keys: stats,
+    }));
+  }
+
+  /**
+   * Downsampled series when the raw points in range would exceed `limit`:
+   * the finest resolution that fits, else daily. null → raw points fit.
+   */
+  async getSeries(
+    deviceId: string,
+    key: string,
+    startDate: Date,
+    endDate: Date,
+    limit: number,
+  ): Promise<RollupPoint[] | null> {
+    if (!(await this.covers(deviceId, startDate, 'minute'))) return null;
+
+    // Raw point count, estimated from the daily rollups
+    const [{ total }] = await this.dataSource.query<Array<{ total: string }>>(
+      `SELECT COALESCE(SUM("count"), 0) AS total
+       FROM telemetry_rollups
+       WHERE "deviceId" = $1 AND "key" = $2 AND "resolution" = 'day'
+         AND "bucket" >= date_trunc('day', $3::timestamp) AND "bucket" <= $4`,
+      [deviceId, key, startDate, endDate],
+    );
+    if (Number(total) <= limit) return null;
+
+    const rangeMs = endDate.getTime() - startDate.getTime();
+    const resolution =
+      RESOLUTIONS.find((r) => rangeMs / RESOLUTION_MS[r] <= limit) ?? 'day';
+    if (!(await this.covers(deviceId, startDate, resolution))) return null;
+
+    const rows = await this.dataSource.query<RollupPoint[]>(
+      `SELECT r."bucket" AS timestamp, r."sum" / r."count" AS value,
+              r."min" AS min, r."max" AS max, r."count" AS count
+       FROM telemetry_rollups r
+       WHERE r."deviceId" = $1 AND r."key" = $2 AND r."resolution" = $3
+         AND r."bucket" >= date_trunc($3, $4::timestamp) AND r."bucket" <= $5
+       ORDER BY r."bucket" ASC
+       LIMIT $6`,
+      [deviceId, key, resolution, startDate, endDate, limit],
+    );
+
+    return rows;
+  }
+
+  // ══════════════════════════════════════════════════════════════════════════
+  // PRIVATE HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /** The first bucket touched by the query must be complete */
+  private async covers(
+    deviceId: string,
+    startDate: Date,
+    resolution: RollupResolution,
+  ): Promise<boolean> {
+    const coverage = await this.redis.hget(COVERAGE_KEY, deviceId);
+    if (!coverage) return false;
+
+    const bucketMs = RESOLUTION_MS[resolution];
+    const firstBucket = Math.floor(startDate.getTime() / bucketMs) * bucketMs;
+    return firstBucket >= Number(coverage);
+  }
+
+  /** Only a rebuild adjoining the covered range moves the mark back */
+  private async extendCoverage(
+    deviceId: string,
+    start: Date,
+    end: Date,
+  ): Promise<void> {
+    const current = await this.redis.hget(COVERAGE_KEY, deviceId);
+    const covered = current ? Number(current) : undefined;
+
+    const adjoins =
+      covered === undefined
+        ? end.getTime() >= Date.now()
+        : end.getTime() >= covered;
+    if (!adjoins) return;
+
+    if (covered === undefined || start.getTime() < covered) {
+      await this.redis.hset(COVERAGE_KEY, deviceId, String(start.getTime()));
+    }
+  }
+}
@@ -6,6 +6,8 @@ import { KafkaService } from '@/lib/kafka/kafka.service';
 import { AutomationProcessor } from '@modules/automation/automation.processor';
 import { WebsocketGateway } from '@modules/websocket/websocket.gateway';
 import { CodecRegistryService } from '../devices/codecs/codec-registry.service';
+import { CalculatedFieldsService } from './calculated-fields.service';
+import { TelemetryIngestService } from './telemetry-ingest.service';
 import { AlarmsService } from '../index.service';
 import { AlarmStatus } from '@/common/enums/alarm.enum';
 
@@ -21,6 +23,8 @@ export class TelemetryConsumer implements OnModuleInit {
     private readonly websocketGateway: WebsocketGateway,
     private readonly codecService: CodecRegistryService,
      private readonly alarmsService: AlarmsService, // 
+    private readonly calculatedFields: CalculatedFieldsService,
+    private readonly ingest: TelemetryIngestService,
   ) {}
 
   async onModuleInit(): Promise<void> {
@@ -73,28 +77,57 @@ private flattenData(obj: Record<string, any>, prefix = ''): Record<string, any>
       if (!payload.deviceId) throw new Error('Missing deviceId in telemetry payload');
       if (!payload.tenantId) throw new Error('Missing tenantId in telemetry payload');
 
+      // ── Step 0: Profile calculated fields ─────────────────────────────────
+      // Merged into data before anything else so alarms, automations and
+      // rules see them like any reported key
+      try {
+        const calculated = await this.calculatedFields.calculate(
+          payload.deviceId,
+          payload.data ?? {},
+          new Date(payload.timestamp ?? payload.receivedAt ?? Date.now()),
+        );
+        payload.data = { ...payload.data, ...calculated };
+      } catch (err) {
+        this.logger.warn(
+          `Calculated fields failed for ${payload.deviceId}: ${err.message}`,
+        );
+      }
+
       // ── Step 1: Persist ────────────────────────────────────────────────────
       const telemetry = await this.storeTelemetry(payload);
 
+      // ── Step 1b: Latest snapshot ──────────────────────────────────────────
+      // A point older than the latest one is late: stored and rolled up, but
+      // it must not look current (see LateTelemetryPolicy)
+      const { late } = await this.ingest.updateLatest(telemetry);
+      const evaluate = !late || this.ingest.latePolicy === 'evaluate';
+
          // ── Step 2: Check alarms ───────────────────────────────────────────────
-    try {
-      await this.checkAlarms(payload.deviceId, payload.data);
-    } catch (alarmError) {
-      this.logger.error(`Alarm check failed: ${(alarmError as Error).message}`);
+    if (evaluate) {
+      try {
+        await this.checkAlarms(payload.deviceId, payload.data);
+      } catch (alarmError) {
+        this.logger.error(`Alarm check failed: ${(alarmError as Error).message}`);
+      }
     }
 
       // ── Step 2: Run automations ────────────────────────────────────────────
-      try {
-        await this.automationProcessor.processTelemetry(telemetry);
-      } catch (automationError) {
-        // Log but don't fail the pipeline — automation errors must not drop telemetry
-        this.logger.error(`Automation processing failed: ${(automationError as Error).message}`);
+      // Never on late points — actuators act on the current state only
+      if (!late) {
+        try {
+          await this.automationProcessor.processTelemetry(telemetry);
+        } catch (automationError) {
+          // Log but don't fail the pipeline — automation errors must not drop telemetry
+          this.logger.error(`Automation processing failed: ${(automationError as Error).message}`);
+        }
       }
 
       // ── Step 3: Broadcast via WebSocket ────────────────────────────────────
       // broadcastDeviceTelemetry() is the correct method on WebsocketGateway.
       // Do NOT call broadcastToDevice() — that's on TelemetryGateway (different class).
-      this.websocketGateway.broadcastDeviceTelemetry(payload.deviceId, telemetry);
+      if (!late) {
+        this.websocketGateway.broadcastDeviceTelemetry(payload.deviceId, telemetry);
+      }
 
       // ── Step 4: Forward to validated topic ────────────────────────────────
       await this.kafka.sendMessage(
@@ -103,25 +136,45 @@ private flattenData(obj: Record<string, any>, prefix = ''): Record<string, any>
           ...payload,
           telemetryId: telemetry.id,
           validated: true,
+          late,
           processedAt: Date.now(),
         },
         payload.deviceId,
       );
 
-      // ── Step 5: Forward to rule engine ────────────────────────────────────
+      // ── Step 4b: Stored record → rollups (TelemetryRollupConsumer) ────────
       await this.kafka.sendMessage(
-        'rules.input',
+        'telemetry.device.processed',
         {
-          entityId: payload.deviceId,
-          entityType: 'DEVICE',
-          eventType: 'TELEMETRY',
-          data: payload.data,
-          timestamp: Date.now(),
+          tenantId: telemetry.tenantId,
+          deviceId: telemetry.deviceId,
+          telemetryId: telemetry.id,
+          timestamp: telemetry.timestamp.toISOString(),
+          data: telemetry.data,
         },
         payload.deviceId,
       );
 
-      this.logger.log(`Telemetry persisted and forwarded: ${telemetry.id}`);
+      // ── Step 5: Forward to rule engine ────────────────────────────────────
+      if (evaluate) {
+        await this.kafka.sendMessage(
+          'rules.input',
+          {
+            tenantId: payload.tenantId,
+            entityId: payload.deviceId,
+            entityType: 'DEVICE',
+            eventType: 'TELEMETRY',
+            data: payload.data,
+            metadata: { ...payload.metadata, ...(late && { late: true }) },
+            timestamp: Date.now(),
+          },
+          payload.deviceId,
+        );
+      }
+
+      this.logger.log(
+        `Telemetry persisted and forwarded: ${telemetry.id}${late ? ' (late)' : ''}`,
+      );
     } catch (error) {
       this.logger.error(`Failed to process telemetry: ${(error as Error).message}`);
 
@@ -37,8 +37,10 @@ import {
 } from './dto/telemetry-response.dto';
 import { 
   AggregationQueryDto, 
+  RollupRebuildDto,
   TimeSeriesQueryDto 
 } from './dto/aggregation.dto';
+import { TenantAdminOnly } from '../../common/decorators/access-control.decorator';
 import { 
   StatisticsQueryDto, 
   ExportQueryDto 
@@ -169,6 +171,47 @@ export class TelemetryController {
     );
   }
 
+  @Post('devices/:deviceId/rollups/rebuild')
+  @TenantAdminOnly()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary:
+      'Recompute the rollups of a device from raw telemetry (e.g. after late data)',
+  })
+  @ApiResponse({ status: 202, description: 'Rebuild jobs queued' })
+  @ApiResponse({ status: 404, description: 'Device not found' })
+  rebuildRollups(
+    @CurrentUser() user: User,
+    @Param('deviceId', ParseIdPipe) deviceId: string,
+    @Body() dto: RollupRebuildDto,
+  ) {
+    return this.telemetryService.rebuildRollups(deviceId, user, dto);
+  }
+
+  @Post('rollups/backfill')
+  @TenantAdminOnly()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Backfill rollups for every device of the tenant' })
+  @ApiResponse({ status: 202, description: 'Backfill jobs queued' })
+  backfillRollups(@CurrentUser() user: User, @Body() dto: RollupRebuildDto) {
+    return this.telemetryService.backfillRollups(user, dto);
+  }
+
+  @Get('devices/:deviceId/ingest-stats')
+  @ApiOperation({
+    summary: 'Duplicate and late telemetry counters for a device',
+    description:
+      'Uplinks dropped as retransmissions / replays, points stored after a newer one, and the timestamp of the latest snapshot',
+  })
+  @ApiResponse({ status: 200, description: 'Ingest stats retrieved' })
+  @ApiResponse({ status: 404, description: 'Device not found' })
+  getIngestStats(
+    @CurrentUser() user: User,
+    @Param('deviceId', ParseIdPipe) deviceId: string,
+  ) {
+    return this.telemetryService.getIngestStats(deviceId, user);
+  }
+
   @Get('devices/:deviceId/count')
   @ApiOperation({ summary: 'Get telemetry record count for a device' })
   @ApiResponse({ status: 200, description: 'Count retrieved', type: TelemetryCountResponseDto, })
@@ -2,33 +2,68 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BullModule } from '@nestjs/bull';
 import { TelemetryController } from './telemetry.controller';
+import { SharedTelemetryController } from './shared-telemetry.controller';
 import { TelemetryService } from './telemetry.service';
 import { TelemetryConsumer } from './telemetry.consumer';
 import { TelemetryProcessor } from './processors/telemetry.processor';
 import { Telemetry } from './entities/telemetry.entity';
+import { TelemetryRollup } from './entities/telemetry-rollup.entity';
+import { TelemetryRollupService } from './telemetry-rollup.service';
+import { TelemetryRollupConsumer } from './telemetry-rollup.consumer';
+import { TelemetryRepository } from './repositories/telemetry.repository';
+import { TelemetryRetentionService } from './telemetry-retention.service';
+import { TelemetryRetentionController } from './telemetry-retention.controller';
+import { CalculatedFieldsService } from './calculated-fields.service';
+import { TelemetryIngestModule } from './telemetry-ingest.module';
 import { KafkaModule } from '@/lib/kafka/kafka.module';
 import { RedisModule } from '@/lib/redis/redis.module';
 import { AutomationModule } from '@modules/automation/automation.module';
 import { WebsocketModule } from '@modules/websocket/websocket.module';
 import { AlarmsModule } from '@modules/alarms/alarms.module';
-import { Device } from '../index.entities';
+import { ScriptsModule } from '@modules/scripts/scripts.module';
+import { SharingModule } from '@modules/sharing/sharing.module';
+import { Device, DeviceProfile, Tenant } from '../index.entities';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Telemetry, Device]),
+    TypeOrmModule.forFeature([
+      Telemetry,
+      TelemetryRollup,
+      Device,
+      DeviceProfile,
+      Tenant,
+    ]),
     KafkaModule,
     RedisModule,
     AutomationModule,  // must export AutomationProcessor
     WebsocketModule,
     AlarmsModule,      // exports AlarmsService → needed by TelemetryProcessor
+    ScriptsModule, // exports ScriptSandboxService → calculated fields
+    TelemetryIngestModule, // dedup + latest-snapshot ordering
+    SharingModule, // ShareAccessGuard → public share-link reads
     BullModule.registerQueue({ name: 'telemetry' }),
   ],
-  controllers: [TelemetryController],
+  controllers: [
+    TelemetryController,
+    TelemetryRetentionController,
+    SharedTelemetryController,
+  ],
   providers: [
     TelemetryService,
     TelemetryConsumer,
     TelemetryProcessor,
+    TelemetryRollupService,
+    TelemetryRollupConsumer,
+    TelemetryRepository,
+    TelemetryRetentionService,
+    CalculatedFieldsService,
+  ],
+  exports: [
+    TelemetryService,
+    TelemetryRollupService,
+    TelemetryRepository,
+    TelemetryRetentionService,
+    CalculatedFieldsService,
   ],
-  exports: [TelemetryService],
 })
 export class TelemetryModule {}
\ No newline at end of file
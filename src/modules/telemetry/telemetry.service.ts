@@ -1,6 +1,7 @@
 import {
   Injectable,
   NotFoundException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
@@ -10,6 +11,18 @@ import { Device } from '../devices/entities/device.entity';
 import { CreateTelemetryDto } from './dto/create-telemetry.dto';
 import { QueryTelemetryDto } from './dto/telemetry-query.dto';
 import { RedisService } from '@/lib/redis/redis.service';
+import { TelemetryRollupService } from './telemetry-rollup.service';
+import { CalculatedFieldsService } from './calculated-fields.service';
+import {
+  IngestStats,
+  TelemetryIngestService,
+} from './telemetry-ingest.service';
+import { RollupRebuildDto } from './dto/aggregation.dto';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '@common/enums/index.enum';
+
+// Fixed-column keys summarised by getAggregated()
+const AGGREGATED_KEYS = ['temperature', 'humidity', 'pressure', 'batteryLevel'];
 
 // NOTE: TelemetryService does NOT inject KafkaService.
 // The HTTP ingestion path (POST /telemetry/devices/:deviceKey) stores the
@@ -29,6 +42,9 @@ export class TelemetryService {
     @InjectRepository(Device)
     private readonly deviceRepository: Repository<Device>,
     private readonly redisService: RedisService,
+    private readonly rollupService: TelemetryRollupService,
+    private readonly calculatedFields: CalculatedFieldsService,
+    private readonly ingest: TelemetryIngestService,
   ) {}
 
   // ── Create (HTTP ingestion path) ──────────────────────────────────────────
@@ -37,12 +53,13 @@ export class TelemetryService {
     const device = await this.deviceRepository.findOne({ where: { deviceKey } });
     if (!device) throw new NotFoundException(`Device not found: ${deviceKey}`);
 
+    const timestamp = dto.timestamp ? new Date(dto.timestamp) : new Date();
     const telemetry = this.telemetryRepository.create({
       deviceId: device.id,
       deviceKey: device.deviceKey,
       tenantId: device.tenantId,
-      timestamp: dto.timestamp ? new Date(dto.timestamp) : new Date(),
-      data: dto.data,
+      timestamp,
+      data: await this.withCalculated(device.id, dto, timestamp),
       temperature: dto.temperature,
       humidity: dto.humidity,
       pressure: dto.pressure,
@@ -54,9 +71,10 @@ export class TelemetryService {
     });
 
     const saved = await this.telemetryRepository.save(telemetry);
+    await this.recordRollups([saved]);
 
     // Cache latest values in Redis for fast reads
-    await this.cacheLatest(device.id, dto).catch((err) =>
+    await this.cacheLatest(saved).catch((err) =>
       this.logger.error(`Redis cache failed: ${err.message}`),
     );
 
@@ -79,25 +97,38 @@ export class TelemetryService {
     const device = await this.deviceRepository.findOne({ where: { deviceKey } });
     if (!device) throw new NotFoundException(`Device not found: ${deviceKey}`);
 
-    const records = dtos.map((dto) =>
-      this.telemetryRepository.create({
-        deviceId: device.id,
-        deviceKey: device.deviceKey,
-        tenantId: device.tenantId,
-        timestamp: dto.timestamp ? new Date(dto.timestamp) : new Date(),
-        data: dto.data,
-        temperature: dto.temperature,
-        humidity: dto.humidity,
-        pressure: dto.pressure,
-        latitude: dto.latitude,
-        longitude: dto.longitude,
-        batteryLevel: dto.batteryLevel,
-        signalStrength: dto.signalStrength,
-        metadata: dto.metadata,
-      }),
-    );
+    // Sequential — DELTA / RATE / COUNTER fields depend on message order
+    const records: Telemetry[] = [];
+    for (const dto of dtos) {
+      const timestamp = dto.timestamp ? new Date(dto.timestamp) : new Date();
+      records.push(
+        this.telemetryRepository.create({
+          deviceId: device.id,
+          deviceKey: device.deviceKey,
+          tenantId: device.tenantId,
+          timestamp,
+          data: await this.withCalculated(device.id, dto, timestamp),
+          temperature: dto.temperature,
+          humidity: dto.humidity,
+          pressure: dto.pressure,
+          latitude: dto.latitude,
+          longitude: dto.longitude,
+          batteryLevel: dto.batteryLevel,
+          signalStrength: dto.signalStrength,
+          metadata: dto.metadata,
+        }),
+      );
+    }
 
     const saved = await this.telemetryRepository.save(records);
+    await this.recordRollups(saved);
+
+    // Buffered uploads are often older than what the device sent live
+    for (const record of saved) {
+      await this.cacheLatest(record).catch((err: Error) =>
+        this.logger.error(`Redis cache failed: ${err.message}`),
+      );
+    }
 
     await this.deviceRepository.update(
       { id: device.id },
@@ -157,6 +188,10 @@ export class TelemetryService {
     const device = await this.deviceRepository.findOne({ where: { id: deviceId } });
     if (!device) throw new NotFoundException('Device not found');
 
+    return this.findLatest(deviceId);
+  }
+
+  private async findLatest(deviceId: string): Promise<Telemetry> {
     // // Try Redis cache first
     // try {
     //   const cached = await this.redisService.hgetall(`device:${deviceId}:telemetry:latest`);
@@ -274,6 +309,33 @@ export class TelemetryService {
     const device = await this.deviceRepository.findOne({ where: { id: deviceId } });
     if (!device) throw new NotFoundException('Device not found');
 
+    const rolledUp = await this.rollupService.getKeyStats(
+      deviceId,
+      AGGREGATED_KEYS,
+      interval,
+      new Date(startDate),
+      new Date(endDate),
+    );
+    if (rolledUp) {
+      return rolledUp.map(({ period, keys }) => ({
+        period,
+        // Records are counted per key — the best-reported key stands in
+        count: Math.max(0, ...Object.values(keys).map((k) => k.count)),
+        temperature: {
+          avg: keys.temperature?.avg ?? null,
+          min: keys.temperature?.min ?? null,
+          max: keys.temperature?.max ?? null,
+        },
+        humidity: {
+          avg: keys.humidity?.avg ?? null,
+          min: keys.humidity?.min ?? null,
+          max: keys.humidity?.max ?? null,
+        },
+        pressure: { avg: keys.pressure?.avg ?? null },
+        battery: { avg: keys.batteryLevel?.avg ?? null },
+      }));
+    }
+
     const results = await this.telemetryRepository
       .createQueryBuilder('telemetry')
       .select(`DATE_TRUNC('${interval}', telemetry.timestamp)`, 'period')
@@ -326,10 +388,30 @@ export class TelemetryService {
     const device = await this.deviceRepository.findOne({ where: { id: deviceId } });
     if (!device) throw new NotFoundException('Device not found');
 
+    return this.findTimeSeries(deviceId, key, startDate, endDate, limit);
+  }
+
+  private async findTimeSeries(
+    deviceId: string,
+    key: string,
+    startDate: string,
+    endDate: string,
+    limit: number,
+  ): Promise<any[]> {
+    // More points than `limit` → bucket averages at the finest rollup that fits
+    const downsampled = await this.rollupService.getSeries(
+      deviceId,
+      key,
+      new Date(startDate),
+      new Date(endDate),
+      limit,
+    );
+    if (downsampled) return downsampled;
+
     const results = await this.telemetryRepository
       .createQueryBuilder('telemetry')
       .select('telemetry.timestamp', 'timestamp')
-      .addSelect(`telemetry.data->>'${key}'`, 'value')
+      .addSelect('telemetry.data ->> :key', 'value')
       .where('telemetry.deviceId = :deviceId', { deviceId })
       .andWhere('telemetry.timestamp BETWEEN :startDate AND :endDate', {
         startDate: new Date(startDate),
@@ -346,6 +428,80 @@ export class TelemetryService {
     }));
   }
 
+  // ── Shared ─────────────────────────────────────────────────────────────────
+  // Share links have no user: the device is scoped to the share's tenant.
+  // SharedTelemetryController checks it is one the share covers.
+
+  async getSharedLatest(
+    deviceId: string,
+    tenantId: string,
+  ): Promise<Telemetry> {
+    const device = await this.deviceRepository.findOne({
+      where: { id: deviceId, tenantId },
+    });
+    if (!device) throw new NotFoundException('Device not found');
+
+    return this.findLatest(deviceId);
+  }
+
+  async getSharedTimeSeries(
+    deviceId: string,
+    tenantId: string,
+    key: string,
+    startDate: string,
+    endDate: string,
+    limit = 1000,
+  ): Promise<any[]> {
+    const device = await this.deviceRepository.findOne({
+      where: { id: deviceId, tenantId },
+    });
+    if (!device) throw new NotFoundException('Device not found');
+
+    return this.findTimeSeries(deviceId, key, startDate, endDate, limit);
+  }
+
+  // ── Rollups ────────────────────────────────────────────────────────────────
+
+  async rebuildRollups(
+    deviceId: string,
+    user: User,
+    dto: RollupRebuildDto,
+  ): Promise<{ devices: number; jobs: number }> {
+    const device = await this.deviceRepository.findOne({
+      where: { id: deviceId },
+    });
+    if (
+      !device ||
+      (user.role !== UserRole.SUPER_ADMIN && device.tenantId !== user.tenantId)
+    ) {
+      throw new NotFoundException('Device not found');
+    }
+
+    const { from, to } = this.rebuildRange(dto);
+    return this.rollupService.scheduleRebuild([device.id], from, to);
+  }
+
+  /** Every device of the caller's tenant */
+  async backfillRollups(
+    user: User,
+    dto: RollupRebuildDto,
+  ): Promise<{ devices: number; jobs: number }> {
+    if (!user.tenantId) {
+      throw new BadRequestException('Rollup backfill requires a tenant user');
+    }
+
+    const devices = await this.deviceRepository.find({
+      where: { tenantId: user.tenantId },
+      select: ['id'],
+    });
+    const { from, to } = this.rebuildRange(dto);
+    return this.rollupService.scheduleRebuild(
+      devices.map((d) => d.id),
+      from,
+      to,
+    );
+  }
+
   // ── Delete ─────────────────────────────────────────────────────────────────
 
   async deleteByDevice(deviceId: string, userId: string): Promise<number> {
@@ -361,17 +517,18 @@ export class TelemetryService {
     return result.affected ?? 0;
   }
 
-  async deleteOldData(daysToKeep = 90): Promise<number> {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
+  // ── Ingest stats ───────────────────────────────────────────────────────────
 
-    const result = await this.telemetryRepository
-      .createQueryBuilder()
-      .delete()
-      .where('timestamp < :cutoffDate', { cutoffDate })
-      .execute();
+  async getIngestStats(deviceId: string, user: User): Promise<IngestStats> {
+    const device = await this.deviceRepository.findOne({
+      where: {
+        id: deviceId,
+        ...(user.role !== UserRole.SUPER_ADMIN && { tenantId: user.tenantId }),
+      },
+    });
+    if (!device) throw new NotFoundException('Device not found');
 
-    return result.affected ?? 0;
+    return this.ingest.getStats(device);
   }
 
   // ── Count ──────────────────────────────────────────────────────────────────
@@ -416,20 +573,76 @@ export class TelemetryService {
     return [header, ...rows].join('\n');
   }
 
+  // ── Calculated fields helper ───────────────────────────────────────────────
+
+  // Device profile calculated fields, stored in data like reported keys
+  private async withCalculated(
+    deviceId: string,
+    dto: CreateTelemetryDto,
+    timestamp: Date,
+  ): Promise<Record<string, any> | undefined> {
+    const inputs: Record<string, any> = {
+      temperature: dto.temperature,
+      humidity: dto.humidity,
+      pressure: dto.pressure,
+      latitude: dto.latitude,
+      longitude: dto.longitude,
+      batteryLevel: dto.batteryLevel,
+      signalStrength: dto.signalStrength,
+      ...dto.data,
+    };
+    const calculated = await this.calculatedFields
+      .calculate(deviceId, inputs, timestamp)
+      .catch((err: Error) => {
+        this.logger.error(`Calculated fields failed: ${err.message}`);
+        return {};
+      });
+    return Object.keys(calculated).length
+      ? { ...dto.data, ...calculated }
+      : dto.data;
+  }
+
+  // ── Rollup helpers ─────────────────────────────────────────────────────────
+
+  // HTTP ingestion skips Kafka, so it feeds the rollups itself
+  private async recordRollups(records: Telemetry[]): Promise<void> {
+    for (const record of records) {
+      await this.rollupService
+        .record({
+          tenantId: record.tenantId,
+          deviceId: record.deviceId,
+          timestamp: record.timestamp,
+          data: record.data,
+        })
+        .catch((err: Error) =>
+          this.logger.error(
+            `Rollup of telemetry ${record.id} failed: ${err.message}`,
+          ),
+        );
+    }
+  }
+
+  private rebuildRange(dto: RollupRebuildDto): { from: Date; to: Date } {
+    const from = new Date(dto.from);
+    const to = dto.to ? new Date(dto.to) : new Date();
+    if (from >= to) {
+      throw new BadRequestException('"from" must be before "to"');
+    }
+    return { from, to };
+  }
+
   // ── Redis cache helper ─────────────────────────────────────────────────────
 
-  private async cacheLatest(deviceId: string, dto: CreateTelemetryDto): Promise<void> {
-    await this.redisService.hmset(`device:${deviceId}:telemetry:latest`, {
-      temperature: dto.temperature?.toString() ?? '',
-      humidity: dto.humidity?.toString() ?? '',
-      pressure: dto.pressure?.toString() ?? '',
-      batteryLevel: dto.batteryLevel?.toString() ?? '',
-      timestamp: Date.now().toString(),
-    });
+  private async cacheLatest(record: Telemetry): Promise<void> {
+    const { deviceId } = record;
+
+    // Late points leave the snapshot and the recent list alone
+    const { late } = await this.ingest.updateLatest(record);
+    if (late) return;
 
     await this.redisService.lpush(
       `telemetry:${deviceId}:recent`,
-      JSON.stringify({ ...dto.data, timestamp: Date.now() }),
+      JSON.stringify({ ...record.data, timestamp: record.timestamp.getTime() }),
     );
     await this.redisService.ltrim(`telemetry:${deviceId}:recent`, 0, 99);
     await this.redisService.expire(`telemetry:${deviceId}:recent`, 3600);
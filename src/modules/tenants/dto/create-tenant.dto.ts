@@ -94,6 +94,7 @@ export class CreateTenantDto {
     timezone?: string;
     language?: string;
     theme?: string;
+    inactivityTimeout?: number;
   };
 
   @ApiProperty({ enum: TenantStatus, required: false })
@@ -9,6 +9,7 @@ import {
 import { BaseEntity } from '@common/entities/base.entity';
 import { User, Customer, Subscription } from '@modules/index.entities';
 import { TenantStatus } from '@/common/enums/index.enum';
+import type { TelemetryRetentionPolicy } from '@/common/interfaces/index.interface';
 
 @Entity('tenants')
 @Index(['email', 'status'])
@@ -61,6 +62,8 @@ export class Tenant extends BaseEntity {
     timezone?: string;
     language?: string;
     theme?: string;
+    inactivityTimeout?: number; // seconds — default for devices without one
+    telemetryRetention?: TelemetryRetentionPolicy; // within the plan's retention
   };
 
   // ✅ Helper methods
@@ -36,6 +36,7 @@ export class TenantsService {
         timezone: createDto.configuration?.timezone,
         language: createDto.configuration?.language,
         theme: createDto.configuration?.theme,
+        inactivityTimeout: createDto.configuration?.inactivityTimeout,
       },
     });
 
@@ -9,6 +9,12 @@ import {
   Max,
   IsObject,
   ValidateNested,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsUUID,
+  Matches,
+  ArrayMaxSize,
 } from 'class-validator';
 import {
   Language,
@@ -17,6 +23,28 @@ import {
   DateFormat,
 } from '../entities/user-settings.entity';
 import { Type } from 'class-transformer';
+import {
+  AlarmSeverity,
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+} from '@common/enums/index.enum';
+import type {
+  NotificationDigestFrequency,
+  NotificationDigestSettings,
+  NotificationQuietHours,
+  NotificationRoutingRule,
+} from '@common/interfaces/index.interface';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Webhooks need a URL, which a personal rule has nowhere to keep
+const ROUTABLE_CHANNELS = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.SMS,
+  NotificationChannel.PUSH,
+  NotificationChannel.IN_APP,
+];
 
 // ==================== UPDATE GENERAL SETTINGS ====================
 
@@ -49,6 +77,164 @@ export class UpdateGeneralSettingsDto {
   compactMode?: boolean;
 }
 
+// ==================== NOTIFICATION ROUTING ====================
+
+export class NotificationRouteMatchDto {
+  @ApiPropertyOptional({ enum: NotificationType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(NotificationType, { each: true })
+  types?: NotificationType[];
+
+  @ApiPropertyOptional({
+    enum: AlarmSeverity,
+    isArray: true,
+    description: 'Alarm notifications only',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(AlarmSeverity, { each: true })
+  severities?: AlarmSeverity[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  customerIds?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Device group by device profile',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsUUID('4', { each: true })
+  deviceProfileIds?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Device group by tag — any of',
+    example: ['cold-room'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  deviceTags?: string[];
+}
+
+export class NotificationRateLimitDto {
+  @ApiProperty({ example: 5, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  max: number;
+
+  @ApiProperty({ example: 60, minimum: 1, maximum: 1440 })
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  windowMinutes: number;
+}
+
+export class NotificationRoutingRuleDto {
+  @ApiPropertyOptional({ description: 'Generated when omitted' })
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @ApiPropertyOptional({ example: 'Critical alarms on site A' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiProperty({ type: NotificationRouteMatchDto })
+  @ValidateNested()
+  @Type(() => NotificationRouteMatchDto)
+  match: NotificationRouteMatchDto;
+
+  @ApiProperty({
+    enum: ROUTABLE_CHANNELS,
+    isArray: true,
+    description: 'Empty mutes matching notifications',
+  })
+  @IsArray()
+  @IsIn(ROUTABLE_CHANNELS, { each: true })
+  channels: NotificationChannel[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  quietHours?: boolean;
+
+  @ApiPropertyOptional({ type: NotificationRateLimitDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationRateLimitDto)
+  rateLimit?: NotificationRateLimitDto;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  digest?: boolean;
+}
+
+export class NotificationQuietHoursDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  enabled: boolean;
+
+  @ApiProperty({ example: '22:00', description: 'Local time, HH:mm' })
+  @Matches(TIME_OF_DAY, { message: 'start must be HH:mm' })
+  start: string;
+
+  @ApiProperty({ example: '07:00', description: 'Local time, HH:mm' })
+  @Matches(TIME_OF_DAY, { message: 'end must be HH:mm' })
+  end: string;
+
+  @ApiPropertyOptional({
+    type: [Number],
+    description: '0 = Sunday; every day when omitted',
+    example: [0, 1, 2, 3, 4],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  days?: number[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  allowUrgent?: boolean;
+}
+
+export class NotificationDigestDto {
+  @ApiProperty({ enum: ['off', 'hourly', 'daily'], example: 'daily' })
+  @IsIn(['off', 'hourly', 'daily'])
+  frequency: NotificationDigestFrequency;
+
+  @ApiPropertyOptional({ example: 8, minimum: 0, maximum: 23 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  dailyHour?: number;
+
+  @ApiPropertyOptional({
+    enum: [NotificationPriority.LOW, NotificationPriority.NORMAL],
+    default: NotificationPriority.LOW,
+    description: 'Highest priority batched into the digest',
+  })
+  @IsOptional()
+  @IsIn([NotificationPriority.LOW, NotificationPriority.NORMAL])
+  maxPriority?: NotificationPriority;
+}
+
 // ==================== UPDATE NOTIFICATION SETTINGS ====================
 
 export class UpdateNotificationSettingsDto {
@@ -76,6 +262,29 @@ export class UpdateNotificationSettingsDto {
   @IsOptional()
   @IsBoolean()
   pushNotifications?: boolean;
+
+  @ApiPropertyOptional({
+    type: [NotificationRoutingRuleDto],
+    description: 'Replaces the list; the first matching rule wins',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => NotificationRoutingRuleDto)
+  notificationRules?: NotificationRoutingRuleDto[];
+
+  @ApiPropertyOptional({ type: NotificationQuietHoursDto, nullable: true })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationQuietHoursDto)
+  quietHours?: NotificationQuietHoursDto | null;
+
+  @ApiPropertyOptional({ type: NotificationDigestDto, nullable: true })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationDigestDto)
+  notificationDigest?: NotificationDigestDto | null;
 }
 
 // ==================== UPDATE DISPLAY SETTINGS ====================
@@ -108,6 +317,8 @@ export class UpdateUserSettingsDto {
 
   @ApiPropertyOptional()
   @IsOptional()
+  @ValidateNested()
+  @Type(() => UpdateNotificationSettingsDto)
   notifications?: UpdateNotificationSettingsDto;
 
   @ApiPropertyOptional()
@@ -156,6 +367,15 @@ export class UserSettingsResponseDto {
   @ApiProperty()
   pushNotifications: boolean;
 
+  @ApiProperty({ type: [NotificationRoutingRuleDto] })
+  notificationRules: NotificationRoutingRule[];
+
+  @ApiPropertyOptional({ type: NotificationQuietHoursDto, nullable: true })
+  quietHours?: NotificationQuietHours | null;
+
+  @ApiPropertyOptional({ type: NotificationDigestDto, nullable: true })
+  notificationDigest?: NotificationDigestSettings | null;
+
   // Display
   @ApiProperty({ enum: TimeFormat })
   timeFormat: TimeFormat;
@@ -9,6 +9,11 @@ import {
   JoinColumn,
 } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import type {
+  NotificationDigestSettings,
+  NotificationQuietHours,
+  NotificationRoutingRule,
+} from '@common/interfaces/index.interface';
 
 export enum Language {
   EN = 'en',
@@ -89,6 +94,16 @@ export class UserSettings {
   @Column({ default: false })
   pushNotifications: boolean; // For future mobile app
 
+  // Checked in order before the switches above, see notification-routing.interface
+  @Column({ type: 'jsonb', default: [] })
+  notificationRules: NotificationRoutingRule[];
+
+  @Column({ type: 'jsonb', nullable: true })
+  quietHours?: NotificationQuietHours | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  notificationDigest?: NotificationDigestSettings | null;
+
   // ==================== DISPLAY SETTINGS ====================
 
   @Column({
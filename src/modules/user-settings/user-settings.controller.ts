@@ -75,7 +75,7 @@ export class UserSettingsController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ 
     summary: 'Update notification preferences',
-    description: 'Configure email, alarm, device status, and weekly report notifications'
+    description: 'Configure email, alarm, device status and weekly report notifications, routing rules, quiet hours and digests'
   })
   @ApiResponse({
     status: 200,
@@ -1,10 +1,12 @@
 import {
   Injectable,
   NotFoundException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
 import { UserSettings } from './entities/user-settings.entity';
 import {
   UpdateGeneralSettingsDto,
@@ -75,7 +77,7 @@ export class UserSettingsService {
   ): Promise<UserSettingsResponseDto> {
     const settings = await this.getOrCreate(userId);
 
-    Object.assign(settings, updateDto);
+    this.applyNotificationSettings(settings, updateDto);
 
     const updated = await this.userSettingsRepository.save(settings);
 
@@ -93,6 +95,10 @@ export class UserSettingsService {
   ): Promise<UserSettingsResponseDto> {
     const settings = await this.getOrCreate(userId);
 
+    if (updateDto.timezone) {
+      this.assertTimezone(updateDto.timezone);
+    }
+
     Object.assign(settings, updateDto);
 
     const updated = await this.userSettingsRepository.save(settings);
@@ -118,11 +124,14 @@ export class UserSettingsService {
 
     // Update notification settings
     if (updateDto.notifications) {
-      Object.assign(settings, updateDto.notifications);
+      this.applyNotificationSettings(settings, updateDto.notifications);
     }
 
     // Update display settings
     if (updateDto.display) {
+      if (updateDto.display.timezone) {
+        this.assertTimezone(updateDto.display.timezone);
+      }
       Object.assign(settings, updateDto.display);
     }
 
@@ -195,6 +204,36 @@ export class UserSettingsService {
     this.logger.log(`Custom preferences updated for user: ${userId}`);
   }
 
+  /**
+   * Routing rules keep a stable id — it keys their rate-limit counters
+   */
+  private applyNotificationSettings(
+    settings: UserSettings,
+    updateDto: UpdateNotificationSettingsDto,
+  ): void {
+    const { notificationRules, ...rest } = updateDto;
+    Object.assign(settings, rest);
+
+    if (notificationRules) {
+      settings.notificationRules = notificationRules.map((rule) => ({
+        ...rule,
+        id: rule.id ?? randomUUID(),
+        enabled: rule.enabled ?? true,
+      }));
+    }
+  }
+
+  /**
+   * Quiet hours and digests are evaluated in this zone
+   */
+  private assertTimezone(timezone: string): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new BadRequestException(`Unknown timezone: ${timezone}`);
+    }
+  }
+
   /**
    * Convert entity to response DTO
    */
@@ -212,6 +251,9 @@ export class UserSettingsService {
       deviceStatusNotifications: settings.deviceStatusNotifications,
       weeklyReports: settings.weeklyReports,
       pushNotifications: settings.pushNotifications,
+      notificationRules: settings.notificationRules ?? [],
+      quietHours: settings.quietHours ?? null,
+      notificationDigest: settings.notificationDigest ?? null,
       timeFormat: settings.timeFormat,
       dateFormat: settings.dateFormat,
       timezone: settings.timezone,
@@ -10,8 +10,19 @@ import {
   MessageBody,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger, UseGuards } from '@nestjs/common';
+import { BadRequestException, Logger, UseGuards } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
 import { WsJwtGuard } from '@common/guards/ws-jwt.guard';
+import { ShareResourceType } from '@common/enums/index.enum';
+import type {
+  SharePrincipal,
+  ShareRevokedEvent,
+} from '@common/interfaces/index.interface';
+import { CommandValidationService } from '@modules/devices/codecs/command-validation.service';
+import { ShareAccessService } from '@modules/sharing/share-access.service';
+
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2_147_483_647;
 
 interface AuthenticatedSocket extends Socket {
   data: {
@@ -21,6 +32,9 @@ interface AuthenticatedSocket extends Socket {
     tenantId?: string;
     customerId?: string;
     user?: any;
+    // Share link viewers (no JWT) — see share:subscribe
+    share?: SharePrincipal;
+    shareCredentials?: { token: string; accessToken?: string };
   };
 }
 
@@ -42,8 +56,14 @@ export class WebsocketGateway
   // Track which clients are subscribed to which resources
   private subscriptions = new Map<string, Set<string>>();
   // socket.id → Set of room names (device:123, dashboard:456)
+
+  // socket.id → timer that drops the share viewer when the link expires
+  private shareExpiryTimers = new Map<string, NodeJS.Timeout>();
   
-  constructor() {}
+  constructor(
+    private readonly commandValidation: CommandValidationService,
+    private readonly shareAccess: ShareAccessService,
+  ) {}
 
   afterInit(server: Server) {
     this.logger.log('🚀 WebSocket Gateway initialized');
@@ -80,6 +100,7 @@ export class WebsocketGateway
 
     // Clean up subscriptions
     this.subscriptions.delete(client.id);
+    this.clearShareExpiry(client.id);
 
     this.broadcastConnectionCount();
   }
@@ -260,6 +281,84 @@ export class WebsocketGateway
     };
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // SHARE LINK SUBSCRIPTIONS (Public read-only dashboards)
+  // ══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Live telemetry for a share link viewer — no JWT, the link token (plus
+   * the unlock accessToken for password-protected links) is the credential.
+   * Share rooms only ever receive device:telemetry and dashboard:updated —
+   * no alarms, statuses or commands.
+   */
+  @SubscribeMessage('share:subscribe')
+  async handleShareSubscribe(
+    @ConnectedSocket() client: AuthenticatedSocket,
+    @MessageBody() data: { token: string; accessToken?: string },
+  ) {
+    if (!data?.token) {
+      return { success: false, message: 'token is required' };
+    }
+
+    let share: SharePrincipal;
+    try {
+      share = await this.shareAccess.authorize(data.token, {
+        ip: client.handshake.address,
+        accessToken: data.accessToken,
+      });
+    } catch (error) {
+      return { success: false, message: (error as Error).message };
+    }
+
+    this.leaveShareRooms(client);
+    client.data.share = share;
+    client.data.shareCredentials = {
+      token: data.token,
+      accessToken: data.accessToken,
+    };
+
+    this.joinShareRooms(client, share);
+    this.scheduleShareExpiry(client, share);
+
+    this.logger.log(
+      `🔗 Client ${client.id} subscribed to share ${share.shareId} ` +
+        `with ${share.deviceIds.length} devices`,
+    );
+
+    return {
+      success: true,
+      resourceType: share.resourceType,
+      resourceId: share.resourceId,
+      deviceIds: share.deviceIds,
+    };
+  }
+
+  @SubscribeMessage('share:unsubscribe')
+  handleShareUnsubscribe(@ConnectedSocket() client: AuthenticatedSocket) {
+    this.leaveShareRooms(client);
+    this.clearShareExpiry(client.id);
+    client.data.share = undefined;
+    client.data.shareCredentials = undefined;
+
+    return { success: true, message: 'Unsubscribed from share' };
+  }
+
+  /**
+   * Revoked or changed share links — viewers lose the stream right away and
+   * have to subscribe again (which fails if the link is gone)
+   */
+  @OnEvent('share.revoked')
+  handleShareRevoked(event: ShareRevokedEvent) {
+    for (const shareId of event.shareIds) {
+      const room = `share:${shareId}`;
+      this.server.to(room).emit('share:revoked', {
+        shareId,
+        reason: event.reason,
+      });
+      this.server.in(room).disconnectSockets(true);
+    }
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
   // DEVICE COMMANDS (Control Widgets)
   // ══════════════════════════════════════════════════════════════════════════
@@ -269,7 +368,7 @@ export class WebsocketGateway
    */
   @SubscribeMessage('device:command')
   @UseGuards(WsJwtGuard)
-  handleDeviceCommand(
+  async handleDeviceCommand(
     @ConnectedSocket() client: AuthenticatedSocket,
     @MessageBody() data: { 
       deviceId: string; 
@@ -282,13 +381,34 @@ export class WebsocketGateway
       `${data.command} on device ${data.deviceId}`
     );
 
+    // Same schema check as the REST endpoint — widgets send strings
+    let params: Record<string, any>;
+    try {
+      params = await this.commandValidation.validateForDevice(
+        data.deviceId,
+        client.data.tenantId,
+        data.command,
+        data.params as Record<string, any> | undefined,
+      );
+    } catch (error) {
+      const errors =
+        error instanceof BadRequestException
+          ? (error.getResponse() as { message: string[] }).message
+          : [(error as Error).message];
+      return {
+        success: false,
+        message: 'Command rejected',
+        errors,
+      };
+    }
+
     // Emit to MQTT service (which will forward to the actual device)
     this.server.emit('device:command:request', {
       userId: client.data.userId,
       tenantId: client.data.tenantId,
       deviceId: data.deviceId,
       command: data.command,
-      params: data.params,
+      params,
       timestamp: Date.now(),
     });
 
@@ -309,16 +429,20 @@ export class WebsocketGateway
   broadcastDeviceTelemetry(deviceId: string, telemetry: any) {
     const room = `device:${deviceId}`;
     
-    this.server.to(room).emit('device:telemetry', {
-      deviceId,
-      timestamp: telemetry.timestamp,
-      data: telemetry.data,
-      // Include denormalized fields for convenience
-      temperature: telemetry.temperature,
-      humidity: telemetry.humidity,
-      pressure: telemetry.pressure,
-      batteryLevel: telemetry.batteryLevel,
-    });
+    // Share link viewers of the device get the same readings
+    this.server
+      .to(room)
+      .to(`shared-device:${deviceId}`)
+      .emit('device:telemetry', {
+        deviceId,
+        timestamp: telemetry.timestamp,
+        data: telemetry.data,
+        // Include denormalized fields for convenience
+        temperature: telemetry.temperature,
+        humidity: telemetry.humidity,
+        pressure: telemetry.pressure,
+        batteryLevel: telemetry.batteryLevel,
+      });
 
     this.logger.debug(`📤 Broadcast telemetry for device ${deviceId} to room ${room}`);
   }
@@ -367,11 +491,22 @@ export class WebsocketGateway
   broadcastDashboardUpdate(dashboardId: string, update: any) {
     const room = `dashboard:${dashboardId}`;
     
-    this.server.to(room).emit('dashboard:updated', {
-      dashboardId,
-      update,
-      timestamp: Date.now(),
-    });
+    // Share link viewers reload the dashboard over /shared/:token too
+    this.server
+      .to(room)
+      .to(`shared-dashboard:${dashboardId}`)
+      .emit('dashboard:updated', {
+        dashboardId,
+        update,
+        timestamp: Date.now(),
+      });
+
+    // Widgets changed → the devices a share link may stream changed too
+    this.resyncSharedDashboard(dashboardId).catch((error: Error) =>
+      this.logger.error(
+        `Share resync for dashboard ${dashboardId} failed: ${error.message}`,
+      ),
+    );
   }
 
   /**
@@ -412,6 +547,101 @@ export class WebsocketGateway
     this.server.emit('stats:connections', stats);
   }
 
+  // ══════════════════════════════════════════════════════════════════════════
+  // SHARE LINK HELPERS
+  // ══════════════════════════════════════════════════════════════════════════
+
+  private shareRooms(share: SharePrincipal): string[] {
+    return [
+      `share:${share.shareId}`,
+      ...(share.resourceType === ShareResourceType.DASHBOARD
+        ? [`shared-dashboard:${share.resourceId}`]
+        : []),
+      ...share.deviceIds.map((deviceId) => `shared-device:${deviceId}`),
+    ];
+  }
+
+  private joinShareRooms(client: AuthenticatedSocket, share: SharePrincipal) {
+    const rooms = this.shareRooms(share);
+    void client.join(rooms);
+    rooms.forEach((room) => this.subscriptions.get(client.id)?.add(room));
+  }
+
+  private leaveShareRooms(client: AuthenticatedSocket) {
+    if (!client.data.share) return;
+    for (const room of this.shareRooms(client.data.share)) {
+      void client.leave(room);
+      this.subscriptions.get(client.id)?.delete(room);
+    }
+  }
+
+  private scheduleShareExpiry(
+    client: AuthenticatedSocket,
+    share: SharePrincipal,
+  ) {
+    this.clearShareExpiry(client.id);
+    if (!share.expiresAt) return;
+
+    const delay = new Date(share.expiresAt).getTime() - Date.now();
+    if (delay > MAX_TIMER_MS) return;
+
+    const timer = setTimeout(
+      () => {
+        client.emit('share:revoked', {
+          shareId: share.shareId,
+          reason: 'expired',
+        });
+        client.disconnect(true);
+      },
+      Math.max(0, delay),
+    );
+    this.shareExpiryTimers.set(client.id, timer);
+  }
+
+  private clearShareExpiry(socketId: string) {
+    const timer = this.shareExpiryTimers.get(socketId);
+    if (timer) clearTimeout(timer);
+    this.shareExpiryTimers.delete(socketId);
+  }
+
+  /** Re-checks every share viewer of the dashboard and moves device rooms */
+  private async resyncSharedDashboard(dashboardId: string) {
+    const sockets = await this.server
+      .in(`shared-dashboard:${dashboardId}`)
+      .fetchSockets();
+
+    for (const socket of sockets) {
+      const data = socket.data as AuthenticatedSocket['data'];
+      const previous = data.share;
+      const credentials = data.shareCredentials;
+      if (!previous || !credentials) continue;
+
+      let share: SharePrincipal;
+      try {
+        share = await this.shareAccess.authorize(credentials.token, {
+          ip: socket.handshake.address,
+          accessToken: credentials.accessToken,
+        });
+      } catch {
+        socket.emit('share:revoked', {
+          shareId: previous.shareId,
+          reason: 'revoked',
+        });
+        socket.disconnect(true);
+        continue;
+      }
+
+      const current = new Set(share.deviceIds);
+      previous.deviceIds
+        .filter((deviceId) => !current.has(deviceId))
+        .forEach((deviceId) => socket.leave(`shared-device:${deviceId}`));
+      socket.join(
+        share.deviceIds.map((deviceId) => `shared-device:${deviceId}`),
+      );
+      data.share = share;
+    }
+  }
+
   /**
    * Get subscriptions for a specific device
    */
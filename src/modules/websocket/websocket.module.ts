@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { JwtModule, JwtModuleOptions } from '@nestjs/jwt';
 import { ConfigService, ConfigModule } from '@nestjs/config';
 import { WebsocketGateway } from './websocket.gateway';
+import { SharingModule } from '@modules/sharing/sharing.module';
 
 @Module({
   imports: [
@@ -15,6 +16,7 @@ import { WebsocketGateway } from './websocket.gateway';
       }),
       inject: [ConfigService],
     }),
+    SharingModule, // ShareAccessService → share:subscribe
   ],
   providers: [WebsocketGateway],
   exports: [WebsocketGateway],